@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnthropicClient, parseAnalysisResponse, RETRY_SYSTEM_PROMPT } from '@/lib/anthropic/client';
+import { ANALYSIS_SYSTEM_PROMPT, buildAnalysisUserPrompt } from '@/lib/anthropic/prompts';
+import {
+  AnalyzeRequestSchema,
+  AnalysisResultSchema,
+  validateBase64Image,
+  validateOriginalTextMatches,
+} from '@/lib/utils/validation';
+import { findTextInPrompt } from '@/lib/utils/textMatcher';
+import { createEventStream, EVENT_STREAM_HEADERS } from '@/lib/utils/eventStream';
+import type { AnalysisResult } from '@/types/analysis';
+import type { ImageFeedback } from '@/types/feedback';
+import type { TokenUsage } from '@/types/tokens';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+/**
+ * Parse and validate a raw model response against the analysis schema.
+ * Throws so analyzePromptWithRetry can fall back to the stricter retry prompt.
+ */
+function parseAndValidate(response: string) {
+  const parsed = parseAnalysisResponse(response);
+  const result = AnalysisResultSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid analysis structure: ${result.error.issues[0]?.message ?? 'unknown'}`);
+  }
+  return result.data;
+}
+
+/**
+ * Drop suggestions whose originalText is not in the prompt, then re-anchor the
+ * rest to their real position (the model's indices are rarely exact).
+ */
+function finalizeAnalysis(
+  prompt: string,
+  analysis: ReturnType<typeof parseAndValidate>
+): { analysis: AnalysisResult; filteredCount: number } {
+  const { validatedAnalysis, filteredCount } = validateOriginalTextMatches(prompt, analysis);
+
+  const sections = validatedAnalysis.sections.map((section) => {
+    const match = findTextInPrompt(prompt, section.originalText, { enableFuzzy: true });
+    return {
+      ...section,
+      // The model tends to reuse placeholder ids like "uuid"
+      id: crypto.randomUUID(),
+      startIndex: match.found ? match.startIndex : section.startIndex,
+      endIndex: match.found ? match.endIndex : section.endIndex,
+    };
+  });
+
+  return {
+    analysis: {
+      ...validatedAnalysis,
+      sections: sections.sort((a, b) => a.startIndex - b.startIndex),
+      inconsistencies: validatedAnalysis.inconsistencies.map((inc) => ({
+        ...inc,
+        id: crypto.randomUUID(),
+      })),
+      timestamp: Date.now(),
+    },
+    filteredCount,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = AnalyzeRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0]?.message || 'Request invalido' },
+        { status: 400 }
+      );
+    }
+
+    const { prompt, feedback, sharedContext } = validation.data;
+
+    const images = feedback.filter((item): item is ImageFeedback => item.type === 'image' && !!item.base64);
+    for (const image of images) {
+      const imageCheck = validateBase64Image(image.base64!);
+      if (!imageCheck.valid) {
+        return NextResponse.json(
+          { error: `${image.name}: ${imageCheck.error}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const textFeedback = feedback
+      .filter((item) => item.type === 'text')
+      .map((item) => item.content);
+
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key no configurada' },
+        { status: 500 }
+      );
+    }
+
+    const client = new AnthropicClient(apiKey);
+    const userPrompt = buildAnalysisUserPrompt(prompt, textFeedback, sharedContext);
+    let cancelled = false;
+
+    const eventStream = createEventStream(async (send) => {
+      let fullText = '';
+      let usage: TokenUsage | null = null;
+
+      for await (const part of client.analyzePromptStream(ANALYSIS_SYSTEM_PROMPT, userPrompt, images)) {
+        if (cancelled) return;
+
+        if (part.type === 'chunk') {
+          fullText += part.content;
+          send('progress', { receivedChars: fullText.length });
+        } else {
+          usage = part.usage;
+        }
+      }
+
+      if (usage) {
+        send('usage', usage);
+      }
+
+      send('validating', {});
+
+      let result: ReturnType<typeof parseAndValidate>;
+      try {
+        result = parseAndValidate(fullText);
+      } catch (error) {
+        console.warn('Streamed analysis failed validation, retrying:', error);
+        result = (await client.analyzePromptWithRetry(
+          RETRY_SYSTEM_PROMPT,
+          RETRY_SYSTEM_PROMPT,
+          userPrompt,
+          images,
+          parseAndValidate
+        )) as ReturnType<typeof parseAndValidate>;
+      }
+
+      const { analysis, filteredCount } = finalizeAnalysis(prompt, result);
+
+      send('done', { analysis, filteredCount });
+    }, () => {
+      cancelled = true;
+    });
+
+    return new Response(eventStream, { headers: EVENT_STREAM_HEADERS });
+  } catch (error) {
+    console.error('Analyze error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Error al analizar el prompt' },
+      { status: 500 }
+    );
+  }
+}
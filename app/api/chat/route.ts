@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { extractLearningsFromChatResponse, type ExtractedLearning } from '@/lib/utils/learningExtractor';
 import { detectDuplicatePatterns, generateTestingSuggestions } from '@/lib/utils/duplicatePatternDetector';
+import { createEventStream, EVENT_STREAM_HEADERS } from '@/lib/utils/eventStream';
+import { buildSharedContextBlock } from '@/lib/utils/sharedContext';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -422,7 +424,8 @@ Para que funcione correctamente:
 6. Para inserciones, usá **Ubicación:** en lugar de **Antes:**
 6b. El texto en **Ubicación:** debe contener una línea o frase EXACTA que exista en el prompt actual, precedida de "Después de" o "Debajo de". Ejemplo: Debajo de "- Never reveal you're an AI". NO parafrasees ni resumas el texto ancla.
 7. Siempre incluí la **Razón:** al final de cada cambio
-8. El texto en **Antes:** debe ser una copia EXACTA del texto original del prompt para que el botón Aplicar pueda encontrarlo y reemplazarlo`;
+8. El texto en **Antes:** debe ser una copia EXACTA del texto original del prompt para que el botón Aplicar pueda encontrarlo y reemplazarlo
+9. Si el cambio aplica conocimiento previo del equipo, agregá antes de la **Razón:** el campo **Aprendizajes:** con los números de esos patrones o anti-patrones (ej: 1, 3). Citá solo los que usaste en ESE cambio; si no usaste ninguno, omití el campo`;
 
 interface ChatMessage {
   role: 'user' | 'assistant';
@@ -432,7 +435,7 @@ interface ChatMessage {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { prompt, question, history = [], relevantLearnings = [], allKnowledge = [], historicalDecisions = [], projectId } = body as {
+    const { prompt, question, history = [], relevantLearnings = [], allKnowledge = [], historicalDecisions = [], sharedContext } = body as {
       prompt: string;
       question: string;
       history: ChatMessage[];
@@ -444,6 +447,9 @@ export async function POST(request: NextRequest) {
         example?: string;
         effectiveness: 'high' | 'medium' | 'low';
         usageCount: number;
+        similarity?: number;  // 0-1 with the question, from the knowledge index
+        scope?: string;       // e.g. "Canal: whatsapp"; absent for global learnings
+        conflictsWith?: string[];  // Ids of other learnings in this list that contradict this one
       }>;
       allKnowledge?: Array<{
         id: string;
@@ -460,6 +466,7 @@ export async function POST(request: NextRequest) {
         justification: string;
       }>;
       projectId?: string;
+      sharedContext?: string;
     };
 
     if (!prompt || !question) {
@@ -484,6 +491,12 @@ export async function POST(request: NextRequest) {
 
     // Build initial context with prompt and relevant learnings
     let initialContext = `Este es el prompt del agente de Ninjo que estoy trabajando:\n\n<prompt>\n${prompt}\n</prompt>`;
+
+    // Business data shared by the project's agents (offers, prices, links)
+    const contextBlock = buildSharedContextBlock(sharedContext);
+    if (contextBlock) {
+      initialContext += `\n\n---\n\n${contextBlock}`;
+    }
     
     // Inject relevant learnings if available
     if (relevantLearnings && relevantLearnings.length > 0) {
@@ -495,7 +508,8 @@ export async function POST(request: NextRequest) {
         const priority = learning.effectiveness === 'high' ? '(Alta prioridad)' : 
                         learning.effectiveness === 'medium' ? '(Media prioridad)' : '(Baja prioridad)';
         
-        initialContext += `${emoji} **${typeLabel} ${index + 1}** ${priority}\n`;
+        const similarity = learning.similarity !== undefined ? ` (similitud ${Math.round(learning.similarity * 100)}%)` : '';
+        initialContext += `${emoji} **${typeLabel} ${index + 1}** ${priority}${similarity}\n`;
         initialContext += `**Título:** ${learning.title}\n`;
         initialContext += `**Descripción:** ${learning.description}\n`;
         
@@ -503,12 +517,27 @@ export async function POST(request: NextRequest) {
           initialContext += `**Ejemplo:**\n\`\`\`\n${learning.example}\n\`\`\`\n`;
         }
         
+        if (learning.scope) {
+          initialContext += `**Alcance:** ${learning.scope} (no es global: si choca con un aprendizaje global, priorizá este)\n`;
+        }
+        
         if (learning.usageCount > 0) {
           initialContext += `**Usado ${learning.usageCount} veces en otros proyectos**\n`;
         }
+
+        const conflicting = relevantLearnings.filter(l => learning.conflictsWith?.includes(l.id));
+        if (conflicting.length > 0) {
+          initialContext += `**Contradice a:** ${conflicting.map(l => `"${l.title}"`).join(', ')}\n`;
+        }
         
         initialContext += `\n`;
       });
+
+      // Learnings marked as contradictory travel together with a warning
+      const hasConflicts = relevantLearnings.some(l => l.conflictsWith && l.conflictsWith.length > 0);
+      if (hasConflicts) {
+        initialContext += `\n**⚠️ CONOCIMIENTO EN CONFLICTO:** El equipo marcó algunos de estos aprendizajes como contradictorios. No apliques uno sin mencionar el otro: explicá la contradicción y, si no queda claro cuál corresponde a este prompt, preguntá antes de sugerir un cambio.\n`;
+      }
       
       initialContext += `\n**IMPORTANTE:** Usa este conocimiento previo para dar mejores sugerencias. Si detectas que el prompt actual tiene alguno de estos anti-patrones, mencionalo. Si puedes aplicar alguno de estos patrones, sugiérelo.`;
     }
@@ -538,37 +567,50 @@ export async function POST(request: NextRequest) {
       content: question,
     });
 
-    const response = await client.messages.create({
+    const stream = client.messages.stream({
       model: MODEL,
       max_tokens: 8000,
       system: CHAT_SYSTEM_PROMPT,
       messages,
     });
 
-    const textContent = response.content.find((block) => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in response');
-    }
-
-    // Extract learnings from the response
-    const learnings = extractLearningsFromChatResponse(textContent.text);
-
-    // Detect duplicate patterns
-    const duplicates = learnings.length > 0 && allKnowledge.length > 0
-      ? detectDuplicatePatterns(learnings, allKnowledge as any, 0.5)
-      : [];
+    // Stream text as `delta` events; learnings and duplicates are computed once the answer is complete
+    const eventStream = createEventStream(async (send) => {
+      let fullText = '';
 
-    // Generate testing suggestions based on historical decisions
-    const testingSuggestions = historicalDecisions.length > 0
-      ? generateTestingSuggestions(prompt, historicalDecisions, 5)
-      : [];
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          fullText += event.delta.text;
+          send('delta', { text: event.delta.text });
+        }
+      }
+
+      if (!fullText) {
+        throw new Error('No text content in response');
+      }
+
+      // Extract learnings from the response
+      const learnings = extractLearningsFromChatResponse(fullText);
+
+      // Detect duplicate patterns
+      const duplicates = learnings.length > 0 && allKnowledge.length > 0
+        ? detectDuplicatePatterns(learnings, allKnowledge as any, 0.5)
+        : [];
+
+      // Generate testing suggestions based on historical decisions
+      const testingSuggestions = historicalDecisions.length > 0
+        ? generateTestingSuggestions(prompt, historicalDecisions, 5)
+        : [];
+
+      send('done', {
+        response: fullText,
+        learnings: learnings.length > 0 ? learnings : undefined,
+        duplicates: duplicates.length > 0 ? duplicates : undefined,
+        testingSuggestions: testingSuggestions.length > 0 ? testingSuggestions : undefined,
+      });
+    }, () => stream.abort());
 
-    return NextResponse.json({
-      response: textContent.text,
-      learnings: learnings.length > 0 ? learnings : undefined,
-      duplicates: duplicates.length > 0 ? duplicates : undefined,
-      testingSuggestions: testingSuggestions.length > 0 ? testingSuggestions : undefined,
-    });
+    return new Response(eventStream, { headers: EVENT_STREAM_HEADERS });
   } catch (error) {
     console.error('Chat error:', error);
 
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { comparePromptsOnInput } from '@/lib/utils/promptComparison';
+import { createAnthropicSimulationClient } from '@/lib/anthropic/simulatorClient';
+import type { ComparisonInput } from '@/types/comparison';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { input, promptA, promptB, sharedContext } = body as {
+      input?: ComparisonInput;
+      promptA?: string;
+      promptB?: string;
+      sharedContext?: string;
+    };
+
+    const lastTurn = input?.history?.[input.history.length - 1];
+    if (!input || !lastTurn || lastTurn.role !== 'lead') {
+      return NextResponse.json(
+        { error: 'Se requiere un mensaje del lead' },
+        { status: 400 }
+      );
+    }
+
+    if (!promptA?.trim() || !promptB?.trim()) {
+      return NextResponse.json(
+        { error: 'Se requieren los dos prompts a comparar' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key no configurada' },
+        { status: 500 }
+      );
+    }
+
+    const result = await comparePromptsOnInput(
+      input,
+      promptA,
+      promptB,
+      createAnthropicSimulationClient(apiKey),
+      typeof sharedContext === 'string' ? sharedContext : undefined
+    );
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Prompt comparison error:', error);
+    return NextResponse.json(
+      { error: 'Error al comparar los prompts' },
+      { status: 500 }
+    );
+  }
+}
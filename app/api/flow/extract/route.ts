@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { validateFlow } from '@/lib/utils/flowValidator';
+import { normalizeSwitchNodes } from '@/lib/utils/flowSwitch';
+import { buildSharedContextBlock } from '@/lib/utils/sharedContext';
 import type { FlowData } from '@/types/flow';
 
 export const runtime = 'nodejs';
@@ -14,7 +16,7 @@ Tu tarea es convertir una sección de texto que describe un flujo conversacional
 
 ## REGLA PRINCIPAL: NO inventar nada
 - Solo representá lo que existe en el texto original
-- Cada paso numerado → un nodo (action o decision)
+- Cada paso numerado → un nodo (action, decision o switch)
 - NO agregar pasos que no están en el texto
 - Preservar los labels originales (truncados a 40 caracteres si es necesario)
 
@@ -25,14 +27,19 @@ Tu tarea es convertir una sección de texto que describe un flujo conversacional
 3. Pasos con condicionales explícitos (Si/No, If/Else, cuando/cuando no) → nodo "decision" con dos ramas:
    - sourceHandle "yes" para la rama positiva (Si)
    - sourceHandle "no" para la rama negativa (No)
+   Pasos que se abren en MÁS de dos caminos (según lo que pida el lead: precio / agendar / otra cosa) → nodo "switch":
+   - data.outputs lista las salidas en orden: [{ "id": "out-1", "label": "Precio" }, { "id": "out-2", "label": "Agendar" }]
+   - cada edge sale con sourceHandle igual al id de su salida y label igual a su label
+   - si el texto tiene un caso "si no / cualquier otra cosa", va como última salida con label "Otro"
 4. Referencias a otros flujos ("ir a X_FLOW", "move to X_FLOW", "pasar a X_FLOW") → nodo "end" con label "→ X_FLOW"
 5. Si un paso es claramente un cierre o despedida → nodo "end"
-6. Los edges de decisiones DEBEN tener sourceHandle "yes" o "no"
+6. Los edges de decisiones DEBEN tener sourceHandle "yes" o "no"; los de switch, el id de una de sus salidas
 
 ## Layout:
 - Start node: x=400, y=50
 - Cada capa siguiente: y += 150
 - Ramas de decisión: rama "Si" en x=250, rama "No" en x=550
+- Salidas de switch: de izquierda a derecha en el orden de data.outputs, separadas 250 en x
 - Nodos que reconvergen: volver a x=400
 - Centro principal: x=400
 
@@ -55,7 +62,7 @@ Tu tarea es convertir una sección de texto que describe un flujo conversacional
         "source": "ext-0001",
         "target": "ext-0002",
         "label": "opcional",
-        "sourceHandle": "solo para decisions: yes o no"
+        "sourceHandle": "solo para decisions (yes o no) y switch (id de la salida)"
       }
     ]
   },
@@ -66,7 +73,7 @@ Tu tarea es convertir una sección de texto que describe un flujo conversacional
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { flowText, flowName, context } = body;
+    const { flowText, flowName, context, sharedContext } = body;
 
     if (!flowText || typeof flowText !== 'string' || flowText.trim().length === 0) {
       return NextResponse.json(
@@ -91,6 +98,11 @@ export async function POST(request: NextRequest) {
       userMessage += `\n\n## Contexto adicional del prompt:\n${context.trim().substring(0, 1500)}`;
     }
 
+    const contextBlock = buildSharedContextBlock(typeof sharedContext === 'string' ? sharedContext : undefined);
+    if (contextBlock) {
+      userMessage += `\n\n${contextBlock}`;
+    }
+
     const response = await client.messages.create({
       model: MODEL,
       max_tokens: 4000,
@@ -155,11 +167,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Switch outputs and edge handles must agree before the canvas renders them
+    const flow = normalizeSwitchNodes(parsed.flow);
+
     // Run validation
-    const warnings = validateFlow(parsed.flow);
+    const warnings = validateFlow(flow);
 
     return NextResponse.json({
-      flow: parsed.flow,
+      flow,
       summary: parsed.summary || 'Flujo extraído exitosamente',
       suggestions: parsed.suggestions || [],
       warnings,
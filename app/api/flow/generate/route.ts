@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { validateFlow } from '@/lib/utils/flowValidator';
+import { buildSharedContextBlock } from '@/lib/utils/sharedContext';
 import type { FlowData } from '@/types/flow';
 
 export const runtime = 'nodejs';
@@ -62,7 +63,7 @@ Tu tarea es convertir una descripción en lenguaje natural en un flujo estructur
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { description, context } = body;
+    const { description, context, sharedContext } = body;
 
     if (!description || typeof description !== 'string' || description.trim().length === 0) {
       return NextResponse.json(
@@ -88,6 +89,11 @@ export async function POST(request: NextRequest) {
       userMessage += `\n\n## Contexto del prompt actual:\n${context.trim().substring(0, 2000)}`;
     }
 
+    const contextBlock = buildSharedContextBlock(typeof sharedContext === 'string' ? sharedContext : undefined);
+    if (contextBlock) {
+      userMessage += `\n\n${contextBlock}`;
+    }
+
     const response = await client.messages.create({
       model: MODEL,
       max_tokens: 4000,
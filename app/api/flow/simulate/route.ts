@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSimulatedConversation } from '@/lib/utils/conversationSimulator';
+import { createAnthropicSimulationClient } from '@/lib/anthropic/simulatorClient';
+import type { FlowData, FlowTestCase } from '@/types/flow';
+
+export const runtime = 'nodejs';
+// Up to MAX_TURNS_LIMIT turns of two model calls each, plus the judge: 25 calls
+export const maxDuration = 300;
+
+const MAX_TURNS_LIMIT = 12;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { testCase, flowData, agentPrompt, maxTurns, sharedContext } = body as {
+      testCase?: FlowTestCase;
+      flowData?: FlowData;
+      agentPrompt?: string;
+      maxTurns?: number;
+      sharedContext?: string;
+    };
+
+    if (!flowData || !Array.isArray(flowData.nodes) || !Array.isArray(flowData.edges)) {
+      return NextResponse.json(
+        { error: 'Se requiere un flujo valido' },
+        { status: 400 }
+      );
+    }
+
+    if (!testCase || !testCase.triggerMessage || !testCase.expectedOutcome) {
+      return NextResponse.json(
+        { error: 'Se requiere un test case valido' },
+        { status: 400 }
+      );
+    }
+
+    if (!agentPrompt || agentPrompt.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Se requiere el prompt del agente' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key no configurada' },
+        { status: 500 }
+      );
+    }
+
+    const run = await runSimulatedConversation(
+      {
+        ...testCase,
+        redFlags: testCase.redFlags || [],
+        nodesExpectedToVisit: testCase.nodesExpectedToVisit || [],
+      },
+      flowData,
+      agentPrompt,
+      createAnthropicSimulationClient(apiKey),
+      { maxTurns: Math.min(maxTurns || 8, MAX_TURNS_LIMIT), sharedContext }
+    );
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('Flow simulation error:', error);
+    return NextResponse.json(
+      { error: 'Error al simular la conversacion' },
+      { status: 500 }
+    );
+  }
+}
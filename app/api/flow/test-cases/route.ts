@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
+import { buildSharedContextBlock } from '@/lib/utils/sharedContext';
 import type { FlowData } from '@/types/flow';
 
 export const runtime = 'nodejs';
@@ -48,7 +49,7 @@ Tu tarea es analizar un flujo conversacional (FlowData JSON) y generar test case
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { flowData, promptContext } = body;
+    const { flowData, promptContext, sharedContext } = body;
 
     if (!flowData || !Array.isArray(flowData.nodes) || !Array.isArray(flowData.edges)) {
       return NextResponse.json(
@@ -73,6 +74,11 @@ export async function POST(request: NextRequest) {
       userMessage += `\n\nContexto del prompt del agente:\n${promptContext.trim().substring(0, 1500)}`;
     }
 
+    const contextBlock = buildSharedContextBlock(typeof sharedContext === 'string' ? sharedContext : undefined);
+    if (contextBlock) {
+      userMessage += `\n\n${contextBlock}`;
+    }
+
     const response = await client.messages.create({
       model: MODEL,
       max_tokens: 3000,
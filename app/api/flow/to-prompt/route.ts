@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
-import type { FlowData } from '@/types/flow';
+import type { FlowData, FlowVariable } from '@/types/flow';
+import { buildQualificationQuestions, formatSlotCondition, VARIABLE_TYPE_LABELS } from '@/lib/utils/flowVariables';
+import { buildSharedContextBlock } from '@/lib/utils/sharedContext';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -38,6 +40,7 @@ Lista de palabras clave o acciones que inician el flujo.
 
 ### 4. qualificationQuestions
 Lista de preguntas de calificacion extraidas de los nodos de decision.
+Si el flujo declara variables (slots del lead), cada accion con "captures" obtiene esa variable y cada decision con "slotCondition" decide sobre ella: usa los nombres de las variables en conversationLogic (ej: "guardar {presupuesto}", "si presupuesto ≥ 1000").
 
 ### 5. summary
 Un resumen breve de que hace este flujo.
@@ -55,7 +58,8 @@ Un resumen breve de que hace este flujo.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { flowData, context, clientName, agentGoal } = body;
+    const { flowData, context, clientName, agentGoal, sharedContext } = body;
+    const variables: FlowVariable[] = Array.isArray(body.variables) ? body.variables : [];
 
     if (!flowData || !Array.isArray(flowData.nodes) || !Array.isArray(flowData.edges)) {
       return NextResponse.json(
@@ -76,6 +80,20 @@ export async function POST(request: NextRequest) {
 
     let userMessage = `Convierte este flujo conversacional en secciones de prompt:\n\n${JSON.stringify(flowData, null, 2)}`;
 
+    if (variables.length > 0) {
+      const slotLines = variables.map((v) => {
+        const type = v.type === 'enum' && v.options?.length ? v.options.join(' | ') : VARIABLE_TYPE_LABELS[v.type];
+        return `- ${v.name} (${type})${v.description ? `: ${v.description}` : ''}`;
+      });
+      const conditionLines = (flowData as FlowData).nodes
+        .filter((n) => n.data?.slotCondition)
+        .map((n) => `- "${n.label}": ${formatSlotCondition(n.data!.slotCondition!, variables)}`);
+      userMessage += `\n\nVariables del lead (slots):\n${slotLines.join('\n')}`;
+      if (conditionLines.length > 0) {
+        userMessage += `\n\nCondiciones de las decisiones:\n${conditionLines.join('\n')}`;
+      }
+    }
+
     if (clientName) {
       userMessage += `\n\nNombre del cliente/creador: ${clientName}`;
     }
@@ -86,6 +104,11 @@ export async function POST(request: NextRequest) {
       userMessage += `\n\nContexto del prompt actual:\n${context.trim().substring(0, 2000)}`;
     }
 
+    const contextBlock = buildSharedContextBlock(typeof sharedContext === 'string' ? sharedContext : undefined);
+    if (contextBlock) {
+      userMessage += `\n\n${contextBlock}`;
+    }
+
     const response = await client.messages.create({
       model: MODEL,
       max_tokens: 4000,
@@ -156,11 +179,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Declared slots give deterministic questions; the model's list is the fallback
+    const slotQuestions = buildQualificationQuestions(flowData as FlowData, variables);
+
     return NextResponse.json({
       conversationLogic: parsed.conversationLogic || '',
       happyPath: parsed.happyPath || '',
       triggers: parsed.triggers || [],
-      qualificationQuestions: parsed.qualificationQuestions || [],
+      qualificationQuestions: slotQuestions.length > 0 ? slotQuestions : parsed.qualificationQuestions || [],
       summary: parsed.summary || 'Secciones generadas exitosamente',
     });
   } catch (error) {
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnthropicClient, parseAnalysisResponse } from '@/lib/anthropic/client';
+import { OPTIMIZATION_SYSTEM_PROMPT, buildOptimizationUserPrompt } from '@/lib/anthropic/prompts';
+import { OptimizeRequestSchema, OptimizationResultSchema } from '@/lib/utils/validation';
+import { findTextInPrompt } from '@/lib/utils/textMatcher';
+import type { CompressionSuggestion } from '@/types/optimization';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Parse and validate a raw model response against the optimization schema.
+ * Throws so analyzePromptWithRetry can retry with the stricter JSON reminder.
+ */
+function parseAndValidate(response: string) {
+  const parsed = parseAnalysisResponse(response);
+  const result = OptimizationResultSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid optimization structure: ${result.error.issues[0]?.message ?? 'unknown'}`);
+  }
+  return result.data;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = OptimizeRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0]?.message || 'Request invalido' },
+        { status: 400 }
+      );
+    }
+
+    const { prompt, knownRedundancies, sharedContext } = validation.data;
+
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key no configurada' },
+        { status: 500 }
+      );
+    }
+
+    const client = new AnthropicClient(apiKey);
+    const result = (await client.analyzePromptWithRetry(
+      OPTIMIZATION_SYSTEM_PROMPT,
+      OPTIMIZATION_SYSTEM_PROMPT,
+      buildOptimizationUserPrompt(prompt, knownRedundancies, sharedContext),
+      [],
+      parseAndValidate
+    )) as ReturnType<typeof parseAndValidate>;
+
+    // Keep only suggestions whose text really exists, anchored to its real position
+    const suggestions: CompressionSuggestion[] = [];
+    for (const suggestion of result.suggestions) {
+      const match = findTextInPrompt(prompt, suggestion.originalText, { enableFuzzy: false });
+      if (!match.found) continue;
+
+      suggestions.push({
+        ...suggestion,
+        id: crypto.randomUUID(),
+        originalText: prompt.substring(match.startIndex, match.endIndex),
+        startIndex: match.startIndex,
+        endIndex: match.endIndex,
+      });
+    }
+
+    return NextResponse.json({
+      suggestions,
+      filteredCount: result.suggestions.length - suggestions.length,
+    });
+  } catch (error) {
+    console.error('Optimize error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Error al optimizar el prompt' },
+      { status: 500 }
+    );
+  }
+}
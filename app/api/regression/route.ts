@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replayGoldenConversation } from '@/lib/utils/regressionRunner';
+import { createAnthropicSimulationClient } from '@/lib/anthropic/simulatorClient';
+import type { GoldenConversation } from '@/types/regression';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { conversation, prompt, sharedContext } = body as {
+      conversation?: GoldenConversation;
+      prompt?: string;
+      sharedContext?: string;
+    };
+
+    if (!conversation || !Array.isArray(conversation.transcript) || conversation.transcript.length === 0) {
+      return NextResponse.json(
+        { error: 'Se requiere una conversacion valida' },
+        { status: 400 }
+      );
+    }
+
+    if (!prompt || prompt.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Se requiere el prompt de la version' },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key no configurada' },
+        { status: 500 }
+      );
+    }
+
+    const result = await replayGoldenConversation(
+      conversation,
+      prompt,
+      createAnthropicSimulationClient(apiKey),
+      typeof sharedContext === 'string' ? sharedContext : undefined
+    );
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Regression replay error:', error);
+    return NextResponse.json(
+      { error: 'Error al reproducir la conversacion' },
+      { status: 500 }
+    );
+  }
+}
@@ -15,6 +15,7 @@ import { FlowchartView } from '@/components/flowchart/FlowchartView';
 import { ProjectTreeSidebar } from '@/components/sidebar/ProjectTreeSidebar';
 import { AgentModal } from '@/components/agents/AgentModal';
 import { ProjectModal } from '@/components/projects/ProjectModal';
+import { SharedContextModal } from '@/components/projects/SharedContextModal';
 import { SyncStatus } from '@/components/ui/SyncStatus';
 import { ToastContainer, NewLearningToast, GlobalToastContainer } from '@/components/ui/Toast';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
@@ -24,6 +25,7 @@ import { useSupabaseInit } from '@/lib/supabase/hooks/useSupabaseInit';
 import { useAgentSync } from '@/lib/hooks/useAgentSync';
 import type { KnowledgeEntry, Agent } from '@/types/prompt';
 import { detectPromptMeta } from '@/lib/utils/promptMetaDetector';
+import { checkProjectConsistency } from '@/lib/utils/sharedContext';
 import { WelcomeModal } from '@/components/ui/WelcomeModal';
 import { Tooltip } from '@/components/ui/Tooltip';
 import {
@@ -42,6 +44,7 @@ import {
   FolderOpen,
   ClipboardPaste,
   Zap,
+  Briefcase,
 } from 'lucide-react';
 import Image from 'next/image';
 
@@ -109,6 +112,9 @@ export default function Home() {
   // Project modal state (step 1 of creation flow)
   const [projectModalOpen, setProjectModalOpen] = useState(false);
 
+  // Shared context editor of the current project
+  const [sharedContextOpen, setSharedContextOpen] = useState(false);
+
   // Agent modal state (step 2 of creation flow, or standalone for adding agents)
   const [agentModalOpen, setAgentModalOpen] = useState(false);
   const [agentModalProjectId, setAgentModalProjectId] = useState('');
@@ -224,6 +230,9 @@ export default function Home() {
     { id: 'history', label: 'Historial', icon: GitBranch },
   ];
 
+  // Agents whose prompt has prices or links that contradict the shared context
+  const inconsistentAgents = project ? checkProjectConsistency(project).length : 0;
+
   const ChannelIcon = agent ? (CHANNEL_ICONS[agent.channelType.toLowerCase()] || Sparkles) : null;
 
   // Loading state
@@ -360,6 +369,33 @@ export default function Home() {
             <SyncStatus />
             <ThemeToggle />
 
+            {/* Project shared context */}
+            {mounted && project && (
+              <Tooltip
+                content={inconsistentAgents > 0 ? `Contexto del negocio (${inconsistentAgents} agentes con diferencias)` : 'Contexto del negocio'}
+                position="bottom"
+              >
+                <button
+                  onClick={() => setSharedContextOpen(true)}
+                  className="relative flex items-center justify-center p-2 rounded-lg transition-all duration-200"
+                  style={{
+                    background: sharedContextOpen ? 'var(--accent-glow)' : 'var(--bg-tertiary)',
+                    color: sharedContextOpen ? 'var(--accent-primary)' : 'var(--text-secondary)',
+                  }}
+                >
+                  <Briefcase className="h-4 w-4" />
+                  {inconsistentAgents > 0 && (
+                    <span
+                      className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 flex items-center justify-center text-[9px] font-medium rounded-full"
+                      style={{ background: 'var(--warning)', color: 'var(--bg-primary)' }}
+                    >
+                      {inconsistentAgents}
+                    </span>
+                  )}
+                </button>
+              </Tooltip>
+            )}
+
             {/* Settings / Data Manager */}
             <div className="relative">
               <Tooltip content="Gestion de datos" position="bottom">
@@ -607,6 +643,19 @@ export default function Home() {
         onSubmit={handleProjectModalSubmit}
       />
 
+      {/* Shared Context Modal */}
+      <SharedContextModal
+        isOpen={sharedContextOpen}
+        project={project}
+        onClose={() => setSharedContextOpen(false)}
+        onOpenAgent={(agentId) => {
+          if (!project) return;
+          setCurrentAgent(project.id, agentId);
+          setActiveView('workspace');
+          setSharedContextOpen(false);
+        }}
+      />
+
       {/* Agent Modal (step 2 of creation, or standalone) */}
       <AgentModal
         isOpen={agentModalOpen}
@@ -14,6 +14,8 @@ interface ChangeCardProps {
   onUndo: (change: ParsedChange) => void;
   onSaveLearning: (change: ParsedChange) => void;
   onNavigateToSection: (section: string) => void;
+  // Hide action buttons (e.g. while the message is still streaming)
+  readOnly?: boolean;
 }
 
 const ACTION_LABELS: Record<string, string> = {
@@ -40,6 +42,7 @@ export function ChangeCard({
   onUndo,
   onSaveLearning,
   onNavigateToSection,
+  readOnly = false,
 }: ChangeCardProps) {
   const [expanded, setExpanded] = useState(true);
   const [copiedField, setCopiedField] = useState<'before' | 'after' | null>(null);
@@ -299,7 +302,7 @@ export function ChangeCard({
           </div>
 
           {/* Action buttons */}
-          {!isKeep && (
+          {!isKeep && !readOnly && (
             <div className="flex items-center gap-2 pt-1">
               {status === 'pending' && (
                 <>
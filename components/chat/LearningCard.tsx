@@ -5,6 +5,9 @@ import { Brain, X, Save, Edit3, ChevronDown, ChevronUp, AlertCircle, Plus } from
 import type { ExtractedLearning } from '@/lib/utils/learningExtractor';
 import { detectCategory } from '@/lib/utils/learningExtractor';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { KnowledgeScopePicker } from '@/components/memory/KnowledgeScopePicker';
+import { isScopeComplete } from '@/lib/utils/knowledgeScope';
+import type { KnowledgeScope } from '@/types/prompt';
 
 interface LearningCardProps {
   learning: ExtractedLearning;
@@ -19,8 +22,11 @@ export function LearningCard({ learning, onDismiss, onSaved }: LearningCardProps
   const [editedLearning, setEditedLearning] = useState<ExtractedLearning>(learning);
   const [customTags, setCustomTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
+  const [scope, setScope] = useState<KnowledgeScope>({ kind: 'global' });
 
   const { addEntry, currentProjectId } = useKnowledgeStore();
+  // A scope kind without a value would reach no agent: saving waits for one
+  const canSave = !isSaving && isScopeComplete(scope);
 
   const priorityColors = {
     Alta: { bg: 'var(--error-subtle)', text: 'var(--error)', border: 'rgba(248, 81, 73, 0.3)' },
@@ -35,6 +41,7 @@ export function LearningCard({ learning, onDismiss, onSaved }: LearningCardProps
   };
 
   const handleSave = async () => {
+    if (!isScopeComplete(scope)) return;
     setIsSaving(true);
 
     try {
@@ -54,6 +61,7 @@ export function LearningCard({ learning, onDismiss, onSaved }: LearningCardProps
         feedbackType: 'self_serve_improvement',
         effectiveness: editedLearning.priority === 'Alta' ? 'high' : editedLearning.priority === 'Media' ? 'medium' : 'low',
         tags: [...baseTags, category, ...customTags].filter(Boolean),
+        scope: scope.kind !== 'global' ? scope : undefined,
       });
 
       onSaved?.();
@@ -149,7 +157,8 @@ export function LearningCard({ learning, onDismiss, onSaved }: LearningCardProps
                 e.stopPropagation();
                 handleSave();
               }}
-              disabled={isSaving}
+              disabled={!canSave}
+              title={isScopeComplete(scope) ? undefined : 'Elegi un valor para el alcance'}
               className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium transition-all duration-200 disabled:opacity-50"
               style={{
                 background: 'var(--accent-primary)',
@@ -348,6 +357,14 @@ export function LearningCard({ learning, onDismiss, onSaved }: LearningCardProps
             </div>
           </div>
 
+          {/* Scope */}
+          <div>
+            <label className="text-[10px] uppercase tracking-wider font-medium mb-2 block" style={{ color: 'var(--text-muted)' }}>
+              Alcance
+            </label>
+            <KnowledgeScopePicker value={scope} onChange={setScope} />
+          </div>
+
           {/* Actions */}
           <div className="flex items-center gap-2 pt-2 border-t" style={{ borderColor: 'var(--border-subtle)' }}>
             <button
@@ -375,7 +392,8 @@ export function LearningCard({ learning, onDismiss, onSaved }: LearningCardProps
             </button>
             <button
               onClick={handleSave}
-              disabled={isSaving}
+              disabled={!canSave}
+              title={isScopeComplete(scope) ? undefined : 'Elegi un valor para el alcance'}
               className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg font-medium transition-all duration-200 ml-auto disabled:opacity-50"
               style={{
                 background: 'var(--accent-primary)',
@@ -3,9 +3,9 @@
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
-import { Copy, Check, Zap, Brain, CheckCheck } from 'lucide-react';
+import { Copy, Check, Zap, Brain, CheckCheck, Loader2 } from 'lucide-react';
 import { useState, useMemo } from 'react';
-import { parseChanges, hasStructuredChanges } from '@/lib/utils/changeParser';
+import { parseChanges, parseStreamingChanges, hasStructuredChanges } from '@/lib/utils/changeParser';
 import type { ParsedChange } from '@/lib/utils/changeParser';
 import { ChangeCard, type ChangeStatus } from './ChangeCard';
 
@@ -149,6 +149,8 @@ function CodeBlock({ children, className, onApply, onSaveToMemory }: CodeBlockPr
 interface MarkdownMessageProps {
   content: string;
   messageId?: string;
+  // Content is a partial buffer: only closed change blocks render as cards, without actions
+  isStreaming?: boolean;
   persistedChangeStatuses?: Record<number, 'applied' | 'rejected'>;
   onApplyCode?: (code: string) => void;
   onSaveToMemory?: (code: string) => void;
@@ -215,6 +217,7 @@ function TextWithSectionLinks({
 export function MarkdownMessage({
   content,
   messageId,
+  isStreaming = false,
   persistedChangeStatuses,
   onApplyCode,
   onSaveToMemory,
@@ -229,8 +232,8 @@ export function MarkdownMessage({
   // Parse structured changes if present
   const parseResult = useMemo(() => {
     if (!hasStructuredChanges(content)) return null;
-    return parseChanges(content);
-  }, [content]);
+    return isStreaming ? parseStreamingChanges(content) : { ...parseChanges(content), hasPendingChange: false };
+  }, [content, isStreaming]);
 
   // Initialize statuses from persisted data (keyed by index → mapped to change id)
   const [changeStatuses, setChangeStatuses] = useState<Map<string, ChangeStatus>>(() => {
@@ -423,7 +426,7 @@ export function MarkdownMessage({
   };
 
   // If we have structured changes, render them as cards
-  if (parseResult && parseResult.changes.length > 0) {
+  if (parseResult && (parseResult.changes.length > 0 || parseResult.hasPendingChange)) {
     // Count actionable pending changes (exclude 'keep')
     const pendingChanges = parseResult.changes.filter(
       (c) => c.action !== 'keep' && changeStatuses.get(c.id) !== 'applied' && changeStatuses.get(c.id) !== 'rejected'
@@ -458,7 +461,7 @@ export function MarkdownMessage({
         )}
 
         {/* Apply All bar */}
-        {pendingChanges.length >= 2 && onApplyAllChanges && (
+        {!isStreaming && pendingChanges.length >= 2 && onApplyAllChanges && (
           <div
             className="flex items-center justify-between px-3 py-2 rounded-lg"
             style={{
@@ -495,9 +498,25 @@ export function MarkdownMessage({
               onUndo={handleUndo}
               onSaveLearning={handleSaveLearning}
               onNavigateToSection={onNavigateToSection || (() => {})}
+              readOnly={isStreaming}
             />
           ))}
         </div>
+
+        {/* Block still being written */}
+        {parseResult.hasPendingChange && (
+          <div
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs"
+            style={{
+              background: 'var(--bg-tertiary)',
+              border: '1px dashed var(--border-subtle)',
+              color: 'var(--text-tertiary)',
+            }}
+          >
+            <Loader2 className="h-3.5 w-3.5 animate-spin" style={{ color: 'var(--accent-primary)' }} />
+            Escribiendo cambio {parseResult.changes.length + 1}...
+          </div>
+        )}
       </div>
     );
   }
@@ -3,14 +3,20 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useAnalysisStore } from '@/store/analysisStore';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
-import { MessageCircle, Send, Loader2, Sparkles, FileText, Zap, X, Brain, ClipboardPaste, SearchCheck, TestTube, HelpCircle, RefreshCw, ArrowLeft } from 'lucide-react';
+import { MessageCircle, Send, Loader2, Sparkles, FileText, X, Brain, ClipboardPaste, SearchCheck, TestTube, HelpCircle, ArrowLeft, AlertTriangle } from 'lucide-react';
 import { LearningCard } from './LearningCard';
 import { MarkdownMessage } from './MarkdownMessage';
 import { DuplicatePatternAlert, TestingSuggestionsAlert } from './DuplicatePatternAlert';
 import type { ExtractedLearning } from '@/lib/utils/learningExtractor';
-import type { ParsedChange } from '@/lib/utils/changeParser';
+import type { DuplicateMatch, TestingSuggestion } from '@/lib/utils/duplicatePatternDetector';
+import { parseChanges, type ParsedChange } from '@/lib/utils/changeParser';
 import { applyChange, applyAllChanges } from '@/lib/utils/changeApplier';
+import { readEventStream } from '@/lib/utils/eventStream';
 import { useToastStore } from '@/store/toastStore';
+import { getKnowledgeIndex } from '@/lib/utils/knowledgeIndex';
+import { assembleKnowledgeContext, type KnowledgeContext } from '@/lib/utils/knowledgeRelations';
+import { describeScope, getEntryScope, getScopeTarget, isInScope, scopeKnowledgeMatches } from '@/lib/utils/knowledgeScope';
+import { getChangeLearningIds } from '@/lib/utils/learningEffectiveness';
 import type { ChatMessage } from '@/types/prompt';
 
 // Extended chat message with learnings (for UI only, not persisted)
@@ -18,6 +24,17 @@ interface ChatMessageWithLearnings extends ChatMessage {
   learnings?: ExtractedLearning[];
 }
 
+// Payload of the final `done` event sent by /api/chat
+interface ChatStreamResult {
+  response: string;
+  learnings?: ExtractedLearning[];
+  duplicates?: DuplicateMatch[];
+  testingSuggestions?: TestingSuggestion[];
+}
+
+// Learnings below this similarity with the question aren't sent as context
+const MIN_CONTEXT_SIMILARITY = 0.15;
+
 const SUGGESTED_QUESTIONS = [
   {
     label: 'Revisa este prompt',
@@ -47,19 +64,25 @@ const SUGGESTED_QUESTIONS = [
 
 export function NinjoChatPanel() {
   const { currentPrompt, chatMessages, addChatMessage, setPrompt, pushUndo, undo, updateMessageChangeStatus } = useAnalysisStore();
-  const { addEntry, currentProjectId, entries, decisions } = useKnowledgeStore();
+  const { addEntry, currentProjectId, entries, decisions, recordDecision, getCurrentProject } = useKnowledgeStore();
   const { addToast } = useToastStore();
   // Local state for learnings (not persisted to store)
   const [messageLearnings, setMessageLearnings] = useState<Map<string, ExtractedLearning[]>>(new Map());
+  // Knowledge entries sent as context with each answer (keyed by assistant message id)
+  const [messageContext, setMessageContext] = useState<Map<string, KnowledgeContext>>(new Map());
+  // Changes already recorded as decisions ("messageId:changeIndex"), so undo + re-apply counts once
+  const recordedChanges = useRef<Set<string>>(new Set());
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Partial assistant answer while /api/chat is streaming (null when idle)
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
   const [dismissedLearnings, setDismissedLearnings] = useState<Set<string>>(new Set());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   
   // State for duplicates and testing suggestions
-  const [currentDuplicates, setCurrentDuplicates] = useState<any[]>([]);
-  const [currentTestingSuggestions, setCurrentTestingSuggestions] = useState<any[]>([]);
+  const [currentDuplicates, setCurrentDuplicates] = useState<DuplicateMatch[]>([]);
+  const [currentTestingSuggestions, setCurrentTestingSuggestions] = useState<TestingSuggestion[]>([]);
   const [showDuplicates, setShowDuplicates] = useState(false);
   const [showTestingSuggestions, setShowTestingSuggestions] = useState(false);
 
@@ -92,7 +115,7 @@ export function NinjoChatPanel() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [chatMessages, scrollToBottom]);
+  }, [chatMessages, streamingContent, scrollToBottom]);
 
   // Auto-resize textarea
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -153,24 +176,40 @@ export function NinjoChatPanel() {
     setIsLoading(true);
 
     try {
-      // Get top 5 most relevant learnings for context injection
-      const relevantLearnings = entries
-        .sort((a, b) => {
-          // Sort by effectiveness and usage
-          const scoreA = (a.effectiveness === 'high' ? 3 : a.effectiveness === 'medium' ? 2 : 1) + (a.usageCount * 0.1);
-          const scoreB = (b.effectiveness === 'high' ? 3 : b.effectiveness === 'medium' ? 2 : 1) + (b.usageCount * 0.1);
-          return scoreB - scoreA;
-        })
-        .slice(0, 5)
-        .map(e => ({
-          id: e.id,
-          type: e.type,
-          title: e.title,
-          description: e.description,
-          example: e.example,
-          effectiveness: e.effectiveness,
-          usageCount: e.usageCount,
-        }));
+      // Top 5 learnings in the current agent's scope most similar to the question (and, with
+      // less weight, to the prompt), without superseded entries and with the other side of every conflict
+      const { getCurrentAgent, projects } = useKnowledgeStore.getState();
+      const scopeTarget = getScopeTarget(getCurrentProject() ?? undefined, getCurrentAgent() ?? undefined);
+      const scopedEntries = entries.filter((e) => isInScope(e, scopeTarget));
+      const context = assembleKnowledgeContext(
+        scopedEntries.length > 0
+          ? scopeKnowledgeMatches(
+              getKnowledgeIndex(entries).search(
+                [
+                  { text: question, weight: 2 },
+                  { text: currentPrompt, weight: 1 },
+                ],
+                { minScore: MIN_CONTEXT_SIMILARITY, filter: (e) => isInScope(e, scopeTarget) }
+              ),
+              scopeTarget
+            ).slice(0, 5)
+          : [],
+        scopedEntries
+      );
+      const relevantLearnings = context.matches.map(({ entry: e, score }) => ({
+        id: e.id,
+        type: e.type,
+        title: e.title,
+        description: e.description,
+        example: e.example,
+        effectiveness: e.effectiveness,
+        usageCount: e.usageCount,
+        similarity: score,
+        scope: getEntryScope(e).kind !== 'global' ? describeScope(e.scope, projects) : undefined,
+        conflictsWith: context.conflicts
+          .filter((pair) => pair.includes(e.id))
+          .map(([a, b]) => (a === e.id ? b : a)),
+      }));
 
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -179,6 +218,7 @@ export function NinjoChatPanel() {
           prompt: currentPrompt,
           question,
           history: chatMessages,
+          sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
           relevantLearnings,
           allKnowledge: entries.map(e => ({
             id: e.id,
@@ -203,33 +243,56 @@ export function NinjoChatPanel() {
         throw new Error(errorData.error || 'Failed to get response');
       }
 
-      const data = await response.json();
+      let streamedText = '';
+      let data: ChatStreamResult | null = null;
+
+      await readEventStream(response, ({ event, data: payload }) => {
+        if (event === 'delta') {
+          streamedText += (payload as { text: string }).text;
+          setStreamingContent(streamedText);
+        } else if (event === 'done') {
+          data = payload as ChatStreamResult;
+        } else if (event === 'error') {
+          throw new Error((payload as { error?: string }).error || 'Failed to get response');
+        }
+      });
+
+      if (!data) {
+        throw new Error('Stream ended before the response was complete');
+      }
+      const result: ChatStreamResult = data;
 
       // Add assistant message and get its ID
       const assistantMessageId = addChatMessage({
         role: 'assistant',
-        content: data.response,
+        content: result.response,
         timestamp: Date.now(),
       });
+      setStreamingContent(null);
+
+      if (context.matches.length > 0) {
+        setMessageContext((prev) => new Map(prev).set(assistantMessageId, context));
+      }
 
       // Store learnings locally using the returned message ID
-      if (data.learnings && Array.isArray(data.learnings) && data.learnings.length > 0) {
+      const { learnings, duplicates, testingSuggestions } = result;
+      if (learnings && Array.isArray(learnings) && learnings.length > 0) {
         setMessageLearnings((prev) => {
           const newMap = new Map(prev);
-          newMap.set(assistantMessageId, data.learnings);
+          newMap.set(assistantMessageId, learnings);
           return newMap;
         });
       }
 
       // Handle duplicates
-      if (data.duplicates && Array.isArray(data.duplicates) && data.duplicates.length > 0) {
-        setCurrentDuplicates(data.duplicates);
+      if (duplicates && Array.isArray(duplicates) && duplicates.length > 0) {
+        setCurrentDuplicates(duplicates);
         setShowDuplicates(true);
       }
 
       // Handle testing suggestions
-      if (data.testingSuggestions && Array.isArray(data.testingSuggestions) && data.testingSuggestions.length > 0) {
-        setCurrentTestingSuggestions(data.testingSuggestions);
+      if (testingSuggestions && Array.isArray(testingSuggestions) && testingSuggestions.length > 0) {
+        setCurrentTestingSuggestions(testingSuggestions);
         setShowTestingSuggestions(true);
       }
     } catch (error) {
@@ -245,6 +308,7 @@ export function NinjoChatPanel() {
         timestamp: Date.now(),
       });
     } finally {
+      setStreamingContent(null);
       setIsLoading(false);
     }
   };
@@ -365,7 +429,32 @@ export function NinjoChatPanel() {
   // Handle persisting change status to store
   const handleChangeStatusUpdate = useCallback((messageId: string, changeIndex: number, status: 'applied' | 'rejected' | 'pending') => {
     updateMessageChangeStatus(messageId, changeIndex, status);
-  }, [updateMessageChangeStatus]);
+
+    // Link the decision to the learnings of the answer this change drew on
+    const context = messageContext.get(messageId);
+    const key = `${messageId}:${changeIndex}`;
+    const project = getCurrentProject();
+    if (status === 'pending' || !context || !project || recordedChanges.current.has(key)) return;
+
+    const message = chatMessages.find(m => m.id === messageId);
+    const change = message && parseChanges(message.content).changes.find(c => c.index === changeIndex);
+    if (!change) return;
+
+    recordedChanges.current.add(key);
+    recordDecision({
+      projectId: project.id,
+      agentId: project.currentAgentId || undefined,
+      sectionId: change.section,
+      decision: status === 'applied' ? 'accepted' : 'rejected',
+      justification: change.reason,
+      originalText: change.beforeText || '',
+      suggestedText: change.afterText || '',
+      category: change.section,
+      severity: 'medium',
+      savedToKnowledge: false,
+      knowledgeEntryIds: getChangeLearningIds(change, context.matches, getKnowledgeIndex(entries)),
+    });
+  }, [updateMessageChangeStatus, messageContext, getCurrentProject, chatMessages, recordDecision, entries]);
 
   // Handle save change as learning
   const handleSaveChangeLearning = useCallback((change: ParsedChange) => {
@@ -582,6 +671,11 @@ export function NinjoChatPanel() {
                     </div>
                   </div>
 
+                  {/* Knowledge sent as context for this answer */}
+                  {messageContext.has(message.id) && (
+                    <KnowledgeContextChips context={messageContext.get(message.id)!} />
+                  )}
+
                   {/* Learnings */}
                   {visibleLearnings.length > 0 && (
                     <div className="ml-4 space-y-2">
@@ -630,8 +724,28 @@ export function NinjoChatPanel() {
               />
             )}
 
+            {/* Streaming answer */}
+            {isLoading && streamingContent !== null && (
+              <div className="flex justify-start">
+                <div
+                  className="max-w-[85%] rounded-2xl rounded-bl-md px-4 py-3"
+                  style={{
+                    background: 'var(--bg-elevated)',
+                    color: 'var(--text-primary)',
+                    border: '1px solid var(--border-subtle)',
+                  }}
+                >
+                  <MarkdownMessage
+                    content={streamingContent}
+                    isStreaming
+                    onNavigateToSection={handleNavigateToSection}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Loading indicator */}
-            {isLoading && (
+            {isLoading && streamingContent === null && (
               <div className="flex justify-start">
                 <div
                   className="rounded-2xl rounded-bl-md px-4 py-3"
@@ -816,3 +930,40 @@ export function NinjoChatPanel() {
     </div>
   );
 }
+
+// Knowledge sent with an answer; conflicting pairs are highlighted and listed
+function KnowledgeContextChips({ context }: { context: KnowledgeContext }) {
+  const { matches, conflicts } = context;
+  const conflicted = new Set(conflicts.flat());
+  const titleOf = (id: string) => matches.find(m => m.entry.id === id)?.entry.title;
+
+  return (
+    <div className="ml-4 space-y-1">
+      <div className="flex flex-wrap items-center gap-1.5 text-[10px]" style={{ color: 'var(--text-muted)' }}>
+        <Brain className="h-3 w-3" />
+        <span>Contexto:</span>
+        {matches.map(({ entry, score }) => (
+          <span
+            key={entry.id}
+            className="px-1.5 py-0.5 rounded-full"
+            style={{
+              background: conflicted.has(entry.id) ? 'var(--warning-subtle)' : 'var(--bg-tertiary)',
+              border: `1px solid ${conflicted.has(entry.id) ? 'var(--warning)' : 'var(--border-subtle)'}`,
+            }}
+            title={entry.description}
+          >
+            {entry.title} · {Math.round(score * 100)}%
+          </span>
+        ))}
+      </div>
+      {conflicts.map(([a, b]) => (
+        <div key={`${a}:${b}`} className="flex items-center gap-1.5 text-[10px]" style={{ color: 'var(--warning)' }}>
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          <span className="truncate">
+            &quot;{titleOf(a)}&quot; y &quot;{titleOf(b)}&quot; se contradicen
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
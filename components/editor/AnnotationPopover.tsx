@@ -42,7 +42,7 @@ export function AnnotationPopover({
   onClose,
 }: AnnotationPopoverProps) {
   const { addAnnotation, updateAnnotation, deleteAnnotation, currentPrompt, setPrompt, pushUndo, createVersion, autoSaveEnabled } = useAnalysisStore();
-  const { addEntry, getCurrentProject, incrementUsage, entries } = useKnowledgeStore();
+  const { addEntry, getCurrentProject, incrementUsage, recordDecision, entries } = useKnowledgeStore();
 
   const [type, setType] = useState<PromptAnnotation['type']>(existingAnnotation?.type || 'note');
   const [comment, setComment] = useState(existingAnnotation?.comment || '');
@@ -68,6 +68,23 @@ export function AnnotationPopover({
 
   const handleDelete = () => {
     if (existingAnnotation) {
+      // Dismissing a learning's annotation counts against the learning
+      const learning = entries.find(e => e.id === existingAnnotation.knowledgeEntryId);
+      if (learning && project) {
+        recordDecision({
+          projectId: project.id,
+          agentId: project.currentAgentId || undefined,
+          sectionId: existingAnnotation.id,
+          decision: 'rejected',
+          justification: `Descartado: ${learning.title}`,
+          originalText: existingAnnotation.selectedText,
+          suggestedText: learning.example || '',
+          category: learning.category || learning.tags[0] || 'annotation',
+          severity: 'medium',
+          savedToKnowledge: false,
+          knowledgeEntryIds: [learning.id],
+        });
+      }
       deleteAnnotation(existingAnnotation.id);
     }
     onClose();
@@ -89,18 +106,32 @@ export function AnnotationPopover({
     
     setPrompt(newPrompt);
     
-    // Increment usage
+    // Create version if auto-save enabled
+    const versionId = autoSaveEnabled
+      ? createVersion(
+          `Aplicado patrón: ${learning.title}`,
+          'suggestion_applied',
+          { category: learning.tags[0] || 'annotation' }
+        )
+      : undefined;
+
+    // Increment usage and link the change to the learning
     if (project) {
       incrementUsage(learning.id, project.id);
-    }
-    
-    // Create version if auto-save enabled
-    if (autoSaveEnabled) {
-      createVersion(
-        `Aplicado patrón: ${learning.title}`,
-        'suggestion_applied',
-        { category: learning.tags[0] || 'annotation' }
-      );
+      recordDecision({
+        projectId: project.id,
+        agentId: project.currentAgentId || undefined,
+        sectionId: existingAnnotation.id,
+        decision: 'accepted',
+        justification: `Aplicado patrón: ${learning.title}`,
+        originalText: selectedText,
+        suggestedText: learning.example,
+        category: learning.category || learning.tags[0] || 'annotation',
+        severity: 'medium',
+        savedToKnowledge: false,
+        knowledgeEntryIds: [learning.id],
+        versionId,
+      });
     }
     
     // Delete the annotation since it was applied
@@ -2,8 +2,11 @@
 
 import { useMemo } from 'react';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { sortBySeverity } from '@/lib/suggestionMapper';
 import type { KnowledgeEntry } from '@/types/prompt';
 import type { SemanticSection } from '@/lib/semanticParser';
+import { CATEGORY_INFO, SEVERITY_INFO, type AnalysisSection } from '@/types/analysis';
 import {
   Lightbulb,
   AlertTriangle,
@@ -12,20 +15,31 @@ import {
   X,
   ChevronRight,
   Sparkles,
+  Check,
+  ScanSearch,
 } from 'lucide-react';
 
 interface ContextualSuggestionsProps {
   currentSection: SemanticSection | null;
+  // Pending /api/analyze suggestions that overlap the current section
+  analysisSuggestions?: AnalysisSection[];
   onApplyLearning: (learning: KnowledgeEntry) => void;
   onClose?: () => void;
 }
 
 export function ContextualSuggestions({
   currentSection,
+  analysisSuggestions = [],
   onApplyLearning,
   onClose,
 }: ContextualSuggestionsProps) {
   const { findRelevantLearnings } = useKnowledgeStore();
+  const { applySuggestion, rejectSuggestion } = useAnalysisStore();
+
+  const sortedSuggestions = useMemo(
+    () => sortBySeverity(analysisSuggestions),
+    [analysisSuggestions]
+  );
 
   // Find relevant learnings for the current section
   const relevantLearnings = useMemo(() => {
@@ -95,15 +109,54 @@ export function ContextualSuggestions({
           <p className="text-[10px] uppercase tracking-wider mb-0.5" style={{ color: 'var(--text-muted)' }}>
             Sección activa
           </p>
-          <p className="text-xs font-medium truncate" style={{ color: 'var(--text-secondary)' }}>
-            {currentSection.title}
-          </p>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs font-medium truncate" style={{ color: 'var(--text-secondary)' }}>
+              {currentSection.title}
+            </p>
+            {currentSection.score !== undefined && (
+              <span
+                className="text-[10px] font-semibold px-1.5 py-0.5 rounded flex-shrink-0"
+                style={{
+                  background: currentSection.highestSeverity
+                    ? SEVERITY_INFO[currentSection.highestSeverity].bg
+                    : 'var(--success-subtle)',
+                  color: currentSection.highestSeverity
+                    ? SEVERITY_INFO[currentSection.highestSeverity].color
+                    : 'var(--success)',
+                }}
+                title="Score de la sección según el último análisis"
+              >
+                {currentSection.score}/10
+              </span>
+            )}
+          </div>
         </div>
       </div>
 
-      {/* Learnings List */}
+      {/* Analysis suggestions + Learnings List */}
       <div className="flex-1 overflow-y-auto p-3">
-        {relevantLearnings.length === 0 ? (
+        {sortedSuggestions.length > 0 && (
+          <div className="space-y-2 mb-3">
+            <p className="text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+              Análisis ({sortedSuggestions.length})
+            </p>
+            {sortedSuggestions.map((suggestion) => (
+              <AnalysisSuggestionCard
+                key={suggestion.id}
+                suggestion={suggestion}
+                onApply={() => applySuggestion(suggestion.id, suggestion.suggestedRewrite)}
+                onReject={() => rejectSuggestion(suggestion.id)}
+              />
+            ))}
+            {relevantLearnings.length > 0 && (
+              <p className="text-[10px] uppercase tracking-wider pt-2" style={{ color: 'var(--text-muted)' }}>
+                Learnings
+              </p>
+            )}
+          </div>
+        )}
+
+        {relevantLearnings.length === 0 && sortedSuggestions.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-center px-4">
             <div
               className="w-12 h-12 rounded-xl flex items-center justify-center mb-3"
@@ -120,11 +173,12 @@ export function ContextualSuggestions({
           </div>
         ) : (
           <div className="space-y-2">
-            {relevantLearnings.map((learning) => (
+            {relevantLearnings.map(({ entry, score }) => (
               <LearningCard
-                key={learning.id}
-                learning={learning}
-                onApply={() => onApplyLearning(learning)}
+                key={entry.id}
+                learning={entry}
+                similarity={score}
+                onApply={() => onApplyLearning(entry)}
               />
             ))}
           </div>
@@ -134,12 +188,100 @@ export function ContextualSuggestions({
   );
 }
 
+interface AnalysisSuggestionCardProps {
+  suggestion: AnalysisSection;
+  onApply: () => void;
+  onReject: () => void;
+}
+
+function AnalysisSuggestionCard({ suggestion, onApply, onReject }: AnalysisSuggestionCardProps) {
+  const severity = SEVERITY_INFO[suggestion.severity];
+
+  return (
+    <div
+      className="rounded-lg overflow-hidden"
+      style={{
+        background: 'var(--bg-elevated)',
+        border: `1px solid ${severity.bg}`,
+      }}
+    >
+      <div className="px-3 py-2">
+        <div className="flex items-start gap-2 mb-2">
+          <div className="p-1 rounded flex-shrink-0" style={{ background: severity.bg }}>
+            <ScanSearch className="h-3.5 w-3.5" style={{ color: severity.color }} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1.5 mb-1">
+              <span
+                className="text-[9px] font-semibold uppercase px-1.5 py-0.5 rounded"
+                style={{ background: severity.bg, color: severity.color }}
+              >
+                {severity.label}
+              </span>
+              <span className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+                {CATEGORY_INFO[suggestion.category].label}
+              </span>
+            </div>
+            <ul className="space-y-0.5">
+              {suggestion.issues.slice(0, 3).map((issue, i) => (
+                <li key={i} className="text-[11px] line-clamp-2" style={{ color: 'var(--text-primary)' }}>
+                  {issue}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <p className="text-[11px] mb-2" style={{ color: 'var(--text-tertiary)' }}>
+          {suggestion.explanation}
+        </p>
+
+        {/* Rewrite preview */}
+        <div className="rounded mb-2 text-[11px] font-mono overflow-hidden" style={{ background: 'var(--bg-tertiary)' }}>
+          <p className="px-2 py-1 line-through line-clamp-3" style={{ color: 'var(--error)', opacity: 0.8 }}>
+            {suggestion.originalText}
+          </p>
+          <p className="px-2 py-1 whitespace-pre-wrap line-clamp-6" style={{ color: 'var(--success)' }}>
+            {suggestion.suggestedRewrite}
+          </p>
+        </div>
+
+        <div className="flex gap-1.5">
+          <button
+            onClick={onApply}
+            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+            style={{
+              background: 'var(--gradient-primary)',
+              color: '#0a0e14',
+            }}
+          >
+            <Check className="h-3 w-3" />
+            Aplicar
+          </button>
+          <button
+            onClick={onReject}
+            className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors hover:bg-[var(--bg-tertiary)]"
+            style={{
+              color: 'var(--text-muted)',
+              border: '1px solid var(--border-subtle)',
+            }}
+          >
+            <X className="h-3 w-3" />
+            Descartar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 interface LearningCardProps {
   learning: KnowledgeEntry;
+  similarity: number; // 0-1, from the knowledge index
   onApply: () => void;
 }
 
-function LearningCard({ learning, onApply }: LearningCardProps) {
+function LearningCard({ learning, similarity, onApply }: LearningCardProps) {
   const isPattern = learning.type === 'pattern';
   const hasExample = Boolean(learning.example);
 
@@ -225,6 +367,13 @@ function LearningCard({ learning, onApply }: LearningCardProps) {
               <span>{learning.usageCount} usos</span>
             </div>
           )}
+          <span
+            className="ml-auto"
+            style={{ color: 'var(--accent-primary)' }}
+            title="Similitud con la sección activa"
+          >
+            {Math.round(similarity * 100)}% similitud
+          </span>
         </div>
 
         {/* Apply button */}
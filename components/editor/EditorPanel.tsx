@@ -4,16 +4,20 @@ import { useRef, useState, useMemo, useCallback, useEffect } from 'react';
 import { useAnalysisStore } from '@/store/analysisStore';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
 import { parseSemanticSections, type SemanticSection } from '@/lib/semanticParser';
-import { enrichSectionsWithSuggestions } from '@/lib/suggestionMapper';
+import { enrichSectionsWithSuggestions, reanchorSuggestions } from '@/lib/suggestionMapper';
 import { estimateTokens } from '@/lib/hooks/useTokenEstimation';
+import { usePromptAnalysis } from '@/lib/hooks/usePromptAnalysis';
 import { detectAntiPatterns, hasExistingAnnotation } from '@/lib/utils/antiPatternDetector';
+import { getScopeTarget } from '@/lib/utils/knowledgeScope';
 import { AnnotationPopover } from './AnnotationPopover';
 import { AnnotationMarkers, AnnotationsSidebar } from './AnnotationMarkers';
 import { ContextualSuggestions } from './ContextualSuggestions';
+import { OptimizationPanel } from './OptimizationPanel';
 import { ApplyLearningModal } from './ApplyLearningModal';
 import { NinjoChatPanel } from '../chat/NinjoChatPanel';
 import type { PromptAnnotation } from '@/types/prompt';
 import type { KnowledgeEntry } from '@/types/prompt';
+import { SEVERITY_INFO, type AnalysisSection } from '@/types/analysis';
 import { useToastStore } from '@/store/toastStore';
 import {
   FileText,
@@ -42,6 +46,8 @@ import {
   PanelLeftClose,
   PanelLeftOpen,
   MoreVertical,
+  ScanSearch,
+  Minimize,
 } from 'lucide-react';
 import { useFlowSync } from '@/lib/hooks/useFlowSync';
 import { useFlowStore } from '@/store/flowStore';
@@ -174,6 +180,8 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
     currentPrompt,
     setPrompt,
     analysis,
+    analysisProgress,
+    suggestionStates,
     selectedSectionId,
     setSelectedSectionId,
     annotations,
@@ -191,10 +199,17 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
     saveManualVersion,
   } = useAnalysisStore();
   
-  const { getAntiPatterns, incrementUsage, getCurrentProject } = useKnowledgeStore();
+  const { entries, incrementUsage, recordDecision, getCurrentProject, getCurrentAgent } = useKnowledgeStore();
   const currentProject = getCurrentProject();
+  const currentAgent = getCurrentAgent();
+  // Learnings scoped to other clients, channels or niches don't apply to this agent
+  const scopeTarget = useMemo(
+    () => getScopeTarget(currentProject ?? undefined, currentAgent ?? undefined),
+    [currentProject, currentAgent]
+  );
   const { addToast } = useToastStore();
   const { extractSelectionAsFlow } = useFlowSync();
+  const { runAnalysis, cancelAnalysis, isAnalyzing } = usePromptAnalysis();
   const isExtractingFlow = useFlowStore((s) => s.isExtractingFlow);
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -213,7 +228,7 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
   const [isPasting, setIsPasting] = useState(false);
   
   // Contextual suggestions state
-  const [sidePanel, setSidePanel] = useState<'suggestions' | 'chat' | null>(null);
+  const [sidePanel, setSidePanel] = useState<'suggestions' | 'optimize' | 'chat' | null>(null);
   const [applyLearningModal, setApplyLearningModal] = useState<{
     learning: KnowledgeEntry;
     section: SemanticSection;
@@ -251,11 +266,27 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
     return parseSemanticSections(currentPrompt);
   }, [currentPrompt]);
 
-  // Enrich sections with suggestion counts
+  // Enrich sections with pending analysis suggestions (counts, severity, score)
+  const enrichedSections = useMemo(() => {
+    if (!analysis?.sections) return null;
+    const pending = analysis.sections.filter(s => {
+      const status = suggestionStates[s.id]?.status;
+      return status !== 'accepted' && status !== 'rejected';
+    });
+    return enrichSectionsWithSuggestions(rawSections, reanchorSuggestions(currentPrompt, pending));
+  }, [rawSections, currentPrompt, analysis?.sections, suggestionStates]);
+
   const sections = useMemo(() => {
-    if (!analysis?.sections) return rawSections;
-    return enrichSectionsWithSuggestions(rawSections, analysis.sections).map(s => s.section);
-  }, [rawSections, analysis?.sections]);
+    return enrichedSections ? enrichedSections.map(s => s.section) : rawSections;
+  }, [enrichedSections, rawSections]);
+
+  const suggestionsBySectionId = useMemo(() => {
+    const map = new Map<string, AnalysisSection[]>();
+    for (const entry of enrichedSections || []) {
+      map.set(entry.section.id, entry.suggestions);
+    }
+    return map;
+  }, [enrichedSections]);
 
   // Format token count
   const formattedTokens = useMemo(() => {
@@ -733,10 +764,10 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
   useEffect(() => {
     if (!currentPrompt || !hasContent) return;
     
-    const antiPatterns = getAntiPatterns();
-    if (antiPatterns.length === 0) return;
+    if (!entries.some(e => e.type === 'anti_pattern')) return;
     
-    const detected = detectAntiPatterns(currentPrompt, antiPatterns, 0.65);
+    // The whole knowledge base feeds the index (and its cache); only anti-patterns are matched
+    const detected = detectAntiPatterns(currentPrompt, entries, 0.5, scopeTarget);
     
     // Create annotations for detected anti-patterns
     detected.forEach(ap => {
@@ -753,13 +784,13 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
           startOffset: ap.startOffset,
           endOffset: ap.endOffset,
           selectedText: ap.matchedText,
-          comment: `⚠️ Anti-patrón detectado: ${ap.knowledgeEntry.title}`,
+          comment: `⚠️ Anti-patrón detectado: ${ap.knowledgeEntry.title} (${Math.round(ap.confidence * 100)}% similitud)`,
           type: 'warning',
           knowledgeEntryId: ap.knowledgeEntryId,
         });
       }
     });
-  }, [currentPrompt, hasContent, getAntiPatterns, detectAntiPatterns, addAnnotation, getAnnotationsInRange, annotations]);
+  }, [currentPrompt, hasContent, entries, scopeTarget, addAnnotation, getAnnotationsInRange, annotations]);
 
   // Handler to apply a learning to the current section
   const handleApplyLearning = useCallback((learning: KnowledgeEntry) => {
@@ -784,7 +815,7 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
   const confirmApplyLearning = useCallback(() => {
     if (!applyLearningModal) return;
     
-    const { learning, section, suggestedText } = applyLearningModal;
+    const { learning, section, originalText, suggestedText } = applyLearningModal;
     
     // Save state for undo
     pushUndo();
@@ -796,23 +827,58 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
     
     setPrompt(newPrompt);
     
-    // Increment usage count
+    // Create version automatically
+    const versionId = autoSaveEnabled
+      ? createVersion(
+          `Aplicado patrón: ${learning.title}`,
+          'suggestion_applied',
+          { category: learning.tags[0] || 'general' }
+        )
+      : undefined;
+    
+    // Increment usage count and link the change to the learning
     if (currentProject) {
       incrementUsage(learning.id, currentProject.id);
-    }
-    
-    // Create version automatically
-    if (autoSaveEnabled) {
-      createVersion(
-        `Aplicado patrón: ${learning.title}`,
-        'suggestion_applied',
-        { category: learning.tags[0] || 'general' }
-      );
+      recordDecision({
+        projectId: currentProject.id,
+        agentId: currentProject.currentAgentId || undefined,
+        sectionId: section.id,
+        decision: 'accepted',
+        justification: `Aplicado patrón: ${learning.title}`,
+        originalText,
+        suggestedText,
+        category: learning.category || learning.tags[0] || 'general',
+        severity: 'medium',
+        savedToKnowledge: false,
+        knowledgeEntryIds: [learning.id],
+        versionId,
+      });
     }
     
     // Close modal
     setApplyLearningModal(null);
-  }, [applyLearningModal, currentPrompt, pushUndo, setPrompt, currentProject, incrementUsage, autoSaveEnabled, createVersion]);
+  }, [applyLearningModal, currentPrompt, pushUndo, setPrompt, currentProject, incrementUsage, recordDecision, autoSaveEnabled, createVersion]);
+
+  // Declining the preview counts against the learning
+  const cancelApplyLearning = useCallback(() => {
+    if (applyLearningModal && currentProject) {
+      const { learning, section, originalText, suggestedText } = applyLearningModal;
+      recordDecision({
+        projectId: currentProject.id,
+        agentId: currentProject.currentAgentId || undefined,
+        sectionId: section.id,
+        decision: 'rejected',
+        justification: `Descartado: ${learning.title}`,
+        originalText,
+        suggestedText,
+        category: learning.category || learning.tags[0] || 'general',
+        severity: 'medium',
+        savedToKnowledge: false,
+        knowledgeEntryIds: [learning.id],
+      });
+    }
+    setApplyLearningModal(null);
+  }, [applyLearningModal, currentProject, recordDecision]);
 
   // Handle save
   const handleSave = () => {
@@ -1013,6 +1079,23 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
             </button>
           )}
 
+          {/* Analysis progress — click to cancel */}
+          {isAnalyzing && (
+            <button
+              onClick={cancelAnalysis}
+              className={headerActionButtonClassName}
+              style={{
+                background: 'var(--accent-subtle)',
+                color: 'var(--accent-primary)',
+                border: '1px solid var(--border-accent)',
+              }}
+              title={`${analysisProgress?.stepName ?? 'Analizando'} — click para cancelar`}
+            >
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              <span className="hidden sm:inline">{analysisProgress?.percentage ?? 0}%</span>
+            </button>
+          )}
+
           {/* Tools dropdown — groups secondary actions */}
           {hasContent && (
             <EditorToolbarDropdown icon={MoreVertical} title="Herramientas">
@@ -1043,6 +1126,20 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
                 shortcut="⌘F"
                 active={showSearch}
               />
+              <EditorDropdownItem
+                icon={ScanSearch}
+                label={isAnalyzing ? 'Analizando...' : analysis ? 'Re-analizar prompt' : 'Analizar prompt'}
+                onClick={() => {
+                  if (!isAnalyzing) runAnalysis();
+                }}
+                active={isAnalyzing}
+              />
+              <EditorDropdownItem
+                icon={Minimize}
+                label="Optimizar tokens"
+                onClick={() => setSidePanel(sidePanel === 'optimize' ? null : 'optimize')}
+                active={sidePanel === 'optimize'}
+              />
               {selectedSection && (
                 <>
                   <EditorDropdownDivider />
@@ -1332,6 +1429,18 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
                             L{section.startLine}
                             {section.endLine !== section.startLine && `–${section.endLine}`}
                           </span>
+                          {section.suggestionCount > 0 && section.highestSeverity && (
+                            <span
+                              className="text-[9px] font-semibold px-1 rounded"
+                              style={{
+                                background: SEVERITY_INFO[section.highestSeverity].bg,
+                                color: SEVERITY_INFO[section.highestSeverity].color,
+                              }}
+                              title={`${section.suggestionCount} sugerencia${section.suggestionCount !== 1 ? 's' : ''} · score ${section.score}/10`}
+                            >
+                              {section.suggestionCount} · {section.score}
+                            </span>
+                          )}
                         </div>
                       </button>
 
@@ -1547,12 +1656,23 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
             >
               <ContextualSuggestions
                 currentSection={selectedSection}
+                analysisSuggestions={suggestionsBySectionId.get(selectedSection.id)}
                 onApplyLearning={handleApplyLearning}
                 onClose={() => setSidePanel(null)}
               />
             </div>
           )}
 
+          {/* Optimize mode — token compression suggestions */}
+          {hasContent && sidePanel === 'optimize' && (
+            <div
+              className="w-80 border-l flex-shrink-0 overflow-hidden"
+              style={{ borderColor: 'var(--border-subtle)' }}
+            >
+              <OptimizationPanel onClose={() => setSidePanel(null)} />
+            </div>
+          )}
+
           {/* AI Chat Panel - only in fullscreen mode */}
           {hasContent && isFullscreenEditor && sidePanel === 'chat' && (
             <div
@@ -1668,7 +1788,7 @@ export function EditorPanel({ onSectionSelect }: EditorPanelProps) {
           originalText={applyLearningModal.originalText}
           suggestedText={applyLearningModal.suggestedText}
           onConfirm={confirmApplyLearning}
-          onCancel={() => setApplyLearningModal(null)}
+          onCancel={cancelApplyLearning}
         />
       )}
     </div>
@@ -0,0 +1,275 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useToastStore } from '@/store/toastStore';
+import { usePromptOptimization } from '@/lib/hooks/usePromptOptimization';
+import { estimateTokens } from '@/lib/hooks/useTokenEstimation';
+import {
+  CLARITY_IMPACT_INFO,
+  COMPRESSION_CATEGORY_LABELS,
+  type CompressionStatus,
+  type CompressionSuggestion,
+} from '@/types/optimization';
+import { Minimize, X, Check, Loader2, Zap } from 'lucide-react';
+
+interface OptimizationPanelProps {
+  onClose?: () => void;
+}
+
+export function OptimizationPanel({ onClose }: OptimizationPanelProps) {
+  const {
+    currentPrompt,
+    optimization,
+    compressionStates,
+    setCompressionStatus,
+    applyCompression,
+  } = useAnalysisStore();
+  const { addToast } = useToastStore();
+  const { runOptimization, isOptimizing } = usePromptOptimization();
+
+  const currentTokens = useMemo(() => estimateTokens(currentPrompt), [currentPrompt]);
+
+  const getStatus = (id: string): CompressionStatus => compressionStates[id]?.status || 'pending';
+
+  const suggestions = optimization?.suggestions || [];
+  const pending = suggestions.filter(s => getStatus(s.id) === 'pending');
+  const pendingSavings = pending.reduce((sum, s) => sum + s.tokenSavings, 0);
+  const appliedSavings = suggestions
+    .filter(s => getStatus(s.id) === 'applied')
+    .reduce((sum, s) => sum + s.tokenSavings, 0);
+  const safePending = pending.filter(s => s.clarityImpact === 'none' || s.clarityImpact === 'minimal');
+
+  const handleApply = (suggestion: CompressionSuggestion) => {
+    if (!applyCompression(suggestion.id)) {
+      addToast('No se encontró el texto en el prompt (¿ya fue editado?)', 'error');
+    }
+  };
+
+  const handleApplySafe = () => {
+    let applied = 0;
+    for (const suggestion of safePending) {
+      if (applyCompression(suggestion.id)) applied++;
+    }
+    addToast(`${applied} compresiones aplicadas`, 'success');
+  };
+
+  return (
+    <div className="h-full flex flex-col" style={{ background: 'var(--bg-tertiary)' }}>
+      {/* Header */}
+      <div
+        className="flex-shrink-0 px-3 py-3 border-b"
+        style={{ borderColor: 'var(--border-subtle)' }}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Minimize className="h-4 w-4" style={{ color: 'var(--accent-primary)' }} />
+            <span className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>
+              Optimizar tokens
+            </span>
+          </div>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-1 rounded-lg transition-colors hover:bg-[var(--bg-elevated)]"
+              title="Cerrar optimización"
+            >
+              <X className="h-4 w-4" style={{ color: 'var(--text-muted)' }} />
+            </button>
+          )}
+        </div>
+
+        {/* Token summary */}
+        <div className="grid grid-cols-3 gap-1.5 mb-2">
+          <TokenStat label="Actual" value={currentTokens} />
+          <TokenStat label="Ahorro posible" value={pendingSavings} accent />
+          <TokenStat label="Ahorrado" value={appliedSavings} />
+        </div>
+
+        <div className="flex gap-1.5">
+          <button
+            onClick={runOptimization}
+            disabled={isOptimizing}
+            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 disabled:opacity-60"
+            style={{
+              background: 'var(--gradient-primary)',
+              color: '#0a0e14',
+            }}
+          >
+            {isOptimizing ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Zap className="h-3 w-3" />
+            )}
+            {isOptimizing ? 'Optimizando...' : optimization ? 'Re-optimizar' : 'Buscar compresiones'}
+          </button>
+          {safePending.length > 1 && !isOptimizing && (
+            <button
+              onClick={handleApplySafe}
+              className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors hover:bg-[var(--bg-elevated)]"
+              style={{
+                color: 'var(--success)',
+                border: '1px solid var(--border-subtle)',
+              }}
+              title="Aplica las sugerencias sin impacto o con impacto mínimo en claridad"
+            >
+              <Check className="h-3 w-3" />
+              Seguras ({safePending.length})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Suggestions */}
+      <div className="flex-1 overflow-y-auto p-3">
+        {!optimization ? (
+          <div className="flex flex-col items-center justify-center h-full text-center px-4">
+            <p className="text-sm font-medium mb-1" style={{ color: 'var(--text-primary)' }}>
+              Reducí tokens sin perder claridad
+            </p>
+            <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+              Detecta frases repetidas localmente y le pide a Claude compresiones para el resto del prompt
+            </p>
+          </div>
+        ) : suggestions.length === 0 && !isOptimizing ? (
+          <div className="flex flex-col items-center justify-center h-full text-center px-4">
+            <p className="text-sm font-medium mb-1" style={{ color: 'var(--text-primary)' }}>
+              Sin sugerencias
+            </p>
+            <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+              No se encontraron compresiones para este prompt
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {suggestions.map((suggestion) => (
+              <CompressionCard
+                key={suggestion.id}
+                suggestion={suggestion}
+                status={getStatus(suggestion.id)}
+                onApply={() => handleApply(suggestion)}
+                onReject={() => setCompressionStatus(suggestion.id, 'rejected')}
+              />
+            ))}
+            {isOptimizing && (
+              <div className="flex items-center justify-center gap-2 py-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Buscando más compresiones con Claude...
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TokenStat({ label, value, accent }: { label: string; value: number; accent?: boolean }) {
+  return (
+    <div
+      className="px-2 py-1.5 rounded-lg"
+      style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+    >
+      <p className="text-[9px] uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+        {label}
+      </p>
+      <p
+        className="text-xs font-semibold"
+        style={{ color: accent ? 'var(--accent-primary)' : 'var(--text-secondary)' }}
+      >
+        {value.toLocaleString()}
+      </p>
+    </div>
+  );
+}
+
+interface CompressionCardProps {
+  suggestion: CompressionSuggestion;
+  status: CompressionStatus;
+  onApply: () => void;
+  onReject: () => void;
+}
+
+function CompressionCard({ suggestion, status, onApply, onReject }: CompressionCardProps) {
+  const impact = CLARITY_IMPACT_INFO[suggestion.clarityImpact];
+  const isLocal = suggestion.id.startsWith('local-');
+  const isResolved = status !== 'pending';
+
+  return (
+    <div
+      className="rounded-lg overflow-hidden transition-opacity"
+      style={{
+        background: 'var(--bg-elevated)',
+        border: '1px solid var(--border-subtle)',
+        opacity: isResolved ? 0.55 : 1,
+      }}
+    >
+      <div className="px-3 py-2">
+        <div className="flex items-center gap-1.5 mb-2 flex-wrap">
+          <span
+            className="text-[9px] font-semibold px-1.5 py-0.5 rounded"
+            style={{ background: impact.bg, color: impact.color }}
+          >
+            {impact.label}
+          </span>
+          <span className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+            {COMPRESSION_CATEGORY_LABELS[suggestion.category]}
+          </span>
+          {isLocal && (
+            <span
+              className="text-[9px] px-1.5 py-0.5 rounded"
+              style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}
+              title="Detectado localmente, sin llamar a la API"
+            >
+              local
+            </span>
+          )}
+          <span className="ml-auto text-[10px] font-semibold" style={{ color: 'var(--success)' }}>
+            -{suggestion.tokenSavings} tokens
+          </span>
+        </div>
+
+        {/* Diff preview */}
+        <div className="rounded mb-2 text-[11px] font-mono overflow-hidden" style={{ background: 'var(--bg-tertiary)' }}>
+          <p className="px-2 py-1 line-through line-clamp-3" style={{ color: 'var(--error)', opacity: 0.8 }}>
+            {suggestion.originalText}
+          </p>
+          <p className="px-2 py-1 whitespace-pre-wrap line-clamp-4" style={{ color: 'var(--success)' }}>
+            {suggestion.compressedText || <span style={{ color: 'var(--text-muted)' }}>(eliminar)</span>}
+          </p>
+        </div>
+
+        {isResolved ? (
+          <p className="text-[10px] text-center" style={{ color: 'var(--text-muted)' }}>
+            {status === 'applied' ? 'Aplicada' : 'Descartada'}
+          </p>
+        ) : (
+          <div className="flex gap-1.5">
+            <button
+              onClick={onApply}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200"
+              style={{
+                background: 'var(--gradient-primary)',
+                color: '#0a0e14',
+              }}
+            >
+              <Check className="h-3 w-3" />
+              Aplicar
+            </button>
+            <button
+              onClick={onReject}
+              className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors hover:bg-[var(--bg-tertiary)]"
+              style={{
+                color: 'var(--text-muted)',
+                border: '1px solid var(--border-subtle)',
+              }}
+            >
+              <X className="h-3 w-3" />
+              Descartar
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
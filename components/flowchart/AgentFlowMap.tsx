@@ -0,0 +1,444 @@
+'use client';
+
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Controls,
+  Background,
+  BackgroundVariant,
+  Handle,
+  Position,
+  useNodesState,
+  MarkerType,
+  type Node,
+  type Edge,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import {
+  X,
+  Network,
+  Workflow,
+  ChevronDown,
+  ChevronRight,
+  ArrowRight,
+  RefreshCcw,
+  Unlink,
+  AlertTriangle,
+} from 'lucide-react';
+import { NODE_COLORS } from '@/types/flow';
+import type { FlowNodeType, NamedFlow } from '@/types/flow';
+import { buildAgentFlowMap } from '@/lib/utils/agentFlowMap';
+import type { CrossFlowLink } from '@/lib/utils/agentFlowMap';
+
+interface AgentFlowMapProps {
+  flows: NamedFlow[];
+  activeFlowId: string | null;
+  onOpenFlow: (flowId: string) => void;
+  onClose: () => void;
+}
+
+interface FlowGroupData {
+  name: string;
+  nodeCount: number;
+  linkCount: number;
+  isActive: boolean;
+  isExpanded: boolean;
+  inCycle: boolean;
+  brokenCount: number;
+  onToggle: () => void;
+  onOpen: () => void;
+  [key: string]: unknown;
+}
+
+interface FlowStepData {
+  label: string;
+  nodeType: FlowNodeType;
+  [key: string]: unknown;
+}
+
+interface MissingFlowData {
+  flowId: string;
+  [key: string]: unknown;
+}
+
+// Map layout (px)
+const COLLAPSED_SIZE = { width: 240, height: 88 };
+const GROUP_HEADER = 56;
+const GROUP_PADDING = 16;
+const STEP_SIZE = { width: 130, height: 30 };
+const STEP_SCALE = 0.45;
+const COLUMN_GAP = 140;
+const ROW_GAP = 40;
+
+const hiddenHandle = { opacity: 0, width: 6, height: 6 };
+
+function FlowGroupNodeComponent({ data }: { data: FlowGroupData }) {
+  const border = data.brokenCount > 0
+    ? 'var(--error)'
+    : data.inCycle
+      ? 'var(--warning)'
+      : data.isActive
+        ? 'var(--accent-primary)'
+        : 'var(--border-default)';
+
+  return (
+    <div
+      className="h-full w-full rounded-xl"
+      style={{
+        background: data.isExpanded ? 'rgba(168, 85, 247, 0.04)' : 'var(--bg-elevated)',
+        border: `2px solid ${border}`,
+        boxShadow: data.isActive ? 'var(--shadow-glow)' : 'var(--shadow-sm)',
+      }}
+      onDoubleClick={data.onOpen}
+    >
+      <Handle type="target" position={Position.Left} id="in" style={{ background: '#a855f7', width: 10, height: 10, top: GROUP_HEADER / 2 }} />
+      <div className="flex items-start gap-2 px-3 pt-2.5">
+        <button
+          onClick={data.onToggle}
+          className="p-0.5 rounded shrink-0"
+          style={{ color: 'var(--text-muted)' }}
+          title={data.isExpanded ? 'Colapsar' : 'Expandir'}
+        >
+          {data.isExpanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        </button>
+        <Workflow className="h-4 w-4 mt-0.5 shrink-0" style={{ color: '#a855f7' }} />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+            {data.name}
+          </p>
+          <p className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+            {data.nodeCount} nodos · {data.linkCount} {data.linkCount === 1 ? 'salida' : 'salidas'} a otros flujos
+            {data.isActive && <span style={{ color: 'var(--accent-primary)' }}> · actual</span>}
+          </p>
+        </div>
+        <button
+          onClick={data.onOpen}
+          className="p-1 rounded shrink-0"
+          style={{ color: 'var(--accent-primary)', background: 'var(--bg-tertiary)' }}
+          title="Abrir flujo"
+        >
+          <ArrowRight className="h-3 w-3" />
+        </button>
+      </div>
+      {!data.isExpanded && (data.inCycle || data.brokenCount > 0) && (
+        <div className="flex gap-1.5 px-3 pt-1.5">
+          {data.inCycle && (
+            <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded" style={{ background: 'var(--warning-subtle)', color: 'var(--warning)' }}>
+              <RefreshCcw className="h-2.5 w-2.5" /> ciclo
+            </span>
+          )}
+          {data.brokenCount > 0 && (
+            <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded" style={{ background: 'var(--error-subtle)', color: 'var(--error)' }}>
+              <Unlink className="h-2.5 w-2.5" /> {data.brokenCount} {data.brokenCount === 1 ? 'referencia rota' : 'referencias rotas'}
+            </span>
+          )}
+        </div>
+      )}
+      <Handle type="source" position={Position.Right} id="out" style={{ background: '#a855f7', width: 10, height: 10, top: GROUP_HEADER / 2 }} />
+    </div>
+  );
+}
+
+function FlowStepNodeComponent({ data }: { data: FlowStepData }) {
+  const colors = NODE_COLORS[data.nodeType] || NODE_COLORS.action;
+  return (
+    <div
+      className="flex items-center px-2 rounded-md text-[10px] font-medium truncate"
+      style={{
+        width: STEP_SIZE.width,
+        height: STEP_SIZE.height,
+        background: colors.bg,
+        border: `1px solid ${colors.border}`,
+        color: colors.text,
+      }}
+      title={data.label}
+    >
+      <Handle type="target" position={Position.Top} style={hiddenHandle} />
+      <span className="truncate">{data.label}</span>
+      <Handle type="source" position={Position.Bottom} style={hiddenHandle} />
+      <Handle type="source" position={Position.Right} id="xflow" style={hiddenHandle} />
+    </div>
+  );
+}
+
+function MissingFlowNodeComponent({ data }: { data: MissingFlowData }) {
+  return (
+    <div
+      className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs"
+      style={{ background: 'var(--error-subtle)', border: '2px dashed var(--error)', color: 'var(--error)' }}
+      title={data.flowId}
+    >
+      <Handle type="target" position={Position.Left} style={{ background: 'var(--error)', width: 10, height: 10 }} />
+      <Unlink className="h-3.5 w-3.5" />
+      Flujo eliminado
+    </div>
+  );
+}
+
+const mapNodeTypes = {
+  flowGroup: memo(FlowGroupNodeComponent),
+  flowStep: memo(FlowStepNodeComponent),
+  missingFlow: memo(MissingFlowNodeComponent),
+};
+
+const stepId = (flowId: string, nodeId: string) => `${flowId}::${nodeId}`;
+
+function groupSize(flow: NamedFlow, expanded: boolean): { width: number; height: number } {
+  const nodes = flow.flowData.nodes;
+  if (!expanded || nodes.length === 0) return COLLAPSED_SIZE;
+  const xs = nodes.map((n) => n.position.x);
+  const ys = nodes.map((n) => n.position.y);
+  return {
+    width: Math.max(COLLAPSED_SIZE.width, (Math.max(...xs) - Math.min(...xs)) * STEP_SCALE + STEP_SIZE.width + GROUP_PADDING * 2),
+    height: GROUP_HEADER + (Math.max(...ys) - Math.min(...ys)) * STEP_SCALE + STEP_SIZE.height + GROUP_PADDING,
+  };
+}
+
+function AgentFlowMapContent({ flows, activeFlowId, onOpenFlow, onClose }: AgentFlowMapProps) {
+  const map = useMemo(() => buildAgentFlowMap(flows), [flows]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(activeFlowId ? [activeFlowId] : []));
+
+  const flowById = useMemo(() => new Map(flows.map((f) => [f.id, f])), [flows]);
+  const cycleFlowIds = useMemo(() => new Set(map.cycles.flat()), [map.cycles]);
+  const missingFlowIds = useMemo(
+    () => [...new Set(map.brokenLinks.map((l) => l.targetFlowId))],
+    [map.brokenLinks]
+  );
+
+  const toggleExpanded = useCallback((flowId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(flowId)) next.delete(flowId);
+      else next.add(flowId);
+      return next;
+    });
+  }, []);
+
+  const computedNodes = useMemo(() => {
+    const result: Node[] = [];
+
+    // Columns by depth; each column stacks its groups vertically
+    const columns = new Map<number, NamedFlow[]>();
+    for (const flow of flows) {
+      const depth = map.depthByFlow[flow.id] ?? 0;
+      columns.set(depth, [...(columns.get(depth) || []), flow]);
+    }
+
+    let x = 0;
+    const sortedDepths = [...columns.keys()].sort((a, b) => a - b);
+    for (const depth of sortedDepths) {
+      let y = 0;
+      let columnWidth = 0;
+
+      for (const flow of columns.get(depth)!) {
+        const isExpanded = expanded.has(flow.id);
+        const size = groupSize(flow, isExpanded);
+        const groupData: FlowGroupData = {
+          name: flow.name,
+          nodeCount: flow.flowData.nodes.length,
+          linkCount: map.links.filter((l) => l.sourceFlowId === flow.id).length,
+          isActive: flow.id === activeFlowId,
+          isExpanded,
+          inCycle: cycleFlowIds.has(flow.id),
+          brokenCount: map.brokenLinks.filter((l) => l.sourceFlowId === flow.id).length,
+          onToggle: () => toggleExpanded(flow.id),
+          onOpen: () => onOpenFlow(flow.id),
+        };
+        result.push({
+          id: flow.id,
+          type: 'flowGroup',
+          position: { x, y },
+          data: groupData,
+          style: { width: size.width, height: size.height },
+        });
+
+        if (isExpanded && flow.flowData.nodes.length > 0) {
+          const minX = Math.min(...flow.flowData.nodes.map((n) => n.position.x));
+          const minY = Math.min(...flow.flowData.nodes.map((n) => n.position.y));
+          for (const node of flow.flowData.nodes) {
+            const stepData: FlowStepData = { label: node.label, nodeType: node.type };
+            result.push({
+              id: stepId(flow.id, node.id),
+              type: 'flowStep',
+              parentId: flow.id,
+              extent: 'parent',
+              draggable: false,
+              position: {
+                x: GROUP_PADDING + (node.position.x - minX) * STEP_SCALE,
+                y: GROUP_HEADER + (node.position.y - minY) * STEP_SCALE,
+              },
+              data: stepData,
+            });
+          }
+        }
+
+        y += size.height + ROW_GAP;
+        columnWidth = Math.max(columnWidth, size.width);
+      }
+
+      x += columnWidth + COLUMN_GAP;
+    }
+
+    // Deleted targets get a placeholder after the last column
+    missingFlowIds.forEach((flowId, i) => {
+      const missingData: MissingFlowData = { flowId };
+      result.push({
+        id: `missing:${flowId}`,
+        type: 'missingFlow',
+        position: { x, y: i * (COLLAPSED_SIZE.height / 2 + ROW_GAP) },
+        data: missingData,
+      });
+    });
+
+    return result;
+  }, [flows, map, expanded, activeFlowId, cycleFlowIds, missingFlowIds, toggleExpanded, onOpenFlow]);
+
+  const edges = useMemo(() => {
+    const result: Edge[] = [];
+    const isCycleLink = (link: CrossFlowLink) =>
+      !link.broken && map.cycles.some((cycle) => cycle.includes(link.sourceFlowId) && cycle.includes(link.targetFlowId));
+
+    // Inner edges of expanded flows
+    for (const flow of flows) {
+      if (!expanded.has(flow.id)) continue;
+      for (const edge of flow.flowData.edges) {
+        result.push({
+          id: `${flow.id}::${edge.id}`,
+          source: stepId(flow.id, edge.source),
+          target: stepId(flow.id, edge.target),
+          type: 'smoothstep',
+          style: { stroke: 'var(--border-default)', strokeWidth: 1 },
+        });
+      }
+    }
+
+    // Cross-flow links: from the end node when its flow is expanded, from the group otherwise
+    for (const link of map.links) {
+      const fromStep = expanded.has(link.sourceFlowId);
+      const color = link.broken ? 'var(--error)' : isCycleLink(link) ? 'var(--warning)' : '#a855f7';
+      result.push({
+        id: `xflow:${link.id}`,
+        source: fromStep ? stepId(link.sourceFlowId, link.sourceNodeId) : link.sourceFlowId,
+        sourceHandle: fromStep ? 'xflow' : 'out',
+        target: link.broken ? `missing:${link.targetFlowId}` : link.targetFlowId,
+        targetHandle: link.broken ? undefined : 'in',
+        label: fromStep ? undefined : link.sourceNodeLabel,
+        type: 'smoothstep',
+        animated: !link.broken,
+        markerEnd: { type: MarkerType.ArrowClosed, color },
+        style: { stroke: color, strokeWidth: 2, strokeDasharray: link.broken ? '6 4' : undefined },
+        labelStyle: { fill: 'var(--text-secondary)', fontSize: 11 },
+        labelBgStyle: { fill: 'var(--bg-elevated)' },
+      });
+    }
+
+    return result;
+  }, [flows, map, expanded]);
+
+  // Local node state so groups can be dragged around; rebuilt when the map changes
+  const [nodes, setNodes, onNodesChange] = useNodesState(computedNodes);
+  useEffect(() => {
+    setNodes(computedNodes);
+  }, [computedNodes, setNodes]);
+
+  const flowName = (flowId: string) => flowById.get(flowId)?.name || flowId;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div
+        className="flex items-center justify-between px-4 py-2 border-b"
+        style={{ background: 'var(--bg-secondary)', borderColor: 'var(--border-subtle)' }}
+      >
+        <h3 className="text-sm font-semibold flex items-center gap-2" style={{ color: 'var(--text-primary)' }}>
+          <Network className="h-4 w-4" style={{ color: '#a855f7' }} />
+          Mapa del agente
+          <span className="text-xs font-normal" style={{ color: 'var(--text-muted)' }}>
+            {flows.length} flujos · {map.links.length} conexiones · doble click para abrir un flujo
+          </span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded transition-colors"
+          style={{ color: 'var(--text-muted)' }}
+          title="Volver al flujo"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Issues */}
+      {(map.brokenLinks.length > 0 || map.cycles.length > 0) && (
+        <div
+          className="px-4 py-2 border-b space-y-1"
+          style={{ background: 'var(--bg-tertiary)', borderColor: 'var(--border-subtle)' }}
+        >
+          {map.brokenLinks.map((link) => (
+            <div key={link.id} className="flex items-center gap-2 text-xs">
+              <Unlink className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--error)' }} />
+              <span className="flex-1 min-w-0 truncate" style={{ color: 'var(--text-secondary)' }}>
+                <strong style={{ color: 'var(--text-primary)' }}>{flowName(link.sourceFlowId)}</strong>
+                {' '}→ &quot;{link.sourceNodeLabel}&quot; apunta a un flujo que ya no existe
+              </span>
+              <button
+                onClick={() => onOpenFlow(link.sourceFlowId)}
+                className="px-2 py-0.5 rounded text-[11px] shrink-0"
+                style={{ background: 'var(--bg-elevated)', color: 'var(--text-secondary)', border: '1px solid var(--border-subtle)' }}
+              >
+                Abrir
+              </button>
+            </div>
+          ))}
+          {map.cycles.map((cycle) => (
+            <div key={cycle.join('>')} className="flex items-center gap-2 text-xs">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--warning)' }} />
+              <span className="flex-1 min-w-0 truncate" style={{ color: 'var(--text-secondary)' }}>
+                Ciclo entre flujos: {[...cycle, cycle[0]].map(flowName).join(' → ')}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Canvas */}
+      <div className="flex-1 min-h-0">
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          onNodesChange={onNodesChange}
+          nodeTypes={mapNodeTypes}
+          nodesConnectable={false}
+          edgesFocusable={false}
+          fitView
+          fitViewOptions={{ padding: 0.2, maxZoom: 1.2 }}
+          proOptions={{ hideAttribution: true }}
+          style={{ background: 'var(--bg-primary)' }}
+        >
+          <Controls
+            showInteractive={false}
+            style={{
+              background: 'var(--bg-elevated)',
+              border: '1px solid var(--border-default)',
+              borderRadius: 8,
+            }}
+          />
+          <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="var(--border-subtle)" />
+        </ReactFlow>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Every NamedFlow of the agent as a collapsible group, with the cross-flow
+ * links between them. Broken references and cycles are listed on top.
+ */
+export function AgentFlowMap(props: AgentFlowMapProps) {
+  // Own provider: the map must not share the viewport of the flow canvas
+  return (
+    <ReactFlowProvider>
+      <AgentFlowMapContent {...props} />
+    </ReactFlowProvider>
+  );
+}
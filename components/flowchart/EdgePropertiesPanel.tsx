@@ -37,6 +37,7 @@ export function EdgePropertiesPanel({
   const sourceNode = nodes.find((n) => n.id === edge.source);
   const targetNode = nodes.find((n) => n.id === edge.target);
   const sourceHandles = sourceNode?.type === 'decision' ? ['yes', 'no'] : ['default'];
+  const switchOutputs = sourceNode?.type === 'switch' ? sourceNode.data?.outputs || [] : [];
 
   return (
     <div className="w-72 flex-shrink-0 border-l flex flex-col" style={{ background: 'var(--bg-secondary)', borderColor: 'var(--border-subtle)' }}>
@@ -70,6 +71,23 @@ export function EdgePropertiesPanel({
           </div>
         )}
 
+        {sourceNode?.type === 'switch' && (
+          <div>
+            <label className="block text-xs font-medium mb-1.5" style={{ color: 'var(--text-secondary)' }}>Salida</label>
+            <select
+              value={edge.sourceHandle || ''}
+              onChange={(e) => {
+                const output = switchOutputs.find((o) => o.id === e.target.value);
+                if (output) onUpdateEdge(edge.id, { sourceHandle: output.id, label: output.label });
+              }}
+              className="w-full input text-sm"
+            >
+              {!switchOutputs.some((o) => o.id === edge.sourceHandle) && <option value="">Sin salida</option>}
+              {switchOutputs.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </select>
+          </div>
+        )}
+
         <div>
           <label className="block text-xs font-medium mb-1.5" style={{ color: 'var(--text-secondary)' }}>Origen</label>
           <input type="text" value={`${sourceNode?.label || edge.source} (${edge.source})`} readOnly className="w-full input text-sm" style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)', cursor: 'not-allowed' }} />
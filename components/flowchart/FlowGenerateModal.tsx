@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Sparkles, X, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
 import { useAnalysisStore } from '@/store/analysisStore';
 import { useFlowStore } from '@/store/flowStore';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
 import { useToastStore } from '@/store/toastStore';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import type { FlowData } from '@/types/flow';
@@ -47,6 +48,7 @@ export function FlowGenerateModal({ onClose, onApplyFlow }: FlowGenerateModalPro
         body: JSON.stringify({
           description: description.trim(),
           context: useContext ? currentPrompt : undefined,
+          sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
         }),
       });
 
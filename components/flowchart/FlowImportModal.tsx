@@ -0,0 +1,344 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FileUp, X, Loader2, CheckCircle, AlertTriangle, Upload } from 'lucide-react';
+import { useFlowStore } from '@/store/flowStore';
+import { useToastStore } from '@/store/toastStore';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import {
+  FLOW_FILE_FORMATS,
+  detectFlowFileFormat,
+  inflateDrawioFile,
+  parseFlowFile,
+} from '@/lib/utils/flowInterchange';
+import { validateFlow } from '@/lib/utils/flowValidator';
+import type { FlowData, FlowFileFormat } from '@/types/flow';
+
+interface FlowImportModalProps {
+  onClose: () => void;
+  onApplyFlow: (flow: FlowData) => void;
+}
+
+const FILE_ACCEPT = '.mmd,.mermaid,.md,.dot,.gv,.drawio,.xml,.txt';
+
+export function FlowImportModal({ onClose, onApplyFlow }: FlowImportModalProps) {
+  const [source, setSource] = useState('');
+  const [format, setFormat] = useState<FlowFileFormat | 'auto'>('auto');
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<FlowData | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { nodes, availableFlows } = useFlowStore();
+  const { addToast } = useToastStore();
+
+  const detected = source.trim() ? detectFlowFileFormat(source) : null;
+  const resolvedFormat = format === 'auto' ? detected : format;
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    handleSourceChange(await file.text());
+  };
+
+  const handleParse = async () => {
+    if (!resolvedFormat) {
+      setError('No se reconoce el formato. Elegi Mermaid, DOT o draw.io.');
+      return;
+    }
+
+    setIsParsing(true);
+    setError(null);
+    try {
+      const text = resolvedFormat === 'drawio' ? await inflateDrawioFile(source) : source;
+      const flow = parseFlowFile(text, resolvedFormat, { availableFlows });
+      if (!flow) {
+        setError(`No se encontraron nodos en el diagrama ${FLOW_FILE_FORMATS[resolvedFormat].label}.`);
+        return;
+      }
+      setResult(flow);
+    } catch {
+      setError('No se pudo leer el archivo. Verifica que sea un diagrama valido.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    if (nodes.length > 0) {
+      setShowConfirm(true);
+    } else {
+      applyAndClose();
+    }
+  };
+
+  const applyAndClose = () => {
+    if (result) {
+      onApplyFlow(result);
+      addToast('Flujo importado', 'success');
+      onClose();
+    }
+  };
+
+  const warnings = result ? validateFlow(result) : [];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ background: 'rgba(0, 0, 0, 0.6)' }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-full max-w-lg rounded-xl border shadow-2xl"
+        style={{
+          background: 'var(--bg-primary)',
+          borderColor: 'var(--border-default)',
+        }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-5 py-4 border-b"
+          style={{ borderColor: 'var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-2.5">
+            <div
+              className="p-1.5 rounded-lg"
+              style={{ background: 'var(--accent-glow)' }}
+            >
+              <FileUp className="h-5 w-5" style={{ color: 'var(--accent-primary)' }} />
+            </div>
+            <h2
+              className="text-base font-semibold"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              Importar Flujo
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg transition-colors"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-5 py-4 space-y-4">
+          {/* Format selector */}
+          <div className="flex items-center gap-2">
+            <label
+              className="text-sm font-medium"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              Formato
+            </label>
+            <select
+              value={format}
+              onChange={(e) => {
+                setFormat(e.target.value as FlowFileFormat | 'auto');
+                setResult(null);
+                setError(null);
+              }}
+              className="rounded-lg px-2 py-1.5 text-sm focus:outline-none"
+              style={{
+                background: 'var(--bg-tertiary)',
+                border: '1px solid var(--border-subtle)',
+                color: 'var(--text-primary)',
+              }}
+              disabled={isParsing}
+            >
+              <option value="auto">
+                {detected ? `Detectar (${FLOW_FILE_FORMATS[detected].label})` : 'Detectar'}
+              </option>
+              {(Object.keys(FLOW_FILE_FORMATS) as FlowFileFormat[]).map((f) => (
+                <option key={f} value={f}>
+                  {FLOW_FILE_FORMATS[f].label}
+                </option>
+              ))}
+            </select>
+            <div className="flex-1" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+              style={{
+                background: 'var(--bg-tertiary)',
+                color: 'var(--text-secondary)',
+                border: '1px solid var(--border-subtle)',
+              }}
+              disabled={isParsing}
+            >
+              <Upload className="h-3.5 w-3.5" />
+              Cargar archivo
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={FILE_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {/* Source textarea */}
+          <div>
+            <label
+              className="block text-sm font-medium mb-1.5"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              Pega el diagrama o carga un archivo
+            </label>
+            <textarea
+              value={source}
+              onChange={(e) => handleSourceChange(e.target.value)}
+              placeholder={'flowchart TD\n  A([Inicio]) --> B{Tiene negocio?}\n  B -->|Si| C[Calificar]\n  B -->|No| D((Fin))'}
+              rows={8}
+              className="w-full rounded-lg px-3 py-2.5 text-xs font-mono resize-none focus:outline-none focus:ring-2"
+              style={{
+                background: 'var(--bg-tertiary)',
+                border: '1px solid var(--border-subtle)',
+                color: 'var(--text-primary)',
+              }}
+              disabled={isParsing}
+            />
+          </div>
+
+          {/* Error */}
+          {error && (
+            <div
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm"
+              style={{
+                background: 'var(--error-subtle)',
+                color: 'var(--error)',
+              }}
+            >
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {/* Result preview */}
+          {result && (
+            <div
+              className="rounded-lg border p-3 space-y-2"
+              style={{
+                background: 'var(--bg-tertiary)',
+                borderColor: 'var(--success)',
+              }}
+            >
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4" style={{ color: 'var(--success)' }} />
+                <span
+                  className="text-sm font-medium"
+                  style={{ color: 'var(--text-primary)' }}
+                >
+                  Diagrama leido
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span
+                  className="text-xs px-2 py-0.5 rounded-full"
+                  style={{
+                    background: 'var(--accent-glow)',
+                    color: 'var(--accent-primary)',
+                  }}
+                >
+                  {result.nodes.length} nodos
+                </span>
+                <span
+                  className="text-xs px-2 py-0.5 rounded-full"
+                  style={{
+                    background: 'var(--bg-elevated)',
+                    color: 'var(--text-secondary)',
+                  }}
+                >
+                  {result.edges.length} conexiones
+                </span>
+                {warnings.length > 0 && (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded-full"
+                    style={{
+                      background: 'var(--warning-subtle)',
+                      color: 'var(--warning)',
+                    }}
+                  >
+                    {warnings.length} advertencias
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          className="flex items-center justify-end gap-2 px-5 py-3 border-t"
+          style={{ borderColor: 'var(--border-subtle)' }}
+        >
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            style={{
+              background: 'var(--bg-tertiary)',
+              color: 'var(--text-secondary)',
+              border: '1px solid var(--border-subtle)',
+            }}
+          >
+            Cancelar
+          </button>
+
+          {result ? (
+            <button
+              onClick={handleApply}
+              className="px-4 py-2 rounded-lg text-sm font-medium transition-colors btn-primary"
+            >
+              Aplicar flujo
+            </button>
+          ) : (
+            <button
+              onClick={handleParse}
+              disabled={isParsing || !source.trim()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isParsing ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Leyendo...
+                </>
+              ) : (
+                <>
+                  <FileUp className="h-4 w-4" />
+                  Importar
+                </>
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showConfirm}
+        onConfirm={() => {
+          setShowConfirm(false);
+          applyAndClose();
+        }}
+        onCancel={() => setShowConfirm(false)}
+        title="Reemplazar flujo"
+        message="Esto reemplazara el flujo actual. ¿Continuar?"
+        confirmLabel="Reemplazar"
+        variant="warning"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { Footprints, Eye, EyeOff, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { walkFlow, type FlowWalkMatch, type FlowWalkResult, type FlowWalkStatus } from '@/lib/utils/flowWalker';
+import { toCanvasNodeId } from '@/lib/utils/flowSubflows';
+import type { NamedFlow } from '@/types/flow';
+
+interface FlowScriptedWalkProps {
+  flows: NamedFlow[];            // Agent flows, with the active one as it is on the canvas
+  entryFlowId: string;
+  script: string;                // Lead messages, one per line
+  onScriptChange: (script: string) => void;
+  isHighlighted: boolean;
+  onHighlight: (nodeIds: string[] | null) => void;
+  onGoToNode: (nodeId: string) => void;
+}
+
+const STATUS_CONFIG: Record<FlowWalkStatus, { icon: typeof CheckCircle; color: string; bg: string; label: string }> = {
+  completed: { icon: CheckCircle, color: 'var(--success)', bg: 'var(--success-subtle)', label: 'Llegó al final' },
+  'awaiting-lead': { icon: Clock, color: 'var(--accent-primary)', bg: 'var(--accent-subtle)', label: 'Espera al lead' },
+  'dead-end': { icon: AlertTriangle, color: 'var(--error)', bg: 'var(--error-subtle)', label: 'Sin salida' },
+};
+
+const MATCH_LABELS: Record<FlowWalkMatch, string> = {
+  single: '',
+  keyword: 'keyword',
+  label: 'etiqueta',
+  'yes-no': 'si/no',
+  condition: 'condición',
+  fallback: 'rama por defecto',
+  'first-edge': 'primera salida',
+};
+
+/**
+ * Walks the flow with scripted lead messages, without model calls (lib/utils/flowWalker.ts)
+ */
+export function FlowScriptedWalk({
+  flows,
+  entryFlowId,
+  script,
+  onScriptChange,
+  isHighlighted,
+  onHighlight,
+  onGoToNode,
+}: FlowScriptedWalkProps) {
+  const [result, setResult] = useState<FlowWalkResult | null>(null);
+
+  const messages = script.split('\n').map((m) => m.trim()).filter(Boolean);
+  const flowName = (flowId: string) => flows.find((f) => f.id === flowId)?.name || flowId;
+
+  // Only steps of the flow on the canvas can be highlighted
+  const canvasNodeIds = (walk: FlowWalkResult) =>
+    [...new Set(walk.trace.filter((s) => s.flowId === entryFlowId).map((s) => toCanvasNodeId(s.nodeId)))];
+
+  const handleWalk = () => {
+    const walk = walkFlow(flows, entryFlowId, messages);
+    setResult(walk);
+    if (isHighlighted) onHighlight(canvasNodeIds(walk));
+  };
+
+  const toggleHighlight = () => {
+    if (result) onHighlight(isHighlighted ? null : canvasNodeIds(result));
+  };
+
+  const status = result ? STATUS_CONFIG[result.status] : null;
+  const StatusIcon = status?.icon;
+
+  return (
+    <div className="px-3 py-2 border-b space-y-2" style={{ borderColor: 'var(--border-subtle)' }}>
+      <p className="text-[10px] uppercase tracking-wider flex items-center gap-1.5" style={{ color: 'var(--text-muted)' }}>
+        <Footprints className="h-3 w-3" />
+        Recorrido sin IA
+      </p>
+      <textarea
+        value={script}
+        onChange={(e) => onScriptChange(e.target.value)}
+        placeholder={'Un mensaje del lead por linea\nHola! vi tu video\nsi, tengo 30'}
+        rows={3}
+        className="w-full px-2 py-1.5 text-[11px] rounded-lg resize-none"
+        style={{
+          background: 'var(--bg-tertiary)',
+          border: '1px solid var(--border-subtle)',
+          color: 'var(--text-primary)',
+        }}
+      />
+      <div className="flex gap-1.5">
+        <button
+          onClick={handleWalk}
+          disabled={messages.length === 0}
+          className="flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium disabled:opacity-50"
+          style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+        >
+          <Footprints className="h-3 w-3" />
+          Recorrer
+        </button>
+        {result && result.trace.length > 0 && (
+          <button
+            onClick={toggleHighlight}
+            className="flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium"
+            style={{
+              background: isHighlighted ? 'var(--accent-subtle)' : 'var(--bg-tertiary)',
+              color: isHighlighted ? 'var(--accent-primary)' : 'var(--text-secondary)',
+            }}
+          >
+            {isHighlighted ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+            Recorrido
+          </button>
+        )}
+      </div>
+
+      {result && status && StatusIcon && (
+        <div className="rounded-lg p-2 space-y-1.5" style={{ background: 'var(--bg-tertiary)' }}>
+          <div className="flex items-center gap-2">
+            <span
+              className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded font-medium"
+              style={{ background: status.bg, color: status.color }}
+            >
+              <StatusIcon className="h-3 w-3" />
+              {status.label}
+            </span>
+            <span className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+              {result.consumedMessages} de {messages.length} mensajes leidos
+            </span>
+          </div>
+
+          <ol className="space-y-0.5">
+            {result.trace.map((step, i) => (
+              <li key={i} className="text-[11px] leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
+                <button
+                  onClick={() => step.flowId === entryFlowId && onGoToNode(toCanvasNodeId(step.nodeId))}
+                  className="text-left hover:underline"
+                  style={{ color: 'var(--text-primary)' }}
+                >
+                  {i + 1}. {step.label}
+                </button>
+                {step.flowId !== entryFlowId && (
+                  <span style={{ color: 'var(--text-muted)' }}> ({flowName(step.flowId)})</span>
+                )}
+                {step.messageIndex !== null && (
+                  <span style={{ color: 'var(--text-muted)' }}> · &quot;{messages[step.messageIndex]}&quot;</span>
+                )}
+                {step.match && MATCH_LABELS[step.match] && (
+                  <span style={{ color: 'var(--text-muted)' }}> → por {MATCH_LABELS[step.match]}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {result.deadEnds.map((deadEnd, i) => (
+            <p key={i} className="text-[11px]" style={{ color: 'var(--error)' }}>
+              {deadEnd.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
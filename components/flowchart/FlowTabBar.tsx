@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Plus, X, Pencil, Copy, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, X, Pencil, Copy, ChevronLeft, ChevronRight, Network, BookmarkPlus } from 'lucide-react';
 
 interface FlowTab {
   id: string;
@@ -16,6 +16,9 @@ interface FlowTabBarProps {
   onRenameFlow: (flowId: string, newName: string) => void;
   onDeleteFlow: (flowId: string) => void;
   onDuplicateFlow: (flowId: string) => void;
+  onSaveAsTemplate?: (flowId: string) => void;
+  onToggleMap?: () => void;
+  isMapOpen?: boolean;
 }
 
 export function FlowTabBar({
@@ -26,6 +29,9 @@ export function FlowTabBar({
   onRenameFlow,
   onDeleteFlow,
   onDuplicateFlow,
+  onSaveAsTemplate,
+  onToggleMap,
+  isMapOpen = false,
 }: FlowTabBarProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
@@ -132,7 +138,7 @@ export function FlowTabBar({
         style={{ scrollbarWidth: 'none' }}
       >
         {flows.map((flow) => {
-          const isActive = flow.id === activeFlowId;
+          const isActive = !isMapOpen && flow.id === activeFlowId;
           const isEditing = flow.id === editingId;
 
           return (
@@ -201,6 +207,22 @@ export function FlowTabBar({
         </button>
       )}
 
+      {/* Agent map: every flow and the links between them */}
+      {onToggleMap && flows.length > 1 && (
+        <button
+          onClick={onToggleMap}
+          className="shrink-0 flex items-center gap-1 ml-1 px-2 py-1 rounded text-xs font-medium transition-all"
+          style={{
+            color: isMapOpen ? '#a855f7' : 'var(--text-muted)',
+            background: isMapOpen ? 'rgba(168, 85, 247, 0.12)' : 'transparent',
+          }}
+          title="Ver como se conectan los flujos del agente"
+        >
+          <Network className="h-3.5 w-3.5" />
+          Mapa
+        </button>
+      )}
+
       {/* Add flow button */}
       <button
         onClick={onAddFlow}
@@ -255,6 +277,21 @@ export function FlowTabBar({
               <Copy className="h-3.5 w-3.5" />
               <span className="font-medium">Duplicar</span>
             </button>
+            {onSaveAsTemplate && (
+              <button
+                onClick={() => {
+                  onSaveAsTemplate(contextMenu.flowId);
+                  setContextMenu(null);
+                }}
+                className="w-full flex items-center gap-2.5 px-3 py-2 text-xs transition-colors"
+                style={{ color: 'var(--text-secondary)' }}
+                onMouseEnter={(e) => (e.currentTarget.style.background = 'var(--bg-tertiary)')}
+                onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+              >
+                <BookmarkPlus className="h-3.5 w-3.5" />
+                <span className="font-medium">Guardar como plantilla</span>
+              </button>
+            )}
             {flows.length > 1 && (
               <button
                 onClick={() => {
@@ -1,25 +1,82 @@
 'use client';
 
-import { useState } from 'react';
-import { LayoutTemplate, X, ArrowRight, GitBranch, CheckCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { LayoutTemplate, X, ArrowRight, GitBranch, CheckCircle, Trash2 } from 'lucide-react';
 import { FLOW_TEMPLATES, TEMPLATE_CATEGORY_LABELS } from '@/lib/data/flowTemplates';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { FlowThumbnail } from './FlowThumbnail';
 import { useFlowStore } from '@/store/flowStore';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
 import { useToastStore } from '@/store/toastStore';
-import type { FlowTemplate } from '@/lib/data/flowTemplates';
-import type { FlowData } from '@/types/flow';
+import { fillPlaceholders, placeholderToken } from '@/lib/utils/flowTemplatePlaceholders';
+import type { FlowData, FlowTemplatePlaceholder, FlowVariable } from '@/types/flow';
 
 interface FlowTemplatesModalProps {
   onClose: () => void;
-  onApplyFlow: (flow: FlowData) => void;
+  onApplyFlow: (flow: FlowData, variables?: FlowVariable[]) => void;
 }
 
+// Built-in and team templates shown in the same list
+interface TemplateItem {
+  id: string;
+  name: string;
+  description: string;
+  badges: string[];
+  flow: FlowData;
+  variables?: FlowVariable[];
+  placeholders: FlowTemplatePlaceholder[];
+  saved: boolean;
+}
+
+const BUILT_IN_ITEMS: TemplateItem[] = FLOW_TEMPLATES.map(t => ({
+  id: t.id,
+  name: t.name,
+  description: t.description,
+  badges: [TEMPLATE_CATEGORY_LABELS[t.category]],
+  flow: t.flow,
+  placeholders: [],
+  saved: false,
+}));
+
 export function FlowTemplatesModal({ onClose, onApplyFlow }: FlowTemplatesModalProps) {
-  const [selectedTemplate, setSelectedTemplate] = useState<FlowTemplate | null>(null);
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplateItem | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<TemplateItem | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({});
   const { nodes } = useFlowStore();
+  const { flowTemplates, deleteFlowTemplate } = useKnowledgeStore();
   const { addToast } = useToastStore();
 
+  const savedItems: TemplateItem[] = useMemo(
+    () => flowTemplates.map(t => ({
+      id: t.id,
+      name: t.name,
+      description: t.description,
+      badges: t.tags,
+      flow: t.flowData,
+      variables: t.variables,
+      placeholders: t.placeholders,
+      saved: true,
+    })),
+    [flowTemplates]
+  );
+
+  const allTags = useMemo(
+    () => [...new Set(flowTemplates.flatMap(t => t.tags))].sort(),
+    [flowTemplates]
+  );
+
+  const visibleItems = tagFilter
+    ? savedItems.filter(t => t.badges.includes(tagFilter))
+    : [...savedItems, ...BUILT_IN_ITEMS];
+
+  const handleSelect = (template: TemplateItem) => {
+    const isSelected = selectedTemplate?.id === template.id;
+    setSelectedTemplate(isSelected ? null : template);
+    setPlaceholderValues({});
+  };
+
   const handleApply = () => {
     if (!selectedTemplate) return;
     if (nodes.length > 0) {
@@ -31,7 +88,7 @@ export function FlowTemplatesModal({ onClose, onApplyFlow }: FlowTemplatesModalP
 
   const applyAndClose = () => {
     if (selectedTemplate) {
-      onApplyFlow(selectedTemplate.flow);
+      onApplyFlow(fillPlaceholders(selectedTemplate.flow, placeholderValues), selectedTemplate.variables);
       addToast('Plantilla aplicada', 'success');
       onClose();
     }
@@ -83,17 +140,37 @@ export function FlowTemplatesModal({ onClose, onApplyFlow }: FlowTemplatesModalP
         {/* Body */}
         <div className="px-5 py-4 space-y-4">
           <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
-            Selecciona una plantilla para comenzar con un flujo pre-definido.
+            Selecciona una plantilla para comenzar con un flujo pre-definido. Las del equipo se guardan desde la pestaña de cada flujo (click derecho → Guardar como plantilla).
           </p>
 
+          {/* Tag filter (team templates) */}
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {[null, ...allTags].map((tag) => (
+                <button
+                  key={tag ?? 'all'}
+                  onClick={() => setTagFilter(tag)}
+                  className="text-[11px] px-2 py-0.5 rounded-full font-medium transition-colors"
+                  style={{
+                    background: tagFilter === tag ? 'var(--accent-glow)' : 'var(--bg-tertiary)',
+                    color: tagFilter === tag ? 'var(--accent-primary)' : 'var(--text-muted)',
+                    border: '1px solid var(--border-subtle)',
+                  }}
+                >
+                  {tag ?? 'Todas'}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Template Grid */}
-          <div className="grid grid-cols-1 gap-3">
-            {FLOW_TEMPLATES.map((template) => {
+          <div className="grid grid-cols-1 gap-3 max-h-[50vh] overflow-y-auto">
+            {visibleItems.map((template) => {
               const isSelected = selectedTemplate?.id === template.id;
               return (
                 <button
                   key={template.id}
-                  onClick={() => setSelectedTemplate(isSelected ? null : template)}
+                  onClick={() => handleSelect(template)}
                   className="text-left p-4 rounded-lg border transition-all"
                   style={{
                     background: isSelected ? 'var(--accent-glow)' : 'var(--bg-tertiary)',
@@ -101,23 +178,35 @@ export function FlowTemplatesModal({ onClose, onApplyFlow }: FlowTemplatesModalP
                   }}
                 >
                   <div className="flex items-start justify-between gap-3">
+                    <FlowThumbnail flow={template.flow} />
                     <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 mb-1">
+                      <div className="flex items-center gap-2 mb-1 flex-wrap">
                         <h3
                           className="text-sm font-semibold"
                           style={{ color: 'var(--text-primary)' }}
                         >
                           {template.name}
                         </h3>
-                        <span
-                          className="text-[10px] px-1.5 py-0.5 rounded-full font-medium"
-                          style={{
-                            background: 'var(--bg-elevated)',
-                            color: 'var(--text-muted)',
-                          }}
-                        >
-                          {TEMPLATE_CATEGORY_LABELS[template.category]}
-                        </span>
+                        {template.badges.map((badge) => (
+                          <span
+                            key={badge}
+                            className="text-[10px] px-1.5 py-0.5 rounded-full font-medium"
+                            style={{
+                              background: 'var(--bg-elevated)',
+                              color: 'var(--text-muted)',
+                            }}
+                          >
+                            {badge}
+                          </span>
+                        ))}
+                        {template.saved && (
+                          <span
+                            className="text-[10px] px-1.5 py-0.5 rounded-full font-medium"
+                            style={{ background: 'var(--bg-elevated)', color: 'var(--accent-primary)' }}
+                          >
+                            Equipo
+                          </span>
+                        )}
                       </div>
                       <p
                         className="text-xs leading-relaxed"
@@ -142,14 +231,59 @@ export function FlowTemplatesModal({ onClose, onApplyFlow }: FlowTemplatesModalP
                         </span>
                       </div>
                     </div>
-                    {isSelected && (
-                      <CheckCircle className="h-5 w-5 shrink-0" style={{ color: 'var(--accent-primary)' }} />
-                    )}
+                    <div className="flex flex-col items-center gap-2 shrink-0">
+                      {isSelected && (
+                        <CheckCircle className="h-5 w-5" style={{ color: 'var(--accent-primary)' }} />
+                      )}
+                      {template.saved && (
+                        <span
+                          role="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleteTarget(template);
+                          }}
+                          className="p-1 rounded transition-colors"
+                          style={{ color: 'var(--text-muted)' }}
+                          title="Eliminar plantilla"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </button>
               );
             })}
           </div>
+
+          {/* Placeholders of the selected template */}
+          {selectedTemplate && selectedTemplate.placeholders.length > 0 && (
+            <div
+              className="p-3 rounded-lg space-y-2"
+              style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-subtle)' }}
+            >
+              <p className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+                Completar datos de la plantilla
+              </p>
+              {selectedTemplate.placeholders.map((placeholder) => (
+                <div key={placeholder.key} className="flex items-center gap-2">
+                  <span
+                    className="w-32 shrink-0 text-xs"
+                    style={{ color: 'var(--text-muted)' }}
+                    title={placeholderToken(placeholder.key)}
+                  >
+                    {placeholder.label}
+                  </span>
+                  <input
+                    value={placeholderValues[placeholder.key] || ''}
+                    onChange={(e) => setPlaceholderValues(prev => ({ ...prev, [placeholder.key]: e.target.value }))}
+                    placeholder={placeholderToken(placeholder.key)}
+                    className="flex-1 min-w-0 input text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -190,6 +324,23 @@ export function FlowTemplatesModal({ onClose, onApplyFlow }: FlowTemplatesModalP
         confirmLabel="Reemplazar"
         variant="warning"
       />
+
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        onConfirm={() => {
+          if (deleteTarget) {
+            deleteFlowTemplate(deleteTarget.id);
+            if (selectedTemplate?.id === deleteTarget.id) setSelectedTemplate(null);
+            addToast('Plantilla eliminada', 'success');
+          }
+          setDeleteTarget(null);
+        }}
+        onCancel={() => setDeleteTarget(null)}
+        title="Eliminar plantilla"
+        message={`Se elimina "${deleteTarget?.name}" de la biblioteca del equipo. Los flujos creados con ella no cambian.`}
+        confirmLabel="Eliminar"
+        variant="danger"
+      />
     </div>
   );
 }
@@ -0,0 +1,507 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  X,
+  Loader2,
+  Play,
+  FlaskConical,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  EyeOff,
+  ArrowRight,
+  Footprints,
+} from 'lucide-react';
+import { useFlowStore } from '@/store/flowStore';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useToastStore } from '@/store/toastStore';
+import { LEAD_PERSONAS } from '@/lib/utils/conversationSimulator';
+import {
+  createSubflowResolver,
+  expandSubflows,
+  expandSubflowsInFlows,
+  getSubflowSources,
+  toCanvasNodeId,
+} from '@/lib/utils/flowSubflows';
+import type { FlowTestCase, FlowTestRun, FlowTestStatus, NamedFlow, TestOutcome } from '@/types/flow';
+import { FlowScriptedWalk } from './FlowScriptedWalk';
+
+interface FlowTestPanelProps {
+  onClose: () => void;
+  onGoToNode: (nodeId: string) => void;
+}
+
+const OUTCOME_LABELS: Record<TestOutcome, string> = {
+  converted: 'Convertido',
+  nurture: 'Nurture',
+  lost: 'Perdido',
+  blocked: 'Bloqueado',
+  timeout: 'Sin cierre',
+};
+
+// highlightedRunId of the scripted walk, next to the ids of test runs
+const WALK_HIGHLIGHT_ID = 'scripted-walk';
+
+const statusConfig: Record<FlowTestStatus, { icon: typeof CheckCircle; color: string; bg: string; label: string }> = {
+  passed: { icon: CheckCircle, color: 'var(--success)', bg: 'var(--success-subtle)', label: 'Pasó' },
+  failed: { icon: XCircle, color: 'var(--error)', bg: 'var(--error-subtle)', label: 'Falló' },
+  error: { icon: AlertTriangle, color: 'var(--warning)', bg: 'var(--warning-subtle)', label: 'Error' },
+};
+
+export function FlowTestPanel({ onClose, onGoToNode }: FlowTestPanelProps) {
+  const { activeFlowId, nodes, edges, highlightedNodeIds, setHighlightedNodeIds } = useFlowStore();
+  const { currentProjectId, projects, flowTemplates, updateFlow } = useKnowledgeStore();
+  const { currentPrompt } = useAnalysisStore();
+  const { addToast } = useToastStore();
+
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [runningIds, setRunningIds] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [highlightedRunId, setHighlightedRunId] = useState<string | null>(null);
+  const [walkScript, setWalkScript] = useState('');
+
+  const currentProject = projects.find(p => p.id === currentProjectId);
+  const currentAgentId = currentProject?.currentAgentId || null;
+  const currentAgent = currentProject?.agents.find(a => a.id === currentAgentId);
+  const namedFlow = currentAgent?.flows?.find(f => f.id === activeFlowId);
+
+  // Test cases and simulations see subflows written out inline
+  const simulationFlowData = expandSubflows(
+    { nodes, edges },
+    createSubflowResolver(getSubflowSources(currentProject, flowTemplates)),
+    activeFlowId ? [activeFlowId] : []
+  );
+
+  // The walker follows cross-flow links into the agent's other flows; the active one as on the canvas
+  const walkFlows: NamedFlow[] = expandSubflowsInFlows(
+    (currentAgent?.flows || []).map(f => (f.id === activeFlowId ? { ...f, flowData: { nodes, edges } } : f)),
+    createSubflowResolver(getSubflowSources(currentProject, flowTemplates))
+  );
+
+  const testCases = namedFlow?.testCases || [];
+  const testRuns = namedFlow?.testRuns || [];
+  const runsByCase = new Map(testRuns.map(r => [r.testCaseId, r]));
+  const passedCount = testRuns.filter(r => r.status === 'passed').length;
+  const failedCount = testRuns.filter(r => r.status !== 'passed').length;
+  const isRunning = runningIds.size > 0;
+
+  // Drop the canvas highlight when the panel closes
+  useEffect(() => {
+    return () => setHighlightedNodeIds(null);
+  }, [setHighlightedNodeIds]);
+
+  const persistRun = useCallback((run: FlowTestRun) => {
+    if (!currentProjectId || !currentAgentId || !activeFlowId) return;
+    // Re-read the flow so parallel updates don't overwrite each other
+    const flow = useKnowledgeStore.getState().projects
+      .find(p => p.id === currentProjectId)?.agents
+      .find(a => a.id === currentAgentId)?.flows
+      ?.find(f => f.id === activeFlowId);
+    const otherRuns = (flow?.testRuns || []).filter(r => r.testCaseId !== run.testCaseId);
+    updateFlow(currentProjectId, currentAgentId, activeFlowId, { testRuns: [...otherRuns, run] });
+  }, [currentProjectId, currentAgentId, activeFlowId, updateFlow]);
+
+  const handleGenerate = async () => {
+    if (!currentProjectId || !currentAgentId || !activeFlowId) return;
+    setIsGenerating(true);
+
+    try {
+      const response = await fetch('/api/flow/test-cases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          flowData: simulationFlowData,
+          promptContext: currentPrompt,
+          sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast(data.error || 'Error al generar test cases', 'error');
+        return;
+      }
+
+      // The model numbers cases "tc-001"...; give them stable unique ids
+      const generated: FlowTestCase[] = (data.testCases as FlowTestCase[]).map((tc) => ({
+        ...tc,
+        id: crypto.randomUUID(),
+        personaId: tc.personaId in LEAD_PERSONAS ? tc.personaId : 'ideal',
+        redFlags: tc.redFlags || [],
+        nodesExpectedToVisit: tc.nodesExpectedToVisit || [],
+      }));
+
+      updateFlow(currentProjectId, currentAgentId, activeFlowId, { testCases: generated, testRuns: [] });
+      setHighlightedNodeIds(null);
+      setHighlightedRunId(null);
+      addToast(`${generated.length} test cases generados`, 'success');
+    } catch {
+      addToast('Error de conexion. Intenta de nuevo.', 'error');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const runTestCase = async (testCase: FlowTestCase) => {
+    setRunningIds(prev => new Set(prev).add(testCase.id));
+
+    try {
+      const response = await fetch('/api/flow/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          testCase,
+          flowData: simulationFlowData,
+          agentPrompt: currentPrompt,
+          sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast(data.error || 'Error al simular la conversacion', 'error');
+        return;
+      }
+
+      persistRun(data.run as FlowTestRun);
+    } catch {
+      addToast('Error de conexion. Intenta de nuevo.', 'error');
+    } finally {
+      setRunningIds(prev => {
+        const next = new Set(prev);
+        next.delete(testCase.id);
+        return next;
+      });
+    }
+  };
+
+  // Sequential on purpose: each simulation is several model calls
+  const handleRunAll = async () => {
+    for (const testCase of testCases) {
+      await runTestCase(testCase);
+    }
+  };
+
+  const toggleHighlight = (run: FlowTestRun) => {
+    if (highlightedRunId === run.id) {
+      setHighlightedRunId(null);
+      setHighlightedNodeIds(null);
+    } else {
+      setHighlightedRunId(run.id);
+      setHighlightedNodeIds([...new Set(run.visitedNodeIds.map(toCanvasNodeId))]);
+    }
+  };
+
+  const handleWalkHighlight = (nodeIds: string[] | null) => {
+    setHighlightedRunId(nodeIds ? WALK_HIGHLIGHT_ID : null);
+    setHighlightedNodeIds(nodeIds);
+  };
+
+  const nodeLabel = (nodeId: string) => simulationFlowData.nodes.find(n => n.id === nodeId)?.label || nodeId;
+
+  return (
+    <div
+      className="h-full flex flex-col border-l"
+      style={{
+        width: 320,
+        minWidth: 320,
+        background: 'var(--bg-secondary)',
+        borderColor: 'var(--border-subtle)',
+      }}
+    >
+      {/* Header */}
+      <div
+        className="flex items-center justify-between px-3 py-2.5 border-b"
+        style={{ borderColor: 'var(--border-subtle)' }}
+      >
+        <h3
+          className="text-sm font-semibold flex items-center gap-2"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          <FlaskConical className="h-4 w-4" style={{ color: 'var(--accent-primary)' }} />
+          Tests del Flujo
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded transition-colors"
+          style={{ color: 'var(--text-muted)' }}
+          title="Cerrar"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Actions + summary */}
+      <div
+        className="px-3 py-2 border-b space-y-2"
+        style={{ borderColor: 'var(--border-subtle)' }}
+      >
+        <div className="flex gap-1.5">
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || isRunning || !activeFlowId}
+            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+            style={{
+              background: testCases.length === 0 ? 'var(--accent-primary)' : 'var(--bg-tertiary)',
+              color: testCases.length === 0 ? 'var(--bg-primary)' : 'var(--text-secondary)',
+              border: '1px solid var(--border-subtle)',
+            }}
+          >
+            {isGenerating ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FlaskConical className="h-3.5 w-3.5" />}
+            {isGenerating ? 'Generando...' : testCases.length === 0 ? 'Generar tests' : 'Regenerar'}
+          </button>
+          {testCases.length > 0 && (
+            <button
+              onClick={handleRunAll}
+              disabled={isRunning || isGenerating || !currentPrompt.trim()}
+              className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+              style={{
+                background: 'var(--accent-primary)',
+                color: 'var(--bg-primary)',
+              }}
+              title={!currentPrompt.trim() ? 'El agente necesita un prompt para simular' : undefined}
+            >
+              {isRunning ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Play className="h-3.5 w-3.5" />}
+              {isRunning ? 'Ejecutando...' : 'Ejecutar todos'}
+            </button>
+          )}
+        </div>
+
+        {testRuns.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span
+              className="text-xs px-2 py-0.5 rounded-full font-medium"
+              style={{ background: 'var(--success-subtle)', color: 'var(--success)' }}
+            >
+              {passedCount} pasaron
+            </span>
+            {failedCount > 0 && (
+              <span
+                className="text-xs px-2 py-0.5 rounded-full font-medium"
+                style={{ background: 'var(--error-subtle)', color: 'var(--error)' }}
+              >
+                {failedCount} fallaron
+              </span>
+            )}
+            <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+              de {testCases.length}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {activeFlowId && (
+        <FlowScriptedWalk
+          flows={walkFlows}
+          entryFlowId={activeFlowId}
+          script={walkScript}
+          onScriptChange={setWalkScript}
+          isHighlighted={highlightedRunId === WALK_HIGHLIGHT_ID && !!highlightedNodeIds}
+          onHighlight={handleWalkHighlight}
+          onGoToNode={onGoToNode}
+        />
+      )}
+
+      {/* Test cases list */}
+      <div className="flex-1 overflow-y-auto">
+        {testCases.length === 0 && !isGenerating && (
+          <p className="px-3 py-6 text-xs text-center" style={{ color: 'var(--text-muted)' }}>
+            Genera test cases para simular conversaciones con distintos tipos de leads contra este flujo.
+          </p>
+        )}
+
+        {testCases.map((testCase) => {
+          const run = runsByCase.get(testCase.id);
+          const isCaseRunning = runningIds.has(testCase.id);
+          const isExpanded = expandedId === testCase.id;
+          const config = run ? statusConfig[run.status] : null;
+          const StatusIcon = config?.icon;
+
+          return (
+            <div
+              key={testCase.id}
+              className="border-b"
+              style={{ borderColor: 'var(--border-subtle)' }}
+            >
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : testCase.id)}
+                className="w-full flex items-start gap-2 px-3 py-2.5 text-left"
+              >
+                {isExpanded ? (
+                  <ChevronDown className="h-3.5 w-3.5 mt-0.5 shrink-0" style={{ color: 'var(--text-muted)' }} />
+                ) : (
+                  <ChevronRight className="h-3.5 w-3.5 mt-0.5 shrink-0" style={{ color: 'var(--text-muted)' }} />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                    {testCase.name}
+                  </p>
+                  <p className="text-[10px] mt-0.5" style={{ color: 'var(--text-muted)' }}>
+                    {LEAD_PERSONAS[testCase.personaId]?.name || testCase.personaId} · espera {OUTCOME_LABELS[testCase.expectedOutcome] || testCase.expectedOutcome}
+                  </p>
+                </div>
+                {isCaseRunning ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin shrink-0" style={{ color: 'var(--accent-primary)' }} />
+                ) : config && StatusIcon ? (
+                  <span
+                    className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0"
+                    style={{ background: config.bg, color: config.color }}
+                  >
+                    <StatusIcon className="h-3 w-3" />
+                    {config.label}
+                  </span>
+                ) : null}
+              </button>
+
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-2">
+                  <p className="text-xs leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
+                    {testCase.description}
+                  </p>
+                  <p className="text-[11px]" style={{ color: 'var(--text-tertiary)' }}>
+                    <strong>Primer mensaje:</strong> &quot;{testCase.triggerMessage}&quot;
+                  </p>
+
+                  {testCase.redFlags.length > 0 && (
+                    <div>
+                      <p className="text-[10px] uppercase tracking-wider mb-1" style={{ color: 'var(--text-muted)' }}>
+                        Red flags
+                      </p>
+                      <ul className="space-y-0.5">
+                        {testCase.redFlags.map((flag) => {
+                          const triggered = run?.triggeredRedFlags.includes(flag);
+                          return (
+                            <li
+                              key={flag}
+                              className="text-[11px]"
+                              style={{ color: triggered ? 'var(--error)' : 'var(--text-tertiary)' }}
+                            >
+                              {triggered ? '✗' : '·'} {flag}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  )}
+
+                  {run && (
+                    <div
+                      className="rounded-lg p-2 space-y-1.5"
+                      style={{ background: 'var(--bg-tertiary)' }}
+                    >
+                      {run.error ? (
+                        <p className="text-[11px]" style={{ color: 'var(--warning)' }}>{run.error}</p>
+                      ) : (
+                        <>
+                          <p className="text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                            <strong>Resultado:</strong> {run.actualOutcome ? OUTCOME_LABELS[run.actualOutcome] : '—'}
+                          </p>
+                          {run.reasoning && (
+                            <p className="text-[11px]" style={{ color: 'var(--text-tertiary)' }}>{run.reasoning}</p>
+                          )}
+                        </>
+                      )}
+
+                      {run.visitedNodeIds.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {run.visitedNodeIds.map((nodeId) => (
+                            <button
+                              key={nodeId}
+                              onClick={() => onGoToNode(toCanvasNodeId(nodeId))}
+                              className="text-[10px] px-1.5 py-0.5 rounded"
+                              style={{ background: 'var(--success-subtle)', color: 'var(--success)' }}
+                            >
+                              {nodeLabel(nodeId)}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {run.missedNodeIds.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="text-[10px]" style={{ color: 'var(--text-muted)' }}>No visitados:</span>
+                          {run.missedNodeIds.map((nodeId) => (
+                            <button
+                              key={nodeId}
+                              onClick={() => onGoToNode(toCanvasNodeId(nodeId))}
+                              className="flex items-center gap-0.5 text-[10px] px-1.5 py-0.5 rounded"
+                              style={{ background: 'var(--bg-elevated)', color: 'var(--text-muted)' }}
+                            >
+                              <ArrowRight className="h-2.5 w-2.5" />
+                              {nodeLabel(nodeId)}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {run.transcript.length > 0 && (
+                        <details>
+                          <summary className="text-[11px] cursor-pointer" style={{ color: 'var(--accent-primary)' }}>
+                            Ver conversación ({run.transcript.length} mensajes)
+                          </summary>
+                          <div className="mt-1.5 space-y-1">
+                            {run.transcript.map((turn, i) => (
+                              <p
+                                key={i}
+                                className="text-[11px] leading-relaxed"
+                                style={{ color: turn.role === 'lead' ? 'var(--text-secondary)' : 'var(--text-primary)' }}
+                              >
+                                <strong>{turn.role === 'lead' ? 'Lead' : 'Agente'}:</strong> {turn.content}
+                              </p>
+                            ))}
+                          </div>
+                        </details>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex gap-1.5">
+                    <button
+                      onClick={() => runTestCase(testCase)}
+                      disabled={isCaseRunning || !currentPrompt.trim()}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium disabled:opacity-50"
+                      style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+                    >
+                      <Play className="h-3 w-3" />
+                      {run ? 'Re-ejecutar' : 'Ejecutar'}
+                    </button>
+                    <button
+                      onClick={() => setWalkScript(testCase.triggerMessage)}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium"
+                      style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+                      title="Usar el primer mensaje en el recorrido sin IA"
+                    >
+                      <Footprints className="h-3 w-3" />
+                      Sin IA
+                    </button>
+                    {run && run.visitedNodeIds.length > 0 && (
+                      <button
+                        onClick={() => toggleHighlight(run)}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium"
+                        style={{
+                          background: highlightedRunId === run.id && highlightedNodeIds ? 'var(--accent-subtle)' : 'var(--bg-tertiary)',
+                          color: highlightedRunId === run.id && highlightedNodeIds ? 'var(--accent-primary)' : 'var(--text-secondary)',
+                        }}
+                      >
+                        {highlightedRunId === run.id && highlightedNodeIds ? (
+                          <EyeOff className="h-3 w-3" />
+                        ) : (
+                          <Eye className="h-3 w-3" />
+                        )}
+                        Recorrido
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
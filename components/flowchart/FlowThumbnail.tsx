@@ -0,0 +1,79 @@
+'use client';
+
+import { useMemo } from 'react';
+import { NODE_COLORS, NODE_DIMENSIONS } from '@/types/flow';
+import type { FlowData } from '@/types/flow';
+
+interface FlowThumbnailProps {
+  flow: FlowData;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 40;
+
+/**
+ * Static preview of a flow (boxes and lines) for template cards
+ */
+export function FlowThumbnail({ flow, width = 120, height = 80 }: FlowThumbnailProps) {
+  const viewBox = useMemo(() => {
+    if (flow.nodes.length === 0) return '0 0 100 100';
+    const xs = flow.nodes.map(n => n.position.x);
+    const ys = flow.nodes.map(n => n.position.y);
+    const maxX = Math.max(...flow.nodes.map(n => n.position.x + NODE_DIMENSIONS[n.type].width));
+    const maxY = Math.max(...flow.nodes.map(n => n.position.y + NODE_DIMENSIONS[n.type].height));
+    const minX = Math.min(...xs) - PADDING;
+    const minY = Math.min(...ys) - PADDING;
+    return `${minX} ${minY} ${maxX - minX + PADDING} ${maxY - minY + PADDING}`;
+  }, [flow.nodes]);
+
+  const centers = useMemo(
+    () => new Map(flow.nodes.map(n => [n.id, {
+      x: n.position.x + NODE_DIMENSIONS[n.type].width / 2,
+      y: n.position.y + NODE_DIMENSIONS[n.type].height / 2,
+    }])),
+    [flow.nodes]
+  );
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={viewBox}
+      preserveAspectRatio="xMidYMid meet"
+      className="shrink-0 rounded-md"
+      style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-subtle)' }}
+    >
+      {flow.edges.map((edge) => {
+        const from = centers.get(edge.source);
+        const to = centers.get(edge.target);
+        if (!from || !to) return null;
+        return (
+          <line
+            key={edge.id}
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            stroke="var(--text-muted)"
+            strokeWidth={6}
+          />
+        );
+      })}
+      {flow.nodes.map((node) => {
+        const { width: w, height: h } = NODE_DIMENSIONS[node.type];
+        return (
+          <rect
+            key={node.id}
+            x={node.position.x}
+            y={node.position.y}
+            width={w}
+            height={h}
+            rx={16}
+            fill={NODE_COLORS[node.type].border}
+          />
+        );
+      })}
+    </svg>
+  );
+}
@@ -3,12 +3,14 @@
 import { useState } from 'react';
 import { Wand2, X, Loader2, CheckCircle, AlertTriangle, Copy, FileInput } from 'lucide-react';
 import { useAnalysisStore } from '@/store/analysisStore';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
 import { useToastStore } from '@/store/toastStore';
-import type { FlowData } from '@/types/flow';
+import type { FlowData, FlowVariable } from '@/types/flow';
 
 interface FlowToPromptModalProps {
   onClose: () => void;
   flowData: FlowData;
+  variables?: FlowVariable[];
 }
 
 interface GenerateResult {
@@ -19,7 +21,7 @@ interface GenerateResult {
   summary: string;
 }
 
-export function FlowToPromptModal({ onClose, flowData }: FlowToPromptModalProps) {
+export function FlowToPromptModal({ onClose, flowData, variables }: FlowToPromptModalProps) {
   const { currentPrompt, setPrompt } = useAnalysisStore();
 
   const [clientName, setClientName] = useState('');
@@ -43,9 +45,11 @@ export function FlowToPromptModal({ onClose, flowData }: FlowToPromptModalProps)
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           flowData,
+          variables: variables && variables.length > 0 ? variables : undefined,
           context: useContext ? currentPrompt : undefined,
           clientName: clientName.trim() || undefined,
           agentGoal: agentGoal.trim() || undefined,
+          sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
         }),
       });
 
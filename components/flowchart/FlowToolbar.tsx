@@ -6,6 +6,11 @@ import {
   Square,
   MessageSquare,
   HelpCircle,
+  Split,
+  Hourglass,
+  Headset,
+  Paperclip,
+  Layers,
   Trash2,
   Upload,
   Maximize2,
@@ -24,8 +29,13 @@ import {
   Type,
   Code,
   ClipboardCopy,
+  FlaskConical,
+  Variable,
+  FileDown,
+  FileUp,
 } from 'lucide-react';
-import type { FlowNodeType, FlowTextFormat } from '@/types/flow';
+import type { FlowFileFormat, FlowNodeType, FlowTextFormat } from '@/types/flow';
+import { FLOW_FILE_FORMATS } from '@/lib/utils/flowInterchange';
 
 interface FlowToolbarProps {
   onAddNode: (type: FlowNodeType) => void;
@@ -37,6 +47,9 @@ interface FlowToolbarProps {
   selectedNodeType?: FlowNodeType;
   validationWarningCount: number;
   onToggleValidation: () => void;
+  onToggleTests: () => void;
+  onToggleVariables: () => void;
+  variableCount: number;
   onGenerateFromNL: () => void;
   onExportAscii: () => void;
   onInsertInPrompt: () => void;
@@ -50,12 +63,19 @@ interface FlowToolbarProps {
   onAutoLayout: () => void;
   onReinsertFlowInPrompt: (format: FlowTextFormat) => void;
   hasSourceOrigin: boolean;
+  onDownloadFlow: (format: FlowFileFormat) => void;
+  onOpenImport: () => void;
 }
 
 const nodeButtons: { type: FlowNodeType; icon: typeof Play; label: string; color: string }[] = [
   { type: 'start', icon: Play, label: 'Inicio', color: 'var(--success)' },
   { type: 'action', icon: MessageSquare, label: 'Accion', color: 'var(--accent-primary)' },
   { type: 'decision', icon: HelpCircle, label: 'Decision', color: 'var(--warning)' },
+  { type: 'switch', icon: Split, label: 'Switch', color: 'var(--info)' },
+  { type: 'wait', icon: Hourglass, label: 'Espera', color: 'var(--text-secondary)' },
+  { type: 'handoff', icon: Headset, label: 'Derivar', color: '#a855f7' },
+  { type: 'resource', icon: Paperclip, label: 'Recurso', color: 'var(--success)' },
+  { type: 'subflow', icon: Layers, label: 'Subflujo', color: 'var(--accent-primary)' },
   { type: 'end', icon: Square, label: 'Fin', color: 'var(--error)' },
 ];
 
@@ -191,6 +211,9 @@ export function FlowToolbar({
   hasSelectedNode,
   validationWarningCount,
   onToggleValidation,
+  onToggleTests,
+  onToggleVariables,
+  variableCount,
   onGenerateFromNL,
   onExportAscii,
   onInsertInPrompt,
@@ -204,6 +227,8 @@ export function FlowToolbar({
   onAutoLayout,
   onReinsertFlowInPrompt,
   hasSourceOrigin,
+  onDownloadFlow,
+  onOpenImport,
 }: FlowToolbarProps) {
   const [showClearConfirm, setShowClearConfirm] = useState(false);
 
@@ -291,6 +316,12 @@ export function FlowToolbar({
           onClick={onFitView}
           disabled={!hasNodes}
         />
+        <DropdownItem
+          icon={Variable}
+          label={`Variables del flujo${variableCount > 0 ? ` (${variableCount})` : ''}`}
+          onClick={onToggleVariables}
+          disabled={!hasNodes}
+        />
         <DropdownDivider />
         {!showClearConfirm ? (
           <DropdownItem
@@ -348,6 +379,12 @@ export function FlowToolbar({
           disabled={!hasNodes}
           color={validationWarningCount > 0 ? 'var(--warning)' : undefined}
         />
+        <DropdownItem
+          icon={FlaskConical}
+          label="Probar con conversaciones"
+          onClick={onToggleTests}
+          disabled={!hasNodes}
+        />
         <DropdownDivider />
         <DropdownItem
           icon={hasSourceOrigin ? RefreshCcw : ClipboardCopy}
@@ -363,6 +400,16 @@ export function FlowToolbar({
           disabled={!hasNodes}
           color="var(--accent-primary)"
         />
+        <DropdownDivider />
+        {(Object.keys(FLOW_FILE_FORMATS) as FlowFileFormat[]).map((format) => (
+          <DropdownItem
+            key={format}
+            icon={FileDown}
+            label={`Descargar ${FLOW_FILE_FORMATS[format].label} (.${FLOW_FILE_FORMATS[format].extension})`}
+            onClick={() => onDownloadFlow(format)}
+            disabled={!hasNodes}
+          />
+        ))}
       </ToolbarDropdown>
 
       {/* Generate dropdown */}
@@ -372,6 +419,11 @@ export function FlowToolbar({
           label="Usar plantilla"
           onClick={onOpenTemplates}
         />
+        <DropdownItem
+          icon={FileUp}
+          label="Importar Mermaid, DOT o draw.io"
+          onClick={onOpenImport}
+        />
         <DropdownItem
           icon={Wand2}
           label="Generar secciones de prompt"
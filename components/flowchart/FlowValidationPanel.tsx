@@ -1,12 +1,24 @@
 'use client';
 
-import { AlertTriangle, AlertCircle, Info, X, ArrowRight } from 'lucide-react';
+import { useState } from 'react';
+import { AlertTriangle, AlertCircle, Info, X, ArrowRight, Wrench, Settings2 } from 'lucide-react';
 import type { FlowValidationWarning } from '@/lib/utils/flowValidator';
+import {
+  DEFAULT_MAX_CONSECUTIVE_MESSAGES,
+  LINT_CATEGORY_LABELS,
+  getLintRules,
+  resolveRuleSeverity,
+  type LintRuleCategory,
+} from '@/lib/utils/flowLint';
+import type { FlowLintConfig, LintSeverity } from '@/types/flow';
 
 interface FlowValidationPanelProps {
   warnings: FlowValidationWarning[];
   onClose: () => void;
   onGoToNode: (nodeId: string) => void;
+  onApplyFix: (warning: FlowValidationWarning) => void;
+  lintConfig?: FlowLintConfig;
+  onChangeLintConfig?: (config: FlowLintConfig) => void;
 }
 
 const severityConfig = {
@@ -30,11 +42,33 @@ const severityConfig = {
   },
 };
 
+const SEVERITY_OPTIONS: { value: LintSeverity; label: string }[] = [
+  { value: 'error', label: 'Error' },
+  { value: 'warning', label: 'Advertencia' },
+  { value: 'info', label: 'Info' },
+];
+
 export function FlowValidationPanel({
   warnings,
   onClose,
   onGoToNode,
+  onApplyFix,
+  lintConfig,
+  onChangeLintConfig,
 }: FlowValidationPanelProps) {
+  const [showRules, setShowRules] = useState(false);
+  const rules = getLintRules();
+  const categories = [...new Set(rules.map((r) => r.category))] as LintRuleCategory[];
+
+  const setRuleOverride = (ruleId: string, override: { enabled?: boolean; severity?: LintSeverity }) => {
+    if (!onChangeLintConfig) return;
+    const current = lintConfig?.rules?.[ruleId] || {};
+    onChangeLintConfig({
+      ...lintConfig,
+      rules: { ...lintConfig?.rules, [ruleId]: { ...current, ...override } },
+    });
+  };
+
   const errorCount = warnings.filter((w) => w.severity === 'error').length;
   const warningCount = warnings.filter((w) => w.severity === 'warning').length;
   const infoCount = warnings.filter((w) => w.severity === 'info').length;
@@ -60,16 +94,101 @@ export function FlowValidationPanel({
         >
           Validacion del Flujo
         </h3>
-        <button
-          onClick={onClose}
-          className="p-1 rounded transition-colors"
-          style={{ color: 'var(--text-muted)' }}
-          title="Cerrar"
-        >
-          <X className="h-4 w-4" />
-        </button>
+        <div className="flex items-center gap-1">
+          {onChangeLintConfig && (
+            <button
+              onClick={() => setShowRules(!showRules)}
+              className="p-1 rounded transition-colors"
+              style={{
+                color: showRules ? 'var(--accent-primary)' : 'var(--text-muted)',
+                background: showRules ? 'var(--bg-tertiary)' : 'transparent',
+              }}
+              title="Reglas del proyecto"
+            >
+              <Settings2 className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 rounded transition-colors"
+            style={{ color: 'var(--text-muted)' }}
+            title="Cerrar"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
       </div>
 
+      {/* Project rule set */}
+      {showRules && onChangeLintConfig && (
+        <div className="flex-1 overflow-y-auto">
+          <p className="px-3 py-2 text-[11px]" style={{ color: 'var(--text-muted)' }}>
+            Los cambios aplican a todos los flujos del proyecto.
+          </p>
+          {categories.map((category) => (
+            <div key={category}>
+              <p
+                className="px-3 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                {LINT_CATEGORY_LABELS[category]}
+              </p>
+              {rules.filter((rule) => rule.category === category).map((rule) => {
+                const severity = resolveRuleSeverity(rule, lintConfig);
+                return (
+                  <div
+                    key={rule.id}
+                    className="flex items-start gap-2 px-3 py-2 border-b"
+                    style={{ borderColor: 'var(--border-subtle)' }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={severity !== null}
+                      onChange={(e) => setRuleOverride(rule.id, { enabled: e.target.checked })}
+                      className="mt-0.5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium" style={{ color: 'var(--text-primary)' }}>
+                        {rule.label}
+                      </p>
+                      <p className="text-[10px] leading-relaxed" style={{ color: 'var(--text-muted)' }}>
+                        {rule.description}
+                      </p>
+                      {rule.id === 'consecutive-agent-messages' && severity && (
+                        <label className="flex items-center gap-1.5 mt-1 text-[10px]" style={{ color: 'var(--text-secondary)' }}>
+                          Maximo
+                          <input
+                            type="number"
+                            min={1}
+                            value={lintConfig?.maxConsecutiveMessages || DEFAULT_MAX_CONSECUTIVE_MESSAGES}
+                            onChange={(e) => onChangeLintConfig({
+                              ...lintConfig,
+                              maxConsecutiveMessages: Math.max(1, parseInt(e.target.value) || 1),
+                            })}
+                            className="w-12 input text-[10px]"
+                          />
+                          mensajes seguidos
+                        </label>
+                      )}
+                    </div>
+                    <select
+                      value={severity || rule.severity}
+                      disabled={!severity}
+                      onChange={(e) => setRuleOverride(rule.id, { severity: e.target.value as LintSeverity })}
+                      className="w-24 input text-[10px] disabled:opacity-50"
+                    >
+                      {SEVERITY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Summary badges */}
       <div
         className="flex items-center gap-2 px-3 py-2 border-b"
@@ -119,7 +238,7 @@ export function FlowValidationPanel({
       </div>
 
       {/* Warnings list */}
-      <div className="flex-1 overflow-y-auto">
+      <div className={showRules && onChangeLintConfig ? 'hidden' : 'flex-1 overflow-y-auto'}>
         {warnings.map((warning) => {
           const config = severityConfig[warning.severity];
           const Icon = config.icon;
@@ -141,16 +260,29 @@ export function FlowValidationPanel({
                 >
                   {warning.message}
                 </p>
-                {warning.nodeId && (
-                  <button
-                    onClick={() => onGoToNode(warning.nodeId!)}
-                    className="flex items-center gap-1 mt-1 text-xs transition-colors"
-                    style={{ color: 'var(--accent-primary)' }}
-                  >
-                    <ArrowRight className="h-3 w-3" />
-                    Ir al nodo
-                  </button>
-                )}
+                <div className="flex items-center gap-3 mt-1">
+                  {warning.nodeId && (
+                    <button
+                      onClick={() => onGoToNode(warning.nodeId!)}
+                      className="flex items-center gap-1 text-xs transition-colors"
+                      style={{ color: 'var(--accent-primary)' }}
+                    >
+                      <ArrowRight className="h-3 w-3" />
+                      Ir al nodo
+                    </button>
+                  )}
+                  {warning.fix && (
+                    <button
+                      onClick={() => onApplyFix(warning)}
+                      className="flex items-center gap-1 text-xs transition-colors"
+                      style={{ color: 'var(--success)' }}
+                      title="Arreglo rapido"
+                    >
+                      <Wrench className="h-3 w-3" />
+                      {warning.fix.label}
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
           );
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Plus, Trash2, Variable, MessageSquare, HelpCircle } from 'lucide-react';
+import { useFlowStore } from '@/store/flowStore';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import {
+  VARIABLE_TYPE_LABELS,
+  createFlowVariable,
+  defaultSlotCondition,
+  normalizeVariableName,
+} from '@/lib/utils/flowVariables';
+import type { FlowNode, FlowVariable, FlowVariableType } from '@/types/flow';
+
+interface FlowVariablesPanelProps {
+  variables: FlowVariable[];
+  onClose: () => void;
+  onGoToNode: (nodeId: string) => void;
+}
+
+/**
+ * Lead slots of the active flow. Action nodes capture them and decisions
+ * read them from the properties panel; here they're declared and typed.
+ */
+export function FlowVariablesPanel({ variables, onClose, onGoToNode }: FlowVariablesPanelProps) {
+  const { nodes, edges, activeFlowId, setFlowData } = useFlowStore();
+  const { currentProjectId, projects, updateFlow } = useKnowledgeStore();
+  const { addToast } = useToastStore();
+
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<FlowVariableType>('string');
+
+  const currentProject = projects.find(p => p.id === currentProjectId);
+  const currentAgentId = currentProject?.currentAgentId || null;
+  const normalizedNewName = normalizeVariableName(newName);
+
+  const saveVariables = (next: FlowVariable[]) => {
+    if (!currentProjectId || !currentAgentId || !activeFlowId) return;
+    updateFlow(currentProjectId, currentAgentId, activeFlowId, { variables: next });
+  };
+
+  const updateVariable = (id: string, updates: Partial<FlowVariable>) => {
+    saveVariables(variables.map(v => (v.id === id ? { ...v, ...updates } : v)));
+  };
+
+  // Rewrite the nodes that capture or read a variable in a single history step
+  const rewriteReferences = (variableId: string, rewrite: (node: FlowNode) => FlowNode) => {
+    const touched = nodes.some(n => n.data?.captures === variableId || n.data?.slotCondition?.variableId === variableId);
+    if (!touched) return;
+    setFlowData({ nodes: nodes.map(rewrite), edges });
+  };
+
+  const handleAdd = () => {
+    if (!normalizedNewName) return;
+    if (variables.some(v => v.name === normalizedNewName)) {
+      addToast(`Ya existe la variable "${normalizedNewName}"`, 'warning');
+      return;
+    }
+    saveVariables([...variables, createFlowVariable(normalizedNewName, newType)]);
+    setNewName('');
+  };
+
+  const handleRename = (variable: FlowVariable) => {
+    const name = normalizeVariableName(variable.name);
+    if (!name || variables.some(v => v.id !== variable.id && v.name === name)) {
+      addToast('El nombre de la variable tiene que ser unico', 'warning');
+      updateVariable(variable.id, { name: name ? `${name}_${variable.id.slice(-4)}` : variable.id });
+      return;
+    }
+    if (name !== variable.name) updateVariable(variable.id, { name });
+  };
+
+  const handleTypeChange = (variable: FlowVariable, type: FlowVariableType) => {
+    const updated: FlowVariable = { ...variable, type, options: type === 'enum' ? variable.options || [] : undefined };
+    updateVariable(variable.id, { type, options: updated.options });
+    // Operators depend on the type: conditions over this slot start over
+    rewriteReferences(variable.id, node =>
+      node.data?.slotCondition?.variableId === variable.id
+        ? { ...node, data: { ...node.data, slotCondition: defaultSlotCondition(updated) } }
+        : node
+    );
+  };
+
+  const handleDelete = (variable: FlowVariable) => {
+    saveVariables(variables.filter(v => v.id !== variable.id));
+    rewriteReferences(variable.id, node => {
+      const captures = node.data?.captures === variable.id ? undefined : node.data?.captures;
+      const slotCondition = node.data?.slotCondition?.variableId === variable.id ? undefined : node.data?.slotCondition;
+      return captures === node.data?.captures && slotCondition === node.data?.slotCondition
+        ? node
+        : { ...node, data: { ...node.data, captures, slotCondition } };
+    });
+  };
+
+  return (
+    <div
+      className="h-full flex flex-col border-l"
+      style={{
+        width: 320,
+        minWidth: 320,
+        background: 'var(--bg-secondary)',
+        borderColor: 'var(--border-subtle)',
+      }}
+    >
+      {/* Header */}
+      <div
+        className="flex items-center justify-between px-3 py-2.5 border-b"
+        style={{ borderColor: 'var(--border-subtle)' }}
+      >
+        <h3
+          className="text-sm font-semibold flex items-center gap-2"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          <Variable className="h-4 w-4" style={{ color: 'var(--info)' }} />
+          Variables del Flujo
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded transition-colors"
+          style={{ color: 'var(--text-muted)' }}
+          title="Cerrar"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* New variable */}
+      <div
+        className="px-3 py-2 border-b space-y-2"
+        style={{ borderColor: 'var(--border-subtle)' }}
+      >
+        <div className="flex gap-1.5">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="ej: presupuesto"
+            className="flex-1 min-w-0 input text-xs"
+          />
+          <select
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as FlowVariableType)}
+            className="w-24 input text-xs"
+          >
+            {(Object.keys(VARIABLE_TYPE_LABELS) as FlowVariableType[]).map((type) => (
+              <option key={type} value={type}>{VARIABLE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!normalizedNewName || !activeFlowId}
+            className="p-1.5 rounded-lg transition-colors disabled:opacity-50"
+            style={{ background: 'var(--info)', color: 'var(--bg-primary)' }}
+            title="Agregar variable"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        {newName && normalizedNewName !== newName && (
+          <p className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+            Se guarda como <code>{normalizedNewName || '—'}</code>
+          </p>
+        )}
+      </div>
+
+      {/* Variables list */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {variables.length === 0 && (
+          <p className="text-xs text-center py-6" style={{ color: 'var(--text-muted)' }}>
+            Declara los datos que el agente tiene que obtener del lead (presupuesto, objetivo...).
+            Despues marca en cada accion que variable captura y usalas en las decisiones.
+          </p>
+        )}
+
+        {variables.map((variable) => {
+          const capturedBy = nodes.filter(n => n.data?.captures === variable.id);
+          const readBy = nodes.filter(n => n.data?.slotCondition?.variableId === variable.id);
+
+          return (
+            <div
+              key={variable.id}
+              className="p-2 rounded-lg space-y-1.5"
+              style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+            >
+              <div className="flex items-center gap-1.5">
+                <input
+                  value={variable.name}
+                  onChange={(e) => updateVariable(variable.id, { name: e.target.value })}
+                  onBlur={() => handleRename(variable)}
+                  className="flex-1 min-w-0 input text-xs font-mono"
+                />
+                <select
+                  value={variable.type}
+                  onChange={(e) => handleTypeChange(variable, e.target.value as FlowVariableType)}
+                  className="w-24 input text-xs"
+                >
+                  {(Object.keys(VARIABLE_TYPE_LABELS) as FlowVariableType[]).map((type) => (
+                    <option key={type} value={type}>{VARIABLE_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleDelete(variable)}
+                  className="p-1 rounded"
+                  style={{ color: 'var(--text-muted)' }}
+                  title="Eliminar variable (se quita de los nodos que la usan)"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+
+              {variable.type === 'enum' && (
+                <input
+                  key={`${variable.id}-${(variable.options || []).join(',')}`}
+                  defaultValue={(variable.options || []).join(', ')}
+                  onBlur={(e) => updateVariable(variable.id, {
+                    options: e.target.value.split(',').map(o => o.trim()).filter(Boolean),
+                  })}
+                  placeholder="Opciones separadas por coma"
+                  className="w-full input text-xs"
+                />
+              )}
+
+              <input
+                value={variable.description || ''}
+                onChange={(e) => updateVariable(variable.id, { description: e.target.value || undefined })}
+                placeholder="Pregunta o descripcion (opcional)"
+                className="w-full input text-xs"
+              />
+
+              <div className="flex flex-wrap gap-1">
+                {capturedBy.length === 0 && (
+                  <span className="text-[10px]" style={{ color: 'var(--warning)' }}>
+                    Ninguna accion la captura
+                  </span>
+                )}
+                {capturedBy.map((node) => (
+                  <button
+                    key={node.id}
+                    onClick={() => onGoToNode(node.id)}
+                    className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded"
+                    style={{ background: 'var(--bg-tertiary)', color: 'var(--accent-primary)' }}
+                    title="Captura"
+                  >
+                    <MessageSquare className="h-2.5 w-2.5" />
+                    {node.label}
+                  </button>
+                ))}
+                {readBy.map((node) => (
+                  <button
+                    key={node.id}
+                    onClick={() => onGoToNode(node.id)}
+                    className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded"
+                    style={{ background: 'var(--bg-tertiary)', color: 'var(--warning)' }}
+                    title="Decide con esta variable"
+                  >
+                    <HelpCircle className="h-2.5 w-2.5" />
+                    {node.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
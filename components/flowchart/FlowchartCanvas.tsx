@@ -16,9 +16,31 @@ import {
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
-import { StartNode, EndNode, ActionNode, DecisionNode } from './nodes';
-import type { FlowNode, FlowEdge } from '@/types/flow';
+import {
+  StartNode,
+  EndNode,
+  ActionNode,
+  DecisionNode,
+  SwitchNode,
+  WaitNode,
+  HandoffNode,
+  ResourceNode,
+  SubflowNode,
+} from './nodes';
+import type {
+  FlowNode,
+  FlowEdge,
+  SwitchOutput,
+  FlowDelay,
+  FlowHandoff,
+  FlowResource,
+  FlowVariable,
+  SlotCondition,
+  NamedFlow,
+} from '@/types/flow';
 import { useFlowStore } from '@/store/flowStore';
+import { formatSlotCondition, getVariableById } from '@/lib/utils/flowVariables';
+import { createSubflowResolver, listSubflowSteps, type SubflowResolver } from '@/lib/utils/flowSubflows';
 
 // Define node types
 const nodeTypes = {
@@ -26,6 +48,11 @@ const nodeTypes = {
   end: EndNode,
   action: ActionNode,
   decision: DecisionNode,
+  switch: SwitchNode,
+  wait: WaitNode,
+  handoff: HandoffNode,
+  resource: ResourceNode,
+  subflow: SubflowNode,
 };
 
 interface FlowchartCanvasProps {
@@ -38,18 +65,32 @@ interface FlowchartCanvasProps {
   selectedNodeId: string | null;
   selectedEdgeId: string | null;
   onDeleteSelected: () => void;
+  variables?: FlowVariable[];
+  subflowSources?: NamedFlow[];
 }
 
+const NO_VARIABLES: FlowVariable[] = [];
+const NO_FLOWS: NamedFlow[] = [];
+
 // Convert our FlowNode to React Flow node format
 function toReactFlowNode(
   node: FlowNode,
   isSelected: boolean,
-  availableFlows: { id: string; name: string }[]
+  availableFlows: { id: string; name: string }[],
+  highlightedNodeIds: Set<string> | null,
+  variables: FlowVariable[],
+  resolveSubflow: SubflowResolver
 ): Node {
   const crossFlowRef = node.data?.crossFlowRef;
   const crossFlowName = crossFlowRef
     ? availableFlows.find((f) => f.id === crossFlowRef)?.name
     : undefined;
+  const captureName = getVariableById(variables, node.data?.captures)?.name;
+  const slotConditionText = node.data?.slotCondition
+    ? formatSlotCondition(node.data.slotCondition, variables)
+    : undefined;
+  const subflowRef = node.type === 'subflow' ? node.data?.subflowRef : undefined;
+  const fragment = subflowRef ? resolveSubflow(subflowRef) : undefined;
 
   return {
     id: node.id,
@@ -64,9 +105,25 @@ function toReactFlowNode(
       keywords: node.data?.keywords,
       crossFlowRef,
       crossFlowName,
+      outputs: node.data?.outputs,
+      delay: node.data?.delay,
+      handoff: node.data?.handoff,
+      resource: node.data?.resource,
+      captures: node.data?.captures,
+      slotCondition: node.data?.slotCondition,
+      captureName,
+      slotConditionText,
+      subflowRef,
+      subflowName: fragment?.name,
+      subflowSteps: fragment ? listSubflowSteps(fragment) : undefined,
+      subflowMissing: !!subflowRef && !fragment,
       isSelected,
     },
     selected: isSelected,
+    // Test runner highlight: visited nodes glow, the rest fade
+    className: highlightedNodeIds
+      ? highlightedNodeIds.has(node.id) ? 'flow-node-visited' : 'flow-node-dimmed'
+      : undefined,
   };
 }
 
@@ -84,6 +141,13 @@ function fromReactFlowNode(rfNode: Node): FlowNode {
       action: data.action as string | undefined,
       instructions: data.instructions as string | undefined,
       keywords: data.keywords as string[] | undefined,
+      outputs: data.outputs as SwitchOutput[] | undefined,
+      delay: data.delay as FlowDelay | undefined,
+      handoff: data.handoff as FlowHandoff | undefined,
+      resource: data.resource as FlowResource | undefined,
+      captures: data.captures as string | undefined,
+      slotCondition: data.slotCondition as SlotCondition | undefined,
+      subflowRef: data.subflowRef as string | undefined,
     },
   };
 }
@@ -134,15 +198,21 @@ export function FlowchartCanvas({
   selectedNodeId,
   selectedEdgeId,
   onDeleteSelected,
+  variables = NO_VARIABLES,
+  subflowSources = NO_FLOWS,
 }: FlowchartCanvasProps) {
   const { undoFlow, redoFlow, commitNodePositions } = useFlowStore();
   const availableFlows = useFlowStore((s) => s.availableFlows);
+  const highlightedNodeIds = useFlowStore((s) => s.highlightedNodeIds);
 
   // Convert to React Flow format
-  const rfNodes = useMemo(
-    () => nodes.map((n) => toReactFlowNode(n, n.id === selectedNodeId, availableFlows)),
-    [nodes, selectedNodeId, availableFlows]
-  );
+  const rfNodes = useMemo(() => {
+    const highlighted = highlightedNodeIds ? new Set(highlightedNodeIds) : null;
+    const resolveSubflow = createSubflowResolver(subflowSources);
+    return nodes.map((n) =>
+      toReactFlowNode(n, n.id === selectedNodeId, availableFlows, highlighted, variables, resolveSubflow)
+    );
+  }, [nodes, selectedNodeId, availableFlows, highlightedNodeIds, variables, subflowSources]);
 
   const rfEdges = useMemo(
     () => edges.map((e) => toReactFlowEdge(e, e.id === selectedEdgeId)),
@@ -275,10 +345,17 @@ export function FlowchartCanvas({
     (params: Connection) => {
       if (!params.source || !params.target) return;
 
+      // Switch exits carry their output label so exports and the walker can read it
+      const sourceNode = nodes.find((n) => n.id === params.source);
+      const output = sourceNode?.type === 'switch'
+        ? sourceNode.data?.outputs?.find((o) => o.id === params.sourceHandle)
+        : undefined;
+
       const newEdge: Edge = {
         id: `edge-${params.source}-${params.target}-${Date.now()}`,
         source: params.source,
         target: params.target,
+        label: output?.label,
         sourceHandle: params.sourceHandle || undefined,
         type: 'smoothstep',
         animated: true,
@@ -296,7 +373,7 @@ export function FlowchartCanvas({
       // Propagate to parent OUTSIDE the state setter
       onEdgesChange(updatedEdgesResult.map(fromReactFlowEdge));
     },
-    [setLocalEdges, onEdgesChange]
+    [nodes, setLocalEdges, onEdgesChange]
   );
 
   // Handle click on canvas (deselect)
@@ -318,6 +395,11 @@ export function FlowchartCanvas({
     (oldEdge: Edge, newConnection: Connection) => {
       if (!newConnection.source || !newConnection.target) return;
 
+      const sourceNode = nodes.find((n) => n.id === newConnection.source);
+      const output = sourceNode?.type === 'switch'
+        ? sourceNode.data?.outputs?.find((o) => o.id === newConnection.sourceHandle)
+        : undefined;
+
       let updatedEdgesResult: Edge[] = [];
       setLocalEdges((eds) => {
         updatedEdgesResult = eds.map((e) =>
@@ -327,6 +409,7 @@ export function FlowchartCanvas({
                 source: newConnection.source!,
                 target: newConnection.target!,
                 sourceHandle: newConnection.sourceHandle || undefined,
+                ...(output && { label: output.label }),
               }
             : e
         );
@@ -335,7 +418,7 @@ export function FlowchartCanvas({
       // Propagate to parent OUTSIDE the state setter
       onEdgesChange(updatedEdgesResult.map(fromReactFlowEdge));
     },
-    [setLocalEdges, onEdgesChange]
+    [nodes, setLocalEdges, onEdgesChange]
   );
 
   return (
@@ -387,6 +470,14 @@ export function FlowchartCanvas({
                 return 'var(--error)';
               case 'decision':
                 return 'var(--warning)';
+              case 'switch':
+                return 'var(--info)';
+              case 'wait':
+                return 'var(--text-muted)';
+              case 'handoff':
+                return '#a855f7';
+              case 'resource':
+                return 'var(--success)';
               default:
                 return 'var(--accent-primary)';
             }
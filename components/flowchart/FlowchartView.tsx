@@ -1,8 +1,8 @@
 'use client';
 
-import { useCallback, useState, useEffect, useRef } from 'react';
+import { useCallback, useState, useEffect, useRef, useMemo } from 'react';
 import { ReactFlowProvider, useReactFlow } from '@xyflow/react';
-import { FileText, Loader2, Info } from 'lucide-react';
+import { FileText, Loader2, Info, Link2, Unlink, AlertTriangle, Wand2 } from 'lucide-react';
 import { useToastStore } from '@/store/toastStore';
 
 import { FlowchartCanvas } from './FlowchartCanvas';
@@ -11,18 +11,27 @@ import { FlowTabBar } from './FlowTabBar';
 import { NodePropertiesPanel } from './NodePropertiesPanel';
 import { EdgePropertiesPanel } from './EdgePropertiesPanel';
 import { FlowValidationPanel } from './FlowValidationPanel';
+import { FlowTestPanel } from './FlowTestPanel';
+import { FlowVariablesPanel } from './FlowVariablesPanel';
+import { AgentFlowMap } from './AgentFlowMap';
 import { FlowGenerateModal } from './FlowGenerateModal';
 import { FlowTemplatesModal } from './FlowTemplatesModal';
+import { SaveFlowTemplateModal } from './SaveFlowTemplateModal';
 import { FlowToPromptModal } from './FlowToPromptModal';
+import { FlowImportModal } from './FlowImportModal';
 import { useFlowStore } from '@/store/flowStore';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
 import { useFlowSync } from '@/lib/hooks/useFlowSync';
-import { validateFlow } from '@/lib/utils/flowValidator';
+import { validateFlow, type FlowValidationWarning } from '@/lib/utils/flowValidator';
 import { generateAsciiFlow } from '@/lib/utils/asciiFlowGenerator';
 import { autoLayoutFlow } from '@/lib/utils/flowLayoutEngine';
-import type { FlowNode, FlowNodeType, FlowData, FlowEdge } from '@/types/flow';
+import { getSubflowSources, templateSubflowRef } from '@/lib/utils/flowSubflows';
+import { FLOW_FILE_FORMATS, flowDataToFile, flowFileName } from '@/lib/utils/flowInterchange';
+import type { FlowNode, FlowNodeType, FlowData, FlowEdge, FlowVariable, FlowLintConfig, FlowFileFormat } from '@/types/flow';
 import { createInitialFlow } from '@/lib/utils/flowSerializer';
 
+const NO_VARIABLES: FlowVariable[] = [];
+
 interface FlowchartViewProps {
   onClose: () => void;
 }
@@ -77,15 +86,29 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
     renameFlow: renameFlowInAgent,
     deleteFlow: deleteFlowFromAgent,
     updateFlow: updateFlowInAgent,
+    updateProject,
+    flowTemplates,
   } = useKnowledgeStore();
   const currentProject = projects.find(p => p.id === currentProjectId);
   const currentAgentId = currentProject?.currentAgentId || null;
+  const agentFlows = currentProject?.agents.find(a => a.id === currentAgentId)?.flows;
+  const flowVariables = agentFlows?.find(f => f.id === storeActiveFlowId)?.variables || NO_VARIABLES;
+  const lintConfig = currentProject?.flowLintConfig;
 
   // Initialize sync with agent.flows (includes ASCII + text flow detection)
-  const { convertAsciiToFlow, insertAsciiInPrompt, convertTextFlowToVisual, convertAllTextFlows, insertFlowBackInPrompt } = useFlowSync();
-
-  // Source origin for roundtrip reinsertion
+  const {
+    insertAsciiInPrompt,
+    convertTextFlowToVisual,
+    convertAllTextFlows,
+    insertFlowBackInPrompt,
+    refineFlowWithModel,
+    toggleLiveSync,
+    resolveSyncConflict,
+  } = useFlowSync();
+
+  // Source origin for roundtrip reinsertion and live sync
   const flowSourceOrigin = useFlowStore((s) => s.flowSourceOrigin);
+  const flowSyncConflict = useFlowStore((s) => s.flowSyncConflict);
 
   // Get React Flow instance for fit view
   const reactFlowInstance = useReactFlow();
@@ -97,6 +120,37 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
   const [showGenerateModal, setShowGenerateModal] = useState(false);
   const [showTemplatesModal, setShowTemplatesModal] = useState(false);
   const [showToPromptModal, setShowToPromptModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showTestPanel, setShowTestPanel] = useState(false);
+  const [showVariablesPanel, setShowVariablesPanel] = useState(false);
+  const [showAgentMap, setShowAgentMap] = useState(false);
+  const [templateSourceFlowId, setTemplateSourceFlowId] = useState<string | null>(null);
+
+  // The map reads saved flows, except the open one which may not be synced yet
+  const mapFlows = useMemo(
+    () => (agentFlows || []).map(f => (f.id === storeActiveFlowId ? { ...f, flowData: { nodes, edges } } : f)),
+    [agentFlows, storeActiveFlowId, nodes, edges]
+  );
+
+  // mapFlows already carries the live nodes of the open flow
+  const templateSourceFlow = templateSourceFlowId
+    ? mapFlows.find(f => f.id === templateSourceFlowId)
+    : undefined;
+
+  // Subflow nodes can reuse any flow of the project, from this agent or another, or a library template
+  const projectFlows = useMemo(
+    () => getSubflowSources(currentProject, flowTemplates),
+    [currentProject, flowTemplates]
+  );
+  const subflowOptions = useMemo(
+    () => [
+      ...(currentProject?.agents || []).flatMap(a =>
+        (a.flows || []).map(f => ({ id: f.id, name: f.name, agentName: a.name }))
+      ),
+      ...flowTemplates.map(t => ({ id: templateSubflowRef(t.id), name: t.name, agentName: 'Biblioteca del equipo' })),
+    ],
+    [currentProject, flowTemplates]
+  );
 
   const { addToast } = useToastStore();
 
@@ -114,7 +168,7 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
     }
 
     validationTimerRef.current = setTimeout(() => {
-      const warnings = validateFlow({ nodes, edges });
+      const warnings = validateFlow({ nodes, edges }, flowVariables, lintConfig);
       setValidationWarnings(warnings);
     }, 300);
 
@@ -123,7 +177,7 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
         clearTimeout(validationTimerRef.current);
       }
     };
-  }, [nodes, edges, setValidationWarnings]);
+  }, [nodes, edges, flowVariables, lintConfig, setValidationWarnings]);
 
   // Handlers
   const handleAddNode = useCallback(
@@ -277,6 +331,18 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
     [setFlowData, markAsChanged, storeActiveFlowId, currentProjectId, currentAgentId, addFlowToAgent, setStoreActiveFlowId]
   );
 
+  // Templates bring their flow variables along; they land on the flow the template was applied to
+  const handleApplyTemplate = useCallback(
+    (flow: FlowData, variables?: FlowVariable[]) => {
+      handleApplyGeneratedFlow(flow);
+      const flowId = useFlowStore.getState().activeFlowId;
+      if (variables && flowId && currentProjectId && currentAgentId) {
+        updateFlowInAgent(currentProjectId, currentAgentId, flowId, { variables });
+      }
+    },
+    [handleApplyGeneratedFlow, currentProjectId, currentAgentId, updateFlowInAgent]
+  );
+
   // Export ASCII
   const handleExportAscii = useCallback(() => {
     const flowData = getFlowData();
@@ -287,6 +353,23 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
     });
   }, [getFlowData]);
 
+  // Download as a Mermaid, DOT or draw.io file
+  const handleDownloadFlow = useCallback((format: FlowFileFormat) => {
+    const flowName = availableFlows.find(f => f.id === storeActiveFlowId)?.name || 'Flujo';
+    const content = flowDataToFile(getFlowData(), flowName, format, availableFlows);
+    const blob = new Blob([content], { type: FLOW_FILE_FORMATS[format].mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = flowFileName(flowName, format);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    addToast(`Flujo exportado como ${FLOW_FILE_FORMATS[format].label}`, 'success');
+  }, [availableFlows, storeActiveFlowId, getFlowData, addToast]);
+
   // Clear flow
   const handleClearFlow = useCallback(() => {
     clearFlow();
@@ -306,9 +389,22 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
     addToast('Flujo organizado', 'success');
   }, [pushFlowHistory, nodes, edges, setFlowData, markAsChanged, reactFlowInstance, addToast]);
 
+  // Validation quick-fixes rewrite the flow in a single undoable step
+  const handleApplyFix = useCallback((warning: FlowValidationWarning) => {
+    if (!warning.fix) return;
+    setFlowData(warning.fix.apply(getFlowData()));
+    markAsChanged();
+    addToast(warning.fix.label, 'success');
+  }, [setFlowData, getFlowData, markAsChanged, addToast]);
+
+  const handleChangeLintConfig = useCallback((config: FlowLintConfig) => {
+    if (currentProjectId) updateProject(currentProjectId, { flowLintConfig: config });
+  }, [currentProjectId, updateProject]);
+
   // --- Flow Tab Bar handlers ---
   const handleSelectFlow = useCallback((flowId: string) => {
     setStoreActiveFlowId(flowId);
+    setShowAgentMap(false);
   }, [setStoreActiveFlowId]);
 
   const handleAddFlow = useCallback(() => {
@@ -360,6 +456,7 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
     updateFlowInAgent(currentProjectId, currentAgentId, newFlowId, {
       flowData: { nodes: [...sourceFlow.flowData.nodes], edges: [...sourceFlow.flowData.edges] },
       sourceOrigin: sourceFlow.sourceOrigin,
+      variables: sourceFlow.variables,
     });
     setStoreActiveFlowId(newFlowId);
 
@@ -471,8 +568,85 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
             className="text-xs flex-1"
             style={{ color: 'var(--text-secondary)' }}
           >
-            Extraido de <strong style={{ color: 'var(--text-primary)' }}>&quot;{flowSourceOrigin.name}&quot;</strong> — los cambios se pueden reinsertar en su posicion original
+            {flowSourceOrigin.liveSync ? 'Sincronizado en vivo con' : 'Extraido de'}{' '}
+            <strong style={{ color: 'var(--text-primary)' }}>&quot;{flowSourceOrigin.name}&quot;</strong>
+            {flowSourceOrigin.liveSync
+              ? ' — los cambios en el canvas y en el prompt se reflejan en ambos lados'
+              : ' — los cambios se pueden reinsertar en su posicion original'}
+          </span>
+          <button
+            onClick={refineFlowWithModel}
+            disabled={isExtractingFlow}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{
+              background: 'var(--bg-tertiary)',
+              color: 'var(--text-secondary)',
+              border: '1px solid var(--border-subtle)',
+            }}
+            title="Volver a extraer el flujo del texto original con el modelo"
+          >
+            {isExtractingFlow ? <Loader2 className="h-3 w-3 animate-spin" /> : <Wand2 className="h-3 w-3" />}
+            Refinar con IA
+          </button>
+          <button
+            onClick={toggleLiveSync}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium transition-colors"
+            style={{
+              background: flowSourceOrigin.liveSync ? 'rgba(168, 85, 247, 0.15)' : 'var(--bg-tertiary)',
+              color: flowSourceOrigin.liveSync ? '#a855f7' : 'var(--text-secondary)',
+              border: `1px solid ${flowSourceOrigin.liveSync ? 'rgba(168, 85, 247, 0.4)' : 'var(--border-subtle)'}`,
+            }}
+            title={flowSourceOrigin.liveSync ? 'Dejar de sincronizar con el prompt' : 'Mantener el canvas y el prompt sincronizados'}
+          >
+            {flowSourceOrigin.liveSync ? <Unlink className="h-3 w-3" /> : <Link2 className="h-3 w-3" />}
+            {flowSourceOrigin.liveSync ? 'Desactivar sync' : 'Sincronizar en vivo'}
+          </button>
+        </div>
+      )}
+
+      {/* Live sync conflict: both the canvas and the prompt region changed, or the region no longer reads as a flow */}
+      {flowSyncConflict && flowSyncConflict.flowId === storeActiveFlowId && (
+        <div
+          className="flex items-center gap-2.5 px-4 py-2 border-b"
+          style={{
+            background: 'rgba(245, 158, 11, 0.08)',
+            borderColor: 'rgba(245, 158, 11, 0.3)',
+          }}
+        >
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--warning)' }} />
+          <span
+            className="text-xs flex-1"
+            style={{ color: 'var(--text-secondary)' }}
+          >
+            {flowSyncConflict.promptText === null
+              ? 'El flujo ya no esta en el prompt. La sincronizacion esta en pausa.'
+              : flowSyncConflict.unreadable
+              ? 'Desincronizado: el flujo del prompt no se puede leer como pasos numerados. El canvas no se actualiza hasta que se pueda leer.'
+              : 'El flujo cambio en el canvas y en el prompt a la vez. Elegi que version conservar.'}
           </span>
+          <button
+            onClick={() => resolveSyncConflict('canvas')}
+            className="px-2.5 py-1 rounded-lg text-xs font-medium transition-colors"
+            style={{
+              background: 'var(--accent-primary)',
+              color: 'var(--bg-primary)',
+            }}
+          >
+            {flowSyncConflict.promptText === null ? 'Reinsertar canvas' : 'Usar canvas'}
+          </button>
+          {flowSyncConflict.promptText !== null && !flowSyncConflict.unreadable && (
+            <button
+              onClick={() => resolveSyncConflict('prompt')}
+              className="px-2.5 py-1 rounded-lg text-xs font-medium transition-colors"
+              style={{
+                background: 'var(--bg-tertiary)',
+                color: 'var(--text-secondary)',
+                border: '1px solid var(--border-subtle)',
+              }}
+            >
+              Usar prompt
+            </button>
+          )}
         </div>
       )}
 
@@ -487,6 +661,9 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
         selectedNodeType={selectedNode?.type}
         validationWarningCount={validationWarnings.length}
         onToggleValidation={toggleValidationPanel}
+        onToggleTests={() => setShowTestPanel(prev => !prev)}
+        onToggleVariables={() => setShowVariablesPanel(prev => !prev)}
+        variableCount={flowVariables.length}
         onGenerateFromNL={() => setShowGenerateModal(true)}
         onExportAscii={handleExportAscii}
         onInsertInPrompt={insertAsciiInPrompt}
@@ -500,6 +677,8 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
         onAutoLayout={handleAutoLayout}
         onReinsertFlowInPrompt={insertFlowBackInPrompt}
         hasSourceOrigin={!!flowSourceOrigin}
+        onDownloadFlow={handleDownloadFlow}
+        onOpenImport={() => setShowImportModal(true)}
       />
 
       {/* Flow Tab Bar (shown when there are flows) */}
@@ -512,17 +691,35 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
           onRenameFlow={handleRenameFlow}
           onDeleteFlow={handleDeleteFlow}
           onDuplicateFlow={handleDuplicateFlow}
+          onSaveAsTemplate={setTemplateSourceFlowId}
+          onToggleMap={() => setShowAgentMap(prev => !prev)}
+          isMapOpen={showAgentMap}
         />
       )}
 
+      {/* Agent map (replaces the canvas while open) */}
+      {showAgentMap && mapFlows.length > 0 && (
+        <div className="flex-1 min-h-0">
+          <AgentFlowMap
+            flows={mapFlows}
+            activeFlowId={storeActiveFlowId}
+            onOpenFlow={handleSelectFlow}
+            onClose={() => setShowAgentMap(false)}
+          />
+        </div>
+      )}
+
       {/* Main content */}
-      <div className="flex-1 flex min-h-0">
+      <div className={showAgentMap && mapFlows.length > 0 ? 'hidden' : 'flex-1 flex min-h-0'}>
         {/* Validation Panel (left) */}
         {showValidationPanel && nodes.length > 0 && (
           <FlowValidationPanel
             warnings={validationWarnings}
             onClose={toggleValidationPanel}
             onGoToNode={handleGoToNode}
+            onApplyFix={handleApplyFix}
+            lintConfig={lintConfig}
+            onChangeLintConfig={currentProjectId ? handleChangeLintConfig : undefined}
           />
         )}
 
@@ -539,6 +736,8 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
               selectedNodeId={selectedNodeId}
               selectedEdgeId={selectedEdgeId}
               onDeleteSelected={handleDeleteSelected}
+              variables={flowVariables}
+              subflowSources={projectFlows}
             />
           ) : (
             <div className="h-full flex flex-col items-center justify-center">
@@ -574,6 +773,23 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
           )}
         </div>
 
+        {/* Test runner (right) */}
+        {showTestPanel && nodes.length > 0 && (
+          <FlowTestPanel
+            onClose={() => setShowTestPanel(false)}
+            onGoToNode={handleGoToNode}
+          />
+        )}
+
+        {/* Flow variables (right) */}
+        {showVariablesPanel && nodes.length > 0 && (
+          <FlowVariablesPanel
+            variables={flowVariables}
+            onClose={() => setShowVariablesPanel(false)}
+            onGoToNode={handleGoToNode}
+          />
+        )}
+
         {/* Properties Panel (right) - Show node or edge panel based on selection */}
         {selectedEdgeId ? (
           <EdgePropertiesPanel
@@ -592,6 +808,8 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
             availableFlows={availableFlows}
             activeFlowId={storeActiveFlowId}
             onNavigateToFlow={handleSelectFlow}
+            variables={flowVariables}
+            subflowSources={subflowOptions}
           />
         )}
       </div>
@@ -604,11 +822,27 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
         />
       )}
 
+      {/* Import Modal */}
+      {showImportModal && (
+        <FlowImportModal
+          onClose={() => setShowImportModal(false)}
+          onApplyFlow={handleApplyGeneratedFlow}
+        />
+      )}
+
       {/* Templates Modal */}
       {showTemplatesModal && (
         <FlowTemplatesModal
           onClose={() => setShowTemplatesModal(false)}
-          onApplyFlow={handleApplyGeneratedFlow}
+          onApplyFlow={handleApplyTemplate}
+        />
+      )}
+
+      {/* Save as Template Modal */}
+      {templateSourceFlow && (
+        <SaveFlowTemplateModal
+          flow={templateSourceFlow}
+          onClose={() => setTemplateSourceFlowId(null)}
         />
       )}
 
@@ -617,6 +851,7 @@ function FlowchartViewContent(_props: FlowchartViewProps) {
         <FlowToPromptModal
           onClose={() => setShowToPromptModal(false)}
           flowData={getFlowData()}
+          variables={flowVariables}
         />
       )}
 
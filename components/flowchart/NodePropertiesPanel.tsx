@@ -10,8 +10,41 @@ import {
   Trash2,
   ExternalLink,
   Navigation,
+  Split,
+  Plus,
+  Hourglass,
+  Headset,
+  Paperclip,
+  Layers,
 } from 'lucide-react';
-import type { FlowNode, FlowNodeType } from '@/types/flow';
+import type {
+  FlowNode,
+  FlowNodeType,
+  DelayUnit,
+  HandoffTarget,
+  HandoffChannel,
+  ResourceKind,
+  FlowVariable,
+  SlotOperator,
+} from '@/types/flow';
+import { nextSwitchOutputId } from '@/lib/utils/flowSwitch';
+import {
+  DELAY_UNIT_LABELS,
+  HANDOFF_TARGET_LABELS,
+  HANDOFF_CHANNEL_LABELS,
+  RESOURCE_KIND_LABELS,
+  DEFAULT_DELAY,
+  DEFAULT_HANDOFF,
+  DEFAULT_RESOURCE,
+} from '@/lib/utils/flowNodeDetails';
+import {
+  OPERATORS_BY_TYPE,
+  SLOT_OPERATOR_LABELS,
+  defaultSlotCondition,
+  getVariableById,
+  operatorTakesValue,
+} from '@/lib/utils/flowVariables';
+import { isTemplateSubflowRef } from '@/lib/utils/flowSubflows';
 
 interface NodePropertiesPanelProps {
   node: FlowNode | null;
@@ -21,6 +54,8 @@ interface NodePropertiesPanelProps {
   availableFlows?: { id: string; name: string }[];
   activeFlowId?: string | null;
   onNavigateToFlow?: (flowId: string) => void;
+  variables?: FlowVariable[];
+  subflowSources?: { id: string; name: string; agentName: string }[];
 }
 
 const nodeTypeInfo: Record<FlowNodeType, { icon: typeof Play; label: string; color: string }> = {
@@ -28,6 +63,11 @@ const nodeTypeInfo: Record<FlowNodeType, { icon: typeof Play; label: string; col
   end: { icon: Square, label: 'Nodo de Fin', color: 'var(--error)' },
   action: { icon: MessageSquare, label: 'Nodo de Accion', color: 'var(--accent-primary)' },
   decision: { icon: HelpCircle, label: 'Nodo de Decision', color: 'var(--warning)' },
+  switch: { icon: Split, label: 'Nodo Switch', color: 'var(--info)' },
+  wait: { icon: Hourglass, label: 'Nodo de Espera', color: 'var(--text-secondary)' },
+  handoff: { icon: Headset, label: 'Derivar a humano', color: '#a855f7' },
+  resource: { icon: Paperclip, label: 'Enviar recurso', color: 'var(--success)' },
+  subflow: { icon: Layers, label: 'Subflujo', color: 'var(--accent-primary)' },
 };
 
 export function NodePropertiesPanel({
@@ -38,6 +78,8 @@ export function NodePropertiesPanel({
   availableFlows = [],
   activeFlowId,
   onNavigateToFlow,
+  variables = [],
+  subflowSources = [],
 }: NodePropertiesPanelProps) {
   const [label, setLabel] = useState(node?.label || '');
   const [description, setDescription] = useState(node?.data?.description || '');
@@ -137,9 +179,79 @@ export function NodePropertiesPanel({
     });
   };
 
+  const outputs = node.data?.outputs || [];
+
+  const handleOutputLabelChange = (outputId: string, newLabel: string) => {
+    onUpdateNode(node.id, {
+      data: { ...node.data, outputs: outputs.map(o => (o.id === outputId ? { ...o, label: newLabel } : o)) },
+    });
+  };
+
+  const handleAddOutput = () => {
+    onUpdateNode(node.id, {
+      data: { ...node.data, outputs: [...outputs, { id: nextSwitchOutputId(outputs), label: `Opcion ${outputs.length + 1}` }] },
+    });
+  };
+
+  const handleRemoveOutput = (outputId: string) => {
+    onUpdateNode(node.id, {
+      data: { ...node.data, outputs: outputs.filter(o => o.id !== outputId) },
+    });
+  };
+
+  const slotCondition = node.data?.slotCondition;
+  const conditionVariable = getVariableById(variables, slotCondition?.variableId);
+
+  const handleCaptureChange = (variableId: string) => {
+    onUpdateNode(node.id, {
+      data: { ...node.data, captures: variableId || undefined },
+    });
+  };
+
+  const handleConditionVariableChange = (variableId: string) => {
+    const variable = getVariableById(variables, variableId);
+    onUpdateNode(node.id, {
+      data: { ...node.data, slotCondition: variable ? defaultSlotCondition(variable) : undefined },
+    });
+  };
+
+  const handleConditionOperatorChange = (operator: SlotOperator) => {
+    if (!slotCondition) return;
+    onUpdateNode(node.id, {
+      data: {
+        ...node.data,
+        slotCondition: {
+          ...slotCondition,
+          operator,
+          value: operatorTakesValue(operator) ? slotCondition.value : undefined,
+        },
+      },
+    });
+  };
+
+  const handleConditionValueChange = (value: string) => {
+    if (!slotCondition) return;
+    onUpdateNode(node.id, {
+      data: { ...node.data, slotCondition: { ...slotCondition, value: value || undefined } },
+    });
+  };
+
+  const delay = node.data?.delay || DEFAULT_DELAY;
+  const handoff = node.data?.handoff || DEFAULT_HANDOFF;
+  const resource = node.data?.resource || DEFAULT_RESOURCE;
+
   const canEditLabel = true;
-  const canHaveDescription = node.type === 'action' || node.type === 'decision';
-  const canHaveExtras = node.type === 'action' || node.type === 'decision';
+  const canHaveDescription = node.type !== 'start' && node.type !== 'end';
+  const canHaveExtras = node.type !== 'start' && node.type !== 'end';
+
+  // Fragments a subflow can reuse, grouped by agent (a flow can't contain itself)
+  const fragmentsByAgent = new Map<string, { id: string; name: string }[]>();
+  for (const f of subflowSources) {
+    if (f.id === activeFlowId) continue;
+    fragmentsByAgent.set(f.agentName, [...(fragmentsByAgent.get(f.agentName) || []), f]);
+  }
+  const subflowRef = node.data?.subflowRef;
+  const fragmentInAgent = availableFlows.some(f => f.id === subflowRef);
 
   // Resolve target flow name
   const targetFlowName = isCrossFlow
@@ -315,7 +427,7 @@ export function NodePropertiesPanel({
           </div>
         )}
 
-        {/* Description (for action and decision nodes) */}
+        {/* Description (for every node except start and end) */}
         {canHaveDescription && (
           <div>
             <label
@@ -332,13 +444,317 @@ export function NodePropertiesPanel({
               placeholder={
                 node.type === 'decision'
                   ? 'Describe la condicion...'
-                  : 'Describe la accion del agente...'
+                  : node.type === 'switch'
+                    ? 'Describe que se evalua para elegir la salida...'
+                    : node.type === 'wait'
+                      ? 'Que pasa si el lead no responde...'
+                      : 'Describe la accion del agente...'
               }
             />
           </div>
         )}
 
-        {/* Instructions (for action and decision nodes) */}
+        {/* Delay (for wait nodes) */}
+        {node.type === 'wait' && (
+          <div>
+            <label
+              className="block text-xs font-medium mb-1.5"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              Tiempo de espera
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                value={delay.amount}
+                onChange={(e) => onUpdateNode(node.id, {
+                  data: { ...node.data, delay: { ...delay, amount: Math.max(1, Number(e.target.value) || 1) } },
+                })}
+                className="w-20 input text-sm"
+              />
+              <select
+                value={delay.unit}
+                onChange={(e) => onUpdateNode(node.id, {
+                  data: { ...node.data, delay: { ...delay, unit: e.target.value as DelayUnit } },
+                })}
+                className="flex-1 input text-sm"
+              >
+                {(Object.keys(DELAY_UNIT_LABELS) as DelayUnit[]).map((unit) => (
+                  <option key={unit} value={unit}>{DELAY_UNIT_LABELS[unit].plural}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {/* Target and channel (for handoff nodes) */}
+        {node.type === 'handoff' && (
+          <div className="space-y-3">
+            <div>
+              <label
+                className="block text-xs font-medium mb-1.5"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                Deriva a
+              </label>
+              <select
+                value={handoff.target}
+                onChange={(e) => onUpdateNode(node.id, {
+                  data: { ...node.data, handoff: { ...handoff, target: e.target.value as HandoffTarget } },
+                })}
+                className="w-full input text-sm"
+              >
+                {(Object.keys(HANDOFF_TARGET_LABELS) as HandoffTarget[]).map((target) => (
+                  <option key={target} value={target}>{HANDOFF_TARGET_LABELS[target]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                className="block text-xs font-medium mb-1.5"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                Canal
+              </label>
+              <select
+                value={handoff.channel || ''}
+                onChange={(e) => onUpdateNode(node.id, {
+                  data: {
+                    ...node.data,
+                    handoff: { ...handoff, channel: (e.target.value || undefined) as HandoffChannel | undefined },
+                  },
+                })}
+                className="w-full input text-sm"
+              >
+                <option value="">Sin especificar</option>
+                {(Object.keys(HANDOFF_CHANNEL_LABELS) as HandoffChannel[]).map((channel) => (
+                  <option key={channel} value={channel}>{HANDOFF_CHANNEL_LABELS[channel]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {/* Kind and URL (for resource nodes) */}
+        {node.type === 'resource' && (
+          <div className="space-y-3">
+            <div>
+              <label
+                className="block text-xs font-medium mb-1.5"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                Tipo de recurso
+              </label>
+              <select
+                value={resource.kind}
+                onChange={(e) => onUpdateNode(node.id, {
+                  data: { ...node.data, resource: { ...resource, kind: e.target.value as ResourceKind } },
+                })}
+                className="w-full input text-sm"
+              >
+                {(Object.keys(RESOURCE_KIND_LABELS) as ResourceKind[]).map((kind) => (
+                  <option key={kind} value={kind}>{RESOURCE_KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                className="block text-xs font-medium mb-1.5"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                URL
+              </label>
+              <input
+                type="url"
+                value={resource.url || ''}
+                onChange={(e) => onUpdateNode(node.id, {
+                  data: { ...node.data, resource: { ...resource, url: e.target.value || undefined } },
+                })}
+                className="w-full input text-sm"
+                placeholder="https://..."
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Referenced fragment (for subflow nodes) */}
+        {node.type === 'subflow' && (
+          <div className="space-y-2">
+            <label
+              className="block text-xs font-medium mb-1.5"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              Fragmento
+            </label>
+            <select
+              value={subflowRef || ''}
+              onChange={(e) => onUpdateNode(node.id, {
+                data: { ...node.data, subflowRef: e.target.value || undefined },
+              })}
+              className="w-full input text-sm"
+            >
+              <option value="">Elegi un flujo o modelo...</option>
+              {subflowRef && !subflowSources.some(f => f.id === subflowRef) && (
+                <option value={subflowRef}>
+                  {isTemplateSubflowRef(subflowRef) ? 'Modelo eliminado' : 'Flujo eliminado'}
+                </option>
+              )}
+              {[...fragmentsByAgent.entries()].map(([agentName, flows]) => (
+                <optgroup key={agentName} label={agentName}>
+                  {flows.map(f => (
+                    <option key={f.id} value={f.id}>{f.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <p className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+              {subflowRef && isTemplateSubflowRef(subflowRef)
+                ? 'Modelo de la biblioteca: los cambios al modelo se aplican en todos los flujos que lo usan y sus {{campos}} quedan como estan.'
+                : 'Los cambios en el fragmento se aplican en todos los flujos que lo usan.'}
+            </p>
+            {subflowRef && fragmentInAgent && onNavigateToFlow && (
+              <button
+                onClick={() => onNavigateToFlow(subflowRef)}
+                className="w-full flex items-center justify-center gap-2 py-1.5 rounded-lg text-xs font-medium transition-all"
+                style={{
+                  background: 'var(--bg-tertiary)',
+                  color: 'var(--accent-primary)',
+                  border: '1px solid var(--border-default)',
+                }}
+              >
+                <Navigation className="h-3.5 w-3.5" />
+                <span>Editar fragmento</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Captured slot (for action nodes) */}
+        {node.type === 'action' && variables.length > 0 && (
+          <div>
+            <label
+              className="block text-xs font-medium mb-1.5"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              Captura variable
+            </label>
+            <select
+              value={node.data?.captures || ''}
+              onChange={(e) => handleCaptureChange(e.target.value)}
+              className="w-full input text-sm"
+            >
+              <option value="">Ninguna</option>
+              {variables.map((v) => (
+                <option key={v.id} value={v.id}>{v.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Condition over a slot (for decision nodes) */}
+        {node.type === 'decision' && variables.length > 0 && (
+          <div className="space-y-2">
+            <label
+              className="block text-xs font-medium"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              Condicion sobre variable
+            </label>
+            <select
+              value={slotCondition?.variableId || ''}
+              onChange={(e) => handleConditionVariableChange(e.target.value)}
+              className="w-full input text-sm"
+            >
+              <option value="">Sin condicion</option>
+              {variables.map((v) => (
+                <option key={v.id} value={v.id}>{v.name}</option>
+              ))}
+            </select>
+            {slotCondition && conditionVariable && (
+              <div className="flex gap-2">
+                <select
+                  value={slotCondition.operator}
+                  onChange={(e) => handleConditionOperatorChange(e.target.value as SlotOperator)}
+                  className="flex-1 min-w-0 input text-sm"
+                >
+                  {OPERATORS_BY_TYPE[conditionVariable.type].map((op) => (
+                    <option key={op} value={op}>{SLOT_OPERATOR_LABELS[op]}</option>
+                  ))}
+                </select>
+                {operatorTakesValue(slotCondition.operator) && (
+                  conditionVariable.type === 'enum' && slotCondition.operator !== 'in' ? (
+                    <select
+                      value={slotCondition.value || ''}
+                      onChange={(e) => handleConditionValueChange(e.target.value)}
+                      className="flex-1 min-w-0 input text-sm"
+                    >
+                      <option value="">—</option>
+                      {(conditionVariable.options || []).map((option) => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={conditionVariable.type === 'number' ? 'number' : 'text'}
+                      value={slotCondition.value || ''}
+                      onChange={(e) => handleConditionValueChange(e.target.value)}
+                      className="flex-1 min-w-0 input text-sm"
+                      placeholder={slotCondition.operator === 'in' ? 'a, b, c' : 'Valor'}
+                    />
+                  )
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Outputs (for switch nodes) - removing one also removes its connections */}
+        {node.type === 'switch' && (
+          <div>
+            <label
+              className="block text-xs font-medium mb-1.5"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              Salidas
+            </label>
+            <div className="space-y-1.5">
+              {outputs.map((output) => (
+                <div key={output.id} className="flex items-center gap-1.5">
+                  <input
+                    type="text"
+                    value={output.label}
+                    onChange={(e) => handleOutputLabelChange(output.id, e.target.value)}
+                    className="flex-1 min-w-0 input text-sm"
+                    placeholder="ej: Precio"
+                  />
+                  <button
+                    onClick={() => handleRemoveOutput(output.id)}
+                    className="p-1.5 rounded"
+                    style={{ color: 'var(--text-muted)' }}
+                    title="Quitar salida"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleAddOutput}
+              className="mt-2 w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-medium"
+              style={{
+                background: 'var(--info-subtle)',
+                color: 'var(--info)',
+                border: '1px solid var(--border-subtle)',
+              }}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Agregar salida
+            </button>
+          </div>
+        )}
+
+        {/* Instructions (for every node except start and end) */}
         {canHaveExtras && (
           <div>
             <label
@@ -357,7 +773,7 @@ export function NodePropertiesPanel({
           </div>
         )}
 
-        {/* Keywords / Triggers (for action and decision nodes) */}
+        {/* Keywords / Triggers (for every node except start and end) */}
         {canHaveExtras && (
           <div>
             <label
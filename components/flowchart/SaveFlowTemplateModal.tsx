@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { BookmarkPlus, X } from 'lucide-react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import { FlowThumbnail } from './FlowThumbnail';
+import {
+  DEFAULT_TEMPLATE_PLACEHOLDERS,
+  detachFlowReferences,
+  findPlaceholderKeys,
+  parameterizeFlow,
+  placeholderToken,
+} from '@/lib/utils/flowTemplatePlaceholders';
+import type { FlowTemplatePlaceholder, NamedFlow } from '@/types/flow';
+
+interface SaveFlowTemplateModalProps {
+  flow: NamedFlow;
+  onClose: () => void;
+}
+
+export function SaveFlowTemplateModal({ flow, onClose }: SaveFlowTemplateModalProps) {
+  const { addFlowTemplate } = useKnowledgeStore();
+  const { addToast } = useToastStore();
+
+  const [name, setName] = useState(flow.name);
+  const [description, setDescription] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  // Concrete values of this flow that become placeholders ("Juan" -> {{creador}})
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const templateFlow = useMemo(
+    () => detachFlowReferences(parameterizeFlow(flow.flowData, values)),
+    [flow.flowData, values]
+  );
+
+  // Known placeholders keep their label; tokens typed by hand in the flow use the key
+  const placeholders: FlowTemplatePlaceholder[] = useMemo(
+    () => findPlaceholderKeys(templateFlow).map(key =>
+      DEFAULT_TEMPLATE_PLACEHOLDERS.find(p => p.key === key) || { key, label: key }
+    ),
+    [templateFlow]
+  );
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    addFlowTemplate({
+      name: name.trim(),
+      description: description.trim(),
+      tags: tagsInput.split(',').map(t => t.trim().toLowerCase()).filter(Boolean),
+      flowData: templateFlow,
+      variables: flow.variables,
+      placeholders,
+      sourceFlowId: flow.id,
+    });
+    addToast('Plantilla guardada', 'success');
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ background: 'rgba(0, 0, 0, 0.6)' }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-full max-w-lg rounded-xl border shadow-2xl"
+        style={{
+          background: 'var(--bg-primary)',
+          borderColor: 'var(--border-default)',
+        }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-5 py-4 border-b"
+          style={{ borderColor: 'var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-2.5">
+            <div
+              className="p-1.5 rounded-lg"
+              style={{ background: 'var(--accent-glow)' }}
+            >
+              <BookmarkPlus className="h-5 w-5" style={{ color: 'var(--accent-primary)' }} />
+            </div>
+            <h2
+              className="text-base font-semibold"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              Guardar como plantilla
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg transition-colors"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="px-5 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="flex gap-3">
+            <FlowThumbnail flow={templateFlow} width={140} height={96} />
+            <div className="flex-1 min-w-0 space-y-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nombre de la plantilla"
+                className="w-full input text-sm"
+              />
+              <input
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder="Tags separados por coma (ej: high ticket, whatsapp)"
+                className="w-full input text-xs"
+              />
+            </div>
+          </div>
+
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Para que sirve este flujo y cuando usarlo"
+            rows={2}
+            className="w-full input text-sm resize-none"
+          />
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+              Datos a parametrizar
+            </p>
+            <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+              Escribi como aparecen en este flujo; se reemplazan por un placeholder que se completa al usar la plantilla.
+            </p>
+            {DEFAULT_TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+              <div key={placeholder.key} className="flex items-center gap-2">
+                <span
+                  className="w-36 shrink-0 text-xs font-mono"
+                  style={{ color: 'var(--accent-primary)' }}
+                >
+                  {placeholderToken(placeholder.key)}
+                </span>
+                <input
+                  value={values[placeholder.key] || ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [placeholder.key]: e.target.value }))}
+                  placeholder={placeholder.label}
+                  className="flex-1 min-w-0 input text-xs"
+                />
+              </div>
+            ))}
+            {placeholders.length > 0 && (
+              <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+                La plantilla va a pedir: {placeholders.map(p => p.label).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div
+          className="flex items-center justify-end gap-2 px-5 py-3 border-t"
+          style={{ borderColor: 'var(--border-subtle)' }}
+        >
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            style={{
+              background: 'var(--bg-tertiary)',
+              color: 'var(--text-secondary)',
+              border: '1px solid var(--border-subtle)',
+            }}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-4 py-2 rounded-lg text-sm font-medium transition-colors btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Guardar plantilla
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
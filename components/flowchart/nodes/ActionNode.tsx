@@ -3,7 +3,7 @@
 import { memo } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import type { ReactFlowNodeData } from '@/types/flow';
-import { MessageSquare } from 'lucide-react';
+import { MessageSquare, Variable } from 'lucide-react';
 
 interface ActionNodeProps {
   data: ReactFlowNodeData;
@@ -50,6 +50,16 @@ function ActionNodeComponent({ data, selected }: ActionNodeProps) {
             {data.description}
           </p>
         )}
+        {data.captureName && (
+          <div
+            className="flex items-center gap-1 mt-1.5 text-[10px] font-mono"
+            style={{ color: 'var(--info)' }}
+            title="Variable que captura este paso"
+          >
+            <Variable className="h-3 w-3 shrink-0" />
+            <span className="truncate">{data.captureName}</span>
+          </div>
+        )}
         {data.keywords && data.keywords.length > 0 && (
           <div className="flex flex-wrap gap-1 mt-1.5">
             {data.keywords.slice(0, 3).map((keyword, i) => (
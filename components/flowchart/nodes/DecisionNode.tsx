@@ -48,6 +48,24 @@ function DecisionNodeComponent({ data, selected }: DecisionNodeProps) {
         </span>
       </div>
 
+      {/* Slot condition (left side, the only one without a handle) */}
+      {data.slotConditionText && (
+        <span
+          className="absolute text-[10px] font-mono whitespace-nowrap px-1.5 py-0.5 rounded"
+          style={{
+            color: 'var(--warning)',
+            background: 'var(--bg-elevated)',
+            border: '1px solid rgba(240, 180, 41, 0.4)',
+            right: '100%',
+            marginRight: 4,
+            top: '50%',
+            transform: 'translateY(-50%)',
+          }}
+        >
+          {data.slotConditionText}
+        </span>
+      )}
+
       {/* Input handle (top) */}
       <Handle
         type="target"
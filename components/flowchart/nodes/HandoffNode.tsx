@@ -0,0 +1,65 @@
+'use client';
+
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import type { ReactFlowNodeData } from '@/types/flow';
+import { Headset } from 'lucide-react';
+import { formatHandoff } from '@/lib/utils/flowNodeDetails';
+
+interface HandoffNodeProps {
+  data: ReactFlowNodeData;
+  selected?: boolean;
+}
+
+function HandoffNodeComponent({ data, selected }: HandoffNodeProps) {
+  return (
+    <div
+      className="rounded-xl transition-all"
+      style={{
+        background: 'rgba(168, 85, 247, 0.1)',
+        border: `2px solid ${selected ? '#a855f7' : 'rgba(168, 85, 247, 0.4)'}`,
+        boxShadow: selected ? '0 0 12px rgba(168, 85, 247, 0.3)' : 'none',
+        minWidth: 180,
+        maxWidth: 260,
+      }}
+    >
+      <Handle
+        type="target"
+        position={Position.Top}
+        style={{
+          background: '#a855f7',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+      <div className="px-3 py-2.5">
+        <div className="flex items-center gap-2">
+          <Headset className="h-4 w-4 shrink-0" style={{ color: '#a855f7' }} />
+          <span
+            className="text-sm font-medium truncate"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            {data.label}
+          </span>
+        </div>
+        <p className="text-xs mt-1" style={{ color: data.handoff ? '#a855f7' : 'var(--warning)' }}>
+          {data.handoff ? `→ ${formatHandoff(data.handoff)}` : 'Sin destino'}
+        </p>
+      </div>
+      {/* Optional: the bot can keep going after the handoff (e.g. confirm to the lead) */}
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        style={{
+          background: '#a855f7',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+    </div>
+  );
+}
+
+export const HandoffNode = memo(HandoffNodeComponent);
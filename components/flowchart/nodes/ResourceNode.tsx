@@ -0,0 +1,77 @@
+'use client';
+
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import type { ReactFlowNodeData } from '@/types/flow';
+import { Paperclip } from 'lucide-react';
+import { RESOURCE_KIND_LABELS } from '@/lib/utils/flowNodeDetails';
+
+interface ResourceNodeProps {
+  data: ReactFlowNodeData;
+  selected?: boolean;
+}
+
+function ResourceNodeComponent({ data, selected }: ResourceNodeProps) {
+  const resource = data.resource;
+
+  return (
+    <div
+      className="rounded-xl transition-all"
+      style={{
+        background: 'var(--success-subtle)',
+        border: `2px solid ${selected ? 'var(--success)' : 'rgba(63, 185, 80, 0.4)'}`,
+        boxShadow: selected ? '0 0 12px rgba(63, 185, 80, 0.3)' : 'none',
+        minWidth: 180,
+        maxWidth: 260,
+      }}
+    >
+      <Handle
+        type="target"
+        position={Position.Top}
+        style={{
+          background: 'var(--success)',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+      <div className="px-3 py-2.5">
+        <div className="flex items-center gap-2">
+          <Paperclip className="h-4 w-4 shrink-0" style={{ color: 'var(--success)' }} />
+          <span
+            className="text-sm font-medium truncate"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            {data.label}
+          </span>
+          {resource && (
+            <span
+              className="text-[10px] px-1.5 py-0.5 rounded shrink-0"
+              style={{ background: 'var(--bg-tertiary)', color: 'var(--success)' }}
+            >
+              {RESOURCE_KIND_LABELS[resource.kind]}
+            </span>
+          )}
+        </div>
+        <p
+          className="text-xs mt-1 truncate"
+          style={{ color: resource?.url ? 'var(--text-secondary)' : 'var(--warning)' }}
+        >
+          {resource?.url || 'Sin link'}
+        </p>
+      </div>
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        style={{
+          background: 'var(--success)',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+    </div>
+  );
+}
+
+export const ResourceNode = memo(ResourceNodeComponent);
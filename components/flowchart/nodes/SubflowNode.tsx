@@ -0,0 +1,101 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import type { ReactFlowNodeData } from '@/types/flow';
+import { Layers, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface SubflowNodeProps {
+  data: ReactFlowNodeData;
+  selected?: boolean;
+}
+
+function SubflowNodeComponent({ data, selected }: SubflowNodeProps) {
+  // Collapsed by default; expanding only previews the fragment, it stays a single node
+  const [expanded, setExpanded] = useState(false);
+  const steps = data.subflowSteps || [];
+  const borderColor = data.subflowMissing ? 'var(--error)' : 'var(--accent-primary)';
+
+  return (
+    <div
+      className="rounded-xl transition-all"
+      style={{
+        background: 'var(--bg-tertiary)',
+        border: `2px dashed ${selected ? borderColor : 'var(--border-default)'}`,
+        boxShadow: selected ? 'var(--shadow-glow)' : 'var(--shadow-sm)',
+        minWidth: 200,
+        maxWidth: 280,
+      }}
+    >
+      <Handle
+        type="target"
+        position={Position.Top}
+        style={{
+          background: 'var(--accent-primary)',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+      <div className="p-3">
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 shrink-0" style={{ color: borderColor }} />
+          <span
+            className="flex-1 text-sm font-medium truncate"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            {data.label}
+          </span>
+          {steps.length > 0 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setExpanded((prev) => !prev);
+              }}
+              className="nodrag p-0.5 rounded"
+              style={{ color: 'var(--text-muted)' }}
+              title={expanded ? 'Ocultar pasos' : 'Ver pasos del subflujo'}
+            >
+              {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+            </button>
+          )}
+        </div>
+        <p
+          className="text-[10px] mt-1 truncate"
+          style={{ color: data.subflowMissing ? 'var(--error)' : 'var(--text-muted)' }}
+        >
+          {data.subflowMissing
+            ? 'El flujo referenciado ya no existe'
+            : data.subflowName
+              ? `${data.subflowName} · ${steps.length} ${steps.length === 1 ? 'paso' : 'pasos'}`
+              : 'Sin flujo asignado'}
+        </p>
+        {expanded && steps.length > 0 && (
+          <ol className="mt-2 space-y-0.5 pl-1">
+            {steps.map((step, i) => (
+              <li
+                key={i}
+                className="text-[10px] truncate"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                {i + 1}. {step}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        style={{
+          background: 'var(--accent-primary)',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+    </div>
+  );
+}
+
+export const SubflowNode = memo(SubflowNodeComponent);
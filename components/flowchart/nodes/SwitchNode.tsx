@@ -0,0 +1,92 @@
+'use client';
+
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import type { ReactFlowNodeData } from '@/types/flow';
+import { Split } from 'lucide-react';
+
+interface SwitchNodeProps {
+  data: ReactFlowNodeData;
+  selected?: boolean;
+}
+
+const OUTPUT_SLOT_WIDTH = 72;
+
+function SwitchNodeComponent({ data, selected }: SwitchNodeProps) {
+  const outputs = data.outputs || [];
+  const width = Math.max(200, outputs.length * OUTPUT_SLOT_WIDTH);
+
+  return (
+    <div
+      className="relative rounded-lg transition-all"
+      style={{
+        width,
+        background: 'var(--info-subtle)',
+        border: `2px solid ${selected ? 'var(--info)' : 'rgba(88, 166, 255, 0.4)'}`,
+        boxShadow: selected ? '0 0 12px rgba(88, 166, 255, 0.3)' : 'none',
+      }}
+    >
+      {/* Input handle (top) */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        style={{
+          background: 'var(--info)',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+
+      {/* Content */}
+      <div className="flex items-center gap-2 px-3 pt-2.5 pb-1">
+        <Split className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--info)' }} />
+        <span
+          className="text-xs font-medium truncate"
+          style={{ color: 'var(--info)' }}
+        >
+          {data.label}
+        </span>
+      </div>
+
+      {/* Output labels, one slot per handle */}
+      <div className="flex px-1 pb-2.5">
+        {outputs.length === 0 ? (
+          <span className="flex-1 text-center text-[10px]" style={{ color: 'var(--text-muted)' }}>
+            Sin salidas
+          </span>
+        ) : (
+          outputs.map((output) => (
+            <span
+              key={output.id}
+              className="flex-1 min-w-0 px-1 text-center text-[10px] truncate"
+              style={{ color: 'var(--text-secondary)' }}
+              title={output.label}
+            >
+              {output.label}
+            </span>
+          ))
+        )}
+      </div>
+
+      {/* One output handle per labelled exit, spread along the bottom */}
+      {outputs.map((output, i) => (
+        <Handle
+          key={output.id}
+          type="source"
+          position={Position.Bottom}
+          id={output.id}
+          style={{
+            background: 'var(--info)',
+            width: 10,
+            height: 10,
+            border: '2px solid var(--bg-primary)',
+            left: `${((i + 0.5) / outputs.length) * 100}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export const SwitchNode = memo(SwitchNodeComponent);
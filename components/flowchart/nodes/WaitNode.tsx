@@ -0,0 +1,64 @@
+'use client';
+
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import type { ReactFlowNodeData } from '@/types/flow';
+import { Hourglass } from 'lucide-react';
+import { formatDelay } from '@/lib/utils/flowNodeDetails';
+
+interface WaitNodeProps {
+  data: ReactFlowNodeData;
+  selected?: boolean;
+}
+
+function WaitNodeComponent({ data, selected }: WaitNodeProps) {
+  return (
+    <div
+      className="rounded-xl transition-all"
+      style={{
+        background: 'var(--bg-elevated)',
+        border: `2px dashed ${selected ? 'var(--text-secondary)' : 'var(--border-default)'}`,
+        boxShadow: selected ? 'var(--shadow-glow)' : 'var(--shadow-sm)',
+        minWidth: 160,
+        maxWidth: 240,
+      }}
+    >
+      <Handle
+        type="target"
+        position={Position.Top}
+        style={{
+          background: 'var(--text-muted)',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+      <div className="px-3 py-2.5">
+        <div className="flex items-center gap-2">
+          <Hourglass className="h-4 w-4 shrink-0" style={{ color: 'var(--text-secondary)' }} />
+          <span
+            className="text-sm font-medium truncate"
+            style={{ color: 'var(--text-primary)' }}
+          >
+            {data.label}
+          </span>
+        </div>
+        <p className="text-xs mt-1" style={{ color: data.delay ? 'var(--text-secondary)' : 'var(--warning)' }}>
+          {data.delay ? `Espera ${formatDelay(data.delay)}` : 'Sin tiempo de espera'}
+        </p>
+      </div>
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        style={{
+          background: 'var(--text-muted)',
+          width: 10,
+          height: 10,
+          border: '2px solid var(--bg-primary)',
+        }}
+      />
+    </div>
+  );
+}
+
+export const WaitNode = memo(WaitNodeComponent);
@@ -2,3 +2,8 @@ export { StartNode } from './StartNode';
 export { EndNode } from './EndNode';
 export { ActionNode } from './ActionNode';
 export { DecisionNode } from './DecisionNode';
+export { SwitchNode } from './SwitchNode';
+export { WaitNode } from './WaitNode';
+export { HandoffNode } from './HandoffNode';
+export { ResourceNode } from './ResourceNode';
+export { SubflowNode } from './SubflowNode';
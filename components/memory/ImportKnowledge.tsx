@@ -461,7 +461,7 @@ export function ImportKnowledge({ onClose }: ImportKnowledgeProps) {
                   </li>
                   <li className="flex gap-2">
                     <span className="flex-shrink-0 w-5 h-5 rounded-full flex items-center justify-center text-[10px] font-medium" style={{ background: 'var(--accent-subtle)', color: 'var(--accent-primary)' }}>4</span>
-                    <span>Copia la respuesta y vuelve aquí (pestaña "Texto")</span>
+                    <span>Copia la respuesta y vuelve aquí (pestaña &quot;Texto&quot;)</span>
                   </li>
                 </ol>
               </div>
@@ -595,7 +595,7 @@ export function ImportKnowledge({ onClose }: ImportKnowledgeProps) {
                             }}
                           >
                             <AlertCircle className="h-3 w-3" />
-                            Similar a: &quot;{duplicateMatch.existingLearning.title}&quot;
+                            Similar a: &quot;{duplicateMatch.existingLearning.title}&quot; ({Math.round(duplicateMatch.similarity * 100)}%)
                           </div>
                         )}
                         <p className="text-xs line-clamp-2" style={{ color: 'var(--text-secondary)' }}>
@@ -0,0 +1,275 @@
+'use client';
+
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Controls,
+  Background,
+  BackgroundVariant,
+  Handle,
+  Position,
+  useNodesState,
+  MarkerType,
+  type Connection,
+  type Node,
+  type Edge,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import { Lightbulb, AlertTriangle, Network } from 'lucide-react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import { KNOWLEDGE_RELATION_TYPES, buildKnowledgeGraph, getSupersededIds } from '@/lib/utils/knowledgeRelations';
+import type { KnowledgeEntry, KnowledgeRelationType } from '@/types/prompt';
+import { KnowledgeRelationsEditor } from './KnowledgeRelationsEditor';
+
+interface KnowledgeGraphViewProps {
+  entries: KnowledgeEntry[];
+}
+
+interface EntryNodeData {
+  entry: KnowledgeEntry;
+  isSuperseded: boolean;
+  isSelected: boolean;
+  [key: string]: unknown;
+}
+
+// Graph layout (px)
+const NODE_SIZE = { width: 220, height: 56 };
+const COLUMN_GAP = 120;
+const ROW_GAP = 24;
+// Unrelated entries are laid out in a grid after the related ones
+const UNRELATED_COLUMNS = 3;
+
+const RELATION_TYPES = Object.keys(KNOWLEDGE_RELATION_TYPES) as KnowledgeRelationType[];
+
+function EntryNodeComponent({ data }: { data: EntryNodeData }) {
+  const { entry, isSuperseded, isSelected } = data;
+  return (
+    <div
+      className="flex items-center gap-2 px-3 rounded-lg"
+      style={{
+        width: NODE_SIZE.width,
+        height: NODE_SIZE.height,
+        background: 'var(--bg-elevated)',
+        border: `${isSelected ? 2 : 1}px solid ${isSelected ? 'var(--accent-primary)' : 'var(--border-default)'}`,
+        opacity: isSuperseded ? 0.55 : 1,
+      }}
+      title={entry.description}
+    >
+      <Handle type="target" position={Position.Left} style={{ background: 'var(--border-default)', width: 8, height: 8 }} />
+      {entry.type === 'pattern' ? (
+        <Lightbulb className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--success)' }} />
+      ) : (
+        <AlertTriangle className="h-3.5 w-3.5 shrink-0" style={{ color: 'var(--error)' }} />
+      )}
+      <span
+        className="text-xs line-clamp-2"
+        style={{ color: 'var(--text-primary)', textDecoration: isSuperseded ? 'line-through' : undefined }}
+      >
+        {entry.title}
+      </span>
+      <Handle type="source" position={Position.Right} style={{ background: 'var(--accent-primary)', width: 8, height: 8 }} />
+    </div>
+  );
+}
+
+const graphNodeTypes = {
+  knowledgeEntry: memo(EntryNodeComponent),
+};
+
+function KnowledgeGraphContent({ entries }: KnowledgeGraphViewProps) {
+  const { entries: allEntries, addKnowledgeRelation } = useKnowledgeStore();
+  const { addToast } = useToastStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connectType, setConnectType] = useState<KnowledgeRelationType>('supersedes');
+  const [showUnrelated, setShowUnrelated] = useState(false);
+
+  const graph = useMemo(() => buildKnowledgeGraph(entries), [entries]);
+  const superseded = useMemo(() => getSupersededIds(allEntries), [allEntries]);
+  // Without any relation yet, every entry is shown so the first ones can be drawn
+  const includeUnrelated = showUnrelated || graph.relatedIds.size === 0;
+
+  const computedNodes = useMemo(() => {
+    const result: Node[] = [];
+    const node = (entry: KnowledgeEntry, x: number, y: number): Node => {
+      const data: EntryNodeData = {
+        entry,
+        isSuperseded: superseded.has(entry.id),
+        isSelected: entry.id === selectedId,
+      };
+      return { id: entry.id, type: 'knowledgeEntry', position: { x, y }, data };
+    };
+
+    // Columns by depth; each column stacks its entries vertically
+    const columns = new Map<number, KnowledgeEntry[]>();
+    for (const entry of entries) {
+      if (!graph.relatedIds.has(entry.id)) continue;
+      const depth = graph.depthById[entry.id] ?? 0;
+      columns.set(depth, [...(columns.get(depth) || []), entry]);
+    }
+
+    let x = 0;
+    for (const depth of [...columns.keys()].sort((a, b) => a - b)) {
+      columns.get(depth)!.forEach((entry, row) => {
+        result.push(node(entry, x, row * (NODE_SIZE.height + ROW_GAP)));
+      });
+      x += NODE_SIZE.width + COLUMN_GAP;
+    }
+
+    if (includeUnrelated) {
+      entries
+        .filter((e) => !graph.relatedIds.has(e.id))
+        .forEach((entry, i) => {
+          result.push(node(
+            entry,
+            x + (i % UNRELATED_COLUMNS) * (NODE_SIZE.width + ROW_GAP),
+            Math.floor(i / UNRELATED_COLUMNS) * (NODE_SIZE.height + ROW_GAP)
+          ));
+        });
+    }
+
+    return result;
+  }, [entries, graph, superseded, selectedId, includeUnrelated]);
+
+  const edges = useMemo<Edge[]>(() => graph.edges.map((edge) => {
+    const config = KNOWLEDGE_RELATION_TYPES[edge.type];
+    const isConflict = edge.type === 'conflicts_with';
+    return {
+      id: `${edge.sourceId}:${edge.targetId}`,
+      source: edge.sourceId,
+      target: edge.targetId,
+      label: config.label.toLowerCase(),
+      type: 'smoothstep',
+      markerEnd: isConflict ? undefined : { type: MarkerType.ArrowClosed, color: config.color },
+      style: { stroke: config.color, strokeWidth: 2, strokeDasharray: isConflict ? '6 4' : undefined },
+      labelStyle: { fill: 'var(--text-secondary)', fontSize: 10 },
+      labelBgStyle: { fill: 'var(--bg-elevated)' },
+    };
+  }), [graph.edges]);
+
+  // Local node state so entries can be dragged around; rebuilt when the graph changes
+  const [nodes, setNodes, onNodesChange] = useNodesState(computedNodes);
+  useEffect(() => {
+    setNodes(computedNodes);
+  }, [computedNodes, setNodes]);
+
+  const handleConnect = useCallback((connection: Connection) => {
+    if (!connection.source || !connection.target) return;
+    const error = addKnowledgeRelation(connection.source, connectType, connection.target);
+    if (error) addToast(error, 'error');
+  }, [addKnowledgeRelation, connectType, addToast]);
+
+  const selected = allEntries.find((e) => e.id === selectedId);
+
+  return (
+    <div className="h-full min-h-[480px] flex rounded-xl overflow-hidden" style={{ border: '1px solid var(--border-subtle)' }}>
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* Toolbar */}
+        <div
+          className="flex items-center gap-3 px-3 py-2 border-b text-xs"
+          style={{ background: 'var(--bg-secondary)', borderColor: 'var(--border-subtle)', color: 'var(--text-muted)' }}
+        >
+          <Network className="h-3.5 w-3.5" style={{ color: 'var(--accent-primary)' }} />
+          <span>{graph.edges.length} relaciones</span>
+          <span className="flex items-center gap-1.5">
+            Arrastrar de un aprendizaje a otro:
+            <select
+              value={connectType}
+              onChange={(e) => setConnectType(e.target.value as KnowledgeRelationType)}
+              className="px-1.5 py-0.5 rounded"
+              style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-subtle)', color: 'var(--text-primary)' }}
+            >
+              {RELATION_TYPES.map((t) => (
+                <option key={t} value={t}>{KNOWLEDGE_RELATION_TYPES[t].label}</option>
+              ))}
+            </select>
+          </span>
+          {graph.relatedIds.size > 0 && (
+            <label className="flex items-center gap-1.5 ml-auto cursor-pointer">
+              <input type="checkbox" checked={showUnrelated} onChange={(e) => setShowUnrelated(e.target.checked)} />
+              Mostrar sin relaciones
+            </label>
+          )}
+        </div>
+
+        {/* Canvas */}
+        <div className="flex-1 min-h-0">
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onConnect={handleConnect}
+            onNodeClick={(_, node) => setSelectedId(node.id)}
+            onPaneClick={() => setSelectedId(null)}
+            nodeTypes={graphNodeTypes}
+            edgesFocusable={false}
+            fitView
+            fitViewOptions={{ padding: 0.2, maxZoom: 1.2 }}
+            proOptions={{ hideAttribution: true }}
+            style={{ background: 'var(--bg-primary)' }}
+          >
+            <Controls
+              showInteractive={false}
+              style={{
+                background: 'var(--bg-elevated)',
+                border: '1px solid var(--border-default)',
+                borderRadius: 8,
+              }}
+            />
+            <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="var(--border-subtle)" />
+          </ReactFlow>
+        </div>
+      </div>
+
+      {/* Selected entry */}
+      <div
+        className="w-72 flex-shrink-0 border-l overflow-y-auto p-4 space-y-3"
+        style={{ background: 'var(--bg-secondary)', borderColor: 'var(--border-subtle)' }}
+      >
+        {selected ? (
+          <>
+            <div>
+              <h3 className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
+                {selected.title}
+              </h3>
+              <p className="text-xs mt-1" style={{ color: 'var(--text-tertiary)' }}>
+                {selected.description}
+              </p>
+            </div>
+            <KnowledgeRelationsEditor entry={selected} />
+          </>
+        ) : (
+          <div className="space-y-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+            <p>Elegi un aprendizaje para ver y editar sus relaciones.</p>
+            {RELATION_TYPES.map((t) => (
+              <div key={t} className="flex items-center gap-2">
+                <span
+                  className="w-6 h-0 shrink-0"
+                  style={{
+                    borderTop: `2px ${t === 'conflicts_with' ? 'dashed' : 'solid'} ${KNOWLEDGE_RELATION_TYPES[t].color}`,
+                  }}
+                />
+                {KNOWLEDGE_RELATION_TYPES[t].label.toLowerCase()}
+              </div>
+            ))}
+            <p>Los reemplazados se ven tachados y no se mandan como contexto. Los que se contradicen se mandan juntos, con una advertencia.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Knowledge entries and their relations. Replaced and refined entries sit to the
+ * left of the entries that replace or refine them.
+ */
+export function KnowledgeGraphView(props: KnowledgeGraphViewProps) {
+  // Own provider, same as the agent map
+  return (
+    <ReactFlowProvider>
+      <KnowledgeGraphContent {...props} />
+    </ReactFlowProvider>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import { getKnowledgeIndex, knowledgeEntryText } from '@/lib/utils/knowledgeIndex';
+import { KNOWLEDGE_RELATION_TYPES, getEntryRelations, getSupersededIds } from '@/lib/utils/knowledgeRelations';
+import type { KnowledgeEntry, KnowledgeRelationType } from '@/types/prompt';
+import { Link2, Plus, X, Archive } from 'lucide-react';
+
+interface KnowledgeRelationsEditorProps {
+  entry: KnowledgeEntry;
+}
+
+const RELATION_TYPES = Object.keys(KNOWLEDGE_RELATION_TYPES) as KnowledgeRelationType[];
+
+export function KnowledgeRelationsEditor({ entry }: KnowledgeRelationsEditorProps) {
+  const { entries, addKnowledgeRelation, removeKnowledgeRelation } = useKnowledgeStore();
+  const { addToast } = useToastStore();
+  const [type, setType] = useState<KnowledgeRelationType>('supersedes');
+  const [targetId, setTargetId] = useState('');
+
+  const relations = useMemo(() => getEntryRelations(entry, entries), [entry, entries]);
+  const supersededBy = relations.find((r) => r.type === 'supersedes' && r.direction === 'incoming');
+
+  // Most similar entries first: they're the likely duplicates, replacements and contradictions
+  const candidates = useMemo(() => {
+    const related = new Set(relations.map((r) => r.entry.id));
+    const others = entries.filter((e) => e.id !== entry.id && !related.has(e.id));
+    const scores = new Map(
+      getKnowledgeIndex(entries)
+        .search(knowledgeEntryText(entry), { filter: (e) => e.id !== entry.id })
+        .map((m) => [m.entry.id, m.score])
+    );
+    return others.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
+  }, [entry, entries, relations]);
+
+  const superseded = useMemo(() => getSupersededIds(entries), [entries]);
+
+  const handleAdd = () => {
+    if (!targetId) return;
+    const error = addKnowledgeRelation(entry.id, type, targetId);
+    if (error) {
+      addToast(error, 'error');
+      return;
+    }
+    setTargetId('');
+  };
+
+  return (
+    <div>
+      <label className="text-[10px] uppercase tracking-wider font-medium mb-1 block" style={{ color: 'var(--text-muted)' }}>
+        Relaciones
+      </label>
+
+      {supersededBy && (
+        <div
+          className="flex items-center gap-1.5 px-2 py-1 mb-2 rounded text-[11px]"
+          style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}
+        >
+          <Archive className="h-3 w-3 shrink-0" />
+          Reemplazado por &quot;{supersededBy.entry.title}&quot;: ya no se usa como contexto ni sugerencia
+        </div>
+      )}
+
+      {relations.length > 0 && (
+        <div className="space-y-1 mb-2">
+          {relations.map((relation) => {
+            const config = KNOWLEDGE_RELATION_TYPES[relation.type];
+            const [sourceId, relTargetId] = relation.direction === 'outgoing'
+              ? [entry.id, relation.entry.id]
+              : [relation.entry.id, entry.id];
+            return (
+              <div key={`${relation.direction}:${relation.entry.id}`} className="flex items-center gap-2 text-xs">
+                <Link2 className="h-3 w-3 shrink-0" style={{ color: config.color }} />
+                <span className="shrink-0" style={{ color: config.color }}>
+                  {relation.direction === 'outgoing' ? config.label : config.inverseLabel}
+                </span>
+                <span className="flex-1 min-w-0 truncate" style={{ color: 'var(--text-secondary)' }}>
+                  {relation.entry.title}
+                </span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); removeKnowledgeRelation(sourceId, relTargetId); }}
+                  className="p-0.5 rounded shrink-0"
+                  style={{ color: 'var(--text-muted)' }}
+                  title="Quitar relacion"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="flex items-center gap-1.5" onClick={(e) => e.stopPropagation()}>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as KnowledgeRelationType)}
+            className="px-2 py-1 text-xs rounded"
+            style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-subtle)', color: 'var(--text-primary)' }}
+          >
+            {RELATION_TYPES.map((t) => (
+              <option key={t} value={t}>{KNOWLEDGE_RELATION_TYPES[t].label}</option>
+            ))}
+          </select>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 text-xs rounded"
+            style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-subtle)', color: 'var(--text-primary)' }}
+          >
+            <option value="">Elegir aprendizaje...</option>
+            {candidates.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.title}{superseded.has(candidate.id) ? ' (reemplazado)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!targetId}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded transition-all disabled:opacity-40"
+            style={{ background: 'var(--accent-subtle)', color: 'var(--accent-primary)', border: '1px solid var(--border-accent)' }}
+          >
+            <Plus className="h-3 w-3" />
+            Relacionar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { KNOWLEDGE_SCOPE_KINDS, describeScope, getEntryScope, isScopeComplete } from '@/lib/utils/knowledgeScope';
+import type { KnowledgeEntry, KnowledgeScope, KnowledgeScopeKind } from '@/types/prompt';
+import { Crosshair } from 'lucide-react';
+
+const SCOPE_KINDS = Object.keys(KNOWLEDGE_SCOPE_KINDS) as KnowledgeScopeKind[];
+
+const selectStyle = {
+  background: 'var(--bg-tertiary)',
+  border: '1px solid var(--border-subtle)',
+  color: 'var(--text-primary)',
+};
+
+interface KnowledgeScopePickerProps {
+  value: KnowledgeScope;
+  onChange: (scope: KnowledgeScope) => void;
+}
+
+/**
+ * Scope kind plus its value. Switching kind preselects the current project,
+ * the current agent's channel or the project's first niche; when there's none
+ * the scope is left incomplete and callers must not save it.
+ */
+export function KnowledgeScopePicker({ value, onChange }: KnowledgeScopePickerProps) {
+  const { projects, getCurrentProject, getCurrentAgent } = useKnowledgeStore();
+  const currentProject = getCurrentProject();
+  const currentAgent = getCurrentAgent();
+
+  // Values in use across projects, plus the one already set (it may no longer be)
+  const options = useMemo(() => {
+    const unique = (values: string[]) => Array.from(new Set(values.map((v) => v.toLowerCase()))).sort();
+    const current = value.value && value.kind !== 'project' ? [value.value] : [];
+    return {
+      channel: unique([...projects.flatMap((p) => p.agents.map((a) => a.channelType)), ...(value.kind === 'channel' ? current : [])]),
+      niche: unique([...projects.flatMap((p) => p.tags), ...(value.kind === 'niche' ? current : [])]),
+    };
+  }, [projects, value]);
+
+  const handleKindChange = (kind: KnowledgeScopeKind) => {
+    if (kind === 'global') {
+      onChange({ kind });
+      return;
+    }
+    const preset = kind === 'project'
+      ? currentProject?.id ?? projects[0]?.id
+      : kind === 'channel'
+      ? currentAgent?.channelType ?? options.channel[0]
+      : currentProject?.tags[0] ?? options.niche[0];
+    onChange({ kind, value: preset });
+  };
+
+  const values = value.kind === 'project'
+    ? projects.map((p) => ({ id: p.id, label: p.clientName ? `${p.clientName} (${p.name})` : p.name }))
+    : value.kind === 'channel' || value.kind === 'niche'
+    ? options[value.kind].map((v) => ({ id: v, label: v }))
+    : [];
+
+  return (
+    <div className="flex items-center gap-1.5" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={value.kind}
+        onChange={(e) => handleKindChange(e.target.value as KnowledgeScopeKind)}
+        className="px-2 py-1 text-xs rounded"
+        style={selectStyle}
+        title={KNOWLEDGE_SCOPE_KINDS[value.kind].description}
+      >
+        {SCOPE_KINDS.map((kind) => (
+          <option key={kind} value={kind}>{KNOWLEDGE_SCOPE_KINDS[kind].label}</option>
+        ))}
+      </select>
+      {value.kind !== 'global' && (
+        values.length > 0 ? (
+          <select
+            value={value.value ?? ''}
+            onChange={(e) => onChange({ kind: value.kind, value: e.target.value })}
+            className="flex-1 min-w-0 px-2 py-1 text-xs rounded"
+            style={selectStyle}
+          >
+            {!value.value && <option value="">Elegir...</option>}
+            {values.map((v) => (
+              <option key={v.id} value={v.id}>{v.label}</option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+            {value.kind === 'niche'
+              ? 'Ningun proyecto tiene nichos todavia (se cargan al editar el proyecto)'
+              : value.kind === 'channel'
+              ? 'Todavia no hay agentes con canal'
+              : 'Todavia no hay proyectos'}
+          </span>
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * Scope of a saved entry, edited in place. A kind without a value stays a
+ * draft until one is picked.
+ */
+export function KnowledgeScopeEditor({ entry }: { entry: KnowledgeEntry }) {
+  const { updateEntry } = useKnowledgeStore();
+  const [draft, setDraft] = useState<KnowledgeScope | null>(null);
+
+  const handleChange = (scope: KnowledgeScope) => {
+    if (isScopeComplete(scope)) {
+      setDraft(null);
+      updateEntry(entry.id, { scope });
+    } else {
+      setDraft(scope);
+    }
+  };
+
+  return (
+    <div>
+      <label className="text-[10px] uppercase tracking-wider font-medium mb-1 block" style={{ color: 'var(--text-muted)' }}>
+        Alcance
+      </label>
+      <KnowledgeScopePicker value={draft ?? entry.scope ?? { kind: 'global' }} onChange={handleChange} />
+      {draft && (
+        <p className="text-[11px] mt-1" style={{ color: 'var(--warning)' }}>
+          Elegi un valor para guardar el alcance
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Badge for scoped entries; global ones show nothing.
+ */
+export function KnowledgeScopeBadge({ entry }: { entry: KnowledgeEntry }) {
+  const { projects } = useKnowledgeStore();
+  const scope = getEntryScope(entry);
+  if (scope.kind === 'global') return null;
+
+  const { color } = KNOWLEDGE_SCOPE_KINDS[scope.kind];
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full flex-shrink-0"
+      style={{ background: `${color}20`, color }}
+      title={KNOWLEDGE_SCOPE_KINDS[scope.kind].description}
+    >
+      <Crosshair className="h-2.5 w-2.5" />
+      {describeScope(scope, projects)}
+    </span>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import {
+  computeLearningEffectiveness,
+  type LearningEffectiveness,
+  type LearningImpact,
+} from '@/lib/utils/learningEffectiveness';
+import type { KnowledgeEntry } from '@/types/prompt';
+import {
+  TrendingUp,
+  TrendingDown,
+  EyeOff,
+  Minus,
+  Clock,
+  Lightbulb,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  GitCommit,
+} from 'lucide-react';
+
+interface LearningImpactDashboardProps {
+  entries: KnowledgeEntry[];
+}
+
+const IMPACT_CONFIG: Record<LearningImpact, {
+  label: string;
+  description: string;
+  icon: React.ComponentType<{ className?: string; style?: React.CSSProperties }>;
+  color: string;
+  bg: string;
+}> = {
+  improves: {
+    label: 'Mejoran',
+    description: 'Se aplican y las versiones donde se usaron suben en regresion',
+    icon: TrendingUp,
+    color: 'var(--success)',
+    bg: 'var(--success-subtle)',
+  },
+  hurts: {
+    label: 'Empeoran',
+    description: 'Las versiones donde se aplicaron bajaron en regresion',
+    icon: TrendingDown,
+    color: 'var(--error)',
+    bg: 'var(--error-subtle)',
+  },
+  ignored: {
+    label: 'Ignorados',
+    description: 'Se rechazan mas veces de las que se aplican',
+    icon: EyeOff,
+    color: 'var(--warning)',
+    bg: 'var(--warning-subtle)',
+  },
+  neutral: {
+    label: 'Sin efecto claro',
+    description: 'Se aplicaron, pero todavia no mueven los resultados',
+    icon: Minus,
+    color: 'var(--text-secondary)',
+    bg: 'var(--bg-tertiary)',
+  },
+  unused: {
+    label: 'Sin datos',
+    description: 'Nunca se aplicaron ni rechazaron',
+    icon: Clock,
+    color: 'var(--text-muted)',
+    bg: 'var(--bg-tertiary)',
+  },
+};
+
+const IMPACT_ORDER: LearningImpact[] = ['improves', 'hurts', 'ignored', 'neutral', 'unused'];
+
+const EFFECTIVENESS_LABELS: Record<KnowledgeEntry['effectiveness'], string> = {
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja',
+};
+
+// Decisions listed when a learning is expanded
+const RECENT_DECISIONS = 5;
+
+// Most telling first within each group
+function compareWithinImpact(impact: LearningImpact, a: LearningEffectiveness, b: LearningEffectiveness): number {
+  switch (impact) {
+    case 'improves':
+      return (b.score ?? 0) - (a.score ?? 0);
+    case 'hurts':
+      return (a.regressionDelta ?? 0) - (b.regressionDelta ?? 0);
+    case 'ignored':
+      return b.rejected - a.rejected;
+    default:
+      return b.decisions.length - a.decisions.length;
+  }
+}
+
+function formatDelta(delta: number): string {
+  const rounded = Math.round(delta * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded} pts`;
+}
+
+export function LearningImpactDashboard({ entries }: LearningImpactDashboardProps) {
+  const { decisions, projects } = useKnowledgeStore();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showUnused, setShowUnused] = useState(false);
+
+  const groups = useMemo(() => {
+    const computed = computeLearningEffectiveness(entries, decisions, projects);
+    const byImpact = Object.fromEntries(IMPACT_ORDER.map((impact) => [impact, [] as KnowledgeEntry[]])) as Record<LearningImpact, KnowledgeEntry[]>;
+    for (const entry of entries) {
+      byImpact[computed.get(entry.id)!.impact].push(entry);
+    }
+    for (const impact of IMPACT_ORDER) {
+      byImpact[impact].sort((a, b) => compareWithinImpact(impact, computed.get(a.id)!, computed.get(b.id)!));
+    }
+    return { computed, byImpact };
+  }, [entries, decisions, projects]);
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('es', { day: 'numeric', month: 'short' });
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {IMPACT_ORDER.map((impact) => {
+          const config = IMPACT_CONFIG[impact];
+          return (
+            <div
+              key={impact}
+              className="rounded-xl p-3"
+              style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-subtle)' }}
+              title={config.description}
+            >
+              <div className="flex items-center gap-1.5 mb-1">
+                <config.icon className="h-3.5 w-3.5" style={{ color: config.color }} />
+                <span className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+                  {config.label}
+                </span>
+              </div>
+              <span className="text-lg font-semibold" style={{ color: 'var(--text-primary)' }}>
+                {groups.byImpact[impact].length}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Groups */}
+      {IMPACT_ORDER.map((impact) => {
+        const items = groups.byImpact[impact];
+        if (items.length === 0) return null;
+
+        const config = IMPACT_CONFIG[impact];
+        const isCollapsed = impact === 'unused' && !showUnused;
+
+        return (
+          <div
+            key={impact}
+            className="rounded-xl overflow-hidden"
+            style={{
+              background: 'var(--bg-secondary)',
+              border: '1px solid var(--border-subtle)',
+              borderLeft: `3px solid ${config.color}`,
+            }}
+          >
+            <button
+              onClick={() => impact === 'unused' && setShowUnused(!showUnused)}
+              className="w-full flex items-center justify-between px-4 py-3 text-left"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <config.icon className="h-4 w-4" style={{ color: config.color }} />
+                  <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>
+                    {config.label}
+                  </span>
+                  <span
+                    className="text-[10px] px-2 py-0.5 rounded-full"
+                    style={{ background: config.bg, color: config.color }}
+                  >
+                    {items.length}
+                  </span>
+                </div>
+                <p className="text-xs mt-0.5" style={{ color: 'var(--text-muted)' }}>
+                  {config.description}
+                </p>
+              </div>
+              {impact === 'unused' && (isCollapsed ? (
+                <ChevronRight className="h-4 w-4" style={{ color: 'var(--text-muted)' }} />
+              ) : (
+                <ChevronDown className="h-4 w-4" style={{ color: 'var(--text-muted)' }} />
+              ))}
+            </button>
+
+            {!isCollapsed && (
+              <div className="border-t" style={{ borderColor: 'var(--border-subtle)' }}>
+                {items.map((entry) => {
+                  const stats = groups.computed.get(entry.id)!;
+                  const isExpanded = expandedId === entry.id;
+                  const total = stats.decisions.length;
+
+                  return (
+                    <div key={entry.id} className="border-b last:border-b-0" style={{ borderColor: 'var(--border-subtle)' }}>
+                      <div
+                        className="px-4 py-2.5 flex items-center gap-3 cursor-pointer transition-all hover:bg-black/5"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      >
+                        {entry.type === 'pattern' ? (
+                          <Lightbulb className="h-3.5 w-3.5 flex-shrink-0" style={{ color: 'var(--success)' }} />
+                        ) : (
+                          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" style={{ color: 'var(--error)' }} />
+                        )}
+                        <span className="flex-1 min-w-0 text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                          {entry.title}
+                        </span>
+
+                        {total > 0 && (
+                          <span className="text-[10px] flex-shrink-0" style={{ color: 'var(--text-muted)' }}>
+                            {stats.accepted}/{total} aplicadas ({Math.round(stats.acceptanceRate! * 100)}%)
+                          </span>
+                        )}
+                        {stats.regressionDelta !== null && (
+                          <span
+                            className="text-[10px] px-1.5 py-0.5 rounded font-medium flex-shrink-0"
+                            style={{
+                              background: stats.regressionDelta >= 0 ? 'var(--success-subtle)' : 'var(--error-subtle)',
+                              color: stats.regressionDelta >= 0 ? 'var(--success)' : 'var(--error)',
+                            }}
+                            title="Cambio promedio del puntaje de regresion contra la version anterior"
+                          >
+                            {formatDelta(stats.regressionDelta)}
+                          </span>
+                        )}
+                        {stats.effectiveness ? (
+                          <span
+                            className="text-[10px] px-2 py-0.5 rounded-full flex-shrink-0"
+                            style={{ background: 'var(--bg-elevated)', color: 'var(--text-secondary)' }}
+                            title="Efectividad calculada con las decisiones y la regresion"
+                          >
+                            {EFFECTIVENESS_LABELS[stats.effectiveness]}
+                          </span>
+                        ) : total > 0 && (
+                          <span className="text-[10px] flex-shrink-0" style={{ color: 'var(--text-muted)' }}>
+                            pocos datos
+                          </span>
+                        )}
+                        {isExpanded ? (
+                          <ChevronDown className="h-3.5 w-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+                        ) : (
+                          <ChevronRight className="h-3.5 w-3.5 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+                        )}
+                      </div>
+
+                      {isExpanded && (
+                        <div className="px-4 pb-3 pt-1 space-y-3 animate-slideDown">
+                          {total === 0 && (
+                            <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                              Todavia no se aplico ni se descarto. Usado {entry.usageCount} veces como contexto.
+                            </p>
+                          )}
+
+                          {/* Linked versions */}
+                          {stats.versions.length > 0 && (
+                            <div>
+                              <label className="text-[10px] uppercase tracking-wider font-medium mb-1 block" style={{ color: 'var(--text-muted)' }}>
+                                Versiones
+                              </label>
+                              <div className="space-y-1">
+                                {stats.versions.map((version) => (
+                                  <div key={version.versionId} className="flex items-center gap-2 text-xs">
+                                    <GitCommit className="h-3 w-3 flex-shrink-0" style={{ color: 'var(--text-muted)' }} />
+                                    <span className="flex-1 min-w-0 truncate" style={{ color: 'var(--text-secondary)' }}>
+                                      {version.versionLabel}
+                                    </span>
+                                    <span className="text-[10px] flex-shrink-0" style={{ color: 'var(--text-muted)' }}>
+                                      {version.agentName}
+                                    </span>
+                                    <span
+                                      className="text-[10px] flex-shrink-0"
+                                      style={{
+                                        color: version.regressionDelta === null
+                                          ? 'var(--text-muted)'
+                                          : version.regressionDelta >= 0 ? 'var(--success)' : 'var(--error)',
+                                      }}
+                                    >
+                                      {version.regressionDelta === null ? 'sin regresion' : formatDelta(version.regressionDelta)}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Recent decisions */}
+                          {total > 0 && (
+                            <div>
+                              <label className="text-[10px] uppercase tracking-wider font-medium mb-1 block" style={{ color: 'var(--text-muted)' }}>
+                                Decisiones
+                              </label>
+                              <div className="space-y-1">
+                                {stats.decisions.slice(0, RECENT_DECISIONS).map((decision) => (
+                                  <div key={decision.id} className="flex items-center gap-2 text-xs">
+                                    <span
+                                      className="text-[10px] px-1.5 py-0.5 rounded flex-shrink-0"
+                                      style={{
+                                        background: decision.decision === 'rejected' ? 'var(--error-subtle)' : 'var(--success-subtle)',
+                                        color: decision.decision === 'rejected' ? 'var(--error)' : 'var(--success)',
+                                      }}
+                                    >
+                                      {decision.decision === 'rejected' ? 'rechazada' : decision.decision === 'modified' ? 'modificada' : 'aplicada'}
+                                    </span>
+                                    <span className="flex-1 min-w-0 truncate" style={{ color: 'var(--text-secondary)' }}>
+                                      {decision.justification}
+                                    </span>
+                                    <span className="text-[10px] flex-shrink-0" style={{ color: 'var(--text-muted)' }}>
+                                      {formatDate(decision.timestamp)}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,8 +2,13 @@
 
 import { useState, useMemo, useEffect } from 'react';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
-import type { KnowledgeEntry, KnowledgeCategory } from '@/types/prompt';
+import type { KnowledgeEntry, KnowledgeCategory, KnowledgeScopeKind } from '@/types/prompt';
 import { ImportKnowledge } from './ImportKnowledge';
+import { LearningImpactDashboard } from './LearningImpactDashboard';
+import { KnowledgeGraphView } from './KnowledgeGraphView';
+import { KnowledgeRelationsEditor } from './KnowledgeRelationsEditor';
+import { KnowledgeScopeBadge, KnowledgeScopeEditor } from './KnowledgeScopePicker';
+import { KNOWLEDGE_SCOPE_KINDS, getEntryScope } from '@/lib/utils/knowledgeScope';
 import { KNOWLEDGE_CATEGORIES, inferCategoryFromTags, getCategoryKeys } from '@/lib/utils/categories';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import {
@@ -37,6 +42,7 @@ import {
   Target,
   Layout,
   Database,
+  Network,
 } from 'lucide-react';
 
 // Icon map for dynamic rendering
@@ -60,7 +66,8 @@ interface NinjoMemoryProps {
 type FilterType = 'all' | 'pattern' | 'anti_pattern';
 type SortType = 'recent' | 'usage' | 'effectiveness';
 type EffectivenessFilter = 'all' | 'high' | 'medium' | 'low';
-type ViewMode = 'list' | 'grouped';
+type ScopeFilter = 'all' | KnowledgeScopeKind;
+type ViewMode = 'list' | 'grouped' | 'impact' | 'graph';
 
 // LocalStorage key for view preferences
 const VIEW_PREF_KEY = 'ninjo-memory-view-mode';
@@ -73,6 +80,7 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
   const [filterType, setFilterType] = useState<FilterType>('all');
   const [sortBy, setSortBy] = useState<SortType>('recent');
   const [effectivenessFilter, setEffectivenessFilter] = useState<EffectivenessFilter>('all');
+  const [scopeFilter, setScopeFilter] = useState<ScopeFilter>('all');
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [showImport, setShowImport] = useState(false);
@@ -111,7 +119,7 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
   // Load view preferences from localStorage
   useEffect(() => {
     const savedViewMode = localStorage.getItem(VIEW_PREF_KEY);
-    if (savedViewMode === 'list' || savedViewMode === 'grouped') {
+    if (savedViewMode === 'list' || savedViewMode === 'grouped' || savedViewMode === 'impact' || savedViewMode === 'graph') {
       setViewMode(savedViewMode);
     }
 
@@ -169,6 +177,11 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
       result = result.filter((e) => e.effectiveness === effectivenessFilter);
     }
 
+    // Filter by scope kind
+    if (scopeFilter !== 'all') {
+      result = result.filter((e) => getEntryScope(e).kind === scopeFilter);
+    }
+
     // Filter by category
     if (categoryFilter) {
       result = result.filter((e) => getEntryCategory(e) === categoryFilter);
@@ -191,7 +204,7 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
     }
 
     return result;
-  }, [chatEntries, searchQuery, filterType, sortBy, effectivenessFilter, categoryFilter, searchEntries]);
+  }, [chatEntries, searchQuery, filterType, sortBy, effectivenessFilter, scopeFilter, categoryFilter, searchEntries]);
 
   // Group entries by category
   const groupedEntries = useMemo(() => {
@@ -403,6 +416,29 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
                 </div>
               </div>
 
+              {/* Scope Filter */}
+              <div>
+                <label className="text-[10px] uppercase tracking-wider font-medium mb-2 block" style={{ color: 'var(--text-muted)' }}>
+                  Alcance
+                </label>
+                <div className="flex gap-1">
+                  {(['all', ...Object.keys(KNOWLEDGE_SCOPE_KINDS)] as ScopeFilter[]).map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => setScopeFilter(value)}
+                      className="px-2 py-1 text-xs rounded transition-all"
+                      style={{
+                        background: scopeFilter === value ? 'var(--accent-subtle)' : 'var(--bg-primary)',
+                        color: scopeFilter === value ? 'var(--accent-primary)' : 'var(--text-secondary)',
+                        border: `1px solid ${scopeFilter === value ? 'var(--border-accent)' : 'var(--border-subtle)'}`,
+                      }}
+                    >
+                      {value === 'all' ? 'Todos' : KNOWLEDGE_SCOPE_KINDS[value].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Sort */}
               <div>
                 <label className="text-[10px] uppercase tracking-wider font-medium mb-2 block" style={{ color: 'var(--text-muted)' }}>
@@ -486,6 +522,28 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
             >
               <LayoutGrid className="h-4 w-4" />
             </button>
+            <button
+              onClick={() => handleViewModeChange('impact')}
+              className="p-1.5 transition-all"
+              style={{
+                background: viewMode === 'impact' ? 'var(--accent-subtle)' : 'var(--bg-primary)',
+                color: viewMode === 'impact' ? 'var(--accent-primary)' : 'var(--text-muted)',
+              }}
+              title="Impacto de los aprendizajes"
+            >
+              <BarChart3 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => handleViewModeChange('graph')}
+              className="p-1.5 transition-all"
+              style={{
+                background: viewMode === 'graph' ? 'var(--accent-subtle)' : 'var(--bg-primary)',
+                color: viewMode === 'graph' ? 'var(--accent-primary)' : 'var(--text-muted)',
+              }}
+              title="Grafo de relaciones"
+            >
+              <Network className="h-4 w-4" />
+            </button>
           </div>
         </div>
       </div>
@@ -567,6 +625,12 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
                 : 'Los aprendizajes del chat de Ninjo QA aparecerán aquí cuando los guardes'}
             </p>
           </div>
+        ) : viewMode === 'impact' ? (
+          /* Impact Dashboard */
+          <LearningImpactDashboard entries={filteredEntries} />
+        ) : viewMode === 'graph' ? (
+          /* Relations Graph */
+          <KnowledgeGraphView entries={filteredEntries} />
         ) : viewMode === 'grouped' ? (
           /* Grouped View */
           <div className="space-y-4">
@@ -672,6 +736,7 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
                                     >
                                       {entry.effectiveness === 'high' ? 'Alta' : entry.effectiveness === 'medium' ? 'Media' : 'Baja'}
                                     </span>
+                                    <KnowledgeScopeBadge entry={entry} />
                                   </div>
                                   <p className="text-xs line-clamp-2" style={{ color: 'var(--text-tertiary)' }}>
                                     {entry.description}
@@ -732,6 +797,8 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
                                       </div>
                                     </div>
                                   )}
+                                  <KnowledgeScopeEditor entry={entry} />
+                                  <KnowledgeRelationsEditor entry={entry} />
                                   <div className="flex items-center gap-2 pt-2 border-t" style={{ borderColor: 'var(--border-subtle)' }}>
                                     <button
                                       onClick={(e) => { e.stopPropagation(); handleCopy(`${entry.title}\n\n${entry.description}`); }}
@@ -834,6 +901,7 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
                           >
                             {catInfo.label}
                           </span>
+                          <KnowledgeScopeBadge entry={entry} />
                         </div>
                         <p className="text-xs line-clamp-2" style={{ color: 'var(--text-tertiary)' }}>
                           {entry.description}
@@ -974,6 +1042,12 @@ export function NinjoMemory({ onClose }: NinjoMemoryProps) {
                         </div>
 
 
+                        {/* Scope */}
+                        <KnowledgeScopeEditor entry={entry} />
+
+                        {/* Relations */}
+                        <KnowledgeRelationsEditor entry={entry} />
+
                         {/* Actions */}
                         <div className="flex items-center gap-2 pt-2 border-t" style={{ borderColor: 'var(--border-subtle)' }}>
                           <button
@@ -8,6 +8,7 @@ import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { useToastStore } from '@/store/toastStore';
+import { parseNicheTags } from '@/lib/utils/knowledgeScope';
 import {
   FolderOpen,
   Plus,
@@ -54,6 +55,8 @@ export function ProjectsDashboard({ onClose, onSelectProject }: ProjectsDashboar
   const [newProjectName, setNewProjectName] = useState('');
   const [newProjectClient, setNewProjectClient] = useState('');
   const [newProjectDescription, setNewProjectDescription] = useState('');
+  // Niche tags, comma separated (Project.tags): niche-scoped learnings apply to these projects
+  const [newProjectNiches, setNewProjectNiches] = useState('');
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
 
   const { addToast } = useToastStore();
@@ -76,6 +79,10 @@ export function ProjectsDashboard({ onClose, onSelectProject }: ProjectsDashboar
   const handleCreateProject = () => {
     if (!newProjectName.trim()) return;
     const id = createProject(newProjectName, newProjectDescription, newProjectClient || undefined);
+    const tags = parseNicheTags(newProjectNiches);
+    if (tags.length > 0) {
+      updateProject(id, { tags });
+    }
     if (currentPrompt) {
       saveVersionToProject(id, currentPrompt, 'Versión inicial');
     }
@@ -88,6 +95,7 @@ export function ProjectsDashboard({ onClose, onSelectProject }: ProjectsDashboar
       name: newProjectName,
       description: newProjectDescription,
       clientName: newProjectClient || undefined,
+      tags: parseNicheTags(newProjectNiches),
     });
     resetForm();
   };
@@ -113,6 +121,7 @@ export function ProjectsDashboard({ onClose, onSelectProject }: ProjectsDashboar
     setNewProjectName(project.name);
     setNewProjectClient(project.clientName || '');
     setNewProjectDescription(project.description || '');
+    setNewProjectNiches(project.tags.join(', '));
     setShowNewForm(true);
   };
 
@@ -122,6 +131,7 @@ export function ProjectsDashboard({ onClose, onSelectProject }: ProjectsDashboar
     setNewProjectName('');
     setNewProjectClient('');
     setNewProjectDescription('');
+    setNewProjectNiches('');
   };
 
   const getStatusConfig = (status: Project['status']) => {
@@ -350,6 +360,21 @@ export function ProjectsDashboard({ onClose, onSelectProject }: ProjectsDashboar
                 className="input w-full h-20 resize-none"
               />
             </div>
+            <div className="mb-4">
+              <label className="text-xs font-medium mb-1.5 block" style={{ color: 'var(--text-secondary)' }}>
+                Nichos
+              </label>
+              <input
+                type="text"
+                value={newProjectNiches}
+                onChange={(e) => setNewProjectNiches(e.target.value)}
+                placeholder="fitness, coaching, ecommerce (separados por coma)"
+                className="input w-full"
+              />
+              <p className="text-[11px] mt-1" style={{ color: 'var(--text-muted)' }}>
+                Los aprendizajes de un nicho solo se usan en los proyectos con ese nicho.
+              </p>
+            </div>
             <div className="flex justify-end gap-2">
               <button onClick={resetForm} className="px-4 py-2 text-sm rounded-lg btn-ghost">
                 Cancelar
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { X, Briefcase, AlertTriangle, CheckCircle, ArrowRight } from 'lucide-react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import {
+  SHARED_CONTEXT_SECTIONS,
+  checkProjectConsistency,
+  emptySharedContextSections,
+  parseSharedContext,
+  serializeSharedContext,
+} from '@/lib/utils/sharedContext';
+import type { Project, SharedContextSections } from '@/types/prompt';
+
+interface SharedContextModalProps {
+  isOpen: boolean;
+  project: Project | null;
+  onClose: () => void;
+  onOpenAgent: (agentId: string) => void;
+}
+
+// Characters of prompt shown around a flagged price or link
+const SNIPPET_RADIUS = 40;
+
+export function SharedContextModal({ isOpen, project, onClose, onOpenAgent }: SharedContextModalProps) {
+  const [sections, setSections] = useState<SharedContextSections>(emptySharedContextSections());
+  const { updateProject } = useKnowledgeStore();
+  const { addToast } = useToastStore();
+
+  useEffect(() => {
+    if (isOpen) {
+      setSections(parseSharedContext(project?.sharedContext));
+    }
+  }, [isOpen, project?.sharedContext]);
+
+  const draft = serializeSharedContext(sections);
+  const results = useMemo(
+    () => (project ? checkProjectConsistency(project, draft) : []),
+    [project, draft]
+  );
+
+  if (!isOpen || !project) return null;
+
+  const hasChanges = draft !== serializeSharedContext(parseSharedContext(project.sharedContext));
+  const hasContent = draft.trim().length > 0;
+
+  const handleSave = () => {
+    updateProject(project.id, { sharedContext: draft });
+    addToast('Contexto guardado', 'success');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0"
+        style={{ background: 'rgba(0, 0, 0, 0.6)', backdropFilter: 'blur(4px)' }}
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className="relative w-full max-w-2xl max-h-[85vh] flex flex-col rounded-xl overflow-hidden animate-fadeIn"
+        style={{
+          background: 'var(--bg-elevated)',
+          border: '1px solid var(--border-default)',
+          boxShadow: 'var(--shadow-lg)',
+        }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b" style={{ borderColor: 'var(--border-subtle)' }}>
+          <div>
+            <div className="flex items-center gap-2">
+              <Briefcase className="h-4 w-4" style={{ color: 'var(--accent-primary)' }} />
+              <h2 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>
+                Contexto del negocio
+              </h2>
+            </div>
+            <p className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+              Datos que comparten todos los agentes de {project.name}. Se envian en cada chat, analisis y flujo.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-[var(--bg-tertiary)]">
+            <X className="h-4 w-4" style={{ color: 'var(--text-muted)' }} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {SHARED_CONTEXT_SECTIONS.map(({ key, title, placeholder }) => (
+            <div key={key}>
+              <label className="text-xs font-medium mb-1.5 block" style={{ color: 'var(--text-secondary)' }}>
+                {title}
+              </label>
+              <textarea
+                value={sections[key]}
+                onChange={e => setSections({ ...sections, [key]: e.target.value })}
+                placeholder={placeholder}
+                rows={key === 'bio' || key === 'faqs' ? 4 : 3}
+                className="w-full px-3 py-2 text-sm rounded-lg resize-y"
+                style={{
+                  background: 'var(--bg-tertiary)',
+                  border: '1px solid var(--border-subtle)',
+                  color: 'var(--text-primary)',
+                }}
+              />
+            </div>
+          ))}
+
+          {/* Consistency with the agents' prompts */}
+          {hasContent && (
+            <div>
+              <label className="text-xs font-medium mb-1.5 block" style={{ color: 'var(--text-secondary)' }}>
+                Consistencia con los prompts
+              </label>
+              {results.length === 0 ? (
+                <div
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs"
+                  style={{ background: 'var(--success-subtle)', color: 'var(--success)' }}
+                >
+                  <CheckCircle className="h-3.5 w-3.5 shrink-0" />
+                  Los precios y links de los prompts coinciden con el contexto
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {results.map(({ agent, issues }) => (
+                    <div
+                      key={agent.id}
+                      className="rounded-lg p-3 space-y-2"
+                      style={{ background: 'var(--warning-subtle)', border: '1px solid var(--border-subtle)' }}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 text-xs font-medium" style={{ color: 'var(--warning)' }}>
+                          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                          {agent.name}: {issues.length} {issues.length === 1 ? 'diferencia' : 'diferencias'}
+                        </div>
+                        <button
+                          onClick={() => onOpenAgent(agent.id)}
+                          className="flex items-center gap-1 text-[11px] px-2 py-0.5 rounded-md transition-colors"
+                          style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+                        >
+                          Abrir
+                          <ArrowRight className="h-3 w-3" />
+                        </button>
+                      </div>
+                      {issues.map((issue, i) => {
+                        const prompt = agent.currentPrompt;
+                        const before = prompt.slice(Math.max(0, issue.startIndex - SNIPPET_RADIUS), issue.startIndex);
+                        const after = prompt.slice(issue.endIndex, issue.endIndex + SNIPPET_RADIUS);
+                        return (
+                          <div key={i} className="text-xs space-y-0.5">
+                            <p className="font-mono truncate" style={{ color: 'var(--text-secondary)' }}>
+                              ...{before}
+                              <span className="font-semibold" style={{ color: 'var(--warning)' }}>{issue.value}</span>
+                              {after}...
+                            </p>
+                            <p style={{ color: 'var(--text-muted)' }}>
+                              {issue.kind === 'price' ? 'Precios del contexto' : 'Link del contexto'}: {issue.expected.join(', ')}
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t" style={{ borderColor: 'var(--border-subtle)' }}>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm rounded-lg transition-colors"
+            style={{
+              background: 'var(--bg-tertiary)',
+              color: 'var(--text-secondary)',
+            }}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className="px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-40"
+            style={{
+              background: 'var(--accent-primary)',
+              color: 'var(--bg-primary)',
+            }}
+          >
+            Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
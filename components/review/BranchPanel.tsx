@@ -0,0 +1,291 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Plus, X, GitBranch, ArrowUpCircle, GitPullRequestArrow, Check } from 'lucide-react';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useToastStore } from '@/store/toastStore';
+import {
+  MAIN_BRANCH,
+  listBranches,
+  normalizeBranchName,
+  getBranchHead,
+  getCherryPickCandidates,
+} from '@/lib/utils/versionBranches';
+import type { PromptVersion } from '@/types/prompt';
+
+// One color per graph lane; lanes beyond the palette reuse it
+export const LANE_COLORS = ['var(--accent-primary)', 'var(--info)', 'var(--warning)', 'var(--success)', 'var(--error)'];
+
+export function laneColor(lane: number): string {
+  return LANE_COLORS[lane % LANE_COLORS.length];
+}
+
+interface BranchPanelProps {
+  versions: PromptVersion[];
+  branchLanes: Record<string, number>;
+}
+
+/**
+ * Named branches of the agent: switch, fork from the current head,
+ * promote a branch head to main or cherry-pick some of its changes.
+ */
+export function BranchPanel({ versions, branchLanes }: BranchPanelProps) {
+  const {
+    currentBranch,
+    hasUnsavedChanges,
+    checkoutBranch,
+    createBranch,
+    promoteBranch,
+    cherryPickToMain,
+  } = useAnalysisStore();
+  const { addToast } = useToastStore();
+  const [isCreating, setIsCreating] = useState(false);
+  const [newBranchName, setNewBranchName] = useState('');
+  const [promoteConfirm, setPromoteConfirm] = useState<string | null>(null);
+  const [cherryBranch, setCherryBranch] = useState<string | null>(null);
+  const [selectedPicks, setSelectedPicks] = useState<Set<string>>(new Set());
+
+  const branches = useMemo(() => listBranches(versions), [versions]);
+  const candidates = useMemo(
+    () => (cherryBranch ? getCherryPickCandidates(versions, cherryBranch) : []),
+    [versions, cherryBranch]
+  );
+  const normalizedName = normalizeBranchName(newBranchName, versions);
+
+  // Every branch action replaces the editor content
+  const guardUnsaved = () => {
+    if (hasUnsavedChanges) {
+      addToast('Guardá una versión antes de cambiar de rama', 'warning');
+      return false;
+    }
+    return true;
+  };
+
+  const handleCreate = () => {
+    const head = getBranchHead(versions, currentBranch);
+    if (!normalizedName || !head || !guardUnsaved()) return;
+    createBranch(normalizedName, head.id);
+    addToast(`Rama "${normalizedName}" creada`, 'success');
+    setNewBranchName('');
+    setIsCreating(false);
+  };
+
+  const handleCheckout = (name: string) => {
+    if (!guardUnsaved()) return;
+    checkoutBranch(name);
+    addToast(`Trabajando en "${name}"`, 'info');
+  };
+
+  const handlePromote = (name: string) => {
+    if (!guardUnsaved()) return;
+    promoteBranch(name);
+    setPromoteConfirm(null);
+    addToast(`"${name}" promovida a ${MAIN_BRANCH}`, 'success');
+  };
+
+  const handleCherryPick = () => {
+    if (!cherryBranch || !guardUnsaved()) return;
+    const picks = candidates.filter(c => selectedPicks.has(c.id));
+    if (picks.length === 0) return;
+    cherryPickToMain(cherryBranch, picks);
+    addToast(`${picks.length} ${picks.length === 1 ? 'cambio aplicado' : 'cambios aplicados'} en ${MAIN_BRANCH}`, 'success');
+    setCherryBranch(null);
+    setSelectedPicks(new Set());
+  };
+
+  const togglePick = (id: string) => {
+    setSelectedPicks(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const inputStyle = {
+    background: 'var(--bg-primary)',
+    border: '1px solid var(--border-subtle)',
+    color: 'var(--text-primary)',
+  };
+
+  const secondaryButtonStyle = {
+    background: 'var(--bg-elevated)',
+    color: 'var(--text-secondary)',
+    border: '1px solid var(--border-subtle)',
+  };
+
+  return (
+    <div
+      className="px-4 py-3 border-b space-y-2"
+      style={{ background: 'var(--bg-tertiary)', borderColor: 'var(--border-subtle)' }}
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+          Ramas ({branches.length})
+        </p>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors"
+            style={{ color: 'var(--accent-primary)', border: '1px solid var(--border-subtle)' }}
+          >
+            <Plus className="h-3 w-3" />
+            Nueva rama
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="flex items-center gap-1.5">
+          <input
+            value={newBranchName}
+            onChange={(e) => setNewBranchName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder={`Desde ${currentBranch} (ej: experimento: saludo corto)`}
+            autoFocus
+            className="flex-1 min-w-0 px-2.5 py-1.5 text-xs rounded-lg outline-none"
+            style={inputStyle}
+          />
+          <button
+            onClick={() => { setIsCreating(false); setNewBranchName(''); }}
+            className="p-1.5 rounded-md transition-colors"
+            style={secondaryButtonStyle}
+          >
+            <X className="h-3 w-3" />
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!normalizedName}
+            className="px-2.5 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50"
+            style={{ background: 'var(--accent-primary)', color: '#0a0e14' }}
+          >
+            Crear
+          </button>
+        </div>
+      )}
+
+      {branches.map((branch) => {
+        const isCurrent = branch.name === currentBranch;
+        const color = laneColor(branchLanes[branch.name] ?? 0);
+        return (
+          <div
+            key={branch.name}
+            className="p-2 rounded-lg space-y-1.5"
+            style={{ background: 'var(--bg-elevated)', border: `1px solid ${isCurrent ? 'var(--border-accent)' : 'var(--border-subtle)'}` }}
+          >
+            <div className="flex items-start gap-2">
+              <GitBranch className="h-3.5 w-3.5 mt-0.5 shrink-0" style={{ color }} />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                  {branch.name}
+                  {isCurrent && (
+                    <span className="ml-1.5 text-[10px] font-normal" style={{ color: 'var(--accent-primary)' }}>
+                      actual
+                    </span>
+                  )}
+                </p>
+                <p className="text-[10px] truncate" style={{ color: 'var(--text-tertiary)' }}>
+                  {branch.versionCount} {branch.versionCount === 1 ? 'versión' : 'versiones'} · {branch.head.label}
+                  {branch.forkedFrom && ` · desde ${branch.forkedFrom.label}`}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {!isCurrent && (
+                  <button
+                    onClick={() => handleCheckout(branch.name)}
+                    className="px-2 py-0.5 text-[11px] rounded-md transition-colors"
+                    style={secondaryButtonStyle}
+                  >
+                    Cambiar
+                  </button>
+                )}
+                {branch.name !== MAIN_BRANCH && (
+                  <>
+                    <button
+                      onClick={() => setPromoteConfirm(promoteConfirm === branch.name ? null : branch.name)}
+                      className="p-1 rounded-md transition-colors"
+                      style={secondaryButtonStyle}
+                      title={`Promover a ${MAIN_BRANCH}`}
+                    >
+                      <ArrowUpCircle className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setCherryBranch(cherryBranch === branch.name ? null : branch.name);
+                        setSelectedPicks(new Set());
+                      }}
+                      className="p-1 rounded-md transition-colors"
+                      style={cherryBranch === branch.name
+                        ? { ...secondaryButtonStyle, color: 'var(--accent-primary)', border: '1px solid var(--border-accent)' }
+                        : secondaryButtonStyle}
+                      title={`Traer cambios puntuales a ${MAIN_BRANCH}`}
+                    >
+                      <GitPullRequestArrow className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {promoteConfirm === branch.name && (
+              <div className="flex items-center gap-2 p-2 rounded-lg" style={{ background: 'var(--warning-subtle)' }}>
+                <p className="flex-1 text-[11px]" style={{ color: 'var(--text-secondary)' }}>
+                  El prompt de {MAIN_BRANCH} pasa a ser el de &quot;{branch.head.label}&quot;. Se guarda como versión nueva.
+                </p>
+                <button
+                  onClick={() => handlePromote(branch.name)}
+                  className="px-2.5 py-1 text-xs font-medium rounded-md transition-colors shrink-0"
+                  style={{ background: 'var(--accent-primary)', color: '#0a0e14' }}
+                >
+                  Promover
+                </button>
+              </div>
+            )}
+
+            {cherryBranch === branch.name && (
+              <div className="space-y-1">
+                {candidates.length === 0 ? (
+                  <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+                    Esta rama no tiene cambios registrados que se puedan ubicar en una sección
+                  </p>
+                ) : (
+                  candidates.map((candidate) => (
+                    <label
+                      key={candidate.id}
+                      className="flex items-start gap-2 p-1.5 rounded-md text-[11px] cursor-pointer"
+                      style={{ background: 'var(--bg-tertiary)' }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedPicks.has(candidate.id)}
+                        onChange={() => togglePick(candidate.id)}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0">
+                        <p style={{ color: 'var(--text-secondary)' }}>{candidate.change.description}</p>
+                        <p style={{ color: 'var(--text-muted)' }}>
+                          {candidate.sectionTitles.join(', ')} · {candidate.version.label}
+                        </p>
+                      </div>
+                    </label>
+                  ))
+                )}
+                {candidates.length > 0 && (
+                  <button
+                    onClick={handleCherryPick}
+                    disabled={selectedPicks.size === 0}
+                    className="flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50"
+                    style={{ background: 'var(--accent-primary)', color: '#0a0e14' }}
+                  >
+                    <Check className="h-3 w-3" />
+                    Aplicar en {MAIN_BRANCH} ({selectedPicks.size})
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Plus, Trash2, MessageSquare, X } from 'lucide-react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import { parseGoldenTranscript } from '@/lib/utils/regressionRunner';
+
+/**
+ * Manage the agent's golden conversations: pasted real transcripts tagged with
+ * the expected behavior, replayed by the regression runner.
+ */
+export function GoldenConversationsPanel() {
+  const { getCurrentAgent, currentProjectId, addGoldenConversation, deleteGoldenConversation } = useKnowledgeStore();
+  const { addToast } = useToastStore();
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [transcriptText, setTranscriptText] = useState('');
+  const [expectedBehavior, setExpectedBehavior] = useState('');
+
+  const agent = getCurrentAgent();
+  const conversations = agent?.goldenConversations || [];
+
+  const parsedTurns = useMemo(() => parseGoldenTranscript(transcriptText), [transcriptText]);
+  const agentTurns = parsedTurns.filter(t => t.role === 'agent').length;
+  const canSave = name.trim().length > 0 && agentTurns > 0 && parsedTurns.some(t => t.role === 'lead');
+
+  const resetForm = () => {
+    setName('');
+    setTranscriptText('');
+    setExpectedBehavior('');
+    setIsAdding(false);
+  };
+
+  const handleSave = () => {
+    if (!currentProjectId || !agent || !canSave) return;
+    addGoldenConversation(currentProjectId, agent.id, {
+      name: name.trim(),
+      transcript: parsedTurns,
+      expectedBehavior: expectedBehavior.trim(),
+    });
+    addToast('Conversación guardada en la suite de regresión', 'success');
+    resetForm();
+  };
+
+  const inputStyle = {
+    background: 'var(--bg-primary)',
+    border: '1px solid var(--border-subtle)',
+    color: 'var(--text-primary)',
+  };
+
+  return (
+    <div
+      className="px-4 py-3 border-b space-y-2"
+      style={{ background: 'var(--bg-tertiary)', borderColor: 'var(--border-subtle)' }}
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium" style={{ color: 'var(--text-secondary)' }}>
+          Conversaciones golden ({conversations.length})
+        </p>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors"
+            style={{ color: 'var(--accent-primary)', border: '1px solid var(--border-subtle)' }}
+          >
+            <Plus className="h-3 w-3" />
+            Agregar
+          </button>
+        )}
+      </div>
+
+      {conversations.length === 0 && !isAdding && (
+        <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+          Pegá conversaciones problemáticas del cliente para verificar que cada versión nueva las siga resolviendo bien.
+        </p>
+      )}
+
+      {conversations.map((conversation) => (
+        <div
+          key={conversation.id}
+          className="flex items-start gap-2 p-2 rounded-lg"
+          style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+        >
+          <MessageSquare className="h-3.5 w-3.5 mt-0.5 shrink-0" style={{ color: 'var(--text-muted)' }} />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+              {conversation.name}
+            </p>
+            <p className="text-[10px] line-clamp-2" style={{ color: 'var(--text-tertiary)' }}>
+              {conversation.transcript.length} mensajes
+              {conversation.expectedBehavior && ` · ${conversation.expectedBehavior}`}
+            </p>
+          </div>
+          <button
+            onClick={() => currentProjectId && agent && deleteGoldenConversation(currentProjectId, agent.id, conversation.id)}
+            className="p-1 rounded transition-colors"
+            style={{ color: 'var(--text-muted)' }}
+            title="Eliminar conversación"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+
+      {isAdding && (
+        <div className="space-y-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nombre (ej: Lead pregunta precio 3 veces)"
+            className="w-full px-2.5 py-1.5 text-xs rounded-lg outline-none"
+            style={inputStyle}
+          />
+          <textarea
+            value={transcriptText}
+            onChange={(e) => setTranscriptText(e.target.value)}
+            placeholder={'Lead: hola, cuánto sale?\nAgente: ¡Hola! Antes de pasarte info...'}
+            rows={6}
+            className="w-full px-2.5 py-1.5 text-xs font-mono rounded-lg outline-none resize-y"
+            style={inputStyle}
+          />
+          <textarea
+            value={expectedBehavior}
+            onChange={(e) => setExpectedBehavior(e.target.value)}
+            placeholder="Comportamiento esperado (ej: no dar precio antes de calificar)"
+            rows={2}
+            className="w-full px-2.5 py-1.5 text-xs rounded-lg outline-none resize-y"
+            style={inputStyle}
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+              {parsedTurns.length > 0
+                ? `${parsedTurns.length} mensajes · ${agentTurns} del agente`
+                : 'Usá "Lead:" y "Agente:" al inicio de cada mensaje'}
+            </span>
+            <div className="flex gap-1.5">
+              <button
+                onClick={resetForm}
+                className="flex items-center gap-1 px-2.5 py-1 text-xs rounded-md transition-colors"
+                style={{
+                  background: 'var(--bg-elevated)',
+                  color: 'var(--text-secondary)',
+                  border: '1px solid var(--border-subtle)',
+                }}
+              >
+                <X className="h-3 w-3" />
+                Cancelar
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!canSave}
+                className="px-2.5 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50"
+                style={{ background: 'var(--accent-primary)', color: '#0a0e14' }}
+              >
+                Guardar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
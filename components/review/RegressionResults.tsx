@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, XCircle, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  RUBRIC_CRITERIA,
+  type GoldenResultStatus,
+  type RegressionRun,
+} from '@/types/regression';
+
+interface RegressionResultsProps {
+  run: RegressionRun;
+  previousRun?: RegressionRun;   // Run of the previous version, to flag regressions
+}
+
+const statusConfig: Record<GoldenResultStatus, { icon: typeof CheckCircle; color: string; bg: string }> = {
+  passed: { icon: CheckCircle, color: 'var(--success)', bg: 'var(--success-subtle)' },
+  failed: { icon: XCircle, color: 'var(--error)', bg: 'var(--error-subtle)' },
+  error: { icon: AlertTriangle, color: 'var(--warning)', bg: 'var(--warning-subtle)' },
+};
+
+export function RegressionResults({ run, previousRun }: RegressionResultsProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-1">
+      {run.results.map((result) => {
+        const config = statusConfig[result.status];
+        const StatusIcon = config.icon;
+        const isExpanded = expandedId === result.conversationId;
+        const previous = previousRun?.results.find(r => r.conversationId === result.conversationId);
+        const isRegression = previous?.status === 'passed' && result.status !== 'passed';
+
+        return (
+          <div
+            key={result.conversationId}
+            className="rounded-lg text-xs"
+            style={{ background: 'var(--bg-tertiary)' }}
+          >
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : result.conversationId)}
+              className="w-full flex items-center gap-2 p-2 text-left"
+            >
+              <StatusIcon className="h-3.5 w-3.5 shrink-0" style={{ color: config.color }} />
+              <span className="flex-1 min-w-0 truncate" style={{ color: 'var(--text-secondary)' }}>
+                {result.conversationName}
+              </span>
+              {isRegression && (
+                <span
+                  className="text-[10px] px-1.5 py-0.5 rounded font-medium"
+                  style={{ background: 'var(--error-subtle)', color: 'var(--error)' }}
+                  title="La versión anterior pasaba esta conversación"
+                >
+                  regresión
+                </span>
+              )}
+              {result.status !== 'error' && (
+                <span
+                  className="text-[10px] px-1.5 py-0.5 rounded font-medium"
+                  style={{ background: config.bg, color: config.color }}
+                >
+                  {result.score}
+                  {previous && previous.status !== 'error' && previous.score !== result.score && (
+                    <> ({result.score > previous.score ? '+' : ''}{result.score - previous.score})</>
+                  )}
+                </span>
+              )}
+              {isExpanded ? (
+                <ChevronDown className="h-3 w-3 shrink-0" style={{ color: 'var(--text-muted)' }} />
+              ) : (
+                <ChevronRight className="h-3 w-3 shrink-0" style={{ color: 'var(--text-muted)' }} />
+              )}
+            </button>
+
+            {isExpanded && (
+              <div className="px-2 pb-2 space-y-2">
+                {result.error && (
+                  <p style={{ color: 'var(--warning)' }}>{result.error}</p>
+                )}
+
+                {result.rubric.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {result.rubric.map((r) => (
+                      <span
+                        key={r.criterion}
+                        className="text-[10px] px-1.5 py-0.5 rounded"
+                        style={{
+                          background: 'var(--bg-elevated)',
+                          color: r.score >= 4 ? 'var(--success)' : r.score >= 3 ? 'var(--text-secondary)' : 'var(--error)',
+                        }}
+                        title={r.comment}
+                      >
+                        {RUBRIC_CRITERIA[r.criterion]}: {r.score}/5
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {result.reasoning && (
+                  <p className="italic" style={{ color: 'var(--text-tertiary)' }}>{result.reasoning}</p>
+                )}
+
+                {result.turns.map((turn) => (
+                  <div
+                    key={turn.turnIndex}
+                    className="rounded-lg p-2 space-y-1"
+                    style={{ background: 'var(--bg-primary)', border: '1px solid var(--border-subtle)' }}
+                  >
+                    <p style={{ color: 'var(--text-tertiary)' }}>
+                      <strong>Lead:</strong> {turn.leadMessage}
+                    </p>
+                    <p className="whitespace-pre-wrap" style={{ color: 'var(--text-secondary)' }}>
+                      <strong>Esperada:</strong> {turn.expectedReply}
+                    </p>
+                    <p className="whitespace-pre-wrap" style={{ color: 'var(--accent-primary)' }}>
+                      <strong>Nueva:</strong> {turn.actualReply}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
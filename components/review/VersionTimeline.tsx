@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
 import { useAnalysisStore } from '@/store/analysisStore';
 import { formatDistanceToNow } from 'date-fns';
@@ -16,20 +16,63 @@ import {
   Edit,
   Clock,
   AlertTriangle,
+  FlaskConical,
+  Loader2,
+  GitFork,
 } from 'lucide-react';
 import { useToastStore } from '@/store/toastStore';
+import { useRegressionRunner } from '@/lib/hooks/useRegressionRunner';
+import { GoldenConversationsPanel } from './GoldenConversationsPanel';
+import { RegressionResults } from './RegressionResults';
+import { BranchPanel, laneColor } from './BranchPanel';
+import {
+  MAIN_BRANCH,
+  getBranchName,
+  listBranches,
+  layoutVersionGraph,
+  normalizeBranchName,
+} from '@/lib/utils/versionBranches';
 import type { PromptVersion } from '@/types/prompt';
 
+// Graph geometry: lane centers and the vertical position of each version's dot
+const LANE_SPACING = 16;
+const FIRST_LANE_X = 26;
+const DOT_Y = 24;
+
+function laneX(lane: number): number {
+  return FIRST_LANE_X + lane * LANE_SPACING;
+}
+
 export function VersionTimeline() {
-  const { getCurrentAgent, currentProjectId, saveVersionToProject } = useKnowledgeStore();
-  const { setPrompt, currentPrompt } = useAnalysisStore();
+  const { getCurrentAgent } = useKnowledgeStore();
+  const {
+    currentPrompt,
+    promptHistory,
+    currentBranch,
+    hasUnsavedChanges,
+    createVersion,
+    restoreVersion,
+    createBranch,
+  } = useAnalysisStore();
   const { addToast } = useToastStore();
   const [expandedVersionId, setExpandedVersionId] = useState<string | null>(null);
   const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
   const [restoreConfirm, setRestoreConfirm] = useState<PromptVersion | null>(null);
+  const [showGolden, setShowGolden] = useState(false);
+  const [showBranches, setShowBranches] = useState(false);
+  const [forkVersionId, setForkVersionId] = useState<string | null>(null);
+  const [forkName, setForkName] = useState('');
+  const { runRegression, runningVersionId, progress } = useRegressionRunner();
 
   const agent = getCurrentAgent();
-  const versions = agent?.versions || [];
+  // The editor holds the open agent's versions; the agent copy lags behind the auto-save
+  const versions = promptHistory;
+  const goldenCount = agent?.goldenConversations?.length || 0;
+  const regressionRuns = agent?.regressionRuns || [];
+
+  const graph = useMemo(() => layoutVersionGraph(versions), [versions]);
+  const branchHeadIds = useMemo(() => new Set(listBranches(versions).map(b => b.head.id)), [versions]);
+  const graphWidth = laneX(Math.max(graph.laneCount, 1) - 1) + 14;
 
   if (versions.length === 0) {
     return (
@@ -53,8 +96,8 @@ export function VersionTimeline() {
     );
   }
 
-  // Sort versions by timestamp descending (newest first)
-  const sortedVersions = [...versions].sort((a, b) => b.timestamp - a.timestamp);
+  // Newest first, as laid out by the graph
+  const sortedVersions = graph.rows.map(row => row.version);
 
   const handleRestore = (version: PromptVersion) => {
     setRestoreConfirm(version);
@@ -64,16 +107,29 @@ export function VersionTimeline() {
     if (!restoreConfirm) return;
 
     // Create backup version before restoring
-    if (currentProjectId && currentPrompt.trim()) {
-      saveVersionToProject(currentProjectId, currentPrompt, 'Backup antes de restaurar');
+    if (currentPrompt.trim()) {
+      createVersion('Backup antes de restaurar', 'manual');
     }
 
-    setPrompt(restoreConfirm.content);
+    restoreVersion(restoreConfirm.id);
     setPreviewVersionId(null);
     setRestoreConfirm(null);
     addToast('Version restaurada (backup creado)', 'success');
   };
 
+  const handleFork = (version: PromptVersion) => {
+    const name = normalizeBranchName(forkName, versions);
+    if (!name) return;
+    if (hasUnsavedChanges) {
+      addToast('Guardá una versión antes de cambiar de rama', 'warning');
+      return;
+    }
+    createBranch(name, version.id);
+    setForkVersionId(null);
+    setForkName('');
+    addToast(`Rama "${name}" creada desde ${version.label}`, 'success');
+  };
+
   const handlePreview = (version: PromptVersion) => {
     if (previewVersionId === version.id) {
       setPreviewVersionId(null);
@@ -111,38 +167,96 @@ export function VersionTimeline() {
             Historial de Versiones
           </h3>
           <span className="badge badge-accent">{versions.length}</span>
+          <button
+            onClick={() => setShowBranches(!showBranches)}
+            className="ml-auto flex items-center gap-1.5 px-2 py-1 text-xs rounded-lg transition-colors max-w-[160px]"
+            style={{
+              background: showBranches ? 'var(--accent-subtle)' : 'var(--bg-elevated)',
+              color: showBranches ? 'var(--accent-primary)' : 'var(--text-secondary)',
+              border: `1px solid ${showBranches ? 'var(--border-accent)' : 'var(--border-subtle)'}`
+            }}
+            title="Ramas del agente"
+          >
+            <GitFork className="h-3 w-3 shrink-0" style={{ color: laneColor(graph.branchLanes[currentBranch] ?? 0) }} />
+            <span className="truncate">{currentBranch}</span>
+          </button>
+          <button
+            onClick={() => setShowGolden(!showGolden)}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs rounded-lg transition-colors"
+            style={{
+              background: showGolden ? 'var(--accent-subtle)' : 'var(--bg-elevated)',
+              color: showGolden ? 'var(--accent-primary)' : 'var(--text-secondary)',
+              border: `1px solid ${showGolden ? 'var(--border-accent)' : 'var(--border-subtle)'}`
+            }}
+            title="Conversaciones golden para tests de regresión"
+          >
+            <FlaskConical className="h-3 w-3" />
+            Regresión ({goldenCount})
+          </button>
         </div>
       </div>
 
+      {showBranches && <BranchPanel versions={versions} branchLanes={graph.branchLanes} />}
+      {showGolden && <GoldenConversationsPanel />}
+
       <div className="flex-1 overflow-y-auto">
         <div className="relative">
-          {/* Timeline line */}
-          <div
-            className="absolute left-6 top-0 bottom-0 w-0.5"
-            style={{ background: 'var(--border-subtle)' }}
-          />
-
-          {sortedVersions.map((version, index) => {
+          {graph.rows.map(({ version, lane, lines, forksIn }, index) => {
             const isCurrent = isCurrentVersion(version);
+            const isHead = branchHeadIds.has(version.id);
+            const branch = getBranchName(version);
+            const origin = version.originVersionId
+              ? versions.find(v => v.id === version.originVersionId)
+              : undefined;
             const isExpanded = expandedVersionId === version.id;
             const isPreviewing = previewVersionId === version.id;
+            const regressionRun = regressionRuns.find(r => r.versionId === version.id);
+            // Compare against the version this one was built on, not the previous row
+            const previousVersion = versions.find(v => v.id === version.parentVersionId) || sortedVersions[index + 1];
+            const previousRun = previousVersion
+              ? regressionRuns.find(r => r.versionId === previousVersion.id)
+              : undefined;
+            const passedCount = regressionRun?.results.filter(r => r.status === 'passed').length || 0;
+            const isRunningRegression = runningVersionId === version.id;
 
             return (
               <div key={version.id} className="relative">
-                {/* Timeline dot */}
+                {/* Branch graph */}
+                <svg
+                  className="absolute left-0 top-0 h-full pointer-events-none"
+                  width={graphWidth}
+                  style={{ overflow: 'visible' }}
+                >
+                  {lines.map((line) => (
+                    <g key={line.lane} stroke={laneColor(line.lane)} strokeWidth={2} opacity={0.5}>
+                      {line.up && <line x1={laneX(line.lane)} y1={0} x2={laneX(line.lane)} y2={DOT_Y} />}
+                      {line.down && <line x1={laneX(line.lane)} y1={DOT_Y} x2={laneX(line.lane)} y2="100%" />}
+                    </g>
+                  ))}
+                  {forksIn.map((fromLane) => (
+                    <path
+                      key={`fork-${fromLane}`}
+                      d={`M ${laneX(fromLane)} 0 C ${laneX(fromLane)} ${DOT_Y / 2}, ${laneX(lane)} ${DOT_Y / 2}, ${laneX(lane)} ${DOT_Y}`}
+                      fill="none"
+                      stroke={laneColor(fromLane)}
+                      strokeWidth={2}
+                      opacity={0.5}
+                    />
+                  ))}
+                </svg>
+
+                {/* Version dot */}
                 <div
-                  className="absolute left-4 w-5 h-5 rounded-full border-2 flex items-center justify-center z-10"
+                  className="absolute w-5 h-5 rounded-full border-2 flex items-center justify-center z-10"
                   style={{
+                    left: laneX(lane) - 10,
+                    top: DOT_Y - 10,
                     background: isCurrent
                       ? 'var(--accent-primary)'
-                      : index === 0
-                      ? 'var(--success)'
+                      : isHead
+                      ? laneColor(lane)
                       : 'var(--bg-elevated)',
-                    borderColor: isCurrent
-                      ? 'var(--accent-primary)'
-                      : index === 0
-                      ? 'var(--success)'
-                      : 'var(--border-default)'
+                    borderColor: isCurrent ? 'var(--accent-primary)' : laneColor(lane),
                   }}
                 >
                   {isCurrent && <div className="w-2 h-2 rounded-full" style={{ background: '#0a0e14' }} />}
@@ -150,8 +264,9 @@ export function VersionTimeline() {
 
                 {/* Content */}
                 <div
-                  className="ml-12 mr-4 py-3"
+                  className="mr-4 py-3"
                   style={{
+                    marginLeft: graphWidth + 8,
                     borderBottom: index !== sortedVersions.length - 1 ? '1px solid var(--border-subtle)' : 'none'
                   }}
                 >
@@ -177,6 +292,14 @@ export function VersionTimeline() {
                               actual
                             </span>
                           )}
+                          {branch !== MAIN_BRANCH && (
+                            <span
+                              className="text-[10px] px-1.5 py-0.5 rounded font-medium truncate max-w-[120px]"
+                              style={{ background: 'var(--bg-elevated)', color: laneColor(lane) }}
+                            >
+                              {branch}
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--text-tertiary)' }}>
                           <Clock className="h-3 w-3" />
@@ -191,6 +314,23 @@ export function VersionTimeline() {
                               · {version.changes.length} cambios
                             </span>
                           )}
+                          {origin && (
+                            <span className="truncate" style={{ color: 'var(--text-muted)' }}>
+                              · desde {getBranchName(origin)}
+                            </span>
+                          )}
+                          {regressionRun && (
+                            <span
+                              className="text-[10px] px-1.5 py-0.5 rounded font-medium"
+                              style={{
+                                background: passedCount === regressionRun.results.length ? 'var(--success-subtle)' : 'var(--error-subtle)',
+                                color: passedCount === regressionRun.results.length ? 'var(--success)' : 'var(--error)',
+                              }}
+                              title="Conversaciones golden que pasaron"
+                            >
+                              {passedCount}/{regressionRun.results.length}
+                            </span>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-1">
@@ -220,7 +360,7 @@ export function VersionTimeline() {
                                 <p style={{ color: 'var(--text-secondary)' }}>{change.description}</p>
                                 {change.justification && (
                                   <p className="mt-0.5 italic" style={{ color: 'var(--text-tertiary)' }}>
-                                    "{change.justification}"
+                                    &quot;{change.justification}&quot;
                                   </p>
                                 )}
                               </div>
@@ -256,8 +396,73 @@ export function VersionTimeline() {
                             Restaurar
                           </button>
                         )}
+                        <button
+                          onClick={() => setForkVersionId(forkVersionId === version.id ? null : version.id)}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg transition-colors"
+                          style={{
+                            background: 'var(--bg-elevated)',
+                            color: 'var(--text-secondary)',
+                            border: '1px solid var(--border-subtle)'
+                          }}
+                          title="Crear una rama a partir de esta versión"
+                        >
+                          <GitFork className="h-3 w-3" />
+                          Ramificar
+                        </button>
+                        <button
+                          onClick={() => runRegression(version)}
+                          disabled={goldenCount === 0 || !!runningVersionId}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg transition-colors disabled:opacity-50"
+                          style={{
+                            background: 'var(--bg-elevated)',
+                            color: 'var(--text-secondary)',
+                            border: '1px solid var(--border-subtle)'
+                          }}
+                          title={goldenCount === 0 ? 'Agregá conversaciones golden primero' : 'Reproducir las conversaciones golden con esta versión'}
+                        >
+                          {isRunningRegression ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <FlaskConical className="h-3 w-3" />
+                          )}
+                          {isRunningRegression
+                            ? `${progress.done}/${progress.total}`
+                            : regressionRun ? 'Repetir regresión' : 'Correr regresión'}
+                        </button>
                       </div>
 
+                      {/* Fork from this version */}
+                      {forkVersionId === version.id && (
+                        <div className="flex items-center gap-1.5">
+                          <input
+                            value={forkName}
+                            onChange={(e) => setForkName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleFork(version)}
+                            placeholder="Nombre de la rama (ej: experimento: saludo corto)"
+                            autoFocus
+                            className="flex-1 min-w-0 px-2.5 py-1.5 text-xs rounded-lg outline-none"
+                            style={{
+                              background: 'var(--bg-primary)',
+                              border: '1px solid var(--border-subtle)',
+                              color: 'var(--text-primary)',
+                            }}
+                          />
+                          <button
+                            onClick={() => handleFork(version)}
+                            disabled={!normalizeBranchName(forkName, versions)}
+                            className="px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                            style={{ background: 'var(--accent-primary)', color: '#0a0e14' }}
+                          >
+                            Crear rama
+                          </button>
+                        </div>
+                      )}
+
+                      {/* Regression results */}
+                      {regressionRun && (
+                        <RegressionResults run={regressionRun} previousRun={previousRun} />
+                      )}
+
                       {/* Restore confirmation dialog */}
                       {restoreConfirm?.id === version.id && (
                         <div
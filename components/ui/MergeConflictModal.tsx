@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { X, GitMerge, AlertTriangle, Eye, EyeOff } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useToastStore } from '@/store/toastStore';
+import { buildMergedPrompt, conflictText } from '@/lib/utils/threeWayMerge';
+import { applyReconciledPrompt } from '@/lib/supabase/reconcile';
+import type { ConflictChoice, PromptMergeConflict } from '@/types/merge';
+
+interface MergeConflictModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  ours: 'Mía',
+  theirs: 'La otra',
+  both: 'Ambas',
+};
+
+export function MergeConflictModal({ isOpen, onClose }: MergeConflictModalProps) {
+  const { mergeConflicts, projects } = useKnowledgeStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Conflicts of deleted agents are no longer actionable
+  const conflicts = mergeConflicts.filter(c =>
+    projects.some(p => p.id === c.projectId && p.agents.some(a => a.id === c.agentId))
+  );
+  const selected = conflicts.find(c => c.id === selectedId) || conflicts[0];
+
+  if (!isOpen) return null;
+
+  const agentName = (conflict: PromptMergeConflict) =>
+    projects.find(p => p.id === conflict.projectId)?.agents.find(a => a.id === conflict.agentId)?.name || 'Agente';
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className="fixed z-50 top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-4xl rounded-xl overflow-hidden animate-fadeIn flex flex-col max-h-[85vh]"
+        style={{
+          background: 'var(--bg-elevated)',
+          border: '1px solid var(--border-default)',
+          boxShadow: 'var(--shadow-lg)',
+        }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-4 py-3 border-b flex-shrink-0"
+          style={{ borderColor: 'var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg" style={{ background: 'var(--warning-subtle)' }}>
+              <GitMerge className="h-5 w-5" style={{ color: 'var(--warning)' }} />
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>
+                Conflictos de edición
+              </h3>
+              <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                Secciones que cambiaste vos y otro dispositivo a la vez
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg transition-colors hover:bg-[var(--bg-tertiary)]"
+          >
+            <X className="h-4 w-4" style={{ color: 'var(--text-muted)' }} />
+          </button>
+        </div>
+
+        {conflicts.length > 1 && (
+          <div
+            className="flex items-center gap-1 px-4 py-2 border-b flex-shrink-0 overflow-x-auto"
+            style={{ borderColor: 'var(--border-subtle)' }}
+          >
+            {conflicts.map((conflict) => (
+              <button
+                key={conflict.id}
+                onClick={() => setSelectedId(conflict.id)}
+                className="px-2.5 py-1 text-xs rounded-lg whitespace-nowrap transition-colors"
+                style={{
+                  background: conflict.id === selected?.id ? 'var(--accent-subtle)' : 'var(--bg-tertiary)',
+                  color: conflict.id === selected?.id ? 'var(--accent-primary)' : 'var(--text-secondary)',
+                }}
+              >
+                {agentName(conflict)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selected ? (
+          <ConflictResolver
+            key={selected.id}
+            conflict={selected}
+            agentName={agentName(selected)}
+            onDone={() => {
+              setSelectedId(null);
+              if (conflicts.length <= 1) onClose();
+            }}
+          />
+        ) : (
+          <div className="p-8 text-center">
+            <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+              No hay conflictos pendientes
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
+interface ConflictResolverProps {
+  conflict: PromptMergeConflict;
+  agentName: string;
+  onDone: () => void;
+}
+
+function ConflictResolver({ conflict, agentName, onDone }: ConflictResolverProps) {
+  const { projects, currentProjectId, dismissMergeConflict, updateAgent } = useKnowledgeStore();
+  const { currentPrompt } = useAnalysisStore();
+  const { addToast } = useToastStore();
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [showPreview, setShowPreview] = useState(false);
+
+  const project = projects.find(p => p.id === conflict.projectId);
+  const isOpenInEditor = currentProjectId === conflict.projectId && project?.currentAgentId === conflict.agentId;
+  const localPrompt = isOpenInEditor
+    ? currentPrompt
+    : project?.agents.find(a => a.id === conflict.agentId)?.currentPrompt ?? '';
+  const hasLocalChanges = localPrompt !== conflict.ours;
+
+  const merged = useMemo(() => {
+    const resolved: Record<string, string | null> = {};
+    for (const block of conflict.result.conflicts) {
+      const choice = choices[block.key];
+      if (choice) resolved[block.key] = conflictText(block, choice);
+    }
+    return buildMergedPrompt(conflict.result, resolved);
+  }, [conflict, choices]);
+
+  const handleApply = () => {
+    if (merged === null) return;
+    applyReconciledPrompt(conflict.projectId, conflict.agentId, merged);
+    dismissMergeConflict(conflict.id);
+    addToast(`Conflicto resuelto en "${agentName}"`, 'success');
+    onDone();
+  };
+
+  const handleKeepMine = () => {
+    // Push ours so the other device converges on it
+    updateAgent(conflict.projectId, conflict.agentId, { currentPrompt: localPrompt });
+    dismissMergeConflict(conflict.id);
+    addToast('Se mantuvo tu versión del prompt', 'info');
+    onDone();
+  };
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+          <span className="font-medium" style={{ color: 'var(--text-primary)' }}>{agentName}</span>
+          {' · '}
+          {conflict.source === 'version' ? `Versión "${conflict.theirsLabel}"` : conflict.theirsLabel}
+          {' · '}
+          {formatDistanceToNow(conflict.detectedAt, { addSuffix: true, locale: es })}
+          {conflict.result.blocks.length > conflict.result.conflicts.length && (
+            <span style={{ color: 'var(--text-muted)' }}>
+              {' · '}el resto de las secciones se combinó automáticamente
+            </span>
+          )}
+        </p>
+
+        {hasLocalChanges && (
+          <div
+            className="flex items-start gap-2 p-2.5 rounded-lg text-xs"
+            style={{ background: 'var(--warning-subtle)', color: 'var(--warning)' }}
+          >
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            Editaste el prompt después de detectar el conflicto. Al aplicar se reemplazan esos cambios.
+          </div>
+        )}
+
+        {conflict.result.conflicts.map((block) => (
+          <div
+            key={block.key}
+            className="rounded-lg text-xs"
+            style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-subtle)' }}
+          >
+            <div className="flex items-center gap-2 px-2.5 py-2">
+              <span className="flex-1 min-w-0 truncate font-medium" style={{ color: 'var(--text-primary)' }}>
+                {block.title}
+              </span>
+              {(Object.keys(CHOICE_LABELS) as ConflictChoice[]).map((choice) => {
+                const isSelected = choices[block.key] === choice;
+                return (
+                  <button
+                    key={choice}
+                    onClick={() => setChoices(prev => ({ ...prev, [block.key]: choice }))}
+                    className="px-2 py-1 text-[11px] rounded-md transition-colors"
+                    style={{
+                      background: isSelected ? 'var(--accent-primary)' : 'var(--bg-elevated)',
+                      color: isSelected ? '#0a0e14' : 'var(--text-secondary)',
+                    }}
+                  >
+                    {CHOICE_LABELS[choice]}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-2 gap-2 px-2.5 pb-2.5">
+              {[
+                { label: 'Tu versión', text: block.ours },
+                { label: 'Otro dispositivo', text: block.theirs },
+              ].map(({ label, text }) => (
+                <div key={label} className="min-w-0">
+                  <p className="text-[10px] uppercase tracking-wider mb-1" style={{ color: 'var(--text-muted)' }}>
+                    {label}
+                  </p>
+                  <pre
+                    className="text-[11px] font-mono whitespace-pre-wrap max-h-56 overflow-y-auto p-2 rounded-lg"
+                    style={{ background: 'var(--bg-primary)', color: text === null ? 'var(--text-muted)' : 'var(--text-secondary)' }}
+                  >
+                    {text === null ? '(sección eliminada)' : text}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {showPreview && merged !== null && (
+          <pre
+            className="text-[11px] font-mono whitespace-pre-wrap max-h-72 overflow-y-auto p-2 rounded-lg"
+            style={{ background: 'var(--bg-primary)', color: 'var(--text-secondary)', border: '1px solid var(--border-subtle)' }}
+          >
+            {merged}
+          </pre>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div
+        className="flex items-center gap-2 px-4 py-3 border-t flex-shrink-0"
+        style={{ borderColor: 'var(--border-subtle)' }}
+      >
+        <button
+          onClick={() => setShowPreview(!showPreview)}
+          disabled={merged === null}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg transition-colors disabled:opacity-50"
+          style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+        >
+          {showPreview ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+          {showPreview ? 'Ocultar resultado' : 'Ver resultado'}
+        </button>
+        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+          {Object.keys(choices).length}/{conflict.result.conflicts.length} resueltas
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={handleKeepMine}
+            className="px-3 py-1.5 text-xs rounded-lg transition-colors"
+            style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)', border: '1px solid var(--border-subtle)' }}
+          >
+            Descartar y mantener el mío
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={merged === null}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+            style={{ background: 'var(--accent-primary)', color: '#0a0e14' }}
+          >
+            <GitMerge className="h-3 w-3" />
+            Aplicar merge
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,15 +1,17 @@
 'use client';
 
 import { useKnowledgeStore } from '@/store/knowledgeStore';
-import { Cloud, CloudOff, RefreshCw, Check, AlertCircle, List } from 'lucide-react';
+import { Cloud, CloudOff, RefreshCw, Check, AlertCircle, List, GitMerge } from 'lucide-react';
 import { isSupabaseConfigured } from '@/lib/supabase/client';
 import { useState } from 'react';
 import { PendingOperationsModal } from './PendingOperationsModal';
+import { MergeConflictModal } from './MergeConflictModal';
 
 export function SyncStatus() {
-  const { sync, clearSyncError } = useKnowledgeStore();
+  const { sync, clearSyncError, mergeConflicts } = useKnowledgeStore();
   const { isOnline, isSyncing, lastSyncedAt, pendingOperations, syncError } = sync;
   const [showModal, setShowModal] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
 
   // Don't show anything if Supabase is not configured
   if (!isSupabaseConfigured()) {
@@ -18,11 +20,15 @@ export function SyncStatus() {
 
   const pendingCount = pendingOperations.length;
   const hasError = !!syncError;
+  const conflictCount = mergeConflicts.length;
 
   const getStatusIcon = () => {
     if (hasError) {
       return <AlertCircle className="h-4 w-4" style={{ color: 'var(--error)' }} />;
     }
+    if (conflictCount > 0) {
+      return <GitMerge className="h-4 w-4" style={{ color: 'var(--warning)' }} />;
+    }
     if (!isOnline) {
       return <CloudOff className="h-4 w-4" style={{ color: 'var(--text-muted)' }} />;
     }
@@ -39,6 +45,9 @@ export function SyncStatus() {
     if (hasError) {
       return 'Error';
     }
+    if (conflictCount > 0) {
+      return `${conflictCount} conflicto${conflictCount > 1 ? 's' : ''}`;
+    }
     if (!isOnline) {
       return 'Offline';
     }
@@ -69,7 +78,10 @@ export function SyncStatus() {
           background: hasError ? 'var(--error-subtle)' : 'var(--bg-tertiary)',
           border: `1px solid ${hasError ? 'rgba(248, 81, 73, 0.2)' : 'var(--border-subtle)'}`
         }}
-        onClick={() => hasError && clearSyncError()}
+        onClick={() => {
+          if (hasError) clearSyncError();
+          else if (conflictCount > 0) setShowConflicts(true);
+        }}
         title={hasError ? syncError : getStatusText()}
       >
         {getStatusIcon()}
@@ -119,6 +131,19 @@ export function SyncStatus() {
               </button>
             </>
           )}
+          {conflictCount > 0 && (
+            <button
+              onClick={() => setShowConflicts(true)}
+              className="w-full mt-2 py-1.5 px-2 rounded-md text-[10px] font-medium transition-colors flex items-center justify-center gap-1.5"
+              style={{
+                background: 'var(--warning-subtle)',
+                color: 'var(--warning)',
+              }}
+            >
+              <GitMerge className="h-3 w-3" />
+              Resolver conflictos ({conflictCount})
+            </button>
+          )}
           {hasError && (
             <div className="pt-2 mt-2" style={{ borderTop: '1px solid var(--border-subtle)' }}>
               <p className="text-[10px]" style={{ color: 'var(--error)' }}>{syncError}</p>
@@ -133,6 +158,10 @@ export function SyncStatus() {
         isOpen={showModal}
         onClose={() => setShowModal(false)}
       />
+      <MergeConflictModal
+        isOpen={showConflicts}
+        onClose={() => setShowConflicts(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useMemo, useRef } from 'react';
+import { Play, Square, Loader2, Trophy } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useToastStore } from '@/store/toastStore';
+import { buildComparisonInputs, summarizeComparison } from '@/lib/utils/promptComparison';
+import type { ComparisonInput, ComparisonSide, ComparisonTurnResult } from '@/types/comparison';
+
+interface PromptSource {
+  key: string;
+  label: string;
+  prompt: string;
+}
+
+// Keeps each batch cheap: every input is three model calls
+const MAX_INPUTS = 20;
+
+export function ABComparisonPanel() {
+  const { getCurrentProject, getCurrentAgent } = useKnowledgeStore();
+  const { currentPrompt } = useAnalysisStore();
+  const { addToast } = useToastStore();
+
+  const project = getCurrentProject();
+  const agent = getCurrentAgent();
+  const goldenConversations = agent?.goldenConversations || [];
+  const flowsWithCases = (agent?.flows || []).filter(f => (f.testCases?.length || 0) > 0);
+  const testCaseCount = flowsWithCases.reduce((sum, f) => sum + (f.testCases?.length || 0), 0);
+
+  const sources = useMemo<PromptSource[]>(() => {
+    const list: PromptSource[] = [];
+    if (currentPrompt.trim()) {
+      list.push({ key: 'current', label: 'Editor (prompt actual)', prompt: currentPrompt });
+    }
+    const versions = [...(agent?.versions || [])].sort((a, b) => b.timestamp - a.timestamp);
+    for (const version of versions) {
+      list.push({
+        key: `version:${version.id}`,
+        label: `${version.label} · ${formatDistanceToNow(version.timestamp, { addSuffix: true, locale: es })}`,
+        prompt: version.content,
+      });
+    }
+    for (const other of project?.agents || []) {
+      if (other.id === agent?.id || !other.currentPrompt.trim()) continue;
+      list.push({ key: `agent:${other.id}`, label: `Agente: ${other.name}`, prompt: other.currentPrompt });
+    }
+    return list;
+  }, [currentPrompt, agent, project]);
+
+  const [keyA, setKeyA] = useState(() => sources[1]?.key || sources[0]?.key || '');
+  const [keyB, setKeyB] = useState(() => sources[0]?.key || '');
+  const [leadMessagesText, setLeadMessagesText] = useState('');
+  const [includeGolden, setIncludeGolden] = useState(goldenConversations.length > 0);
+  const [includeTestCases, setIncludeTestCases] = useState(false);
+  const [inputs, setInputs] = useState<ComparisonInput[]>([]);
+  const [results, setResults] = useState<ComparisonTurnResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelledRef = useRef(false);
+
+  const sourceA = sources.find(s => s.key === keyA);
+  const sourceB = sources.find(s => s.key === keyB);
+  const pendingInputs = buildComparisonInputs(
+    leadMessagesText.split('\n'),
+    includeGolden ? goldenConversations : [],
+    includeTestCases ? flowsWithCases : []
+  );
+  const summary = results.length > 0 ? summarizeComparison(results) : null;
+
+  const handleRun = async () => {
+    if (!sourceA || !sourceB || pendingInputs.length === 0) return;
+    if (sourceA.prompt === sourceB.prompt) {
+      addToast('Los dos prompts son iguales', 'warning');
+      return;
+    }
+
+    const batch = pendingInputs.slice(0, MAX_INPUTS);
+    if (pendingInputs.length > MAX_INPUTS) {
+      addToast(`Se comparan los primeros ${MAX_INPUTS} mensajes`, 'info');
+    }
+
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setInputs(batch);
+    setResults([]);
+
+    try {
+      // Sequential so results appear as they come and a cancel stops the spend
+      for (const input of batch) {
+        if (cancelledRef.current) break;
+        const response = await fetch('/api/compare', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ input, promptA: sourceA.prompt, promptB: sourceB.prompt, sharedContext: project?.sharedContext }),
+        });
+        const data = await response.json();
+        const result: ComparisonTurnResult = response.ok
+          ? data.result
+          : { inputId: input.id, replyA: '', replyB: '', scoreA: 0, scoreB: 0, winner: 'tie', error: data.error || 'Error al comparar' };
+        setResults(prev => [...prev, result]);
+      }
+    } catch {
+      addToast('Error de conexion. Intenta de nuevo.', 'error');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selectStyle = {
+    background: 'var(--bg-primary)',
+    border: '1px solid var(--border-subtle)',
+    color: 'var(--text-primary)',
+  };
+
+  if (sources.length < 2) {
+    return (
+      <div className="h-full flex items-center justify-center p-6 text-center" style={{ background: 'var(--bg-secondary)' }}>
+        <p className="text-xs max-w-xs" style={{ color: 'var(--text-tertiary)' }}>
+          Hacen falta al menos dos versiones (o dos agentes con prompt) para comparar
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full" style={{ background: 'var(--bg-secondary)' }}>
+      {/* Setup */}
+      <div
+        className="flex-shrink-0 px-4 py-3 border-b space-y-2"
+        style={{ background: 'var(--bg-tertiary)', borderColor: 'var(--border-subtle)' }}
+      >
+        <div className="grid grid-cols-2 gap-2">
+          {(['A', 'B'] as ComparisonSide[]).map((side) => (
+            <label key={side} className="flex items-center gap-2 text-xs" style={{ color: 'var(--text-secondary)' }}>
+              <span className="font-semibold" style={{ color: 'var(--accent-primary)' }}>{side}</span>
+              <select
+                value={side === 'A' ? keyA : keyB}
+                onChange={(e) => (side === 'A' ? setKeyA : setKeyB)(e.target.value)}
+                disabled={isRunning}
+                className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded-lg outline-none"
+                style={selectStyle}
+              >
+                {sources.map((source) => (
+                  <option key={source.key} value={source.key}>{source.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <textarea
+          value={leadMessagesText}
+          onChange={(e) => setLeadMessagesText(e.target.value)}
+          disabled={isRunning}
+          placeholder={'Un mensaje del lead por línea\nhola! cuánto sale el programa?\nvi tu video, me interesa pero no tengo plata'}
+          rows={3}
+          className="w-full px-2.5 py-1.5 text-xs rounded-lg outline-none resize-y"
+          style={selectStyle}
+        />
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <label className="flex items-center gap-1.5 text-xs" style={{ color: 'var(--text-secondary)' }}>
+              <input
+                type="checkbox"
+                checked={includeGolden}
+                onChange={(e) => setIncludeGolden(e.target.checked)}
+                disabled={isRunning || goldenConversations.length === 0}
+              />
+              Incluir conversaciones golden ({goldenConversations.length})
+            </label>
+            <label
+              className="flex items-center gap-1.5 text-xs"
+              style={{ color: 'var(--text-secondary)' }}
+              title="Cada caso arranca con su mensaje inicial y el evaluador ve el comportamiento esperado y las señales de alerta"
+            >
+              <input
+                type="checkbox"
+                checked={includeTestCases}
+                onChange={(e) => setIncludeTestCases(e.target.checked)}
+                disabled={isRunning || testCaseCount === 0}
+              />
+              Incluir casos de prueba de los flujos ({testCaseCount})
+            </label>
+          </div>
+          {isRunning ? (
+            <button
+              onClick={() => { cancelledRef.current = true; }}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg transition-colors"
+              style={{ background: 'var(--bg-elevated)', color: 'var(--text-secondary)', border: '1px solid var(--border-subtle)' }}
+            >
+              <Square className="h-3 w-3" />
+              Detener ({results.length}/{inputs.length})
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={pendingInputs.length === 0 || !sourceA || !sourceB}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+              style={{ background: 'var(--accent-primary)', color: '#0a0e14' }}
+            >
+              <Play className="h-3 w-3" />
+              Comparar ({Math.min(pendingInputs.length, MAX_INPUTS)})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Aggregate */}
+      {summary && (
+        <div
+          className="flex-shrink-0 flex items-center gap-3 px-4 py-2 border-b text-xs"
+          style={{ borderColor: 'var(--border-subtle)', color: 'var(--text-secondary)' }}
+        >
+          <Trophy className="h-4 w-4" style={{ color: summary.winner === 'tie' ? 'var(--text-muted)' : 'var(--warning)' }} />
+          <span className="font-semibold" style={{ color: 'var(--text-primary)' }}>
+            {summary.winner === 'tie' ? 'Empate' : `Gana ${summary.winner}`}
+          </span>
+          <span>A {summary.winsA} · B {summary.winsB} · empates {summary.ties}</span>
+          <span style={{ color: 'var(--text-muted)' }}>
+            promedio A {summary.averageA} / B {summary.averageB}
+          </span>
+          {summary.errors > 0 && (
+            <span style={{ color: 'var(--warning)' }}>{summary.errors} con error</span>
+          )}
+        </div>
+      )}
+
+      {/* Per-input results */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {inputs.map((input) => {
+          const result = results.find(r => r.inputId === input.id);
+          return (
+            <div key={input.id} className="space-y-1.5">
+              <p className="text-xs font-medium" style={{ color: 'var(--text-tertiary)' }}>
+                {input.label}
+              </p>
+              {input.expectedBehavior && (
+                <p className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+                  Esperado: {input.expectedBehavior}
+                </p>
+              )}
+              {!result ? (
+                <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+                  {isRunning && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {isRunning ? 'Esperando...' : 'No ejecutado'}
+                </div>
+              ) : result.error ? (
+                <p className="text-xs" style={{ color: 'var(--warning)' }}>{result.error}</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['A', 'B'] as ComparisonSide[]).map((side) => {
+                      const isWinner = result.winner === side;
+                      return (
+                        <div
+                          key={side}
+                          className="rounded-lg p-2 text-xs"
+                          style={{
+                            background: 'var(--bg-tertiary)',
+                            border: `1px solid ${isWinner ? 'var(--success)' : 'var(--border-subtle)'}`,
+                          }}
+                        >
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="font-semibold" style={{ color: 'var(--accent-primary)' }}>{side}</span>
+                            <span
+                              className="text-[10px] px-1.5 py-0.5 rounded font-medium"
+                              style={{
+                                background: isWinner ? 'var(--success-subtle)' : 'var(--bg-elevated)',
+                                color: isWinner ? 'var(--success)' : 'var(--text-muted)',
+                              }}
+                            >
+                              {side === 'A' ? result.scoreA : result.scoreB}/10
+                            </span>
+                          </div>
+                          <p className="whitespace-pre-wrap" style={{ color: 'var(--text-secondary)' }}>
+                            {side === 'A' ? result.replyA : result.replyB}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {result.reasoning && (
+                    <p className="text-[11px] italic" style={{ color: 'var(--text-muted)' }}>{result.reasoning}</p>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, MessageSquare, GitCommit, ArrowUpDown } from 'lucide-react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import {
+  diffSections,
+  attributeSectionChanges,
+  getVersionsBetween,
+  type SectionDiffEntry,
+  type SectionDiffStatus,
+} from '@/lib/utils/sectionDiff';
+import type { ChatMessage } from '@/types/prompt';
+
+const STATUS_INFO: Record<SectionDiffStatus, { label: string; color: string; bg: string }> = {
+  added: { label: 'Nueva', color: 'var(--success)', bg: 'var(--success-subtle)' },
+  removed: { label: 'Eliminada', color: 'var(--error)', bg: 'var(--error-subtle)' },
+  modified: { label: 'Modificada', color: 'var(--warning)', bg: 'var(--warning-subtle)' },
+  moved: { label: 'Movida', color: 'var(--info)', bg: 'var(--info-subtle)' },
+  unchanged: { label: 'Sin cambios', color: 'var(--text-muted)', bg: 'var(--bg-elevated)' },
+};
+
+export function VersionDiffPanel() {
+  const { getCurrentAgent } = useKnowledgeStore();
+  const agent = getCurrentAgent();
+  const versions = useMemo(
+    () => [...(agent?.versions || [])].sort((a, b) => b.timestamp - a.timestamp),
+    [agent?.versions]
+  );
+
+  const [baseId, setBaseId] = useState(() => versions[1]?.id || '');
+  const [targetId, setTargetId] = useState(() => versions[0]?.id || '');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const base = versions.find(v => v.id === baseId);
+  const target = versions.find(v => v.id === targetId);
+
+  const entries = useMemo<SectionDiffEntry[]>(() => {
+    if (!base || !target) return [];
+    // Always diff older -> newer, whatever order the selects are in
+    const [from, to] = base.timestamp <= target.timestamp ? [base, target] : [target, base];
+    const between = getVersionsBetween(versions, from, to);
+
+    // Chat snapshots overlap between versions: dedupe and keep messages after the base
+    const messagesById = new Map<string, ChatMessage>();
+    for (const version of between) {
+      for (const message of version.chatHistory || []) {
+        if (message.timestamp > from.timestamp) messagesById.set(message.id, message);
+      }
+    }
+
+    return attributeSectionChanges(
+      diffSections(from.content, to.content),
+      between,
+      Array.from(messagesById.values())
+    );
+  }, [base, target, versions]);
+
+  const counts = entries.reduce((acc, e) => {
+    acc[e.status] = (acc[e.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<SectionDiffStatus, number>>);
+  const visible = showUnchanged ? entries : entries.filter(e => e.status !== 'unchanged');
+
+  const selectStyle = {
+    background: 'var(--bg-primary)',
+    border: '1px solid var(--border-subtle)',
+    color: 'var(--text-primary)',
+  };
+
+  if (versions.length < 2) {
+    return (
+      <div className="h-full flex items-center justify-center p-6 text-center" style={{ background: 'var(--bg-secondary)' }}>
+        <p className="text-xs max-w-xs" style={{ color: 'var(--text-tertiary)' }}>
+          Hacen falta al menos dos versiones para comparar su estructura
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full" style={{ background: 'var(--bg-secondary)' }}>
+      {/* Version pickers */}
+      <div
+        className="flex-shrink-0 px-4 py-3 border-b space-y-2"
+        style={{ background: 'var(--bg-tertiary)', borderColor: 'var(--border-subtle)' }}
+      >
+        <div className="grid grid-cols-2 gap-2">
+          {[
+            { label: 'Desde', value: baseId, onChange: setBaseId },
+            { label: 'Hasta', value: targetId, onChange: setTargetId },
+          ].map(({ label, value, onChange }) => (
+            <label key={label} className="flex items-center gap-2 text-xs" style={{ color: 'var(--text-secondary)' }}>
+              {label}
+              <select
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded-lg outline-none"
+                style={selectStyle}
+              >
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>{version.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {(['modified', 'added', 'removed', 'moved'] as SectionDiffStatus[]).map((status) => (
+            <span
+              key={status}
+              className="text-[10px] px-1.5 py-0.5 rounded font-medium"
+              style={{ background: STATUS_INFO[status].bg, color: STATUS_INFO[status].color }}
+            >
+              {counts[status] || 0} {STATUS_INFO[status].label.toLowerCase()}
+            </span>
+          ))}
+          <label className="ml-auto flex items-center gap-1.5 text-xs" style={{ color: 'var(--text-muted)' }}>
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+            />
+            Mostrar sin cambios ({counts.unchanged || 0})
+          </label>
+        </div>
+      </div>
+
+      {/* Sections */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-1.5">
+        {baseId === targetId ? (
+          <p className="text-xs text-center py-6" style={{ color: 'var(--text-muted)' }}>
+            Elegí dos versiones distintas
+          </p>
+        ) : visible.length === 0 ? (
+          <p className="text-xs text-center py-6" style={{ color: 'var(--text-muted)' }}>
+            No hay cambios estructurales entre estas versiones
+          </p>
+        ) : (
+          visible.map((entry) => (
+            <SectionDiffRow
+              key={entry.id}
+              entry={entry}
+              isExpanded={expandedId === entry.id}
+              onToggle={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SectionDiffRowProps {
+  entry: SectionDiffEntry;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+function SectionDiffRow({ entry, isExpanded, onToggle }: SectionDiffRowProps) {
+  const info = STATUS_INFO[entry.status];
+  const canExpand = entry.status !== 'unchanged' && entry.status !== 'moved';
+
+  return (
+    <div
+      className="rounded-lg text-xs"
+      style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-subtle)' }}
+    >
+      <button
+        onClick={canExpand ? onToggle : undefined}
+        className="w-full flex items-center gap-2 px-2.5 py-2 text-left"
+      >
+        {canExpand ? (
+          isExpanded ? (
+            <ChevronDown className="h-3 w-3 shrink-0" style={{ color: 'var(--text-muted)' }} />
+          ) : (
+            <ChevronRight className="h-3 w-3 shrink-0" style={{ color: 'var(--text-muted)' }} />
+          )
+        ) : (
+          <span className="w-3 shrink-0" />
+        )}
+        <span
+          className="text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0"
+          style={{ background: info.bg, color: info.color }}
+        >
+          {info.label}
+        </span>
+        <span className="flex-1 min-w-0 truncate font-medium" style={{ color: 'var(--text-primary)' }}>
+          {entry.title}
+          {entry.renamed && entry.before && (
+            <span className="font-normal" style={{ color: 'var(--text-muted)' }}> (antes: {entry.before.title})</span>
+          )}
+        </span>
+        {entry.moved && entry.status === 'modified' && (
+          <span title="También cambió de posición">
+            <ArrowUpDown className="h-3 w-3 shrink-0" style={{ color: 'var(--info)' }} />
+          </span>
+        )}
+        {entry.sources.length > 0 && (
+          <span className="text-[10px] shrink-0" style={{ color: 'var(--accent-primary)' }}>
+            {entry.sources.length} {entry.sources.length === 1 ? 'causa' : 'causas'}
+          </span>
+        )}
+        {(entry.addedWords > 0 || entry.removedWords > 0) && (
+          <span className="text-[10px] font-mono shrink-0">
+            <span style={{ color: 'var(--success)' }}>+{entry.addedWords}</span>{' '}
+            <span style={{ color: 'var(--error)' }}>-{entry.removedWords}</span>
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-2.5 pb-2.5 space-y-2">
+          <pre
+            className="text-[11px] font-mono whitespace-pre-wrap max-h-72 overflow-y-auto p-2 rounded-lg"
+            style={{ background: 'var(--bg-primary)', color: 'var(--text-secondary)' }}
+          >
+            {entry.wordDiff
+              ? entry.wordDiff.map((part, i) => (
+                  <span
+                    key={i}
+                    style={
+                      part.type === 'added'
+                        ? { background: 'var(--success-subtle)', color: 'var(--success)' }
+                        : part.type === 'removed'
+                        ? { background: 'var(--error-subtle)', color: 'var(--error)', textDecoration: 'line-through' }
+                        : undefined
+                    }
+                  >
+                    {part.text}
+                  </span>
+                ))
+              : (entry.after || entry.before)?.content}
+          </pre>
+
+          {entry.sources.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-muted)' }}>
+                Causado por
+              </p>
+              {entry.sources.map((source, i) => (
+                <div key={i} className="flex items-start gap-1.5">
+                  {source.kind === 'chat' ? (
+                    <MessageSquare className="h-3 w-3 mt-0.5 shrink-0" style={{ color: 'var(--accent-primary)' }} />
+                  ) : (
+                    <GitCommit className="h-3 w-3 mt-0.5 shrink-0" style={{ color: 'var(--info)' }} />
+                  )}
+                  <div className="min-w-0">
+                    <p style={{ color: 'var(--text-secondary)' }}>
+                      {source.description}
+                      {source.versionLabel && source.description !== source.versionLabel && (
+                        <span style={{ color: 'var(--text-muted)' }}> · {source.versionLabel}</span>
+                      )}
+                    </p>
+                    {source.reason && (
+                      <p className="italic" style={{ color: 'var(--text-tertiary)' }}>{source.reason}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
-import { X, GitBranch } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { X, GitBranch, Columns2, GitCompare } from 'lucide-react';
 import { VersionTimeline } from '@/components/review/VersionTimeline';
+import { ABComparisonPanel } from './ABComparisonPanel';
+import { VersionDiffPanel } from './VersionDiffPanel';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
 
 interface VersionHistoryModalProps {
@@ -14,6 +16,7 @@ export function VersionHistoryModal({ isOpen, onClose }: VersionHistoryModalProp
   const { getCurrentAgent } = useKnowledgeStore();
   const agent = getCurrentAgent();
   const versionsCount = agent?.versions?.length || 0;
+  const [activeTab, setActiveTab] = useState<'history' | 'diff' | 'compare'>('history');
 
   const handleEscape = useCallback((e: KeyboardEvent) => {
     if (e.key === 'Escape') {
@@ -45,7 +48,7 @@ export function VersionHistoryModal({ isOpen, onClose }: VersionHistoryModalProp
 
       {/* Modal */}
       <div
-        className="relative w-full max-w-xl max-h-[80vh] rounded-2xl overflow-hidden animate-fadeIn"
+        className={`relative w-full ${activeTab === 'history' ? 'max-w-xl' : activeTab === 'diff' ? 'max-w-3xl' : 'max-w-4xl'} max-h-[80vh] rounded-2xl overflow-hidden animate-fadeIn`}
         style={{
           background: 'var(--bg-secondary)',
           border: '1px solid var(--border-default)',
@@ -73,18 +76,45 @@ export function VersionHistoryModal({ isOpen, onClose }: VersionHistoryModalProp
               </p>
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 rounded-lg transition-colors"
-            style={{ color: 'var(--text-secondary)' }}
-          >
-            <X className="h-5 w-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            <div
+              className="flex rounded-lg p-0.5"
+              style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+            >
+              {([
+                { id: 'history', label: 'Historial', icon: GitBranch },
+                { id: 'diff', label: 'Diff por sección', icon: GitCompare },
+                { id: 'compare', label: 'Comparar A/B', icon: Columns2 },
+              ] as const).map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setActiveTab(id)}
+                  className="flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md transition-colors"
+                  style={{
+                    background: activeTab === id ? 'var(--accent-subtle)' : 'transparent',
+                    color: activeTab === id ? 'var(--accent-primary)' : 'var(--text-secondary)',
+                  }}
+                >
+                  <Icon className="h-3 w-3" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg transition-colors"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
         </div>
 
         {/* Content */}
         <div className="h-[60vh] overflow-hidden">
-          <VersionTimeline />
+          {activeTab === 'history' && <VersionTimeline />}
+          {activeTab === 'diff' && <VersionDiffPanel />}
+          {activeTab === 'compare' && <ABComparisonPanel />}
         </div>
       </div>
     </div>
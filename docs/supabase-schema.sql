@@ -10,6 +10,7 @@
 DROP TABLE IF EXISTS onboarding_progress CASCADE;
 DROP TABLE IF EXISTS learning_votes CASCADE;
 DROP TABLE IF EXISTS learning_comments CASCADE;
+DROP TABLE IF EXISTS flow_templates CASCADE;
 DROP TABLE IF EXISTS suggestion_decisions CASCADE;
 DROP TABLE IF EXISTS knowledge_entries CASCADE;
 DROP TABLE IF EXISTS prompt_versions CASCADE;
@@ -57,6 +58,7 @@ CREATE TABLE projects (
   tags TEXT[] NOT NULL DEFAULT '{}',
   current_agent_id UUID,  -- FK agregada después de crear tabla agents
   shared_context TEXT NOT NULL DEFAULT '',
+  flow_lint_config JSONB,       -- { rules: { [ruleId]: { enabled?, severity? } }, maxConsecutiveMessages? } | null
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -91,6 +93,8 @@ CREATE TABLE prompt_versions (
   content TEXT NOT NULL,
   label TEXT NOT NULL,
   parent_version_id UUID REFERENCES prompt_versions(id) ON DELETE SET NULL,
+  branch TEXT NOT NULL DEFAULT 'main',  -- rama con nombre ('main' o p.ej. 'experimento: saludo corto')
+  origin_version_id UUID REFERENCES prompt_versions(id) ON DELETE SET NULL,  -- versión de otra rama promovida / cherry-pick
   changes JSONB NOT NULL DEFAULT '[]',
   change_type TEXT,       -- 'manual' | 'suggestion_applied' | 'auto_save'
   change_details JSONB,   -- { suggestionId?, category?, sectionTitle? }
@@ -113,6 +117,10 @@ CREATE TABLE knowledge_entries (
   usage_count INTEGER NOT NULL DEFAULT 0,
   project_ids TEXT[] NOT NULL DEFAULT '{}',
   category TEXT,  -- KnowledgeCategory stored as text
+  relations JSONB NOT NULL DEFAULT '[]',  -- [{ type: 'supersedes' | 'refines' | 'conflicts_with', targetId }]
+  scope_kind TEXT NOT NULL DEFAULT 'global'
+    CHECK (scope_kind IN ('global', 'project', 'channel', 'niche')),
+  scope_value TEXT,  -- project id, channel type o tag de nicho (NULL si es global)
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -131,9 +139,27 @@ CREATE TABLE suggestion_decisions (
   category TEXT NOT NULL,
   severity TEXT NOT NULL,
   saved_to_knowledge BOOLEAN NOT NULL DEFAULT false,
+  agent_id UUID,                                  -- agente donde se tomó la decisión
+  knowledge_entry_ids TEXT[] NOT NULL DEFAULT '{}', -- aprendizajes que originaron la sugerencia
+  version_id UUID,                                -- versión guardada con el cambio
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Plantillas de flujo guardadas por el equipo (scoped por device)
+CREATE TABLE flow_templates (
+  id UUID PRIMARY KEY,
+  device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  flow_data JSONB NOT NULL,                -- { nodes: [], edges: [] } con placeholders {{clave}}
+  variables JSONB,                         -- FlowVariable[] | null
+  placeholders JSONB NOT NULL DEFAULT '[]', -- [{ key, label }]
+  source_flow_id TEXT,                     -- NamedFlow de origen (puede ya no existir)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- ============================================
 -- FASE 4: ÍNDICES
 -- ============================================
@@ -143,12 +169,17 @@ CREATE INDEX idx_projects_status ON projects(status);
 CREATE INDEX idx_agents_project ON agents(project_id);
 CREATE INDEX idx_versions_agent ON prompt_versions(agent_id);
 CREATE INDEX idx_versions_parent ON prompt_versions(parent_version_id);
+CREATE INDEX idx_versions_branch ON prompt_versions(agent_id, branch);
 CREATE INDEX idx_knowledge_device ON knowledge_entries(device_id);
 CREATE INDEX idx_knowledge_tags ON knowledge_entries USING GIN(tags);
 CREATE INDEX idx_knowledge_type ON knowledge_entries(type);
 CREATE INDEX idx_knowledge_category ON knowledge_entries(category);
+CREATE INDEX idx_knowledge_scope ON knowledge_entries(scope_kind, scope_value);
 CREATE INDEX idx_decisions_device ON suggestion_decisions(device_id);
 CREATE INDEX idx_decisions_project ON suggestion_decisions(project_id);
+CREATE INDEX idx_decisions_knowledge ON suggestion_decisions USING GIN(knowledge_entry_ids);
+CREATE INDEX idx_flow_templates_device ON flow_templates(device_id);
+CREATE INDEX idx_flow_templates_tags ON flow_templates USING GIN(tags);
 
 -- ============================================
 -- FASE 5: ROW LEVEL SECURITY
@@ -160,6 +191,7 @@ ALTER TABLE agents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE prompt_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE knowledge_entries ENABLE ROW LEVEL SECURITY;
 ALTER TABLE suggestion_decisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flow_templates ENABLE ROW LEVEL SECURITY;
 
 -- Políticas permisivas (autenticación via device_id a nivel app)
 CREATE POLICY "devices_all" ON devices FOR ALL USING (true);
@@ -168,6 +200,7 @@ CREATE POLICY "agents_all" ON agents FOR ALL USING (true);
 CREATE POLICY "versions_all" ON prompt_versions FOR ALL USING (true);
 CREATE POLICY "knowledge_all" ON knowledge_entries FOR ALL USING (true);
 CREATE POLICY "decisions_all" ON suggestion_decisions FOR ALL USING (true);
+CREATE POLICY "flow_templates_all" ON flow_templates FOR ALL USING (true);
 
 -- ============================================
 -- FASE 6: TRIGGERS
@@ -192,3 +225,7 @@ CREATE TRIGGER agents_updated_at
 CREATE TRIGGER knowledge_updated_at
   BEFORE UPDATE ON knowledge_entries
   FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER flow_templates_updated_at
+  BEFORE UPDATE ON flow_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
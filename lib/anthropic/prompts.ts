@@ -1,3 +1,5 @@
+import { buildSharedContextBlock } from '@/lib/utils/sharedContext';
+
 export const ANALYSIS_SYSTEM_PROMPT = `Eres un experto en prompt engineering con años de experiencia optimizando agentes conversacionales para plataformas de atención al cliente y ventas.
 
 Tu tarea es analizar prompts de agentes de IA y proporcionar un análisis profundo, accionable y estratégico.
@@ -256,7 +258,7 @@ Si detectas un problema pero no puedes identificar el texto exacto, es MEJOR no
 3. Los startIndex y endIndex deben corresponder a la posición REAL en el prompt
 4. Responde SIEMPRE con JSON válido, sin texto adicional antes o después del bloque \`\`\`json`;
 
-export const buildAnalysisUserPrompt = (prompt: string, textFeedback: string[]): string => {
+export const buildAnalysisUserPrompt = (prompt: string, textFeedback: string[], sharedContext?: string): string => {
   let userPrompt = '## Prompt a Analizar\n\n';
   userPrompt += '```\n' + prompt + '\n```';
 
@@ -268,6 +270,12 @@ export const buildAnalysisUserPrompt = (prompt: string, textFeedback: string[]):
     });
   }
 
+  const contextBlock = buildSharedContextBlock(sharedContext);
+  if (contextBlock) {
+    userPrompt += '\n\n' + contextBlock;
+    userPrompt += '\n\nSi el prompt contradice este contexto (precios, links, ofertas), reportalo como un problema.';
+  }
+
   userPrompt += '\n\nAnaliza este prompt en profundidad y responde con el JSON especificado.';
 
   return userPrompt;
@@ -331,12 +339,32 @@ El campo "originalText" DEBE ser una copia EXACTA del texto del prompt:
 
 Si el prompt está en español, responde en español. Si está en inglés, responde en inglés.`;
 
-export const buildOptimizationUserPrompt = (prompt: string): string => {
-  return `## Prompt a Optimizar
+export const buildOptimizationUserPrompt = (
+  prompt: string,
+  knownRedundancies: string[] = [],
+  sharedContext?: string
+): string => {
+  let userPrompt = `## Prompt a Optimizar
 
 \`\`\`
 ${prompt}
-\`\`\`
+\`\`\``;
 
-Analiza este prompt y sugiere optimizaciones para reducir tokens manteniendo la claridad. Responde con el JSON especificado.`;
+  if (knownRedundancies.length > 0) {
+    userPrompt += '\n\n## Redundancias ya detectadas\n\n';
+    userPrompt += 'Estas frases repetidas ya fueron detectadas localmente. NO sugieras cambios sobre ellas:\n\n';
+    knownRedundancies.forEach((phrase) => {
+      userPrompt += `- "${phrase}"\n`;
+    });
+  }
+
+  const contextBlock = buildSharedContextBlock(sharedContext);
+  if (contextBlock) {
+    userPrompt += '\n\n' + contextBlock;
+    userPrompt += '\n\nNo sugieras quitar del prompt ofertas, precios ni links que figuran en este contexto.';
+  }
+
+  userPrompt += '\n\nAnaliza este prompt y sugiere optimizaciones para reducir tokens manteniendo la claridad. Responde con el JSON especificado.';
+
+  return userPrompt;
 };
@@ -0,0 +1,30 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { SimulationModelClient } from '@/lib/utils/conversationSimulator';
+
+const MODEL = 'claude-sonnet-4-5-20250929';
+
+/**
+ * SimulationModelClient backed by the Anthropic API.
+ * Lead, agent and judge share the model; each call gets its own system prompt.
+ */
+export function createAnthropicSimulationClient(apiKey: string): SimulationModelClient {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    async complete({ system, messages, maxTokens }) {
+      const response = await client.messages.create({
+        model: MODEL,
+        max_tokens: maxTokens ?? 1000,
+        system,
+        messages,
+      });
+
+      const textContent = response.content.find((block) => block.type === 'text');
+      if (!textContent || textContent.type !== 'text') {
+        throw new Error('No text content in response');
+      }
+
+      return textContent.text;
+    },
+  };
+}
@@ -56,6 +56,7 @@ export function useAgentSync() {
     updateAgent(projectId, agentId, {
       currentPrompt: data.prompt,
       versions: data.versions,
+      currentBranch: data.currentBranch,
       annotations: data.annotations,
       chatMessages: data.chatMessages,
     });
@@ -76,6 +77,7 @@ export function useAgentSync() {
     loadAgentData({
       prompt: agent.currentPrompt || '',
       versions: agent.versions || [],
+      currentBranch: agent.currentBranch,
       annotations: agent.annotations || [],
       chatMessages: agent.chatMessages || [],
     });
@@ -8,11 +8,22 @@ import { parseFlowFromPrompt } from '@/lib/utils/flowParser';
 import { isFlowEmpty, insertAsciiFlowInPrompt } from '@/lib/utils/flowSerializer';
 import { detectAsciiFlow, parseAsciiFlow, getAsciiFlowBounds } from '@/lib/utils/asciiFlowParser';
 import { detectTextFlows } from '@/lib/utils/textFlowDetector';
+import { parseTextFlow } from '@/lib/utils/textFlowParser';
 import { flowDataToText } from '@/lib/utils/flowToText';
+import { createSubflowResolver, getSubflowSources } from '@/lib/utils/flowSubflows';
 import { findTextInPrompt } from '@/lib/utils/textMatcher';
+import {
+  detectFlowSourceFormat,
+  findHeaderSection,
+  locateFlowRegion,
+  mergeParsedFlow,
+  parseFlowRegion,
+  replaceFlowRegion,
+  serializeFlowRegion,
+} from '@/lib/utils/flowPromptSync';
 import { useToastStore } from '@/store/toastStore';
 import { migrateAgentToFlows } from '@/lib/migrations/migrateToFlows';
-import type { FlowSourceOrigin, FlowTextFormat, NamedFlow } from '@/types/flow';
+import type { FlowData, FlowSourceOrigin, FlowTextFormat, NamedFlow } from '@/types/flow';
 
 /**
  * Hook that synchronizes the flow store with agent.flows[] (multi-flow).
@@ -21,7 +32,10 @@ import type { FlowSourceOrigin, FlowTextFormat, NamedFlow } from '@/types/flow';
  * - On agent switch: migrates legacy flowData if needed, populates availableFlows, loads active flow
  * - On flow switch: saves current, loads target flow
  * - Auto-saves flow changes to the active NamedFlow (debounced)
- * - Extraction methods create individual NamedFlows (not merged)
+ * - Extraction methods create individual NamedFlows (not merged); text flows are parsed
+ *   locally and the model is only a fallback or an explicit refinement
+ * - Live sync (opt-in per flow): canvas edits rewrite the flow's region in the prompt
+ *   and edits to that region re-parse into the canvas; edits on both sides raise a conflict
  */
 export function useFlowSync() {
   const { currentPrompt, setPrompt } = useAnalysisStore();
@@ -41,7 +55,10 @@ export function useFlowSync() {
     markAsChanged,
     setActiveFlowId: setStoreActiveFlowId,
     setAvailableFlows,
+    flowSourceOrigin,
     setFlowSourceOrigin: setStoreFlowSourceOrigin,
+    flowSyncConflict,
+    setFlowSyncConflict,
   } = useFlowStore();
 
   const {
@@ -61,6 +78,8 @@ export function useFlowSync() {
 
   // Refs
   const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const canvasSyncTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const promptSyncTimerRef = useRef<NodeJS.Timeout | null>(null);
   const prevAgentKeyRef = useRef<string | null>(null);
   const prevFlowIdRef = useRef<string | null>(null);
   const isLoadingRef = useRef(false);
@@ -266,6 +285,184 @@ export function useFlowSync() {
     };
   }, [nodes, edges, hasUnsavedChanges, currentProjectId, currentAgentId, storeActiveFlowId, getFlowData, updateFlow, markAsSaved]);
 
+  /**
+   * Store the origin after a live sync, in the canvas and on the active NamedFlow.
+   */
+  const saveSyncedOrigin = useCallback((origin: FlowSourceOrigin) => {
+    setStoreFlowSourceOrigin(origin);
+    const activeId = useFlowStore.getState().activeFlowId;
+    if (currentProjectId && currentAgentId && activeId) {
+      updateFlow(currentProjectId, currentAgentId, activeId, { sourceOrigin: origin });
+    }
+  }, [setStoreFlowSourceOrigin, currentProjectId, currentAgentId, updateFlow]);
+
+  /**
+   * Live sync, canvas -> prompt: rewrite the flow's region with the canvas.
+   * If the region was also edited since the last sync (or is gone), flag a conflict
+   * unless `force` (the user chose the canvas).
+   */
+  const syncCanvasToPrompt = useCallback((force: boolean) => {
+    const { flowSourceOrigin: origin, availableFlows, activeFlowId } = useFlowStore.getState();
+    if (!origin?.format || !activeFlowId) return;
+
+    const flowData = getFlowData();
+    if (isFlowEmpty(flowData)) return;
+
+    const text = serializeFlowRegion(flowData, origin.format, origin.name, availableFlows, origin.rawText);
+    if (!force && text === origin.syncedFlowText) return;
+
+    const prompt = useAnalysisStore.getState().currentPrompt;
+    const region = locateFlowRegion(prompt, origin);
+    if (!force && (!region || region.text !== origin.rawText)) {
+      setFlowSyncConflict({ flowId: activeFlowId, promptText: region ? region.text : null });
+      return;
+    }
+
+    useAnalysisStore.getState().pushUndo();
+    setPrompt(region ? replaceFlowRegion(prompt, region, text) : `${prompt.trimEnd()}\n\n${text}`);
+    saveSyncedOrigin({
+      ...origin,
+      rawText: text,
+      headerAnchor: text.split('\n')[0].trim(),
+      syncedFlowText: text,
+    });
+  }, [getFlowData, setPrompt, setFlowSyncConflict, saveSyncedOrigin]);
+
+  /**
+   * Live sync, prompt -> canvas: re-parse the edited region and merge it into the canvas,
+   * keeping node ids and positions. If the canvas also changed since the last sync, flag
+   * a conflict unless `force` (the user chose the prompt). A region that doesn't read as
+   * a flow (half-typed, or a layout the parser doesn't know) is flagged as unreadable;
+   * the flag clears on the next edit that reads again.
+   */
+  const syncPromptToCanvas = useCallback((force: boolean) => {
+    const { flowSourceOrigin: origin, availableFlows, activeFlowId, flowSyncConflict: conflict } = useFlowStore.getState();
+    if (!origin?.format || !activeFlowId) return;
+
+    // A missing region is flagged by the canvas side on its next write
+    const region = locateFlowRegion(useAnalysisStore.getState().currentPrompt, origin);
+    if (!region) return;
+    if (!force && region.text === origin.rawText) {
+      if (conflict?.unreadable) setFlowSyncConflict(null);
+      return;
+    }
+
+    const parsed = parseFlowRegion(region.text, origin.format, origin.name, availableFlows);
+    if (!parsed) {
+      if (force) {
+        useToastStore.getState().addToast('No se pudo leer el flujo del prompt', 'error');
+      } else if (conflict?.promptText !== region.text) {
+        setFlowSyncConflict({ flowId: activeFlowId, promptText: region.text, unreadable: true });
+      }
+      return;
+    }
+    if (conflict?.unreadable) setFlowSyncConflict(null);
+
+    const current = getFlowData();
+    if (!force && serializeFlowRegion(current, origin.format, origin.name, availableFlows, origin.rawText) !== origin.syncedFlowText) {
+      setFlowSyncConflict({ flowId: activeFlowId, promptText: region.text });
+      return;
+    }
+
+    const merged = mergeParsedFlow(current, parsed, origin.format);
+    setFlowData(merged);
+    markAsChanged();
+    saveSyncedOrigin({
+      ...origin,
+      rawText: region.text,
+      headerAnchor: region.text.split('\n')[0].trim(),
+      syncedFlowText: serializeFlowRegion(merged, origin.format, origin.name, availableFlows, region.text),
+    });
+  }, [getFlowData, setFlowData, markAsChanged, setFlowSyncConflict, saveSyncedOrigin]);
+
+  /**
+   * Live sync triggers (debounced 500ms), paused while a conflict is open.
+   * An unreadable region only pauses the canvas side: prompt edits keep being read.
+   */
+  useEffect(() => {
+    if (isLoadingRef.current) return;
+    if (!flowSourceOrigin?.liveSync || flowSyncConflict) return;
+
+    if (canvasSyncTimerRef.current) {
+      clearTimeout(canvasSyncTimerRef.current);
+    }
+    canvasSyncTimerRef.current = setTimeout(() => syncCanvasToPrompt(false), 500);
+
+    return () => {
+      if (canvasSyncTimerRef.current) {
+        clearTimeout(canvasSyncTimerRef.current);
+      }
+    };
+  }, [nodes, edges, flowSourceOrigin, flowSyncConflict, syncCanvasToPrompt]);
+
+  useEffect(() => {
+    if (isLoadingRef.current) return;
+    if (!flowSourceOrigin?.liveSync || (flowSyncConflict && !flowSyncConflict.unreadable)) return;
+
+    if (promptSyncTimerRef.current) {
+      clearTimeout(promptSyncTimerRef.current);
+    }
+    promptSyncTimerRef.current = setTimeout(() => syncPromptToCanvas(false), 500);
+
+    return () => {
+      if (promptSyncTimerRef.current) {
+        clearTimeout(promptSyncTimerRef.current);
+      }
+    };
+  }, [currentPrompt, flowSourceOrigin, flowSyncConflict, syncPromptToCanvas]);
+
+  /**
+   * Turn live sync on or off for the active flow. Turning it on takes the current
+   * prompt region and canvas as the synced baseline.
+   */
+  const toggleLiveSync = useCallback(() => {
+    const { flowSourceOrigin: origin, availableFlows } = useFlowStore.getState();
+    if (!origin) return;
+    const { addToast } = useToastStore.getState();
+
+    if (origin.liveSync) {
+      saveSyncedOrigin({ ...origin, liveSync: false });
+      setFlowSyncConflict(null);
+      addToast('Sincronizacion en vivo desactivada', 'info');
+      return;
+    }
+
+    // Hand-written steps used to be taken for 'steps', which can't read them
+    const detected = detectFlowSourceFormat(origin.rawText);
+    const format = origin.format === 'steps' && detected === 'text' ? detected : origin.format || detected;
+    if (!format) {
+      addToast('Este formato no se puede sincronizar en vivo — reinsertalo como texto primero', 'warning');
+      return;
+    }
+
+    const region = locateFlowRegion(useAnalysisStore.getState().currentPrompt, { ...origin, format });
+    if (!region) {
+      addToast('No se encontro el flujo en el prompt — reinsertalo primero', 'warning');
+      return;
+    }
+
+    saveSyncedOrigin({
+      ...origin,
+      format,
+      liveSync: true,
+      rawText: region.text,
+      syncedFlowText: serializeFlowRegion(getFlowData(), format, origin.name, availableFlows, region.text),
+    });
+    addToast('Sincronizacion en vivo activada', 'success');
+  }, [getFlowData, saveSyncedOrigin, setFlowSyncConflict]);
+
+  /**
+   * Settle a live sync conflict by keeping one side; the other is overwritten.
+   */
+  const resolveSyncConflict = useCallback((keep: 'canvas' | 'prompt') => {
+    setFlowSyncConflict(null);
+    if (keep === 'canvas') {
+      syncCanvasToPrompt(true);
+    } else {
+      syncPromptToCanvas(true);
+    }
+  }, [setFlowSyncConflict, syncCanvasToPrompt, syncPromptToCanvas]);
+
   /**
    * Convert detected ASCII art to visual flow.
    * Creates a new NamedFlow from the parsed ASCII.
@@ -293,85 +490,139 @@ export function useFlowSync() {
   }, [currentPrompt, setFlowData, clearAsciiDetection, currentProjectId, currentAgentId, addFlow, updateFlow, setStoreActiveFlowId, syncAvailableFlows]);
 
   /**
-   * Convert a single detected text flow to visual flow via LLM extraction.
+   * Extract a flow from text with the model (/api/flow/extract).
+   * Fallback for text the local parser can't read, and the "Refinar con IA" step.
+   */
+  const extractFlowWithModel = useCallback(async (flowText: string, flowName: string): Promise<FlowData> => {
+    const response = await fetch('/api/flow/extract', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        flowText,
+        flowName,
+        context: useAnalysisStore.getState().currentPrompt.substring(0, 1500),
+        sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Error al extraer el flujo');
+    }
+
+    const data = await response.json();
+    if (!data.flow || !data.flow.nodes || data.flow.nodes.length === 0) {
+      throw new Error('El modelo no generó nodos válidos');
+    }
+    return data.flow;
+  }, []);
+
+  /**
+   * Convert a single detected text flow to visual flow with the local parser
+   * (the model is only called when the text can't be parsed).
    * Creates a new NamedFlow and switches to it.
    */
   const convertTextFlowToVisual = useCallback(async (flowIndex: number) => {
-    const { detectedTextFlows } = useFlowStore.getState();
+    const { detectedTextFlows, availableFlows } = useFlowStore.getState();
     const flow = detectedTextFlows[flowIndex];
     if (!flow) return;
     if (!currentProjectId || !currentAgentId) return;
 
-    setExtractingFlow(true);
+    const localFlow = parseTextFlow(flow.rawText, flow.name, { availableFlows });
+    if (!localFlow) setExtractingFlow(true);
 
     try {
-      const response = await fetch('/api/flow/extract', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          flowText: flow.rawText,
-          flowName: flow.name,
-          context: currentPrompt.substring(0, 1500),
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Error al extraer el flujo');
-      }
-
-      const data = await response.json();
+      const flowData = localFlow || await extractFlowWithModel(flow.rawText, flow.name);
 
-      if (data.flow && data.flow.nodes && data.flow.nodes.length > 0) {
-        const origin: FlowSourceOrigin = {
-          rawText: flow.rawText,
-          name: flow.name,
-          headerAnchor: flow.rawText.split('\n')[0].trim(),
-        };
+      const origin: FlowSourceOrigin = {
+        rawText: flow.rawText,
+        name: flow.name,
+        headerAnchor: flow.rawText.split('\n')[0].trim(),
+      };
 
-        // Create NamedFlow
-        const flowId = addFlow(currentProjectId, currentAgentId, flow.name);
-        updateFlow(currentProjectId, currentAgentId, flowId, {
-          flowData: data.flow,
-          sourceOrigin: origin,
-        });
+      // Create NamedFlow
+      const flowId = addFlow(currentProjectId, currentAgentId, flow.name);
+      updateFlow(currentProjectId, currentAgentId, flowId, {
+        flowData,
+        sourceOrigin: origin,
+      });
 
-        // Load into canvas
-        setFlowData(data.flow);
-        setStoreActiveFlowId(flowId);
-        setStoreFlowSourceOrigin(origin);
-        markAsChanged();
-        clearTextFlowDetection();
+      // Load into canvas
+      setFlowData(flowData);
+      setStoreActiveFlowId(flowId);
+      setStoreFlowSourceOrigin(origin);
+      markAsChanged();
+      clearTextFlowDetection();
 
-        // Refresh available flows
-        const agent = useKnowledgeStore.getState().projects
-          .find(p => p.id === currentProjectId)?.agents.find(a => a.id === currentAgentId);
-        if (agent) syncAvailableFlows(agent);
+      // Refresh available flows
+      const agent = useKnowledgeStore.getState().projects
+        .find(p => p.id === currentProjectId)?.agents.find(a => a.id === currentAgentId);
+      if (agent) syncAvailableFlows(agent);
 
-        useToastStore.getState().addToast(
-          `Flujo "${flow.name}" extraido con ${data.flow.nodes.length} nodos`,
-          'success'
-        );
-      } else {
-        throw new Error('El modelo no generó nodos válidos');
-      }
+      useToastStore.getState().addToast(
+        localFlow
+          ? `Flujo "${flow.name}" convertido con ${flowData.nodes.length} nodos — podes refinarlo con IA`
+          : `Flujo "${flow.name}" extraido con ${flowData.nodes.length} nodos`,
+        'success'
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Error al extraer el flujo';
       useToastStore.getState().addToast(message, 'error');
       setExtractingFlow(false);
     }
-  }, [currentPrompt, setFlowData, markAsChanged, clearTextFlowDetection, setExtractingFlow, currentProjectId, currentAgentId, addFlow, updateFlow, setStoreActiveFlowId, setStoreFlowSourceOrigin, syncAvailableFlows]);
+  }, [setFlowData, markAsChanged, clearTextFlowDetection, setExtractingFlow, currentProjectId, currentAgentId, addFlow, updateFlow, setStoreActiveFlowId, setStoreFlowSourceOrigin, syncAvailableFlows, extractFlowWithModel]);
+
+  /**
+   * Auto-connect cross-flow references after extracting multiple flows.
+   * Matches end node labels like "-> FLUJO_X" against created flow names.
+   */
+  const autoConnectCrossFlowRefs = useCallback((
+    createdFlows: { id: string; name: string; flowData: { nodes: any[]; edges: any[] } }[]
+  ) => {
+    if (!currentProjectId || !currentAgentId) return;
+
+    const nameToId = new Map(createdFlows.map(f => [f.name.toLowerCase(), f.id]));
+
+    for (const flow of createdFlows) {
+      let hasChanges = false;
+      const updatedNodes = flow.flowData.nodes.map((node: any) => {
+        if (node.type !== 'end') return node;
+
+        // Check label for cross-flow pattern: "-> FLOW_NAME" or "→ FLOW_NAME"
+        const label = (node.label || '').trim();
+        const crossRefMatch = label.match(/^(?:->|→|>>|ir a|goto)\s*(.+)$/i);
+        if (!crossRefMatch) return node;
+
+        const targetName = crossRefMatch[1].trim().toLowerCase();
+        const targetFlowId = nameToId.get(targetName);
+        if (!targetFlowId || targetFlowId === flow.id) return node;
+
+        hasChanges = true;
+        return {
+          ...node,
+          data: { ...node.data, crossFlowRef: targetFlowId },
+        };
+      });
+
+      if (hasChanges) {
+        updateFlow(currentProjectId, currentAgentId, flow.id, {
+          flowData: { nodes: updatedNodes, edges: flow.flowData.edges },
+        });
+      }
+    }
+  }, [currentProjectId, currentAgentId, updateFlow]);
 
   /**
-   * Convert ALL detected text flows to separate NamedFlows via LLM extraction.
+   * Convert ALL detected text flows to separate NamedFlows (local parser, model as fallback).
    * Each detected flow becomes its own NamedFlow (tab). Auto-connects cross-flow refs.
    */
   const convertAllTextFlows = useCallback(async () => {
-    const { detectedTextFlows } = useFlowStore.getState();
+    const { detectedTextFlows, availableFlows } = useFlowStore.getState();
     if (detectedTextFlows.length < 2) return;
     if (!currentProjectId || !currentAgentId) return;
 
-    setExtractingFlow(true);
+    const localFlows = detectedTextFlows.map(flow => parseTextFlow(flow.rawText, flow.name, { availableFlows }));
+    if (localFlows.some(flow => !flow)) setExtractingFlow(true);
 
     let totalNodes = 0;
     let successCount = 0;
@@ -385,40 +636,26 @@ export function useFlowSync() {
         const flow = detectedTextFlows[i];
 
         try {
-          const response = await fetch('/api/flow/extract', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              flowText: flow.rawText,
-              flowName: flow.name,
-              context: currentPrompt.substring(0, 1500),
-            }),
+          const flowData = localFlows[i] || await extractFlowWithModel(flow.rawText, flow.name);
+
+          const origin: FlowSourceOrigin = {
+            rawText: flow.rawText,
+            name: flow.name,
+            headerAnchor: flow.rawText.split('\n')[0].trim(),
+          };
+
+          // Create individual NamedFlow
+          const flowId = addFlow(currentProjectId, currentAgentId, flow.name);
+          updateFlow(currentProjectId, currentAgentId, flowId, {
+            flowData,
+            sourceOrigin: origin,
           });
 
-          if (!response.ok) continue;
-
-          const data = await response.json();
-
-          if (data.flow && data.flow.nodes && data.flow.nodes.length > 0) {
-            const origin: FlowSourceOrigin = {
-              rawText: flow.rawText,
-              name: flow.name,
-              headerAnchor: flow.rawText.split('\n')[0].trim(),
-            };
-
-            // Create individual NamedFlow
-            const flowId = addFlow(currentProjectId, currentAgentId, flow.name);
-            updateFlow(currentProjectId, currentAgentId, flowId, {
-              flowData: data.flow,
-              sourceOrigin: origin,
-            });
-
-            createdFlows.push({ id: flowId, name: flow.name, flowData: data.flow });
-            totalNodes += data.flow.nodes.length;
-            successCount++;
+          createdFlows.push({ id: flowId, name: flow.name, flowData });
+          totalNodes += flowData.nodes.length;
+          successCount++;
 
-            if (!firstFlowId) firstFlowId = flowId;
-          }
+          if (!firstFlowId) firstFlowId = flowId;
         } catch {
           // Skip failed flows, continue with rest
         }
@@ -457,47 +694,7 @@ export function useFlowSync() {
     } finally {
       setExtractingFlow(false);
     }
-  }, [currentPrompt, setFlowData, clearTextFlowDetection, setExtractingFlow, currentProjectId, currentAgentId, addFlow, updateFlow, setStoreActiveFlowId, syncAvailableFlows]);
-
-  /**
-   * Auto-connect cross-flow references after extracting multiple flows.
-   * Matches end node labels like "-> FLUJO_X" against created flow names.
-   */
-  const autoConnectCrossFlowRefs = useCallback((
-    createdFlows: { id: string; name: string; flowData: { nodes: any[]; edges: any[] } }[]
-  ) => {
-    if (!currentProjectId || !currentAgentId) return;
-
-    const nameToId = new Map(createdFlows.map(f => [f.name.toLowerCase(), f.id]));
-
-    for (const flow of createdFlows) {
-      let hasChanges = false;
-      const updatedNodes = flow.flowData.nodes.map((node: any) => {
-        if (node.type !== 'end') return node;
-
-        // Check label for cross-flow pattern: "-> FLOW_NAME" or "→ FLOW_NAME"
-        const label = (node.label || '').trim();
-        const crossRefMatch = label.match(/^(?:->|→|>>|ir a|goto)\s*(.+)$/i);
-        if (!crossRefMatch) return node;
-
-        const targetName = crossRefMatch[1].trim().toLowerCase();
-        const targetFlowId = nameToId.get(targetName);
-        if (!targetFlowId || targetFlowId === flow.id) return node;
-
-        hasChanges = true;
-        return {
-          ...node,
-          data: { ...node.data, crossFlowRef: targetFlowId },
-        };
-      });
-
-      if (hasChanges) {
-        updateFlow(currentProjectId, currentAgentId, flow.id, {
-          flowData: { nodes: updatedNodes, edges: flow.flowData.edges },
-        });
-      }
-    }
-  }, [currentProjectId, currentAgentId, updateFlow]);
+  }, [setFlowData, clearTextFlowDetection, setExtractingFlow, currentProjectId, currentAgentId, addFlow, updateFlow, setStoreActiveFlowId, syncAvailableFlows, extractFlowWithModel, autoConnectCrossFlowRefs]);
 
   /**
    * Insert ASCII art diagram into the prompt (manual action).
@@ -538,22 +735,10 @@ export function useFlowSync() {
     }
 
     // Strategy 2: Find the header anchor and replace that section
-    const headerIndex = prompt.indexOf(origin.headerAnchor);
-    if (headerIndex !== -1) {
-      const headerLevel = (origin.headerAnchor.match(/^#{1,6}/) || ['##'])[0].length;
-      const afterHeader = prompt.substring(headerIndex + origin.headerAnchor.length);
-      const nextHeaderPattern = new RegExp(`^#{1,${headerLevel}}\\s`, 'm');
-      const nextHeaderMatch = afterHeader.match(nextHeaderPattern);
-
-      let endIndex: number;
-      if (nextHeaderMatch && nextHeaderMatch.index !== undefined) {
-        endIndex = headerIndex + origin.headerAnchor.length + nextHeaderMatch.index;
-      } else {
-        endIndex = prompt.length;
-      }
-
-      const before = prompt.substring(0, headerIndex);
-      const after = prompt.substring(endIndex);
+    const section = findHeaderSection(prompt, origin.headerAnchor);
+    if (section) {
+      const before = prompt.substring(0, section.start);
+      const after = prompt.substring(section.end);
       return {
         prompt: `${before.trimEnd()}\n\n${newText}\n\n${after.trimStart()}`.trim(),
         replacedInPlace: true,
@@ -579,9 +764,13 @@ export function useFlowSync() {
     const { flowSourceOrigin } = useFlowStore.getState();
     const flowName = flowSourceOrigin?.name || 'FLUJO';
 
-    // Generate text from flow (include cross-flow references)
+    // Generate text from flow (include cross-flow references, subflows written out inline)
     const { availableFlows } = useFlowStore.getState();
-    const newFlowText = flowDataToText(flowData, flowName, format, availableFlows);
+    const { projects, currentProjectId, flowTemplates } = useKnowledgeStore.getState();
+    const resolveSubflow = createSubflowResolver(
+      getSubflowSources(projects.find(p => p.id === currentProjectId), flowTemplates)
+    );
+    const newFlowText = flowDataToText(flowData, flowName, format, availableFlows, resolveSubflow);
 
     useAnalysisStore.getState().pushUndo();
 
@@ -590,11 +779,16 @@ export function useFlowSync() {
       const result = replaceFlowInPrompt(currentPrompt, flowSourceOrigin, newFlowText);
       setPrompt(result.prompt);
 
-      // Update origin for future roundtrips (on the NamedFlow)
+      // Update origin for future roundtrips (on the NamedFlow); Mermaid can't be live-synced
       const updatedOrigin: FlowSourceOrigin = {
+        ...flowSourceOrigin,
         rawText: newFlowText,
-        name: flowSourceOrigin.name,
         headerAnchor: newFlowText.split('\n')[0].trim(),
+        format: format === 'structured' ? 'steps' : undefined,
+        liveSync: format === 'structured' ? flowSourceOrigin.liveSync : false,
+        syncedFlowText: format === 'structured'
+          ? serializeFlowRegion(flowData, 'steps', flowSourceOrigin.name, availableFlows)
+          : undefined,
       };
       setStoreFlowSourceOrigin(updatedOrigin);
 
@@ -623,7 +817,7 @@ export function useFlowSync() {
 
   /**
    * Extract selected text from the editor as a new NamedFlow.
-   * Calls /api/flow/extract, creates a NamedFlow, switches to it.
+   * Parsed locally; falls back to /api/flow/extract. Creates a NamedFlow and switches to it.
    */
   const extractSelectionAsFlow = useCallback(async (selectedText: string) => {
     if (!selectedText || selectedText.split('\n').length < 3) return;
@@ -639,60 +833,68 @@ export function useFlowSync() {
       headerAnchor: firstLine,
     };
 
-    setExtractingFlow(true);
+    const localFlow = parseTextFlow(selectedText, name, { availableFlows: useFlowStore.getState().availableFlows });
+    if (!localFlow) setExtractingFlow(true);
 
     try {
-      const response = await fetch('/api/flow/extract', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          flowText: selectedText,
-          flowName: name,
-          context: currentPrompt.substring(0, 1500),
-        }),
+      const flowData = localFlow || await extractFlowWithModel(selectedText, name);
+
+      // Create NamedFlow
+      const flowId = addFlow(currentProjectId, currentAgentId, name);
+      updateFlow(currentProjectId, currentAgentId, flowId, {
+        flowData,
+        sourceOrigin: origin,
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Error al extraer el flujo');
-      }
+      // Load into canvas
+      setFlowData(flowData);
+      setStoreActiveFlowId(flowId);
+      setStoreFlowSourceOrigin(origin);
+      markAsChanged();
+      clearTextFlowDetection();
 
-      const data = await response.json();
+      // Refresh available flows
+      const agent = useKnowledgeStore.getState().projects
+        .find(p => p.id === currentProjectId)?.agents.find(a => a.id === currentAgentId);
+      if (agent) syncAvailableFlows(agent);
 
-      if (data.flow && data.flow.nodes && data.flow.nodes.length > 0) {
-        // Create NamedFlow
-        const flowId = addFlow(currentProjectId, currentAgentId, name);
-        updateFlow(currentProjectId, currentAgentId, flowId, {
-          flowData: data.flow,
-          sourceOrigin: origin,
-        });
+      useToastStore.getState().addToast(
+        `Flujo "${name}" extraido con ${flowData.nodes.length} nodos`,
+        'success'
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Error al extraer el flujo';
+      useToastStore.getState().addToast(message, 'error');
+    } finally {
+      setExtractingFlow(false);
+    }
+  }, [setFlowData, markAsChanged, clearTextFlowDetection, setExtractingFlow, currentProjectId, currentAgentId, addFlow, updateFlow, setStoreActiveFlowId, setStoreFlowSourceOrigin, syncAvailableFlows, extractFlowWithModel]);
 
-        // Load into canvas
-        setFlowData(data.flow);
-        setStoreActiveFlowId(flowId);
-        setStoreFlowSourceOrigin(origin);
-        markAsChanged();
-        clearTextFlowDetection();
+  /**
+   * Optional refinement: re-extract the active flow's source text with the model.
+   * Replaces the canvas (undoable) and keeps the source origin.
+   */
+  const refineFlowWithModel = useCallback(async () => {
+    const { flowSourceOrigin: origin } = useFlowStore.getState();
+    if (!origin) return;
 
-        // Refresh available flows
-        const agent = useKnowledgeStore.getState().projects
-          .find(p => p.id === currentProjectId)?.agents.find(a => a.id === currentAgentId);
-        if (agent) syncAvailableFlows(agent);
+    setExtractingFlow(true);
 
-        useToastStore.getState().addToast(
-          `Flujo "${name}" extraido con ${data.flow.nodes.length} nodos`,
-          'success'
-        );
-      } else {
-        throw new Error('El modelo no genero nodos validos');
-      }
+    try {
+      const flowData = await extractFlowWithModel(origin.rawText, origin.name);
+      setFlowData(flowData);
+      markAsChanged();
+      useToastStore.getState().addToast(
+        `Flujo refinado con IA (${flowData.nodes.length} nodos) — podes deshacerlo`,
+        'success'
+      );
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Error al extraer el flujo';
+      const message = error instanceof Error ? error.message : 'Error al refinar el flujo';
       useToastStore.getState().addToast(message, 'error');
     } finally {
       setExtractingFlow(false);
     }
-  }, [currentPrompt, setFlowData, markAsChanged, clearTextFlowDetection, setExtractingFlow, currentProjectId, currentAgentId, addFlow, updateFlow, setStoreActiveFlowId, setStoreFlowSourceOrigin, syncAvailableFlows]);
+  }, [setFlowData, markAsChanged, setExtractingFlow, extractFlowWithModel]);
 
   return {
     convertAsciiToFlow,
@@ -701,5 +903,8 @@ export function useFlowSync() {
     convertAllTextFlows,
     insertFlowBackInPrompt,
     extractSelectionAsFlow,
+    refineFlowWithModel,
+    toggleLiveSync,
+    resolveSyncConflict,
   };
 }
@@ -0,0 +1,133 @@
+'use client';
+
+import { useCallback, useRef } from 'react';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import { readEventStream } from '@/lib/utils/eventStream';
+import type { AnalysisResult } from '@/types/analysis';
+import type { TokenUsage } from '@/types/tokens';
+
+// Typical size of the analysis JSON, used to turn streamed chars into a percentage
+const EXPECTED_RESPONSE_CHARS = 9000;
+const TOTAL_STEPS = 3;
+
+/**
+ * Runs a full-prompt analysis against /api/analyze and feeds the result into analysisStore.
+ * Progress is reported through analysisProgress while the response streams in.
+ */
+export function usePromptAnalysis() {
+  const {
+    currentPrompt,
+    feedbackItems,
+    isAnalyzing,
+    startAnalysis,
+    setAnalysis,
+    completeAnalysis,
+    setError,
+    setAnalysisProgress,
+    setTokenUsage,
+  } = useAnalysisStore();
+  const { addToast } = useToastStore();
+  const abortRef = useRef<AbortController | null>(null);
+
+  const runAnalysis = useCallback(async () => {
+    if (isAnalyzing || currentPrompt.trim().length < 10) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const startTime = Date.now();
+
+    const reportProgress = (step: number, stepName: string, percentage: number) => {
+      setAnalysisProgress({
+        step,
+        stepName,
+        percentage,
+        startTime,
+        estimatedTotal: TOTAL_STEPS,
+      });
+    };
+
+    startAnalysis();
+    reportProgress(1, 'Enviando prompt', 5);
+
+    try {
+      const response = await fetch('/api/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt: currentPrompt,
+          feedback: feedbackItems,
+          sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Error al analizar el prompt');
+      }
+
+      // Assigned from the event callback, so the cast keeps TS from narrowing it to null
+      let result = null as { analysis: AnalysisResult; filteredCount: number } | null;
+
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'progress') {
+          const { receivedChars } = data as { receivedChars: number };
+          const streamed = Math.min(receivedChars / EXPECTED_RESPONSE_CHARS, 1);
+          reportProgress(2, 'Analizando secciones', Math.round(10 + streamed * 75));
+        } else if (event === 'usage') {
+          setTokenUsage(data as TokenUsage);
+        } else if (event === 'validating') {
+          reportProgress(3, 'Validando sugerencias', 90);
+        } else if (event === 'done') {
+          result = data as { analysis: AnalysisResult; filteredCount: number };
+        } else if (event === 'error') {
+          throw new Error((data as { error: string }).error);
+        }
+      });
+
+      if (!result) {
+        throw new Error('El análisis terminó sin resultado');
+      }
+
+      const { analysis, filteredCount } = result;
+      setAnalysis(analysis);
+      completeAnalysis();
+
+      const count = analysis.sections.length;
+      addToast(
+        `Análisis listo: ${count} sugerencia${count !== 1 ? 's' : ''}` +
+          (filteredCount > 0 ? ` (${filteredCount} descartada${filteredCount !== 1 ? 's' : ''})` : ''),
+        'success'
+      );
+    } catch (error) {
+      if (controller.signal.aborted) {
+        completeAnalysis();
+        return;
+      }
+      console.error('Analysis error:', error);
+      setError(error instanceof Error ? error.message : 'Error al analizar el prompt');
+    } finally {
+      setAnalysisProgress(null);
+      abortRef.current = null;
+    }
+  }, [
+    isAnalyzing,
+    currentPrompt,
+    feedbackItems,
+    startAnalysis,
+    setAnalysis,
+    completeAnalysis,
+    setError,
+    setAnalysisProgress,
+    setTokenUsage,
+    addToast,
+  ]);
+
+  const cancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return { runAnalysis, cancelAnalysis, isAnalyzing };
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import { analyzeRedundancy } from '@/lib/utils/redundancyDetector';
+import {
+  redundancyToCompressionSuggestions,
+  mergeCompressionSuggestions,
+  summarizeOptimization,
+} from '@/lib/utils/compression';
+import type { CompressionSuggestion } from '@/types/optimization';
+
+/**
+ * Optimize mode: combines local redundancy detection with /api/optimize compression suggestions.
+ * Local results are shown right away; the model only gets asked about what wasn't caught locally.
+ */
+export function usePromptOptimization() {
+  const {
+    currentPrompt,
+    isOptimizing,
+    startOptimization,
+    setOptimization,
+    setOptimizationError,
+  } = useAnalysisStore();
+  const { addToast } = useToastStore();
+
+  const runOptimization = useCallback(async () => {
+    if (isOptimizing || currentPrompt.trim().length < 10) return;
+
+    const prompt = currentPrompt;
+    const redundancy = analyzeRedundancy(prompt);
+    const localSuggestions = redundancyToCompressionSuggestions(prompt, redundancy);
+    const knownRedundancies = redundancy.phrases.map((p) => p.phrase);
+
+    // Show local findings while the model works
+    startOptimization(summarizeOptimization(prompt, localSuggestions));
+
+    try {
+      const response = await fetch('/api/optimize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt,
+          knownRedundancies,
+          sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al optimizar el prompt');
+      }
+
+      const merged = mergeCompressionSuggestions(
+        localSuggestions,
+        data.suggestions as CompressionSuggestion[],
+        knownRedundancies
+      );
+      setOptimization(summarizeOptimization(prompt, merged));
+
+      const savings = merged.reduce((sum, s) => sum + s.tokenSavings, 0);
+      addToast(`${merged.length} sugerencias de compresión (~${savings} tokens)`, 'success');
+    } catch (error) {
+      console.error('Optimization error:', error);
+      setOptimizationError(error instanceof Error ? error.message : 'Error al optimizar el prompt');
+      // Keep the local results usable even if the model call failed
+      setOptimization(summarizeOptimization(prompt, localSuggestions));
+    }
+  }, [isOptimizing, currentPrompt, startOptimization, setOptimization, setOptimizationError, addToast]);
+
+  return { runOptimization, isOptimizing };
+}
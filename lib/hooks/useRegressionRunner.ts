@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useToastStore } from '@/store/toastStore';
+import type { PromptVersion } from '@/types/prompt';
+import type { GoldenConversationResult, RegressionRun } from '@/types/regression';
+
+/**
+ * Replays the current agent's golden conversations against a version, one
+ * conversation per /api/regression call, and stores the run on the agent.
+ */
+export function useRegressionRunner() {
+  const [runningVersionId, setRunningVersionId] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const { addToast } = useToastStore();
+
+  const runRegression = useCallback(async (version: PromptVersion) => {
+    const { currentProjectId, getCurrentAgent, saveRegressionRun } = useKnowledgeStore.getState();
+    const agent = getCurrentAgent();
+    const conversations = agent?.goldenConversations || [];
+    if (!currentProjectId || !agent || conversations.length === 0 || runningVersionId) return;
+
+    setRunningVersionId(version.id);
+    setProgress({ done: 0, total: conversations.length });
+    const results: GoldenConversationResult[] = [];
+
+    try {
+      // Sequential on purpose: each replay is one model call per agent turn plus the grader
+      for (const conversation of conversations) {
+        const response = await fetch('/api/regression', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            conversation,
+            prompt: version.content,
+            sharedContext: useKnowledgeStore.getState().getCurrentProject()?.sharedContext,
+          }),
+        });
+        const data = await response.json();
+
+        results.push(response.ok
+          ? data.result as GoldenConversationResult
+          : {
+              conversationId: conversation.id,
+              conversationName: conversation.name,
+              status: 'error',
+              score: 0,
+              rubric: [],
+              turns: [],
+              error: data.error || 'Error al reproducir la conversacion',
+            });
+        setProgress({ done: results.length, total: conversations.length });
+      }
+
+      const run: RegressionRun = {
+        id: crypto.randomUUID(),
+        versionId: version.id,
+        results,
+        runAt: Date.now(),
+      };
+      saveRegressionRun(currentProjectId, agent.id, run);
+
+      const passed = results.filter(r => r.status === 'passed').length;
+      addToast(
+        `Regresión: ${passed}/${results.length} conversaciones pasaron`,
+        passed === results.length ? 'success' : 'warning'
+      );
+    } catch {
+      addToast('Error de conexion. Intenta de nuevo.', 'error');
+    } finally {
+      setRunningVersionId(null);
+    }
+  }, [runningVersionId, addToast]);
+
+  return { runRegression, runningVersionId, progress };
+}
@@ -14,6 +14,7 @@ export interface SemanticSection {
   content: string;
   suggestionCount: number;
   highestSeverity?: 'critical' | 'high' | 'medium' | 'low';
+  score?: number; // 1-10, only set once an analysis has been mapped onto the section
 }
 
 // Keywords for inferring section purpose
@@ -1,12 +1,22 @@
 import type { AnalysisSection, SeverityLevel } from '@/types/analysis';
 import type { SemanticSection } from './semanticParser';
+import { findTextInPrompt } from './utils/textMatcher';
 
 export interface SectionWithSuggestions {
   section: SemanticSection;
   suggestions: AnalysisSection[];
   highestSeverity: SeverityLevel | null;
+  score: number;
 }
 
+// Points subtracted from a perfect 10 for each suggestion in a section
+const SEVERITY_PENALTY: Record<SeverityLevel, number> = {
+  critical: 4,
+  high: 2.5,
+  medium: 1.5,
+  low: 0.5,
+};
+
 /**
  * Maps suggestions (AnalysisSection) to semantic sections based on character indices overlap.
  * A suggestion belongs to a section if their ranges overlap.
@@ -71,6 +81,15 @@ export function getHighestSeverity(suggestions: AnalysisSection[]): SeverityLeve
   return 'low';
 }
 
+/**
+ * Score a section from 1 to 10 based on the suggestions mapped to it.
+ * Uses the same scale as AnalysisScores so both can be shown side by side.
+ */
+export function calculateSectionScore(suggestions: AnalysisSection[]): number {
+  const penalty = suggestions.reduce((sum, s) => sum + SEVERITY_PENALTY[s.severity], 0);
+  return Math.max(1, Math.round((10 - penalty) * 10) / 10);
+}
+
 /**
  * Get sections enriched with their mapped suggestions
  */
@@ -87,13 +106,35 @@ export function enrichSectionsWithSuggestions(
         ...section,
         suggestionCount: sectionSuggestions.length,
         highestSeverity: getHighestSeverity(sectionSuggestions) ?? undefined,
+        score: calculateSectionScore(sectionSuggestions),
       },
       suggestions: sectionSuggestions,
       highestSeverity: getHighestSeverity(sectionSuggestions),
+      score: calculateSectionScore(sectionSuggestions),
     };
   });
 }
 
+/**
+ * Move suggestions to where their originalText currently sits in the prompt.
+ * Suggestions whose text is gone (applied or edited away) are dropped.
+ * Fuzzy matching is skipped since this runs on every edit.
+ */
+export function reanchorSuggestions(
+  prompt: string,
+  suggestions: AnalysisSection[]
+): AnalysisSection[] {
+  const anchored: AnalysisSection[] = [];
+
+  for (const suggestion of suggestions) {
+    const match = findTextInPrompt(prompt, suggestion.originalText, { enableFuzzy: false });
+    if (!match.found) continue;
+    anchored.push({ ...suggestion, startIndex: match.startIndex, endIndex: match.endIndex });
+  }
+
+  return anchored;
+}
+
 /**
  * Find which section a cursor position falls within
  */
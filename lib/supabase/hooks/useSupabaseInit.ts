@@ -4,8 +4,9 @@ import { useEffect, useState } from 'react';
 import { registerDevice, setSupabaseDeviceId } from '../device';
 import { isSupabaseConfigured, supabase } from '../client';
 import { useKnowledgeStore } from '@/store/knowledgeStore';
-import { mapDbKnowledgeEntryToApp, mapDbAgentToApp } from '../types';
-import type { DbKnowledgeEntry, DbAgent } from '../types';
+import { mapDbKnowledgeEntryToApp } from '../types';
+import type { DbKnowledgeEntry, DbAgent, DbPromptVersion } from '../types';
+import { reconcileRemoteAgent, reconcileRemoteVersion } from '../reconcile';
 
 export function useSupabaseInit() {
   const [isInitialized, setIsInitialized] = useState(false);
@@ -130,27 +131,30 @@ export function useSupabaseInit() {
           },
           (payload) => {
             if (!mounted) return;
-
-            const dbAgent = payload.new as DbAgent;
-            const updatedAgent = mapDbAgentToApp(dbAgent, []);
-
-            useKnowledgeStore.setState((state) => ({
-              projects: state.projects.map(p => {
-                if (p.id !== dbAgent.project_id) return p;
-                return {
-                  ...p,
-                  agents: p.agents.map(a => {
-                    if (a.id !== updatedAgent.id) return a;
-                    // Preserve local versions (realtime doesn't include them)
-                    return { ...updatedAgent, versions: a.versions };
-                  }),
-                };
-              }),
-            }));
+            // Merges concurrent prompt edits instead of overwriting them
+            reconcileRemoteAgent(payload.new as DbAgent);
           }
         )
         .subscribe();
       channels.push(agentsChannel);
+
+      // Versions channel (diverged versions are merged against their parent)
+      const versionsChannel = supabase
+        .channel('version-changes')
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'prompt_versions',
+          },
+          (payload) => {
+            if (!mounted) return;
+            reconcileRemoteVersion(payload.new as DbPromptVersion);
+          }
+        )
+        .subscribe();
+      channels.push(versionsChannel);
     }
 
     return () => {
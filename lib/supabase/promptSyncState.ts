@@ -0,0 +1,39 @@
+/**
+ * Per-agent memory of what this device pushed and what it last agreed on with
+ * Supabase. Used by the realtime reconciler to tell our own echoes apart from
+ * remote edits and to pick the base of a three-way merge.
+ *
+ * In-memory only: after a reload the base falls back to the latest version.
+ */
+
+const MAX_RECENT_WRITES = 10;
+
+const recentWrites = new Map<string, string[]>();
+const syncedPrompts = new Map<string, string>();
+
+/**
+ * Remember a prompt this device is about to push
+ */
+export function recordLocalPromptWrite(agentId: string, prompt: string): void {
+  const writes = recentWrites.get(agentId) || [];
+  if (writes[writes.length - 1] === prompt) return;
+  recentWrites.set(agentId, [...writes, prompt].slice(-MAX_RECENT_WRITES));
+}
+
+/**
+ * True when a remote prompt is one we pushed ourselves (possibly an older one)
+ */
+export function isOwnPromptWrite(agentId: string, prompt: string): boolean {
+  return (recentWrites.get(agentId) || []).includes(prompt);
+}
+
+/**
+ * Last prompt known to be both local and remote (the merge base)
+ */
+export function getSyncedPrompt(agentId: string): string | undefined {
+  return syncedPrompts.get(agentId);
+}
+
+export function setSyncedPrompt(agentId: string, prompt: string): void {
+  syncedPrompts.set(agentId, prompt);
+}
@@ -0,0 +1,272 @@
+/**
+ * Prompt reconciler - Decides what to do when another device changes a prompt,
+ * whether it arrives over realtime or is found before pushing queued offline edits.
+ *
+ * Instead of letting the last write win, a remote prompt is compared with the
+ * local one against their common base (our last synced prompt, or the version
+ * named by the remote `parentVersionId`):
+ * - local unchanged since the base -> fast-forward to the remote prompt
+ * - both changed -> section-level three-way merge
+ * - sections changed differently on both sides -> stored as a merge conflict
+ *   for the user to resolve; the local prompt is kept meanwhile
+ */
+
+import { useKnowledgeStore } from '@/store/knowledgeStore';
+import { useAnalysisStore } from '@/store/analysisStore';
+import { useToastStore } from '@/store/toastStore';
+import { mergePromptSections, buildMergedPrompt } from '@/lib/utils/threeWayMerge';
+import { agentsRepository } from './repositories';
+import { mapDbAgentToApp, mapDbVersionToApp } from './types';
+import type { DbAgent, DbPromptVersion } from './types';
+import {
+  getSyncedPrompt,
+  setSyncedPrompt,
+  isOwnPromptWrite,
+} from './promptSyncState';
+import { MAIN_BRANCH, getBranchName } from '@/lib/utils/versionBranches';
+import type { Agent, Project, PromptVersion } from '@/types/prompt';
+
+function samePrompt(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+}
+
+function findAgent(agentId: string): { project: Project; agent: Agent } | null {
+  for (const project of useKnowledgeStore.getState().projects) {
+    const agent = project.agents.find(a => a.id === agentId);
+    if (agent) return { project, agent };
+  }
+  return null;
+}
+
+// The open agent lives in the editor store until the debounced auto-save runs
+function isOpenInEditor(project: Project, agentId: string): boolean {
+  return useKnowledgeStore.getState().currentProjectId === project.id && project.currentAgentId === agentId;
+}
+
+function getLocalPrompt(project: Project, agent: Agent): string {
+  return isOpenInEditor(project, agent.id)
+    ? useAnalysisStore.getState().currentPrompt
+    : agent.currentPrompt;
+}
+
+function getLocalVersions(project: Project, agent: Agent): PromptVersion[] {
+  return isOpenInEditor(project, agent.id)
+    ? useAnalysisStore.getState().promptHistory
+    : agent.versions;
+}
+
+function getLocalBranch(project: Project, agent: Agent): string {
+  return isOpenInEditor(project, agent.id)
+    ? useAnalysisStore.getState().currentBranch
+    : agent.currentBranch || MAIN_BRANCH;
+}
+
+function latestVersion(versions: PromptVersion[]): PromptVersion | undefined {
+  return versions.reduce<PromptVersion | undefined>(
+    (latest, v) => (!latest || v.timestamp > latest.timestamp ? v : latest),
+    undefined
+  );
+}
+
+/**
+ * Write a prompt produced by a merge (or chosen in the conflict UI) and push it.
+ * The editor's auto-save pushes the open agent; other agents are updated directly.
+ */
+export function applyReconciledPrompt(projectId: string, agentId: string, prompt: string): void {
+  const found = findAgent(agentId);
+  if (!found || found.project.id !== projectId) return;
+
+  if (isOpenInEditor(found.project, agentId)) {
+    useAnalysisStore.getState().setPrompt(prompt);
+  } else {
+    useKnowledgeStore.getState().updateAgent(projectId, agentId, { currentPrompt: prompt });
+  }
+}
+
+/**
+ * Merge a remote prompt into the local one. `prompt` is the prompt the agent
+ * should hold locally, or null when the local prompt stays as is; `conflict`
+ * tells a stored merge conflict apart from nothing to change.
+ */
+function reconcilePrompt(
+  project: Project,
+  agent: Agent,
+  theirs: string,
+  base: string,
+  conflictInfo: { source: 'draft' | 'version'; theirsLabel: string; theirsVersionId?: string }
+): { prompt: string | null; conflict: boolean } {
+  const ours = getLocalPrompt(project, agent);
+  setSyncedPrompt(agent.id, theirs);
+
+  if (samePrompt(ours, theirs)) return { prompt: null, conflict: false };
+  if (samePrompt(ours, base)) return { prompt: theirs, conflict: false };
+
+  const result = mergePromptSections(base, ours, theirs);
+  const { addToast } = useToastStore.getState();
+
+  if (result.conflicts.length === 0) {
+    const merged = buildMergedPrompt(result);
+    if (merged === null || samePrompt(merged, ours)) return { prompt: null, conflict: false };
+    addToast(`Se combinaron tus cambios en "${agent.name}" con los de otro dispositivo`, 'info');
+    return { prompt: merged, conflict: false };
+  }
+
+  useKnowledgeStore.getState().addMergeConflict({
+    projectId: project.id,
+    agentId: agent.id,
+    ...conflictInfo,
+    base,
+    ours,
+    theirs,
+    result,
+  });
+  addToast(
+    `Conflicto de edición en "${agent.name}": ${result.conflicts.length} ${result.conflicts.length === 1 ? 'sección' : 'secciones'} para resolver`,
+    'warning',
+    6000
+  );
+  return { prompt: null, conflict: true };
+}
+
+/**
+ * Realtime UPDATE on `agents`. Non-prompt fields follow the remote row;
+ * local-only fields and versions are kept.
+ */
+export function reconcileRemoteAgent(dbAgent: DbAgent): void {
+  const found = findAgent(dbAgent.id);
+  if (!found) return;
+  const { project, agent } = found;
+
+  const remote = mapDbAgentToApp(dbAgent, []);
+  let prompt = agent.currentPrompt;
+  let pushMerged = false;
+
+  if (isOwnPromptWrite(agent.id, remote.currentPrompt)) {
+    // Echo of something we pushed: it is the new common base, nothing to merge
+    setSyncedPrompt(agent.id, remote.currentPrompt);
+  } else {
+    const base = getSyncedPrompt(agent.id)
+      ?? latestVersion(getLocalVersions(project, agent))?.content
+      ?? '';
+
+    if (!samePrompt(remote.currentPrompt, base)) {
+      const reconciled = reconcilePrompt(project, agent, remote.currentPrompt, base, {
+        source: 'draft',
+        theirsLabel: 'Cambios sin guardar de otro dispositivo',
+      }).prompt;
+
+      if (reconciled !== null) {
+        prompt = reconciled;
+        if (isOpenInEditor(project, agent.id)) {
+          useAnalysisStore.getState().setPrompt(reconciled);
+        } else {
+          // A merge result is new for the other device too
+          pushMerged = reconciled !== remote.currentPrompt;
+        }
+      }
+    }
+  }
+
+  useKnowledgeStore.setState((state) => ({
+    projects: state.projects.map(p => {
+      if (p.id !== project.id) return p;
+      return {
+        ...p,
+        agents: p.agents.map(a => {
+          if (a.id !== agent.id) return a;
+          // Realtime doesn't include versions; flows and QA data are local-only
+          return { ...a, ...remote, versions: a.versions, currentPrompt: prompt };
+        }),
+      };
+    }),
+  }));
+
+  if (pushMerged) {
+    applyReconciledPrompt(project.id, agent.id, prompt);
+  }
+}
+
+/**
+ * Realtime INSERT on `prompt_versions`. Unknown versions are added to the
+ * history; the local prompt is then reconciled against the version's parent.
+ */
+export function reconcileRemoteVersion(dbVersion: DbPromptVersion): void {
+  const found = findAgent(dbVersion.agent_id);
+  if (!found) return;
+  const { project, agent } = found;
+
+  const localVersions = getLocalVersions(project, agent);
+  if (localVersions.some(v => v.id === dbVersion.id) || agent.versions.some(v => v.id === dbVersion.id)) {
+    return;
+  }
+
+  const version = mapDbVersionToApp(dbVersion);
+  const parent = version.parentVersionId
+    ? localVersions.find(v => v.id === version.parentVersionId)
+    : undefined;
+  const base = parent?.content
+    ?? getSyncedPrompt(agent.id)
+    ?? latestVersion(localVersions)?.content
+    ?? '';
+
+  const appendVersion = (versions: PromptVersion[]) =>
+    [...versions, version].sort((a, b) => a.timestamp - b.timestamp);
+
+  useKnowledgeStore.setState((state) => ({
+    projects: state.projects.map(p => {
+      if (p.id !== project.id) return p;
+      return {
+        ...p,
+        agents: p.agents.map(a => (a.id === agent.id ? { ...a, versions: appendVersion(a.versions) } : a)),
+      };
+    }),
+  }));
+  if (isOpenInEditor(project, agent.id)) {
+    // Otherwise the next auto-save would drop it from the agent again
+    useAnalysisStore.setState((state) => ({ promptHistory: appendVersion(state.promptHistory) }));
+  }
+
+  // Versions saved on another branch don't touch the prompt we're working on
+  if (getBranchName(version) !== getLocalBranch(project, agent)) return;
+
+  const reconciled = reconcilePrompt(project, agent, version.content, base, {
+    source: 'version',
+    theirsLabel: version.label,
+    theirsVersionId: version.id,
+  }).prompt;
+  if (reconciled !== null) {
+    applyReconciledPrompt(project.id, agent.id, reconciled);
+  }
+}
+
+/**
+ * Queued prompt push (e.g. edits made offline). Realtime events missed while
+ * offline never reached the handlers above, so the remote row is read and merged
+ * with the local prompt first. Returns the prompt to push, or null to leave the
+ * remote prompt alone (a conflict was stored, or there is nothing of ours to add).
+ */
+export async function reconcileQueuedPrompt(agentId: string, queuedPrompt: string): Promise<string | null> {
+  const theirs = await agentsRepository.getCurrentPrompt(agentId);
+  const found = findAgent(agentId);
+  if (!found) return queuedPrompt;
+  const { project, agent } = found;
+
+  // Queued updates can be older than the local prompt: push the latest one
+  const ours = getLocalPrompt(project, agent);
+  if (theirs === null || isOwnPromptWrite(agent.id, theirs)) return ours;
+
+  const base = getSyncedPrompt(agent.id)
+    ?? latestVersion(getLocalVersions(project, agent))?.content
+    ?? '';
+  if (samePrompt(theirs, base)) return ours;
+
+  const { prompt, conflict } = reconcilePrompt(project, agent, theirs, base, {
+    source: 'draft',
+    theirsLabel: 'Cambios de otro dispositivo',
+  });
+  if (conflict) return null;
+  if (prompt === null) return samePrompt(ours, theirs) ? null : ours;
+
+  applyReconciledPrompt(project.id, agent.id, prompt);
+  return samePrompt(prompt, theirs) ? null : prompt;
+}
@@ -43,6 +43,23 @@ export const agentsRepository = {
     );
   },
 
+  async getCurrentPrompt(agentId: string): Promise<string | null> {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+      .from('agents')
+      .select('current_prompt')
+      .eq('id', agentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching agent prompt:', error);
+      return null;
+    }
+
+    return (data as Pick<DbAgent, 'current_prompt'> | null)?.current_prompt ?? null;
+  },
+
   async create(agent: Agent): Promise<Agent | null> {
     if (!supabase) return null;
 
@@ -0,0 +1,82 @@
+import { supabase } from '../client';
+import type { SavedFlowTemplate } from '@/types/flow';
+import {
+  mapDbFlowTemplateToApp,
+  mapAppFlowTemplateToDbInsert,
+  type DbFlowTemplate,
+} from '../types';
+
+export const flowTemplatesRepository = {
+  async getAll(deviceId: string): Promise<SavedFlowTemplate[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('flow_templates')
+      .select('*')
+      .eq('device_id', deviceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching flow templates:', error);
+      return [];
+    }
+
+    return ((data || []) as DbFlowTemplate[]).map((t) => mapDbFlowTemplateToApp(t));
+  },
+
+  async createWithId(template: SavedFlowTemplate, deviceId: string): Promise<SavedFlowTemplate | null> {
+    if (!supabase) return null;
+
+    const dbTemplate = mapAppFlowTemplateToDbInsert(template, deviceId);
+
+    const { data, error } = await supabase
+      .from('flow_templates')
+      .insert(dbTemplate)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating flow template with ID:', error);
+      return null;
+    }
+
+    return mapDbFlowTemplateToApp(data as DbFlowTemplate);
+  },
+
+  async update(id: string, updates: Partial<SavedFlowTemplate>): Promise<boolean> {
+    if (!supabase) return false;
+
+    const dbUpdates: Record<string, unknown> = {};
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.description !== undefined) dbUpdates.description = updates.description;
+    if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
+    if (updates.flowData !== undefined) dbUpdates.flow_data = updates.flowData;
+    if (updates.variables !== undefined) dbUpdates.variables = updates.variables;
+    if (updates.placeholders !== undefined) dbUpdates.placeholders = updates.placeholders;
+
+    const { error } = await supabase
+      .from('flow_templates')
+      .update(dbUpdates)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating flow template:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    const { error } = await supabase.from('flow_templates').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting flow template:', error);
+      return false;
+    }
+
+    return true;
+  },
+};
@@ -3,3 +3,4 @@ export { agentsRepository } from './agents';
 export { versionsRepository } from './versions';
 export { knowledgeRepository } from './knowledge';
 export { decisionsRepository } from './decisions';
+export { flowTemplatesRepository } from './flowTemplates';
@@ -85,6 +85,11 @@ export const knowledgeRepository = {
     if (updates.usageCount !== undefined) dbUpdates.usage_count = updates.usageCount;
     if (updates.projectIds !== undefined) dbUpdates.project_ids = updates.projectIds;
     if (updates.category !== undefined) dbUpdates.category = updates.category;
+    if (updates.relations !== undefined) dbUpdates.relations = updates.relations;
+    if (updates.scope !== undefined) {
+      dbUpdates.scope_kind = updates.scope.kind;
+      dbUpdates.scope_value = updates.scope.value || null;
+    }
 
     const { error } = await supabase
       .from('knowledge_entries')
@@ -100,6 +100,7 @@ export const projectsRepository = {
     if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
     if (updates.currentAgentId !== undefined) dbUpdates.current_agent_id = updates.currentAgentId;
     if (updates.sharedContext !== undefined) dbUpdates.shared_context = updates.sharedContext;
+    if (updates.flowLintConfig !== undefined) dbUpdates.flow_lint_config = updates.flowLintConfig;
 
     if (Object.keys(dbUpdates).length === 0) return true;
 
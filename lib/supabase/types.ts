@@ -1,9 +1,12 @@
 import type {
   Project, Agent, PromptVersion, PromptAnnotation,
   ChatMessage, KnowledgeEntry, SuggestionDecision,
-  VersionChange, KnowledgeCategory,
+  VersionChange, KnowledgeCategory, KnowledgeRelation, KnowledgeScopeKind,
 } from '@/types/prompt';
-import type { FlowData, FlowSourceOrigin } from '@/types/flow';
+import type {
+  FlowData, FlowSourceOrigin, FlowVariable, FlowLintConfig,
+  FlowTemplatePlaceholder, SavedFlowTemplate,
+} from '@/types/flow';
 
 // ── Database Row Types ──
 
@@ -24,6 +27,7 @@ export interface DbProject {
   tags: string[];
   current_agent_id: string | null;
   shared_context: string;
+  flow_lint_config: FlowLintConfig | null;
   created_at: string;
   updated_at: string;
 }
@@ -49,6 +53,8 @@ export interface DbPromptVersion {
   content: string;
   label: string;
   parent_version_id: string | null;
+  branch: string | null;
+  origin_version_id: string | null;
   changes: VersionChange[];
   change_type: string | null;
   change_details: Record<string, string> | null;
@@ -69,6 +75,9 @@ export interface DbKnowledgeEntry {
   usage_count: number;
   project_ids: string[];
   category: string | null;
+  relations: KnowledgeRelation[] | null;
+  scope_kind: KnowledgeScopeKind | null;
+  scope_value: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -86,9 +95,26 @@ export interface DbSuggestionDecision {
   category: string;
   severity: string;
   saved_to_knowledge: boolean;
+  agent_id: string | null;
+  knowledge_entry_ids: string[] | null;
+  version_id: string | null;
   created_at: string;
 }
 
+export interface DbFlowTemplate {
+  id: string;
+  device_id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  flow_data: FlowData;
+  variables: FlowVariable[] | null;
+  placeholders: FlowTemplatePlaceholder[];
+  source_flow_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // ── Insert Types ──
 
 export interface DbProjectInsert {
@@ -101,6 +127,7 @@ export interface DbProjectInsert {
   tags: string[];
   current_agent_id?: string | null;
   shared_context?: string;
+  flow_lint_config?: FlowLintConfig | null;
 }
 
 export interface DbAgentInsert {
@@ -122,6 +149,8 @@ export interface DbPromptVersionInsert {
   content: string;
   label: string;
   parent_version_id?: string | null;
+  branch?: string | null;
+  origin_version_id?: string | null;
   changes: VersionChange[];
   change_type?: string | null;
   change_details?: Record<string, string> | null;
@@ -141,6 +170,9 @@ export interface DbKnowledgeEntryInsert {
   usage_count: number;
   project_ids: string[];
   category?: string | null;
+  relations?: KnowledgeRelation[];
+  scope_kind?: KnowledgeScopeKind;
+  scope_value?: string | null;
 }
 
 export interface DbSuggestionDecisionInsert {
@@ -156,6 +188,21 @@ export interface DbSuggestionDecisionInsert {
   category: string;
   severity: string;
   saved_to_knowledge: boolean;
+  agent_id?: string | null;
+  knowledge_entry_ids?: string[];
+  version_id?: string | null;
+}
+
+export interface DbFlowTemplateInsert {
+  id: string;
+  device_id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  flow_data: FlowData;
+  variables?: FlowVariable[] | null;
+  placeholders: FlowTemplatePlaceholder[];
+  source_flow_id?: string | null;
 }
 
 // ── Mappers: DB -> App ──
@@ -197,6 +244,7 @@ export function mapDbProjectToApp(
     agents,
     currentAgentId: dbProject.current_agent_id,
     sharedContext: dbProject.shared_context || '',
+    flowLintConfig: dbProject.flow_lint_config || undefined,
   };
 }
 
@@ -208,6 +256,9 @@ export function mapDbVersionToApp(dbVersion: DbPromptVersion): PromptVersion {
     label: dbVersion.label,
     changes: dbVersion.changes,
     parentVersionId: dbVersion.parent_version_id || undefined,
+    // 'main' is stored explicitly in the table but implicit in the app
+    branch: dbVersion.branch && dbVersion.branch !== 'main' ? dbVersion.branch : undefined,
+    originVersionId: dbVersion.origin_version_id || undefined,
     changeType: (dbVersion.change_type as PromptVersion['changeType']) || undefined,
     changeDetails: dbVersion.change_details || undefined,
     chatHistory: dbVersion.chat_history || undefined,
@@ -228,6 +279,10 @@ export function mapDbKnowledgeEntryToApp(dbEntry: DbKnowledgeEntry): KnowledgeEn
     usageCount: dbEntry.usage_count,
     projectIds: dbEntry.project_ids,
     category: (dbEntry.category as KnowledgeCategory) || undefined,
+    relations: dbEntry.relations?.length ? dbEntry.relations : undefined,
+    scope: dbEntry.scope_kind && dbEntry.scope_kind !== 'global'
+      ? { kind: dbEntry.scope_kind, value: dbEntry.scope_value || undefined }
+      : undefined,
   };
 }
 
@@ -245,6 +300,24 @@ export function mapDbDecisionToApp(dbDecision: DbSuggestionDecision): Suggestion
     severity: dbDecision.severity,
     timestamp: new Date(dbDecision.created_at).getTime(),
     savedToKnowledge: dbDecision.saved_to_knowledge,
+    agentId: dbDecision.agent_id || undefined,
+    knowledgeEntryIds: dbDecision.knowledge_entry_ids?.length ? dbDecision.knowledge_entry_ids : undefined,
+    versionId: dbDecision.version_id || undefined,
+  };
+}
+
+export function mapDbFlowTemplateToApp(dbTemplate: DbFlowTemplate): SavedFlowTemplate {
+  return {
+    id: dbTemplate.id,
+    name: dbTemplate.name,
+    description: dbTemplate.description,
+    tags: dbTemplate.tags,
+    flowData: dbTemplate.flow_data,
+    variables: dbTemplate.variables || undefined,
+    placeholders: dbTemplate.placeholders,
+    sourceFlowId: dbTemplate.source_flow_id || undefined,
+    createdAt: new Date(dbTemplate.created_at).getTime(),
+    updatedAt: new Date(dbTemplate.updated_at).getTime(),
   };
 }
 
@@ -261,6 +334,7 @@ export function mapAppProjectToDbInsert(project: Project, deviceId: string): DbP
     tags: project.tags,
     current_agent_id: project.currentAgentId || null,
     shared_context: project.sharedContext || '',
+    flow_lint_config: project.flowLintConfig || null,
   };
 }
 
@@ -286,6 +360,8 @@ export function mapAppVersionToDbInsert(version: PromptVersion, agentId: string)
     content: version.content,
     label: version.label,
     parent_version_id: version.parentVersionId || null,
+    branch: version.branch || 'main',
+    origin_version_id: version.originVersionId || null,
     changes: version.changes || [],
     change_type: version.changeType || null,
     change_details: version.changeDetails || null,
@@ -307,6 +383,9 @@ export function mapAppKnowledgeEntryToDbInsert(entry: KnowledgeEntry, deviceId:
     usage_count: entry.usageCount,
     project_ids: entry.projectIds,
     category: entry.category || null,
+    relations: entry.relations || [],
+    scope_kind: entry.scope?.kind || 'global',
+    scope_value: entry.scope?.value || null,
   };
 }
 
@@ -324,5 +403,22 @@ export function mapAppDecisionToDbInsert(decision: SuggestionDecision, deviceId:
     category: decision.category,
     severity: decision.severity,
     saved_to_knowledge: decision.savedToKnowledge,
+    agent_id: decision.agentId || null,
+    knowledge_entry_ids: decision.knowledgeEntryIds || [],
+    version_id: decision.versionId || null,
+  };
+}
+
+export function mapAppFlowTemplateToDbInsert(template: SavedFlowTemplate, deviceId: string): DbFlowTemplateInsert {
+  return {
+    id: template.id,
+    device_id: deviceId,
+    name: template.name,
+    description: template.description,
+    tags: template.tags,
+    flow_data: template.flowData,
+    variables: template.variables || null,
+    placeholders: template.placeholders,
+    source_flow_id: template.sourceFlowId || null,
   };
 }
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildAgentFlowMap, collectCrossFlowLinks } from '../agentFlowMap';
+import type { FlowNode, NamedFlow } from '@/types/flow';
+
+const node = (id: string, label: string, crossFlowRef?: string): FlowNode => ({
+  id,
+  type: 'end',
+  label,
+  position: { x: 0, y: 0 },
+  data: crossFlowRef ? { crossFlowRef } : undefined,
+});
+
+const flow = (id: string, ...nodes: FlowNode[]): NamedFlow => ({
+  id,
+  name: id,
+  flowData: { nodes, edges: [] },
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+// entrada -> calificacion <-> objeciones, entrada -> (borrado), seguimiento -> seguimiento, soporte alone
+const flows = [
+  flow('entrada', node('n1', 'Ir a calificacion', 'calificacion'), node('n2', 'Ir a precios', 'borrado'), node('n3', 'Fin')),
+  flow('calificacion', node('n1', 'Ir a objeciones', 'objeciones')),
+  flow('objeciones', node('n1', 'Volver a calificar', 'calificacion')),
+  flow('seguimiento', node('n1', 'Reintentar', 'seguimiento')),
+  flow('soporte'),
+];
+
+describe('collectCrossFlowLinks', () => {
+  it('makes one link per node that points at another flow', () => {
+    expect(collectCrossFlowLinks(flows).slice(0, 2)).toEqual([
+      { id: 'entrada:n1', sourceFlowId: 'entrada', sourceNodeId: 'n1', sourceNodeLabel: 'Ir a calificacion', targetFlowId: 'calificacion', broken: false },
+      { id: 'entrada:n2', sourceFlowId: 'entrada', sourceNodeId: 'n2', sourceNodeLabel: 'Ir a precios', targetFlowId: 'borrado', broken: true },
+    ]);
+    expect(collectCrossFlowLinks(flows)).toHaveLength(5);
+  });
+});
+
+describe('buildAgentFlowMap', () => {
+  it('reports broken links, cycles and self loops', () => {
+    const map = buildAgentFlowMap(flows);
+    expect(map.brokenLinks.map((l) => l.id)).toEqual(['entrada:n2']);
+    expect(map.cycles).toEqual([['calificacion', 'objeciones'], ['seguimiento']]);
+  });
+
+  it('places flows in columns counted from the flows nobody links to', () => {
+    expect(buildAgentFlowMap(flows).depthByFlow).toEqual({
+      entrada: 0,
+      calificacion: 1,
+      objeciones: 2,
+      seguimiento: 0,
+      soporte: 0,
+    });
+  });
+
+  it('starts a cycle nobody enters from its first flow', () => {
+    const loop = [flow('a', node('n1', 'Ir a b', 'b')), flow('b', node('n1', 'Ir a a', 'a'))];
+    expect(buildAgentFlowMap(loop).depthByFlow).toEqual({ a: 0, b: 1 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { hasStructuredChanges, parseChanges, parseStreamingChanges } from '../changeParser';
+
+const intro = 'Revisé el prompt y propongo dos cambios.';
+
+const firstChange = `### 1. [Confirmar horario]
+**Sección:** CIERRE
+**Acción:** Reemplazar
+**Antes:** "Mandar el link del calendario."
+**Después:**
+\`\`\`
+Mandar el link y confirmar el horario.
+\`\`\`
+**Aprendizajes:** 2, 5
+**Razón:** Evita que falten a la llamada`;
+
+const secondChange = `### 2. Regla de precios
+**Sección:** OBJECIONES
+**Acción:** Insertar nueva regla
+**Nueva regla:** 'No dar precios antes de calificar'
+**Ubicación:** Al final de la sección
+**Razón:** Los leads frios preguntan precio primero`;
+
+const response = `${intro}
+
+## MODIFICACIONES SECCIÓN POR SECCIÓN
+
+${firstChange}
+
+${secondChange}
+
+## 📝 PARA DOCUMENTAR
+Cambio de cierre pedido por Maria.`;
+
+describe('parseChanges', () => {
+  it('turns each ### block into a change with an index-based id', () => {
+    const { changes, remainingContent } = parseChanges(response);
+
+    expect(changes).toEqual([
+      {
+        id: 'change-1',
+        index: 1,
+        title: 'Confirmar horario',
+        section: 'CIERRE',
+        action: 'replace',
+        beforeText: 'Mandar el link del calendario.',
+        afterText: 'Mandar el link y confirmar el horario.',
+        location: undefined,
+        reason: 'Evita que falten a la llamada',
+        learningRefs: [2, 5],
+      },
+      {
+        id: 'change-2',
+        index: 2,
+        title: 'Regla de precios',
+        section: 'OBJECIONES',
+        action: 'insert',
+        beforeText: undefined,
+        afterText: 'No dar precios antes de calificar',
+        location: 'Al final de la sección',
+        reason: 'Los leads frios preguntan precio primero',
+        learningRefs: undefined,
+      },
+    ]);
+    expect(remainingContent).toBe(`${intro}\n\n## 📝 PARA DOCUMENTAR\nCambio de cierre pedido por Maria.`);
+  });
+
+  it('skips blocks without a section or reason but keeps the numbering', () => {
+    const content = `## Modificaciones seccion por seccion\n\n### 1. Sin razon\n**Sección:** TONO\n\n${secondChange}`;
+    expect(parseChanges(content).changes.map((c) => c.id)).toEqual(['change-2']);
+  });
+
+  it('leaves responses without the modifications header untouched', () => {
+    expect(hasStructuredChanges(intro)).toBe(false);
+    expect(parseChanges(intro)).toEqual({ changes: [], remainingContent: intro });
+  });
+});
+
+describe('parseStreamingChanges', () => {
+  const header = `${intro}\n\n## MODIFICACIONES SECCIÓN POR SECCIÓN\n\n`;
+
+  it('holds back the block that is still being written', () => {
+    const partial = parseStreamingChanges(`${header}${firstChange}\n\n### 2. Regla de pre`);
+    expect(partial.changes.map((c) => c.id)).toEqual(['change-1']);
+    expect(partial.hasPendingChange).toBe(true);
+
+    const onlyFirst = parseStreamingChanges(`${header}${firstChange}`);
+    expect(onlyFirst.changes).toEqual([]);
+    expect(onlyFirst.hasPendingChange).toBe(true);
+  });
+
+  it('closes the last block on a separator or the PARA DOCUMENTAR section', () => {
+    const separated = parseStreamingChanges(`${header}${firstChange}\n\n---\n`);
+    expect(separated.changes.map((c) => c.id)).toEqual(['change-1']);
+    expect(separated.hasPendingChange).toBe(false);
+
+    const done = parseStreamingChanges(response);
+    expect(done.changes).toEqual(parseChanges(response).changes);
+    expect(done.hasPendingChange).toBe(false);
+  });
+
+  it('keeps the ids stable as the buffer grows', () => {
+    const early = parseStreamingChanges(`${header}${firstChange}\n\n### 2.`);
+    const late = parseStreamingChanges(response);
+    expect(late.changes[0]).toEqual(early.changes[0]);
+  });
+});
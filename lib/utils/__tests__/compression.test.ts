@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  mergeCompressionSuggestions,
+  redundancyToCompressionSuggestions,
+  summarizeOptimization,
+} from '../compression';
+import type { CompressionSuggestion, RedundancyResult } from '@/types/optimization';
+
+const prompt = 'No uses emojis. Responde corto. No uses emojis. Pregunta el presupuesto antes de ofrecer la llamada.';
+
+const redundancy: RedundancyResult = {
+  phrases: [
+    { id: 'p1', phrase: 'no uses emojis', occurrences: 2, locations: [1], estimatedTokens: 4 },
+    { id: 'p2', phrase: 'no existe en el prompt', occurrences: 2, locations: [], estimatedTokens: 6 },
+  ],
+  totalRedundantTokens: 10,
+  redundancyScore: 3,
+};
+
+const suggestion = (id: string, originalText: string, compressedText: string, startIndex: number): CompressionSuggestion => ({
+  id,
+  originalText,
+  compressedText,
+  tokenSavings: 99,
+  clarityImpact: 'minimal',
+  category: 'verbose',
+  startIndex,
+  endIndex: startIndex + originalText.length,
+});
+
+describe('redundancyToCompressionSuggestions', () => {
+  it('removes the last copy of each repeated phrase with its terminator', () => {
+    const [local, ...rest] = redundancyToCompressionSuggestions(prompt, redundancy);
+
+    expect(rest).toEqual([]);
+    expect(local).toEqual({
+      id: 'local-p1',
+      originalText: 'No uses emojis. ',
+      compressedText: '',
+      tokenSavings: 4,
+      clarityImpact: 'none',
+      category: 'redundant',
+      startIndex: 32,
+      endIndex: 48,
+    });
+    expect(prompt.slice(0, local.startIndex) + prompt.slice(local.endIndex))
+      .toBe('No uses emojis. Responde corto. Pregunta el presupuesto antes de ofrecer la llamada.');
+  });
+});
+
+describe('mergeCompressionSuggestions', () => {
+  it('drops model suggestions that overlap local ones, repeat known phrases or save nothing', () => {
+    const local = redundancyToCompressionSuggestions(prompt, redundancy);
+    const remote = [
+      suggestion('overlap', 'No uses emojis. Pregunta', 'Pregunta', 32),
+      suggestion('known', 'No  uses EMOJIS.', '', 0),
+      suggestion('longer', 'corto', 'muy corto', 25),
+      suggestion('keep', 'Pregunta el presupuesto antes de ofrecer la llamada.', 'Califica antes de la llamada.', 48),
+    ];
+
+    const merged = mergeCompressionSuggestions(local, remote, ['no uses emojis']);
+
+    expect(merged.map((s) => [s.id, s.tokenSavings])).toEqual([
+      ['keep', 5],
+      ['local-p1', 4],
+    ]);
+  });
+});
+
+describe('summarizeOptimization', () => {
+  it('totals the savings of the suggestions', () => {
+    const local = redundancyToCompressionSuggestions(prompt, redundancy);
+    expect(summarizeOptimization(prompt, local)).toEqual({
+      suggestions: local,
+      totalPotentialSavings: 4,
+      originalTokenCount: 25,
+      optimizedTokenCount: 21,
+    });
+    expect(summarizeOptimization('hola', [{ ...local[0], tokenSavings: 10 }]).optimizedTokenCount).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractNodeTag,
+  runSimulatedConversation,
+  type SimulationModelClient,
+  type SimulationRequest,
+} from '../conversationSimulator';
+import type { FlowData, FlowTestCase } from '@/types/flow';
+
+const flow: FlowData = {
+  nodes: [
+    { id: 'start', type: 'start', label: 'Inicio', position: { x: 0, y: 0 } },
+    { id: 'ask-age', type: 'action', label: 'Preguntar edad', position: { x: 0, y: 100 } },
+    { id: 'offer', type: 'action', label: 'Ofrecer llamada', position: { x: 0, y: 200 } },
+  ],
+  edges: [
+    { id: 'e1', source: 'start', target: 'ask-age' },
+    { id: 'e2', source: 'ask-age', target: 'offer' },
+  ],
+};
+
+const testCase: FlowTestCase = {
+  id: 'tc-1',
+  name: 'Lead ideal agenda',
+  description: 'Quiere agendar',
+  triggerMessage: 'Hola! vi tu video',
+  personaId: 'ideal',
+  expectedBehavior: 'Califica y ofrece la llamada',
+  expectedOutcome: 'converted',
+  redFlags: ['Da el precio antes de calificar'],
+  nodesExpectedToVisit: ['ask-age', 'offer'],
+};
+
+const judgeReply = (outcome: string, triggeredRedFlags: string[] = []) =>
+  JSON.stringify({ outcome, triggeredRedFlags, reasoning: 'ok' });
+
+/**
+ * Offline client: scripted replies per role, and every request is recorded.
+ */
+function scriptedClient(script: { agent: string[]; lead: string[]; judge: string }) {
+  const requests: SimulationRequest[] = [];
+  const turns = { agent: 0, lead: 0 };
+  const client: SimulationModelClient = {
+    async complete(request) {
+      requests.push(request);
+      if (request.role === 'judge') return script.judge;
+      const replies = script[request.role];
+      const reply = replies[Math.min(turns[request.role]++, replies.length - 1)];
+      return reply;
+    },
+  };
+  return { client, requests };
+}
+
+describe('extractNodeTag', () => {
+  it('strips the tag and keeps only ids of the flow', () => {
+    const result = extractNodeTag('Cuantos años tenes?\n<nodos>ask-age, unknown ,offer</nodos>', new Set(['ask-age', 'offer']));
+    expect(result).toEqual({ content: 'Cuantos años tenes?', nodeIds: ['ask-age', 'offer'] });
+  });
+
+  it('returns no ids without a tag', () => {
+    expect(extractNodeTag('Hola!', new Set(['start']))).toEqual({ content: 'Hola!', nodeIds: [] });
+  });
+});
+
+describe('runSimulatedConversation', () => {
+  it('alternates agent and lead until the lead ends the conversation', async () => {
+    const { client, requests } = scriptedClient({
+      agent: ['Hola! cuantos años tenes? <nodos>start,ask-age</nodos>', 'Te ofrezco una llamada <nodos>offer</nodos>'],
+      lead: ['Tengo 30', '[FIN]'],
+      judge: judgeReply('converted'),
+    });
+
+    const run = await runSimulatedConversation(testCase, flow, 'Sos el asistente', client);
+
+    expect(run.status).toBe('passed');
+    expect(run.actualOutcome).toBe('converted');
+    expect(run.transcript.map((t) => t.role)).toEqual(['lead', 'agent', 'lead', 'agent']);
+    expect(run.transcript[1]).toEqual({ role: 'agent', content: 'Hola! cuantos años tenes?', nodeIds: ['start', 'ask-age'] });
+    expect(run.visitedNodeIds).toEqual(['start', 'ask-age', 'offer']);
+    expect(run.missedNodeIds).toEqual([]);
+    expect(requests.map((r) => r.role)).toEqual(['agent', 'lead', 'agent', 'lead', 'judge']);
+  });
+
+  it('shows each side the other as the user', async () => {
+    const { client, requests } = scriptedClient({
+      agent: ['Hola <nodos></nodos>'],
+      lead: ['[FIN]'],
+      judge: judgeReply('converted'),
+    });
+
+    await runSimulatedConversation(testCase, flow, 'Sos el asistente', client);
+
+    const [agentRequest, leadRequest] = requests;
+    expect(agentRequest.system).toContain('Sos el asistente');
+    expect(agentRequest.messages).toEqual([{ role: 'user', content: 'Hola! vi tu video' }]);
+    expect(leadRequest.messages).toEqual([
+      { role: 'assistant', content: 'Hola! vi tu video' },
+      { role: 'user', content: 'Hola' },
+    ]);
+  });
+
+  it('stops at maxTurns and tells the judge the conversation was cut', async () => {
+    const { client, requests } = scriptedClient({
+      agent: ['Contame mas <nodos>ask-age</nodos>'],
+      lead: ['Mmm no se'],
+      judge: judgeReply('timeout'),
+    });
+
+    const run = await runSimulatedConversation(testCase, flow, 'Sos el asistente', client, { maxTurns: 2 });
+
+    expect(run.transcript).toHaveLength(5);
+    expect(requests.filter((r) => r.role === 'agent')).toHaveLength(2);
+    expect(requests.at(-1)!.messages[0].content).toContain('cortada por límite de turnos');
+    expect(run.status).toBe('failed');
+    expect(run.actualOutcome).toBe('timeout');
+    expect(run.missedNodeIds).toEqual(['offer']);
+  });
+
+  it('fails when the judge reports a red flag even with the expected outcome', async () => {
+    const { client, requests } = scriptedClient({
+      agent: ['Sale 500 USD <nodos>offer</nodos>'],
+      lead: ['[FIN]'],
+      judge: judgeReply('converted', ['Da el precio antes de calificar']),
+    });
+
+    const run = await runSimulatedConversation(testCase, flow, 'Sos el asistente', client);
+
+    expect(requests.at(-1)!.messages[0].content).toContain('- Da el precio antes de calificar');
+    expect(run.status).toBe('failed');
+    expect(run.triggeredRedFlags).toEqual(['Da el precio antes de calificar']);
+  });
+
+  it('reports an error run when the judge answer is not valid', async () => {
+    const { client } = scriptedClient({
+      agent: ['Hola <nodos>start</nodos>'],
+      lead: ['[FIN]'],
+      judge: '{"outcome": "maybe"}',
+    });
+
+    const run = await runSimulatedConversation(testCase, flow, 'Sos el asistente', client);
+
+    expect(run.status).toBe('error');
+    expect(run.error).toContain('maybe');
+    expect(run.visitedNodeIds).toEqual(['start']);
+  });
+
+  it('reports an error run when the model client fails', async () => {
+    const client: SimulationModelClient = {
+      async complete() {
+        throw new Error('sin red');
+      },
+    };
+
+    const run = await runSimulatedConversation(testCase, flow, 'Sos el asistente', client);
+
+    expect(run.status).toBe('error');
+    expect(run.error).toBe('sin red');
+    expect(run.transcript).toEqual([{ role: 'lead', content: 'Hola! vi tu video' }]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createEventStream, readEventStream, type StreamEvent } from '../eventStream';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+// Response whose body arrives in the given byte chunks
+function chunkedResponse(text: string, cuts: number[]): Response {
+  const bytes = new TextEncoder().encode(text);
+  const bounds = [0, ...cuts, bytes.length];
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bounds.length - 1; i++) controller.enqueue(bytes.slice(bounds[i], bounds[i + 1]));
+      controller.close();
+    },
+  }));
+}
+
+describe('createEventStream', () => {
+  it('frames every event as event and JSON data lines', async () => {
+    const stream = createEventStream(async (send) => {
+      send('delta', { text: 'Hola' });
+      send('done', { ok: true });
+    });
+
+    expect(await readAll(stream)).toBe('event: delta\ndata: {"text":"Hola"}\n\nevent: done\ndata: {"ok":true}\n\n');
+  });
+
+  it('ends with an error event when the producer throws', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stream = createEventStream(async (send) => {
+      send('delta', { text: 'Ho' });
+      throw new Error('Se corto la API');
+    });
+
+    expect(await readAll(stream)).toBe('event: delta\ndata: {"text":"Ho"}\n\nevent: error\ndata: {"error":"Se corto la API"}\n\n');
+    consoleError.mockRestore();
+  });
+
+  it('stops sending once the client cancels', async () => {
+    const onCancel = vi.fn();
+    let release = () => {};
+    let finished = false;
+    const stream = createEventStream(async (send) => {
+      send('delta', { text: 'uno' });
+      await new Promise<void>((resolve) => { release = resolve; });
+      // Would throw on a cancelled stream if it still enqueued
+      send('delta', { text: 'dos' });
+      finished = true;
+    }, onCancel);
+
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onCancel).toHaveBeenCalledOnce();
+    expect(finished).toBe(true);
+  });
+});
+
+describe('readEventStream', () => {
+  it('reassembles frames and characters split across chunks', async () => {
+    const text = 'event: delta\ndata: {"text":"Razón"}\n\n: keep-alive\n\ndata: [1, 2]\n\nevent: done\ndata: {}';
+    const events: StreamEvent[] = [];
+
+    await readEventStream(chunkedResponse(text, [5, 32, 40]), (e) => events.push(e));
+
+    expect(events).toEqual([
+      { event: 'delta', data: { text: 'Razón' } },
+      { event: 'message', data: [1, 2] },
+      { event: 'done', data: {} },
+    ]);
+  });
+
+  it('skips malformed frames', async () => {
+    const events: StreamEvent[] = [];
+    await readEventStream(chunkedResponse('data: {roto\n\ndata: "ok"\n\n', []), (e) => events.push(e));
+    expect(events).toEqual([{ event: 'message', data: 'ok' }]);
+  });
+
+  it('round-trips what createEventStream sends', async () => {
+    const events: StreamEvent[] = [];
+    const stream = createEventStream(async (send) => {
+      send('delta', { text: 'línea 1\nlínea 2' });
+    });
+
+    await readEventStream(new Response(stream), (e) => events.push(e));
+    expect(events).toEqual([{ event: 'delta', data: { text: 'línea 1\nlínea 2' } }]);
+  });
+
+  it('rejects responses without a body', async () => {
+    await expect(readEventStream(new Response(null), () => {})).rejects.toThrow('Response has no body to stream');
+  });
+});
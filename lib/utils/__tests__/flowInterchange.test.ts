@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { flowDataToFile, parseFlowFile } from '../flowInterchange';
+import type { FlowData, FlowEdge, FlowFileFormat, FlowNode } from '@/types/flow';
+
+const node = (id: string, type: FlowNode['type'], label: string, data?: FlowNode['data']): FlowNode => ({
+  id,
+  type,
+  label,
+  position: { x: 0, y: 0 },
+  data,
+});
+
+const edge = (source: string, target: string, extra: Partial<FlowEdge> = {}): FlowEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  ...extra,
+});
+
+const typedFlow: FlowData = {
+  nodes: [
+    node('start', 'start', 'Inicio'),
+    node('ask', 'decision', 'Tiene presupuesto?', { condition: 'Dice un monto "concreto"\nen dolares' }),
+    node('vsl', 'resource', 'Mandar VSL', { description: 'Con un mensaje corto', resource: { kind: 'vsl', url: 'https://ejemplo.com/v?a=1&b=2' } }),
+    node('wait', 'wait', 'Esperar respuesta', { delay: { amount: 2, unit: 'days' }, instructions: 'Si no contesta, \\ seguir' }),
+    node('closer', 'handoff', 'Pasar al closer', { handoff: { target: 'closer', channel: 'whatsapp' } }),
+    node('bye', 'end', 'Despedida', { keywords: ['chau', 'gracias'] }),
+  ],
+  edges: [
+    edge('start', 'ask'),
+    edge('ask', 'vsl', { sourceHandle: 'yes', label: 'Si' }),
+    edge('ask', 'bye', { sourceHandle: 'no', label: 'No' }),
+    edge('vsl', 'wait'),
+    edge('wait', 'closer'),
+  ],
+};
+
+const byLabel = (data: FlowData) => Object.fromEntries(data.nodes.map((n) => [n.label, { type: n.type, data: n.data }]));
+const links = (data: FlowData) => {
+  const labels = new Map(data.nodes.map((n) => [n.id, n.label]));
+  return data.edges.map((e) => `${labels.get(e.source)} -${e.sourceHandle ?? ''}-> ${labels.get(e.target)}`).sort();
+};
+
+describe('flow file round trips', () => {
+  it.each<FlowFileFormat>(['mermaid', 'dot', 'drawio'])('keeps types, node data and branches through %s', (format) => {
+    const parsed = parseFlowFile(flowDataToFile(typedFlow, 'Calificación', format), format)!;
+
+    expect(byLabel(parsed)).toEqual(byLabel(typedFlow));
+    expect(links(parsed)).toEqual(links(typedFlow));
+  });
+
+  it('never gives a node the Mermaid keyword end as its id', () => {
+    const lines = flowDataToFile(typedFlow, 'Calificación', 'mermaid')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('graph') && !line.startsWith('%%'));
+    const ids = lines.flatMap((line) => {
+      const tokens = line.split(/\s+/);
+      return [tokens[0].match(/^\w+/)![0], ...(line.includes('-->') ? [tokens.at(-1)!] : [])];
+    });
+
+    expect(ids).toContain('end1');
+    expect(ids).not.toContain('end');
+  });
+
+  it('keeps node ids and positions through draw.io', () => {
+    const positioned: FlowData = {
+      ...typedFlow,
+      nodes: typedFlow.nodes.map((n, i) => ({ ...n, position: { x: i * 100, y: i * 50 } })),
+    };
+    const parsed = parseFlowFile(flowDataToFile(positioned, 'Calificación', 'drawio'))!;
+
+    expect(parsed.nodes.map((n) => [n.id, n.position])).toEqual(positioned.nodes.map((n) => [n.id, n.position]));
+  });
+
+  it('falls back to the label text for files written by other tools', () => {
+    const parsed = parseFlowFile('graph TD\n  A([Inicio]) --> B["Saludar: Presentarse"]\n  B --> C([Fin])')!;
+    expect(parsed.nodes.find((n) => n.label === 'Saludar')!.data).toEqual({ description: 'Presentarse' });
+  });
+});
+
+describe('draw.io cell ids', () => {
+  it('re-imports a DOT graph with numeric ids exported to draw.io', () => {
+    const fromDot = parseFlowFile('digraph { 1 -> 2 }')!;
+    const xml = flowDataToFile(fromDot, 'Numeros', 'drawio');
+
+    expect(xml).not.toMatch(/<mxCell id="1" parent="1"/);
+    const parsed = parseFlowFile(xml)!;
+    expect(parsed.nodes.map((n) => n.id)).toEqual(['1', '2']);
+    expect(parsed.edges.map((e) => [e.source, e.target])).toEqual([['1', '2']]);
+  });
+
+  it('does not take vertices for edge labels when an edge id matches the root layer', () => {
+    const flow: FlowData = {
+      nodes: [node('a', 'start', 'Inicio'), node('b', 'end', 'Fin')],
+      edges: [{ id: '1', source: 'a', target: 'b' }],
+    };
+    const parsed = parseFlowFile(flowDataToFile(flow, 'Flujo', 'drawio'));
+    expect(parsed?.nodes.map((n) => n.id)).toEqual(['a', 'b']);
+  });
+
+  it('stops at cells that are their own ancestors', () => {
+    const xml = `<mxGraphModel><root>
+      <mxCell id="0" />
+      <mxCell id="a" value="Paso A" vertex="1" parent="b"><mxGeometry x="10" y="10" as="geometry" /></mxCell>
+      <mxCell id="b" value="Paso B" vertex="1" parent="a"><mxGeometry x="20" y="20" as="geometry" /></mxCell>
+      <mxCell id="e" edge="1" parent="0" source="a" target="b" />
+    </root></mxGraphModel>`;
+
+    expect(parseFlowFile(xml)!.nodes.map((n) => n.position)).toEqual([{ x: 30, y: 30 }, { x: 30, y: 30 }]);
+  });
+});
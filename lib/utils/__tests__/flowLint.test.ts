@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { getLintRules, registerLintRule, resolveRuleSeverity, runLint } from '../flowLint';
+import type { FlowData, FlowEdge, FlowNode } from '@/types/flow';
+
+const node = (id: string, type: FlowNode['type'], label: string, data?: FlowNode['data']): FlowNode => ({
+  id,
+  type,
+  label,
+  position: { x: 0, y: 0 },
+  data,
+});
+
+const edge = (source: string, target: string, extra: Partial<FlowEdge> = {}): FlowEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  ...extra,
+});
+
+// start -> greet -> qualify -> yes: book (calendar) / no: bye
+const cleanFlow: FlowData = {
+  nodes: [
+    node('start', 'start', 'Inicio'),
+    node('greet', 'action', 'Saludar'),
+    node('wait', 'wait', 'Esperar respuesta', { delay: { amount: 1, unit: 'hours' } }),
+    node('qualify', 'decision', 'Califica?'),
+    node('book', 'resource', 'Mandar calendario', { resource: { kind: 'calendar', url: 'https://cal.com/maria' } }),
+    node('bye', 'end', 'Despedida'),
+    node('done', 'end', 'Agendado'),
+  ],
+  edges: [
+    edge('start', 'greet'),
+    edge('greet', 'wait'),
+    edge('wait', 'qualify'),
+    edge('qualify', 'book', { sourceHandle: 'yes', label: 'Si' }),
+    edge('qualify', 'bye', { sourceHandle: 'no', label: 'No' }),
+    edge('book', 'done'),
+  ],
+};
+
+const rulesOf = (data: FlowData, options?: Parameters<typeof runLint>[1]) => runLint(data, options).map((w) => w.rule);
+
+describe('runLint', () => {
+  it('finds nothing in a well-formed flow', () => {
+    expect(runLint(cleanFlow)).toEqual([]);
+    expect(runLint({ nodes: [], edges: [] })).toEqual([]);
+  });
+
+  it('reports structure problems sorted by severity', () => {
+    const broken: FlowData = {
+      nodes: [...cleanFlow.nodes, node('orphan', 'action', 'Suelto')],
+      edges: cleanFlow.edges.filter((e) => e.id !== 'qualify-bye'),
+    };
+    const warnings = runLint(broken);
+
+    expect(warnings.map((w) => w.rule)).toEqual([
+      'unreachable-node', 'unreachable-node', 'dead-end-node', 'decision-insufficient-branches',
+    ]);
+    expect(warnings[0].id).toBe('unreachable-node-bye');
+  });
+
+  it('applies quick-fixes that clear their own finding', () => {
+    const noEnd: FlowData = {
+      nodes: [node('start', 'start', 'Inicio'), node('ask', 'decision', 'Califica?'), node('yes', 'handoff', 'Pasar al closer')],
+      edges: [edge('start', 'ask'), edge('ask', 'yes', { sourceHandle: 'yes', label: 'Si' })],
+    };
+    const finding = runLint(noEnd).find((w) => w.rule === 'decision-insufficient-branches')!;
+    expect(finding.fix!.label).toBe('Agregar rama "No"');
+
+    const fixed = finding.fix!.apply(noEnd);
+    expect(fixed.edges.at(-1)).toMatchObject({ source: 'ask', sourceHandle: 'no', label: 'No' });
+    expect(rulesOf(fixed)).not.toContain('decision-insufficient-branches');
+  });
+
+  it('checks the data of typed nodes', () => {
+    const data: FlowData = {
+      ...cleanFlow,
+      nodes: cleanFlow.nodes.map((n) =>
+        n.id === 'wait' ? { ...n, data: { delay: { amount: 0, unit: 'hours' } } }
+        : n.id === 'book' ? { ...n, data: { resource: { kind: 'calendar' } } }
+        : n
+      ),
+    };
+    expect(rulesOf(data)).toEqual(['wait-missing-delay', 'resource-missing-url']);
+  });
+
+  it('flags price talk and too many messages before the lead answers', () => {
+    const data: FlowData = {
+      nodes: [
+        node('start', 'start', 'Inicio'),
+        node('a', 'action', 'Saludar'),
+        node('b', 'action', 'Contar el programa', { description: 'El precio es 500 USD' }),
+        node('c', 'action', 'Mostrar testimonios'),
+        node('d', 'action', 'Invitar a una llamada'),
+        node('q', 'decision', 'Le interesa?'),
+        node('yes', 'end', 'Agendado'),
+        node('no', 'end', 'Despedida'),
+      ],
+      edges: [
+        edge('start', 'a'), edge('a', 'b'), edge('b', 'c'), edge('c', 'd'), edge('d', 'q'),
+        edge('q', 'yes', { sourceHandle: 'yes' }), edge('q', 'no', { sourceHandle: 'no' }),
+      ],
+    };
+    const warnings = runLint(data);
+    expect(warnings.map((w) => [w.rule, w.nodeId])).toEqual([
+      ['price-before-qualification', 'b'],
+      ['consecutive-agent-messages', 'd'],
+    ]);
+
+    const fixed = warnings[1].fix!.apply(data);
+    expect(fixed.nodes.at(-1)!.type).toBe('wait');
+    expect(rulesOf(fixed)).not.toContain('consecutive-agent-messages');
+    expect(rulesOf(data, { config: { maxConsecutiveMessages: 4 } })).not.toContain('consecutive-agent-messages');
+  });
+
+  it('follows the project config', () => {
+    const noBooking: FlowData = {
+      nodes: [node('start', 'start', 'Inicio'), node('bye', 'end', 'Despedida')],
+      edges: [edge('start', 'bye')],
+    };
+    expect(runLint(noBooking).map((w) => [w.rule, w.severity])).toEqual([['no-path-to-booking', 'info']]);
+    expect(runLint(noBooking, { config: { rules: { 'no-path-to-booking': { severity: 'error' } } } })[0].severity).toBe('error');
+    expect(runLint(noBooking, { config: { rules: { 'no-path-to-booking': { enabled: false } } } })).toEqual([]);
+  });
+});
+
+describe('rule registry', () => {
+  it('runs registered rules next to the built-in ones', () => {
+    registerLintRule({
+      id: 'test-no-emojis',
+      label: 'Sin emojis',
+      description: 'Etiquetas sin emojis',
+      category: 'business',
+      severity: 'info',
+      check: (ctx) =>
+        ctx.data.nodes
+          .filter((n) => /[\u{1F300}-\u{1FAFF}]/u.test(n.label))
+          .map((n) => ({ message: 'Tiene emojis', nodeId: n.id })),
+    });
+    const withEmoji: FlowData = {
+      ...cleanFlow,
+      nodes: cleanFlow.nodes.map((n) => (n.id === 'greet' ? { ...n, label: 'Saludar \u{1F44B}' } : n)),
+    };
+
+    expect(getLintRules().map((r) => r.id)).toContain('test-no-emojis');
+    expect(rulesOf(withEmoji)).toEqual(['test-no-emojis']);
+  });
+
+  it('resolves the severity a rule runs with', () => {
+    const rule = getLintRules().find((r) => r.id === 'self-loop')!;
+    expect(resolveRuleSeverity(rule)).toBe('warning');
+    expect(resolveRuleSeverity(rule, { rules: { 'self-loop': { severity: 'info' } } })).toBe('info');
+    expect(resolveRuleSeverity(rule, { rules: { 'self-loop': { enabled: false } } })).toBeNull();
+  });
+});
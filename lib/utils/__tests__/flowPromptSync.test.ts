@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectFlowSourceFormat,
+  locateFlowRegion,
+  mergeParsedFlow,
+  parseFlowRegion,
+  serializeFlowRegion,
+} from '../flowPromptSync';
+import { detectTextFlowStyle } from '../textFlowParser';
+import type { FlowData, FlowSourceOrigin } from '@/types/flow';
+
+const handWritten = `## FLUJO DE VENTAS
+Objetivo: calificar antes de ofrecer.
+
+1) Saludo inicial: Presentarse y preguntar de donde nos conoce
+2) Calificar: Preguntar edad y presupuesto
+   * Si califica -> Paso 3
+   * No califica -> Paso 4
+3) Agendar llamada: Mandar el link del calendario
+   -> Fin
+4) Despedida: Agradecer y cerrar`;
+
+const labels = (data: FlowData) => data.nodes.map((n) => `${n.type}:${n.label}`);
+const links = (data: FlowData) => {
+  const byId = new Map(data.nodes.map((n) => [n.id, n.label]));
+  return data.edges.map((e) => `${byId.get(e.source)} -${e.sourceHandle ?? ''}-> ${byId.get(e.target)}`).sort();
+};
+
+describe('detectFlowSourceFormat', () => {
+  it('tells app-written steps from hand-written ones', () => {
+    expect(detectFlowSourceFormat('## X\n1. [Inicio] Saludo\n2. [Fin] Chau')).toBe('steps');
+    expect(detectFlowSourceFormat('1. **Saludo inicial**: Presentarse\n2. **Calificar**')).toBe('text');
+    expect(detectFlowSourceFormat('<flow>{"nodes":[]}</flow>')).toBe('json');
+    expect(detectFlowSourceFormat('```mermaid\ngraph TD\n```')).toBeNull();
+    expect(detectFlowSourceFormat('Solo texto')).toBeNull();
+  });
+});
+
+describe('hand-written steps', () => {
+  it('parses a region the app did not write', () => {
+    const parsed = parseFlowRegion(handWritten, 'text', 'FLUJO DE VENTAS')!;
+
+    expect(labels(parsed)).toEqual([
+      'start:FLUJO DE VENTAS',
+      'action:Saludo inicial',
+      'decision:Calificar',
+      'end:Agendar llamada',
+      'end:Despedida',
+    ]);
+    expect(links(parsed)).toEqual([
+      'Calificar -no-> Despedida',
+      'Calificar -yes-> Agendar llamada',
+      'FLUJO DE VENTAS --> Saludo inicial',
+      'Saludo inicial --> Calificar',
+    ]);
+  });
+
+  it('detects the layout of the region', () => {
+    expect(detectTextFlowStyle(handWritten)).toEqual({ marker: ')', bold: false, bullet: '*', arrow: '->', indent: '   ' });
+    expect(detectTextFlowStyle('1. **Saludo**')).toMatchObject({ marker: '.', bold: true, bullet: '-', arrow: '→' });
+  });
+
+  it('writes the canvas back in the style of the region, keeping the text above the steps', () => {
+    const parsed = parseFlowRegion(handWritten, 'text', 'FLUJO DE VENTAS')!;
+    const text = serializeFlowRegion(parsed, 'text', 'FLUJO DE VENTAS', [], handWritten);
+
+    expect(text).toBe(`## FLUJO DE VENTAS
+Objetivo: calificar antes de ofrecer.
+
+1) Saludo inicial: Presentarse y preguntar de donde nos conoce
+2) Calificar: Preguntar edad y presupuesto
+   * Si califica -> Paso 3
+   * No califica -> Paso 4
+3) Agendar llamada: Mandar el link del calendario
+   -> Fin
+4) Despedida: Agradecer y cerrar
+   -> Fin`);
+    expect(text).not.toContain('[Accion]');
+  });
+
+  it('round-trips a canvas without changing it', () => {
+    const canvas = mergeParsedFlow({ nodes: [], edges: [] }, parseFlowRegion(handWritten, 'text', 'FLUJO DE VENTAS')!, 'text');
+    const text = serializeFlowRegion(canvas, 'text', 'FLUJO DE VENTAS', [], handWritten);
+    const merged = mergeParsedFlow(canvas, parseFlowRegion(text, 'text', 'FLUJO DE VENTAS')!, 'text');
+
+    expect(merged.nodes).toEqual(canvas.nodes);
+    expect(links(merged)).toEqual(links(canvas));
+    expect(serializeFlowRegion(merged, 'text', 'FLUJO DE VENTAS', [], text)).toBe(text);
+  });
+
+  it('merges a prompt edit into the canvas keeping ids, positions and types', () => {
+    const canvas = mergeParsedFlow({ nodes: [], edges: [] }, parseFlowRegion(handWritten, 'text', 'FLUJO DE VENTAS')!, 'text');
+    // A wait step the parser would read as an action
+    const saludo = canvas.nodes.find((n) => n.label === 'Saludo inicial')!;
+    const current: FlowData = {
+      ...canvas,
+      nodes: canvas.nodes.map((n) => (n.id === saludo.id ? { ...n, type: 'wait', position: { x: 7, y: 7 } } : n)),
+    };
+
+    const edited = handWritten
+      .replace('Saludo inicial: Presentarse', 'Saludo: Presentarse')
+      .replace('Calificar: Preguntar edad y presupuesto', 'Calificar: Preguntar presupuesto\n   * Ofrecer el programa -> Paso 4\n   * Cuenta que es menor -> Paso 4');
+    const merged = mergeParsedFlow(current, parseFlowRegion(edited, 'text', 'FLUJO DE VENTAS')!, 'text');
+
+    const renamed = merged.nodes.find((n) => n.id === saludo.id)!;
+    expect(renamed).toMatchObject({ label: 'Saludo', type: 'wait', position: { x: 7, y: 7 } });
+    // More than two branches turn the decision into a switch with one output per branch
+    const calificar = merged.nodes.find((n) => n.label === 'Calificar')!;
+    expect(calificar.type).toBe('switch');
+    expect(calificar.data?.description).toBe('Preguntar presupuesto');
+    expect(calificar.data?.outputs?.map((o) => o.label)).toEqual([
+      'Ofrecer el programa', 'Cuenta que es menor', 'Si califica', 'No califica',
+    ]);
+    const outputIds = new Set(calificar.data!.outputs!.map((o) => o.id));
+    expect(merged.edges.filter((e) => e.source === calificar.id).every((e) => outputIds.has(e.sourceHandle!))).toBe(true);
+    expect(merged.nodes).toHaveLength(canvas.nodes.length);
+  });
+
+  it('returns null for text that does not read as steps yet', () => {
+    expect(parseFlowRegion('## FLUJO DE VENTAS\nTodavia escribiendo...', 'text', 'FLUJO DE VENTAS')).toBeNull();
+  });
+
+  it('finds the region under its header when the synced text was edited', () => {
+    const prompt = `# Prompt\n\n${handWritten}\n\nImportante: nunca dar el precio.\n\n## OTRA SECCION\nTexto`;
+    const origin: FlowSourceOrigin = {
+      rawText: 'texto viejo',
+      name: 'FLUJO DE VENTAS',
+      headerAnchor: '## FLUJO DE VENTAS',
+      format: 'text',
+    };
+    expect(locateFlowRegion(prompt, origin)!.text).toBe(handWritten);
+  });
+});
+
+describe('app-written steps', () => {
+  it('round-trips through the [Tipo] format', () => {
+    const flow: FlowData = {
+      nodes: [
+        { id: 's', type: 'start', label: 'Inicio', position: { x: 0, y: 0 } },
+        { id: 'q', type: 'decision', label: 'Tiene interes?', position: { x: 0, y: 100 } },
+        { id: 'y', type: 'action', label: 'Ofrecer llamada', position: { x: 0, y: 200 }, data: { description: 'Con el link' } },
+        { id: 'n', type: 'end', label: 'Despedida', position: { x: 200, y: 200 } },
+      ],
+      edges: [
+        { id: 'e1', source: 's', target: 'q' },
+        { id: 'e2', source: 'q', target: 'y', sourceHandle: 'yes', label: 'Si' },
+        { id: 'e3', source: 'q', target: 'n', sourceHandle: 'no', label: 'No' },
+        { id: 'e4', source: 'y', target: 'n' },
+      ],
+    };
+    const text = serializeFlowRegion(flow, 'steps', 'FLUJO');
+    expect(detectFlowSourceFormat(text)).toBe('steps');
+
+    const merged = mergeParsedFlow(flow, parseFlowRegion(text, 'steps')!, 'steps');
+    expect(merged.nodes).toEqual(flow.nodes);
+    expect(links(merged)).toEqual(links(flow));
+  });
+});
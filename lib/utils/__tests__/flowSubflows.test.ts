@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSubflowResolver,
+  expandSubflows,
+  expandSubflowsInFlows,
+  getSubflowSources,
+  listSubflowSteps,
+  templateSubflowRef,
+  toCanvasNodeId,
+} from '../flowSubflows';
+import { detachFlowReferences } from '../flowTemplatePlaceholders';
+import type { FlowData, FlowEdge, FlowNode, NamedFlow, SavedFlowTemplate } from '@/types/flow';
+import type { Project } from '@/types/prompt';
+
+const node = (id: string, type: FlowNode['type'], label: string, data?: FlowNode['data']): FlowNode => ({
+  id,
+  type,
+  label,
+  position: { x: 0, y: 0 },
+  data,
+});
+
+const edge = (source: string, target: string, extra: Partial<FlowEdge> = {}): FlowEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  ...extra,
+});
+
+const named = (id: string, flowData: FlowData): NamedFlow => ({ id, name: id, flowData, createdAt: 0, updatedAt: 0 });
+
+// start -> age -> end
+const fragment = named('qualify', {
+  nodes: [node('start', 'start', 'Inicio'), node('age', 'action', 'Preguntar edad'), node('end', 'end', 'Fin')],
+  edges: [edge('start', 'age'), edge('age', 'end')],
+});
+
+const host: FlowData = {
+  nodes: [
+    node('start', 'start', 'Inicio'),
+    node('sub', 'subflow', 'Calificar', { subflowRef: 'qualify' }),
+    node('close', 'end', 'Cierre'),
+  ],
+  edges: [edge('start', 'sub', { label: 'entra' }), edge('sub', 'close')],
+};
+
+describe('expandSubflows', () => {
+  it('writes the fragment inline between the edges of the subflow node', () => {
+    const expanded = expandSubflows(host, createSubflowResolver([fragment]));
+
+    expect(expanded.nodes.map((n) => n.id)).toEqual(['start', 'close', 'sub/age']);
+    expect(expanded.edges.map((e) => [e.source, e.target, e.label])).toEqual([
+      ['start', 'sub/age', 'entra'],
+      ['sub/age', 'close', undefined],
+    ]);
+    expect(toCanvasNodeId('sub/age')).toBe('sub');
+  });
+
+  it('keeps the fragment ends when the subflow node has no exits', () => {
+    const dangling: FlowData = { nodes: host.nodes.slice(0, 2), edges: host.edges.slice(0, 1) };
+    const expanded = expandSubflows(dangling, createSubflowResolver([fragment]));
+    expect(expanded.nodes.map((n) => n.id)).toEqual(['start', 'sub/age', 'sub/end']);
+  });
+
+  it('leaves missing and recursive fragments as nodes', () => {
+    expect(expandSubflows(host, createSubflowResolver([]))).toBe(host);
+
+    const selfRef = named('loop', {
+      nodes: [node('start', 'start', 'Inicio'), node('again', 'subflow', 'Otra vez', { subflowRef: 'loop' })],
+      edges: [edge('start', 'again')],
+    });
+    const [expanded] = expandSubflowsInFlows([selfRef]);
+    expect(expanded.flowData.nodes.map((n) => n.id)).toEqual(['start', 'again']);
+  });
+
+  it('expands nested fragments with nested prefixes', () => {
+    const outer = named('outer', {
+      nodes: [node('start', 'start', 'Inicio'), node('inner', 'subflow', 'Calificar', { subflowRef: 'qualify' }), node('end', 'end', 'Fin')],
+      edges: [edge('start', 'inner'), edge('inner', 'end')],
+    });
+    const nested: FlowData = { ...host, nodes: host.nodes.map((n) => (n.id === 'sub' ? { ...n, data: { subflowRef: 'outer' } } : n)) };
+    const expanded = expandSubflows(nested, createSubflowResolver([outer, fragment]));
+    expect(expanded.nodes.map((n) => n.id)).toContain('sub/inner/age');
+    expect(expanded.edges.find((e) => e.source === 'sub/inner/age')!.target).toBe('close');
+  });
+});
+
+describe('library templates as fragments', () => {
+  const template: SavedFlowTemplate = {
+    id: 'tpl1',
+    name: 'Calificación estándar',
+    description: '',
+    tags: [],
+    flowData: fragment.flowData,
+    placeholders: [],
+    createdAt: 1,
+    updatedAt: 2,
+  };
+  const project = { agents: [{ flows: [named('main', host)] }] } as unknown as Project;
+
+  it('resolves "template:<id>" refs next to the project flows', () => {
+    const sources = getSubflowSources(project, [template]);
+    expect(sources.map((f) => f.id)).toEqual(['main', 'template:tpl1']);
+
+    const fromLibrary: FlowData = {
+      ...host,
+      nodes: host.nodes.map((n) => (n.id === 'sub' ? { ...n, data: { subflowRef: templateSubflowRef('tpl1') } } : n)),
+    };
+    const expanded = expandSubflows(fromLibrary, createSubflowResolver(sources));
+    expect(expanded.nodes.map((n) => n.label)).toContain('Preguntar edad');
+    expect(listSubflowSteps(sources[1])).toEqual(['Preguntar edad']);
+  });
+
+  it('keeps library refs when a flow is saved as a template', () => {
+    const data: FlowData = {
+      nodes: [
+        node('a', 'subflow', 'Biblioteca', { subflowRef: templateSubflowRef('tpl1') }),
+        node('b', 'subflow', 'Proyecto', { subflowRef: 'qualify' }),
+        node('c', 'end', 'Otro flujo', { crossFlowRef: 'other' }),
+      ],
+      edges: [],
+    };
+    const detached = detachFlowReferences(data);
+    expect(detached.nodes.map((n) => n.data?.subflowRef)).toEqual(['template:tpl1', undefined, undefined]);
+    expect(detached.nodes[2].data?.crossFlowRef).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detachFlowReferences,
+  fillPlaceholders,
+  findPlaceholderKeys,
+  parameterizeFlow,
+} from '../flowTemplatePlaceholders';
+import type { FlowData, FlowEdge, FlowNode } from '@/types/flow';
+
+const node = (id: string, type: FlowNode['type'], label: string, data?: FlowNode['data']): FlowNode => ({
+  id,
+  type,
+  label,
+  position: { x: 0, y: 0 },
+  data,
+});
+
+const edge = (source: string, target: string, extra: Partial<FlowEdge> = {}): FlowEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  ...extra,
+});
+
+const source: FlowData = {
+  nodes: [
+    node('start', 'start', 'Hola, soy Maria'),
+    node('offer', 'action', 'Presentar Mentoria Pro', {
+      instructions: 'Contar que Mentoria Pro es el programa de Maria',
+      keywords: ['mentoria'],
+    }),
+    node('book', 'resource', 'Mandar calendario', { resource: { kind: 'calendar', url: 'https://cal.com/maria' } }),
+  ],
+  edges: [edge('start', 'offer'), edge('offer', 'book', { label: 'Quiere Mentoria' })],
+};
+
+describe('parameterizeFlow', () => {
+  it('swaps the concrete values for placeholders, longest value first', () => {
+    const template = parameterizeFlow(source, {
+      creador: 'Maria',
+      oferta: 'Mentoria Pro',
+      programa: 'Mentoria',
+      link: ' https://cal.com/maria ',
+      vacio: '  ',
+    });
+
+    expect(template.nodes.map((n) => n.label)).toEqual(['Hola, soy {{creador}}', 'Presentar {{oferta}}', 'Mandar calendario']);
+    expect(template.nodes[1].data).toMatchObject({
+      instructions: 'Contar que {{oferta}} es el programa de {{creador}}',
+      keywords: ['mentoria'],
+    });
+    expect(template.nodes[2].data!.resource).toEqual({ kind: 'calendar', url: '{{link}}' });
+    expect(template.edges[1].label).toBe('Quiere {{programa}}');
+    expect(findPlaceholderKeys(template)).toEqual(['creador', 'oferta', 'link', 'programa']);
+  });
+
+  it('returns the flow untouched without values', () => {
+    expect(parameterizeFlow(source, { creador: ' ' })).toBe(source);
+  });
+});
+
+describe('fillPlaceholders', () => {
+  it('fills known placeholders and leaves the rest visible', () => {
+    const template: FlowData = {
+      nodes: [node('start', 'start', 'Hola, soy {{ Creador }}', { description: 'Vende {{oferta}} en {{link}}' })],
+      edges: [],
+    };
+    const filled = fillPlaceholders(template, { creador: 'Juan', oferta: ' ', link: 'https://cal.com/juan' });
+
+    expect(filled.nodes[0].label).toBe('Hola, soy Juan');
+    expect(filled.nodes[0].data!.description).toBe('Vende {{oferta}} en https://cal.com/juan');
+  });
+});
+
+describe('detachFlowReferences', () => {
+  it('drops links to flows of the source project and keeps library subflows', () => {
+    const flow: FlowData = {
+      nodes: [
+        node('go', 'end', 'Ir a objeciones', { crossFlowRef: 'flow-objeciones' }),
+        node('own', 'subflow', 'Calificar', { subflowRef: 'flow-calificacion' }),
+        node('shared', 'subflow', 'Cierre', { subflowRef: 'template:cierre' }),
+        node('plain', 'action', 'Saludar'),
+      ],
+      edges: [],
+    };
+    const detached = detachFlowReferences(flow);
+
+    expect(detached.nodes.map((n) => [n.data?.crossFlowRef, n.data?.subflowRef])).toEqual([
+      [undefined, undefined],
+      [undefined, undefined],
+      [undefined, 'template:cierre'],
+      [undefined, undefined],
+    ]);
+    expect(detached.nodes[2]).toBe(flow.nodes[2]);
+  });
+});
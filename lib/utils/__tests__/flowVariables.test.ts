@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildQualificationQuestions,
+  createFlowVariable,
+  defaultSlotCondition,
+  findUncapturedReads,
+  formatSlotCondition,
+  normalizeVariableName,
+} from '../flowVariables';
+import type { FlowData, FlowEdge, FlowNode, FlowVariable } from '@/types/flow';
+
+const node = (id: string, type: FlowNode['type'], label: string, data?: FlowNode['data']): FlowNode => ({
+  id,
+  type,
+  label,
+  position: { x: 0, y: 0 },
+  data,
+});
+
+const edge = (source: string, target: string, extra: Partial<FlowEdge> = {}): FlowEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  ...extra,
+});
+
+const variables: FlowVariable[] = [
+  { id: 'v-budget', name: 'presupuesto', type: 'number', description: 'Cuanto puede invertir' },
+  { id: 'v-goal', name: 'objetivo', type: 'enum', options: ['vender', 'escalar'] },
+  { id: 'v-owner', name: 'tiene_negocio', type: 'boolean' },
+];
+
+const checkBudget = { slotCondition: { variableId: 'v-budget', operator: 'gte' as const, value: '1000' } };
+
+describe('normalizeVariableName', () => {
+  it('turns labels into snake_case without accents', () => {
+    expect(normalizeVariableName('  Presupuesto Mensual (USD) ')).toBe('presupuesto_mensual_usd');
+    expect(normalizeVariableName('Ubicación')).toBe('ubicacion');
+  });
+});
+
+describe('createFlowVariable', () => {
+  it('normalizes the name and starts enums without options', () => {
+    const variable = createFlowVariable('Objetivo Principal', 'enum');
+    expect(variable).toMatchObject({ name: 'objetivo_principal', type: 'enum', options: [] });
+    expect(variable.id).toMatch(/^var-/);
+    expect(createFlowVariable('edad', 'number')).not.toHaveProperty('options');
+  });
+});
+
+describe('defaultSlotCondition', () => {
+  it('picks the first operator of the type and the first enum option', () => {
+    expect(defaultSlotCondition(variables[0])).toEqual({ variableId: 'v-budget', operator: 'gte' });
+    expect(defaultSlotCondition(variables[1])).toEqual({ variableId: 'v-goal', operator: 'equals', value: 'vender' });
+    expect(defaultSlotCondition(variables[2])).toEqual({ variableId: 'v-owner', operator: 'is_true' });
+  });
+});
+
+describe('formatSlotCondition', () => {
+  it('formats each kind of operator', () => {
+    expect(formatSlotCondition(checkBudget.slotCondition, variables)).toBe('presupuesto ≥ 1000');
+    expect(formatSlotCondition({ variableId: 'v-goal', operator: 'in', value: 'vender, ,escalar' }, variables))
+      .toBe('objetivo es uno de (vender, escalar)');
+    expect(formatSlotCondition({ variableId: 'v-owner', operator: 'is_true', value: 'ignorado' }, variables))
+      .toBe('tiene_negocio es verdadero');
+    expect(formatSlotCondition({ variableId: 'v-gone', operator: 'equals' }, variables)).toBe('v-gone = ?');
+  });
+});
+
+describe('findUncapturedReads', () => {
+  it('accepts a read that every path captures first', () => {
+    const data: FlowData = {
+      nodes: [
+        node('start', 'start', 'Inicio'),
+        node('ask', 'action', 'Preguntar presupuesto', { captures: 'v-budget' }),
+        node('check', 'decision', 'Invierte 1000?', checkBudget),
+      ],
+      edges: [edge('start', 'ask'), edge('ask', 'check'), edge('check', 'ask', { sourceHandle: 'no' })],
+    };
+    expect(findUncapturedReads(data)).toEqual([]);
+  });
+
+  it('flags a read reachable through a path that skips the capture', () => {
+    const data: FlowData = {
+      nodes: [
+        node('start', 'start', 'Inicio'),
+        node('owner', 'decision', 'Tiene negocio?'),
+        node('ask', 'action', 'Preguntar presupuesto', { captures: 'v-budget' }),
+        node('check', 'decision', 'Invierte 1000?', checkBudget),
+        node('orphan', 'decision', 'Suelto', { slotCondition: { variableId: 'v-goal', operator: 'is_set' } }),
+      ],
+      edges: [
+        edge('start', 'owner'),
+        edge('owner', 'ask', { sourceHandle: 'yes' }),
+        edge('owner', 'check', { sourceHandle: 'no' }),
+        edge('ask', 'check'),
+      ],
+    };
+    // The unreachable decision is left to the reachability check
+    expect(findUncapturedReads(data)).toEqual([{ nodeId: 'check', variableId: 'v-budget' }]);
+  });
+
+  it('skips flows without a start node', () => {
+    expect(findUncapturedReads({ nodes: [node('check', 'decision', 'Invierte?', checkBudget)], edges: [] })).toEqual([]);
+  });
+});
+
+describe('buildQualificationQuestions', () => {
+  it('writes one question per captured slot with the conditions that read it', () => {
+    const data: FlowData = {
+      nodes: [
+        node('ask', 'action', 'Preguntar presupuesto', { captures: 'v-budget' }),
+        node('again', 'action', 'Volver a preguntar', { captures: 'v-budget' }),
+        node('goal', 'action', 'Que queres lograr?', { captures: 'v-goal' }),
+        node('check', 'decision', 'Invierte 1000?', checkBudget),
+      ],
+      edges: [],
+    };
+    expect(buildQualificationQuestions(data, variables)).toEqual([
+      'Cuanto puede invertir → {presupuesto} (numero) · califica si presupuesto ≥ 1000',
+      'Que queres lograr? → {objetivo} (vender / escalar)',
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeForMatch, walkFlow, walkFlowData } from '../flowWalker';
+import type { FlowData, FlowEdge, FlowNode, NamedFlow } from '@/types/flow';
+
+const node = (id: string, type: FlowNode['type'], label: string, data?: FlowNode['data']): FlowNode => ({
+  id,
+  type,
+  label,
+  position: { x: 0, y: 0 },
+  data,
+});
+
+const edge = (source: string, target: string, extra: Partial<FlowEdge> = {}): FlowEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  ...extra,
+});
+
+const named = (id: string, flowData: FlowData): NamedFlow => ({ id, name: id, flowData, createdAt: 0, updatedAt: 0 });
+
+// start -> greet -> "¿Te interesa?" -> yes: offer / no: bye
+const qualifyFlow: FlowData = {
+  nodes: [
+    node('start', 'start', 'Inicio'),
+    node('greet', 'action', 'Saludar y preguntar'),
+    node('interested', 'decision', '¿Le interesa?', { condition: 'El lead quiere agendar una llamada' }),
+    node('offer', 'action', 'Ofrecer llamada'),
+    node('bye', 'end', 'Despedida'),
+    node('done', 'end', 'Agendado'),
+  ],
+  edges: [
+    edge('start', 'greet'),
+    edge('greet', 'interested'),
+    edge('interested', 'offer', { sourceHandle: 'yes', label: 'Sí' }),
+    edge('interested', 'bye', { sourceHandle: 'no', label: 'No' }),
+    edge('offer', 'done'),
+  ],
+};
+
+const path = (result: { trace: { nodeId: string }[] }) => result.trace.map((s) => s.nodeId);
+
+describe('normalizeForMatch', () => {
+  it('drops accents, case and punctuation', () => {
+    expect(normalizeForMatch('¡Sí, CLARO!')).toBe('si claro');
+  });
+});
+
+describe('walkFlowData', () => {
+  it('takes the yes branch and completes', () => {
+    const result = walkFlowData(qualifyFlow, ['Hola!', 'si, me interesa']);
+    expect(result.status).toBe('completed');
+    expect(path(result)).toEqual(['start', 'greet', 'interested', 'offer', 'done']);
+    expect(result.trace[2]).toMatchObject({ messageIndex: 1, match: 'yes-no', edgeId: 'interested-offer' });
+    expect(result.consumedMessages).toBe(2);
+  });
+
+  it('takes the no branch', () => {
+    expect(path(walkFlowData(qualifyFlow, ['Hola', 'no, gracias']))).toContain('bye');
+  });
+
+  it('lets the first clause decide the polarity', () => {
+    expect(path(walkFlowData(qualifyFlow, ['Hola', 'si, no tengo problema']))).toContain('offer');
+    expect(path(walkFlowData(qualifyFlow, ['Hola', 'no tengo problema']))).toContain('offer');
+    expect(path(walkFlowData(qualifyFlow, ['Hola', 'no quiero']))).toContain('bye');
+    expect(path(walkFlowData(qualifyFlow, ['Hola', 'claro que no']))).toContain('bye');
+  });
+
+  it('falls back to the condition terms when there is no yes or no', () => {
+    const result = walkFlowData(qualifyFlow, ['Hola', 'me gustaria agendar']);
+    expect(result.trace[2].match).toBe('condition');
+    expect(path(result)).toContain('offer');
+  });
+
+  it('waits for the lead when the script runs out at a decision', () => {
+    const result = walkFlowData(qualifyFlow, ['Hola']);
+    expect(result.status).toBe('awaiting-lead');
+    expect(path(result)).toEqual(['start', 'greet', 'interested']);
+  });
+
+  it('reports a dead end when no branch matches', () => {
+    const result = walkFlowData(qualifyFlow, ['Hola', 'mmm ni idea']);
+    expect(result.status).toBe('dead-end');
+    expect(result.deadEnds[0]).toMatchObject({ nodeId: 'interested', reason: 'no-matching-branch' });
+  });
+
+  it('picks the branch whose target keywords match', () => {
+    const flow: FlowData = {
+      nodes: [
+        node('start', 'start', 'Inicio'),
+        node('route', 'switch', 'Motivo'),
+        node('price', 'end', 'Precio', { keywords: ['precio', 'cuanto sale'] }),
+        node('info', 'end', 'Info', { keywords: ['info'] }),
+        node('other', 'end', 'Otro'),
+      ],
+      edges: [
+        edge('start', 'route'),
+        edge('route', 'info'),
+        edge('route', 'price'),
+        edge('route', 'other', { label: 'Otro' }),
+      ],
+    };
+    expect(walkFlowData(flow, ['Cuanto sale el programa?']).trace[1].match).toBe('keyword');
+    expect(path(walkFlowData(flow, ['Cuanto sale el programa?']))).toContain('price');
+    expect(walkFlowData(flow, ['hola']).trace[1]).toMatchObject({ match: 'fallback', edgeId: 'route-other' });
+  });
+
+  it('reports nodes without exits and stops loops', () => {
+    const noExit: FlowData = { nodes: [node('start', 'start', 'Inicio'), node('a', 'action', 'Paso')], edges: [edge('start', 'a')] };
+    expect(walkFlowData(noExit, ['hola']).deadEnds[0]).toMatchObject({ nodeId: 'a', reason: 'no-outgoing' });
+
+    const loop: FlowData = {
+      nodes: [node('start', 'start', 'Inicio'), node('a', 'action', 'A'), node('b', 'action', 'B')],
+      edges: [edge('start', 'a'), edge('a', 'b'), edge('b', 'a')],
+    };
+    const result = walkFlowData(loop, ['hola'], { maxSteps: 10 });
+    expect(result.status).toBe('dead-end');
+    expect(result.deadEnds[0].reason).toBe('step-limit');
+    expect(result.trace).toHaveLength(10);
+  });
+
+  it('ends at a handoff without exits', () => {
+    const flow: FlowData = {
+      nodes: [node('start', 'start', 'Inicio'), node('human', 'handoff', 'Pasar a humano')],
+      edges: [edge('start', 'human')],
+    };
+    expect(walkFlowData(flow, ['hola']).status).toBe('completed');
+  });
+});
+
+describe('walkFlow', () => {
+  it('follows cross-flow end nodes into the agent\'s other flows', () => {
+    const entry = named('main', {
+      nodes: [node('start', 'start', 'Inicio'), node('go', 'end', 'Ir a calificación', { crossFlowRef: 'qualify' })],
+      edges: [edge('start', 'go')],
+    });
+    const result = walkFlow([entry, named('qualify', qualifyFlow)], 'main', ['Hola', 'dale']);
+    expect(result.status).toBe('completed');
+    expect(result.trace.map((s) => `${s.flowId}:${s.nodeId}`)).toEqual([
+      'main:start', 'main:go', 'qualify:start', 'qualify:greet', 'qualify:interested', 'qualify:offer', 'qualify:done',
+    ]);
+  });
+
+  it('reports links to flows that do not exist', () => {
+    const entry = named('main', {
+      nodes: [node('start', 'start', 'Inicio'), node('go', 'end', 'Ir', { crossFlowRef: 'gone' })],
+      edges: [edge('start', 'go')],
+    });
+    expect(walkFlow([entry], 'main', ['Hola']).deadEnds[0]).toMatchObject({ nodeId: 'go', reason: 'missing-flow' });
+    expect(walkFlow([entry], 'nope', ['Hola']).deadEnds[0].reason).toBe('missing-flow');
+  });
+
+  it('walks subflows expanded inline', () => {
+    const fragment = named('fragment', {
+      nodes: [node('start', 'start', 'Inicio'), node('age', 'action', 'Preguntar edad'), node('end', 'end', 'Fin')],
+      edges: [edge('start', 'age'), edge('age', 'end')],
+    });
+    const entry = named('main', {
+      nodes: [
+        node('start', 'start', 'Inicio'),
+        node('sub', 'subflow', 'Calificación', { subflowRef: 'fragment' }),
+        node('close', 'end', 'Cierre'),
+      ],
+      edges: [edge('start', 'sub'), edge('sub', 'close')],
+    });
+    const result = walkFlow([entry, fragment], 'main', ['Hola']);
+    expect(result.status).toBe('completed');
+    expect(result.trace.map((s) => s.label)).toContain('Preguntar edad');
+    expect(result.trace.at(-1)!.nodeId).toBe('close');
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  buildKnowledgeIndex,
+  cosineSimilarity,
+  getKnowledgeIndex,
+  setKnowledgeEmbedder,
+  tokenizeKnowledgeText,
+  type KnowledgeEmbedderFactory,
+} from '../knowledgeIndex';
+import type { KnowledgeEntry } from '@/types/prompt';
+
+const entry = (id: string, title: string, description: string, example?: string): KnowledgeEntry => ({
+  id,
+  type: 'pattern',
+  title,
+  description,
+  example,
+  tags: [],
+  effectiveness: 'medium',
+  createdAt: 0,
+  usageCount: 0,
+  projectIds: [],
+});
+
+const entries = [
+  entry('price', 'No dar el precio antes de calificar', 'Cuando preguntan cuanto sale, primero calificar el presupuesto'),
+  entry('greeting', 'Saludo corto y cercano', 'Saludar con el nombre del lead y una pregunta abierta'),
+  entry('objection', 'Manejar la objecion de tiempo', 'Si dice que no tiene tiempo, mostrar que son 20 minutos por dia', 'no tengo tiempo para esto'),
+];
+
+afterEach(() => setKnowledgeEmbedder(null));
+
+describe('tokenizeKnowledgeText', () => {
+  it('stems words, drops accents, short words and stop words', () => {
+    expect(tokenizeKnowledgeText('Preguntas y preguntar según él')).toEqual(['pregunt', 'pregunt']);
+    expect(tokenizeKnowledgeText('Calificación')).toEqual(['calific']);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('compares dense and sparse vectors, clamped to 0-1', () => {
+    expect(cosineSimilarity([0.6, 0.8], [0.6, 0.8])).toBeCloseTo(1);
+    expect(cosineSimilarity(new Map([[1, 1]]), new Map([[1, 0.5], [2, 0.5]]))).toBe(0.5);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(0);
+    expect(cosineSimilarity([1], new Map([[0, 1]]))).toBe(0);
+  });
+});
+
+describe('buildKnowledgeIndex', () => {
+  const index = buildKnowledgeIndex(entries);
+
+  it('ranks the closest entry first, joining inflected words', () => {
+    const [best] = index.search('me preguntaron cuanto sale, le paso el precio?');
+    expect(best.entry.id).toBe('price');
+    expect(index.embedderLabel).toBe('TF-IDF local');
+  });
+
+  it('matches the example on its own', () => {
+    const vector = index.embed(['no tengo tiempo'])[0];
+    expect(index.similarity(vector, 'objection')).toBeGreaterThan(0.5);
+    expect(index.similarity(vector, 'missing')).toBe(0);
+  });
+
+  it('applies limit, minScore and filter', () => {
+    const all = index.search('saludar al lead y calificar');
+    expect(all.length).toBeGreaterThan(1);
+    expect(index.search('saludar al lead y calificar', { limit: 1 })).toHaveLength(1);
+    expect(index.search('saludar al lead y calificar', { minScore: 0.99 })).toEqual([]);
+    expect(index.search('saludar al lead', { filter: (e) => e.id !== 'greeting' }).map((m) => m.entry.id)).not.toContain('greeting');
+    expect(index.search('   ')).toEqual([]);
+  });
+
+  it('weights several queries', () => {
+    const matches = index.search([
+      { text: 'saludo cercano', weight: 3 },
+      { text: 'precio', weight: 1 },
+      { text: '  ', weight: 5 },
+    ]);
+    expect(matches.map((m) => m.entry.id).slice(0, 2)).toEqual(['greeting', 'price']);
+  });
+});
+
+describe('embedders', () => {
+  it('reuses the index of the same array and rebuilds after the embedder changes', () => {
+    const first = getKnowledgeIndex(entries);
+    expect(getKnowledgeIndex(entries)).toBe(first);
+    expect(getKnowledgeIndex([...entries])).not.toBe(first);
+
+    // Two fixed directions: greeting texts and everything else
+    const factory: KnowledgeEmbedderFactory = () => ({
+      id: 'fake',
+      label: 'Modelo de prueba',
+      embed: (texts) => texts.map((t) => (t.includes('Saludo') ? [1, 0] : [0, 1])),
+    });
+    setKnowledgeEmbedder(factory);
+
+    const index = getKnowledgeIndex(entries);
+    expect(index).not.toBe(first);
+    expect(index.embedderLabel).toBe('Modelo de prueba');
+    expect(index.search('Saludo')[0]).toEqual({ entry: entries[1], score: 1 });
+  });
+});
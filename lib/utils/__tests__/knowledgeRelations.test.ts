@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assembleKnowledgeContext,
+  buildKnowledgeGraph,
+  getConflictingIds,
+  getEntryRelations,
+  getSupersededIds,
+  validateKnowledgeRelation,
+} from '../knowledgeRelations';
+import type { KnowledgeEntry, KnowledgeRelation } from '@/types/prompt';
+
+const entry = (id: string, relations?: KnowledgeRelation[]): KnowledgeEntry => ({
+  id,
+  type: 'pattern',
+  title: id,
+  description: '',
+  tags: [],
+  effectiveness: 'medium',
+  createdAt: 0,
+  usageCount: 0,
+  projectIds: [],
+  relations,
+});
+
+// precio-v3 replaces precio-v2, which replaced precio-v1; cuotas-sin-interes refines
+// cuotas, which refines precio-v1; audios and texto contradict each other
+const entries = [
+  entry('precio-v1'),
+  entry('precio-v2', [{ type: 'supersedes', targetId: 'precio-v1' }]),
+  entry('precio-v3', [{ type: 'supersedes', targetId: 'precio-v2' }, { type: 'refines', targetId: 'borrado' }]),
+  entry('cuotas', [{ type: 'refines', targetId: 'precio-v1' }]),
+  entry('cuotas-sin-interes', [{ type: 'refines', targetId: 'cuotas' }]),
+  entry('audios', [{ type: 'conflicts_with', targetId: 'texto' }]),
+  entry('texto'),
+  entry('suelto'),
+];
+
+const byId = (id: string) => entries.find((e) => e.id === id)!;
+
+describe('getEntryRelations', () => {
+  it('lists outgoing and incoming relations and skips deleted targets', () => {
+    expect(getEntryRelations(byId('precio-v1'), entries).map((r) => [r.type, r.direction, r.entry.id])).toEqual([
+      ['supersedes', 'incoming', 'precio-v2'],
+      ['refines', 'incoming', 'cuotas'],
+    ]);
+    expect(getEntryRelations(byId('precio-v3'), entries).map((r) => r.entry.id)).toEqual(['precio-v2']);
+  });
+});
+
+describe('getSupersededIds and getConflictingIds', () => {
+  it('find replaced entries and both sides of a conflict', () => {
+    expect(getSupersededIds(entries)).toEqual(new Set(['precio-v1', 'precio-v2']));
+    expect(getConflictingIds('texto', entries)).toEqual(['audios']);
+    expect(getConflictingIds('audios', entries)).toEqual(['texto']);
+  });
+});
+
+describe('validateKnowledgeRelation', () => {
+  it('rejects self links, missing entries, duplicates and loops', () => {
+    expect(validateKnowledgeRelation('texto', 'refines', 'texto', entries)).toBe('Un aprendizaje no se puede relacionar consigo mismo');
+    expect(validateKnowledgeRelation('texto', 'refines', 'borrado', entries)).toBe('El aprendizaje ya no existe');
+    expect(validateKnowledgeRelation('precio-v1', 'refines', 'precio-v2', entries)).toBe('Estos aprendizajes ya estan relacionados');
+    expect(validateKnowledgeRelation('precio-v1', 'supersedes', 'precio-v3', entries)).toBe('Se formaria un ciclo de reemplazos');
+    expect(validateKnowledgeRelation('precio-v1', 'refines', 'cuotas-sin-interes', entries)).toBe('Se formaria un ciclo de refinamientos');
+  });
+
+  it('allows new relations that keep the chains acyclic', () => {
+    expect(validateKnowledgeRelation('suelto', 'refines', 'cuotas', entries)).toBeNull();
+    // Conflicts are symmetric, so they never count as a loop
+    expect(validateKnowledgeRelation('precio-v1', 'conflicts_with', 'precio-v3', entries)).toBeNull();
+  });
+});
+
+describe('assembleKnowledgeContext', () => {
+  it('swaps superseded matches for their latest replacement and brings in conflicting entries', () => {
+    const context = assembleKnowledgeContext([
+      { entry: byId('precio-v1'), score: 0.9 },
+      { entry: byId('audios'), score: 0.7 },
+      { entry: byId('precio-v3'), score: 0.5 },
+      { entry: byId('suelto'), score: 0.2 },
+    ], entries);
+
+    expect(context.matches.map((m) => [m.entry.id, m.score])).toEqual([
+      ['precio-v3', 0.9],
+      ['audios', 0.7],
+      ['texto', 0.7],
+      ['suelto', 0.2],
+    ]);
+    expect(context.conflicts).toEqual([['audios', 'texto']]);
+  });
+
+  it('reports a conflict once when both sides match', () => {
+    const context = assembleKnowledgeContext([
+      { entry: byId('texto'), score: 0.8 },
+      { entry: byId('audios'), score: 0.6 },
+    ], entries);
+    expect(context.matches.map((m) => m.entry.id)).toEqual(['texto', 'audios']);
+    expect(context.conflicts).toEqual([['texto', 'audios']]);
+  });
+});
+
+describe('buildKnowledgeGraph', () => {
+  it('keeps relations inside the list and puts replaced entries left of their successors', () => {
+    const graph = buildKnowledgeGraph(entries);
+
+    expect(graph.edges).toHaveLength(5);
+    expect(graph.relatedIds.has('suelto')).toBe(false);
+    expect(graph.depthById).toEqual({
+      'precio-v1': 0,
+      'precio-v2': 1,
+      'precio-v3': 2,
+      cuotas: 1,
+      'cuotas-sin-interes': 2,
+      audios: 0,
+      texto: 0,
+    });
+  });
+
+  it('survives imported loops', () => {
+    const looped = [
+      entry('a', [{ type: 'refines', targetId: 'b' }]),
+      entry('b', [{ type: 'refines', targetId: 'a' }]),
+    ];
+    expect(buildKnowledgeGraph(looped).depthById).toEqual({ a: 2, b: 1 });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeScope,
+  getEntryScope,
+  isInScope,
+  isScopeComplete,
+  parseNicheTags,
+  scopeKnowledgeMatches,
+  type KnowledgeScopeTarget,
+} from '../knowledgeScope';
+import type { KnowledgeEntry, KnowledgeScope, Project } from '@/types/prompt';
+
+const entry = (id: string, scope?: KnowledgeScope): KnowledgeEntry => ({
+  id,
+  type: 'pattern',
+  title: id,
+  description: '',
+  tags: [],
+  effectiveness: 'medium',
+  createdAt: 0,
+  usageCount: 0,
+  projectIds: [],
+  scope,
+});
+
+const target: KnowledgeScopeTarget = { projectId: 'p1', channelType: 'WhatsApp', nicheTags: ['fitness'] };
+
+describe('isInScope', () => {
+  it('matches project, channel and niche scopes against the target', () => {
+    expect(isInScope(entry('a'), target)).toBe(true);
+    expect(isInScope(entry('b', { kind: 'project', value: 'p1' }), target)).toBe(true);
+    expect(isInScope(entry('c', { kind: 'project', value: 'p2' }), target)).toBe(false);
+    expect(isInScope(entry('d', { kind: 'channel', value: ' whatsapp ' }), target)).toBe(true);
+    expect(isInScope(entry('e', { kind: 'niche', value: 'Fitness' }), target)).toBe(true);
+    expect(isInScope(entry('f', { kind: 'niche', value: 'coaching' }), target)).toBe(false);
+  });
+
+  it('only lets global entries through without a project or agent', () => {
+    const none: KnowledgeScopeTarget = { projectId: null, channelType: null, nicheTags: [] };
+    expect(isInScope(entry('a', { kind: 'global' }), none)).toBe(true);
+    expect(isInScope(entry('b', { kind: 'channel', value: 'whatsapp' }), none)).toBe(false);
+  });
+
+  it('never treats a scope without a value as global', () => {
+    for (const kind of ['project', 'channel', 'niche'] as const) {
+      const incomplete = entry(kind, { kind });
+      expect(getEntryScope(incomplete).kind).toBe(kind);
+      expect(isInScope(incomplete, target)).toBe(false);
+      expect(isInScope(entry(kind, { kind, value: '  ' }), target)).toBe(false);
+    }
+  });
+});
+
+describe('isScopeComplete', () => {
+  it('asks for a value on every kind but global', () => {
+    expect(isScopeComplete({ kind: 'global' })).toBe(true);
+    expect(isScopeComplete({ kind: 'niche', value: 'fitness' })).toBe(true);
+    expect(isScopeComplete({ kind: 'project' })).toBe(false);
+    expect(isScopeComplete({ kind: 'channel', value: '' })).toBe(false);
+  });
+});
+
+describe('scopeKnowledgeMatches', () => {
+  it('drops out-of-scope entries and lets narrower scopes rank first', () => {
+    const matches = [
+      { entry: entry('global'), score: 0.8 },
+      { entry: entry('project', { kind: 'project', value: 'p1' }), score: 0.75 },
+      { entry: entry('other', { kind: 'project', value: 'p2' }), score: 0.9 },
+      { entry: entry('incomplete', { kind: 'niche' }), score: 0.95 },
+    ];
+
+    const scoped = scopeKnowledgeMatches(matches, target);
+    expect(scoped.map((m) => m.entry.id)).toEqual(['project', 'global']);
+    expect(scoped[0].score).toBe(0.75);
+  });
+});
+
+describe('describeScope', () => {
+  const projects = [{ id: 'p1', name: 'Proyecto', clientName: 'Maria Fit' }] as Project[];
+
+  it('names the scope and flags the incomplete ones', () => {
+    expect(describeScope(undefined, projects)).toBe('Global');
+    expect(describeScope({ kind: 'project', value: 'p1' }, projects)).toBe('Cliente: Maria Fit');
+    expect(describeScope({ kind: 'project', value: 'gone' }, projects)).toBe('Cliente: proyecto eliminado');
+    expect(describeScope({ kind: 'channel' }, projects)).toBe('Canal: sin elegir');
+  });
+});
+
+describe('parseNicheTags', () => {
+  it('lowercases, trims and dedupes', () => {
+    expect(parseNicheTags('fitness, Coaching,, FITNESS ')).toEqual(['fitness', 'coaching']);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { computeLearningEffectiveness, getChangeLearningIds } from '../learningEffectiveness';
+import { buildKnowledgeIndex } from '../knowledgeIndex';
+import type { ParsedChange } from '../changeParser';
+import type { KnowledgeEntry, Project, PromptVersion, SuggestionDecision } from '@/types/prompt';
+import type { GoldenConversationResult, RegressionRun } from '@/types/regression';
+
+const entry = (id: string): KnowledgeEntry => ({
+  id,
+  type: 'pattern',
+  title: id,
+  description: '',
+  tags: [],
+  effectiveness: 'medium',
+  createdAt: 0,
+  usageCount: 0,
+  projectIds: [],
+});
+
+const decision = (
+  id: string,
+  kind: SuggestionDecision['decision'],
+  timestamp: number,
+  extra: Partial<SuggestionDecision> = {}
+): SuggestionDecision => ({
+  id,
+  sectionId: 's',
+  projectId: 'p1',
+  agentId: 'a1',
+  decision: kind,
+  justification: '',
+  originalText: '',
+  suggestedText: '',
+  category: 'tono',
+  severity: 'media',
+  timestamp,
+  savedToKnowledge: true,
+  knowledgeEntryIds: ['e1'],
+  ...extra,
+});
+
+const version = (id: string, timestamp: number, parentVersionId?: string): PromptVersion =>
+  ({ id, content: '', timestamp, label: `Version ${id}`, parentVersionId });
+
+const run = (versionId: string, scores: number[], errors = 0): RegressionRun => ({
+  id: `run-${versionId}`,
+  versionId,
+  runAt: 0,
+  results: [
+    ...scores.map((score): GoldenConversationResult => ({ conversationId: 'g', conversationName: 'g', status: 'passed', score, rubric: [], turns: [] })),
+    ...Array.from({ length: errors }, (): GoldenConversationResult => ({ conversationId: 'g', conversationName: 'g', status: 'error', score: 0, rubric: [], turns: [] })),
+  ],
+});
+
+const projectWith = (versions: PromptVersion[], regressionRuns: RegressionRun[] = []) =>
+  [{ id: 'p1', agents: [{ id: 'a1', name: 'Setter', versions, regressionRuns }] }] as unknown as Project[];
+
+const evaluate = (decisions: SuggestionDecision[], projects = projectWith([])) =>
+  computeLearningEffectiveness([entry('e1'), entry('e2')], decisions, projects).get('e1')!;
+
+describe('computeLearningEffectiveness', () => {
+  it('leaves entries without decisions as unused', () => {
+    const result = computeLearningEffectiveness([entry('e1')], [decision('d', 'accepted', 1, { knowledgeEntryIds: ['e2'] })], []);
+    expect(result.get('e1')).toMatchObject({ impact: 'unused', acceptanceRate: null, score: null, effectiveness: null });
+    expect(result.has('e2')).toBe(false);
+  });
+
+  it('waits for enough decisions before setting a level from acceptance alone', () => {
+    const few = evaluate([decision('d1', 'accepted', 1), decision('d2', 'modified', 2)]);
+    expect(few).toMatchObject({ accepted: 2, acceptanceRate: 1, effectiveness: null, impact: 'neutral' });
+    expect(few.decisions.map((d) => d.id)).toEqual(['d2', 'd1']);
+
+    const enough = evaluate([decision('d1', 'accepted', 1), decision('d2', 'modified', 2), decision('d3', 'rejected', 3)]);
+    expect(enough.acceptanceRate).toBeCloseTo(2 / 3);
+    expect(enough).toMatchObject({ rejected: 1, effectiveness: 'medium', impact: 'neutral' });
+
+    const liked = evaluate(['d1', 'd2', 'd3'].map((id, i) => decision(id, 'accepted', i)));
+    expect(liked).toMatchObject({ effectiveness: 'high', impact: 'improves' });
+  });
+
+  it('marks learnings rejected more than applied as ignored', () => {
+    const result = evaluate([decision('d1', 'rejected', 1), decision('d2', 'rejected', 2), decision('d3', 'accepted', 3)]);
+    expect(result).toMatchObject({ impact: 'ignored', effectiveness: 'low' });
+  });
+
+  it('compares the regression run of the linked version with its parent', () => {
+    const projects = projectWith(
+      [version('v1', 10), version('v2', 20, 'v1')],
+      [run('v1', [60, 70]), run('v2', [80, 90], 1)]
+    );
+    const result = evaluate([decision('d1', 'accepted', 15)], projects);
+
+    expect(result.versions).toEqual([{
+      versionId: 'v2', versionLabel: 'Version v2', projectId: 'p1', agentId: 'a1', agentName: 'Setter', regressionDelta: 20,
+    }]);
+    expect(result.regressionDelta).toBe(20);
+    // Acceptance 1 and regression 0.5 + 20/40
+    expect(result.score).toBe(1);
+    expect(result).toMatchObject({ effectiveness: 'high', impact: 'improves' });
+  });
+
+  it('says a learning hurts when its version scored worse, whatever the acceptance', () => {
+    const projects = projectWith([version('v1', 10), version('v2', 20, 'v1')], [run('v1', [80]), run('v2', [70])]);
+    const result = evaluate([decision('d1', 'accepted', 5, { versionId: 'v2' })], projects);
+    expect(result).toMatchObject({ regressionDelta: -10, impact: 'hurts', score: 0.625, effectiveness: 'medium' });
+  });
+
+  it('ignores small deltas and versions without both runs', () => {
+    const projects = projectWith(
+      [version('v1', 10), version('v2', 20, 'v1'), version('v3', 30, 'v2')],
+      [run('v1', [80]), run('v2', [82]), run('v3', [], 2)]
+    );
+    const small = evaluate([decision('d1', 'accepted', 15)], projects);
+    expect(small).toMatchObject({ regressionDelta: 2, impact: 'neutral' });
+
+    const missing = evaluate([decision('d1', 'accepted', 25)], projects);
+    expect(missing.versions[0].regressionDelta).toBeNull();
+    expect(missing.regressionDelta).toBeNull();
+  });
+});
+
+describe('getChangeLearningIds', () => {
+  const learnings = [
+    { ...entry('price'), title: 'No dar el precio antes de calificar', description: 'Primero calificar el presupuesto del lead' },
+    { ...entry('greeting'), title: 'Saludo corto', description: 'Saludar con el nombre y una pregunta abierta' },
+    { ...entry('emoji'), title: 'Usar emojis', description: 'Sumar emojis en cada mensaje' },
+  ];
+  const matches = learnings.map((e) => ({ entry: e, score: 0.5 }));
+  const index = buildKnowledgeIndex(learnings);
+  const change = (extra: Partial<ParsedChange>): ParsedChange => ({
+    id: 'change-1',
+    index: 1,
+    title: 'Calificar antes de pasar el precio',
+    section: 'Precios',
+    action: 'replace',
+    afterText: 'Antes de decir el precio, preguntar por el presupuesto.',
+    reason: 'Dar el precio sin calificar espanta al lead',
+    ...extra,
+  });
+
+  it('takes the learnings the change cites, by their number in the context', () => {
+    expect(getChangeLearningIds(change({ learningRefs: [3, 1, 3, 9] }), matches, index)).toEqual(['emoji', 'price']);
+  });
+
+  it('links an uncited change only to the learnings close to its text', () => {
+    expect(getChangeLearningIds(change({}), matches, index)).toEqual(['price']);
+    expect(getChangeLearningIds(change({ title: 'Cerrar', afterText: 'Mandar el link del calendario', reason: 'Falta el cierre' }), matches, index)).toEqual([]);
+  });
+});
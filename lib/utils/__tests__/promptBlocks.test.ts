@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTitle, PREAMBLE_BLOCK_ID, splitPromptBlocks } from '../promptBlocks';
+
+describe('splitPromptBlocks', () => {
+  it('runs each top-level section until the next one, keeping XML contents together', () => {
+    const prompt = `Sos el setter de Maria.
+
+<reglas>
+## No hacer
+No dar precios.
+</reglas>
+Nota suelta.
+
+## CIERRE
+Mandar el link.`;
+    const blocks = splitPromptBlocks(prompt);
+
+    expect(blocks.map((b) => [b.id === PREAMBLE_BLOCK_ID ? 'preamble' : b.type, b.title])).toEqual([
+      ['preamble', 'Preámbulo'],
+      ['xml_tag', 'Reglas'],
+      ['markdown_header', 'CIERRE'],
+    ]);
+    expect(blocks[1].content).toContain('Nota suelta.');
+    expect(blocks.map((b) => b.content).join('')).toBe(prompt);
+    expect(blocks[2].endIndex).toBe(prompt.length);
+  });
+
+  it('treats a prompt without sections as one block', () => {
+    expect(splitPromptBlocks('Solo texto').map((b) => b.title)).toEqual(['Prompt completo']);
+    expect(splitPromptBlocks('')).toEqual([]);
+  });
+});
+
+describe('normalizeTitle', () => {
+  it('drops case, accents and punctuation', () => {
+    expect(normalizeTitle('  Calificación / PRECIO!! ')).toBe('calificacion precio');
+  });
+});
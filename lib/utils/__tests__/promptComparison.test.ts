@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { buildComparisonInputs, comparePromptsOnInput, summarizeComparison } from '../promptComparison';
+import type { SimulationModelClient, SimulationRequest } from '../conversationSimulator';
+import type { ComparisonInput, ComparisonTurnResult } from '@/types/comparison';
+import type { NamedFlow } from '@/types/flow';
+import type { GoldenConversation } from '@/types/regression';
+
+const golden: GoldenConversation = {
+  id: 'g1',
+  name: 'Lead frio',
+  transcript: [
+    { role: 'agent', content: 'Hola! gracias por escribir' },
+    { role: 'lead', content: 'cuanto sale?' },
+    { role: 'agent', content: 'Depende, contame tu caso' },
+    { role: 'lead', content: 'tengo un gimnasio' },
+    { role: 'agent', content: 'Genial! agendamos?' },
+  ],
+  expectedBehavior: 'Califica antes de ofrecer',
+  createdAt: 0,
+};
+
+const flowWithCases: NamedFlow = {
+  id: 'f1',
+  name: 'Calificación',
+  flowData: { nodes: [], edges: [] },
+  createdAt: 0,
+  updatedAt: 0,
+  testCases: [
+    {
+      id: 'tc1',
+      name: 'Pregunta precio',
+      description: '',
+      triggerMessage: ' cuanto sale el programa? ',
+      personaId: 'price_shopper',
+      expectedBehavior: 'No da el precio antes de calificar',
+      expectedOutcome: 'converted',
+      redFlags: ['Da el precio de entrada'],
+      nodesExpectedToVisit: [],
+    },
+    {
+      id: 'tc2',
+      name: 'Sin mensaje',
+      description: '',
+      triggerMessage: '  ',
+      personaId: 'ideal',
+      expectedBehavior: '',
+      expectedOutcome: 'converted',
+      redFlags: [],
+      nodesExpectedToVisit: [],
+    },
+  ],
+};
+
+describe('buildComparisonInputs', () => {
+  it('makes one input per lead message, golden agent turn and test case', () => {
+    const inputs = buildComparisonInputs(['hola', '  ', 'vi tu video'], [golden], [flowWithCases]);
+
+    expect(inputs.map((i) => i.id)).toEqual(['msg-0', 'msg-1', 'g1-2', 'g1-4', 'case-f1-tc1']);
+    expect(inputs[3].history.map((t) => t.content)).toEqual(['cuanto sale?', 'Depende, contame tu caso', 'tengo un gimnasio']);
+    expect(inputs[4]).toEqual({
+      id: 'case-f1-tc1',
+      label: 'Calificación · Pregunta precio',
+      history: [{ role: 'lead', content: 'cuanto sale el programa?' }],
+      expectedBehavior: 'No da el precio antes de calificar',
+      redFlags: ['Da el precio de entrada'],
+    });
+  });
+});
+
+function judgingClient(judge: string) {
+  const requests: SimulationRequest[] = [];
+  const client: SimulationModelClient = {
+    async complete(request) {
+      requests.push(request);
+      if (request.role === 'judge') return judge;
+      return request.system === 'prompt A' ? ' respuesta A ' : 'respuesta B';
+    },
+  };
+  return { client, requests };
+}
+
+// Finds ids whose judge layout is (or is not) swapped, by asking with a known reply
+async function layoutOf(id: string): Promise<'AB' | 'BA'> {
+  const { client, requests } = judgingClient('{"score1": 5, "score2": 5}');
+  await comparePromptsOnInput({ id, label: id, history: [{ role: 'lead', content: 'hola' }] }, 'prompt A', 'prompt B', client);
+  const content = requests.at(-1)!.messages[0].content;
+  return content.indexOf('respuesta A') < content.indexOf('respuesta B') ? 'AB' : 'BA';
+}
+
+describe('comparePromptsOnInput', () => {
+  const input: ComparisonInput = {
+    id: 'case-f1-tc1',
+    label: 'Pregunta precio',
+    history: [{ role: 'lead', content: 'cuanto sale?' }],
+    expectedBehavior: 'No da el precio antes de calificar',
+    redFlags: ['Da el precio de entrada'],
+  };
+
+  it('sends the expectations of a test case to the judge', async () => {
+    const { client, requests } = judgingClient('{"score1": 8, "score2": 4, "winner": "1"}');
+
+    const result = await comparePromptsOnInput(input, 'prompt A', 'prompt B', client);
+
+    expect(requests.map((r) => r.role)).toEqual(['agent', 'agent', 'judge']);
+    const judgeMessage = requests[2].messages[0].content;
+    expect(judgeMessage).toContain('## Comportamiento esperado\nNo da el precio antes de calificar');
+    expect(judgeMessage).toContain('## Señales de alerta\n- Da el precio de entrada');
+    expect(result.replyA).toBe('respuesta A');
+    expect(result.error).toBeUndefined();
+  });
+
+  it('maps the judge verdict back to A/B whatever the layout', async () => {
+    for (const id of ['x1', 'x2', 'x3', 'x4']) {
+      const layout = await layoutOf(id);
+      const { client } = judgingClient('{"score1": 9, "score2": 3, "winner": "1"}');
+      const result = await comparePromptsOnInput({ id, label: id, history: [{ role: 'lead', content: 'hola' }] }, 'prompt A', 'prompt B', client);
+      expect(result.winner).toBe(layout === 'AB' ? 'A' : 'B');
+      expect(layout === 'AB' ? result.scoreA : result.scoreB).toBe(9);
+    }
+  });
+
+  it('clamps scores and derives the winner when the judge leaves it out', async () => {
+    const { client } = judgingClient('Veredicto: {"score1": 14, "score2": 14}');
+    const result = await comparePromptsOnInput(input, 'prompt A', 'prompt B', client);
+    expect(result).toMatchObject({ scoreA: 10, scoreB: 10, winner: 'tie' });
+  });
+
+  it('reports an error instead of throwing', async () => {
+    const { client } = judgingClient('no se');
+    const result = await comparePromptsOnInput(input, 'prompt A', 'prompt B', client);
+    expect(result.error).toBe('El evaluador no devolvió JSON');
+    expect(result.replyB).toBe('respuesta B');
+  });
+});
+
+describe('summarizeComparison', () => {
+  const result = (winner: ComparisonTurnResult['winner'], scoreA: number, scoreB: number, error?: string): ComparisonTurnResult =>
+    ({ inputId: 'i', replyA: '', replyB: '', scoreA, scoreB, winner, error });
+
+  it('counts wins and leaves errors out of the averages', () => {
+    expect(summarizeComparison([result('A', 8, 5), result('B', 4, 7), result('A', 9, 6), result('tie', 0, 0, 'x')])).toEqual({
+      winsA: 2, winsB: 1, ties: 0, errors: 1, averageA: 7, averageB: 6, winner: 'A',
+    });
+  });
+
+  it('breaks equal wins by average score', () => {
+    expect(summarizeComparison([result('A', 6, 5), result('B', 3, 9)]).winner).toBe('B');
+    expect(summarizeComparison([result('tie', 5, 5)]).winner).toBe('tie');
+  });
+});
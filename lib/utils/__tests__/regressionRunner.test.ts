@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { parseGoldenTranscript, replayGoldenConversation, rubricToScore } from '../regressionRunner';
+import type { SimulationModelClient, SimulationRequest } from '../conversationSimulator';
+import type { GoldenConversation, RubricScore } from '@/types/regression';
+
+const golden: GoldenConversation = {
+  id: 'g1',
+  name: 'Lead frio',
+  transcript: [
+    { role: 'agent', content: 'Hola! gracias por escribir' },
+    { role: 'lead', content: 'cuanto sale?' },
+    { role: 'agent', content: 'Depende, contame tu caso' },
+    { role: 'lead', content: 'tengo un gimnasio' },
+    { role: 'agent', content: 'Genial! agendamos?' },
+  ],
+  expectedBehavior: 'Califica antes de ofrecer',
+  createdAt: 0,
+};
+
+const rubric = (score: number) =>
+  ['behavior', 'tone', 'accuracy', 'flow'].map((criterion) => ({ criterion, score, comment: 'ok' }));
+
+function scriptedClient(judge: string) {
+  const requests: SimulationRequest[] = [];
+  const client: SimulationModelClient = {
+    async complete(request) {
+      requests.push(request);
+      if (request.role === 'judge') return judge;
+      return ` respuesta ${requests.length} `;
+    },
+  };
+  return { client, requests };
+}
+
+describe('parseGoldenTranscript', () => {
+  it('splits turns by speaker and joins lines that belong to the previous turn', () => {
+    const turns = parseGoldenTranscript(`[10:02] Lead: hola
+vi tu video
+Agente: Hola! que bueno
+Setter: contame de vos
+
+Cliente: tengo un gimnasio
+Nota: esto no es un speaker`);
+
+    expect(turns).toEqual([
+      { role: 'lead', content: 'hola\nvi tu video' },
+      { role: 'agent', content: 'Hola! que bueno\ncontame de vos' },
+      { role: 'lead', content: 'tengo un gimnasio\nNota: esto no es un speaker' },
+    ]);
+  });
+
+  it('ignores text before the first speaker', () => {
+    expect(parseGoldenTranscript('Copiado de Instagram\n\nLead: hola')).toEqual([{ role: 'lead', content: 'hola' }]);
+  });
+});
+
+describe('rubricToScore', () => {
+  it('maps the 1-5 average onto 0-100', () => {
+    const scores = (values: number[]) => values.map((score) => ({ criterion: 'tone', score }) as RubricScore);
+    expect(rubricToScore(scores([1, 1]))).toBe(0);
+    expect(rubricToScore(scores([5, 5]))).toBe(100);
+    expect(rubricToScore(scores([4, 3]))).toBe(63);
+    expect(rubricToScore([])).toBe(0);
+  });
+});
+
+describe('replayGoldenConversation', () => {
+  it('replays each agent turn after the first lead message with the golden history', async () => {
+    const { client, requests } = scriptedClient(JSON.stringify({ rubric: rubric(4), reasoning: 'Parecido' }));
+
+    const result = await replayGoldenConversation(golden, 'Sos el setter.', client);
+
+    expect(requests.map((r) => r.role)).toEqual(['agent', 'agent', 'judge']);
+    expect(requests[1].messages).toEqual([
+      { role: 'user', content: 'cuanto sale?' },
+      { role: 'assistant', content: 'Depende, contame tu caso' },
+      { role: 'user', content: 'tengo un gimnasio' },
+    ]);
+    expect(result.turns.map((t) => [t.turnIndex, t.leadMessage, t.actualReply])).toEqual([
+      [2, 'cuanto sale?', 'respuesta 1'],
+      [4, 'tengo un gimnasio', 'respuesta 2'],
+    ]);
+    expect(result).toMatchObject({ status: 'passed', score: 75, reasoning: 'Parecido' });
+    expect(requests[2].messages[0].content).toContain('RESPUESTA ESPERADA: Genial! agendamos?');
+  });
+
+  it('gives the shared context to the agent and the grader', async () => {
+    const { client, requests } = scriptedClient(JSON.stringify({ rubric: rubric(2) }));
+
+    const result = await replayGoldenConversation(golden, 'Sos el setter.', client, 'Precio: 500 USD');
+
+    expect(requests[0].system).toMatch(/^Sos el setter\.\n\n---\n## Contexto del Negocio/);
+    expect(requests[0].system).toContain('<contexto_negocio>\nPrecio: 500 USD\n</contexto_negocio>');
+    expect(requests[2].messages[0].content).toContain('Precio: 500 USD');
+    expect(result).toMatchObject({ status: 'failed', score: 25 });
+  });
+
+  it('reports grader and transcript problems as errors', async () => {
+    const missing = await replayGoldenConversation(golden, 'p', scriptedClient(JSON.stringify({ rubric: rubric(4).slice(1) })).client);
+    expect(missing).toMatchObject({ status: 'error', error: 'Falta el criterio "behavior" en la evaluación' });
+    expect(missing.turns).toHaveLength(2);
+
+    const leadOnly = { ...golden, transcript: [{ role: 'lead' as const, content: 'hola' }] };
+    const empty = await replayGoldenConversation(leadOnly, 'p', scriptedClient('{}').client);
+    expect(empty).toMatchObject({ status: 'error', error: 'La conversación no tiene respuestas del agente para comparar' });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { attributeSectionChanges, diffSections, diffWords, getVersionsBetween } from '../sectionDiff';
+import type { ChatMessage, PromptVersion } from '@/types/prompt';
+
+const before = `Sos el setter de Maria.
+
+## TONO
+Cercano y breve, sin emojis.
+
+## CALIFICACION
+Preguntar edad, presupuesto, objetivo, experiencia previa y horario disponible.
+
+## CIERRE
+Mandar el link del calendario.
+
+## GARANTIA
+Treinta dias de devolucion del dinero.
+`;
+
+const statusOf = (entries: ReturnType<typeof diffSections>) => entries.map((e) => `${e.status}:${e.title}`);
+
+describe('diffSections', () => {
+  it('tells modified, moved, added and removed sections apart', () => {
+    const after = `Sos el setter de Maria.
+
+## CIERRE
+Mandar el link del calendario.
+
+## TONO
+Cercano y breve, con algun emoji.
+
+## CALIFICACION
+Preguntar edad, presupuesto, objetivo, experiencia previa y horario disponible.
+
+## OBJECIONES
+No bajar el precio.
+`;
+    const entries = diffSections(before, after);
+
+    expect(statusOf(entries)).toEqual([
+      'unchanged:Preámbulo',
+      'moved:CIERRE',
+      'modified:TONO',
+      'unchanged:CALIFICACION',
+      'removed:GARANTIA',
+      'added:OBJECIONES',
+    ]);
+
+    const tone = entries.find((e) => e.title === 'TONO')!;
+    expect(tone).toMatchObject({ moved: false, renamed: false, addedWords: 3, removedWords: 2 });
+    const textOf = (type: 'added' | 'removed') =>
+      tone.wordDiff!.filter((p) => p.type === type).map((p) => p.text).join(' ');
+    expect(textOf('removed')).toBe('sin emojis.');
+    expect(textOf('added')).toBe('con algun emoji.');
+  });
+
+  it('follows a renamed section by its content and flags edits that also moved', () => {
+    const after = `Sos el setter de Maria.
+
+## GARANTIA
+Treinta dias de devolucion del dinero, sin preguntas.
+
+## TONO
+Cercano y breve, sin emojis.
+
+## FILTRO
+Preguntar edad, presupuesto, objetivo, experiencia previa y horario disponible.
+
+## CIERRE
+Mandar el link del calendario.
+`;
+    const entries = diffSections(before, after);
+
+    const renamed = entries.find((e) => e.title === 'FILTRO')!;
+    expect(renamed).toMatchObject({ status: 'modified', renamed: true, moved: false });
+    expect(renamed.before!.title).toBe('CALIFICACION');
+
+    expect(entries.find((e) => e.title === 'GARANTIA')).toMatchObject({ status: 'modified', moved: true });
+  });
+
+  it('ignores whitespace-only edits', () => {
+    const entries = diffSections(before, before.replace('Cercano y breve', 'Cercano  y\nbreve'));
+    expect(entries.every((e) => e.status === 'unchanged')).toBe(true);
+  });
+});
+
+describe('diffWords', () => {
+  it('keeps equal runs together', () => {
+    expect(diffWords('hola que tal', 'hola como tal')).toEqual([
+      { type: 'equal', text: 'hola ' },
+      { type: 'removed', text: 'que' },
+      { type: 'added', text: 'como' },
+      { type: 'equal', text: ' tal' },
+    ]);
+  });
+});
+
+describe('attributeSectionChanges', () => {
+  const after = before
+    .replace('sin emojis', 'con algun emoji')
+    .replace('Mandar el link del calendario.', 'Mandar el link y confirmar el horario.');
+
+  const version = (id: string, timestamp: number, extra: Partial<PromptVersion> = {}): PromptVersion =>
+    ({ id, content: '', timestamp, label: `v${id}`, ...extra });
+
+  const chat: ChatMessage[] = [{
+    id: 'm1',
+    role: 'assistant',
+    timestamp: 0,
+    content: `## MODIFICACIONES SECCIÓN POR SECCIÓN
+
+### 1. Confirmar horario
+**Sección:** CIERRE
+**Acción:** Reemplazar
+**Antes:** "Mandar el link del calendario."
+**Después:** "Mandar el link y confirmar el horario."
+**Razón:** Evita que falten a la llamada
+
+### 2. Sumar emojis
+**Sección:** TONO
+**Acción:** Reemplazar
+**Antes:** "sin emojis"
+**Después:** "con algun emoji"
+**Razón:** Suena mas cercano`,
+    changeStatuses: { 2: 'rejected' },
+  }];
+
+  it('traces changed sections to versions and to chat changes that were not rejected', () => {
+    const versions = [
+      version('2', 20, { changeDetails: { sectionTitle: 'Tono', category: 'estilo' } }),
+      version('3', 30, { changes: [{ type: 'manual_edit', description: 'Cambio el cierre a pedido de Maria', justification: 'No-shows' }] }),
+    ];
+    const entries = attributeSectionChanges(diffSections(before, after), versions, chat);
+    const sourcesOf = (title: string) => entries.find((e) => e.title === title)!.sources;
+
+    expect(sourcesOf('TONO')).toEqual([{ kind: 'version', versionLabel: 'v2', description: 'v2 (estilo)' }]);
+    expect(sourcesOf('CIERRE')).toEqual([
+      { kind: 'version', versionLabel: 'v3', description: 'Cambio el cierre a pedido de Maria', reason: 'No-shows' },
+      { kind: 'chat', description: 'Confirmar horario', reason: 'Evita que falten a la llamada', messageId: 'm1' },
+    ]);
+    expect(sourcesOf('CALIFICACION')).toEqual([]);
+  });
+});
+
+describe('getVersionsBetween', () => {
+  it('returns the versions after the older one up to the newer one, oldest first', () => {
+    const versions = [30, 10, 40, 20].map((t) => ({ id: `v${t}`, content: '', timestamp: t, label: `${t}` }));
+    expect(getVersionsBetween(versions, versions[2], versions[1]).map((v) => v.id)).toEqual(['v20', 'v30', 'v40']);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkProjectConsistency,
+  checkSharedContextConsistency,
+  parseSharedContext,
+  serializeSharedContext,
+} from '../sharedContext';
+import type { Project } from '@/types/prompt';
+
+const context = `## Precios
+Mentoria: USD 1.500 (o 3 cuotas de USD 550)
+Comunidad: $47/mes
+
+## Links
+Agenda: https://calendly.com/maria/llamada
+VSL: www.maria.com/vsl`;
+
+const issuesOf = (prompt: string, shared = context) =>
+  checkSharedContextConsistency(prompt, shared).map((i) => `${i.kind}:${i.value}`);
+
+describe('parseSharedContext', () => {
+  it('splits sections by heading and keeps unknown text as "other"', () => {
+    const sections = parseSharedContext(`Texto suelto\n\n## Precio\nUSD 100\n\n## Garantia\n30 dias\n\n## Preguntas frecuentes\nP: Sirve?`);
+    expect(sections.prices).toBe('USD 100');
+    expect(sections.faqs).toBe('P: Sirve?');
+    expect(sections.other).toBe('Texto suelto\n\n## Garantia\n30 dias');
+  });
+
+  it('round-trips through serializeSharedContext', () => {
+    const sections = parseSharedContext(context);
+    expect(parseSharedContext(serializeSharedContext(sections))).toEqual(sections);
+    expect(serializeSharedContext(sections)).toBe(context);
+  });
+});
+
+describe('price checks', () => {
+  it('accepts the same amount however it is written', () => {
+    expect(issuesOf('La mentoria sale 1500 dolares, o 1,5k USD... o USD1500.')).toEqual([]);
+    expect(issuesOf('Son 3 cuotas de $550 y la comunidad US$ 47.')).toEqual([]);
+  });
+
+  it('flags amounts the context does not have, with the expected ones', () => {
+    const issues = checkSharedContextConsistency('Hoy la mentoria esta USD 1.200.', context);
+    expect(issues).toEqual([{
+      kind: 'price',
+      value: 'USD 1.200',
+      startIndex: 21,
+      endIndex: 30,
+      expected: ['USD 1.500', 'USD 550', '$47'],
+    }]);
+  });
+
+  it('reads decimals and thousands separators', () => {
+    expect(issuesOf('Cuesta $2.500,50', '## Precios\n$2500.50')).toEqual([]);
+    expect(issuesOf('Cuesta $1.5', '## Precios\n$1,5')).toEqual([]);
+    expect(issuesOf('Cuesta 2 mil euros', '## Precios\nEUR 2000')).toEqual([]);
+  });
+
+  it('ignores qualification thresholds', () => {
+    expect(issuesOf('Si factura mas de $5k por mes, ofrecer la mentoria de USD 1.500')).toEqual([]);
+    expect(issuesOf('Preguntar si tiene un presupuesto de USD 3000')).toEqual([]);
+  });
+});
+
+describe('link checks', () => {
+  it('flags another URL on a domain the context has', () => {
+    const prompt = 'Agenda aca: https://calendly.com/maria/otra. Mira el video en https://www.maria.com/vsl/ y segui en instagram.com/maria';
+    const issues = checkSharedContextConsistency(prompt, context);
+
+    expect(issues.map((i) => [i.value, i.expected])).toEqual([
+      ['https://calendly.com/maria/otra', ['https://calendly.com/maria/llamada']],
+    ]);
+    expect(prompt.slice(issues[0].startIndex, issues[0].endIndex)).toBe('https://calendly.com/maria/otra');
+  });
+
+  it('skips the checks the context has no data for', () => {
+    expect(issuesOf('USD 999 y https://calendly.com/otro', '## Bio\nCoach de fitness')).toEqual([]);
+    expect(checkSharedContextConsistency('USD 999', undefined)).toEqual([]);
+  });
+});
+
+describe('checkProjectConsistency', () => {
+  it('lists only the agents with issues, checking a draft context when given', () => {
+    const project = {
+      sharedContext: context,
+      agents: [
+        { id: 'a1', currentPrompt: 'La mentoria sale USD 1.500' },
+        { id: 'a2', currentPrompt: 'La mentoria sale USD 900' },
+      ],
+    } as unknown as Project;
+
+    expect(checkProjectConsistency(project).map((r) => r.agent.id)).toEqual(['a2']);
+    expect(checkProjectConsistency(project, '## Precios\nUSD 900').map((r) => r.agent.id)).toEqual(['a1']);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { parseTextFlow } from '../textFlowParser';
+import type { FlowData } from '@/types/flow';
+
+const labels = (data: FlowData) => data.nodes.map((n) => `${n.type}:${n.label}`);
+const links = (data: FlowData) => {
+  const byId = new Map(data.nodes.map((n) => [n.id, n.label]));
+  return data.edges.map((e) => `${byId.get(e.source)} -${e.label ?? ''}-> ${byId.get(e.target)}`);
+};
+const nodeNamed = (data: FlowData, label: string) => data.nodes.find((n) => n.label === label)!;
+
+describe('parseTextFlow', () => {
+  it('reads numbered steps with a yes/no branch', () => {
+    const parsed = parseTextFlow(`Objetivo: agendar.
+
+1. **Saludo**: Presentarse
+2. **Calificar**: Preguntar presupuesto
+   - Si tiene presupuesto → Paso 3
+   - ❌ No tiene → Despedirse
+3. **Agendar**: Coordinar horario`, 'FLUJO_VENTAS')!;
+
+    expect(labels(parsed)).toEqual([
+      'start:FLUJO_VENTAS',
+      'action:Saludo',
+      'decision:Calificar',
+      'action:Agendar',
+      'end:Despedirse',
+      'end:Fin',
+    ]);
+    expect(links(parsed)).toEqual([
+      'FLUJO_VENTAS --> Saludo',
+      'Saludo --> Calificar',
+      'Calificar -Si tiene presupuesto-> Agendar',
+      'Calificar -No tiene-> Despedirse',
+      'Agendar --> Fin',
+    ]);
+    const calificar = nodeNamed(parsed, 'Calificar');
+    expect(calificar.data?.description).toBe('Preguntar presupuesto');
+    expect(parsed.edges.filter((e) => e.source === calificar.id).map((e) => e.sourceHandle)).toEqual(['yes', 'no']);
+  });
+
+  it('turns three or more branches into a switch with one output each', () => {
+    const parsed = parseTextFlow(`1. Preguntar el motivo
+   - Si pregunta precio → Paso 2
+   - Si quiere info → Paso 3
+   - Si es soporte → SOPORTE_FLOW
+2. Calificar antes del precio
+3. Mandar el PDF`, 'MOTIVO', { availableFlows: [{ id: 'f-sop', name: 'SOPORTE_FLOW' }] })!;
+
+    const route = nodeNamed(parsed, 'Preguntar el motivo');
+    expect(route.type).toBe('switch');
+    expect(route.data?.outputs?.map((o) => o.label)).toEqual(['Si pregunta precio', 'Si quiere info', 'Si es soporte']);
+    const outputIds = route.data!.outputs!.map((o) => o.id);
+    expect(parsed.edges.filter((e) => e.source === route.id).map((e) => e.sourceHandle)).toEqual(outputIds);
+
+    const crossFlow = nodeNamed(parsed, '→ SOPORTE_FLOW');
+    expect(crossFlow).toMatchObject({ type: 'end', data: { crossFlowRef: 'f-sop' } });
+  });
+
+  it('infers waits, handoffs and resources from the step text', () => {
+    const parsed = parseTextFlow(`1. Mandar el VSL https://ejemplo.com/vsl
+2. Esperar 2 horas la respuesta
+3. Derivar al closer por WhatsApp`, 'SEGUIMIENTO')!;
+
+    expect(nodeNamed(parsed, 'Mandar el VSL https://ejemplo.com/vsl').data?.resource).toEqual({ kind: 'vsl', url: 'https://ejemplo.com/vsl' });
+    expect(nodeNamed(parsed, 'Esperar 2 horas la respuesta').data?.delay).toEqual({ amount: 2, unit: 'hours' });
+    expect(nodeNamed(parsed, 'Derivar al closer por WhatsApp').data?.handoff).toEqual({ target: 'closer', channel: 'whatsapp' });
+  });
+
+  it('follows "→ Paso N" jumps, "→ Fin" and steps that hand over to another flow', () => {
+    const parsed = parseTextFlow(`1) Saludo
+   → Paso 3
+2) Preguntar objetivo
+   - Anotar la respuesta
+3) Cierre
+   → Fin
+4) Ir a NURTURE_FLOW`, 'ENTRADA')!;
+
+    expect(labels(parsed)).toEqual([
+      'start:ENTRADA', 'action:Saludo', 'action:Preguntar objetivo', 'end:Cierre', 'end:→ NURTURE_FLOW',
+    ]);
+    expect(links(parsed)).toContain('Saludo --> Cierre');
+    expect(nodeNamed(parsed, 'Preguntar objetivo').data?.instructions).toBe('Anotar la respuesta');
+  });
+
+  it('uses bullets as steps when nothing is numbered', () => {
+    const parsed = parseTextFlow(`- **Paso 1**: Saludar
+- Preguntar de donde viene
+- Despedida`, 'CORTO')!;
+
+    expect(labels(parsed)).toEqual(['start:CORTO', 'action:Saludar', 'action:Preguntar de donde viene', 'end:Despedida']);
+  });
+
+  it('returns null without steps', () => {
+    expect(parseTextFlow('## Solo un titulo\n\n', 'X')).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMergedPrompt,
+  changedBlocks,
+  conflictText,
+  keyPromptBlocks,
+  mergePromptSections,
+  pickSections,
+} from '../threeWayMerge';
+
+const base = `Sos el setter de Maria.
+
+## TONO
+Cercano y breve.
+
+## CALIFICACION
+Preguntar edad y presupuesto.
+
+## CIERRE
+Mandar el link del calendario.
+`;
+
+describe('keyPromptBlocks', () => {
+  it('cuts the prompt into blocks that join back to the original text', () => {
+    const blocks = keyPromptBlocks(base);
+    expect(blocks.map((b) => b.key)).toEqual(['__preamble__', 'tono', 'calificacion', 'cierre']);
+    expect(blocks.map((b) => b.content).join('')).toBe(base);
+  });
+
+  it('keys repeated titles by occurrence', () => {
+    const blocks = keyPromptBlocks('## Ejemplo\nUno\n\n## Ejemplo\nDos\n');
+    expect(blocks.map((b) => b.key)).toEqual(['ejemplo', 'ejemplo#2']);
+  });
+});
+
+describe('mergePromptSections', () => {
+  it('takes each side\'s changes when they touch different sections', () => {
+    const ours = base.replace('Cercano y breve.', 'Cercano, breve y con emojis.');
+    const theirs = base.replace('Mandar el link del calendario.', 'Mandar el link y confirmar el horario.');
+
+    const result = mergePromptSections(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(buildMergedPrompt(result)).toBe(
+      base.replace('Cercano y breve.', 'Cercano, breve y con emojis.').replace('Mandar el link del calendario.', 'Mandar el link y confirmar el horario.')
+    );
+  });
+
+  it('treats the same change on both sides as no conflict', () => {
+    const edited = base.replace('edad y presupuesto', 'presupuesto');
+    const result = mergePromptSections(base, edited, edited.replace(/\n\n/g, '\n\n\n'));
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('places sections added on their side after the section that precedes them', () => {
+    const theirs = base.replace('## CIERRE', '## OBJECIONES\nNo bajar el precio.\n\n## CIERRE');
+    const result = mergePromptSections(base, base, theirs);
+    expect(result.blocks.map((b) => b.key)).toEqual(['__preamble__', 'tono', 'calificacion', 'objeciones', 'cierre']);
+    expect(buildMergedPrompt(result)).toBe(theirs);
+  });
+
+  it('reports a conflict when both sides edit a section, and one we deleted that they edited', () => {
+    const ours = base.replace('Preguntar edad y presupuesto.', 'Preguntar presupuesto.').replace(/## CIERRE[\s\S]*$/, '');
+    const theirs = base.replace('Preguntar edad y presupuesto.', 'Preguntar objetivo.').replace('del calendario', 'de Calendly');
+
+    const result = mergePromptSections(base, ours, theirs);
+    expect(result.conflicts.map((c) => c.key)).toEqual(['calificacion', 'cierre']);
+    expect(result.conflicts[1].ours).toBeNull();
+    expect(buildMergedPrompt(result)).toBeNull();
+
+    const merged = buildMergedPrompt(result, {
+      calificacion: conflictText(result.conflicts[0], 'both'),
+      cierre: conflictText(result.conflicts[1], 'ours'),
+    });
+    expect(merged).toContain('Preguntar presupuesto.\n\n## CALIFICACION\nPreguntar objetivo.');
+    expect(merged).not.toContain('## CIERRE');
+  });
+});
+
+describe('conflictText', () => {
+  const conflict = { key: 'k', title: 'K', base: 'b', ours: 'nuestro\n', theirs: 'suyo\n' };
+
+  it('returns the chosen side or both joined by a blank line', () => {
+    expect(conflictText(conflict, 'ours')).toBe('nuestro\n');
+    expect(conflictText(conflict, 'theirs')).toBe('suyo\n');
+    expect(conflictText(conflict, 'both')).toBe('nuestro\n\nsuyo\n');
+    expect(conflictText({ ...conflict, ours: null }, 'both')).toBe('suyo\n');
+  });
+});
+
+describe('changedBlocks and pickSections', () => {
+  const theirs = base
+    .replace('Cercano y breve.', 'Formal.')
+    .replace('## CIERRE', '## OBJECIONES\nNo bajar el precio.\n\n## CIERRE');
+
+  it('lists the sections that differ', () => {
+    expect(changedBlocks(base, theirs).map((b) => b.key)).toEqual(['tono', 'objeciones']);
+    expect(changedBlocks(base, base.replace(/## CIERRE[\s\S]*$/, '')).map((b) => b.key)).toEqual(['cierre']);
+  });
+
+  it('brings only the picked sections', () => {
+    const picked = pickSections(base, theirs, ['objeciones']);
+    expect(picked).toContain('## OBJECIONES');
+    expect(picked).toContain('Cercano y breve.');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCherryPicks,
+  getCherryPickCandidates,
+  layoutVersionGraph,
+  listBranches,
+  normalizeBranchName,
+} from '../versionBranches';
+import type { PromptVersion } from '@/types/prompt';
+
+const base = `## TONO
+Cercano y breve.
+
+## CIERRE
+Mandar el link del calendario.
+`;
+
+const version = (id: string, timestamp: number, extra: Partial<PromptVersion> = {}): PromptVersion =>
+  ({ id, content: base, timestamp, label: id, ...extra });
+
+// main: v1 -> v2 -> v3, "corto" forked from v1: c1 -> c2
+const versions = [
+  version('v1', 1),
+  version('v2', 2, { parentVersionId: 'v1' }),
+  version('c1', 3, { parentVersionId: 'v1', branch: 'corto' }),
+  version('v3', 4, { parentVersionId: 'v2' }),
+  version('c2', 5, { parentVersionId: 'c1', branch: 'corto' }),
+];
+
+describe('layoutVersionGraph', () => {
+  it('gives each branch a lane that runs down to the version it forked from', () => {
+    const graph = layoutVersionGraph(versions);
+
+    expect(graph.laneCount).toBe(2);
+    expect(graph.branchLanes).toEqual({ main: 0, corto: 1 });
+    expect(graph.rows.map((r) => [r.version.id, r.lane, r.lines, r.forksIn])).toEqual([
+      ['c2', 1, [{ lane: 1, up: false, down: true }], []],
+      ['v3', 0, [{ lane: 0, up: false, down: true }, { lane: 1, up: true, down: true }], []],
+      ['c1', 1, [{ lane: 0, up: true, down: true }, { lane: 1, up: true, down: true }], []],
+      ['v2', 0, [{ lane: 0, up: true, down: true }, { lane: 1, up: true, down: true }], []],
+      ['v1', 0, [{ lane: 0, up: true, down: false }], [1]],
+    ]);
+  });
+
+  it('keeps older branches on the left even when main starts later', () => {
+    const graph = layoutVersionGraph([
+      version('b1', 1, { branch: 'largo' }),
+      version('a1', 2, { branch: 'corto' }),
+      version('m1', 3),
+    ]);
+    expect(graph.branchLanes).toEqual({ main: 0, largo: 1, corto: 2 });
+    expect(graph.rows.every((r) => r.forksIn.length === 0)).toBe(true);
+  });
+});
+
+describe('listBranches', () => {
+  it('lists main first and records where each branch forked', () => {
+    const branches = listBranches(versions);
+    expect(branches.map((b) => [b.name, b.head.id, b.versionCount, b.forkedFrom?.id])).toEqual([
+      ['main', 'v3', 3, undefined],
+      ['corto', 'c2', 2, 'v1'],
+    ]);
+  });
+});
+
+describe('normalizeBranchName', () => {
+  it('collapses spaces and rejects main or names already taken', () => {
+    expect(normalizeBranchName('  version   corta ', versions)).toBe('version corta');
+    expect(normalizeBranchName('Main', versions)).toBeNull();
+    expect(normalizeBranchName('CORTO', versions)).toBeNull();
+    expect(normalizeBranchName('   ', versions)).toBeNull();
+  });
+});
+
+describe('cherry-picks', () => {
+  it('carries only the picked section of a branch version onto another prompt', () => {
+    const edited = base
+      .replace('Cercano y breve.', 'Cercano, breve y con emojis.')
+      .replace('Mandar el link del calendario.', 'Mandar el link y confirmar el horario.');
+    const branchVersions = [
+      version('v1', 1),
+      version('c1', 2, {
+        parentVersionId: 'v1',
+        branch: 'corto',
+        content: edited,
+        changes: [
+          { type: 'manual_edit', description: 'Emojis en el tono' },
+          { type: 'manual_edit', description: 'Confirmar horario en el cierre' },
+          { type: 'suggestion_rejected', description: 'Tono formal' },
+        ],
+      }),
+    ];
+
+    const candidates = getCherryPickCandidates(branchVersions, 'corto');
+    expect(candidates.map((c) => [c.id, c.sectionKeys])).toEqual([
+      ['c1:0', ['tono']],
+      ['c1:1', ['cierre']],
+    ]);
+    expect(applyCherryPicks(base, [candidates[1]])).toBe(
+      base.replace('Mandar el link del calendario.', 'Mandar el link y confirmar el horario.')
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Agent flow map - How the NamedFlows of an agent connect through `crossFlowRef`.
+ *
+ * Used by the agent map canvas: every node with a `crossFlowRef` is a link to
+ * another flow. Links to flows that no longer exist are broken, and strongly
+ * connected groups of flows are reported as cycles.
+ */
+
+import type { NamedFlow } from '@/types/flow';
+
+export interface CrossFlowLink {
+  id: string;
+  sourceFlowId: string;
+  sourceNodeId: string;
+  sourceNodeLabel: string;
+  targetFlowId: string;
+  broken: boolean;                     // Target flow was deleted
+}
+
+export interface AgentFlowMapData {
+  links: CrossFlowLink[];
+  brokenLinks: CrossFlowLink[];
+  cycles: string[][];                  // Flow ids of each cycle, in link order
+  depthByFlow: Record<string, number>; // Column of each flow, counted from the entry flows
+}
+
+export function collectCrossFlowLinks(flows: NamedFlow[]): CrossFlowLink[] {
+  const flowIds = new Set(flows.map((f) => f.id));
+  const links: CrossFlowLink[] = [];
+
+  for (const flow of flows) {
+    for (const node of flow.flowData.nodes) {
+      const targetFlowId = node.data?.crossFlowRef;
+      if (!targetFlowId) continue;
+      links.push({
+        id: `${flow.id}:${node.id}`,
+        sourceFlowId: flow.id,
+        sourceNodeId: node.id,
+        sourceNodeLabel: node.label,
+        targetFlowId,
+        broken: !flowIds.has(targetFlowId),
+      });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Cycles between flows (Tarjan's strongly connected components). A flow that
+ * links to itself is a cycle of one.
+ */
+export function findFlowCycles(flows: NamedFlow[], links: CrossFlowLink[]): string[][] {
+  const targets = new Map<string, string[]>();
+  for (const flow of flows) targets.set(flow.id, []);
+  for (const link of links) {
+    if (!link.broken) targets.get(link.sourceFlowId)?.push(link.targetFlowId);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of targets.get(id) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) !== index.get(id)) return;
+
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+
+    const selfLoop = component.length === 1 && (targets.get(id) || []).includes(id);
+    if (component.length > 1 || selfLoop) cycles.push(component.reverse());
+  };
+
+  for (const flow of flows) {
+    if (!index.has(flow.id)) visit(flow.id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Column of each flow: BFS depth from the flows nobody links to. Flows only
+ * reachable through a cycle start another BFS from the first of them.
+ */
+function computeDepths(flows: NamedFlow[], links: CrossFlowLink[]): Record<string, number> {
+  const incoming = new Set(links.filter((l) => !l.broken && l.sourceFlowId !== l.targetFlowId).map((l) => l.targetFlowId));
+  const depthByFlow: Record<string, number> = {};
+
+  const bfs = (roots: string[]) => {
+    const queue = [...roots];
+    for (const id of roots) depthByFlow[id] = 0;
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const link of links) {
+        if (link.broken || link.sourceFlowId !== id || link.targetFlowId in depthByFlow) continue;
+        depthByFlow[link.targetFlowId] = depthByFlow[id] + 1;
+        queue.push(link.targetFlowId);
+      }
+    }
+  };
+
+  bfs(flows.filter((f) => !incoming.has(f.id)).map((f) => f.id));
+  for (const flow of flows) {
+    if (!(flow.id in depthByFlow)) bfs([flow.id]);
+  }
+  return depthByFlow;
+}
+
+export function buildAgentFlowMap(flows: NamedFlow[]): AgentFlowMapData {
+  const links = collectCrossFlowLinks(flows);
+  return {
+    links,
+    brokenLinks: links.filter((l) => l.broken),
+    cycles: findFlowCycles(flows, links),
+    depthByFlow: computeDepths(flows, links),
+  };
+}
@@ -5,6 +5,9 @@
 
 import type { KnowledgeEntry } from '@/types/prompt';
 import type { SemanticSection } from '@/lib/semanticParser';
+import { getKnowledgeIndex } from './knowledgeIndex';
+import { getSupersededIds } from './knowledgeRelations';
+import { isInScope, type KnowledgeScopeTarget } from './knowledgeScope';
 
 export interface DetectedAntiPattern {
   knowledgeEntryId: string;
@@ -16,186 +19,91 @@ export interface DetectedAntiPattern {
   sectionId?: string;
 }
 
-/**
- * Extracts keywords from text for matching
- */
-function extractKeywords(text: string): string[] {
-  const words = text
-    .toLowerCase()
-    .replace(/[^\w\sáéíóúñ]/g, ' ')
-    .split(/\s+/)
-    .filter(w => w.length > 3);
-  
-  // Remove common stop words
-  const stopWords = new Set(['para', 'que', 'con', 'por', 'como', 'este', 'esta', 'esto', 'the', 'and', 'for', 'with']);
-  return words.filter(w => !stopWords.has(w));
+interface PromptChunk {
+  start: number;
+  end: number;
+  text: string;
 }
 
-/**
- * Calculates similarity score between text and a knowledge entry
- */
-function calculateSimilarity(text: string, entry: KnowledgeEntry): number {
-  const textLower = text.toLowerCase();
-  const titleLower = entry.title.toLowerCase();
-  const descLower = entry.description.toLowerCase();
-  
-  let score = 0;
-  
-  // Check for exact phrase matches in title
-  if (textLower.includes(titleLower)) {
-    score += 0.5;
-  }
-  
-  // Check for keyword matches
-  const textKeywords = extractKeywords(text);
-  const entryKeywords = extractKeywords(entry.title + ' ' + entry.description);
-  
-  const matchingKeywords = textKeywords.filter(tk => 
-    entryKeywords.some(ek => ek.includes(tk) || tk.includes(ek))
-  );
-  
-  score += (matchingKeywords.length / Math.max(textKeywords.length, 1)) * 0.3;
-  
-  // Check for example matches (if example exists)
-  if (entry.example) {
-    const exampleLower = entry.example.toLowerCase();
-    const exampleKeywords = extractKeywords(entry.example);
-    
-    // Exact match
-    if (textLower.includes(exampleLower) || exampleLower.includes(textLower)) {
-      score += 0.4;
-    } else {
-      // Keyword overlap with example
-      const exampleMatches = textKeywords.filter(tk =>
-        exampleKeywords.some(ek => ek.includes(tk) || tk.includes(ek))
-      );
-      score += (exampleMatches.length / Math.max(exampleKeywords.length, 1)) * 0.2;
-    }
-  }
-  
-  return Math.min(score, 1);
-}
+// Chunks shorter than this carry too few words to compare
+const MIN_CHUNK_LENGTH = 15;
 
 /**
- * Finds all occurrences of a pattern in text
+ * Splits the prompt into sentences (a line break also ends one), keeping offsets
  */
-function findPatternOccurrences(
-  text: string,
-  pattern: KnowledgeEntry
-): Array<{ start: number; end: number; matched: string }> {
-  const occurrences: Array<{ start: number; end: number; matched: string }> = [];
-  
-  // If pattern has an example, try to find similar text
-  if (pattern.example) {
-    const exampleKeywords = extractKeywords(pattern.example);
-    const windowSize = Math.max(pattern.example.length, 50);
-    
-    // Sliding window search
-    for (let i = 0; i < text.length - windowSize; i += 10) {
-      const window = text.substring(i, i + windowSize);
-      const windowKeywords = extractKeywords(window);
-      
-      const matches = windowKeywords.filter(wk =>
-        exampleKeywords.some(ek => ek === wk || ek.includes(wk) || wk.includes(ek))
-      );
-      
-      if (matches.length >= Math.min(exampleKeywords.length * 0.5, 2)) {
-        // Find the actual matched text boundaries
-        let start = i;
-        let end = i + windowSize;
-        
-        // Try to find sentence boundaries
-        const sentenceStart = text.lastIndexOf('.', i) + 1;
-        const sentenceEnd = text.indexOf('.', i + windowSize);
-        
-        if (sentenceStart > 0 && sentenceStart < i + 20) start = sentenceStart;
-        if (sentenceEnd > 0 && sentenceEnd < end + 50) end = sentenceEnd;
-        
-        occurrences.push({
-          start,
-          end,
-          matched: text.substring(start, end).trim(),
-        });
-        
-        // Skip ahead to avoid overlapping matches
-        i = end;
-      }
-    }
-  }
-  
-  // Also search for title keywords
-  const titleKeywords = extractKeywords(pattern.title);
-  titleKeywords.forEach(keyword => {
-    const regex = new RegExp(`\\b${keyword}\\b`, 'gi');
-    let match;
-    while ((match = regex.exec(text)) !== null) {
-      // Expand to sentence boundaries
-      let start = match.index;
-      let end = match.index + match[0].length;
-      
-      const sentenceStart = text.lastIndexOf('.', start) + 1;
-      const sentenceEnd = text.indexOf('.', end);
-      
-      if (sentenceStart >= 0 && start - sentenceStart < 100) start = sentenceStart;
-      if (sentenceEnd > 0 && sentenceEnd - end < 100) end = sentenceEnd;
-      
-      occurrences.push({
-        start,
-        end,
-        matched: text.substring(start, end).trim(),
-      });
-    }
-  });
-  
-  // Remove duplicates and overlaps
-  const unique: Array<{ start: number; end: number; matched: string }> = [];
-  occurrences.sort((a, b) => a.start - b.start);
-  
-  for (const occ of occurrences) {
-    const overlaps = unique.some(u => 
-      (occ.start >= u.start && occ.start <= u.end) ||
-      (occ.end >= u.start && occ.end <= u.end)
-    );
-    if (!overlaps) {
-      unique.push(occ);
+function splitIntoChunks(text: string): PromptChunk[] {
+  const chunks: PromptChunk[] = [];
+  // Sentence end: punctuation followed by whitespace (not the dot of "calendly.com")
+  const sentenceRegex = /[^\n]+?(?:[.!?]+(?=\s)|$)/gm;
+  let match;
+
+  while ((match = sentenceRegex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      sentenceRegex.lastIndex++;
+      continue;
     }
+    const raw = match[0];
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed.length < MIN_CHUNK_LENGTH) continue;
+
+    const start = match.index + leading;
+    chunks.push({ start, end: start + trimmed.length, text: trimmed });
   }
-  
-  return unique;
+
+  return chunks;
 }
 
 /**
- * Detects anti-patterns in the entire prompt text
+ * Detects anti-patterns in the entire prompt text.
+ * Each sentence is compared with every anti-pattern through the knowledge index;
+ * confidence is the cosine similarity with the entry (or its example).
+ * With a scope target, anti-patterns scoped to other agents are skipped.
  */
 export function detectAntiPatterns(
   promptText: string,
   knowledgeEntries: KnowledgeEntry[],
-  minConfidence: number = 0.6
+  minConfidence: number = 0.6,
+  scopeTarget?: KnowledgeScopeTarget
 ): DetectedAntiPattern[] {
+  // Filter to only anti-patterns that haven't been superseded
+  const superseded = getSupersededIds(knowledgeEntries);
+  const antiPatterns = knowledgeEntries.filter(e =>
+    e.type === 'anti_pattern' &&
+    !superseded.has(e.id) &&
+    (!scopeTarget || isInScope(e, scopeTarget))
+  );
+  if (antiPatterns.length === 0) return [];
+
+  const chunks = splitIntoChunks(promptText);
+  if (chunks.length === 0) return [];
+
+  const index = getKnowledgeIndex(knowledgeEntries);
+  const vectors = index.embed(chunks.map(c => c.text));
   const detected: DetectedAntiPattern[] = [];
-  
-  // Filter to only anti-patterns
-  const antiPatterns = knowledgeEntries.filter(e => e.type === 'anti_pattern');
-  
-  for (const pattern of antiPatterns) {
-    const occurrences = findPatternOccurrences(promptText, pattern);
-    
-    for (const occ of occurrences) {
-      const confidence = calculateSimilarity(occ.matched, pattern);
-      
-      if (confidence >= minConfidence) {
-        detected.push({
-          knowledgeEntryId: pattern.id,
-          knowledgeEntry: pattern,
-          matchedText: occ.matched,
-          startOffset: occ.start,
-          endOffset: occ.end,
-          confidence,
-        });
+
+  chunks.forEach((chunk, i) => {
+    // Only the closest anti-pattern for each sentence
+    let best: { pattern: KnowledgeEntry; confidence: number } | null = null;
+    for (const pattern of antiPatterns) {
+      const confidence = index.similarity(vectors[i], pattern.id);
+      if (confidence >= minConfidence && (!best || confidence > best.confidence)) {
+        best = { pattern, confidence };
       }
     }
-  }
-  
+
+    if (best) {
+      detected.push({
+        knowledgeEntryId: best.pattern.id,
+        knowledgeEntry: best.pattern,
+        matchedText: chunk.text,
+        startOffset: chunk.start,
+        endOffset: chunk.end,
+        confidence: best.confidence,
+      });
+    }
+  });
+
   // Sort by confidence (highest first)
   return detected.sort((a, b) => b.confidence - a.confidence);
 }
@@ -181,6 +181,8 @@ function renderBoxRow(group: FlowNode[], boxWidths: Map<string, number>): string
 
 /**
  * Renders vertical connectors between two layers.
+ * Nodes with several exits into the next layer (decisions, switches) fan out
+ * over a horizontal bar, with each branch label next to its own pipe.
  */
 function renderConnectors(
   currentGroup: FlowNode[],
@@ -206,52 +208,127 @@ function renderConnectors(
     col += w + HORIZONTAL_GAP;
   }
 
-  // Find which connections go from current to next layer
-  const activeConnections: { fromCol: number; toCol: number; label?: string }[] = [];
+  // Find which connections go from current to next layer, grouped by source
+  const groups: ConnectorGroup[] = [];
 
   for (const node of currentGroup) {
-    const edges = outgoing.get(node.id) || [];
-    for (const edge of edges) {
-      const fromCol = currentCenters.get(node.id);
+    const fromCol = currentCenters.get(node.id);
+    if (fromCol === undefined) continue;
+
+    const targets: ConnectorGroup['targets'] = [];
+    for (const edge of outgoing.get(node.id) || []) {
       const toCol = nextCenters.get(edge.target);
-      if (fromCol !== undefined && toCol !== undefined) {
-        activeConnections.push({ fromCol, toCol, label: edge.label });
+      if (toCol !== undefined && !targets.some((t) => t.toCol === toCol)) {
+        targets.push({ toCol, label: edge.label });
       }
     }
+    if (targets.length > 0) {
+      groups.push({ fromCol, targets: targets.sort((a, b) => a.toCol - b.toCol) });
+    }
   }
 
-  if (activeConnections.length === 0) {
+  if (groups.length === 0) {
     // No connections, just add spacing
     return ['       │', '       ▼'];
   }
 
-  // Determine total width
+  // Determine total width, leaving room for labels after the last pipe
   const allCols = [
     ...Array.from(currentCenters.values()),
     ...Array.from(nextCenters.values()),
   ];
-  const maxCol = Math.max(...allCols, 0) + 5;
-
-  // Render connector lines (pipe + arrow)
-  const pipeChars = new Array(maxCol + 1).fill(' ');
-  const arrowChars = new Array(maxCol + 1).fill(' ');
-
-  for (const conn of activeConnections) {
-    // Simple case: straight down or close enough
-    const connCol = conn.fromCol;
-    if (connCol >= 0 && connCol <= maxCol) {
-      pipeChars[connCol] = '│';
-      arrowChars[connCol] = '▼';
-
-      // Add label if present
-      if (conn.label && connCol + 2 <= maxCol) {
-        const labelStr = ` ${conn.label}`;
-        for (let c = 0; c < labelStr.length && connCol + 1 + c <= maxCol; c++) {
-          pipeChars[connCol + 1 + c] = labelStr[c];
-        }
-      }
+  const longestLabel = Math.max(0, ...groups.flatMap((g) => g.targets.map((t) => t.label?.length ?? 0)));
+  const width = Math.max(...allCols, 0) + longestLabel + 3;
+  const blankRow = () => new Array<string>(width).fill(' ');
+
+  const hasFanOut = groups.some((g) => g.targets.length > 1);
+
+  if (!hasFanOut) {
+    // Render connector lines (pipe + arrow) straight down from each source
+    const pipeChars = blankRow();
+    const arrowChars = blankRow();
+
+    for (const { fromCol, targets } of groups) {
+      pipeChars[fromCol] = '│';
+      arrowChars[fromCol] = '▼';
+      writeLabel(pipeChars, fromCol, targets[0].label);
+    }
+
+    return [pipeChars.join('').trimEnd(), arrowChars.join('').trimEnd()];
+  }
+
+  // Stem, bar, labelled pipes, arrows
+  const stemChars = blankRow();
+  const barChars = blankRow();
+  const pipeChars = blankRow();
+  const arrowChars = blankRow();
+
+  for (const { fromCol, targets } of groups) {
+    stemChars[fromCol] = '│';
+
+    if (targets.length === 1) {
+      barChars[fromCol] = '│';
+      pipeChars[fromCol] = '│';
+      arrowChars[fromCol] = '▼';
+      writeLabel(pipeChars, fromCol, targets[0].label);
+      continue;
     }
+
+    const toCols = targets.map((t) => t.toCol);
+    const minCol = Math.min(fromCol, ...toCols);
+    const maxCol = Math.max(fromCol, ...toCols);
+    for (let c = minCol; c <= maxCol; c++) {
+      barChars[c] = barJunction(c === fromCol, toCols.includes(c), c > minCol, c < maxCol);
+    }
+
+    targets.forEach(({ toCol, label }, i) => {
+      pipeChars[toCol] = '│';
+      arrowChars[toCol] = '▼';
+      // Stop before the next branch's pipe so labels don't run into each other
+      const limit = i < targets.length - 1 ? targets[i + 1].toCol - 1 : width;
+      writeLabel(pipeChars, toCol, label, limit);
+    });
   }
 
-  return [pipeChars.join('').trimEnd(), arrowChars.join('').trimEnd()];
+  return [stemChars, barChars, pipeChars, arrowChars].map((row) => row.join('').trimEnd());
+}
+
+interface ConnectorGroup {
+  fromCol: number;
+  targets: { toCol: number; label?: string }[];
+}
+
+/**
+ * Writes " label" right after a pipe, without overwriting other connectors
+ */
+function writeLabel(row: string[], pipeCol: number, label: string | undefined, limit = row.length): void {
+  if (!label) return;
+  const text = ` ${label}`;
+  for (let c = 0; c < text.length; c++) {
+    const target = pipeCol + 1 + c;
+    if (target >= limit || target >= row.length || row[target] !== ' ') break;
+    row[target] = text[c];
+  }
+}
+
+/**
+ * Box-drawing character for a point of a fan-out bar.
+ * Rounded corners keep the bar from being read back as the top of a box.
+ */
+function barJunction(up: boolean, down: boolean, left: boolean, right: boolean): string {
+  if (left && right) {
+    if (up && down) return '┼';
+    if (up) return '┴';
+    if (down) return '┬';
+    return '─';
+  }
+  if (right) {
+    if (up && down) return '├';
+    return up ? '╰' : '╭';
+  }
+  if (left) {
+    if (up && down) return '┤';
+    return up ? '╯' : '╮';
+  }
+  return '│';
 }
@@ -1,4 +1,5 @@
 import type { FlowData, FlowNode, FlowEdge } from '@/types/flow';
+import { normalizeSwitchNodes } from '@/lib/utils/flowSwitch';
 
 // --- Detection types ---
 
@@ -36,6 +37,10 @@ const ASCII_BOX_SIDE = '|';
 const ARROW_CHARS = /[▼▲→←↓↑▸◂►◄⬇⬆⬅➡]/;
 const CONNECTOR_CHARS = /[│║|▼▲→←↓↑─═\-]/;
 
+// Fan-out bars drawn under nodes with several exits ("╭────┴────╮")
+const FAN_BAR_CHARS = /[─═┬┴┼├┤┌┐└┘╭╮╰╯]/;
+const YES_NO_LABEL = /^(si|sí|no|yes|true|false)$/i;
+
 /**
  * Detects if a text contains ASCII flow art and returns detection info.
  * Uses a confidence scoring system based on multiple signals.
@@ -376,12 +381,20 @@ function detectConnections(lines: string[], boxes: AsciiBox[]): Connection[] {
       if (from.row + from.height <= to.row && Math.abs(from.centerX - to.centerX) < Math.max(from.width, to.width)) {
         if (hasVerticalPath(lines, from, to)) {
           connected.add(key);
-          const label = extractPathLabel(lines, from, to, 'vertical');
+          const label = extractBranchLabel(lines, from, to) ?? extractPathLabel(lines, from, to, 'vertical');
           connections.push({ fromIdx: i, toIdx: j, label });
           continue;
         }
       }
 
+      // Check fan-out connection (from is above to, joined by a horizontal bar)
+      if (from.row + from.height <= to.row && hasFanOutPath(lines, from, to)) {
+        connected.add(key);
+        const label = extractBranchLabel(lines, from, to) ?? extractPathLabel(lines, from, to, 'vertical');
+        connections.push({ fromIdx: i, toIdx: j, label });
+        continue;
+      }
+
       // Check horizontal connection (from is left of to)
       if (from.col + from.width <= to.col && Math.abs(from.centerY - to.centerY) < Math.max(from.height, to.height)) {
         if (hasHorizontalPath(lines, from, to)) {
@@ -431,6 +444,53 @@ function hasVerticalPath(lines: string[], from: AsciiBox, to: AsciiBox): boolean
   return foundConnector;
 }
 
+/**
+ * Fan-out path: a pipe down from `from` into a horizontal bar, and from the bar
+ * a pipe straight down into `to`. Every cell must be a connector, so boxes in
+ * between break the path.
+ */
+function hasFanOutPath(lines: string[], from: AsciiBox, to: AsciiBox): boolean {
+  const startRow = from.row + from.height;
+  const charAt = (r: number, c: number) => lines[r]?.[c] ?? ' ';
+
+  for (let barRow = startRow; barRow < to.row - 1; barRow++) {
+    const left = Math.min(from.centerX, to.centerX);
+    const right = Math.max(from.centerX, to.centerX);
+    if (left === right) return false;
+
+    let isBar = true;
+    for (let c = left; c <= right && isBar; c++) {
+      isBar = FAN_BAR_CHARS.test(charAt(barRow, c));
+    }
+    if (!isBar) continue;
+
+    let stem = true;
+    for (let r = startRow; r < barRow && stem; r++) {
+      stem = /[│║|]/.test(charAt(r, from.centerX));
+    }
+    let drop = true;
+    for (let r = barRow + 1; r < to.row && drop; r++) {
+      drop = /[│║|▼↓]/.test(charAt(r, to.centerX));
+    }
+    return stem && drop;
+  }
+
+  return false;
+}
+
+/**
+ * Label written right after the pipe that drops into `to` ("│ Precio")
+ */
+function extractBranchLabel(lines: string[], from: AsciiBox, to: AsciiBox): string | undefined {
+  for (let r = from.row + from.height; r < to.row && r < lines.length; r++) {
+    const line = lines[r];
+    if (!/[│║|]/.test(line[to.centerX] ?? '')) continue;
+    const match = line.substring(to.centerX + 1).match(/^ ([^\s│║|─┬┴┼▼]+(?: [^\s│║|─┬┴┼▼]+)*)/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
 /**
  * Extracts path labels from text between boxes in ASCII art.
  * Looks for text like: Box1 ──[Yes]──> Box2 or Box1 ── Yes ──> Box2
@@ -543,6 +603,15 @@ function inferNodeTypes(
       }
     }
 
+    // Switch nodes: several labelled exits that aren't a yes/no pair
+    const exits = connections.filter((c) => c.fromIdx === i);
+    const hasQuestion = boxes[i].label.includes('?');
+    const labelledExits = exits.length >= 2 && exits.every((c) => c.label && !YES_NO_LABEL.test(c.label));
+    if ((hasQuestion && (exits.length > 2 || labelledExits)) || (exits.length > 2 && labelledExits)) {
+      types.set(i, 'switch');
+      continue;
+    }
+
     // Decision nodes: contains "?"
     if (boxes[i].label.includes('?')) {
       types.set(i, 'decision');
@@ -639,7 +708,8 @@ function buildFlowData(
     return edge;
   });
 
-  return { nodes, edges };
+  // Switch outputs come from the labels of their connections
+  return normalizeSwitchNodes({ nodes, edges });
 }
 
 function groupIntoLayers(boxes: AsciiBox[]): Map<number, number> {
@@ -15,6 +15,7 @@ export interface ParsedChange {
   afterText?: string;
   location?: string;
   reason: string;
+  learningRefs?: number[];   // Numbers of the team learnings the change applies, as cited by the model
 }
 
 export interface ParseResult {
@@ -124,8 +125,13 @@ function parseSingleChange(block: string, index: number): ParsedChange | null {
     'Nueva ubicacion',
   ]);
 
+  const learningRefs = extractField(block, ['Aprendizajes', 'Aprendizaje'])
+    ?.match(/\d+/g)
+    ?.map(Number);
+
   return {
-    id: `change-${Date.now()}-${index}`,
+    // Index-based so re-parsing a growing stream keeps card identity
+    id: `change-${index}`,
     index,
     title: title.replace(/^\d+\.\s*/, '').replace(/^\[|\]$/g, ''),
     section,
@@ -134,6 +140,7 @@ function parseSingleChange(block: string, index: number): ParsedChange | null {
     afterText,
     location,
     reason,
+    learningRefs: learningRefs && learningRefs.length > 0 ? learningRefs : undefined,
   };
 }
 
@@ -144,21 +151,24 @@ export function hasStructuredChanges(content: string): boolean {
   return /##\s*MODIFICACIONES\s+SECCI[OÓ]N\s+POR\s+SECCI[OÓ]N/i.test(content);
 }
 
+interface ModificationsSplit {
+  beforeBlock: string;
+  afterBlock: string;
+  changeBlocks: string[];
+  hasDocSection: boolean;
+}
+
 /**
- * Parse structured changes from Claude's response.
- * Returns the extracted changes and any remaining content that should render as markdown.
+ * Split a response into the text before the modifications header, the raw ### N. blocks,
+ * and the PARA DOCUMENTAR tail. Returns null when there is no modifications header.
  */
-export function parseChanges(content: string): ParseResult {
-  if (!hasStructuredChanges(content)) {
-    return { changes: [], remainingContent: content };
-  }
-
+function splitModifications(content: string): ModificationsSplit | null {
   // Find the start of the modifications block
   const modHeaderMatch = content.match(
     /##\s*MODIFICACIONES\s+SECCI[OÓ]N\s+POR\s+SECCI[OÓ]N/i
   );
   if (!modHeaderMatch || modHeaderMatch.index === undefined) {
-    return { changes: [], remainingContent: content };
+    return null;
   }
 
   const modStart = modHeaderMatch.index;
@@ -178,24 +188,86 @@ export function parseChanges(content: string): ParseResult {
     : '';
 
   // Split by ### N. pattern to get individual changes
-  const changeSections = modificationsBlock.split(/\n###\s+\d+\.\s*/);
-
   // First element is empty or whitespace before the first ###
+  const changeBlocks = modificationsBlock.split(/\n###\s+\d+\.\s*/).slice(1);
+
+  return {
+    beforeBlock,
+    afterBlock,
+    changeBlocks,
+    hasDocSection: Boolean(docSectionMatch),
+  };
+}
+
+function joinRemaining(beforeBlock: string, afterBlock: string): string {
+  const remainingParts: string[] = [];
+  if (beforeBlock) remainingParts.push(beforeBlock);
+  if (afterBlock) remainingParts.push(afterBlock);
+  return remainingParts.join('\n\n');
+}
+
+/**
+ * Parse structured changes from Claude's response.
+ * Returns the extracted changes and any remaining content that should render as markdown.
+ */
+export function parseChanges(content: string): ParseResult {
+  const split = hasStructuredChanges(content) ? splitModifications(content) : null;
+  if (!split) {
+    return { changes: [], remainingContent: content };
+  }
+
   const changes: ParsedChange[] = [];
-  for (let i = 1; i < changeSections.length; i++) {
-    const parsed = parseSingleChange(changeSections[i].trim(), i);
+  split.changeBlocks.forEach((block, i) => {
+    const parsed = parseSingleChange(block.trim(), i + 1);
     if (parsed) {
       changes.push(parsed);
     }
-  }
+  });
 
   // Build remaining content: everything before modifications + PARA DOCUMENTAR section
-  const remainingParts: string[] = [];
-  if (beforeBlock) remainingParts.push(beforeBlock);
-  if (afterBlock) remainingParts.push(afterBlock);
+  return {
+    changes,
+    remainingContent: joinRemaining(split.beforeBlock, split.afterBlock),
+  };
+}
+
+export interface StreamingParseResult extends ParseResult {
+  // True while a ### N. block has started but is not closed yet
+  hasPendingChange: boolean;
+}
+
+/**
+ * Parse a response that is still being streamed.
+ * Only closed ### N. blocks are returned: a block is closed once the next block starts,
+ * a --- separator follows it, or the PARA DOCUMENTAR section begins.
+ */
+export function parseStreamingChanges(buffer: string): StreamingParseResult {
+  const split = hasStructuredChanges(buffer) ? splitModifications(buffer) : null;
+  if (!split) {
+    return { changes: [], remainingContent: buffer, hasPendingChange: false };
+  }
+
+  const changes: ParsedChange[] = [];
+  let hasPendingChange = false;
+
+  split.changeBlocks.forEach((block, i) => {
+    const isLast = i === split.changeBlocks.length - 1;
+    const isClosed = !isLast || split.hasDocSection || /\n-{3,}\s*$/.test(block);
+
+    if (!isClosed) {
+      hasPendingChange = true;
+      return;
+    }
+
+    const parsed = parseSingleChange(block.trim(), i + 1);
+    if (parsed) {
+      changes.push(parsed);
+    }
+  });
 
   return {
     changes,
-    remainingContent: remainingParts.join('\n\n'),
+    remainingContent: joinRemaining(split.beforeBlock, split.afterBlock),
+    hasPendingChange,
   };
 }
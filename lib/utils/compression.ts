@@ -0,0 +1,102 @@
+import type { CompressionSuggestion, OptimizationResult, RedundancyResult } from '@/types/optimization';
+import { estimateTokens } from '@/lib/hooks/useTokenEstimation';
+
+/**
+ * Normalizes text for comparison (lowercase, collapse whitespace)
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Finds the last case-insensitive occurrence of a phrase
+ */
+function findLastOccurrence(prompt: string, phrase: string): number {
+  return prompt.toLowerCase().lastIndexOf(phrase.toLowerCase());
+}
+
+/**
+ * Converts locally detected redundant phrases into compression suggestions.
+ * Each suggestion removes the last repeated copy of the phrase (plus its sentence terminator).
+ */
+export function redundancyToCompressionSuggestions(
+  prompt: string,
+  redundancy: RedundancyResult
+): CompressionSuggestion[] {
+  const suggestions: CompressionSuggestion[] = [];
+
+  for (const phrase of redundancy.phrases) {
+    const startIndex = findLastOccurrence(prompt, phrase.phrase);
+    if (startIndex === -1) continue;
+
+    let endIndex = startIndex + phrase.phrase.length;
+    // Take the trailing punctuation and one space with it so the sentence disappears cleanly
+    const trailing = prompt.substring(endIndex).match(/^[.!?]? ?/);
+    if (trailing) endIndex += trailing[0].length;
+
+    const originalText = prompt.substring(startIndex, endIndex);
+
+    suggestions.push({
+      id: `local-${phrase.id}`,
+      originalText,
+      compressedText: '',
+      tokenSavings: estimateTokens(originalText),
+      clarityImpact: 'none',
+      category: 'redundant',
+      startIndex,
+      endIndex,
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Merges local and model suggestions.
+ * Model suggestions that overlap a local one or touch an already known phrase are dropped,
+ * and their savings are recomputed with the same estimate the local ones use.
+ */
+export function mergeCompressionSuggestions(
+  local: CompressionSuggestion[],
+  remote: CompressionSuggestion[],
+  knownPhrases: string[]
+): CompressionSuggestion[] {
+  const normalizedKnown = knownPhrases.map(normalize);
+
+  const filteredRemote = remote
+    .map((suggestion) => ({
+      ...suggestion,
+      tokenSavings: estimateTokens(suggestion.originalText) - estimateTokens(suggestion.compressedText),
+    }))
+    .filter((suggestion) => {
+      if (suggestion.tokenSavings <= 0) return false;
+
+      const overlapsLocal = local.some(
+        (l) => suggestion.startIndex < l.endIndex && suggestion.endIndex > l.startIndex
+      );
+      if (overlapsLocal) return false;
+
+      const normalizedOriginal = normalize(suggestion.originalText);
+      return !normalizedKnown.some((phrase) => normalizedOriginal.includes(phrase));
+    });
+
+  return [...local, ...filteredRemote].sort((a, b) => b.tokenSavings - a.tokenSavings);
+}
+
+/**
+ * Builds an OptimizationResult with totals computed from the suggestions themselves
+ */
+export function summarizeOptimization(
+  prompt: string,
+  suggestions: CompressionSuggestion[]
+): OptimizationResult {
+  const originalTokenCount = estimateTokens(prompt);
+  const totalPotentialSavings = suggestions.reduce((sum, s) => sum + s.tokenSavings, 0);
+
+  return {
+    suggestions,
+    totalPotentialSavings,
+    originalTokenCount,
+    optimizedTokenCount: Math.max(0, originalTokenCount - totalPotentialSavings),
+  };
+}
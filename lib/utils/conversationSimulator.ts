@@ -0,0 +1,271 @@
+/**
+ * Conversation Simulator - Runs a FlowTestCase as a simulated Instagram DM conversation.
+ *
+ * One model plays the lead persona, another plays the agent (using the agent's prompt),
+ * and a judge classifies the outcome and red flags. All model calls go through
+ * SimulationModelClient so the simulator can run offline against a mocked client.
+ */
+
+import type {
+  FlowData,
+  FlowTestCase,
+  FlowTestRun,
+  LeadPersonaId,
+  SimulatedTurn,
+  TestOutcome,
+} from '@/types/flow';
+import { buildSharedContextBlock } from './sharedContext';
+
+export type SimulationRole = 'lead' | 'agent' | 'judge';
+
+export interface SimulationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface SimulationRequest {
+  role: SimulationRole;
+  system: string;
+  messages: SimulationMessage[];
+  maxTokens?: number;
+}
+
+/**
+ * Minimal model interface used by the simulator.
+ * `role` lets a mock return scripted replies per participant.
+ */
+export interface SimulationModelClient {
+  complete(request: SimulationRequest): Promise<string>;
+}
+
+export interface SimulationOptions {
+  maxTurns?: number;
+  sharedContext?: string;   // Project business data, given to the agent with its prompt
+}
+
+const DEFAULT_MAX_TURNS = 8;
+const END_MARKER = '[FIN]';
+const NODES_TAG_REGEX = /<nodos>([\s\S]*?)<\/nodos>/i;
+
+const TEST_OUTCOMES: TestOutcome[] = ['converted', 'nurture', 'lost', 'blocked', 'timeout'];
+
+export const LEAD_PERSONAS: Record<LeadPersonaId, { name: string; description: string }> = {
+  ideal: {
+    name: 'Lead ideal',
+    description: 'Está interesado, responde todas las preguntas con buena predisposición y quiere avanzar.',
+  },
+  skeptic: {
+    name: 'Escéptico',
+    description: 'Desconfía, pide pruebas, testimonios y resultados concretos antes de avanzar.',
+  },
+  price_shopper: {
+    name: 'Solo precio',
+    description: 'Solo quiere saber cuánto cuesta. Evita responder preguntas de calificación.',
+  },
+  freeloader: {
+    name: 'Freeloader',
+    description: 'Quiere contenido o ayuda gratis y no tiene intención de comprar.',
+  },
+  minor: {
+    name: 'Menor de edad',
+    description: 'Tiene 16 años. Lo menciona si le preguntan la edad o si surge naturalmente.',
+  },
+};
+
+const OUTCOME_DESCRIPTIONS: Record<TestOutcome, string> = {
+  converted: 'el lead aceptó agendar una llamada o comprar',
+  nurture: 'el lead no está listo, se le dio un recurso o seguimiento',
+  lost: 'el lead se fue o rechazó la propuesta',
+  blocked: 'el agente cortó o descalificó al lead (ej: menor de edad)',
+  timeout: 'la conversación no llegó a ningún cierre',
+};
+
+function buildAgentSystemPrompt(agentPrompt: string, flowData: FlowData, sharedContext?: string): string {
+  const nodeList = flowData.nodes
+    .map((node) => `- ${node.id} (${node.type}): ${node.label}`)
+    .join('\n');
+  const contextBlock = buildSharedContextBlock(sharedContext);
+
+  return `${agentPrompt}
+${contextBlock ? `\n---\n${contextBlock}\n` : ''}
+
+---
+## Modo simulación (instrucción técnica)
+
+Estás en una conversación de prueba. Respondé como lo harías en un DM real.
+Al final de CADA respuesta agregá la etiqueta <nodos>id1,id2</nodos> con los ids de los pasos del flujo que ejecutaste en ese mensaje (vacía si ninguno). No la menciones.
+
+Pasos del flujo:
+${nodeList}`;
+}
+
+function buildLeadSystemPrompt(testCase: FlowTestCase): string {
+  const persona = LEAD_PERSONAS[testCase.personaId] ?? LEAD_PERSONAS.ideal;
+
+  return `Sos un lead que le escribe por DM de Instagram a un creador de contenido. Estás hablando con su asistente.
+
+Tu perfil: ${persona.name}. ${persona.description}
+Escenario: ${testCase.description}
+
+Reglas:
+- Escribí mensajes cortos y naturales, como en un DM real
+- Respondé SOLO con tu próximo mensaje, sin comillas ni explicaciones
+- Cuando la conversación llegue a un cierre (agendaste, te fuiste, te bloquearon), respondé exactamente ${END_MARKER}`;
+}
+
+const JUDGE_SYSTEM_PROMPT = `Sos un evaluador de QA de agentes de DM. Vas a leer una conversación simulada entre un lead y un agente.
+
+Clasificá el resultado en UNO de estos outcomes:
+${TEST_OUTCOMES.map((o) => `- ${o}: ${OUTCOME_DESCRIPTIONS[o]}`).join('\n')}
+
+Revisá también si el AGENTE cometió alguno de los red flags indicados. Solo incluí los que ocurrieron claramente.
+
+Respondé SOLO con JSON válido:
+{ "outcome": "converted|nurture|lost|blocked|timeout", "triggeredRedFlags": ["red flag textual de la lista"], "reasoning": "explicación breve" }`;
+
+/**
+ * Split an agent reply into visible text and the reported node ids
+ */
+export function extractNodeTag(reply: string, validNodeIds: Set<string>): { content: string; nodeIds: string[] } {
+  const match = reply.match(NODES_TAG_REGEX);
+  const content = reply.replace(NODES_TAG_REGEX, '').trim();
+  if (!match) return { content, nodeIds: [] };
+
+  const nodeIds = match[1]
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => validNodeIds.has(id));
+
+  return { content, nodeIds };
+}
+
+function parseJudgeResponse(raw: string): { outcome: TestOutcome; triggeredRedFlags: string[]; reasoning?: string } {
+  const braceMatch = raw.match(/\{[\s\S]*\}/);
+  if (!braceMatch) {
+    throw new Error('El evaluador no devolvió JSON');
+  }
+
+  const parsed = JSON.parse(braceMatch[0]) as {
+    outcome?: string;
+    triggeredRedFlags?: unknown;
+    reasoning?: string;
+  };
+
+  if (!parsed.outcome || !TEST_OUTCOMES.includes(parsed.outcome as TestOutcome)) {
+    throw new Error(`Outcome inválido del evaluador: ${parsed.outcome}`);
+  }
+
+  return {
+    outcome: parsed.outcome as TestOutcome,
+    triggeredRedFlags: Array.isArray(parsed.triggeredRedFlags)
+      ? parsed.triggeredRedFlags.filter((f): f is string => typeof f === 'string')
+      : [],
+    reasoning: parsed.reasoning,
+  };
+}
+
+function formatTranscript(transcript: SimulatedTurn[]): string {
+  return transcript
+    .map((turn) => `${turn.role === 'lead' ? 'LEAD' : 'AGENTE'}: ${turn.content}`)
+    .join('\n');
+}
+
+/**
+ * Run a single test case as a simulated conversation and grade it.
+ * Never throws: failures are reported as a run with status 'error'.
+ */
+export async function runSimulatedConversation(
+  testCase: FlowTestCase,
+  flowData: FlowData,
+  agentPrompt: string,
+  client: SimulationModelClient,
+  options: SimulationOptions = {}
+): Promise<FlowTestRun> {
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const validNodeIds = new Set(flowData.nodes.map((n) => n.id));
+  const transcript: SimulatedTurn[] = [{ role: 'lead', content: testCase.triggerMessage }];
+  const visited = new Set<string>();
+
+  const agentSystem = buildAgentSystemPrompt(agentPrompt, flowData, options.sharedContext);
+  const leadSystem = buildLeadSystemPrompt(testCase);
+
+  const baseRun = {
+    id: crypto.randomUUID(),
+    testCaseId: testCase.id,
+    runAt: Date.now(),
+  };
+
+  try {
+    let endedNaturally = false;
+
+    for (let turn = 0; turn < maxTurns; turn++) {
+      // Agent sees the lead as the user
+      const agentReply = await client.complete({
+        role: 'agent',
+        system: agentSystem,
+        messages: transcript.map((t) => ({
+          role: t.role === 'lead' ? 'user' : 'assistant',
+          content: t.content,
+        })),
+      });
+      const { content, nodeIds } = extractNodeTag(agentReply, validNodeIds);
+      nodeIds.forEach((id) => visited.add(id));
+      transcript.push({ role: 'agent', content, nodeIds });
+
+      // Lead sees the agent as the user
+      const leadReply = (await client.complete({
+        role: 'lead',
+        system: leadSystem,
+        messages: transcript.map((t) => ({
+          role: t.role === 'agent' ? 'user' : 'assistant',
+          content: t.content,
+        })),
+        maxTokens: 300,
+      })).trim();
+
+      if (leadReply.includes(END_MARKER)) {
+        endedNaturally = true;
+        break;
+      }
+      transcript.push({ role: 'lead', content: leadReply });
+    }
+
+    const judgeInput = `## Red flags a revisar
+${testCase.redFlags.length > 0 ? testCase.redFlags.map((f) => `- ${f}`).join('\n') : '(ninguno)'}
+
+## Conversación${endedNaturally ? '' : ' (cortada por límite de turnos)'}
+${formatTranscript(transcript)}`;
+
+    const judgeReply = await client.complete({
+      role: 'judge',
+      system: JUDGE_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: judgeInput }],
+      maxTokens: 600,
+    });
+    const verdict = parseJudgeResponse(judgeReply);
+
+    const visitedNodeIds = Array.from(visited);
+    const passed = verdict.outcome === testCase.expectedOutcome && verdict.triggeredRedFlags.length === 0;
+
+    return {
+      ...baseRun,
+      status: passed ? 'passed' : 'failed',
+      actualOutcome: verdict.outcome,
+      triggeredRedFlags: verdict.triggeredRedFlags,
+      visitedNodeIds,
+      missedNodeIds: testCase.nodesExpectedToVisit.filter((id) => validNodeIds.has(id) && !visited.has(id)),
+      transcript,
+      reasoning: verdict.reasoning,
+    };
+  } catch (error) {
+    return {
+      ...baseRun,
+      status: 'error',
+      triggeredRedFlags: [],
+      visitedNodeIds: Array.from(visited),
+      missedNodeIds: [],
+      transcript,
+      error: error instanceof Error ? error.message : 'Error en la simulación',
+    };
+  }
+}
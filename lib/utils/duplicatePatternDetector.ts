@@ -5,6 +5,7 @@
 
 import type { KnowledgeEntry } from '@/types/prompt';
 import type { ExtractedLearning } from './learningExtractor';
+import { getKnowledgeIndex, tokenizeKnowledgeText, type EmbeddingVector, type KnowledgeIndex } from './knowledgeIndex';
 
 export interface DuplicateMatch {
   existingLearning: KnowledgeEntry;
@@ -13,58 +14,31 @@ export interface DuplicateMatch {
   reason: string;
 }
 
-/**
- * Extracts keywords from text for comparison
- */
-function extractKeywords(text: string): string[] {
-  const words = text
-    .toLowerCase()
-    .replace(/[^\w\sáéíóúñ]/g, ' ')
-    .split(/\s+/)
-    .filter(w => w.length > 3);
-  
-  const stopWords = new Set(['para', 'que', 'con', 'por', 'como', 'este', 'esta', 'esto', 'the', 'and', 'for', 'with', 'self', 'serve']);
-  return words.filter(w => !stopWords.has(w));
+export interface TestingSuggestion {
+  category: string;
+  suggestion: string;
+  priority: 'high' | 'medium' | 'low';
+  basedOn: string;
 }
 
-/**
- * Calculates similarity between two text strings
- */
-function calculateTextSimilarity(text1: string, text2: string): number {
-  const keywords1 = extractKeywords(text1);
-  const keywords2 = extractKeywords(text2);
-  
-  if (keywords1.length === 0 || keywords2.length === 0) return 0;
-  
-  // Count matching keywords
-  const matches = keywords1.filter(k1 => 
-    keywords2.some(k2 => k1.includes(k2) || k2.includes(k1))
-  );
-  
-  // Jaccard similarity
-  const union = new Set([...keywords1, ...keywords2]);
-  return matches.length / union.size;
-}
+// Learnings of the same category count as duplicates at this fraction of the threshold
+const CATEGORY_THRESHOLD_RATIO = 0.6;
 
 /**
- * Checks if a new learning is similar to an existing one
+ * Checks if a new learning is similar to an existing one.
+ * The pattern and the suggestion are compared with the existing entry through the
+ * knowledge index (cosine similarity).
  */
 function areLearningsSimilar(
+  patternVector: EmbeddingVector,
+  suggestionVector: EmbeddingVector,
   newLearning: ExtractedLearning,
   existingLearning: KnowledgeEntry,
-  threshold: number = 0.5
+  index: KnowledgeIndex,
+  threshold: number
 ): { similar: boolean; similarity: number; reason: string } {
-  // Compare patterns/descriptions
-  const patternSimilarity = calculateTextSimilarity(
-    newLearning.pattern,
-    existingLearning.title + ' ' + existingLearning.description
-  );
-  
-  const suggestionSimilarity = calculateTextSimilarity(
-    newLearning.suggestion,
-    existingLearning.description
-  );
-  
+  const patternSimilarity = index.similarity(patternVector, existingLearning.id);
+  const suggestionSimilarity = index.similarity(suggestionVector, existingLearning.id);
   const maxSimilarity = Math.max(patternSimilarity, suggestionSimilarity);
   
   if (maxSimilarity >= threshold) {
@@ -82,10 +56,10 @@ function areLearningsSimilar(
     };
   }
   
-  // Check for exact category matches with high keyword overlap
+  // Same category with a lower, but still clear, similarity
   if (newLearning.category && existingLearning.tags.includes(newLearning.category)) {
     const combinedSimilarity = (patternSimilarity + suggestionSimilarity) / 2;
-    if (combinedSimilarity >= 0.3) {
+    if (combinedSimilarity >= threshold * CATEGORY_THRESHOLD_RATIO) {
       return {
         similar: true,
         similarity: combinedSimilarity,
@@ -102,33 +76,44 @@ function areLearningsSimilar(
 }
 
 /**
- * Detects duplicate patterns in extracted learnings
+ * Detects duplicate patterns in extracted learnings.
+ * Each new learning is matched to its most similar existing entry above the threshold.
  */
 export function detectDuplicatePatterns(
   newLearnings: ExtractedLearning[],
   existingKnowledge: KnowledgeEntry[],
   threshold: number = 0.5
 ): DuplicateMatch[] {
+  if (newLearnings.length === 0 || existingKnowledge.length === 0) return [];
+
+  const index = getKnowledgeIndex(existingKnowledge);
   const duplicates: DuplicateMatch[] = [];
   
   for (const newLearning of newLearnings) {
+    const [patternVector, suggestionVector] = index.embed([newLearning.pattern, newLearning.suggestion]);
+    let best: DuplicateMatch | null = null;
+
     for (const existing of existingKnowledge) {
       const { similar, similarity, reason } = areLearningsSimilar(
+        patternVector,
+        suggestionVector,
         newLearning,
         existing,
+        index,
         threshold
       );
       
-      if (similar) {
-        duplicates.push({
+      if (similar && (!best || similarity > best.similarity)) {
+        best = {
           existingLearning: existing,
           newLearning,
           similarity,
           reason,
-        });
-        break; // Only match to first duplicate found
+        };
       }
     }
+
+    if (best) duplicates.push(best);
   }
   
   return duplicates;
@@ -147,18 +132,8 @@ export function generateTestingSuggestions(
     justification: string;
   }>,
   limit: number = 5
-): Array<{
-  category: string;
-  suggestion: string;
-  priority: 'high' | 'medium' | 'low';
-  basedOn: string;
-}> {
-  const suggestions: Array<{
-    category: string;
-    suggestion: string;
-    priority: 'high' | 'medium' | 'low';
-    basedOn: string;
-  }> = [];
+): TestingSuggestion[] {
+  const suggestions: TestingSuggestion[] = [];
   
   // Group decisions by category
   const decisionsByCategory = new Map<string, typeof decisions>();
@@ -200,10 +175,10 @@ export function generateTestingSuggestions(
   }
   
   // Check if current prompt might have similar issues
-  const promptKeywords = extractKeywords(currentPrompt);
+  const promptKeywords = tokenizeKnowledgeText(currentPrompt);
   for (const decision of decisions) {
     if (decision.decision === 'rejected') {
-      const issueKeywords = extractKeywords(decision.originalText);
+      const issueKeywords = tokenizeKnowledgeText(decision.originalText);
       const overlap = promptKeywords.filter(pk => 
         issueKeywords.some(ik => pk.includes(ik) || ik.includes(pk))
       );
@@ -0,0 +1,118 @@
+/**
+ * Minimal Server-Sent Events helpers shared by streaming API routes and the UI.
+ * Events are framed as `event: <name>\ndata: <json>\n\n`.
+ */
+
+export interface StreamEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+type EventSender = (event: string, data: unknown) => void;
+
+/**
+ * Build a ReadableStream that emits SSE frames.
+ * The producer receives a `send` function; the stream closes when it resolves or throws.
+ * Errors thrown by the producer are sent as a final `error` event.
+ */
+export function createEventStream(
+  producer: (send: EventSender) => Promise<void>,
+  onCancel?: () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; later sends and the final close become no-ops
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: EventSender = (event, data) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await producer(send);
+      } catch (error) {
+        console.error('Event stream error:', error);
+        send('error', {
+          error: error instanceof Error ? error.message : 'Stream failed',
+        });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      onCancel?.();
+    },
+  });
+}
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+} as const;
+
+/**
+ * Parse a single SSE frame. Returns null for comments/keep-alives or malformed data.
+ */
+function parseFrame(frame: string): StreamEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Consume an SSE response body, invoking `onEvent` for every complete frame.
+ * Resolves when the stream ends.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  // Flush a trailing frame without the final blank line
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    const parsed = parseFrame(buffer);
+    if (parsed) onEvent(parsed);
+  }
+}
@@ -0,0 +1,983 @@
+/**
+ * Flow interchange - Imports and exports flows as Mermaid flowcharts, Graphviz
+ * DOT digraphs and draw.io (mxGraphModel) diagrams.
+ *
+ * Each reader turns its format into a plain graph of labelled nodes and edges;
+ * `buildFlow` then infers node types from the shapes, assigns decision and switch
+ * handles and lays the flow out with autoLayoutFlow when the file has no positions.
+ * Exporters write the node type in the format's own terms (Mermaid ids and shapes,
+ * a `flowtype` DOT attribute, a `flowType` draw.io style key) so a round trip keeps it,
+ * and the node data the label can't hold exactly (description, delay, handoff,
+ * resource...) as JSON: a `%% data` Mermaid comment, a `flowdata` DOT attribute and
+ * a `flowData` draw.io property.
+ */
+
+import type { FlowData, FlowEdge, FlowFileFormat, FlowNode, FlowNodeType, FlowPosition } from '@/types/flow';
+import { autoLayoutFlow, NODE_SIZE } from './flowLayoutEngine';
+import { DELAY_UNIT_LABELS, describeNodeDetail, HANDOFF_CHANNEL_LABELS, HANDOFF_TARGET_LABELS, RESOURCE_KIND_LABELS } from './flowNodeDetails';
+import { normalizeSwitchNodes } from './flowSwitch';
+import { flowDataToMermaidGraph } from './flowToText';
+
+export interface FlowFileParseOptions {
+  availableFlows?: { id: string; name: string }[];   // Resolves "→ FLOW" end nodes to a crossFlowRef
+}
+
+export const FLOW_FILE_FORMATS: Record<FlowFileFormat, { label: string; extension: string; mimeType: string }> = {
+  mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain' },
+  dot: { label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  drawio: { label: 'draw.io', extension: 'drawio', mimeType: 'application/xml' },
+};
+
+// What a node's shape says about it: a node type, or a terminal (start or end, told apart by its edges)
+type ShapeHint = FlowNodeType | 'terminal' | null;
+
+interface GraphNode {
+  id: string;
+  text: string;
+  hint: ShapeHint;
+  position?: FlowPosition;
+  data?: FlowNode['data'];   // Exported node data, when the file carries it
+}
+
+interface GraphEdge {
+  source: string;
+  target: string;
+  label?: string;
+}
+
+interface Graph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+const NODE_TYPES: FlowNodeType[] = ['start', 'end', 'action', 'decision', 'switch', 'wait', 'handoff', 'resource', 'subflow'];
+const START_LABEL = /^(inicio|start|comienzo)$/i;
+const END_LABEL = /^(fin|end|final)$/i;
+const NEGATIVE_BRANCH = /^(?:no|false|falso|else|si no|rechaz\w*)\b|^[\u2717\u274C]/i;
+
+// --- Detection and entry points ---
+
+export function detectFlowFileFormat(text: string): FlowFileFormat | null {
+  if (/<(mxGraphModel|mxfile)\b/.test(text)) return 'drawio';
+  if (/^\s*(?:strict\s+)?(?:di)?graph\b[^{\n]*\{/im.test(text)) return 'dot';
+  if (/^\s*(?:graph|flowchart)\b/im.test(text)) return 'mermaid';
+  return null;
+}
+
+/**
+ * Parses a Mermaid, DOT or draw.io file into FlowData. The format is detected
+ * when not given; returns null when it can't be told or the file has no nodes.
+ * Compressed draw.io files must go through `inflateDrawioFile` first.
+ */
+export function parseFlowFile(
+  text: string,
+  format?: FlowFileFormat | null,
+  options: FlowFileParseOptions = {}
+): FlowData | null {
+  const resolved = format ?? detectFlowFileFormat(text);
+  if (!resolved) return null;
+
+  const graph = resolved === 'mermaid' ? readMermaid(text) : resolved === 'dot' ? readDot(text) : readDrawio(text);
+  if (!graph || graph.nodes.length === 0) return null;
+
+  return buildFlow(graph, resolved, options);
+}
+
+export function flowDataToFile(
+  flowData: FlowData,
+  flowName: string,
+  format: FlowFileFormat,
+  availableFlows?: { id: string; name: string }[]
+): string {
+  switch (format) {
+    case 'mermaid': return flowDataToMermaidGraph(flowData, availableFlows, writeNodeData);
+    case 'dot': return flowDataToDot(flowData, flowName, availableFlows);
+    case 'drawio': return flowDataToDrawio(flowData, flowName, availableFlows);
+  }
+}
+
+export function flowFileName(flowName: string, format: FlowFileFormat): string {
+  const safeName = flowName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'flujo';
+  return `${safeName}.${FLOW_FILE_FORMATS[format].extension}`;
+}
+
+/**
+ * draw.io saves pages deflated and base64-encoded by default; inflates the first
+ * page so it can be parsed. Uncompressed files are returned as they are.
+ */
+export async function inflateDrawioFile(xml: string): Promise<string> {
+  if (xml.includes('<mxGraphModel')) return xml;
+  const match = xml.match(/<diagram\b[^>]*>([^<]+)<\/diagram>/);
+  if (!match) return xml;
+
+  const bytes = Uint8Array.from(atob(match[1].trim()), (c) => c.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  const inflated = await new Response(stream).text();
+  return decodeURIComponent(inflated);
+}
+
+// --- Building FlowData ---
+
+interface NodeText {
+  label: string;
+  description?: string;
+  flowRef?: string;
+}
+
+/**
+ * First line is the label (minus the " · detail" exporters add), "→ X" lines name
+ * the flow an end node continues in and the rest is the description. Mermaid
+ * labels carry the description inline as "Label: description".
+ */
+function readNodeText(text: string, inlineDescription: boolean): NodeText {
+  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean);
+  let first = lines.shift() || '';
+  const rest: string[] = [];
+  let flowRef: string | undefined;
+
+  for (const line of lines) {
+    const ref = line.match(/^→\s*(.+)$/);
+    if (ref) flowRef = ref[1].trim();
+    else rest.push(line);
+  }
+
+  if (inlineDescription) {
+    const colon = first.indexOf(': ');
+    if (colon > 0) {
+      rest.unshift(first.slice(colon + 2).trim());
+      first = first.slice(0, colon);
+    }
+  }
+
+  const dot = first.indexOf(' · ');
+  if (dot > 0) {
+    if (rest.length === 0) rest.push(first.slice(dot + 3).trim());
+    first = first.slice(0, dot);
+  }
+
+  return {
+    label: first.trim(),
+    ...(rest.length > 0 ? { description: rest.join(' ') } : {}),
+    ...(flowRef ? { flowRef } : {}),
+  };
+}
+
+function resolveType(hint: ShapeHint, text: NodeText, incoming: number, outgoing: number): FlowNodeType {
+  if (hint && hint !== 'terminal') return hint;
+  if (hint === 'terminal' || START_LABEL.test(text.label) || END_LABEL.test(text.label) || text.flowRef) {
+    if (incoming === 0 && outgoing > 0) return 'start';
+    if (outgoing === 0) return 'end';
+  }
+  return 'action';
+}
+
+function buildFlow(graph: Graph, format: FlowFileFormat, options: FlowFileParseOptions): FlowData {
+  const incoming = new Map<string, number>();
+  const outgoing = new Map<string, number>();
+  for (const edge of graph.edges) {
+    outgoing.set(edge.source, (outgoing.get(edge.source) || 0) + 1);
+    incoming.set(edge.target, (incoming.get(edge.target) || 0) + 1);
+  }
+
+  const nodes: FlowNode[] = graph.nodes.map((g) => {
+    const text = readNodeText(g.text, format === 'mermaid');
+    const outs = outgoing.get(g.id) || 0;
+    let type = resolveType(g.hint, text, incoming.get(g.id) || 0, outs);
+    if (type === 'decision' && outs > 2) type = 'switch';
+
+    // Exported data is exact; the label's text is only a fallback for other tools' files
+    const data: FlowNode['data'] = { ...g.data };
+    if (!g.data && text.description) data.description = text.description;
+    if (type === 'end' && text.flowRef) {
+      const target = options.availableFlows?.find((f) => f.name.toUpperCase() === text.flowRef!.toUpperCase());
+      if (target) data.crossFlowRef = target.id;
+    }
+
+    return {
+      id: g.id,
+      type,
+      label: text.label || g.id,
+      position: g.position ?? { x: 0, y: 0 },
+      ...(Object.keys(data).length > 0 ? { data } : {}),
+    };
+  });
+
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const edges: FlowEdge[] = graph.edges
+    .filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target))
+    .map((e, i) => ({
+      id: `e-${e.source}-${e.target}-${i}`,
+      source: e.source,
+      target: e.target,
+      ...(e.label ? { label: e.label } : {}),
+    }));
+
+  // Decisions: the negative branch is "no", the other one "yes"
+  for (const node of nodes) {
+    if (node.type !== 'decision') continue;
+    const branches = edges.filter((e) => e.source === node.id);
+    const negative = branches.find((e) => e.label && NEGATIVE_BRANCH.test(e.label));
+    const yes = branches.find((e) => e !== negative);
+    const no = negative ?? branches.find((e) => e !== yes);
+    if (yes) yes.sourceHandle = 'yes';
+    if (no) no.sourceHandle = 'no';
+  }
+
+  const flow = normalizeSwitchNodes({ nodes, edges });
+  const positioned = graph.nodes.every((g) => g.position);
+  return positioned ? flow : { nodes: autoLayoutFlow(flow.nodes, flow.edges), edges: flow.edges };
+}
+
+// --- Node data ---
+
+// Data fields exported with each node; flow and variable refs are ids of this project and stay out
+const EXPORTED_DATA_KEYS = ['description', 'instructions', 'condition', 'keywords', 'delay', 'handoff', 'resource'] as const;
+
+function writeNodeData(node: FlowNode): string | null {
+  const data = node.data;
+  if (!data) return null;
+  const exported = Object.fromEntries(EXPORTED_DATA_KEYS.filter((key) => data[key] !== undefined).map((key) => [key, data[key]]));
+  return Object.keys(exported).length > 0 ? JSON.stringify(exported) : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isKeyOf<T extends object>(labels: T, value: unknown): value is keyof T {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(labels, value);
+}
+
+// Reads what writeNodeData wrote, keeping only well-formed fields
+function readNodeData(json: string | undefined): FlowNode['data'] | undefined {
+  if (!json) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+  if (!isRecord(parsed)) return undefined;
+
+  const data: NonNullable<FlowNode['data']> = {};
+  for (const key of ['description', 'instructions', 'condition'] as const) {
+    const value = parsed[key];
+    if (typeof value === 'string') data[key] = value;
+  }
+  if (Array.isArray(parsed.keywords)) {
+    data.keywords = parsed.keywords.filter((k): k is string => typeof k === 'string');
+  }
+  const { delay, handoff, resource } = parsed;
+  if (isRecord(delay) && typeof delay.amount === 'number' && isKeyOf(DELAY_UNIT_LABELS, delay.unit)) {
+    data.delay = { amount: delay.amount, unit: delay.unit };
+  }
+  if (isRecord(handoff) && isKeyOf(HANDOFF_TARGET_LABELS, handoff.target)) {
+    data.handoff = { target: handoff.target, ...(isKeyOf(HANDOFF_CHANNEL_LABELS, handoff.channel) ? { channel: handoff.channel } : {}) };
+  }
+  if (isRecord(resource) && isKeyOf(RESOURCE_KIND_LABELS, resource.kind)) {
+    data.resource = { kind: resource.kind, ...(typeof resource.url === 'string' ? { url: resource.url } : {}) };
+  }
+  return Object.keys(data).length > 0 ? data : undefined;
+}
+
+// --- Mermaid ---
+
+// Node shapes of the `flowchart` syntax, longest opener first
+const MERMAID_SHAPES: { open: string; close: string[]; hint: ShapeHint }[] = [
+  { open: '(((', close: [')))'], hint: 'terminal' },
+  { open: '([', close: ['])'], hint: 'terminal' },
+  { open: '((', close: ['))'], hint: 'terminal' },
+  { open: '[[', close: [']]'], hint: 'handoff' },
+  { open: '[(', close: [')]'], hint: null },
+  { open: '[/', close: ['/]', '\\]'], hint: 'subflow' },
+  { open: '[\\', close: ['\\]', '/]'], hint: null },
+  { open: '{{', close: ['}}'], hint: 'switch' },
+  { open: '[', close: [']'], hint: null },
+  { open: '(', close: [')'], hint: 'terminal' },
+  { open: '{', close: ['}'], hint: 'decision' },
+  { open: '>', close: [']'], hint: 'resource' },
+];
+
+// Ids written by flowDataToMermaid ("start", "decision2"...) carry the node type
+const MERMAID_TYPED_ID = /^(start|end|action|decision|switch|wait|handoff|resource|subflow)\d*$/;
+const MERMAID_HEADER = /^\s*(?:graph|flowchart)\b(?:\s+(?:TD|TB|BT|RL|LR))?\s*;?/i;
+const MERMAID_SKIPPED = /^(classDef|class|style|linkStyle|click|direction|subgraph|title|accTitle|accDescr)\b/;
+const MERMAID_ID = /^[\w\u00C0-\u024F]+/;
+const MERMAID_LABELED_LINK = /^<?(?:--|==|-\.)\s+([^|\n]+?)\s+(?:-{2,}[->ox]|={2,}[=>ox]|\.-+[>ox]?)/;
+const MERMAID_LINK = /^<?(?:-{2,}[->ox]|={2,}[=>ox]|-\.+-[>ox]?|~~~)\s*(?:\|([^|]*)\|)?/;
+const MERMAID_DATA = /^\s*%%\s*data\s+(\S+)\s+(\{.*\})\s*$/;
+
+function decodeMermaidText(text: string): string {
+  return text
+    .trim()
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .replace(/^`([\s\S]*)`$/, '$1')
+    .replace(/<br\s*\/?>|\\n/gi, '\n')
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/#(quot|amp|lt|gt);/g, (_, name) => ({ quot: '"', amp: '&', lt: '<', gt: '>' })[name as 'quot'])
+    .trim();
+}
+
+// Splits a line on ";" outside of quoted labels
+function splitMermaidStatements(line: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === ';' && !quoted) {
+      statements.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  statements.push(current);
+  return statements.map((s) => s.trim()).filter(Boolean);
+}
+
+function readMermaid(text: string): Graph | null {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  // Returns the node id and what's left of the statement after it
+  const readNodeRef = (input: string): { id: string; rest: string } | null => {
+    const idMatch = input.match(MERMAID_ID);
+    if (!idMatch) return null;
+    const id = idMatch[0];
+    let rest = input.slice(id.length);
+
+    const shape = MERMAID_SHAPES.find((s) => rest.startsWith(s.open));
+    let label: string | null = null;
+    if (shape) {
+      const body = rest.slice(shape.open.length);
+      let end = -1;
+      let closer = '';
+      const quoted = body.trimStart().startsWith('"');
+      const from = quoted ? body.indexOf('"', body.indexOf('"') + 1) + 1 : 0;
+      for (const c of shape.close) {
+        const i = body.indexOf(c, from);
+        if (i !== -1 && (end === -1 || i < end)) {
+          end = i;
+          closer = c;
+        }
+      }
+      if (end !== -1) {
+        label = decodeMermaidText(body.slice(0, end));
+        rest = body.slice(end + closer.length);
+      }
+    }
+    rest = rest.replace(/^:::[\w-]+/, '');
+
+    const typed = id.match(MERMAID_TYPED_ID);
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, {
+        id,
+        text: label ?? id,
+        hint: typed ? (typed[1] as FlowNodeType) : shape && label !== null ? shape.hint : null,
+      });
+    } else if (label !== null) {
+      existing.text = label;
+      if (!typed && shape) existing.hint = shape.hint;
+    }
+    return { id, rest };
+  };
+
+  const readStatement = (statement: string) => {
+    let rest = statement;
+    let previous: string[] | null = null;
+    let linkLabel: string | undefined;
+
+    while (rest) {
+      const ids: string[] = [];
+      for (;;) {
+        const ref = readNodeRef(rest);
+        if (!ref) return;
+        ids.push(ref.id);
+        rest = ref.rest.trim();
+        if (!rest.startsWith('&')) break;
+        rest = rest.slice(1).trim();
+      }
+
+      if (previous) {
+        for (const source of previous) {
+          for (const target of ids) {
+            edges.push({ source, target, ...(linkLabel ? { label: linkLabel } : {}) });
+          }
+        }
+      }
+      if (!rest) return;
+
+      const link = rest.match(MERMAID_LABELED_LINK) || rest.match(MERMAID_LINK);
+      if (!link) return;
+      linkLabel = link[1] ? decodeMermaidText(link[1]) || undefined : undefined;
+      previous = ids;
+      rest = rest.slice(link[0].length).trim();
+    }
+  };
+
+  const nodeData = new Map<string, string>();
+  let started = false;
+  for (const line of text.split('\n')) {
+    let content = line;
+    const data = started ? line.match(MERMAID_DATA) : null;
+    if (data) {
+      nodeData.set(data[1], data[2]);
+      continue;
+    }
+    if (!started) {
+      const header = content.match(MERMAID_HEADER);
+      if (!header) continue;
+      started = true;
+      content = content.slice(header[0].length);
+    }
+    if (content.trim().startsWith('```')) break;
+
+    for (const statement of splitMermaidStatements(content)) {
+      if (statement.startsWith('%%') || statement === 'end' || MERMAID_SKIPPED.test(statement)) continue;
+      readStatement(statement);
+    }
+  }
+
+  if (!started) return null;
+  for (const [id, json] of nodeData) {
+    const node = nodes.get(id);
+    if (node) node.data = readNodeData(json);
+  }
+  return { nodes: Array.from(nodes.values()), edges };
+}
+
+// --- Graphviz DOT ---
+
+interface DotToken {
+  kind: 'id' | 'punct';
+  value: string;
+}
+
+const DOT_SHAPES: Record<string, ShapeHint> = {
+  diamond: 'decision',
+  hexagon: 'switch',
+  octagon: 'switch',
+  ellipse: 'terminal',
+  oval: 'terminal',
+  circle: 'terminal',
+  point: 'terminal',
+  mdiamond: 'start',
+  doublecircle: 'end',
+  msquare: 'end',
+  cds: 'wait',
+  box3d: 'handoff',
+  note: 'resource',
+  component: 'subflow',
+};
+
+const DOT_ID = /^(?:[A-Za-z_\u0080-\uFFFF][\w\u0080-\uFFFF]*|-?(?:\.\d+|\d+(?:\.\d*)?))/;
+
+function tokenizeDot(text: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (text.startsWith('//', i) || (ch === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ kind: 'punct', value: text.slice(i, i + 2) });
+      i += 2;
+    } else if ('{}[]=;,:'.includes(ch)) {
+      tokens.push({ kind: 'punct', value: ch });
+      i++;
+    } else if (ch === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && text[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else {
+          value += text[i++];
+        }
+      }
+      i++;
+      tokens.push({ kind: 'id', value });
+    } else if (ch === '<') {
+      // HTML label: keep the text, line breaks included
+      let depth = 0;
+      const start = i;
+      do {
+        if (text[i] === '<') depth++;
+        else if (text[i] === '>') depth--;
+        i++;
+      } while (i < text.length && depth > 0);
+      const html = text.slice(start + 1, i - 1);
+      tokens.push({ kind: 'id', value: html.replace(/<br\s*\/?>/gi, '\\n').replace(/<[^>]*>/g, '') });
+    } else {
+      const match = text.slice(i).match(DOT_ID);
+      if (match) {
+        tokens.push({ kind: 'id', value: match[0] });
+        i += match[0].length;
+      } else {
+        i++;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function readDot(text: string): Graph | null {
+  const tokens = tokenizeDot(text);
+  let pos = 0;
+  const isPunct = (value: string) => tokens[pos]?.kind === 'punct' && tokens[pos].value === value;
+
+  // Header: [strict] (graph|digraph) [id] {
+  if (tokens[pos]?.value.toLowerCase() === 'strict') pos++;
+  if (!/^(di)?graph$/i.test(tokens[pos]?.value || '')) return null;
+  pos++;
+  if (tokens[pos]?.kind === 'id') pos++;
+  if (!isPunct('{')) return null;
+  pos++;
+
+  const nodeAttrs = new Map<string, Record<string, string>>();
+  const edges: GraphEdge[] = [];
+
+  const readAttrs = (): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    while (isPunct('[')) {
+      pos++;
+      while (pos < tokens.length && !isPunct(']')) {
+        const key = tokens[pos++].value.toLowerCase();
+        if (isPunct('=')) {
+          pos++;
+          attrs[key] = tokens[pos++]?.value ?? '';
+        }
+        if (isPunct(',') || isPunct(';')) pos++;
+      }
+      pos++;
+    }
+    return attrs;
+  };
+
+  const touchNode = (id: string, defaults: Record<string, string>) => {
+    if (!nodeAttrs.has(id)) nodeAttrs.set(id, { ...defaults });
+  };
+
+  // Reads a node id or a { subgraph }; returns the node ids it stands for
+  const readOperand = (nodeDefaults: Record<string, string>, edgeDefaults: Record<string, string>): string[] | null => {
+    const token = tokens[pos];
+    if (!token) return null;
+
+    if (isPunct('{') || (token.kind === 'id' && token.value.toLowerCase() === 'subgraph')) {
+      if (!isPunct('{')) {
+        pos++;
+        if (tokens[pos]?.kind === 'id') pos++;
+      }
+      if (!isPunct('{')) return null;
+      pos++;
+      const ids = readStatements(nodeDefaults, edgeDefaults);
+      pos++;
+      return ids;
+    }
+
+    if (token.kind !== 'id') return null;
+    pos++;
+    // Ports (node:port:compass) don't matter here
+    while (isPunct(':') && tokens[pos + 1]?.kind === 'id') pos += 2;
+    touchNode(token.value, nodeDefaults);
+    return [token.value];
+  };
+
+  const readStatements = (parentNodeDefaults: Record<string, string>, parentEdgeDefaults: Record<string, string>): string[] => {
+    let nodeDefaults = { ...parentNodeDefaults };
+    let edgeDefaults = { ...parentEdgeDefaults };
+    const mentioned: string[] = [];
+
+    while (pos < tokens.length && !isPunct('}')) {
+      if (isPunct(';') || isPunct(',')) {
+        pos++;
+        continue;
+      }
+
+      const token = tokens[pos];
+      const next = tokens[pos + 1];
+      if (token.kind === 'id' && /^(node|edge|graph)$/i.test(token.value) && next?.kind === 'punct' && next.value === '[') {
+        pos++;
+        const attrs = readAttrs();
+        const kind = token.value.toLowerCase();
+        if (kind === 'node') nodeDefaults = { ...nodeDefaults, ...attrs };
+        if (kind === 'edge') edgeDefaults = { ...edgeDefaults, ...attrs };
+        continue;
+      }
+      if (token.kind === 'id' && next?.kind === 'punct' && next.value === '=') {
+        pos += 3;
+        continue;
+      }
+
+      const first = readOperand(nodeDefaults, edgeDefaults);
+      if (!first) {
+        pos++;
+        continue;
+      }
+      const chain = [first];
+      while (isPunct('->') || isPunct('--')) {
+        pos++;
+        const operand = readOperand(nodeDefaults, edgeDefaults);
+        if (!operand) break;
+        chain.push(operand);
+      }
+      const attrs = readAttrs();
+      mentioned.push(...chain.flat());
+
+      if (chain.length === 1) {
+        for (const id of first) nodeAttrs.set(id, { ...nodeAttrs.get(id), ...attrs });
+        continue;
+      }
+      const label = attrs.label ?? attrs.xlabel ?? edgeDefaults.label;
+      for (let i = 1; i < chain.length; i++) {
+        for (const source of chain[i - 1]) {
+          for (const target of chain[i]) {
+            edges.push({ source, target, ...(label ? { label: readDotText(label, '') } : {}) });
+          }
+        }
+      }
+    }
+
+    return mentioned;
+  };
+
+  readStatements({}, {});
+
+  const nodes: GraphNode[] = Array.from(nodeAttrs.entries()).map(([id, attrs]) => {
+    const flowType = attrs.flowtype as FlowNodeType | undefined;
+    return {
+      id,
+      text: readDotText(attrs.label ?? id, id),
+      hint: flowType && NODE_TYPES.includes(flowType) ? flowType : DOT_SHAPES[(attrs.shape || 'ellipse').toLowerCase()] ?? null,
+      ...(attrs.pos ? { position: readDotPosition(attrs.pos) } : {}),
+      // Quoted strings only unescape \", so the backslashes escapeDot doubled are still doubled
+      ...(attrs.flowdata ? { data: readNodeData(attrs.flowdata.replace(/\\\\/g, '\\')) } : {}),
+    };
+  });
+
+  // Graphviz positions are point centers with y growing upwards
+  if (nodes.length > 0 && nodes.every((n) => n.position)) {
+    const maxY = Math.max(...nodes.map((n) => n.position!.y));
+    for (const node of nodes) {
+      node.position = { x: Math.round(node.position!.x * 1.5), y: Math.round((maxY - node.position!.y) * 1.5) };
+    }
+  }
+
+  return { nodes, edges };
+}
+
+function readDotText(label: string, id: string): string {
+  return label.replace(/\\N/g, id).replace(/\\[nlr]/g, '\n').trim();
+}
+
+function readDotPosition(pos: string): FlowPosition | undefined {
+  const [x, y] = pos.replace('!', '').split(',').map(Number);
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined;
+}
+
+// --- draw.io ---
+
+interface DrawioCell {
+  id: string;
+  flowId?: string;   // Id of the node an exported cell stands for
+  flowData?: string;
+  value: string;
+  style: string;
+  vertex: boolean;
+  edge: boolean;
+  parent?: string;
+  source?: string;
+  target?: string;
+  x?: number;
+  y?: number;
+}
+
+const DRAWIO_SHAPES: [RegExp, ShapeHint][] = [
+  [/^(rhombus|mxgraph\.flowchart\.decision)$/, 'decision'],
+  [/^(hexagon|mxgraph\.flowchart\.preparation)$/, 'switch'],
+  [/^(ellipse|doubleEllipse|mxgraph\.flowchart\.(start_1|start_2|terminator))$/, 'terminal'],
+  [/^(delay|mxgraph\.flowchart\.delay)$/, 'wait'],
+  [/^(document|note|mxgraph\.flowchart\.document)$/, 'resource'],
+  [/^(process|mxgraph\.flowchart\.predefined_process)$/, 'subflow'],
+];
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function readXmlAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+}
+
+// Cell values are usually HTML: keep line breaks, drop the markup
+function readDrawioText(value: string): string {
+  return decodeXmlEntities(
+    value
+      .replace(/<br\s*\/?>|<\/(div|p)>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+  ).trim();
+}
+
+function readDrawioStyle(style: string): { shape: string; flowType?: string } {
+  const entries = style.split(';').filter(Boolean);
+  const values = new Map(entries.map((e): [string, string] => {
+    const [key, ...value] = e.split('=');
+    return [key, value.join('=')];
+  }));
+  return {
+    shape: values.get('shape') || entries.find((e) => !e.includes('=')) || '',
+    flowType: values.get('flowType') || undefined,
+  };
+}
+
+function readDrawio(xml: string): Graph | null {
+  const model = xml.match(/<mxGraphModel\b[\s\S]*?<\/mxGraphModel>/);
+  if (!model) return null;
+
+  const cells: DrawioCell[] = [];
+  let wrapper: Record<string, string> | null = null;
+  let current: DrawioCell | null = null;
+
+  for (const match of model[0].matchAll(/<(\/?)(mxCell|object|UserObject|mxGeometry)\b([^>]*?)(\/?)>/g)) {
+    const [, closing, tag, rawAttrs, selfClosing] = match;
+    if (tag === 'object' || tag === 'UserObject') {
+      wrapper = closing || selfClosing ? null : readXmlAttrs(rawAttrs);
+      continue;
+    }
+    if (tag === 'mxGeometry') {
+      const attrs = readXmlAttrs(rawAttrs);
+      if (current && !closing && attrs.as === 'geometry') {
+        current.x = Number(attrs.x) || 0;
+        current.y = Number(attrs.y) || 0;
+      }
+      continue;
+    }
+    if (closing) {
+      current = null;
+      continue;
+    }
+
+    const attrs = readXmlAttrs(rawAttrs);
+    const cell: DrawioCell = {
+      id: attrs.id ?? wrapper?.id ?? '',
+      flowId: wrapper?.flowId,
+      flowData: wrapper?.flowData,
+      value: attrs.value ?? wrapper?.label ?? '',
+      style: attrs.style ?? '',
+      vertex: attrs.vertex === '1',
+      edge: attrs.edge === '1',
+      parent: attrs.parent,
+      source: attrs.source,
+      target: attrs.target,
+    };
+    cells.push(cell);
+    current = selfClosing ? null : cell;
+  }
+
+  const byId = new Map(cells.map((c) => [c.id, c]));
+  const edgeCells = cells.filter((c) => c.edge && c.source && c.target);
+  const edgeIds = new Set(cells.filter((c) => c.edge).map((c) => c.id));
+  const connected = new Set(edgeCells.flatMap((c) => [c.source!, c.target!]));
+  const containers = new Set(cells.filter((c) => c.vertex && c.parent).map((c) => c.parent!));
+
+  // Edge labels can be separate cells hanging from the edge
+  const edgeLabels = new Map<string, string>();
+  for (const cell of cells) {
+    if (cell.vertex && cell.parent && edgeIds.has(cell.parent)) {
+      edgeLabels.set(cell.parent, readDrawioText(cell.value));
+    }
+  }
+
+  const vertices = cells.filter((c) => {
+    if (!c.vertex || (c.parent && edgeIds.has(c.parent))) return false;
+    if (connected.has(c.id)) return true;
+    return !containers.has(c.id) && !/^text;|edgeLabel/.test(c.style) && readDrawioText(c.value) !== '';
+  });
+
+  // Children of groups and swimlanes are placed relative to their parent; a malformed
+  // file can make a cell its own ancestor, so each cell is visited once
+  const absolute = (cell: DrawioCell, visited = new Set<DrawioCell>()): FlowPosition => {
+    visited.add(cell);
+    const parent = cell.parent ? byId.get(cell.parent) : undefined;
+    const offset = parent?.vertex && !visited.has(parent) ? absolute(parent, visited) : { x: 0, y: 0 };
+    return { x: (cell.x ?? 0) + offset.x, y: (cell.y ?? 0) + offset.y };
+  };
+
+  // Exported cells keep the node id apart from the cell id
+  const nodeId = (cellId: string) => byId.get(cellId)?.flowId || cellId;
+
+  const nodes: GraphNode[] = vertices.map((cell) => {
+    const { shape, flowType } = readDrawioStyle(cell.style);
+    const typed = flowType && NODE_TYPES.includes(flowType as FlowNodeType) ? (flowType as FlowNodeType) : null;
+    return {
+      id: nodeId(cell.id),
+      text: readDrawioText(cell.value),
+      hint: typed ?? DRAWIO_SHAPES.find(([pattern]) => pattern.test(shape))?.[1] ?? null,
+      ...(cell.x !== undefined ? { position: absolute(cell) } : {}),
+      ...(cell.flowData ? { data: readNodeData(cell.flowData) } : {}),
+    };
+  });
+
+  const edges: GraphEdge[] = edgeCells.map((cell) => {
+    const label = readDrawioText(cell.value) || edgeLabels.get(cell.id);
+    return { source: nodeId(cell.source!), target: nodeId(cell.target!), ...(label ? { label } : {}) };
+  });
+
+  return { nodes, edges };
+}
+
+// --- Exporters ---
+
+const DOT_NODE_ATTRS: Record<FlowNodeType, string> = {
+  start: 'shape=oval, style=filled, fillcolor="#d5e8d4"',
+  end: 'shape=oval, style=filled, fillcolor="#f8cecc"',
+  action: 'shape=box, style=rounded',
+  decision: 'shape=diamond',
+  switch: 'shape=hexagon',
+  wait: 'shape=cds',
+  handoff: 'shape=box3d',
+  resource: 'shape=note',
+  subflow: 'shape=component',
+};
+
+const DRAWIO_NODE_STYLES: Record<FlowNodeType, string> = {
+  start: 'ellipse;fillColor=#d5e8d4;strokeColor=#82b366;',
+  end: 'ellipse;fillColor=#f8cecc;strokeColor=#b85450;',
+  action: 'rounded=1;',
+  decision: 'rhombus;fillColor=#fff2cc;strokeColor=#d6b656;',
+  switch: 'shape=hexagon;perimeter=hexagonPerimeter2;fillColor=#dae8fc;strokeColor=#6c8ebf;',
+  wait: 'shape=delay;',
+  handoff: 'shape=parallelogram;perimeter=parallelogramPerimeter;fillColor=#e1d5e7;strokeColor=#9673a6;',
+  resource: 'shape=document;',
+  subflow: 'shape=process;',
+};
+
+// Label (with the node's detail), description and the flow an end node continues in
+function nodeTextLines(node: FlowNode, availableFlows?: { id: string; name: string }[]): string[] {
+  const detail = describeNodeDetail(node);
+  const lines = [detail ? `${node.label} · ${detail}` : node.label];
+  const description = node.data?.description || node.data?.instructions || node.data?.condition;
+  if (description) lines.push(description);
+  if (node.type === 'end' && node.data?.crossFlowRef) {
+    const target = availableFlows?.find((f) => f.id === node.data!.crossFlowRef);
+    if (target) lines.push(`→ ${target.name}`);
+  }
+  return lines;
+}
+
+// Decision edges without a label still say which branch they are
+function edgeText(edge: FlowEdge): string {
+  if (edge.label) return edge.label;
+  if (edge.sourceHandle === 'yes') return 'Si';
+  if (edge.sourceHandle === 'no') return 'No';
+  return '';
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function flowDataToDot(
+  flowData: FlowData,
+  flowName: string,
+  availableFlows?: { id: string; name: string }[]
+): string {
+  const lines = [
+    `digraph "${escapeDot(flowName)}" {`,
+    '  rankdir=TB;',
+    '  node [fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+    '',
+  ];
+
+  for (const node of flowData.nodes) {
+    const label = escapeDot(nodeTextLines(node, availableFlows).join('\n'));
+    const data = writeNodeData(node);
+    const dataAttr = data ? `, flowdata="${escapeDot(data)}"` : '';
+    lines.push(`  "${escapeDot(node.id)}" [label="${label}", ${DOT_NODE_ATTRS[node.type]}, flowtype=${node.type}${dataAttr}];`);
+  }
+
+  lines.push('');
+
+  for (const edge of flowData.edges) {
+    const label = edgeText(edge);
+    const attrs = label ? ` [label="${escapeDot(label)}"]` : '';
+    lines.push(`  "${escapeDot(edge.source)}" -> "${escapeDot(edge.target)}"${attrs};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function flowDataToDrawio(
+  flowData: FlowData,
+  flowName: string,
+  availableFlows?: { id: string; name: string }[]
+): string {
+  const cells = ['        <mxCell id="0" />', '        <mxCell id="1" parent="0" />'];
+  // Prefixed so no node or edge id can clash with the root cells or with each other;
+  // the node id itself goes in a `flowId` property of the cell
+  const cellId = (nodeId: string) => escapeXml(`n-${nodeId}`);
+
+  for (const node of flowData.nodes) {
+    const size = NODE_SIZE[node.type] || NODE_SIZE.action;
+    const html = nodeTextLines(node, availableFlows).map(escapeXml).join('<br>');
+    const style = `flowType=${node.type};${DRAWIO_NODE_STYLES[node.type]}whiteSpace=wrap;html=1;`;
+    const data = writeNodeData(node);
+    const dataAttr = data ? ` flowData="${escapeXml(data)}"` : '';
+    cells.push(
+      `        <object id="${cellId(node.id)}" label="${escapeXml(html)}" flowId="${escapeXml(node.id)}"${dataAttr}>`,
+      `          <mxCell style="${style}" vertex="1" parent="1">`,
+      `            <mxGeometry x="${Math.round(node.position.x)}" y="${Math.round(node.position.y)}" width="${size.w}" height="${size.h}" as="geometry" />`,
+      '          </mxCell>',
+      '        </object>'
+    );
+  }
+
+  for (const edge of flowData.edges) {
+    cells.push(
+      `        <mxCell id="${escapeXml(`e-${edge.id}`)}" value="${escapeXml(escapeXml(edgeText(edge)))}" style="edgeStyle=orthogonalEdgeStyle;rounded=1;html=1;" edge="1" parent="1" source="${cellId(edge.source)}" target="${cellId(edge.target)}">`,
+      '          <mxGeometry relative="1" as="geometry" />',
+      '        </mxCell>'
+    );
+  }
+
+  return [
+    '<mxfile>',
+    `  <diagram id="flow" name="${escapeXml(flowName)}">`,
+    '    <mxGraphModel grid="1" gridSize="10" guides="1" connect="1" arrows="1" page="0">',
+    '      <root>',
+    ...cells,
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>',
+  ].join('\n');
+}
@@ -7,11 +7,16 @@ const PADDING_TOP = 80;
 const PADDING_LEFT = 80;
 
 // Effective bounding boxes matching actual rendered sizes
-const NODE_SIZE: Record<FlowNodeType, { w: number; h: number }> = {
+export const NODE_SIZE: Record<FlowNodeType, { w: number; h: number }> = {
   start: { w: 120, h: 45 },
   end: { w: 120, h: 45 },
   action: { w: 200, h: 80 },
   decision: { w: 120, h: 120 },
+  switch: { w: 220, h: 90 },
+  wait: { w: 180, h: 70 },
+  handoff: { w: 200, h: 70 },
+  resource: { w: 200, h: 80 },
+  subflow: { w: 220, h: 80 },
 };
 
 // --- Internal types ---
@@ -103,6 +108,17 @@ function buildGraph(nodes: FlowNode[], edges: FlowEdge[]): Graph {
     }
   }
 
+  // Switch children follow output order: first output straight down, the rest to the right
+  for (const node of nodes) {
+    if (node.type !== 'switch') continue;
+    const outputIndex = new Map((node.data?.outputs || []).map((o, i) => [o.id, i]));
+    const rank = (targetId: string) => {
+      const edge = edges.find((e) => e.source === node.id && e.target === targetId);
+      return outputIndex.get(edge?.sourceHandle || '') ?? Infinity;
+    };
+    nodeMap.get(node.id)!.childIds.sort((a, b) => rank(a) - rank(b));
+  }
+
   // Find roots
   const roots: string[] = [];
   for (const node of nodes) {
@@ -278,6 +294,7 @@ function normalizePositions(graph: Graph): void {
 /**
  * Auto-layout flow nodes top-to-bottom with decision-aware branching.
  * "Yes"/"Si" branches continue straight down, "No" branches go right.
+ * Switch outputs fan out left to right in output order.
  */
 export function autoLayoutFlow(nodes: FlowNode[], edges: FlowEdge[]): FlowNode[] {
   if (nodes.length === 0) return [];
@@ -0,0 +1,149 @@
+/**
+ * Flow lint engine - Runs the registered lint rules over a flow.
+ *
+ * A rule is an object with an id, a default severity and a `check` function
+ * that returns findings. Projects can turn rules off or change their severity
+ * through `FlowLintConfig`; findings may carry a quick-fix that rewrites the flow.
+ */
+
+import type {
+  FlowData,
+  FlowEdge,
+  FlowLintConfig,
+  FlowNode,
+  FlowVariable,
+  LintSeverity,
+} from '@/types/flow';
+import { BUILT_IN_LINT_RULES } from './flowLintRules';
+
+export type LintRuleCategory = 'structure' | 'data' | 'business';
+
+export interface FlowQuickFix {
+  label: string;
+  apply: (data: FlowData) => FlowData;
+}
+
+export interface LintFinding {
+  key?: string;                        // Distinguishes findings of the same rule and node
+  message: string;
+  nodeId?: string;
+  fix?: FlowQuickFix;
+}
+
+export interface LintContext {
+  data: FlowData;
+  variables?: FlowVariable[];
+  nodeById: Map<string, FlowNode>;
+  outgoing: Map<string, FlowEdge[]>;
+  incoming: Map<string, FlowEdge[]>;
+  startNodes: FlowNode[];
+  maxConsecutiveMessages: number;
+}
+
+export interface LintRule {
+  id: string;
+  label: string;
+  description: string;
+  category: LintRuleCategory;
+  severity: LintSeverity;
+  check: (ctx: LintContext) => LintFinding[];
+}
+
+export interface FlowValidationWarning {
+  id: string;
+  severity: LintSeverity;
+  message: string;
+  nodeId?: string;
+  rule: string;
+  fix?: FlowQuickFix;                  // Not serializable: dropped when warnings go through an API
+}
+
+export const DEFAULT_MAX_CONSECUTIVE_MESSAGES = 3;
+
+export const LINT_CATEGORY_LABELS: Record<LintRuleCategory, string> = {
+  structure: 'Estructura',
+  data: 'Datos de los nodos',
+  business: 'Reglas de negocio',
+};
+
+const registry = new Map<string, LintRule>(BUILT_IN_LINT_RULES.map((rule) => [rule.id, rule]));
+
+/**
+ * Add (or replace, by id) a lint rule
+ */
+export function registerLintRule(rule: LintRule): void {
+  registry.set(rule.id, rule);
+}
+
+export function getLintRules(): LintRule[] {
+  return [...registry.values()];
+}
+
+/**
+ * Severity a rule runs with in a project, or null when the project turned it off
+ */
+export function resolveRuleSeverity(rule: LintRule, config?: FlowLintConfig): LintSeverity | null {
+  const override = config?.rules?.[rule.id];
+  if (override?.enabled === false) return null;
+  return override?.severity || rule.severity;
+}
+
+function buildContext(data: FlowData, variables: FlowVariable[] | undefined, config?: FlowLintConfig): LintContext {
+  const outgoing = new Map<string, FlowEdge[]>();
+  const incoming = new Map<string, FlowEdge[]>();
+
+  for (const node of data.nodes) {
+    outgoing.set(node.id, []);
+    incoming.set(node.id, []);
+  }
+
+  for (const edge of data.edges) {
+    outgoing.get(edge.source)?.push(edge);
+    incoming.get(edge.target)?.push(edge);
+  }
+
+  return {
+    data,
+    variables,
+    nodeById: new Map(data.nodes.map((n) => [n.id, n])),
+    outgoing,
+    incoming,
+    startNodes: data.nodes.filter((n) => n.type === 'start'),
+    maxConsecutiveMessages: config?.maxConsecutiveMessages || DEFAULT_MAX_CONSECUTIVE_MESSAGES,
+  };
+}
+
+/**
+ * Run every enabled rule and return the findings sorted by severity
+ */
+export function runLint(
+  data: FlowData,
+  options: { variables?: FlowVariable[]; config?: FlowLintConfig } = {}
+): FlowValidationWarning[] {
+  if (data.nodes.length === 0) return [];
+
+  const ctx = buildContext(data, options.variables, options.config);
+  const warnings: FlowValidationWarning[] = [];
+
+  for (const rule of registry.values()) {
+    const severity = resolveRuleSeverity(rule, options.config);
+    if (!severity) continue;
+
+    for (const finding of rule.check(ctx)) {
+      warnings.push({
+        id: [rule.id, finding.nodeId, finding.key].filter(Boolean).join('-'),
+        severity,
+        message: finding.message,
+        nodeId: finding.nodeId,
+        rule: rule.id,
+        fix: finding.fix,
+      });
+    }
+  }
+
+  // Sort by severity: error > warning > info
+  const severityOrder: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+  warnings.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+
+  return warnings;
+}
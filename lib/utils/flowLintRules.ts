@@ -0,0 +1,548 @@
+/**
+ * Built-in flow lint rules: graph structure, data of the typed nodes and
+ * Ninjo's business rules for DM sales flows.
+ */
+
+import type { FlowData, FlowEdge, FlowNode, FlowNodeType } from '@/types/flow';
+import type { LintContext, LintFinding, LintRule } from './flowLint';
+import { DEFAULT_DELAY, DEFAULT_HANDOFF } from './flowNodeDetails';
+import { findUncapturedReads, getVariableById } from './flowVariables';
+
+const DEFAULT_NODE_LABELS: Record<FlowNodeType, string> = {
+  start: 'Inicio',
+  end: 'Fin',
+  action: 'Accion',
+  decision: 'Decision',
+  switch: 'Switch',
+  wait: 'Esperar respuesta',
+  handoff: 'Derivar a humano',
+  resource: 'Enviar recurso',
+  subflow: 'Subflujo',
+};
+
+const PRICE_PATTERN = /\b(precios?|cuesta|costo|inversion|tarifa|cuotas?|usd|dolares)\b|\$\s?\d/;
+const BOOKING_PATTERN = /\b(agend\w*|calendly|llamada|reunion|cita|booking)\b/;
+
+const newId = () => crypto.randomUUID().slice(0, 8);
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function nodeText(node: FlowNode): string {
+  const { description, instructions, action } = node.data || {};
+  return normalizeText([node.label, description, instructions, action].filter(Boolean).join(' '));
+}
+
+// ── Quick-fix helpers ──
+
+function updateNodeData(nodeId: string, data: FlowNode['data']) {
+  return (flow: FlowData): FlowData => ({
+    ...flow,
+    nodes: flow.nodes.map((n) => (n.id === nodeId ? { ...n, data: { ...n.data, ...data } } : n)),
+  });
+}
+
+/**
+ * New end node next to `sourceId`, connected through `handle` (below, or to the
+ * right for the "no" branch of a decision)
+ */
+function connectToNewEnd(sourceId: string, handle?: { id: string; label: string }) {
+  return (flow: FlowData): FlowData => {
+    const source = flow.nodes.find((n) => n.id === sourceId);
+    if (!source) return flow;
+    const end: FlowNode = {
+      id: newId(),
+      type: 'end',
+      label: 'Fin',
+      position: {
+        x: source.position.x + (handle?.id === 'no' ? 250 : 0),
+        y: source.position.y + 150,
+      },
+      data: {},
+    };
+    const edge: FlowEdge = {
+      id: `e-${newId()}`,
+      source: sourceId,
+      target: end.id,
+      label: handle?.label,
+      sourceHandle: handle?.id,
+    };
+    return { nodes: [...flow.nodes, end], edges: [...flow.edges, edge] };
+  };
+}
+
+function removeNode(nodeId: string) {
+  return (flow: FlowData): FlowData => ({
+    nodes: flow.nodes.filter((n) => n.id !== nodeId),
+    edges: flow.edges.filter((e) => e.source !== nodeId && e.target !== nodeId),
+  });
+}
+
+function removeEdge(edgeId: string) {
+  return (flow: FlowData): FlowData => ({ ...flow, edges: flow.edges.filter((e) => e.id !== edgeId) });
+}
+
+// Put a wait node right before `nodeId`: everything that went into it goes into the wait
+function insertWaitBefore(nodeId: string) {
+  return (flow: FlowData): FlowData => {
+    const target = flow.nodes.find((n) => n.id === nodeId);
+    if (!target) return flow;
+    const wait: FlowNode = {
+      id: newId(),
+      type: 'wait',
+      label: DEFAULT_NODE_LABELS.wait,
+      position: { x: target.position.x - 220, y: target.position.y - 40 },
+      data: { delay: DEFAULT_DELAY },
+    };
+    return {
+      nodes: [...flow.nodes, wait],
+      edges: [
+        ...flow.edges.map((e) => (e.target === nodeId ? { ...e, target: wait.id } : e)),
+        { id: `e-${newId()}`, source: wait.id, target: nodeId },
+      ],
+    };
+  };
+}
+
+// ── Graph helpers ──
+
+function reachableFrom(ctx: LintContext, roots: string[]): Set<string> {
+  const visited = new Set<string>(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    for (const edge of ctx.outgoing.get(queue.shift()!) || []) {
+      if (!visited.has(edge.target)) {
+        visited.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return visited;
+}
+
+const isQualifier = (node: FlowNode) => node.type === 'decision' || node.type === 'switch';
+
+/**
+ * Nodes the lead can reach from the start without going through any decision
+ * or switch. Empty when the flow doesn't qualify at all (nothing to be "before").
+ */
+function nodesBeforeQualification(ctx: LintContext): FlowNode[] {
+  if (ctx.startNodes.length === 0 || !ctx.data.nodes.some(isQualifier)) return [];
+
+  const visited = new Set<string>(ctx.startNodes.map((n) => n.id));
+  const queue = ctx.startNodes.map((n) => n.id);
+  const result: FlowNode[] = [];
+
+  while (queue.length > 0) {
+    const current = ctx.nodeById.get(queue.shift()!);
+    if (!current) continue;
+    result.push(current);
+    if (isQualifier(current)) continue;
+
+    for (const edge of ctx.outgoing.get(current.id) || []) {
+      if (!visited.has(edge.target)) {
+        visited.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return result;
+}
+
+const isNoBranch = (edge: FlowEdge) =>
+  edge.sourceHandle === 'no' || /^no\b/i.test(edge.label?.trim() || '');
+
+// ── Rules ──
+
+const structureRules: LintRule[] = [
+  {
+    id: 'missing-start',
+    label: 'Falta el inicio',
+    description: 'El flujo necesita un nodo de inicio',
+    category: 'structure',
+    severity: 'error',
+    check: (ctx) => {
+      if (ctx.startNodes.length > 0) return [];
+      // The quick-fix starts the flow at the first node nothing points to
+      const entry = ctx.data.nodes.find((n) => (ctx.incoming.get(n.id) || []).length === 0) || ctx.data.nodes[0];
+      return [{
+        message: 'El flujo no tiene nodo de inicio',
+        fix: {
+          label: 'Agregar inicio',
+          apply: (flow) => {
+            const start: FlowNode = {
+              id: newId(),
+              type: 'start',
+              label: DEFAULT_NODE_LABELS.start,
+              position: { x: entry.position.x, y: entry.position.y - 150 },
+              data: {},
+            };
+            return {
+              nodes: [...flow.nodes, start],
+              edges: [...flow.edges, { id: `e-${newId()}`, source: start.id, target: entry.id }],
+            };
+          },
+        },
+      }];
+    },
+  },
+  {
+    id: 'missing-end',
+    label: 'Falta el fin',
+    description: 'El flujo necesita un nodo de fin o una derivacion a humano',
+    category: 'structure',
+    severity: 'error',
+    check: (ctx) => {
+      // A handoff to a human also closes the bot's part
+      if (ctx.data.nodes.some((n) => n.type === 'end' || n.type === 'handoff')) return [];
+      const last = ctx.data.nodes.find((n) => (ctx.outgoing.get(n.id) || []).length === 0);
+      return [{
+        message: 'El flujo no tiene nodo de fin',
+        fix: last ? { label: 'Agregar fin', apply: connectToNewEnd(last.id) } : undefined,
+      }];
+    },
+  },
+  {
+    id: 'unreachable-node',
+    label: 'Nodo inalcanzable',
+    description: 'Nodos a los que no se llega desde el inicio',
+    category: 'structure',
+    severity: 'error',
+    check: (ctx) => {
+      if (ctx.startNodes.length === 0) return [];
+      const visited = reachableFrom(ctx, ctx.startNodes.map((n) => n.id));
+      return ctx.data.nodes
+        .filter((n) => !visited.has(n.id) && n.type !== 'start')
+        .map((node) => ({
+          message: `El nodo "${node.label}" no es alcanzable desde el inicio`,
+          nodeId: node.id,
+          fix: { label: 'Eliminar nodo', apply: removeNode(node.id) },
+        }));
+    },
+  },
+  {
+    id: 'dead-end-node',
+    label: 'Nodo sin salida',
+    description: 'Nodos sin conexiones de salida que no son fin ni derivacion',
+    category: 'structure',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => n.type !== 'end' && n.type !== 'handoff' && (ctx.outgoing.get(n.id) || []).length === 0)
+        .map((node) => ({
+          message: `El nodo "${node.label}" no tiene conexiones de salida`,
+          nodeId: node.id,
+          fix: {
+            label: 'Conectar a un fin',
+            apply: connectToNewEnd(node.id, node.type === 'decision' ? { id: 'yes', label: 'Si' } : undefined),
+          },
+        })),
+  },
+  {
+    id: 'decision-insufficient-branches',
+    label: 'Decision con una sola rama',
+    description: 'Las decisiones necesitan al menos 2 ramas',
+    category: 'structure',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => n.type === 'decision' && (ctx.outgoing.get(n.id) || []).length < 2)
+        .map((node) => {
+          const hasNo = (ctx.outgoing.get(node.id) || []).some(isNoBranch);
+          return {
+            message: `El nodo de decision "${node.label}" deberia tener al menos 2 ramas`,
+            nodeId: node.id,
+            fix: {
+              label: hasNo ? 'Agregar rama "Si"' : 'Agregar rama "No"',
+              apply: connectToNewEnd(node.id, hasNo ? { id: 'yes', label: 'Si' } : { id: 'no', label: 'No' }),
+            },
+          };
+        }),
+  },
+  {
+    id: 'switch-insufficient-outputs',
+    label: 'Switch con pocas salidas',
+    description: 'Los switch necesitan al menos 2 salidas',
+    category: 'structure',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => n.type === 'switch' && (n.data?.outputs || []).length < 2)
+        .map((node) => ({
+          message: `El switch "${node.label}" deberia tener al menos 2 salidas`,
+          nodeId: node.id,
+        })),
+  },
+  {
+    id: 'switch-unconnected-output',
+    label: 'Salida de switch sin conectar',
+    description: 'Cada salida de un switch tiene que llevar a algun nodo',
+    category: 'structure',
+    severity: 'warning',
+    check: (ctx) => {
+      const findings: LintFinding[] = [];
+      for (const node of ctx.data.nodes) {
+        if (node.type !== 'switch') continue;
+        const out = ctx.outgoing.get(node.id) || [];
+        for (const output of node.data?.outputs || []) {
+          if (out.some((e) => e.sourceHandle === output.id)) continue;
+          findings.push({
+            key: output.id,
+            message: `La salida "${output.label}" del switch "${node.label}" no esta conectada`,
+            nodeId: node.id,
+            fix: { label: 'Conectar a un fin', apply: connectToNewEnd(node.id, { id: output.id, label: output.label }) },
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'self-loop',
+    label: 'Nodo conectado a si mismo',
+    description: 'Conexiones que salen y vuelven al mismo nodo',
+    category: 'structure',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.edges
+        .filter((e) => e.source === e.target)
+        .map((edge) => ({
+          key: edge.id,
+          message: `El nodo "${ctx.nodeById.get(edge.source)?.label || edge.source}" se conecta a si mismo`,
+          nodeId: edge.source,
+          fix: { label: 'Quitar conexion', apply: removeEdge(edge.id) },
+        })),
+  },
+  {
+    id: 'empty-label',
+    label: 'Etiqueta vacia',
+    description: 'Nodos sin texto',
+    category: 'structure',
+    severity: 'info',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => !n.label || n.label.trim() === '')
+        .map((node) => ({
+          message: 'Un nodo tiene una etiqueta vacia',
+          nodeId: node.id,
+          fix: {
+            label: `Usar "${DEFAULT_NODE_LABELS[node.type]}"`,
+            apply: (flow: FlowData) => ({
+              ...flow,
+              nodes: flow.nodes.map((n) => (n.id === node.id ? { ...n, label: DEFAULT_NODE_LABELS[node.type] } : n)),
+            }),
+          },
+        })),
+  },
+];
+
+const dataRules: LintRule[] = [
+  {
+    id: 'wait-missing-delay',
+    label: 'Espera sin tiempo',
+    description: 'Las esperas necesitan un tiempo mayor a cero',
+    category: 'data',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => n.type === 'wait' && !(n.data?.delay && n.data.delay.amount > 0))
+        .map((node) => ({
+          message: `La espera "${node.label}" no tiene tiempo definido`,
+          nodeId: node.id,
+          fix: { label: 'Esperar 24 horas', apply: updateNodeData(node.id, { delay: DEFAULT_DELAY }) },
+        })),
+  },
+  {
+    id: 'handoff-missing-target',
+    label: 'Derivacion sin destino',
+    description: 'Las derivaciones tienen que indicar a quien se pasa el lead',
+    category: 'data',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => n.type === 'handoff' && !n.data?.handoff?.target)
+        .map((node) => ({
+          message: `"${node.label}" no indica a quien se deriva`,
+          nodeId: node.id,
+          fix: { label: 'Derivar al closer', apply: updateNodeData(node.id, { handoff: DEFAULT_HANDOFF }) },
+        })),
+  },
+  {
+    id: 'resource-missing-url',
+    label: 'Recurso sin link',
+    description: 'Los recursos tienen que tener el link que se envia',
+    category: 'data',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => n.type === 'resource' && !n.data?.resource?.url?.trim())
+        .map((node) => ({ message: `El recurso "${node.label}" no tiene link`, nodeId: node.id })),
+  },
+  {
+    id: 'subflow-missing-ref',
+    label: 'Subflujo sin flujo',
+    description: 'Los subflujos tienen que referenciar otro flujo',
+    category: 'data',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => n.type === 'subflow' && !n.data?.subflowRef)
+        .map((node) => ({ message: `El subflujo "${node.label}" no referencia ningun flujo`, nodeId: node.id })),
+  },
+  {
+    id: 'slot-not-captured',
+    label: 'Variable leida sin capturar',
+    description: 'Decisiones que leen una variable que en algun camino nunca se captura',
+    category: 'data',
+    severity: 'warning',
+    check: (ctx) => {
+      const findings: LintFinding[] = [];
+      for (const read of findUncapturedReads(ctx.data)) {
+        const variable = ctx.variables && getVariableById(ctx.variables, read.variableId);
+        // Reads of deleted variables are reported by slot-undeclared
+        if (ctx.variables && !variable) continue;
+        const name = variable?.name || read.variableId;
+        findings.push({
+          message: `"${ctx.nodeById.get(read.nodeId)?.label || read.nodeId}" lee {${name}} pero hay caminos donde nunca se captura`,
+          nodeId: read.nodeId,
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'slot-undeclared',
+    label: 'Variable inexistente',
+    description: 'Capturas y condiciones sobre variables que el flujo ya no declara',
+    category: 'data',
+    severity: 'warning',
+    check: (ctx) => {
+      const variables = ctx.variables;
+      if (!variables) return [];
+      const isMissing = (ref?: string) => !!ref && !getVariableById(variables, ref);
+      return ctx.data.nodes
+        .filter((n) => isMissing(n.data?.captures) || isMissing(n.data?.slotCondition?.variableId))
+        .map((node) => ({
+          message: `"${node.label}" usa una variable que ya no existe en el flujo`,
+          nodeId: node.id,
+          fix: {
+            label: 'Quitar la referencia',
+            apply: updateNodeData(node.id, {
+              captures: isMissing(node.data?.captures) ? undefined : node.data?.captures,
+              slotCondition: isMissing(node.data?.slotCondition?.variableId) ? undefined : node.data?.slotCondition,
+            }),
+          },
+        }));
+    },
+  },
+];
+
+const businessRules: LintRule[] = [
+  {
+    id: 'resource-before-qualification',
+    label: 'Recurso antes de calificar',
+    description: 'Recursos que se envian antes de pasar por alguna decision',
+    category: 'business',
+    severity: 'warning',
+    check: (ctx) =>
+      nodesBeforeQualification(ctx)
+        .filter((n) => n.type === 'resource')
+        .map((node) => ({
+          message: `El recurso "${node.label}" se envia antes de calificar al lead`,
+          nodeId: node.id,
+        })),
+  },
+  {
+    id: 'price-before-qualification',
+    label: 'Precio antes de calificar',
+    description: 'Pasos que hablan de precio antes de pasar por alguna decision',
+    category: 'business',
+    severity: 'warning',
+    check: (ctx) =>
+      nodesBeforeQualification(ctx)
+        .filter((n) => !isQualifier(n) && PRICE_PATTERN.test(nodeText(n)))
+        .map((node) => ({
+          message: `"${node.label}" menciona el precio antes de calificar al lead`,
+          nodeId: node.id,
+        })),
+  },
+  {
+    id: 'no-path-to-booking',
+    label: 'Sin camino a agendar',
+    description: 'Ningun camino desde el inicio lleva a agendar una llamada',
+    category: 'business',
+    severity: 'info',
+    check: (ctx) => {
+      if (ctx.startNodes.length === 0) return [];
+      const reachable = reachableFrom(ctx, ctx.startNodes.map((n) => n.id));
+      const books = (node: FlowNode) =>
+        node.data?.resource?.kind === 'calendar' ||
+        node.data?.handoff?.channel === 'call' ||
+        BOOKING_PATTERN.test(nodeText(node));
+      const canBook = ctx.data.nodes.some((n) => reachable.has(n.id) && books(n));
+      return canBook ? [] : [{ message: 'Ningun camino del flujo lleva a agendar una llamada' }];
+    },
+  },
+  {
+    id: 'decision-without-no-path',
+    label: 'Decision sin rama "No"',
+    description: 'Decisiones con varias ramas pero ninguna para la respuesta negativa',
+    category: 'business',
+    severity: 'warning',
+    check: (ctx) =>
+      ctx.data.nodes
+        .filter((n) => {
+          const out = ctx.outgoing.get(n.id) || [];
+          // With a single branch decision-insufficient-branches already fires
+          return n.type === 'decision' && out.length >= 2 && !out.some(isNoBranch);
+        })
+        .map((node) => ({
+          message: `La decision "${node.label}" no define que pasa si la respuesta es "No"`,
+          nodeId: node.id,
+          fix: { label: 'Agregar rama "No"', apply: connectToNewEnd(node.id, { id: 'no', label: 'No' }) },
+        })),
+  },
+  {
+    id: 'consecutive-agent-messages',
+    label: 'Demasiados mensajes seguidos',
+    description: 'Cadenas de acciones y recursos sin esperar respuesta del lead',
+    category: 'business',
+    severity: 'warning',
+    check: (ctx) => {
+      const isMessage = (node?: FlowNode) => node?.type === 'action' || node?.type === 'resource';
+      // An action that captures a variable asks something: the lead answers after it
+      const waitsForLead = (node: FlowNode) => !!node.data?.captures;
+
+      // Longest run of agent messages ending at each node (cycles count once)
+      const runs = new Map<string, number>();
+      const inProgress = new Set<string>();
+      const runLength = (nodeId: string): number => {
+        const node = ctx.nodeById.get(nodeId);
+        if (!isMessage(node)) return 0;
+        if (runs.has(nodeId)) return runs.get(nodeId)!;
+        if (inProgress.has(nodeId)) return 0;
+        inProgress.add(nodeId);
+        let longest = 0;
+        for (const edge of ctx.incoming.get(nodeId) || []) {
+          const prev = ctx.nodeById.get(edge.source);
+          if (prev && isMessage(prev) && !waitsForLead(prev)) longest = Math.max(longest, runLength(prev.id));
+        }
+        inProgress.delete(nodeId);
+        runs.set(nodeId, longest + 1);
+        return longest + 1;
+      };
+
+      const max = ctx.maxConsecutiveMessages;
+      return ctx.data.nodes
+        .filter((n) => runLength(n.id) === max + 1)
+        .map((node) => ({
+          message: `"${node.label}" es el mensaje ${max + 1} seguido del agente sin esperar respuesta (maximo ${max})`,
+          nodeId: node.id,
+          fix: { label: 'Esperar respuesta antes', apply: insertWaitBefore(node.id) },
+        }));
+    },
+  },
+];
+
+export const BUILT_IN_LINT_RULES: LintRule[] = [...structureRules, ...dataRules, ...businessRules];
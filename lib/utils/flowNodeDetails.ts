@@ -0,0 +1,74 @@
+/**
+ * Flow node details - Labels and one-line summaries for the typed nodes
+ * (wait, handoff, resource), shared by the canvas, the properties panel
+ * and the text exports.
+ */
+
+import type {
+  DelayUnit,
+  FlowDelay,
+  FlowHandoff,
+  FlowNode,
+  FlowResource,
+  HandoffChannel,
+  HandoffTarget,
+  ResourceKind,
+} from '@/types/flow';
+
+export const DELAY_UNIT_LABELS: Record<DelayUnit, { singular: string; plural: string }> = {
+  minutes: { singular: 'minuto', plural: 'minutos' },
+  hours: { singular: 'hora', plural: 'horas' },
+  days: { singular: 'dia', plural: 'dias' },
+};
+
+export const HANDOFF_TARGET_LABELS: Record<HandoffTarget, string> = {
+  setter: 'Setter',
+  closer: 'Closer',
+  support: 'Soporte',
+  human: 'Humano',
+};
+
+export const HANDOFF_CHANNEL_LABELS: Record<HandoffChannel, string> = {
+  dm: 'DM de Instagram',
+  whatsapp: 'WhatsApp',
+  call: 'Llamada',
+  email: 'Email',
+};
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+  vsl: 'VSL',
+  pdf: 'PDF',
+  link: 'Link',
+  calendar: 'Calendario',
+  video: 'Video',
+};
+
+export const DEFAULT_DELAY: FlowDelay = { amount: 24, unit: 'hours' };
+export const DEFAULT_HANDOFF: FlowHandoff = { target: 'closer', channel: 'dm' };
+export const DEFAULT_RESOURCE: FlowResource = { kind: 'link' };
+
+export function formatDelay(delay: FlowDelay): string {
+  const unit = DELAY_UNIT_LABELS[delay.unit];
+  return `${delay.amount} ${delay.amount === 1 ? unit.singular : unit.plural}`;
+}
+
+export function formatHandoff(handoff: FlowHandoff): string {
+  const target = HANDOFF_TARGET_LABELS[handoff.target];
+  return handoff.channel ? `${target} por ${HANDOFF_CHANNEL_LABELS[handoff.channel]}` : target;
+}
+
+export function formatResource(resource: FlowResource): string {
+  const kind = RESOURCE_KIND_LABELS[resource.kind];
+  return resource.url ? `${kind} ${resource.url}` : kind;
+}
+
+/**
+ * Structured detail of a typed node ("24 horas", "Closer por WhatsApp", "VSL https://…"),
+ * or null for node types without one
+ */
+export function describeNodeDetail(node: FlowNode): string | null {
+  if (node.type === 'wait' && node.data?.delay) return `Esperar ${formatDelay(node.data.delay)}`;
+  if (node.type === 'handoff' && node.data?.handoff) return `Derivar a ${formatHandoff(node.data.handoff)}`;
+  if (node.type === 'resource' && node.data?.resource) return `Enviar ${formatResource(node.data.resource)}`;
+  return null;
+}
@@ -0,0 +1,487 @@
+/**
+ * Flow <-> prompt live sync - Keeps a flow and its source region in the prompt
+ * in step with each other.
+ *
+ * The region is written in the format the flow came from (numbered steps,
+ * ASCII boxes or a <flow> JSON tag). Steps written by hand are read with
+ * parseTextFlow and written back in their own style, keeping the text above
+ * the first step. Re-parsing an edited region is merged into the canvas by
+ * matching nodes, so ids and positions survive.
+ */
+
+import type {
+  FlowData,
+  FlowEdge,
+  FlowNode,
+  FlowNodeType,
+  FlowSourceFormat,
+  FlowSourceOrigin,
+  SwitchOutput,
+} from '@/types/flow';
+import { NODE_DIMENSIONS } from '@/types/flow';
+import { getFlowTagPosition, parseFlowFromPrompt } from './flowParser';
+import { serializeFlowData } from './flowSerializer';
+import { generateAsciiFlow } from './asciiFlowGenerator';
+import { detectAsciiFlow, getAsciiFlowBounds, parseAsciiFlow } from './asciiFlowParser';
+import { flowDataToNumberedText, flowDataToStructuredText } from './flowToText';
+import { detectTextFlowStyle, parseTextFlow } from './textFlowParser';
+import { nextSwitchOutputId, normalizeSwitchNodes } from './flowSwitch';
+import { findTextInPrompt } from './textMatcher';
+
+export interface FlowRegion {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const newId = () => crypto.randomUUID().slice(0, 8);
+
+const STEP_LINE = /^\s*(\d+)\.\s*\[([^\]]+)\]\s*(.+)$/;
+const NUMBERED_LINE = /^\s*\d+(?:\uFE0F?\u20E3|[.):-])\s*\S/;
+const BRANCH_LINE = /^\s+-\s*(.+?)\s*→\s*Paso\s+(\d+)\s*$/i;
+const NEXT_LINE = /^\s+→\s*Paso\s+(\d+)\s*$/i;
+const DETAIL_SUFFIX = /\s*\((?:Esperar|Derivar a|Enviar)\s[^)]*\)\s*$/;
+
+const STEP_TYPES: Record<string, FlowNodeType> = {
+  inicio: 'start',
+  fin: 'end',
+  accion: 'action',
+  decision: 'decision',
+  switch: 'switch',
+  espera: 'wait',
+  derivar: 'handoff',
+  recurso: 'resource',
+  subflujo: 'subflow',
+};
+
+function normalizeLabel(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Format of a flow's source text, or null when it can't be synced (e.g. Mermaid)
+ */
+export function detectFlowSourceFormat(text: string): FlowSourceFormat | null {
+  if (/<flow>/i.test(text)) return 'json';
+  if (/```mermaid/i.test(text)) return null;
+  const ascii = detectAsciiFlow(text);
+  if (ascii && ascii.confidence > 0.5) return 'ascii';
+  if (!/^\s*\d+[.)]\s/m.test(text)) return null;
+  return text.split('\n').some((line) => STEP_LINE.test(line)) ? 'steps' : 'text';
+}
+
+/**
+ * Find a header line and the section below it (up to the next header of the same or higher level)
+ */
+export function findHeaderSection(prompt: string, headerAnchor: string): { start: number; end: number } | null {
+  const headerIndex = prompt.indexOf(headerAnchor);
+  if (!headerAnchor || headerIndex === -1) return null;
+
+  const headerLevel = (headerAnchor.match(/^#{1,6}/) || ['##'])[0].length;
+  const afterHeader = prompt.substring(headerIndex + headerAnchor.length);
+  const nextHeaderMatch = afterHeader.match(new RegExp(`^#{1,${headerLevel}}\\s`, 'm'));
+
+  const end = nextHeaderMatch && nextHeaderMatch.index !== undefined
+    ? headerIndex + headerAnchor.length + nextHeaderMatch.index
+    : prompt.length;
+
+  return { start: headerIndex, end };
+}
+
+/**
+ * Cut a header section down to its step lines, so prose written below the steps is left alone.
+ * Hand-written steps keep the text between the header and the first step.
+ */
+function trimToStepBlock(prompt: string, start: number, end: number, format: FlowSourceFormat): number {
+  const lines = prompt.substring(start, end).split('\n');
+  const stepLine = format === 'text' ? NUMBERED_LINE : STEP_LINE;
+  const subLine = format === 'text' ? /^(?:\s+\S|\s*(?:[-*\u2022]|\u2192))/ : /^\s+(?:-|\u2192)/;
+  const firstStep = format === 'text' ? lines.findIndex((line, i) => i > 0 && stepLine.test(line)) : 1;
+  if (firstStep === -1) return start + lines[0].length;
+
+  let length = lines.slice(0, firstStep).join('\n').length;
+  let consumed = length;
+
+  for (const line of lines.slice(firstStep)) {
+    consumed += line.length + 1;
+    if (line.trim() === '') continue;
+    if (!stepLine.test(line) && !subLine.test(line)) break;
+    length = consumed;
+  }
+
+  return start + length;
+}
+
+/**
+ * Where the flow's text currently sits in the prompt.
+ * The last synced text is looked up first; if it was edited, the format's own anchor is used.
+ */
+export function locateFlowRegion(prompt: string, origin: FlowSourceOrigin): FlowRegion | null {
+  // Fuzzy matching is too slow to run on every keystroke
+  const match = findTextInPrompt(prompt, origin.rawText, { enableFuzzy: false });
+  if (match.found) {
+    return { start: match.startIndex, end: match.endIndex, text: match.matchedText };
+  }
+
+  let bounds: { start: number; end: number } | null = null;
+  if (origin.format === 'json') {
+    bounds = getFlowTagPosition(prompt);
+  } else if (origin.format === 'ascii') {
+    bounds = getAsciiFlowBounds(prompt);
+  } else {
+    const section = findHeaderSection(prompt, origin.headerAnchor);
+    if (section) bounds = { start: section.start, end: trimToStepBlock(prompt, section.start, section.end, origin.format ?? 'steps') };
+  }
+
+  return bounds ? { ...bounds, text: prompt.substring(bounds.start, bounds.end) } : null;
+}
+
+export function replaceFlowRegion(prompt: string, region: FlowRegion, text: string): string {
+  return prompt.substring(0, region.start) + text + prompt.substring(region.end);
+}
+
+/**
+ * Write the flow in the region's format. Subflows are not expanded, so the text parses back to the same nodes.
+ * Hand-written steps follow the style of `sourceText` (the region as last synced) and keep its text above the steps.
+ */
+export function serializeFlowRegion(
+  data: FlowData,
+  format: FlowSourceFormat,
+  flowName: string,
+  availableFlows?: { id: string; name: string }[],
+  sourceText = ''
+): string {
+  if (format === 'json') return serializeFlowData(data);
+  if (format === 'ascii') return generateAsciiFlow(data);
+  if (format === 'steps') return flowDataToStructuredText(data, flowName, availableFlows);
+
+  const lines = sourceText.split('\n');
+  const firstStep = lines.findIndex((line) => NUMBERED_LINE.test(line));
+  const preamble = firstStep > 0 ? `${lines.slice(0, firstStep).join('\n')}\n` : '';
+  return preamble + flowDataToNumberedText(data, detectTextFlowStyle(sourceText));
+}
+
+/**
+ * Parse a region; null while the text doesn't form a flow (e.g. half-typed)
+ */
+export function parseFlowRegion(
+  text: string,
+  format: FlowSourceFormat,
+  flowName = '',
+  availableFlows?: { id: string; name: string }[]
+): FlowData | null {
+  const parsed = format === 'json'
+    ? parseFlowFromPrompt(text)
+    : format === 'ascii'
+      ? parseAsciiFlow(text)
+      : format === 'text'
+        ? (text.split('\n').some((line) => NUMBERED_LINE.test(line)) ? parseTextFlow(text, flowName, { availableFlows }) : null)
+        : parseStepsFlow(text);
+  return parsed && parsed.nodes.length > 0 ? parsed : null;
+}
+
+/**
+ * Parse the numbered steps written by flowDataToStructuredText
+ */
+function parseStepsFlow(text: string): FlowData | null {
+  const nodes: FlowNode[] = [];
+  const edges: FlowEdge[] = [];
+  const stepIds = new Map<number, string>();
+  const explicitTargets = new Map<string, { step: number; label?: string; handle?: string }[]>();
+  let current: FlowNode | null = null;
+
+  for (const line of text.split('\n')) {
+    const step = line.match(STEP_LINE);
+    if (step) {
+      const type = STEP_TYPES[normalizeLabel(step[2])];
+      if (!type) return null;
+
+      const separator = step[3].indexOf(': ');
+      const title = separator === -1 ? step[3] : step[3].substring(0, separator);
+      const description = separator === -1 ? '' : step[3].substring(separator + 2).trim();
+
+      current = {
+        id: `step-${step[1]}`,
+        type,
+        label: title.replace(DETAIL_SUFFIX, '').trim(),
+        position: { x: 250, y: 50 + nodes.length * 130 },
+        data: description ? { description } : undefined,
+      };
+      nodes.push(current);
+      stepIds.set(Number(step[1]), current.id);
+      explicitTargets.set(current.id, []);
+      continue;
+    }
+    if (!current) continue;
+
+    const branch = line.match(BRANCH_LINE);
+    if (branch) {
+      const label = branch[1].trim();
+      const key = normalizeLabel(label);
+      const handle = current.type === 'decision'
+        ? (['si', 'yes'].includes(key) ? 'yes' : key === 'no' ? 'no' : undefined)
+        : undefined;
+      explicitTargets.get(current.id)!.push({ step: Number(branch[2]), label, handle });
+      continue;
+    }
+
+    const next = line.match(NEXT_LINE);
+    if (next) explicitTargets.get(current.id)!.push({ step: Number(next[1]) });
+  }
+
+  if (nodes.length === 0) return null;
+
+  nodes.forEach((node, i) => {
+    const targets = explicitTargets.get(node.id)!;
+    const branching = node.type === 'decision' || node.type === 'switch';
+
+    // Without explicit targets a step continues in the next one
+    if (targets.length === 0 && !branching && node.type !== 'end' && nodes[i + 1]) {
+      edges.push({ id: `e-${node.id}-${nodes[i + 1].id}`, source: node.id, target: nodes[i + 1].id });
+      return;
+    }
+
+    for (const target of targets) {
+      const targetId = stepIds.get(target.step);
+      if (!targetId) continue;
+      edges.push({
+        id: `e-${node.id}-${targetId}-${edges.length}`,
+        source: node.id,
+        target: targetId,
+        ...(target.label ? { label: target.label } : {}),
+        ...(target.handle ? { sourceHandle: target.handle } : {}),
+      });
+    }
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * Text a step shows after its title; the first of these fields that is set (as flowToText reads it)
+ */
+function describedField(node: FlowNode): 'description' | 'instructions' | 'condition' {
+  if (node.data?.description) return 'description';
+  if (node.data?.instructions) return 'instructions';
+  if (node.data?.condition) return 'condition';
+  return 'description';
+}
+
+function mergeNodeData(existing: FlowNode, parsed: FlowNode, format: FlowSourceFormat): FlowNode['data'] {
+  if (format === 'text') return mergeTextNodeData(existing, parsed);
+  if (format !== 'steps') return existing.data;
+
+  const data = { ...existing.data };
+  const field = describedField(existing);
+  const description = parsed.data?.description;
+  if (description) {
+    data[field] = description;
+  } else {
+    delete data[field];
+  }
+  return Object.keys(data).length > 0 ? data : undefined;
+}
+
+/**
+ * Hand-written steps carry a description (or a decision's condition) after the title and instructions below it
+ */
+function mergeTextNodeData(existing: FlowNode, parsed: FlowNode): FlowNode['data'] {
+  const data = { ...existing.data };
+  const setText = (key: 'description' | 'condition' | 'instructions', value: string | undefined) => {
+    if (value) {
+      data[key] = value;
+    } else {
+      delete data[key];
+    }
+  };
+  setText(data.description || !data.condition ? 'description' : 'condition', parsed.data?.description);
+  setText('instructions', parsed.data?.instructions);
+  return Object.keys(data).length > 0 ? data : undefined;
+}
+
+const isBranching = (type: FlowNodeType) => type === 'decision' || type === 'switch';
+
+/**
+ * Types of hand-written steps are guessed by the parser, so a matched node keeps its own
+ * type unless the text now branches where it didn't (or the other way round), or a
+ * decision grew to three or more branches
+ */
+function mergeTextNodeType(existing: FlowNode, parsed: FlowNode): FlowNodeType {
+  if (isBranching(existing.type) !== isBranching(parsed.type)) return parsed.type;
+  if (existing.type === 'decision' && parsed.type === 'switch') return 'switch';
+  return existing.type;
+}
+
+/**
+ * Switch exits follow the parsed edges: known exits keep their id, new labels get a new output
+ */
+function rebuildSwitchOutputs(node: FlowNode, edges: FlowEdge[]): FlowNode {
+  const nodeEdges = edges.filter((e) => e.source === node.id);
+  if (nodeEdges.length === 0) return node;
+
+  const known = node.data?.outputs || [];
+  const outputs: SwitchOutput[] = [];
+  for (const edge of nodeEdges) {
+    const label = edge.label || `Opcion ${outputs.length + 1}`;
+    const reuse = known.find((o) => o.id === edge.sourceHandle && !outputs.some((out) => out.id === o.id))
+      || known.find((o) => normalizeLabel(o.label) === normalizeLabel(label) && !outputs.some((out) => out.id === o.id));
+    const id = reuse ? reuse.id : nextSwitchOutputId([...known, ...outputs]);
+    outputs.push({ id, label });
+    edge.sourceHandle = id;
+    edge.label = label;
+  }
+
+  return { ...node, data: { ...node.data, outputs } };
+}
+
+/**
+ * Merge a parsed region into the current flow. Nodes are matched by id (JSON only),
+ * then by type and label, then by type alone (a renamed step), so they keep their id,
+ * position and the data the text format doesn't carry. Unmatched nodes are removed or added.
+ * Hand-written steps match by label whatever the guessed type (see mergeTextNodeType),
+ * and a renamed one by its neighbours before its type.
+ * ASCII art parses back with guessed types and extra arrows, so there labels alone match
+ * and edges between existing nodes are kept as they are.
+ */
+export function mergeParsedFlow(current: FlowData, parsed: FlowData, format: FlowSourceFormat): FlowData {
+  const idMap = new Map<string, string>();
+  const matched = new Map<string, FlowNode>();
+  const taken = new Set<string>();
+
+  const claim = (node: FlowNode, existing: FlowNode | undefined) => {
+    if (!existing) return;
+    idMap.set(node.id, existing.id);
+    matched.set(node.id, existing);
+    taken.add(existing.id);
+  };
+
+  if (format === 'json') {
+    for (const node of parsed.nodes) {
+      claim(node, current.nodes.find((c) => c.id === node.id));
+    }
+  }
+  const ascii = format === 'ascii';
+  const text = format === 'text';
+  for (const node of parsed.nodes) {
+    if (idMap.has(node.id)) continue;
+    claim(node, current.nodes.find((c) =>
+      !taken.has(c.id) && (ascii || text || c.type === node.type) && normalizeLabel(c.label) === normalizeLabel(node.label)
+    ));
+  }
+  // Renamed steps: same place in the graph (ASCII, hand-written steps) or same type
+  const renamePasses = ascii
+    ? [(node: FlowNode, c: FlowNode) => sharesNeighbor(node, c, parsed.edges, current.edges, idMap)]
+    : text
+      ? [
+        (node: FlowNode, c: FlowNode) => sharesNeighbor(node, c, parsed.edges, current.edges, idMap),
+        (node: FlowNode, c: FlowNode) => c.type === node.type,
+      ]
+      : [(node: FlowNode, c: FlowNode) => c.type === node.type];
+  for (const matches of renamePasses) {
+    for (const node of parsed.nodes) {
+      if (idMap.has(node.id)) continue;
+      claim(node, current.nodes.find((c) => !taken.has(c.id) && matches(node, c)));
+    }
+  }
+
+  // New nodes keep the JSON id when it is free
+  for (const node of parsed.nodes) {
+    if (idMap.has(node.id)) continue;
+    const id = format === 'json' && !taken.has(node.id) ? node.id : newId();
+    idMap.set(node.id, id);
+    taken.add(id);
+  }
+
+  const kept = new Set([...matched.values()].map((n) => n.id));
+  const keptEdges = ascii ? current.edges.filter((e) => kept.has(e.source) && kept.has(e.target)) : [];
+
+  const parsedEdges: FlowEdge[] = parsed.edges.flatMap((edge) => {
+    const source = idMap.get(edge.source);
+    const target = idMap.get(edge.target);
+    if (!source || !target) return [];
+
+    if (format === 'json') return [{ ...edge, source, target }];
+    if (ascii && kept.has(source) && kept.has(target)) return [];
+
+    const existing = current.edges.find((e) =>
+      e.source === source && e.target === target && (e.sourceHandle || '') === (edge.sourceHandle || '')
+    ) || current.edges.find((e) => e.source === source && e.target === target);
+
+    return [existing
+      ? { ...existing, label: edge.label ?? existing.label, sourceHandle: edge.sourceHandle ?? existing.sourceHandle }
+      : { ...edge, id: `e-${newId()}`, source, target }];
+  });
+  const edges = [...keptEdges, ...parsedEdges];
+
+  const placed = new Map<string, FlowNode>();
+  const nodes = parsed.nodes.map((node) => {
+    const id = idMap.get(node.id)!;
+    const existing = matched.get(node.id);
+
+    let merged: FlowNode;
+    if (existing && format === 'json') {
+      merged = node;
+    } else if (existing) {
+      merged = { ...existing, label: node.label, data: mergeNodeData(existing, node, format) };
+      if (text) merged.type = mergeTextNodeType(existing, node);
+    } else {
+      merged = { ...node, id, position: placeNewNode(id, edges, placed, current.nodes) };
+    }
+
+    if (merged.type === 'switch' && (format === 'steps' || text)) merged = rebuildSwitchOutputs(merged, edges);
+    placed.set(id, merged);
+    return merged;
+  });
+
+  return ascii ? normalizeSwitchNodes({ nodes, edges }) : { nodes, edges };
+}
+
+/**
+ * A renamed ASCII box or step: linked in the parsed text to a node that the current node is linked to the same way
+ */
+function sharesNeighbor(
+  node: FlowNode,
+  candidate: FlowNode,
+  parsedEdges: FlowEdge[],
+  currentEdges: FlowEdge[],
+  idMap: Map<string, string>
+): boolean {
+  return parsedEdges.some((edge) => {
+    if (edge.target === node.id && idMap.has(edge.source)) {
+      const source = idMap.get(edge.source);
+      return currentEdges.some((e) => e.source === source && e.target === candidate.id);
+    }
+    if (edge.source === node.id && idMap.has(edge.target)) {
+      const target = idMap.get(edge.target);
+      return currentEdges.some((e) => e.source === candidate.id && e.target === target);
+    }
+    return false;
+  });
+}
+
+/**
+ * New nodes go below the node that leads to them, or below the whole flow
+ */
+function placeNewNode(
+  id: string,
+  edges: FlowEdge[],
+  placed: Map<string, FlowNode>,
+  currentNodes: FlowNode[]
+): FlowNode['position'] {
+  const incoming = edges.find((e) => e.target === id && placed.has(e.source));
+  if (incoming) {
+    const parent = placed.get(incoming.source)!;
+    const siblings = [...placed.values()].filter((n) =>
+      edges.some((e) => e.source === parent.id && e.target === n.id)
+    ).length;
+    return {
+      x: parent.position.x + siblings * 220,
+      y: parent.position.y + NODE_DIMENSIONS[parent.type].height + 70,
+    };
+  }
+
+  const all = [...currentNodes, ...placed.values()];
+  if (all.length === 0) return { x: 250, y: 50 };
+  const maxY = Math.max(...all.map((n) => n.position.y + NODE_DIMENSIONS[n.type].height));
+  return { x: 250, y: maxY + 70 };
+}
@@ -0,0 +1,198 @@
+/**
+ * Subflows - Nodes that reuse a fragment: another NamedFlow of the project, or
+ * a template of the team library (ref "template:<id>", see templateSubflowRef).
+ *
+ * A subflow node only stores the id of the fragment (`data.subflowRef`), so
+ * editing the fragment changes every flow that uses it. Consumers that need
+ * the full graph (flow walker, simulator, text export) expand the fragment
+ * inline with `expandSubflows`:
+ * - edges into the subflow node go to whatever follows the fragment's start
+ * - edges into the fragment's plain end nodes continue where the subflow node
+ *   continues (fragment ends are kept when the subflow node has no exits)
+ * Inner node ids are prefixed with the subflow node id ("sub1/ask-age").
+ */
+
+import type { FlowData, FlowEdge, FlowNode, NamedFlow, SavedFlowTemplate } from '@/types/flow';
+import type { Project } from '@/types/prompt';
+
+export type SubflowResolver = (flowId: string) => NamedFlow | undefined;
+
+export function createSubflowResolver(flows: NamedFlow[]): SubflowResolver {
+  const byId = new Map(flows.map((f) => [f.id, f]));
+  return (flowId) => byId.get(flowId);
+}
+
+/**
+ * Fragments can come from any agent of the project, not only the current one
+ */
+export function getProjectFlows(project: Project | undefined): NamedFlow[] {
+  return project?.agents.flatMap((a) => a.flows || []) || [];
+}
+
+const TEMPLATE_REF_PREFIX = 'template:';
+
+/**
+ * subflowRef of a library template; template and flow ids can't collide
+ */
+export function templateSubflowRef(templateId: string): string {
+  return `${TEMPLATE_REF_PREFIX}${templateId}`;
+}
+
+export function isTemplateSubflowRef(ref: string): boolean {
+  return ref.startsWith(TEMPLATE_REF_PREFIX);
+}
+
+/**
+ * Fragments a subflow can reuse: every flow of the project plus the team
+ * library. Templates are used as saved, placeholders included.
+ */
+export function getSubflowSources(project: Project | undefined, templates: SavedFlowTemplate[] = []): NamedFlow[] {
+  return [
+    ...getProjectFlows(project),
+    ...templates.map((t) => ({
+      id: templateSubflowRef(t.id),
+      name: t.name,
+      flowData: t.flowData,
+      variables: t.variables,
+      createdAt: t.createdAt,
+      updatedAt: t.updatedAt,
+    })),
+  ];
+}
+
+/**
+ * Node of the canvas an expanded id belongs to ("sub1/ask-age" -> "sub1")
+ */
+export function toCanvasNodeId(expandedId: string): string {
+  return expandedId.split('/')[0];
+}
+
+export function hasSubflows(data: FlowData): boolean {
+  return data.nodes.some((n) => n.type === 'subflow' && n.data?.subflowRef);
+}
+
+/**
+ * Labels of the fragment's steps in edge order, for the collapsed node preview
+ */
+export function listSubflowSteps(fragment: NamedFlow): string[] {
+  const { nodes, edges } = fragment.flowData;
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const start = nodes.find((n) => n.type === 'start');
+  const order: FlowNode[] = [];
+  const seen = new Set<string>();
+  const queue = start ? [start.id] : nodes.map((n) => n.id);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const node = byId.get(id);
+    if (!node) continue;
+    order.push(node);
+    for (const edge of edges) {
+      if (edge.source === id) queue.push(edge.target);
+    }
+  }
+
+  return order.filter((n) => n.type !== 'start' && n.type !== 'end').map((n) => n.label);
+}
+
+const isPlainEnd = (node: FlowNode) => node.type === 'end' && !node.data?.crossFlowRef;
+
+function expandOne(data: FlowData, subflow: FlowNode, fragment: FlowData): FlowData {
+  const start = fragment.nodes.find((n) => n.type === 'start');
+  if (!start) return data;
+
+  const prefix = (id: string) => `${subflow.id}/${id}`;
+  const incoming = data.edges.filter((e) => e.target === subflow.id);
+  const outgoing = data.edges.filter((e) => e.source === subflow.id);
+  const dropEnds = outgoing.length > 0;
+
+  const dropped = new Set<string>([start.id]);
+  if (dropEnds) {
+    for (const node of fragment.nodes) {
+      if (isPlainEnd(node)) dropped.add(node.id);
+    }
+  }
+
+  const dx = subflow.position.x - start.position.x;
+  const dy = subflow.position.y - start.position.y;
+  const innerNodes: FlowNode[] = fragment.nodes
+    .filter((n) => !dropped.has(n.id))
+    .map((n) => ({ ...n, id: prefix(n.id), position: { x: n.position.x + dx, y: n.position.y + dy } }));
+
+  const edges: FlowEdge[] = data.edges.filter((e) => e.source !== subflow.id && e.target !== subflow.id);
+
+  // Where an inner edge ends up: an inner node, or every exit of the subflow node
+  const resolveTarget = (edge: FlowEdge): { target: string; label?: string; id: string }[] => {
+    if (!dropped.has(edge.target)) return [{ target: prefix(edge.target), id: prefix(edge.id) }];
+    if (edge.target === start.id) return [];
+    return outgoing.map((out) => ({ target: out.target, label: out.label, id: `${prefix(edge.id)}/${out.id}` }));
+  };
+
+  for (const edge of fragment.edges) {
+    if (edge.source === start.id) {
+      // Entry: every edge into the subflow node continues through the fragment's first steps
+      for (const into of incoming) {
+        for (const resolved of resolveTarget(edge)) {
+          edges.push({
+            id: `${into.id}/${resolved.id}`,
+            source: into.source,
+            target: resolved.target,
+            label: into.label,
+            sourceHandle: into.sourceHandle,
+          });
+        }
+      }
+      continue;
+    }
+    if (dropped.has(edge.source)) continue;
+
+    for (const resolved of resolveTarget(edge)) {
+      edges.push({
+        id: resolved.id,
+        source: prefix(edge.source),
+        target: resolved.target,
+        label: edge.label ?? resolved.label,
+        sourceHandle: edge.sourceHandle,
+      });
+    }
+  }
+
+  return {
+    nodes: [...data.nodes.filter((n) => n.id !== subflow.id), ...innerNodes],
+    edges,
+  };
+}
+
+/**
+ * Replace every subflow node with its fragment. Missing fragments and
+ * recursive references (a fragment that contains itself) stay as nodes.
+ */
+export function expandSubflows(data: FlowData, resolve: SubflowResolver, trail: string[] = []): FlowData {
+  let result = data;
+
+  for (const node of data.nodes) {
+    const ref = node.type === 'subflow' ? node.data?.subflowRef : undefined;
+    if (!ref || trail.includes(ref)) continue;
+    const fragment = resolve(ref);
+    if (!fragment) continue;
+
+    const inner = expandSubflows(fragment.flowData, resolve, [...trail, ref]);
+    result = expandOne(result, node, inner);
+  }
+
+  return result;
+}
+
+/**
+ * Expand the subflows of every flow, for consumers that receive a flow collection
+ */
+export function expandSubflowsInFlows(flows: NamedFlow[], resolve?: SubflowResolver): NamedFlow[] {
+  const resolver = resolve || createSubflowResolver(flows);
+  return flows.map((flow) =>
+    hasSubflows(flow.flowData)
+      ? { ...flow, flowData: expandSubflows(flow.flowData, resolver, [flow.id]) }
+      : flow
+  );
+}
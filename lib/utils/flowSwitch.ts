@@ -0,0 +1,74 @@
+/**
+ * Switch nodes - Helpers for nodes with N labelled outputs.
+ *
+ * Each output has a stable id used as the edge `sourceHandle`; the edge label
+ * mirrors the output label so text exports and the flow walker can read it.
+ */
+
+import type { FlowData, FlowEdge, FlowNode, SwitchOutput } from '@/types/flow';
+
+export const DEFAULT_SWITCH_LABELS = ['Opcion 1', 'Opcion 2', 'Otro'];
+
+export function getSwitchOutputs(node: FlowNode): SwitchOutput[] {
+  return node.data?.outputs || [];
+}
+
+/**
+ * Ids are positional ("out-1", "out-2"...) so parsed and generated flows are stable
+ */
+export function createSwitchOutputs(labels: string[]): SwitchOutput[] {
+  return labels.map((label, i) => ({ id: `out-${i + 1}`, label }));
+}
+
+export function nextSwitchOutputId(outputs: SwitchOutput[]): string {
+  let n = outputs.length + 1;
+  while (outputs.some((o) => o.id === `out-${n}`)) n++;
+  return `out-${n}`;
+}
+
+/**
+ * Relabel the edges leaving a switch after its outputs changed; edges whose
+ * output was removed are dropped.
+ */
+export function syncSwitchEdges(node: FlowNode, edges: FlowEdge[]): FlowEdge[] {
+  const outputs = getSwitchOutputs(node);
+  return edges.flatMap((edge) => {
+    if (edge.source !== node.id) return [edge];
+    const output = outputs.find((o) => o.id === edge.sourceHandle);
+    if (!output) return [];
+    return [edge.label === output.label ? edge : { ...edge, label: output.label }];
+  });
+}
+
+/**
+ * Give every switch node outputs that match its edges. Flows coming from the
+ * model or from ASCII art often only have labelled edges: outputs are derived
+ * from those labels, and edges without a handle are matched by label.
+ */
+export function normalizeSwitchNodes(data: FlowData): FlowData {
+  let edges = data.edges;
+
+  const nodes = data.nodes.map((node) => {
+    if (node.type !== 'switch') return node;
+
+    const outputs = [...getSwitchOutputs(node)];
+    edges = edges.map((edge) => {
+      if (edge.source !== node.id) return edge;
+      if (edge.sourceHandle && outputs.some((o) => o.id === edge.sourceHandle)) return edge;
+
+      const label = edge.label?.trim() || `Opcion ${outputs.length + 1}`;
+      let output = outputs.find((o) => o.label.toLowerCase() === label.toLowerCase());
+      if (!output) {
+        output = { id: nextSwitchOutputId(outputs), label };
+        outputs.push(output);
+      }
+      return { ...edge, sourceHandle: output.id };
+    });
+
+    const normalized = { ...node, data: { ...node.data, outputs } };
+    edges = syncSwitchEdges(normalized, edges);
+    return normalized;
+  });
+
+  return { nodes, edges };
+}
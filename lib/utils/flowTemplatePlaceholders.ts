@@ -0,0 +1,118 @@
+/**
+ * Flow template placeholders - "{{key}}" tokens inside the texts of a saved template.
+ *
+ * Saving a flow as a template swaps the concrete values of the source flow
+ * (creator name, offer, link) for placeholders; instantiating it fills them
+ * back in with the values of the new project.
+ */
+
+import type { FlowData, FlowNode, FlowTemplatePlaceholder } from '@/types/flow';
+import { isTemplateSubflowRef } from '@/lib/utils/flowSubflows';
+
+export const DEFAULT_TEMPLATE_PLACEHOLDERS: FlowTemplatePlaceholder[] = [
+  { key: 'creador', label: 'Nombre del creador' },
+  { key: 'oferta', label: 'Oferta' },
+  { key: 'link', label: 'Link' },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z0-9_]+)\s*\}\}/gi;
+
+export function placeholderToken(key: string): string {
+  return `{{${key}}}`;
+}
+
+/**
+ * Apply `rewrite` to every free text of the flow: labels, descriptions,
+ * conditions, instructions, keywords, switch outputs, resource links and edge labels
+ */
+function mapFlowTexts(flow: FlowData, rewrite: (text: string) => string): FlowData {
+  const mapNode = (node: FlowNode): FlowNode => {
+    const data = node.data;
+    return {
+      ...node,
+      label: rewrite(node.label),
+      data: data && {
+        ...data,
+        description: data.description && rewrite(data.description),
+        condition: data.condition && rewrite(data.condition),
+        action: data.action && rewrite(data.action),
+        instructions: data.instructions && rewrite(data.instructions),
+        keywords: data.keywords?.map(rewrite),
+        outputs: data.outputs?.map((o) => ({ ...o, label: rewrite(o.label) })),
+        resource: data.resource && {
+          ...data.resource,
+          url: data.resource.url && rewrite(data.resource.url),
+        },
+      },
+    };
+  };
+
+  return {
+    nodes: flow.nodes.map(mapNode),
+    edges: flow.edges.map((e) => ({ ...e, label: e.label && rewrite(e.label) })),
+  };
+}
+
+/**
+ * Keys of every placeholder used in the flow, in order of appearance
+ */
+export function findPlaceholderKeys(flow: FlowData): string[] {
+  const keys: string[] = [];
+  mapFlowTexts(flow, (text) => {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      const key = match[1].toLowerCase();
+      if (!keys.includes(key)) keys.push(key);
+    }
+    return text;
+  });
+  return keys;
+}
+
+/**
+ * Replace the concrete values of the source flow with their placeholders.
+ * Longer values go first so "Mentoria Pro" wins over "Mentoria".
+ */
+export function parameterizeFlow(flow: FlowData, values: Record<string, string>): FlowData {
+  const replacements = Object.entries(values)
+    .map(([key, value]) => [key, value.trim()] as const)
+    .filter(([, value]) => value.length > 0)
+    .sort((a, b) => b[1].length - a[1].length);
+  if (replacements.length === 0) return flow;
+
+  return mapFlowTexts(flow, (text) =>
+    replacements.reduce((acc, [key, value]) => acc.split(value).join(placeholderToken(key)), text)
+  );
+}
+
+/**
+ * Fill the placeholders of a template. Placeholders without a value are left as-is
+ * so they stay visible in the canvas.
+ */
+export function fillPlaceholders(flow: FlowData, values: Record<string, string>): FlowData {
+  return mapFlowTexts(flow, (text) =>
+    text.replace(PLACEHOLDER_PATTERN, (token, key: string) => {
+      const value = values[key.toLowerCase()]?.trim();
+      return value ? value : token;
+    })
+  );
+}
+
+/**
+ * A template has to stand on its own: references to other flows of the source
+ * project (cross-flow ends, subflows) don't exist where it's instantiated.
+ * Subflows of library templates are kept, the library is shared.
+ */
+export function detachFlowReferences(flow: FlowData): FlowData {
+  return {
+    nodes: flow.nodes.map((node) => {
+      const subflowRef = node.data?.subflowRef;
+      const keepSubflow = !!subflowRef && isTemplateSubflowRef(subflowRef);
+      if (!node.data?.crossFlowRef && (!subflowRef || keepSubflow)) return node;
+      return {
+        ...node,
+        data: { ...node.data, crossFlowRef: undefined, subflowRef: keepSubflow ? subflowRef : undefined },
+      };
+    }),
+    edges: flow.edges,
+  };
+}
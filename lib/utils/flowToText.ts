@@ -1,18 +1,25 @@
 import type { FlowData, FlowNode, FlowEdge, FlowTextFormat } from '@/types/flow';
+import { describeNodeDetail } from '@/lib/utils/flowNodeDetails';
+import { expandSubflows } from '@/lib/utils/flowSubflows';
+import type { SubflowResolver } from '@/lib/utils/flowSubflows';
+import type { TextFlowStyle } from '@/lib/utils/textFlowParser';
 
 /**
  * Wrapper: converts FlowData to text in the specified format.
+ * With a `resolveSubflow`, subflow nodes are written out inline as their fragment's steps.
  */
 export function flowDataToText(
   flowData: FlowData,
   flowName: string,
   format: FlowTextFormat,
-  availableFlows?: { id: string; name: string }[]
+  availableFlows?: { id: string; name: string }[],
+  resolveSubflow?: SubflowResolver
 ): string {
+  const data = resolveSubflow ? expandSubflows(flowData, resolveSubflow) : flowData;
   if (format === 'mermaid') {
-    return flowDataToMermaid(flowData, flowName, availableFlows);
+    return flowDataToMermaid(data, flowName, availableFlows);
   }
-  return flowDataToStructuredText(flowData, flowName, availableFlows);
+  return flowDataToStructuredText(data, flowName, availableFlows);
 }
 
 /**
@@ -24,6 +31,14 @@ export function flowDataToText(
  *   3. [Decision] Tiene interes?
  *      - Si → Paso 4
  *      - No → Paso 6
+ *   4. [Switch] Que pide?
+ *      - Precio → Paso 5
+ *      - Agendar → Paso 7
+ *   5. [Recurso] Mandar VSL (Enviar VSL https://...)
+ *   6. [Espera] Seguimiento (Esperar 24 horas)
+ *   7. [Derivar] Pasar al closer (Derivar a Closer por WhatsApp)
+ *      → Paso 2
+ * A step without branches continues in the next one; otherwise its targets are listed.
  */
 export function flowDataToStructuredText(
   flowData: FlowData,
@@ -43,16 +58,18 @@ export function flowDataToStructuredText(
     const stepNum = stepMap.get(node.id)!;
     const typeLabel = getTypeLabel(node.type);
     const desc = getNodeDescription(node);
+    const detail = describeNodeDetail(node);
+    const title = detail ? `${node.label} (${detail})` : node.label;
 
     if (desc) {
-      lines.push(`${stepNum}. [${typeLabel}] ${node.label}: ${desc}`);
+      lines.push(`${stepNum}. [${typeLabel}] ${title}: ${desc}`);
     } else {
-      lines.push(`${stepNum}. [${typeLabel}] ${node.label}`);
+      lines.push(`${stepNum}. [${typeLabel}] ${title}`);
     }
 
-    // For decision nodes, list branches as sub-items
-    if (node.type === 'decision') {
-      const nodeEdges = outgoing.get(node.id) || [];
+    // For decision and switch nodes, list branches as sub-items
+    if (node.type === 'decision' || node.type === 'switch') {
+      const nodeEdges = sortByOutput(node, outgoing.get(node.id) || []);
       for (const edge of nodeEdges) {
         const targetStep = stepMap.get(edge.target);
         const branchLabel = edge.label || edge.sourceHandle || '→';
@@ -60,6 +77,16 @@ export function flowDataToStructuredText(
           lines.push(`   - ${branchLabel} → Paso ${targetStep}`);
         }
       }
+    } else {
+      // Other steps continue in the next one unless told otherwise
+      const targetSteps = (outgoing.get(node.id) || [])
+        .map((edge) => stepMap.get(edge.target))
+        .filter((step): step is number => step !== undefined);
+      if (targetSteps.length > 0 && !(targetSteps.length === 1 && targetSteps[0] === stepNum + 1)) {
+        for (const targetStep of targetSteps) {
+          lines.push(`   → Paso ${targetStep}`);
+        }
+      }
     }
 
     // For end nodes with cross-flow reference, show target flow name
@@ -69,6 +96,74 @@ export function flowDataToStructuredText(
         lines.push(`   → Continua en: ${targetFlow.name}`);
       }
     }
+
+    // Subflows that weren't expanded inline name the fragment they reuse
+    if (node.type === 'subflow' && node.data?.subflowRef && availableFlows) {
+      const fragment = availableFlows.find(f => f.id === node.data!.subflowRef);
+      if (fragment) {
+        lines.push(`   → Ejecuta: ${fragment.name}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Converts FlowData to hand-written numbered steps in the given style, so a
+ * flow the user wrote keeps its look (see detectTextFlowStyle). No header;
+ * parseTextFlow reads it back to the same steps:
+ *   1. **Saludo**: Presentarse
+ *      - Preguntar de donde nos conoce
+ *   2. **Tiene interes?**
+ *      - Si → Paso 3
+ *      - No → Paso 4
+ *   3. **Agendar llamada**
+ *      → Fin
+ *   4. **Despedida**
+ *      → Fin
+ * The start node is implied by the first step.
+ */
+export function flowDataToNumberedText(flowData: FlowData, style: TextFlowStyle): string {
+  const { nodes, edges } = flowData;
+  const ordered = topologicalOrder(nodes, edges).filter((n) => n.type !== 'start');
+  const stepMap = buildStepMap(ordered);
+  const outgoing = buildOutgoingMap(nodes, edges);
+  const { indent, arrow, bullet } = style;
+
+  const lines: string[] = [];
+  for (const node of ordered) {
+    const stepNum = stepMap.get(node.id)!;
+    const title = style.bold ? `**${node.label}**` : node.label;
+    const desc = (node.data?.description || node.data?.condition)?.replace(/\s*\n\s*/g, ' ');
+    lines.push(`${stepNum}${style.marker} ${title}${desc ? `: ${desc}` : ''}`);
+    for (const instruction of (node.data?.instructions || '').split('\n').filter((l) => l.trim())) {
+      lines.push(`${indent}${bullet} ${instruction.trim()}`);
+    }
+
+    if (node.type === 'end') {
+      lines.push(`${indent}${arrow} Fin`);
+      continue;
+    }
+
+    const nodeEdges = outgoing.get(node.id) || [];
+    if (node.type === 'decision' || node.type === 'switch') {
+      const sorted = node.type === 'decision'
+        ? [...nodeEdges].sort((a, b) => Number(a.sourceHandle === 'no') - Number(b.sourceHandle === 'no'))
+        : sortByOutput(node, nodeEdges);
+      for (const edge of sorted) {
+        const targetStep = stepMap.get(edge.target);
+        const condition = edge.label || (edge.sourceHandle === 'no' ? 'No' : 'Si');
+        if (targetStep) lines.push(`${indent}${bullet} ${condition} ${arrow} Paso ${targetStep}`);
+      }
+      continue;
+    }
+
+    // A step continues in the next one unless told otherwise
+    const targetStep = nodeEdges.map((edge) => stepMap.get(edge.target)).find((step) => step !== undefined);
+    if (targetStep !== undefined && targetStep !== stepNum + 1) {
+      lines.push(`${indent}${arrow} Paso ${targetStep}`);
+    }
   }
 
   return lines.join('\n');
@@ -90,18 +185,30 @@ export function flowDataToMermaid(
   flowName: string,
   availableFlows?: { id: string; name: string }[]
 ): string {
-  const { nodes, edges } = flowData;
-  if (nodes.length === 0) return '';
+  if (flowData.nodes.length === 0) return '';
+  return [`## ${flowName}`, '', '```mermaid', flowDataToMermaidGraph(flowData, availableFlows), '```'].join('\n');
+}
 
+/**
+ * Bare Mermaid graph (no heading or fence), as written to .mmd files.
+ * `nodeData` adds a "%% data <id> <payload>" comment after the node definitions.
+ */
+export function flowDataToMermaidGraph(
+  flowData: FlowData,
+  availableFlows?: { id: string; name: string }[],
+  nodeData?: (node: FlowNode) => string | null
+): string {
+  const { nodes, edges } = flowData;
   const ordered = topologicalOrder(nodes, edges);
   const idMap = buildMermaidIdMap(ordered);
 
-  const lines: string[] = [`## ${flowName}`, '', '```mermaid', 'graph TD'];
+  const lines: string[] = ['graph TD'];
 
   // Node definitions
   for (const node of ordered) {
     const mid = idMap.get(node.id)!;
-    const label = escapeMermaidLabel(node.label);
+    const detail = describeNodeDetail(node);
+    const label = escapeMermaidLabel(detail ? `${node.label} · ${detail}` : node.label);
     const desc = getNodeDescription(node);
 
     // For end nodes with cross-flow ref, append target flow name
@@ -119,11 +226,28 @@ export function flowDataToMermaid(
 
     if (node.type === 'decision') {
       lines.push(`    ${mid}{"${fullLabel}"}`);
+    } else if (node.type === 'switch') {
+      lines.push(`    ${mid}{{"${fullLabel}"}}`);
+    } else if (node.type === 'wait') {
+      lines.push(`    ${mid}(["${fullLabel}"])`);
+    } else if (node.type === 'handoff') {
+      lines.push(`    ${mid}[["${fullLabel}"]]`);
+    } else if (node.type === 'resource') {
+      lines.push(`    ${mid}>"${fullLabel}"]`);
+    } else if (node.type === 'subflow') {
+      lines.push(`    ${mid}[/"${fullLabel}"/]`);
     } else {
       lines.push(`    ${mid}["${fullLabel}"]`);
     }
   }
 
+  if (nodeData) {
+    for (const node of ordered) {
+      const payload = nodeData(node);
+      if (payload) lines.push(`    %% data ${idMap.get(node.id)} ${payload}`);
+    }
+  }
+
   lines.push('');
 
   // Edge definitions
@@ -140,8 +264,6 @@ export function flowDataToMermaid(
     }
   }
 
-  lines.push('```');
-
   return lines.join('\n');
 }
 
@@ -210,8 +332,11 @@ function buildStepMap(ordered: FlowNode[]): Map<string, number> {
   return map;
 }
 
+// Node types that are Mermaid keywords ("end" closes a subgraph): always numbered
+const MERMAID_RESERVED_IDS = new Set<string>(['end']);
+
 /**
- * Builds readable Mermaid IDs: start, action1, decision1, end1, etc.
+ * Builds readable Mermaid IDs: start, action, action2, decision, end1, etc.
  */
 function buildMermaidIdMap(ordered: FlowNode[]): Map<string, string> {
   const map = new Map<string, string>();
@@ -224,7 +349,7 @@ function buildMermaidIdMap(ordered: FlowNode[]): Map<string, string> {
 
     const count = counters[type];
     // Use singular ID for first of each type, numbered for subsequent
-    const mid = count === 1 ? type : `${type}${count}`;
+    const mid = count === 1 && !MERMAID_RESERVED_IDS.has(type) ? type : `${type}${count}`;
     map.set(node.id, mid);
   }
 
@@ -245,12 +370,30 @@ function buildOutgoingMap(nodes: FlowNode[], edges: FlowEdge[]): Map<string, Flo
   return map;
 }
 
+/**
+ * Switch edges in the order of the node's outputs; other nodes keep edge order
+ */
+function sortByOutput(node: FlowNode, nodeEdges: FlowEdge[]): FlowEdge[] {
+  const outputs = node.data?.outputs;
+  if (!outputs) return nodeEdges;
+  const index = (edge: FlowEdge) => {
+    const i = outputs.findIndex((o) => o.id === edge.sourceHandle);
+    return i === -1 ? outputs.length : i;
+  };
+  return [...nodeEdges].sort((a, b) => index(a) - index(b));
+}
+
 function getTypeLabel(type: string): string {
   const labels: Record<string, string> = {
     start: 'Inicio',
     end: 'Fin',
     action: 'Accion',
     decision: 'Decision',
+    switch: 'Switch',
+    wait: 'Espera',
+    handoff: 'Derivar',
+    resource: 'Recurso',
+    subflow: 'Subflujo',
   };
   return labels[type] || type;
 }
@@ -263,5 +406,5 @@ function getNodeDescription(node: FlowNode): string | null {
 }
 
 function escapeMermaidLabel(text: string): string {
-  return text.replace(/"/g, "'").replace(/[[\]{}()]/g, '');
+  return text.replace(/"/g, "'").replace(/[[\]{}()]/g, '').replace(/\r?\n/g, '<br>');
 }
@@ -0,0 +1,235 @@
+/**
+ * Flow variables - Typed lead slots declared per flow.
+ *
+ * Action nodes name the slot they capture (`data.captures`), decisions compare
+ * a slot (`data.slotCondition`). The validator uses `findUncapturedReads` to
+ * flag decisions that can run before their slot was filled, and the
+ * to-prompt route turns the slots into qualification questions.
+ */
+
+import type {
+  FlowData,
+  FlowNode,
+  FlowVariable,
+  FlowVariableType,
+  SlotCondition,
+  SlotOperator,
+} from '@/types/flow';
+
+export const VARIABLE_TYPE_LABELS: Record<FlowVariableType, string> = {
+  string: 'Texto',
+  number: 'Numero',
+  enum: 'Opciones',
+  boolean: 'Si/No',
+};
+
+export const SLOT_OPERATOR_LABELS: Record<SlotOperator, string> = {
+  equals: '=',
+  not_equals: '≠',
+  contains: 'contiene',
+  in: 'es uno de',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  is_true: 'es verdadero',
+  is_false: 'es falso',
+  is_set: 'tiene valor',
+};
+
+// Operators that make sense for each variable type, in menu order
+export const OPERATORS_BY_TYPE: Record<FlowVariableType, SlotOperator[]> = {
+  string: ['equals', 'not_equals', 'contains', 'is_set'],
+  number: ['gte', 'gt', 'lte', 'lt', 'equals', 'not_equals', 'is_set'],
+  enum: ['equals', 'not_equals', 'in', 'is_set'],
+  boolean: ['is_true', 'is_false', 'is_set'],
+};
+
+const VALUELESS_OPERATORS: SlotOperator[] = ['is_true', 'is_false', 'is_set'];
+
+export function operatorTakesValue(operator: SlotOperator): boolean {
+  return !VALUELESS_OPERATORS.includes(operator);
+}
+
+/**
+ * Variable names are used verbatim in prompts: lowercase snake_case without accents
+ */
+export function normalizeVariableName(raw: string): string {
+  return raw
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+export function createFlowVariable(name: string, type: FlowVariableType = 'string'): FlowVariable {
+  return {
+    id: `var-${crypto.randomUUID().slice(0, 8)}`,
+    name: normalizeVariableName(name),
+    type,
+    ...(type === 'enum' ? { options: [] } : {}),
+  };
+}
+
+export function getVariableById(variables: FlowVariable[], id: string | undefined): FlowVariable | undefined {
+  return id ? variables.find((v) => v.id === id) : undefined;
+}
+
+/**
+ * Default condition when a decision starts reading a variable
+ */
+export function defaultSlotCondition(variable: FlowVariable): SlotCondition {
+  const operator = OPERATORS_BY_TYPE[variable.type][0];
+  const value = variable.type === 'enum' ? variable.options?.[0] : undefined;
+  return { variableId: variable.id, operator, ...(value ? { value } : {}) };
+}
+
+/**
+ * "presupuesto ≥ 1000", "objetivo es uno de (vender, escalar)", "tiene_negocio es verdadero"
+ */
+export function formatSlotCondition(condition: SlotCondition, variables: FlowVariable[]): string {
+  const name = getVariableById(variables, condition.variableId)?.name || condition.variableId;
+  const op = SLOT_OPERATOR_LABELS[condition.operator];
+  if (!operatorTakesValue(condition.operator)) return `${name} ${op}`;
+
+  const value = condition.value?.trim() || '?';
+  if (condition.operator === 'in') {
+    const items = value.split(',').map((v) => v.trim()).filter(Boolean);
+    return `${name} ${op} (${items.join(', ')})`;
+  }
+  return `${name} ${op} ${value}`;
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set([...a].filter((v) => b.has(v)));
+}
+
+export interface UncapturedRead {
+  nodeId: string;
+  variableId: string;
+}
+
+/**
+ * Decisions that read a slot which is not captured on every path from the start.
+ *
+ * Forward "must be captured" dataflow: a node's input set is the intersection of
+ * the output sets of its reachable predecessors, and a node's output adds the
+ * slot it captures. Unvisited predecessors count as "everything captured" so
+ * loops converge to the greatest fixpoint.
+ */
+export function findUncapturedReads(data: FlowData): UncapturedRead[] {
+  const { nodes, edges } = data;
+  const startIds = nodes.filter((n) => n.type === 'start').map((n) => n.id);
+  if (startIds.length === 0) return [];
+
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+  for (const node of nodes) {
+    successors.set(node.id, []);
+    predecessors.set(node.id, []);
+  }
+  for (const edge of edges) {
+    if (!nodeById.has(edge.source) || !nodeById.has(edge.target)) continue;
+    successors.get(edge.source)!.push(edge.target);
+    predecessors.get(edge.target)!.push(edge.source);
+  }
+
+  // Only nodes reachable from a start take part; the rest is reported as unreachable elsewhere
+  const reachable = new Set<string>(startIds);
+  const order: string[] = [...startIds];
+  for (let i = 0; i < order.length; i++) {
+    for (const next of successors.get(order[i]) || []) {
+      if (!reachable.has(next)) {
+        reachable.add(next);
+        order.push(next);
+      }
+    }
+  }
+
+  // null = not computed yet (top of the lattice)
+  const captured = new Map<string, Set<string> | null>();
+  for (const id of reachable) captured.set(id, null);
+
+  const outOf = (id: string): Set<string> | null => {
+    const input = captured.get(id);
+    if (input === null || input === undefined) return null;
+    const capture = nodeById.get(id)?.data?.captures;
+    return capture ? new Set([...input, capture]) : input;
+  };
+
+  const startSet = new Set(startIds);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of order) {
+      let input: Set<string> | null = null;
+      if (startSet.has(id)) {
+        input = new Set();
+      } else {
+        for (const pred of predecessors.get(id) || []) {
+          if (!reachable.has(pred)) continue;
+          const out = outOf(pred);
+          if (out === null) continue;
+          input = input === null ? new Set(out) : intersect(input, out);
+        }
+      }
+      if (input === null) continue;
+
+      const previous = captured.get(id);
+      if (previous === null || previous === undefined || previous.size !== input.size) {
+        captured.set(id, input);
+        changed = true;
+      }
+    }
+  }
+
+  const reads: UncapturedRead[] = [];
+  for (const id of order) {
+    const variableId = nodeById.get(id)?.data?.slotCondition?.variableId;
+    if (!variableId) continue;
+    const input = captured.get(id);
+    if (!input || !input.has(variableId)) reads.push({ nodeId: id, variableId });
+  }
+  return reads;
+}
+
+function captureQuestion(node: FlowNode, variable: FlowVariable): string {
+  const label = node.label.trim();
+  if (label.endsWith('?')) return label;
+  if (variable.description?.trim()) return variable.description.trim();
+  return label || `Preguntar ${variable.name}`;
+}
+
+function describeVariableType(variable: FlowVariable): string {
+  if (variable.type === 'enum' && variable.options && variable.options.length > 0) {
+    return variable.options.join(' / ');
+  }
+  return VARIABLE_TYPE_LABELS[variable.type].toLowerCase();
+}
+
+/**
+ * One qualification question per captured slot:
+ * `¿Cuanto podes invertir? → {presupuesto} (numero) · califica si presupuesto ≥ 1000`
+ */
+export function buildQualificationQuestions(data: FlowData, variables: FlowVariable[]): string[] {
+  const questions: string[] = [];
+  const seen = new Set<string>();
+
+  for (const node of data.nodes) {
+    const variable = getVariableById(variables, node.data?.captures);
+    if (!variable || seen.has(variable.id)) continue;
+    seen.add(variable.id);
+
+    const conditions = data.nodes
+      .filter((n) => n.data?.slotCondition?.variableId === variable.id)
+      .map((n) => formatSlotCondition(n.data!.slotCondition!, variables));
+
+    let question = `${captureQuestion(node, variable)} → {${variable.name}} (${describeVariableType(variable)})`;
+    if (conditions.length > 0) question += ` · califica si ${conditions.join(' y ')}`;
+    questions.push(question);
+  }
+
+  return questions;
+}
@@ -0,0 +1,375 @@
+/**
+ * Flow Walker - Deterministic, offline walk over a flow using scripted lead messages.
+ *
+ * Complements validateFlow: instead of checking the graph statically, it follows the
+ * path a given conversation would take. No model calls, so it can run in CI.
+ *
+ * Message model:
+ * - The first lead message is the trigger and becomes the "pending" message at start.
+ * - Decision and switch nodes evaluate the pending message; if there is none, they take
+ *   the next scripted one. Chained decisions evaluate the same message.
+ * - Action nodes are the agent answering, so they clear the pending message. So do
+ *   resource (agent sends material), wait (agent follows up) and handoff nodes.
+ * - A handoff without outgoing connections ends the walk: a human takes over.
+ * - Subflow nodes are expanded inline before walking, so their steps show up in the trace.
+ */
+
+import type { FlowData, FlowEdge, FlowNode, FlowNodeType, NamedFlow } from '@/types/flow';
+import { expandSubflowsInFlows } from './flowSubflows';
+
+export type FlowWalkStatus = 'completed' | 'awaiting-lead' | 'dead-end';
+
+export type FlowWalkDeadEndReason =
+  | 'missing-flow'
+  | 'missing-start'
+  | 'no-outgoing'
+  | 'no-matching-branch'
+  | 'step-limit';
+
+// How the walker chose the edge it left a node through
+export type FlowWalkMatch = 'single' | 'keyword' | 'label' | 'yes-no' | 'condition' | 'fallback' | 'first-edge';
+
+export interface FlowWalkStep {
+  flowId: string;
+  nodeId: string;
+  nodeType: FlowNodeType;
+  label: string;
+  messageIndex: number | null;   // Lead message evaluated at this node, if any
+  edgeId?: string;               // Edge taken to leave the node
+  match?: FlowWalkMatch;
+}
+
+export interface FlowWalkDeadEnd {
+  flowId: string;
+  nodeId?: string;
+  reason: FlowWalkDeadEndReason;
+  message: string;
+}
+
+export interface FlowWalkResult {
+  status: FlowWalkStatus;
+  trace: FlowWalkStep[];
+  deadEnds: FlowWalkDeadEnd[];
+  consumedMessages: number;      // How many scripted messages were read
+}
+
+export interface FlowWalkOptions {
+  maxSteps?: number;
+}
+
+const DEFAULT_MAX_STEPS = 100;
+
+// Nodes where the agent (or a human after a handoff) writes to the lead
+const AGENT_TURN_TYPES: FlowNodeType[] = ['action', 'resource', 'wait', 'handoff'];
+
+const YES_WORDS = [
+  'si', 'sii', 'dale', 'claro', 'obvio', 'ok', 'okey', 'de una', 'me interesa', 'quiero', 'por supuesto', 'yes', 'va',
+  'no hay problema', 'no tengo problema', 'sin problema', 'no hay drama',
+];
+const NO_WORDS = ['no', 'nah', 'nop', 'todavia no', 'ahora no', 'paso', 'nunca'];
+const YES_BRANCHES = ['yes', 'si', 'true', 'verdadero'];
+const NO_BRANCHES = ['no', 'false', 'falso'];
+const FALLBACK_BRANCHES = ['otro', 'otros', 'default', 'else', 'resto', 'cualquier otro', 'otra cosa'];
+
+const STOPWORDS = new Set([
+  'el', 'la', 'los', 'las', 'un', 'una', 'de', 'del', 'que', 'en', 'y', 'o', 'a', 'al',
+  'es', 'lead', 'usuario', 'tiene', 'esta', 'quiere', 'pregunta', 'menciona', 'dice',
+  'por', 'para', 'con', 'se', 'su', 'le', 'lo',
+]);
+
+/**
+ * Lowercase, strip accents and punctuation so "¡Sí!" matches "si"
+ */
+export function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9ñ\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function containsPhrase(normalizedText: string, phrase: string): boolean {
+  const normalizedPhrase = normalizeForMatch(phrase);
+  if (!normalizedPhrase) return false;
+  return ` ${normalizedText} `.includes(` ${normalizedPhrase} `);
+}
+
+// Longest phrases first, so "no tengo problema" is one affirmative and not "no" + nothing
+const POLARITY_PHRASES = [
+  ...YES_WORDS.map((w) => ({ tokens: normalizeForMatch(w).split(' '), polarity: 'yes' as const })),
+  ...NO_WORDS.map((w) => ({ tokens: normalizeForMatch(w).split(' '), polarity: 'no' as const })),
+].sort((a, b) => b.tokens.length - a.tokens.length);
+
+// Yes and no phrases in a clause, each token counted once
+function scorePolarity(normalizedClause: string): { yes: number; no: number } {
+  const tokens = normalizedClause.split(' ');
+  const score = { yes: 0, no: 0 };
+  let i = 0;
+  while (i < tokens.length) {
+    const phrase = POLARITY_PHRASES.find((p) => p.tokens.every((t, j) => tokens[i + j] === t));
+    if (phrase) {
+      score[phrase.polarity]++;
+      i += phrase.tokens.length;
+    } else {
+      i++;
+    }
+  }
+  return score;
+}
+
+/**
+ * Yes/no answer in a lead message. The first clause that answers decides
+ * ("si, no tengo problema" is a yes; "no, gracias" a no); within a clause the
+ * polarity with more phrases wins, and a tie is a no ("no quiero", "claro que no").
+ */
+function detectPolarity(message: string): 'yes' | 'no' | null {
+  for (const clause of message.split(/[,.;:!?\n]+/)) {
+    const { yes, no } = scorePolarity(normalizeForMatch(clause));
+    if (yes > no) return 'yes';
+    if (no > 0) return 'no';
+  }
+  return null;
+}
+
+function branchPolarity(edge: FlowEdge): 'yes' | 'no' | null {
+  const candidates = [edge.sourceHandle, edge.label].filter(Boolean).map((v) => normalizeForMatch(v!));
+  if (candidates.some((c) => YES_BRANCHES.includes(c))) return 'yes';
+  if (candidates.some((c) => NO_BRANCHES.includes(c))) return 'no';
+  return null;
+}
+
+function isFallbackBranch(edge: FlowEdge): boolean {
+  return !!edge.label && FALLBACK_BRANCHES.includes(normalizeForMatch(edge.label));
+}
+
+function conditionTerms(condition: string): string[] {
+  return normalizeForMatch(condition)
+    .split(' ')
+    .filter((word) => word.length >= 4 && !STOPWORDS.has(word));
+}
+
+/**
+ * Pick the outgoing edge for the current message.
+ * Order: target keywords → edge label text → yes/no branches → condition terms → fallback label.
+ */
+function resolveBranch(
+  node: FlowNode,
+  outgoing: FlowEdge[],
+  message: string | null,
+  nodesById: Map<string, FlowNode>
+): { edge: FlowEdge; match: FlowWalkMatch } | null {
+  if (outgoing.length === 1) return { edge: outgoing[0], match: 'single' };
+
+  const normalized = message ? normalizeForMatch(message) : '';
+
+  if (normalized) {
+    // 1. Keywords on the target node, best score wins (ties keep edge order)
+    let best: { edge: FlowEdge; score: number } | null = null;
+    for (const edge of outgoing) {
+      const keywords = nodesById.get(edge.target)?.data?.keywords || [];
+      const score = keywords.filter((k) => containsPhrase(normalized, k)).length;
+      if (score > 0 && (!best || score > best.score)) best = { edge, score };
+    }
+    if (best) return { edge: best.edge, match: 'keyword' };
+
+    // 2. Free-text edge labels ("Precio", "Quiere agendar")
+    const labelled = outgoing.find(
+      (edge) => edge.label && !branchPolarity(edge) && !isFallbackBranch(edge) && containsPhrase(normalized, edge.label)
+    );
+    if (labelled) return { edge: labelled, match: 'label' };
+
+    // 3. Yes/no branches, answered explicitly or implied by the condition
+    const polarity = detectPolarity(message!);
+    if (polarity) {
+      const edge = outgoing.find((e) => branchPolarity(e) === polarity);
+      if (edge) return { edge, match: 'yes-no' };
+    } else if (node.data?.condition) {
+      const terms = conditionTerms(node.data.condition);
+      if (terms.some((t) => containsPhrase(normalized, t))) {
+        const edge = outgoing.find((e) => branchPolarity(e) === 'yes');
+        if (edge) return { edge, match: 'condition' };
+      }
+    }
+  }
+
+  // 4. Explicit catch-all branch
+  const fallback = outgoing.find(isFallbackBranch);
+  if (fallback) return { edge: fallback, match: 'fallback' };
+
+  // Non-branching nodes with several exits aren't ambiguous for the agent: take the first
+  if (!isBranchingNode(node) && outgoing.length > 0) {
+    return { edge: outgoing[0], match: 'first-edge' };
+  }
+
+  return null;
+}
+
+// Nodes whose exit depends on what the lead said
+function isBranchingNode(node: FlowNode): boolean {
+  return node.type === 'decision' || node.type === 'switch';
+}
+
+function findStart(flowData: FlowData): FlowNode | undefined {
+  return flowData.nodes.find((n) => n.type === 'start');
+}
+
+/**
+ * Walk a flow with a scripted list of lead messages.
+ * `flows` are all the agent's flows so cross-flow end nodes can be followed;
+ * subflows referencing flows outside that list must be expanded by the caller.
+ */
+export function walkFlow(
+  agentFlows: NamedFlow[],
+  entryFlowId: string,
+  leadMessages: string[],
+  options: FlowWalkOptions = {}
+): FlowWalkResult {
+  const flows = expandSubflowsInFlows(agentFlows);
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const trace: FlowWalkStep[] = [];
+  const deadEnds: FlowWalkDeadEnd[] = [];
+
+  let nextMessage = 0;
+  let pendingMessage: number | null = null;
+
+  const takeMessage = (): number | null => {
+    if (nextMessage >= leadMessages.length) return null;
+    return nextMessage++;
+  };
+
+  const result = (status: FlowWalkStatus): FlowWalkResult => ({
+    status,
+    trace,
+    deadEnds,
+    consumedMessages: nextMessage,
+  });
+
+  let flow = flows.find((f) => f.id === entryFlowId);
+  if (!flow) {
+    deadEnds.push({ flowId: entryFlowId, reason: 'missing-flow', message: 'El flujo de entrada no existe' });
+    return result('dead-end');
+  }
+
+  let current = findStart(flow.flowData);
+  if (!current) {
+    deadEnds.push({ flowId: flow.id, reason: 'missing-start', message: `El flujo "${flow.name}" no tiene nodo de inicio` });
+    return result('dead-end');
+  }
+
+  // The trigger message opens the conversation
+  pendingMessage = takeMessage();
+
+  while (current) {
+    if (trace.length >= maxSteps) {
+      deadEnds.push({
+        flowId: flow.id,
+        nodeId: current.id,
+        reason: 'step-limit',
+        message: `Se superaron ${maxSteps} pasos (posible loop en "${current.label}")`,
+      });
+      return result('dead-end');
+    }
+
+    const node: FlowNode = current;
+    const step: FlowWalkStep = {
+      flowId: flow.id,
+      nodeId: node.id,
+      nodeType: node.type,
+      label: node.label,
+      messageIndex: null,
+    };
+    trace.push(step);
+
+    if (node.type === 'end') {
+      const targetId = node.data?.crossFlowRef;
+      if (!targetId) return result('completed');
+
+      const targetFlow = flows.find((f) => f.id === targetId);
+      const targetStart = targetFlow ? findStart(targetFlow.flowData) : undefined;
+      if (!targetFlow || !targetStart) {
+        deadEnds.push({
+          flowId: flow.id,
+          nodeId: node.id,
+          reason: targetFlow ? 'missing-start' : 'missing-flow',
+          message: targetFlow
+            ? `El flujo "${targetFlow.name}" no tiene nodo de inicio`
+            : `"${node.label}" apunta a un flujo que no existe`,
+        });
+        return result('dead-end');
+      }
+
+      flow = targetFlow;
+      current = targetStart;
+      continue;
+    }
+
+    if (isBranchingNode(node)) {
+      if (pendingMessage === null) pendingMessage = takeMessage();
+      if (pendingMessage === null) return result('awaiting-lead');
+      step.messageIndex = pendingMessage;
+    } else if (node.type === 'start') {
+      step.messageIndex = pendingMessage;
+    }
+
+    const nodesById = new Map(flow.flowData.nodes.map((n) => [n.id, n]));
+    const outgoing = flow.flowData.edges.filter((e) => e.source === node.id);
+
+    if (outgoing.length === 0 && node.type === 'handoff') return result('completed');
+
+    if (outgoing.length === 0) {
+      deadEnds.push({
+        flowId: flow.id,
+        nodeId: node.id,
+        reason: 'no-outgoing',
+        message: `El nodo "${node.label}" no tiene conexiones de salida`,
+      });
+      return result('dead-end');
+    }
+
+    const message = pendingMessage !== null ? leadMessages[pendingMessage] : null;
+    const branch = resolveBranch(node, outgoing, message, nodesById);
+    if (!branch) {
+      deadEnds.push({
+        flowId: flow.id,
+        nodeId: node.id,
+        reason: 'no-matching-branch',
+        message: `Ninguna rama de "${node.label}" coincide con "${message}"`,
+      });
+      return result('dead-end');
+    }
+
+    step.edgeId = branch.edge.id;
+    step.match = branch.match;
+
+    // The agent answered: the next decision needs a new lead message
+    if (AGENT_TURN_TYPES.includes(node.type)) pendingMessage = null;
+
+    current = nodesById.get(branch.edge.target);
+    if (!current) {
+      deadEnds.push({
+        flowId: flow.id,
+        nodeId: node.id,
+        reason: 'no-outgoing',
+        message: `La conexión de "${node.label}" apunta a un nodo que no existe`,
+      });
+      return result('dead-end');
+    }
+  }
+
+  return result('completed');
+}
+
+/**
+ * Convenience wrapper for a single flow without cross-flow references
+ */
+export function walkFlowData(flowData: FlowData, leadMessages: string[], options?: FlowWalkOptions): FlowWalkResult {
+  const now = Date.now();
+  return walkFlow(
+    [{ id: 'flow', name: 'Flujo', flowData, createdAt: now, updatedAt: now }],
+    'flow',
+    leadMessages,
+    options
+  );
+}
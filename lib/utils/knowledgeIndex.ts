@@ -0,0 +1,252 @@
+/**
+ * Knowledge Index - Semantic search over KnowledgeEntry (title, description, example).
+ *
+ * Entries and queries become vectors through a KnowledgeEmbedder and are compared by
+ * cosine similarity. The default embedder is a TF-IDF over stemmed words and character
+ * n-grams: deterministic, offline, and the same scores on the client and the server.
+ * A local embedding model can replace it with `setKnowledgeEmbedder`.
+ */
+
+import type { KnowledgeEntry } from '@/types/prompt';
+
+// Dense (models) or sparse (TF-IDF: feature index -> weight) vector, L2-normalized
+export type EmbeddingVector = number[] | Map<number, number>;
+
+export interface KnowledgeEmbedder {
+  id: string;
+  label: string;   // Shown next to similarity scores
+  embed(texts: string[]): EmbeddingVector[];
+}
+
+// Gets the texts of every entry, so corpus-based embedders (TF-IDF) can learn from them
+export type KnowledgeEmbedderFactory = (corpus: string[]) => KnowledgeEmbedder;
+
+export interface KnowledgeMatch {
+  entry: KnowledgeEntry;
+  score: number;   // Cosine similarity, 0-1
+}
+
+export interface WeightedQuery {
+  text: string;
+  weight: number;
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  minScore?: number;
+  filter?: (entry: KnowledgeEntry) => boolean;
+}
+
+export interface KnowledgeIndex {
+  embedderLabel: string;
+  embed(texts: string[]): EmbeddingVector[];
+  // Best of the entry's full text and its example
+  similarity(vector: EmbeddingVector, entryId: string): number;
+  search(query: string | WeightedQuery[], options?: KnowledgeSearchOptions): KnowledgeMatch[];
+}
+
+// --- Text processing ---
+
+const STOP_WORDS = new Set([
+  // Spanish
+  'que', 'con', 'por', 'para', 'como', 'este', 'esta', 'esto', 'estos', 'estas', 'ese', 'esa', 'eso',
+  'los', 'las', 'del', 'una', 'uno', 'unos', 'unas', 'sus', 'les', 'nos', 'mas', 'pero', 'sin', 'sobre',
+  'entre', 'cuando', 'donde', 'cual', 'cuales', 'quien', 'porque', 'muy', 'todo', 'toda', 'todos', 'todas',
+  'tambien', 'solo', 'hay', 'ser', 'son', 'era', 'fue', 'estan', 'tiene', 'tienen', 'hace', 'hacer',
+  'puede', 'pueden', 'cada', 'otro', 'otra', 'otros', 'otras', 'desde', 'hasta', 'hacia', 'segun', 'asi',
+  'algo', 'alguien', 'nada', 'siempre', 'nunca', 'vos', 'usted', 'ustedes', 'ellos', 'ellas', 'ella',
+  'mismo', 'misma', 'antes', 'despues', 'luego', 'aca', 'ahi', 'alli', 'aqui', 'debe', 'deben',
+  // English
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'you', 'your', 'not', 'but',
+  'have', 'has', 'can', 'will', 'when', 'what', 'which', 'who', 'how', 'all', 'any', 'into', 'than', 'then',
+  'its', 'our', 'they', 'them', 'their', 'there', 'should', 'would', 'could', 'about', 'also', 'just',
+  'self', 'serve',
+]);
+
+// Longest first; a stem keeps at least MIN_STEM_LENGTH characters
+const SUFFIXES = [
+  'amientos', 'imientos', 'amiento', 'imiento', 'aciones', 'iciones', 'idades', 'mente',
+  'acion', 'icion', 'idad', 'ando', 'iendo', 'ados', 'idos', 'adas', 'idas', 'ado', 'ido', 'ada', 'ida',
+  'ing', 'ed', 'ar', 'er', 'ir', 'es', 'os', 'as', 's', 'o', 'a', 'e',
+];
+const MIN_STEM_LENGTH = 4;
+const NGRAM_SIZE = 4;
+const NGRAM_WEIGHT = 0.4;
+
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Lowercased, accent-free word stems without stop words ("preguntas" and
+ * "preguntar" both give "pregunt").
+ */
+export function tokenizeKnowledgeText(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 3 && !STOP_WORDS.has(w))
+    .map(stem);
+}
+
+// Stems plus their character n-grams, which catch words the stemmer doesn't join
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => features.set(feature, (features.get(feature) ?? 0) + weight);
+
+  for (const token of tokenizeKnowledgeText(text)) {
+    add(token, 1);
+    const padded = `_${token}_`;
+    for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+      add('#' + padded.slice(i, i + NGRAM_SIZE), NGRAM_WEIGHT);
+    }
+  }
+  return features;
+}
+
+function normalize(vector: Map<number, number>): Map<number, number> {
+  let norm = 0;
+  vector.forEach((w) => { norm += w * w; });
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((w, k) => vector.set(k, w / norm));
+  return vector;
+}
+
+export function cosineSimilarity(a: EmbeddingVector, b: EmbeddingVector): number {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    let dot = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i];
+    return Math.max(0, Math.min(1, dot));
+  }
+  if (a instanceof Map && b instanceof Map) {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((w, k) => { dot += w * (large.get(k) ?? 0); });
+    return Math.max(0, Math.min(1, dot));
+  }
+  return 0;
+}
+
+// --- Embedders ---
+
+/**
+ * TF-IDF over the corpus vocabulary (sublinear tf, smoothed idf). Features the
+ * corpus never saw are dropped from queries: they can't match any entry.
+ */
+export const createTfIdfEmbedder: KnowledgeEmbedderFactory = (corpus) => {
+  const vocabulary = new Map<string, number>();
+  const documentFrequency: number[] = [];
+
+  for (const document of corpus) {
+    for (const feature of extractFeatures(document).keys()) {
+      let index = vocabulary.get(feature);
+      if (index === undefined) {
+        index = vocabulary.size;
+        vocabulary.set(feature, index);
+        documentFrequency.push(0);
+      }
+      documentFrequency[index]++;
+    }
+  }
+
+  const idf = documentFrequency.map((df) => Math.log((corpus.length + 1) / (df + 1)) + 1);
+
+  return {
+    id: 'tfidf',
+    label: 'TF-IDF local',
+    embed: (texts) => texts.map((text) => {
+      const vector = new Map<number, number>();
+      extractFeatures(text).forEach((count, feature) => {
+        const index = vocabulary.get(feature);
+        if (index !== undefined) vector.set(index, (1 + Math.log(count + 1)) * idf[index]);
+      });
+      return normalize(vector);
+    }),
+  };
+};
+
+let embedderFactory: KnowledgeEmbedderFactory = createTfIdfEmbedder;
+let indexCache = new WeakMap<KnowledgeEntry[], KnowledgeIndex>();
+
+/**
+ * Replaces the embedder of every index (null goes back to TF-IDF). The embedder
+ * must be synchronous: load the model before registering it.
+ */
+export function setKnowledgeEmbedder(factory: KnowledgeEmbedderFactory | null): void {
+  embedderFactory = factory ?? createTfIdfEmbedder;
+  indexCache = new WeakMap();
+}
+
+// --- Index ---
+
+export function knowledgeEntryText(entry: Pick<KnowledgeEntry, 'title' | 'description' | 'example'>): string {
+  // Title twice: it's the densest summary of the entry
+  return [entry.title, entry.title, entry.description, entry.example].filter(Boolean).join('\n');
+}
+
+export function buildKnowledgeIndex(entries: KnowledgeEntry[]): KnowledgeIndex {
+  const texts = entries.map(knowledgeEntryText);
+  const examples = entries.map((e) => e.example?.trim() || '');
+  const embedder = embedderFactory([...texts, ...examples.filter(Boolean)]);
+
+  const fullVectors = embedder.embed(texts);
+  const exampleVectors = new Map<string, EmbeddingVector>();
+  const withExample = entries.filter((_, i) => examples[i]);
+  embedder.embed(withExample.map((e) => e.example!.trim()))
+    .forEach((vector, i) => exampleVectors.set(withExample[i].id, vector));
+
+  const positions = new Map(entries.map((e, i) => [e.id, i]));
+
+  const similarity = (vector: EmbeddingVector, entryId: string): number => {
+    const position = positions.get(entryId);
+    if (position === undefined) return 0;
+    const example = exampleVectors.get(entryId);
+    const full = cosineSimilarity(vector, fullVectors[position]);
+    return example ? Math.max(full, cosineSimilarity(vector, example)) : full;
+  };
+
+  return {
+    embedderLabel: embedder.label,
+    embed: (queries) => embedder.embed(queries),
+    similarity,
+    search: (query, options = {}) => {
+      const { limit, minScore = 0, filter } = options;
+      const queries = typeof query === 'string' ? [{ text: query, weight: 1 }] : query.filter((q) => q.text.trim());
+      if (queries.length === 0) return [];
+
+      const vectors = embedder.embed(queries.map((q) => q.text));
+      const totalWeight = queries.reduce((sum, q) => sum + q.weight, 0) || 1;
+
+      const matches = entries
+        .filter((entry) => !filter || filter(entry))
+        .map((entry) => ({
+          entry,
+          score: queries.reduce((sum, q, i) => sum + q.weight * similarity(vectors[i], entry.id), 0) / totalWeight,
+        }))
+        .filter((m) => m.score > 0 && m.score >= minScore)
+        .sort((a, b) => b.score - a.score);
+
+      return limit ? matches.slice(0, limit) : matches;
+    },
+  };
+}
+
+/**
+ * Index for an entries array, reused while the array is the same (store arrays
+ * are replaced on every change, so a new array means new entries).
+ */
+export function getKnowledgeIndex(entries: KnowledgeEntry[]): KnowledgeIndex {
+  let index = indexCache.get(entries);
+  if (!index) {
+    index = buildKnowledgeIndex(entries);
+    indexCache.set(entries, index);
+  }
+  return index;
+}
@@ -0,0 +1,237 @@
+/**
+ * Knowledge Relations - Typed links between KnowledgeEntry items.
+ *
+ * Relations live on the source entry (`entry.relations`). A superseded entry is
+ * kept for history but never sent as context again (its replacement goes instead);
+ * a conflict is symmetric, so both sides travel together with a warning.
+ * `assembleKnowledgeContext` applies both rules to the chat's search results.
+ */
+
+import type { KnowledgeEntry, KnowledgeRelationType } from '@/types/prompt';
+import type { KnowledgeMatch } from '@/lib/utils/knowledgeIndex';
+
+export const KNOWLEDGE_RELATION_TYPES: Record<KnowledgeRelationType, {
+  label: string;          // Source -> target
+  inverseLabel: string;   // Seen from the target
+  color: string;
+}> = {
+  supersedes: { label: 'Reemplaza a', inverseLabel: 'Reemplazado por', color: '#6b7280' },
+  refines: { label: 'Refina a', inverseLabel: 'Refinado por', color: '#3b82f6' },
+  conflicts_with: { label: 'Contradice a', inverseLabel: 'Contradice a', color: '#f85149' },
+};
+
+export interface ResolvedKnowledgeRelation {
+  type: KnowledgeRelationType;
+  direction: 'outgoing' | 'incoming';
+  entry: KnowledgeEntry;   // The other side
+}
+
+export interface KnowledgeContext {
+  matches: KnowledgeMatch[];
+  conflicts: [string, string][];   // Entry id pairs, both present in `matches`
+}
+
+/**
+ * Relations of an entry in both directions. Targets that were deleted are skipped.
+ */
+export function getEntryRelations(entry: KnowledgeEntry, entries: KnowledgeEntry[]): ResolvedKnowledgeRelation[] {
+  const byId = new Map(entries.map((e) => [e.id, e]));
+  const relations: ResolvedKnowledgeRelation[] = [];
+
+  for (const relation of entry.relations || []) {
+    const target = byId.get(relation.targetId);
+    if (target) relations.push({ type: relation.type, direction: 'outgoing', entry: target });
+  }
+  for (const other of entries) {
+    if (other.id === entry.id) continue;
+    for (const relation of other.relations || []) {
+      if (relation.targetId === entry.id) relations.push({ type: relation.type, direction: 'incoming', entry: other });
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * Entries replaced by another entry that still exists.
+ */
+export function getSupersededIds(entries: KnowledgeEntry[]): Set<string> {
+  const ids = new Set(entries.map((e) => e.id));
+  const superseded = new Set<string>();
+  for (const entry of entries) {
+    for (const relation of entry.relations || []) {
+      if (relation.type === 'supersedes' && ids.has(relation.targetId)) superseded.add(relation.targetId);
+    }
+  }
+  return superseded;
+}
+
+/**
+ * Ids of the entries that contradict the given one, in either direction.
+ */
+export function getConflictingIds(entryId: string, entries: KnowledgeEntry[]): string[] {
+  const ids = new Set(entries.map((e) => e.id));
+  const conflicting = new Set<string>();
+  for (const entry of entries) {
+    for (const relation of entry.relations || []) {
+      if (relation.type !== 'conflicts_with') continue;
+      if (entry.id === entryId && ids.has(relation.targetId)) conflicting.add(relation.targetId);
+      if (relation.targetId === entryId) conflicting.add(entry.id);
+    }
+  }
+  conflicting.delete(entryId);
+  return Array.from(conflicting);
+}
+
+// True if `fromId` reaches `toId` following relations of the given type
+function reaches(fromId: string, toId: string, type: KnowledgeRelationType, entries: KnowledgeEntry[]): boolean {
+  const byId = new Map(entries.map((e) => [e.id, e]));
+  const visited = new Set<string>();
+  const stack = [fromId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === toId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    for (const relation of byId.get(id)?.relations || []) {
+      if (relation.type === type) stack.push(relation.targetId);
+    }
+  }
+  return false;
+}
+
+/**
+ * Reason a new relation isn't allowed, or null if it is. Supersedes and refines
+ * chains can't loop back, and two entries get at most one relation.
+ */
+export function validateKnowledgeRelation(
+  sourceId: string,
+  type: KnowledgeRelationType,
+  targetId: string,
+  entries: KnowledgeEntry[]
+): string | null {
+  if (sourceId === targetId) return 'Un aprendizaje no se puede relacionar consigo mismo';
+
+  const source = entries.find((e) => e.id === sourceId);
+  const target = entries.find((e) => e.id === targetId);
+  if (!source || !target) return 'El aprendizaje ya no existe';
+
+  const related = (source.relations || []).some((r) => r.targetId === targetId) ||
+    (target.relations || []).some((r) => r.targetId === sourceId);
+  if (related) return 'Estos aprendizajes ya estan relacionados';
+
+  if (type !== 'conflicts_with' && reaches(targetId, sourceId, type, entries)) {
+    return type === 'supersedes'
+      ? 'Se formaria un ciclo de reemplazos'
+      : 'Se formaria un ciclo de refinamientos';
+  }
+
+  return null;
+}
+
+// Entry that currently stands for a superseded one, following the replacement chain
+function findReplacement(entryId: string, entries: KnowledgeEntry[], superseded: Set<string>): KnowledgeEntry | undefined {
+  const visited = new Set<string>();
+  let currentId = entryId;
+  while (superseded.has(currentId) && !visited.has(currentId)) {
+    visited.add(currentId);
+    const replacement = entries.find((e) =>
+      (e.relations || []).some((r) => r.type === 'supersedes' && r.targetId === currentId)
+    );
+    if (!replacement) return undefined;
+    currentId = replacement.id;
+  }
+  return superseded.has(currentId) ? undefined : entries.find((e) => e.id === currentId);
+}
+
+/**
+ * Chat context from search results. A superseded match is swapped for the entry
+ * that replaces it, and the other side of every conflict is brought in right
+ * after the match that pulled it; both keep that match's score.
+ */
+export function assembleKnowledgeContext(matches: KnowledgeMatch[], entries: KnowledgeEntry[]): KnowledgeContext {
+  const superseded = getSupersededIds(entries);
+  const byId = new Map(entries.map((e) => [e.id, e]));
+
+  const kept: KnowledgeMatch[] = [];
+  const included = new Set<string>();
+  for (const match of matches) {
+    const entry = superseded.has(match.entry.id) ? findReplacement(match.entry.id, entries, superseded) : match.entry;
+    if (!entry || included.has(entry.id)) continue;
+    included.add(entry.id);
+    kept.push({ entry, score: match.score });
+  }
+
+  const result: KnowledgeMatch[] = [];
+  const conflicts: [string, string][] = [];
+  const seenPairs = new Set<string>();
+
+  for (const match of kept) {
+    result.push(match);
+
+    for (const otherId of getConflictingIds(match.entry.id, entries)) {
+      if (superseded.has(otherId)) continue;
+
+      const pairKey = [match.entry.id, otherId].sort().join(':');
+      if (!seenPairs.has(pairKey)) {
+        seenPairs.add(pairKey);
+        conflicts.push([match.entry.id, otherId]);
+      }
+
+      if (!included.has(otherId)) {
+        included.add(otherId);
+        result.push({ entry: byId.get(otherId)!, score: match.score });
+      }
+    }
+  }
+
+  return { matches: result, conflicts };
+}
+
+// --- Graph ---
+
+export interface KnowledgeGraphEdge {
+  sourceId: string;
+  targetId: string;
+  type: KnowledgeRelationType;
+}
+
+export interface KnowledgeGraphData {
+  edges: KnowledgeGraphEdge[];
+  relatedIds: Set<string>;              // Entries with at least one relation
+  depthById: Record<string, number>;    // Column: replaced and refined entries sit left of their successors
+}
+
+/**
+ * Relations among the given entries (relations to entries outside the list are
+ * left out), with a column per entry for the graph view.
+ */
+export function buildKnowledgeGraph(entries: KnowledgeEntry[]): KnowledgeGraphData {
+  const ids = new Set(entries.map((e) => e.id));
+  const edges: KnowledgeGraphEdge[] = entries.flatMap((entry) =>
+    (entry.relations || [])
+      .filter((r) => ids.has(r.targetId) && r.targetId !== entry.id)
+      .map((r) => ({ sourceId: entry.id, targetId: r.targetId, type: r.type }))
+  );
+
+  const relatedIds = new Set(edges.flatMap((e) => [e.sourceId, e.targetId]));
+
+  // Longest chain of supersedes/refines below each entry; the stack guards against imported loops
+  const depthById: Record<string, number> = {};
+  const visiting = new Set<string>();
+  const depthOf = (id: string): number => {
+    if (depthById[id] !== undefined) return depthById[id];
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const below = edges
+      .filter((e) => e.sourceId === id && e.type !== 'conflicts_with')
+      .map((e) => depthOf(e.targetId) + 1);
+    visiting.delete(id);
+    depthById[id] = Math.max(0, ...below);
+    return depthById[id];
+  };
+  relatedIds.forEach((id) => depthOf(id));
+
+  return { edges, relatedIds, depthById };
+}
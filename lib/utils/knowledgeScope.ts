@@ -0,0 +1,116 @@
+/**
+ * Knowledge Scope - Where each KnowledgeEntry applies.
+ *
+ * An entry is global unless it says otherwise (`entry.scope`). Scoped entries only
+ * reach agents that match: the same project, the same `Agent.channelType`, or a
+ * project tagged with the entry's niche. In scope, the narrower the scope the
+ * higher the entry ranks, so a client's own learnings beat generic ones. A scope
+ * whose value is missing reaches no agent: it never falls back to global.
+ */
+
+import type { Agent, KnowledgeEntry, KnowledgeScope, KnowledgeScopeKind, Project } from '@/types/prompt';
+import type { KnowledgeMatch } from '@/lib/utils/knowledgeIndex';
+
+export const KNOWLEDGE_SCOPE_KINDS: Record<KnowledgeScopeKind, {
+  label: string;
+  description: string;
+  color: string;
+}> = {
+  global: { label: 'Global', description: 'Todos los agentes', color: 'var(--text-muted)' },
+  project: { label: 'Cliente', description: 'Solo los agentes de este proyecto', color: '#a371f7' },
+  channel: { label: 'Canal', description: 'Solo los agentes de este canal', color: '#3b82f6' },
+  niche: { label: 'Nicho', description: 'Solo los proyectos con este tag', color: '#d29922' },
+};
+
+// Added to the similarity of in-scope entries when ranking
+const SCOPE_BOOST: Record<KnowledgeScopeKind, number> = {
+  global: 0,
+  project: 0.1,
+  niche: 0.06,
+  channel: 0.05,
+};
+
+// What an entry's scope is checked against: the agent being worked on
+export interface KnowledgeScopeTarget {
+  projectId: string | null;
+  channelType: string | null;
+  nicheTags: string[];
+}
+
+export function getEntryScope(entry: KnowledgeEntry): KnowledgeScope {
+  return entry.scope ?? { kind: 'global' };
+}
+
+/**
+ * False for a project, channel or niche scope that doesn't say which one yet.
+ */
+export function isScopeComplete(scope: KnowledgeScope): boolean {
+  return scope.kind === 'global' || Boolean(scope.value?.trim());
+}
+
+export function getScopeTarget(project: Project | undefined, agent: Agent | undefined): KnowledgeScopeTarget {
+  return {
+    projectId: project?.id ?? null,
+    channelType: agent?.channelType ?? null,
+    nicheTags: project?.tags ?? [],
+  };
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Niche tags typed as "fitness, Coaching" -> ['fitness', 'coaching'], without repeats.
+ */
+export function parseNicheTags(text: string): string[] {
+  const tags = text.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * True if the entry applies to the target. Without a project or agent selected
+ * only global entries apply.
+ */
+export function isInScope(entry: KnowledgeEntry, target: KnowledgeScopeTarget): boolean {
+  const scope = getEntryScope(entry);
+  if (!isScopeComplete(scope)) return false;
+  switch (scope.kind) {
+    case 'global':
+      return true;
+    case 'project':
+      return scope.value === target.projectId;
+    case 'channel':
+      return target.channelType !== null && sameText(scope.value!, target.channelType);
+    case 'niche':
+      return target.nicheTags.some((tag) => sameText(tag, scope.value!));
+  }
+}
+
+export function getScopeBoost(entry: KnowledgeEntry): number {
+  return SCOPE_BOOST[getEntryScope(entry).kind];
+}
+
+/**
+ * Search results limited to the target's scope and re-ranked with the scope
+ * boost. Scores are left as they were (they're still the similarity).
+ */
+export function scopeKnowledgeMatches(matches: KnowledgeMatch[], target: KnowledgeScopeTarget): KnowledgeMatch[] {
+  return matches
+    .filter((m) => isInScope(m.entry, target))
+    .sort((a, b) => (b.score + getScopeBoost(b.entry)) - (a.score + getScopeBoost(a.entry)));
+}
+
+/**
+ * Short label for a scope, e.g. "Cliente: Maria Fit" or "Canal: whatsapp".
+ */
+export function describeScope(scope: KnowledgeScope | undefined, projects: Project[]): string {
+  const kind = scope?.kind ?? 'global';
+  if (kind === 'global') return KNOWLEDGE_SCOPE_KINDS.global.label;
+
+  const label = KNOWLEDGE_SCOPE_KINDS[kind].label;
+  if (!scope?.value) return `${label}: sin elegir`;
+  if (kind === 'project') {
+    const project = projects.find((p) => p.id === scope.value);
+    return `${label}: ${project ? project.clientName || project.name : 'proyecto eliminado'}`;
+  }
+  return `${label}: ${scope.value}`;
+}
@@ -0,0 +1,197 @@
+/**
+ * Learning Effectiveness - How well each KnowledgeEntry works, measured from what
+ * happened after it was used instead of the hand-set label.
+ *
+ * Applying or rejecting a learning records a SuggestionDecision linked to the entry
+ * (`knowledgeEntryIds`) and, when the change was saved, to the new version. Chat
+ * changes link only the learnings they drew on (`getChangeLearningIds`), not every
+ * learning their answer was given with. The
+ * acceptance rate comes from those decisions; the regression delta compares the
+ * golden conversation run of each linked version with the run of its parent.
+ */
+
+import type { Agent, KnowledgeEntry, Project, PromptVersion, SuggestionDecision } from '@/types/prompt';
+import type { RegressionRun } from '@/types/regression';
+import type { ParsedChange } from '@/lib/utils/changeParser';
+import type { KnowledgeIndex, KnowledgeMatch } from '@/lib/utils/knowledgeIndex';
+
+// improves / hurts: regression or acceptance evidence; ignored: rejected more than applied
+export type LearningImpact = 'improves' | 'neutral' | 'hurts' | 'ignored' | 'unused';
+
+export interface LearningVersionImpact {
+  versionId: string;
+  versionLabel: string;
+  projectId: string;
+  agentId: string;
+  agentName: string;
+  regressionDelta: number | null;   // Average score change vs the parent version's run (points)
+}
+
+export interface LearningEffectiveness {
+  entryId: string;
+  decisions: SuggestionDecision[];  // Newest first
+  accepted: number;                 // Accepted or modified
+  rejected: number;
+  acceptanceRate: number | null;    // 0-1, null without decisions
+  versions: LearningVersionImpact[];
+  regressionDelta: number | null;   // Average over the versions with both runs
+  score: number | null;             // 0-1
+  effectiveness: KnowledgeEntry['effectiveness'] | null;  // null while there isn't enough evidence
+  impact: LearningImpact;
+}
+
+// Decisions needed before acceptance alone sets the level
+const MIN_DECISIONS = 3;
+// Score changes smaller than this (in rubric points) are noise
+const REGRESSION_NOISE = 3;
+// Delta that takes the regression component from 0.5 to 0 or 1
+const REGRESSION_SCALE = 20;
+const IMPROVES_ACCEPTANCE = 0.7;
+const HIGH_SCORE = 0.7;
+const MEDIUM_SCORE = 0.4;
+// Similarity to a learning above which an uncited change counts as drawing on it
+const CHANGE_LEARNING_SIMILARITY = 0.3;
+
+// Average score of the conversations that ran, null if all of them errored
+function runScore(run: RegressionRun | undefined): number | null {
+  const scored = run?.results.filter((r) => r.status !== 'error') || [];
+  if (scored.length === 0) return null;
+  return scored.reduce((sum, r) => sum + r.score, 0) / scored.length;
+}
+
+function regressionDeltaOf(agent: Agent, version: PromptVersion): number | null {
+  const runs = agent.regressionRuns || [];
+  const current = runScore(runs.find((r) => r.versionId === version.id));
+  const parent = version.parentVersionId
+    ? runScore(runs.find((r) => r.versionId === version.parentVersionId))
+    : null;
+  return current !== null && parent !== null ? current - parent : null;
+}
+
+/**
+ * Version a decision ended up in: the one saved with it or, when it wasn't saved
+ * right away, the agent's next version.
+ */
+function findDecisionVersion(decision: SuggestionDecision, agent: Agent): PromptVersion | undefined {
+  if (decision.versionId) return agent.versions.find((v) => v.id === decision.versionId);
+  return agent.versions
+    .filter((v) => v.timestamp >= decision.timestamp)
+    .sort((a, b) => a.timestamp - b.timestamp)[0];
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function evaluateEntry(entryId: string, decisions: SuggestionDecision[], projects: Project[]): LearningEffectiveness {
+  const sorted = [...decisions].sort((a, b) => b.timestamp - a.timestamp);
+  const applied = sorted.filter((d) => d.decision !== 'rejected');
+  const accepted = applied.length;
+  const rejected = sorted.length - accepted;
+  const acceptanceRate = sorted.length > 0 ? accepted / sorted.length : null;
+
+  const versions = new Map<string, LearningVersionImpact>();
+  for (const decision of applied) {
+    const project = projects.find((p) => p.id === decision.projectId);
+    const agent = project?.agents.find((a) => a.id === decision.agentId);
+    const version = agent && findDecisionVersion(decision, agent);
+    if (!project || !agent || !version || versions.has(version.id)) continue;
+
+    versions.set(version.id, {
+      versionId: version.id,
+      versionLabel: version.label,
+      projectId: project.id,
+      agentId: agent.id,
+      agentName: agent.name,
+      regressionDelta: regressionDeltaOf(agent, version),
+    });
+  }
+
+  const linkedVersions = Array.from(versions.values());
+  const regressionDelta = average(
+    linkedVersions.map((v) => v.regressionDelta).filter((d): d is number => d !== null)
+  );
+
+  const components: number[] = [];
+  if (acceptanceRate !== null) components.push(acceptanceRate);
+  if (regressionDelta !== null) {
+    components.push(Math.max(0, Math.min(1, 0.5 + regressionDelta / (2 * REGRESSION_SCALE))));
+  }
+  const score = average(components);
+
+  const hasEvidence = sorted.length >= MIN_DECISIONS || regressionDelta !== null;
+  const effectiveness = hasEvidence && score !== null
+    ? score >= HIGH_SCORE ? 'high' : score >= MEDIUM_SCORE ? 'medium' : 'low'
+    : null;
+
+  let impact: LearningImpact;
+  if (sorted.length === 0) {
+    impact = 'unused';
+  } else if (regressionDelta !== null && regressionDelta <= -REGRESSION_NOISE) {
+    impact = 'hurts';
+  } else if (rejected > accepted) {
+    impact = 'ignored';
+  } else if (
+    regressionDelta !== null
+      ? regressionDelta >= REGRESSION_NOISE
+      : sorted.length >= MIN_DECISIONS && acceptanceRate! >= IMPROVES_ACCEPTANCE
+  ) {
+    impact = 'improves';
+  } else {
+    impact = 'neutral';
+  }
+
+  return {
+    entryId,
+    decisions: sorted,
+    accepted,
+    rejected,
+    acceptanceRate,
+    versions: linkedVersions,
+    regressionDelta,
+    score,
+    effectiveness,
+    impact,
+  };
+}
+
+/**
+ * Effectiveness of every entry, keyed by entry id. Entries without linked
+ * decisions come back as 'unused'.
+ */
+export function computeLearningEffectiveness(
+  entries: KnowledgeEntry[],
+  decisions: SuggestionDecision[],
+  projects: Project[]
+): Map<string, LearningEffectiveness> {
+  const byEntry = new Map<string, SuggestionDecision[]>(entries.map((e) => [e.id, []]));
+  for (const decision of decisions) {
+    for (const entryId of decision.knowledgeEntryIds || []) {
+      byEntry.get(entryId)?.push(decision);
+    }
+  }
+
+  return new Map(
+    Array.from(byEntry, ([entryId, entryDecisions]) => [entryId, evaluateEntry(entryId, entryDecisions, projects)])
+  );
+}
+
+/**
+ * Learnings a chat change drew on, out of the ones its answer was given with
+ * (`matches`, numbered in the order the model saw them): the ones the change cites
+ * in its "Aprendizajes" field or, without citations, the ones close to its text.
+ */
+export function getChangeLearningIds(change: ParsedChange, matches: KnowledgeMatch[], index: KnowledgeIndex): string[] {
+  if (change.learningRefs) {
+    const cited = change.learningRefs
+      .map((n) => matches[n - 1]?.entry.id)
+      .filter((id): id is string => Boolean(id));
+    return Array.from(new Set(cited));
+  }
+
+  const text = [change.title, change.beforeText, change.afterText, change.reason].filter(Boolean).join('\n');
+  const [vector] = index.embed([text]);
+  return matches
+    .filter(({ entry }) => index.similarity(vector, entry.id) >= CHANGE_LEARNING_SIMILARITY)
+    .map(({ entry }) => entry.id);
+}
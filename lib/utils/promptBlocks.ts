@@ -0,0 +1,63 @@
+/**
+ * Prompt Blocks - The top-level sections a prompt is diffed and merged by.
+ *
+ * The section diff and the three-way merge both cut prompts here, so they agree
+ * on where a section starts and on which titles name the same section.
+ */
+
+import { parseSemanticSections, type SemanticSection } from '@/lib/semanticParser';
+
+// Id of the block holding the text before the first section
+export const PREAMBLE_BLOCK_ID = 'preamble';
+
+/**
+ * Lowercase, accent-free title with punctuation collapsed to single spaces
+ */
+export function normalizeTitle(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cut a prompt into consecutive blocks that concatenate back to the original text.
+ * Each top-level section runs until the next one starts (a markdown header takes
+ * its body with it); sections nested inside an XML tag stay part of that tag.
+ * Text before the first section becomes a "Preámbulo" block, and a prompt without
+ * sections a single "Prompt completo" block.
+ */
+export function splitPromptBlocks(text: string): SemanticSection[] {
+  const topLevel: SemanticSection[] = [];
+  let coveredUntil = 0;
+  for (const section of parseSemanticSections(text)) {
+    if (section.startIndex < coveredUntil) continue;
+    topLevel.push(section);
+    coveredUntil = section.endIndex;
+  }
+
+  const blocks = topLevel.map((section, i) => {
+    const endIndex = i + 1 < topLevel.length ? topLevel[i + 1].startIndex : text.length;
+    return { ...section, endIndex, content: text.slice(section.startIndex, endIndex) };
+  });
+
+  const firstStart = blocks.length > 0 ? blocks[0].startIndex : text.length;
+  if (firstStart === 0) return blocks;
+
+  const preamble = text.slice(0, firstStart);
+  const pseudo: SemanticSection = {
+    id: PREAMBLE_BLOCK_ID,
+    type: 'paragraph',
+    title: blocks.length > 0 ? 'Preámbulo' : 'Prompt completo',
+    inferredPurpose: 'unknown',
+    startLine: 0,
+    endLine: preamble.split('\n').length - 1,
+    startIndex: 0,
+    endIndex: firstStart,
+    content: preamble,
+    suggestionCount: 0,
+  };
+  return [pseudo, ...blocks];
+}
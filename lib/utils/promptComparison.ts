@@ -0,0 +1,222 @@
+/**
+ * Prompt Comparison - A/B runs of two prompts on the same lead inputs.
+ *
+ * Both prompts answer the same conversation, then a judge scores both replies.
+ * The judge sees them as "Respuesta 1/2" in an order that depends on the input,
+ * so the position bias doesn't always favor the same side.
+ */
+
+import type { SimulationModelClient } from '@/lib/utils/conversationSimulator';
+import { buildSharedContextBlock, withSharedContext } from '@/lib/utils/sharedContext';
+import type { GoldenConversation } from '@/types/regression';
+import type { NamedFlow } from '@/types/flow';
+import type {
+  ComparisonInput,
+  ComparisonSummary,
+  ComparisonTurnResult,
+  ComparisonWinner,
+} from '@/types/comparison';
+
+const JUDGE_SYSTEM_PROMPT = `Sos un evaluador de QA de agentes de DM de Instagram. Vas a ver una conversación y dos respuestas posibles del agente al último mensaje del lead.
+
+Puntuá cada respuesta de 1 a 10 según: si avanza la conversación hacia el objetivo, si suena natural y humana, si respeta lo que dijo el lead y si evita inventar información.
+
+Si hay un comportamiento esperado, pesa más que el resto de los criterios. Una respuesta que cae en una señal de alerta no puede sacar más de 3.
+
+Respondé SOLO con JSON válido:
+{ "score1": 7, "score2": 5, "winner": "1|2|tie", "reasoning": "explicación breve" }`;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
+
+/**
+ * Build the inputs for a comparison: each lead message is a one-turn conversation,
+ * each replayable agent turn of a golden conversation is one input, and each flow
+ * test case opens with its trigger message and brings its expectations for the judge.
+ */
+export function buildComparisonInputs(
+  leadMessages: string[],
+  conversations: GoldenConversation[] = [],
+  flows: NamedFlow[] = []
+): ComparisonInput[] {
+  const inputs: ComparisonInput[] = leadMessages
+    .map((m) => m.trim())
+    .filter(Boolean)
+    .map((message, i) => ({
+      id: `msg-${i}`,
+      label: truncate(message, 60),
+      history: [{ role: 'lead', content: message }],
+    }));
+
+  for (const conversation of conversations) {
+    const firstLead = conversation.transcript.findIndex((t) => t.role === 'lead');
+    if (firstLead === -1) continue;
+
+    conversation.transcript.forEach((turn, i) => {
+      if (turn.role !== 'agent' || i <= firstLead) return;
+      const history = conversation.transcript.slice(firstLead, i);
+      if (history[history.length - 1].role !== 'lead') return;
+      inputs.push({
+        id: `${conversation.id}-${i}`,
+        label: `${conversation.name} · turno ${i}`,
+        history,
+      });
+    });
+  }
+
+  for (const flow of flows) {
+    for (const testCase of flow.testCases || []) {
+      if (!testCase.triggerMessage.trim()) continue;
+      inputs.push({
+        id: `case-${flow.id}-${testCase.id}`,
+        label: `${flow.name} · ${testCase.name}`,
+        history: [{ role: 'lead', content: testCase.triggerMessage.trim() }],
+        expectedBehavior: testCase.expectedBehavior,
+        redFlags: testCase.redFlags,
+      });
+    }
+  }
+
+  return inputs;
+}
+
+function formatExpectations(input: ComparisonInput): string {
+  const parts: string[] = [];
+  if (input.expectedBehavior?.trim()) {
+    parts.push(`## Comportamiento esperado\n${input.expectedBehavior.trim()}`);
+  }
+  if (input.redFlags && input.redFlags.length > 0) {
+    parts.push(`## Señales de alerta\n${input.redFlags.map((f) => `- ${f}`).join('\n')}`);
+  }
+  return parts.map((p) => `\n\n${p}`).join('');
+}
+
+// Stable per-input order so re-running the same batch shows the judge the same layout
+function shouldSwap(inputId: string): boolean {
+  let hash = 0;
+  for (let i = 0; i < inputId.length; i++) {
+    hash = (hash * 31 + inputId.charCodeAt(i)) | 0;
+  }
+  return (hash & 1) === 1;
+}
+
+function parseJudgeResponse(raw: string): { score1: number; score2: number; winner: '1' | '2' | 'tie'; reasoning?: string } {
+  const braceMatch = raw.match(/\{[\s\S]*\}/);
+  if (!braceMatch) {
+    throw new Error('El evaluador no devolvió JSON');
+  }
+
+  const parsed = JSON.parse(braceMatch[0]) as {
+    score1?: unknown;
+    score2?: unknown;
+    winner?: unknown;
+    reasoning?: string;
+  };
+
+  if (typeof parsed.score1 !== 'number' || typeof parsed.score2 !== 'number') {
+    throw new Error('El evaluador no devolvió puntajes');
+  }
+
+  const clamp = (n: number) => Math.min(10, Math.max(1, Math.round(n)));
+  const score1 = clamp(parsed.score1);
+  const score2 = clamp(parsed.score2);
+  const winner = parsed.winner === '1' || parsed.winner === '2' || parsed.winner === 'tie'
+    ? parsed.winner
+    : score1 === score2 ? 'tie' : score1 > score2 ? '1' : '2';
+
+  return { score1, score2, winner, reasoning: parsed.reasoning };
+}
+
+/**
+ * Run one input through both prompts and judge the replies.
+ * Both prompts and the judge get the project's shared context.
+ * Never throws: failures are reported in `error`.
+ */
+export async function comparePromptsOnInput(
+  input: ComparisonInput,
+  promptA: string,
+  promptB: string,
+  client: SimulationModelClient,
+  sharedContext?: string
+): Promise<ComparisonTurnResult> {
+  const messages = input.history.map((t) => ({
+    role: t.role === 'lead' ? 'user' as const : 'assistant' as const,
+    content: t.content,
+  }));
+
+  let replyA = '';
+  let replyB = '';
+
+  try {
+    [replyA, replyB] = (await Promise.all([
+      client.complete({ role: 'agent', system: withSharedContext(promptA, sharedContext), messages }),
+      client.complete({ role: 'agent', system: withSharedContext(promptB, sharedContext), messages }),
+    ])).map((r) => r.trim());
+
+    const swap = shouldSwap(input.id);
+    const [first, second] = swap ? [replyB, replyA] : [replyA, replyB];
+    const conversation = input.history
+      .map((t) => `${t.role === 'lead' ? 'LEAD' : 'AGENTE'}: ${t.content}`)
+      .join('\n');
+    const contextBlock = buildSharedContextBlock(sharedContext);
+
+    const judgeReply = await client.complete({
+      role: 'judge',
+      system: JUDGE_SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        content: `## Conversación\n${conversation}${formatExpectations(input)}${contextBlock ? `\n\n${contextBlock}` : ''}\n\n## Respuesta 1\n${first}\n\n## Respuesta 2\n${second}`,
+      }],
+      maxTokens: 500,
+    });
+    const verdict = parseJudgeResponse(judgeReply);
+
+    // Map "1/2" back to A/B
+    const scoreA = swap ? verdict.score2 : verdict.score1;
+    const scoreB = swap ? verdict.score1 : verdict.score2;
+    const winner: ComparisonWinner = verdict.winner === 'tie'
+      ? 'tie'
+      : (verdict.winner === '1') !== swap ? 'A' : 'B';
+
+    return { inputId: input.id, replyA, replyB, scoreA, scoreB, winner, reasoning: verdict.reasoning };
+  } catch (error) {
+    return {
+      inputId: input.id,
+      replyA,
+      replyB,
+      scoreA: 0,
+      scoreB: 0,
+      winner: 'tie',
+      error: error instanceof Error ? error.message : 'Error al comparar',
+    };
+  }
+}
+
+/**
+ * Aggregate per-input results. The side with more wins is the winner;
+ * equal wins are broken by average score.
+ */
+export function summarizeComparison(results: ComparisonTurnResult[]): ComparisonSummary {
+  const scored = results.filter((r) => !r.error);
+  const winsA = scored.filter((r) => r.winner === 'A').length;
+  const winsB = scored.filter((r) => r.winner === 'B').length;
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : 0;
+  const averageA = average(scored.map((r) => r.scoreA));
+  const averageB = average(scored.map((r) => r.scoreB));
+
+  let winner: ComparisonWinner = 'tie';
+  if (winsA !== winsB) winner = winsA > winsB ? 'A' : 'B';
+  else if (averageA !== averageB) winner = averageA > averageB ? 'A' : 'B';
+
+  return {
+    winsA,
+    winsB,
+    ties: scored.length - winsA - winsB,
+    errors: results.length - scored.length,
+    averageA,
+    averageB,
+    winner,
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Regression Runner - Replays golden conversations against a prompt version.
+ *
+ * Each lead turn is replayed with the golden history up to that point (not the new
+ * replies), so every new agent reply lines up with the expected one. A grader then
+ * scores the new replies with a fixed rubric. Model calls go through
+ * SimulationModelClient, same as the flow simulator.
+ */
+
+import type { SimulationModelClient } from '@/lib/utils/conversationSimulator';
+import { buildSharedContextBlock, withSharedContext } from '@/lib/utils/sharedContext';
+import {
+  RUBRIC_CRITERIA,
+  type GoldenConversation,
+  type GoldenConversationResult,
+  type GoldenTurn,
+  type ReplayedTurn,
+  type RubricCriterion,
+  type RubricScore,
+} from '@/types/regression';
+
+// Average rubric score (0-100) needed to pass
+export const REGRESSION_PASS_SCORE = 70;
+
+const LEAD_PREFIXES = ['lead', 'usuario', 'user', 'cliente', 'prospecto', 'humano'];
+const AGENT_PREFIXES = ['agente', 'agent', 'bot', 'asistente', 'assistant', 'setter', 'ia'];
+const SPEAKER_REGEX = /^\s*(?:\[[^\]]*\]\s*)?([A-Za-zÁÉÍÓÚáéíóúñÑ]+)\s*:\s*(.*)$/;
+
+const RUBRIC_KEYS = Object.keys(RUBRIC_CRITERIA) as RubricCriterion[];
+
+/**
+ * Parse a pasted transcript ("Lead: ...", "Agente: ...") into turns.
+ * Lines without a known speaker are appended to the previous turn.
+ */
+export function parseGoldenTranscript(text: string): GoldenTurn[] {
+  const turns: GoldenTurn[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = line.match(SPEAKER_REGEX);
+    const speaker = match?.[1].toLowerCase();
+    const role = speaker && LEAD_PREFIXES.includes(speaker)
+      ? 'lead'
+      : speaker && AGENT_PREFIXES.includes(speaker)
+      ? 'agent'
+      : null;
+
+    if (role && match) {
+      const last = turns[turns.length - 1];
+      // Consecutive messages from the same speaker are one turn
+      if (last && last.role === role) {
+        last.content = `${last.content}\n${match[2].trim()}`.trim();
+      } else {
+        turns.push({ role, content: match[2].trim() });
+      }
+    } else if (turns.length > 0 && line.trim()) {
+      const last = turns[turns.length - 1];
+      last.content = `${last.content}\n${line.trim()}`.trim();
+    }
+  }
+
+  return turns.filter((t) => t.content.length > 0);
+}
+
+function buildGraderPrompt(conversation: GoldenConversation, turns: ReplayedTurn[], sharedContext?: string): string {
+  const replayed = turns
+    .map((t, i) => `### Turno ${i + 1}
+LEAD: ${t.leadMessage}
+RESPUESTA ESPERADA: ${t.expectedReply}
+RESPUESTA NUEVA: ${t.actualReply}`)
+    .join('\n\n');
+  const contextBlock = buildSharedContextBlock(sharedContext);
+
+  return `## Comportamiento esperado
+${conversation.expectedBehavior || '(igual a las respuestas esperadas)'}
+
+## Turnos
+${replayed}${contextBlock ? `\n\n${contextBlock}` : ''}`;
+}
+
+const GRADER_SYSTEM_PROMPT = `Sos un evaluador de QA de agentes de DM. Comparás las respuestas NUEVAS de un agente contra las respuestas ESPERADAS de una conversación real ya revisada.
+
+No hace falta que el texto sea igual: evaluá si la respuesta nueva logra lo mismo o algo mejor.
+
+Puntuá de 1 a 5 cada criterio:
+${RUBRIC_KEYS.map((k) => `- ${k}: ${RUBRIC_CRITERIA[k]}`).join('\n')}
+
+Respondé SOLO con JSON válido:
+{ "rubric": [{ "criterion": "behavior", "score": 4, "comment": "breve" }], "reasoning": "explicación breve de diferencias importantes" }`;
+
+function parseGraderResponse(raw: string): { rubric: RubricScore[]; reasoning?: string } {
+  const braceMatch = raw.match(/\{[\s\S]*\}/);
+  if (!braceMatch) {
+    throw new Error('El evaluador no devolvió JSON');
+  }
+
+  const parsed = JSON.parse(braceMatch[0]) as { rubric?: unknown; reasoning?: string };
+  const items = Array.isArray(parsed.rubric) ? parsed.rubric : [];
+
+  const rubric: RubricScore[] = [];
+  for (const criterion of RUBRIC_KEYS) {
+    const item = items.find(
+      (r): r is { criterion: string; score: number; comment?: string } =>
+        !!r && typeof r === 'object' && (r as { criterion?: unknown }).criterion === criterion
+    );
+    if (!item || typeof item.score !== 'number') {
+      throw new Error(`Falta el criterio "${criterion}" en la evaluación`);
+    }
+    rubric.push({
+      criterion,
+      score: Math.min(5, Math.max(1, Math.round(item.score))),
+      comment: typeof item.comment === 'string' ? item.comment : undefined,
+    });
+  }
+
+  return { rubric, reasoning: parsed.reasoning };
+}
+
+/**
+ * Convert 1-5 rubric scores into a 0-100 score
+ */
+export function rubricToScore(rubric: RubricScore[]): number {
+  if (rubric.length === 0) return 0;
+  const average = rubric.reduce((sum, r) => sum + r.score, 0) / rubric.length;
+  return Math.round(((average - 1) / 4) * 100);
+}
+
+/**
+ * Replay one golden conversation against a prompt and grade the new replies.
+ * The agent and the grader get the project's shared context.
+ * Never throws: failures are reported as a result with status 'error'.
+ */
+export async function replayGoldenConversation(
+  conversation: GoldenConversation,
+  prompt: string,
+  client: SimulationModelClient,
+  sharedContext?: string
+): Promise<GoldenConversationResult> {
+  const turns: ReplayedTurn[] = [];
+  const base = {
+    conversationId: conversation.id,
+    conversationName: conversation.name,
+  };
+
+  // Agent turns before the lead says anything (openers) have nothing to replay,
+  // and the model history has to start with the lead
+  const firstLead = conversation.transcript.findIndex((t) => t.role === 'lead');
+  const system = withSharedContext(prompt, sharedContext);
+
+  try {
+    for (let i = 0; i < conversation.transcript.length; i++) {
+      const turn = conversation.transcript[i];
+      if (turn.role !== 'agent' || firstLead === -1 || firstLead > i) continue;
+
+      const history = conversation.transcript.slice(firstLead, i);
+      const lastLead = history[history.length - 1];
+      if (lastLead.role !== 'lead') continue;
+
+      const actualReply = await client.complete({
+        role: 'agent',
+        system,
+        messages: history.map((t) => ({
+          role: t.role === 'lead' ? 'user' : 'assistant',
+          content: t.content,
+        })),
+      });
+
+      turns.push({
+        turnIndex: i,
+        leadMessage: lastLead.content,
+        expectedReply: turn.content,
+        actualReply: actualReply.trim(),
+      });
+    }
+
+    if (turns.length === 0) {
+      throw new Error('La conversación no tiene respuestas del agente para comparar');
+    }
+
+    const graderReply = await client.complete({
+      role: 'judge',
+      system: GRADER_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: buildGraderPrompt(conversation, turns, sharedContext) }],
+      maxTokens: 800,
+    });
+    const { rubric, reasoning } = parseGraderResponse(graderReply);
+    const score = rubricToScore(rubric);
+
+    return {
+      ...base,
+      status: score >= REGRESSION_PASS_SCORE ? 'passed' : 'failed',
+      score,
+      rubric,
+      turns,
+      reasoning,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: 'error',
+      score: 0,
+      rubric: [],
+      turns,
+      error: error instanceof Error ? error.message : 'Error al reproducir la conversación',
+    };
+  }
+}
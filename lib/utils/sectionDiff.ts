@@ -0,0 +1,355 @@
+/**
+ * Section Diff - Structural diff between two prompt versions.
+ *
+ * Both versions are split with splitPromptBlocks and sections are aligned by
+ * title first, then by purpose + content similarity, then by content alone (renamed
+ * sections). Aligned pairs get a word-level diff, and each changed section is traced
+ * back to the VersionChanges and chat ChangeCards that likely caused it.
+ */
+
+import type { SemanticSection, InferredPurpose } from '@/lib/semanticParser';
+import { parseChanges, type ParsedChange } from '@/lib/utils/changeParser';
+import { normalizeTitle, splitPromptBlocks } from '@/lib/utils/promptBlocks';
+import type { ChatMessage, PromptVersion } from '@/types/prompt';
+
+export type SectionDiffStatus = 'added' | 'removed' | 'modified' | 'moved' | 'unchanged';
+
+export interface WordDiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SectionChangeSource {
+  kind: 'version' | 'chat';
+  versionLabel?: string;
+  description: string;
+  reason?: string;
+  messageId?: string;
+}
+
+export interface SectionDiffEntry {
+  id: string;
+  status: SectionDiffStatus;
+  title: string;
+  purpose: InferredPurpose;
+  before?: SemanticSection;
+  after?: SemanticSection;
+  moved: boolean;                 // Also true for modified sections that changed position
+  renamed: boolean;
+  wordDiff?: WordDiffPart[];
+  addedWords: number;
+  removedWords: number;
+  sources: SectionChangeSource[];
+}
+
+const PURPOSE_SIMILARITY = 0.4;
+const CONTENT_SIMILARITY = 0.6;
+// Above this many tokens per side the word diff falls back to a line diff
+const MAX_WORD_DIFF_TOKENS = 1500;
+
+function titlesMatch(a: string, b: string): boolean {
+  const na = normalizeTitle(a);
+  const nb = normalizeTitle(b);
+  if (na.length < 3 || nb.length < 3) return na === nb && na.length > 0;
+  return na === nb || na.includes(nb) || nb.includes(na);
+}
+
+function normalizeContent(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(normalizeTitle(text).split(' ').filter((w) => w.length > 2));
+}
+
+function similarity(a: string, b: string): number {
+  const setA = wordSet(a);
+  const setB = wordSet(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+  let shared = 0;
+  setA.forEach((w) => {
+    if (setB.has(w)) shared++;
+  });
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Word-level diff (LCS over words and whitespace)
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const splitter = /(\s+)/;
+  let a = before.split(splitter).filter(Boolean);
+  let b = after.split(splitter).filter(Boolean);
+
+  // Very long sections: diff whole lines so the table stays small
+  if (a.length > MAX_WORD_DIFF_TOKENS || b.length > MAX_WORD_DIFF_TOKENS) {
+    a = before.split(/(\n)/).filter(Boolean);
+    b = after.split(/(\n)/).filter(Boolean);
+  }
+
+  const n = a.length;
+  const m = b.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < n) push('removed', a[i++]);
+  while (j < m) push('added', b[j++]);
+
+  return parts;
+}
+
+function countWords(parts: WordDiffPart[], type: WordDiffPart['type']): number {
+  return parts
+    .filter((p) => p.type === type)
+    .reduce((sum, p) => sum + p.text.split(/\s+/).filter(Boolean).length, 0);
+}
+
+/**
+ * Indices (into `values`) of a longest increasing subsequence.
+ * Matched sections outside it are the ones that moved.
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+
+  const result = new Set<number>();
+  let k = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (k !== -1) {
+    result.add(k);
+    k = previous[k];
+  }
+  return result;
+}
+
+/**
+ * Align two prompt versions by semantic section
+ */
+export function diffSections(beforeText: string, afterText: string): SectionDiffEntry[] {
+  // A blank preamble is only spacing, not a section to show
+  const oldSections = splitPromptBlocks(beforeText).filter((s) => s.content.trim());
+  const newSections = splitPromptBlocks(afterText).filter((s) => s.content.trim());
+  const matchOf = new Map<number, number>(); // new index -> old index
+  const usedOld = new Set<number>();
+
+  const match = (pick: (newSection: SemanticSection) => number) => {
+    newSections.forEach((section, ni) => {
+      if (matchOf.has(ni)) return;
+      const oi = pick(section);
+      if (oi !== -1) {
+        matchOf.set(ni, oi);
+        usedOld.add(oi);
+      }
+    });
+  };
+
+  const bestBy = (section: SemanticSection, filter: (old: SemanticSection) => boolean, threshold: number) => {
+    let best = -1;
+    let bestScore = threshold;
+    oldSections.forEach((old, oi) => {
+      if (usedOld.has(oi) || !filter(old)) return;
+      const score = similarity(old.content, section.content);
+      if (score > bestScore || (best === -1 && score >= bestScore)) {
+        best = oi;
+        bestScore = score;
+      }
+    });
+    return best;
+  };
+
+  // 1. Same title (best content among duplicates) 2. same purpose 3. content only
+  match((s) => bestBy(s, (old) => titlesMatch(old.title, s.title), 0));
+  match((s) => s.inferredPurpose === 'unknown'
+    ? -1
+    : bestBy(s, (old) => old.inferredPurpose === s.inferredPurpose, PURPOSE_SIMILARITY));
+  match((s) => bestBy(s, () => true, CONTENT_SIMILARITY));
+
+  const matchedNew = newSections.map((_, ni) => ni).filter((ni) => matchOf.has(ni));
+  const inOrder = longestIncreasingSubsequence(matchedNew.map((ni) => matchOf.get(ni)!));
+  const movedNew = new Set(matchedNew.filter((_, k) => !inOrder.has(k)));
+
+  const entries: SectionDiffEntry[] = newSections.map((after, ni) => {
+    const oi = matchOf.get(ni);
+    if (oi === undefined) {
+      return {
+        id: `added-${ni}`,
+        status: 'added',
+        title: after.title,
+        purpose: after.inferredPurpose,
+        after,
+        moved: false,
+        renamed: false,
+        addedWords: after.content.split(/\s+/).filter(Boolean).length,
+        removedWords: 0,
+        sources: [],
+      };
+    }
+
+    const before = oldSections[oi];
+    const moved = movedNew.has(ni);
+    const changed = normalizeContent(before.content) !== normalizeContent(after.content);
+    const wordDiff = changed ? diffWords(before.content, after.content) : undefined;
+
+    return {
+      id: `match-${oi}-${ni}`,
+      status: changed ? 'modified' : moved ? 'moved' : 'unchanged',
+      title: after.title,
+      purpose: after.inferredPurpose,
+      before,
+      after,
+      moved,
+      renamed: !titlesMatch(before.title, after.title),
+      wordDiff,
+      addedWords: wordDiff ? countWords(wordDiff, 'added') : 0,
+      removedWords: wordDiff ? countWords(wordDiff, 'removed') : 0,
+      sources: [],
+    };
+  });
+
+  // Removed sections go right after the entry of their closest preceding old neighbor
+  oldSections.forEach((before, oi) => {
+    if (usedOld.has(oi)) return;
+    const removed: SectionDiffEntry = {
+      id: `removed-${oi}`,
+      status: 'removed',
+      title: before.title,
+      purpose: before.inferredPurpose,
+      before,
+      moved: false,
+      renamed: false,
+      addedWords: 0,
+      removedWords: before.content.split(/\s+/).filter(Boolean).length,
+      sources: [],
+    };
+
+    let insertAt = 0;
+    for (let k = entries.length - 1; k >= 0; k--) {
+      const entryOld = entries[k].before ? oldSections.indexOf(entries[k].before!) : -1;
+      if (entryOld !== -1 && entryOld < oi) {
+        insertAt = k + 1;
+        break;
+      }
+    }
+    entries.splice(insertAt, 0, removed);
+  });
+
+  return entries;
+}
+
+function changeTouchesEntry(change: ParsedChange, entry: SectionDiffEntry): boolean {
+  if (change.section && titlesMatch(change.section, entry.title)) return true;
+  if (entry.before && change.section && titlesMatch(change.section, entry.before.title)) return true;
+
+  const afterText = change.afterText?.trim();
+  if (afterText && afterText.length >= 10 && entry.after?.content.includes(afterText)) return true;
+
+  const beforeText = change.beforeText?.trim();
+  if (beforeText && beforeText.length >= 10 && entry.before?.content.includes(beforeText)) {
+    return !entry.after?.content.includes(beforeText);
+  }
+  return false;
+}
+
+/**
+ * Attach the recorded causes to each changed section:
+ * VersionChanges / changeDetails of the versions in between, and chat ChangeCards
+ * sent after the base version (rejected cards are skipped).
+ */
+export function attributeSectionChanges(
+  entries: SectionDiffEntry[],
+  versionsBetween: PromptVersion[],
+  chatMessages: ChatMessage[]
+): SectionDiffEntry[] {
+  const chatChanges = chatMessages
+    .filter((m) => m.role === 'assistant')
+    .flatMap((m) => parseChanges(m.content).changes
+      .filter((c) => m.changeStatuses?.[c.index] !== 'rejected')
+      .map((change) => ({ change, messageId: m.id })));
+
+  return entries.map((entry) => {
+    if (entry.status === 'unchanged') return entry;
+    const sources: SectionChangeSource[] = [];
+    const titles = [entry.title, entry.before?.title].filter(Boolean) as string[];
+
+    for (const version of versionsBetween) {
+      const detailTitle = version.changeDetails?.sectionTitle;
+      if (detailTitle && titles.some((t) => titlesMatch(t, detailTitle))) {
+        sources.push({
+          kind: 'version',
+          versionLabel: version.label,
+          description: version.changeDetails?.category
+            ? `${version.label} (${version.changeDetails.category})`
+            : version.label,
+        });
+      }
+      for (const change of version.changes || []) {
+        if (titles.some((t) => change.description.toLowerCase().includes(t.toLowerCase()))) {
+          sources.push({
+            kind: 'version',
+            versionLabel: version.label,
+            description: change.description,
+            reason: change.justification,
+          });
+        }
+      }
+    }
+
+    for (const { change, messageId } of chatChanges) {
+      if (changeTouchesEntry(change, entry)) {
+        sources.push({
+          kind: 'chat',
+          description: change.title,
+          reason: change.reason,
+          messageId,
+        });
+      }
+    }
+
+    return { ...entry, sources };
+  });
+}
+
+/**
+ * Versions strictly after `from` up to and including `to`, oldest first
+ */
+export function getVersionsBetween(versions: PromptVersion[], from: PromptVersion, to: PromptVersion): PromptVersion[] {
+  const [start, end] = from.timestamp <= to.timestamp ? [from, to] : [to, from];
+  return versions
+    .filter((v) => v.timestamp > start.timestamp && v.timestamp <= end.timestamp)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,224 @@
+/**
+ * Shared context - Business info a project's agents have in common (offers,
+ * prices, links, creator bio, FAQs).
+ *
+ * It's stored in `Project.sharedContext` as markdown with one "## Titulo" block
+ * per section, so older free-text contexts keep working (they read as "Otros datos").
+ * API routes append it to their model calls with `buildSharedContextBlock`, and
+ * `checkSharedContextConsistency` flags prompt prices and links that contradict it.
+ */
+
+import type { Agent, Project, SharedContextIssue, SharedContextSectionKey, SharedContextSections } from '@/types/prompt';
+
+export const SHARED_CONTEXT_SECTIONS: { key: SharedContextSectionKey; title: string; placeholder: string }[] = [
+  { key: 'offers', title: 'Ofertas', placeholder: 'Programa de mentoria 1:1 (12 semanas), comunidad mensual, ebook...' },
+  { key: 'prices', title: 'Precios', placeholder: 'Mentoria: USD 1.500 (o 3 cuotas de USD 550)\nComunidad: USD 47/mes' },
+  { key: 'links', title: 'Links', placeholder: 'Agenda: https://calendly.com/...\nVSL: https://...' },
+  { key: 'bio', title: 'Bio del creador', placeholder: 'Quien es, su historia, resultados, estilo...' },
+  { key: 'faqs', title: 'FAQs', placeholder: 'P: Sirve si recien empiezo?\nR: Si, ...' },
+  { key: 'other', title: 'Otros datos', placeholder: 'Horarios, politicas de reembolso, garantias...' },
+];
+
+// Headings accepted for each section, besides its title
+const SECTION_ALIASES: Record<SharedContextSectionKey, string[]> = {
+  offers: ['ofertas', 'oferta', 'productos', 'programas'],
+  prices: ['precios', 'precio', 'pricing'],
+  links: ['links', 'link', 'enlaces'],
+  bio: ['bio del creador', 'bio', 'sobre el creador', 'creador'],
+  faqs: ['faqs', 'faq', 'preguntas frecuentes'],
+  other: ['otros datos', 'otros'],
+};
+
+// Amounts right after these words are qualification thresholds ("factura mas de $5k"), not prices
+const THRESHOLD_CONTEXT = /(factur|ingres|gana|genera|vende|presupuesto|invert|revenue|m[a\u00e1]s de|menos de)[^\n]{0,20}$/i;
+
+const PRICE_PATTERN =
+  /(US\$|U\$S|USD|ARS|MXN|EUR|\u20ac|\$)\s?(\d[\d.,]*)(\s?(?:k|mil)\b)?|(\d[\d.,]*)(\s?(?:k|mil)\b)?\s?(USD|d[o\u00f3]lares|euros|EUR|\u20ac)/gi;
+
+const LINK_PATTERN = /(?:https?:\/\/|www\.)[^\s)<>\]"'`]+|\b[a-z0-9-]+\.(?:com|io|me|co|net|org|ly|link|app)(?:\.[a-z]{2})?\/[^\s)<>\]"'`]+/gi;
+
+function normalizeHeading(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+export function emptySharedContextSections(): SharedContextSections {
+  return { offers: '', prices: '', links: '', bio: '', faqs: '', other: '' };
+}
+
+/**
+ * Splits the stored context into its sections. Text before the first known
+ * heading and blocks with unknown headings go to "other".
+ */
+export function parseSharedContext(text: string | undefined): SharedContextSections {
+  const sections = emptySharedContextSections();
+  if (!text?.trim()) return sections;
+
+  const blocks: Record<SharedContextSectionKey, string[]> = {
+    offers: [], prices: [], links: [], bio: [], faqs: [], other: [],
+  };
+  let current: SharedContextSectionKey = 'other';
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^##\s+(.+)$/);
+    if (heading) {
+      const name = normalizeHeading(heading[1]);
+      const key = (Object.keys(SECTION_ALIASES) as SharedContextSectionKey[])
+        .find((k) => SECTION_ALIASES[k].includes(name));
+      if (key) {
+        current = key;
+        continue;
+      }
+      current = 'other';
+    }
+    blocks[current].push(line);
+  }
+
+  for (const key of Object.keys(blocks) as SharedContextSectionKey[]) {
+    sections[key] = blocks[key].join('\n').trim();
+  }
+  return sections;
+}
+
+export function serializeSharedContext(sections: SharedContextSections): string {
+  return SHARED_CONTEXT_SECTIONS
+    .filter(({ key }) => sections[key].trim())
+    .map(({ key, title }) => `## ${title}\n${sections[key].trim()}`)
+    .join('\n\n');
+}
+
+/**
+ * Block appended to the user message of every model call, empty without context.
+ */
+export function buildSharedContextBlock(sharedContext: string | undefined): string {
+  if (!sharedContext?.trim()) return '';
+  return `## Contexto del Negocio
+
+Datos del negocio que comparten todos los agentes del proyecto. Son la fuente de verdad para ofertas, precios y links: si el prompt dice otra cosa, el prompt esta desactualizado.
+
+<contexto_negocio>
+${sharedContext.trim()}
+</contexto_negocio>`;
+}
+
+/**
+ * An agent prompt as it runs in production: followed by the business context, if any.
+ */
+export function withSharedContext(prompt: string, sharedContext: string | undefined): string {
+  const contextBlock = buildSharedContextBlock(sharedContext);
+  return contextBlock ? `${prompt}\n\n---\n${contextBlock}` : prompt;
+}
+
+// --- Consistency check ---
+
+interface Found {
+  value: string;
+  key: string;
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * "1.500" and "1,500" are thousands, "1.5" and "2.500,50" have decimals; "k" and "mil" multiply.
+ */
+function parseAmount(raw: string, suffix: string | undefined): number {
+  let digits = raw.replace(/[.,]$/, '');
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    digits = digits.split(thousands).join('').replace(decimal, '.');
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = digits.split(separator);
+    const isThousands = parts.slice(1).every((p) => p.length === 3);
+    digits = isThousands ? parts.join('') : parts.join('.');
+  }
+
+  const amount = Number(digits);
+  return suffix?.trim() ? amount * 1000 : amount;
+}
+
+function findPrices(text: string): Found[] {
+  const prices: Found[] = [];
+  for (const match of text.matchAll(PRICE_PATTERN)) {
+    const startIndex = match.index!;
+    if (THRESHOLD_CONTEXT.test(text.slice(Math.max(0, startIndex - 40), startIndex))) continue;
+
+    const amount = parseAmount(match[2] ?? match[4], match[3] ?? match[5]);
+    if (!Number.isFinite(amount) || amount === 0) continue;
+
+    const value = match[0].replace(/[.,]$/, '').trim();
+    prices.push({ value, key: String(amount), startIndex, endIndex: startIndex + value.length });
+  }
+  return prices;
+}
+
+// Links compare without protocol, "www.", trailing slash or case in the domain
+function normalizeLink(url: string): { host: string; key: string } {
+  const bare = url.replace(/[.,;:!?]+$/, '').replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/$/, '');
+  const slash = bare.indexOf('/');
+  const host = (slash === -1 ? bare : bare.slice(0, slash)).toLowerCase();
+  return { host, key: host + (slash === -1 ? '' : bare.slice(slash)) };
+}
+
+function findLinks(text: string): (Found & { host: string })[] {
+  return Array.from(text.matchAll(LINK_PATTERN), (match) => {
+    const value = match[0].replace(/[.,;:!?]+$/, '');
+    const { host, key } = normalizeLink(value);
+    return { value, key, host, startIndex: match.index!, endIndex: match.index! + value.length };
+  });
+}
+
+/**
+ * Prices in the prompt that aren't any of the context's prices, and links to a
+ * domain the context has with a different URL (another calendly, another VSL).
+ * Checks are skipped when the context has no prices or no links.
+ */
+export function checkSharedContextConsistency(prompt: string, sharedContext: string | undefined): SharedContextIssue[] {
+  if (!sharedContext?.trim() || !prompt.trim()) return [];
+  const issues: SharedContextIssue[] = [];
+
+  const contextPrices = findPrices(sharedContext);
+  if (contextPrices.length > 0) {
+    const known = new Set(contextPrices.map((p) => p.key));
+    const expected = Array.from(new Map(contextPrices.map((p) => [p.key, p.value])).values());
+    for (const price of findPrices(prompt)) {
+      if (known.has(price.key)) continue;
+      issues.push({ kind: 'price', value: price.value, startIndex: price.startIndex, endIndex: price.endIndex, expected });
+    }
+  }
+
+  const contextLinks = findLinks(sharedContext);
+  if (contextLinks.length > 0) {
+    const known = new Set(contextLinks.map((l) => l.key));
+    for (const link of findLinks(prompt)) {
+      if (known.has(link.key)) continue;
+      const sameHost = contextLinks.filter((l) => l.host === link.host);
+      if (sameHost.length === 0) continue;
+      issues.push({
+        kind: 'link',
+        value: link.value,
+        startIndex: link.startIndex,
+        endIndex: link.endIndex,
+        expected: Array.from(new Set(sameHost.map((l) => l.value))),
+      });
+    }
+  }
+
+  return issues.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Consistency issues of every agent of the project, leaving out agents without any.
+ * `sharedContext` overrides the saved one (for checking a draft).
+ */
+export function checkProjectConsistency(
+  project: Project,
+  sharedContext: string | undefined = project.sharedContext
+): { agent: Agent; issues: SharedContextIssue[] }[] {
+  return (project.agents || [])
+    .map((agent) => ({ agent, issues: checkSharedContextConsistency(agent.currentPrompt || '', sharedContext) }))
+    .filter((result) => result.issues.length > 0);
+}
@@ -0,0 +1,456 @@
+/**
+ * Text flow parser - Turns the step formats of docs/GUIA_FORMATOS_FLUJOS.md
+ * (numbered, lettered and bulleted steps) into FlowData without calling the model.
+ *
+ * Follows the mapping of /api/flow/extract: a start node named after the flow,
+ * one node per step, conditionals as decision/switch nodes and "ir a X_FLOW"
+ * references as cross-flow end nodes. The model is left as an optional refinement.
+ */
+
+import type {
+  DelayUnit,
+  FlowData,
+  FlowEdge,
+  FlowNode,
+  FlowNodeType,
+  HandoffChannel,
+  HandoffTarget,
+  ResourceKind,
+} from '@/types/flow';
+import { createSwitchOutputs } from './flowSwitch';
+import { autoLayoutFlow } from './flowLayoutEngine';
+
+export interface TextFlowParseOptions {
+  availableFlows?: { id: string; name: string }[];   // Resolves "ir a X_FLOW" to a crossFlowRef
+}
+
+type StepMarker = 'number' | 'letter' | 'bullet' | 'plain';
+
+interface TextLine {
+  indent: number;
+  marker: StepMarker;
+  number?: number;
+  text: string;                        // Without the marker
+  negative: boolean;                   // Started with ❌ / ✗
+}
+
+// Where a branch or step continues
+type StepTarget =
+  | { kind: 'step'; number: number }
+  | { kind: 'next' }
+  | { kind: 'flow'; name: string }
+  | { kind: 'end'; label: string }
+  | { kind: 'action'; label: string };
+
+interface Branch {
+  condition: string;
+  target: StepTarget;
+  negative: boolean;
+}
+
+interface ParsedStep {
+  number: number;
+  label: string;
+  description: string;
+  details: string[];
+  branches: Branch[];
+  next?: StepTarget;                   // Unconditional jump ("→ Mover a X_FLOW", "→ Paso 4")
+  flowRef?: string;                    // The step itself sends to another flow
+  ends?: boolean;                      // "→ Fin": the flow ends at this step
+}
+
+// How a hand-written numbered flow is laid out, so it can be written back the same way
+export interface TextFlowStyle {
+  marker: string;                      // What follows the step number ("." in "1.")
+  bold: boolean;                       // Step titles in **bold**
+  bullet: string;                      // Bullet of branch lines
+  arrow: string;
+  indent: string;                      // Indent of the lines under a step
+}
+
+export const DEFAULT_TEXT_FLOW_STYLE: TextFlowStyle = { marker: '.', bold: true, bullet: '-', arrow: '→', indent: '   ' };
+
+const MAX_LABEL_LENGTH = 40;
+const MAX_BRANCH_LABEL_LENGTH = 30;
+
+const NUMBER_MARKER = /^(\d+)(?:\uFE0F?\u20E3|[.):-])\s*/;
+const LETTER_MARKER = /^(?:[a-zA-Z]|[ivxIVX]+)[.)-]\s+/;
+const BULLET_MARKER = /^(?:-(?!>)|[*•▸▹▶]|[├└]─*)\s*/;   // "->" is an arrow, not a bullet
+const LEADING_SYMBOLS = /^[\p{Extended_Pictographic}\uFE0F\s]+/u;
+const TRAILING_SYMBOLS = /[\p{Extended_Pictographic}\uFE0F\s]+$/u;
+const NEGATIVE_SYMBOL = /^\s*[❌✗]/;
+const ARROW = /\s*(?:→|->|=>|➡\uFE0F?|➜|⇒|⟶)\s*/;
+const LEADING_ARROW = /^(?:→|->|=>|➡\uFE0F?|➜|⇒|⟶)\s*(.*)$/;
+const CONDITION_START = /^(?:si\b|sí\b|no\b|if\b|else\b|otherwise\b|en caso de\b|cuando\b|caso\b)/i;
+const NEGATIVE_CONDITION = /^(?:no\b|si no\b|sino\b|else\b|otherwise\b|cuando no\b|en caso de que no\b)/i;
+const INLINE_CONDITION = /^(?:si|sí|en caso de(?: que)?|cuando)\s+(.+?)[,:]\s*(.+)$/i;
+const FLOW_NAME = /\b([A-Za-z0-9]+(?:[_-][A-Za-z0-9]+)*[_-](?:FLOW|FLUJO)|(?:FLOW|FLUJO)[_-][A-Za-z0-9_-]+)\b/i;
+const FLOW_VERB = /\b(?:ir a|ir al|pasar a|pasar al|mover a|move to|go to|continuar con|continuar en|redirigir a|transferir a|switch to)\b/i;
+const STEP_REFERENCE = /\b(?:paso|step)\s*(\d+)\b/i;
+const CONTINUE_WORDS = /^(?:continuar|seguir|siguiente|avanzar|continue|next)\b/i;
+const EXIT_WORDS = /\b(?:descart|nurtur|despedi|finaliz|terminar|cerrar la conversaci|no seguir)/i;
+const CLOSING_STEP = /\b(?:despedi(?:da|rse)|finalizar (?:la )?conversaci|terminar (?:la )?conversaci)/i;
+
+const WAIT_PATTERN = /\b(?:esperar?|aguardar)\b.*?(\d+)\s*(min(?:uto)?s?|horas?|hs|d[ií]as?)\b/i;
+const HANDOFF_PATTERN = /\b(?:derivar|transferir|pasar)\b.*?\b(closer|setter|soporte|support|humano|persona)\b/i;
+const RESOURCE_PATTERN = /\b(?:enviar|mandar|compartir)\b.*?\b(vsl|pdf|link|calendario|calendly|video)\b/i;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 3).trimEnd()}...` : text;
+}
+
+function normalizeLabel(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(LEADING_SYMBOLS, '')
+    .replace(TRAILING_SYMBOLS, '')
+    .replace(/\*\*/g, '')
+    .trim();
+}
+
+function readLine(raw: string): TextLine | null {
+  if (raw.trim() === '') return null;
+
+  const indent = raw.match(/^\s*/)![0].replace(/\t/g, '  ').length;
+  let text = raw.trim();
+  const negative = NEGATIVE_SYMBOL.test(text);
+
+  const numbered = text.match(NUMBER_MARKER);
+  if (numbered) {
+    return { indent, marker: 'number', number: Number(numbered[1]), text: text.substring(numbered[0].length), negative };
+  }
+  const lettered = text.match(LETTER_MARKER);
+  if (lettered) {
+    return { indent, marker: 'letter', text: text.substring(lettered[0].length), negative };
+  }
+  const bullet = text.match(BULLET_MARKER);
+  if (bullet) {
+    text = text.substring(bullet[0].length);
+    return { indent, marker: 'bullet', text, negative: negative || NEGATIVE_SYMBOL.test(text) };
+  }
+  return { indent, marker: 'plain', text, negative };
+}
+
+/**
+ * Lines that open a step: numbered or lettered ones if there are at least two,
+ * otherwise the least indented lines (plain ones win over bullets at that level)
+ */
+function pickStepLines(lines: TextLine[]): Set<TextLine> {
+  for (const marker of ['number', 'letter'] as const) {
+    const marked = lines.filter((l) => l.marker === marker);
+    if (marked.length >= 2) {
+      const indent = Math.min(...marked.map((l) => l.indent));
+      return new Set(marked.filter((l) => l.indent === indent));
+    }
+  }
+
+  const indent = Math.min(...lines.map((l) => l.indent));
+  const top = lines.filter((l) => l.indent === indent);
+  const plain = top.filter((l) => l.marker === 'plain');
+  return new Set(plain.length >= 2 && plain.length < top.length ? plain : top);
+}
+
+function findFlowName(text: string): string | null {
+  const match = text.match(FLOW_NAME);
+  return match ? match[1] : null;
+}
+
+function resolveTarget(text: string): StepTarget {
+  const clean = cleanText(text);
+  const step = clean.match(STEP_REFERENCE);
+  if (step) return { kind: 'step', number: Number(step[1]) };
+
+  const flowName = findFlowName(clean);
+  if (flowName) return { kind: 'flow', name: flowName };
+
+  if (CONTINUE_WORDS.test(clean) || clean === '') return { kind: 'next' };
+  if (EXIT_WORDS.test(clean)) return { kind: 'end', label: truncate(clean, MAX_LABEL_LENGTH) };
+  return { kind: 'action', label: truncate(clean, MAX_LABEL_LENGTH) };
+}
+
+/**
+ * A sub-item that opens a branch: "Si califica → Paso 3", "❌ No match → Descartar", "Si no tiene, educar"
+ */
+function readBranch(line: TextLine): Branch | null {
+  const text = cleanText(line.text);
+  const arrow = text.match(ARROW);
+
+  if (arrow && arrow.index !== undefined && arrow.index > 0) {
+    const condition = text.substring(0, arrow.index).trim();
+    return {
+      condition,
+      target: resolveTarget(text.substring(arrow.index + arrow[0].length)),
+      negative: line.negative || NEGATIVE_CONDITION.test(condition),
+    };
+  }
+
+  const inline = text.match(INLINE_CONDITION);
+  if (inline && CONDITION_START.test(text)) {
+    const condition = text.substring(0, text.length - inline[2].length).replace(/[,:]\s*$/, '').trim();
+    return {
+      condition,
+      target: resolveTarget(inline[2]),
+      negative: line.negative || NEGATIVE_CONDITION.test(condition),
+    };
+  }
+
+  return null;
+}
+
+function readStep(line: TextLine, number: number): ParsedStep {
+  let text = cleanText(line.text);
+  let label = text;
+  let description = '';
+
+  // "**Calificacion**: Preguntar presupuesto" / "Calificacion: Preguntar presupuesto"
+  const bold = line.text.replace(LEADING_SYMBOLS, '').match(/^\*\*([^*]+)\*\*\s*[:\-–]?\s*(.*)$/);
+  const colon = text.match(/^([^:]{1,40}):\s+(.+)$/);
+  if (bold) {
+    label = cleanText(bold[1]);
+    description = cleanText(bold[2]);
+  } else if (colon) {
+    label = colon[1].trim();
+    description = colon[2].trim();
+  }
+
+  // "**Paso 1**: Calificacion inicial" names the step by its text
+  if (/^(?:paso|fase|step|etapa)\s*\d+$/i.test(label) && description) {
+    label = description;
+    description = '';
+  }
+
+  // "Inicio → Calificacion del lead": the step leads to what follows the arrow
+  const arrow = label.match(ARROW);
+  if (arrow && arrow.index !== undefined && arrow.index > 0 && !findFlowName(label)) {
+    description = [label.substring(arrow.index + arrow[0].length), description].filter(Boolean).join('. ');
+    label = label.substring(0, arrow.index);
+  }
+
+  text = [label, description].join(' ');
+  const flowRef = FLOW_VERB.test(text) || ARROW.test(line.text) ? findFlowName(text) : null;
+
+  if (label.length > MAX_LABEL_LENGTH) {
+    description = description ? `${label}. ${description}` : label;
+    label = truncate(label, MAX_LABEL_LENGTH);
+  }
+
+  return { number, label, description, details: [], branches: [], flowRef: flowRef || undefined };
+}
+
+/**
+ * Group lines into steps; sub-items become branches, jumps or details of their step
+ */
+function readSteps(text: string): ParsedStep[] {
+  const lines = text
+    .split('\n')
+    .filter((raw) => !/^\s*#{1,6}\s/.test(raw) && !/^\s*```/.test(raw))
+    .map(readLine)
+    .filter((l): l is TextLine => l !== null);
+  if (lines.length === 0) return [];
+
+  const stepLines = pickStepLines(lines);
+  const steps: ParsedStep[] = [];
+
+  for (const line of lines) {
+    if (stepLines.has(line)) {
+      steps.push(readStep(line, line.number ?? steps.length + 1));
+      continue;
+    }
+
+    // Text before the first step (goal, intro) is not a step
+    const step = steps[steps.length - 1];
+    if (!step) continue;
+
+    const branch = readBranch(line);
+    if (branch) {
+      step.branches.push(branch);
+      continue;
+    }
+
+    // "→ Paso 4" continues at another step, "→ Fin" ends the flow here
+    const jump = line.text.match(LEADING_ARROW);
+    const jumpTarget = jump ? cleanText(jump[1]) : '';
+    if (jump && /^fin$/i.test(jumpTarget)) {
+      step.ends = true;
+      continue;
+    }
+    if (jump && STEP_REFERENCE.test(jumpTarget) && !findFlowName(jumpTarget)) {
+      step.next = resolveTarget(jumpTarget);
+      continue;
+    }
+
+    const clean = cleanText(line.text);
+    const flowName = FLOW_VERB.test(clean) || ARROW.test(line.text) ? findFlowName(clean) : null;
+    if (flowName) {
+      step.next = { kind: 'flow', name: flowName };
+    } else if (clean) {
+      step.details.push(clean);
+    }
+  }
+
+  return steps;
+}
+
+function inferStepNode(step: ParsedStep): Pick<FlowNode, 'type' | 'data'> {
+  const text = `${step.label} ${step.description}`;
+  const data: NonNullable<FlowNode['data']> = {};
+  if (step.description) data.description = step.description;
+  if (step.details.length > 0) data.instructions = step.details.join('\n');
+
+  if (step.branches.length >= 3) {
+    data.outputs = createSwitchOutputs(step.branches.map((b) => truncate(b.condition, MAX_BRANCH_LABEL_LENGTH)));
+    return { type: 'switch', data };
+  }
+  if (step.branches.length > 0) return { type: 'decision', data };
+  if (step.ends || CLOSING_STEP.test(text)) return { type: 'end', data };
+
+  const wait = text.match(WAIT_PATTERN);
+  if (wait) {
+    const unit: DelayUnit = /^min/i.test(wait[2]) ? 'minutes' : /^d/i.test(wait[2]) ? 'days' : 'hours';
+    return { type: 'wait', data: { ...data, delay: { amount: Number(wait[1]), unit } } };
+  }
+
+  const handoff = text.match(HANDOFF_PATTERN);
+  if (handoff) {
+    const targets: Record<string, HandoffTarget> = {
+      closer: 'closer', setter: 'setter', soporte: 'support', support: 'support', humano: 'human', persona: 'human',
+    };
+    const channel: HandoffChannel | undefined = /whatsapp/i.test(text) ? 'whatsapp'
+      : /llamada|call/i.test(text) ? 'call'
+      : /email|mail/i.test(text) ? 'email'
+      : undefined;
+    return { type: 'handoff', data: { ...data, handoff: { target: targets[handoff[1].toLowerCase()], channel } } };
+  }
+
+  const resource = text.match(RESOURCE_PATTERN);
+  if (resource) {
+    const kinds: Record<string, ResourceKind> = {
+      vsl: 'vsl', pdf: 'pdf', link: 'link', calendario: 'calendar', calendly: 'calendar', video: 'video',
+    };
+    const url = text.match(/https?:\/\/\S+/);
+    return { type: 'resource', data: { ...data, resource: { kind: kinds[resource[1].toLowerCase()], url: url?.[0] } } };
+  }
+
+  return { type: 'action', data };
+}
+
+/**
+ * Layout of a hand-written numbered flow; what it doesn't show falls back to the default
+ */
+export function detectTextFlowStyle(text: string): TextFlowStyle {
+  const lines = text.split('\n');
+  const stepLines = lines.filter((l) => /^\s*\d+(?:\uFE0F?\u20E3|[.):-])\s*\S/.test(l));
+  const marker = stepLines[0]?.match(/^\s*\d+(\uFE0F?\u20E3|[.):-])/)?.[1];
+  const bullet = lines.map((l) => l.match(/^(\s+)([-*•])\s/)).find(Boolean);
+  const indent = bullet?.[1] ?? lines.map((l) => l.match(/^(\s+)\S/)).find(Boolean)?.[1];
+  const arrow = ['→', '->', '=>', '➡️', '➜', '⇒'].find((a) => text.includes(a));
+
+  return {
+    marker: marker ?? DEFAULT_TEXT_FLOW_STYLE.marker,
+    bold: stepLines.length > 0
+      ? stepLines.some((l) => /^\s*\d+\S*\s*\*\*/.test(l))
+      : DEFAULT_TEXT_FLOW_STYLE.bold,
+    bullet: bullet?.[2] ?? DEFAULT_TEXT_FLOW_STYLE.bullet,
+    arrow: arrow ?? DEFAULT_TEXT_FLOW_STYLE.arrow,
+    indent: indent?.replace(/\t/g, '  ') ?? DEFAULT_TEXT_FLOW_STYLE.indent,
+  };
+}
+
+/**
+ * Parse a text flow section into FlowData, or null when it has no steps
+ */
+export function parseTextFlow(text: string, flowName: string, options: TextFlowParseOptions = {}): FlowData | null {
+  const steps = readSteps(text);
+  if (steps.length === 0) return null;
+
+  let counter = 0;
+  const nextId = () => `txt-${String(++counter).padStart(4, '0')}`;
+
+  const nodes: FlowNode[] = [];
+  const edges: FlowEdge[] = [];
+  const addNode = (type: FlowNodeType, label: string, data?: FlowNode['data']): string => {
+    const id = nextId();
+    nodes.push({ id, type, label, position: { x: 0, y: 0 }, ...(data && Object.keys(data).length > 0 ? { data } : {}) });
+    return id;
+  };
+  const connect = (source: string, target: string, extra: Partial<FlowEdge> = {}) => {
+    edges.push({ id: `e-${source}-${target}-${edges.length}`, source, target, ...extra });
+  };
+
+  const flowEnds = new Map<string, string>();
+  const crossFlowEnd = (name: string): string => {
+    const key = name.toUpperCase();
+    if (!flowEnds.has(key)) {
+      const target = options.availableFlows?.find((f) => f.name.toUpperCase() === key);
+      flowEnds.set(key, addNode('end', `→ ${name}`, target ? { crossFlowRef: target.id } : undefined));
+    }
+    return flowEnds.get(key)!;
+  };
+
+  let finalEnd: string | null = null;
+  const endOfFlow = () => (finalEnd ??= addNode('end', 'Fin'));
+
+  const startId = addNode('start', flowName);
+  const stepIds = steps.map((step) => {
+    if (step.flowRef) return crossFlowEnd(step.flowRef);
+    const { type, data } = inferStepNode(step);
+    return addNode(type, step.label, data);
+  });
+  const stepByNumber = new Map(steps.map((step, i) => [step.number, stepIds[i]]));
+  const stepByLabel = new Map(steps.map((step, i) => [normalizeLabel(step.label), stepIds[i]]));
+
+  const nextOf = (i: number) => stepIds[i + 1] ?? endOfFlow();
+  const resolve = (target: StepTarget, i: number): string => {
+    switch (target.kind) {
+      case 'step': return stepByNumber.get(target.number) ?? nextOf(i);
+      case 'next': return nextOf(i);
+      case 'flow': return crossFlowEnd(target.name);
+      case 'end': return addNode('end', target.label);
+      case 'action': {
+        // "Califica → Presentacion" points at the step with that name
+        const stepId = stepByLabel.get(normalizeLabel(target.label));
+        if (stepId) return stepId;
+        const actionId = addNode('action', target.label);
+        connect(actionId, nextOf(i));
+        return actionId;
+      }
+    }
+  };
+
+  connect(startId, stepIds[0]);
+
+  steps.forEach((step, i) => {
+    const id = stepIds[i];
+    const node = nodes.find((n) => n.id === id)!;
+    if (node.type === 'end') return;
+
+    if (node.type === 'switch') {
+      const outputs = node.data!.outputs!;
+      step.branches.forEach((branch, b) => {
+        connect(id, resolve(branch.target, i), { label: outputs[b].label, sourceHandle: outputs[b].id });
+      });
+      return;
+    }
+
+    if (node.type === 'decision') {
+      // One branch per handle: the negative condition is "no", the other "yes"
+      const negative = step.branches.find((b) => b.negative);
+      const yes = step.branches.find((b) => b !== negative) ?? null;
+      const no = negative ?? step.branches.find((b) => b !== yes) ?? null;
+      const label = (branch: Branch | null, fallback: string) =>
+        branch ? truncate(branch.condition, MAX_BRANCH_LABEL_LENGTH) : fallback;
+
+      connect(id, yes ? resolve(yes.target, i) : nextOf(i), { label: label(yes, 'Si'), sourceHandle: 'yes' });
+      connect(id, no ? resolve(no.target, i) : nextOf(i), { label: label(no, 'No'), sourceHandle: 'no' });
+      return;
+    }
+
+    connect(id, step.next ? resolve(step.next, i) : nextOf(i));
+  });
+
+  const positioned = autoLayoutFlow(nodes, edges);
+  return { nodes: positioned, edges };
+}
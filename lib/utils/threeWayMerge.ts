@@ -0,0 +1,196 @@
+/**
+ * Three-Way Merge - Merges two concurrent edits of a prompt at the section level.
+ *
+ * The prompt is cut into top-level semantic sections (plus the text before the
+ * first one). Sections are keyed by title; for each key the usual three-way rule
+ * applies: if only one side changed it, take that side; if both made the same
+ * change, take it; otherwise it is a conflict for the user to resolve.
+ */
+
+import { normalizeTitle, PREAMBLE_BLOCK_ID, splitPromptBlocks } from '@/lib/utils/promptBlocks';
+import type {
+  ConflictChoice,
+  MergeConflictBlock,
+  MergedBlock,
+  PromptMergeResult,
+} from '@/types/merge';
+
+export interface PromptBlock {
+  key: string;
+  title: string;
+  content: string;
+}
+
+const PREAMBLE_KEY = '__preamble__';
+
+function sameContent(a: string | null, b: string | null): boolean {
+  if (a === null || b === null) return a === b;
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The prompt's blocks (see splitPromptBlocks), keyed by normalized title.
+ */
+export function keyPromptBlocks(text: string): PromptBlock[] {
+  const seen = new Map<string, number>();
+
+  return splitPromptBlocks(text).map((block) => {
+    if (block.id === PREAMBLE_BLOCK_ID) {
+      return { key: PREAMBLE_KEY, title: block.title, content: block.content };
+    }
+    // Repeated titles get an occurrence suffix so they still line up in order
+    const baseKey = normalizeTitle(block.title) || 'seccion';
+    const occurrence = (seen.get(baseKey) || 0) + 1;
+    seen.set(baseKey, occurrence);
+
+    return {
+      key: occurrence > 1 ? `${baseKey}#${occurrence}` : baseKey,
+      title: block.title,
+      content: block.content,
+    };
+  });
+}
+
+/**
+ * Output order: our order, with sections only present on their side inserted
+ * right after the section that precedes them on their side.
+ */
+function mergeOrder(ours: PromptBlock[], theirs: PromptBlock[], base: PromptBlock[]): string[] {
+  const order = ours.map((b) => b.key);
+
+  const insertFrom = (blocks: PromptBlock[]) => {
+    blocks.forEach((block, i) => {
+      if (order.includes(block.key)) return;
+      let insertAt = 0;
+      for (let k = i - 1; k >= 0; k--) {
+        const at = order.indexOf(blocks[k].key);
+        if (at !== -1) {
+          insertAt = at + 1;
+          break;
+        }
+      }
+      order.splice(insertAt, 0, block.key);
+    });
+  };
+
+  insertFrom(theirs);
+  // Sections we deleted but they edited still need a position for the conflict
+  insertFrom(base);
+  return order;
+}
+
+export function mergePromptSections(base: string, ours: string, theirs: string): PromptMergeResult {
+  const baseBlocks = keyPromptBlocks(base);
+  const ourBlocks = keyPromptBlocks(ours);
+  const theirBlocks = keyPromptBlocks(theirs);
+
+  const byKey = (blocks: PromptBlock[]) => new Map(blocks.map((b) => [b.key, b]));
+  const baseMap = byKey(baseBlocks);
+  const ourMap = byKey(ourBlocks);
+  const theirMap = byKey(theirBlocks);
+
+  const blocks: MergedBlock[] = [];
+  const conflicts: MergeConflictBlock[] = [];
+
+  for (const key of mergeOrder(ourBlocks, theirBlocks, baseBlocks)) {
+    const b = baseMap.get(key)?.content ?? null;
+    const o = ourMap.get(key)?.content ?? null;
+    const t = theirMap.get(key)?.content ?? null;
+    const title = (ourMap.get(key) || theirMap.get(key) || baseMap.get(key))!.title;
+
+    if (sameContent(o, t) || sameContent(t, b)) {
+      blocks.push({ key, title, content: o, conflict: false });
+    } else if (sameContent(o, b)) {
+      blocks.push({ key, title, content: t, conflict: false });
+    } else {
+      conflicts.push({ key, title, base: b, ours: o, theirs: t });
+      blocks.push({ key, title, content: null, conflict: true });
+    }
+  }
+
+  return { blocks, conflicts };
+}
+
+/**
+ * Text for a conflict given the user's choice
+ */
+export function conflictText(conflict: MergeConflictBlock, choice: ConflictChoice): string | null {
+  if (choice === 'ours') return conflict.ours;
+  if (choice === 'theirs') return conflict.theirs;
+  if (conflict.ours === null || conflict.theirs === null) return conflict.ours ?? conflict.theirs;
+  // Keep their trailing spacing so the next section stays separated
+  return `${conflict.ours.replace(/\s+$/, '')}\n\n${conflict.theirs}`;
+}
+
+/**
+ * Build the merged prompt. `resolved` maps conflict keys to their final text
+ * (null = drop the section); returns null while any conflict is unresolved.
+ */
+export function buildMergedPrompt(
+  result: PromptMergeResult,
+  resolved: Record<string, string | null> = {}
+): string | null {
+  const pieces: string[] = [];
+
+  for (const block of result.blocks) {
+    let content = block.content;
+    if (block.conflict) {
+      if (!(block.key in resolved)) return null;
+      content = resolved[block.key];
+    }
+    if (content === null || content === '') continue;
+    // Blocks that used to be last may lack the line break before the next one
+    const previous = pieces[pieces.length - 1];
+    if (previous !== undefined && !previous.endsWith('\n')) {
+      pieces[pieces.length - 1] = `${previous}\n`;
+    }
+    pieces.push(content);
+  }
+
+  return pieces.join('');
+}
+
+/**
+ * Top-level sections that differ between two prompts (added, removed or edited)
+ */
+export function changedBlocks(before: string, after: string): { key: string; title: string }[] {
+  const beforeMap = new Map(keyPromptBlocks(before).map((b) => [b.key, b]));
+  const afterBlocks = keyPromptBlocks(after);
+  const afterKeys = new Set(afterBlocks.map((b) => b.key));
+
+  return [
+    ...afterBlocks.filter((b) => !sameContent(beforeMap.get(b.key)?.content ?? null, b.content)),
+    ...Array.from(beforeMap.values()).filter((b) => !afterKeys.has(b.key)),
+  ].map(({ key, title }) => ({ key, title }));
+}
+
+/**
+ * Bring only some sections of `theirs` into `ours` (cherry-pick). Picked sections
+ * take their side as is, including deletions; everything else stays ours.
+ */
+export function pickSections(ours: string, theirs: string, keys: string[]): string {
+  const picked = new Set(keys);
+  const ourBlocks = keyPromptBlocks(ours);
+  const theirBlocks = keyPromptBlocks(theirs);
+  const ourMap = new Map(ourBlocks.map((b) => [b.key, b]));
+  const theirMap = new Map(theirBlocks.map((b) => [b.key, b]));
+
+  const order = mergeOrder(
+    ourBlocks,
+    theirBlocks.filter((b) => picked.has(b.key) || ourMap.has(b.key)),
+    []
+  );
+
+  const blocks: MergedBlock[] = order.map((key) => {
+    const source = picked.has(key) ? theirMap : ourMap;
+    const fallback = ourMap.get(key) || theirMap.get(key);
+    return {
+      key,
+      title: fallback?.title || key,
+      content: source.get(key)?.content ?? null,
+      conflict: false,
+    };
+  });
+
+  return buildMergedPrompt({ blocks, conflicts: [] }) ?? ours;
+}
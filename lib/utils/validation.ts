@@ -33,6 +33,7 @@ export const FeedbackItemSchema = z.discriminatedUnion('type', [
 export const AnalyzeRequestSchema = z.object({
   prompt: z.string().min(10, 'Prompt must be at least 10 characters'),
   feedback: z.array(FeedbackItemSchema),
+  sharedContext: z.string().optional(),
 });
 
 export type AnalyzeRequest = z.infer<typeof AnalyzeRequestSchema>;
@@ -105,6 +106,33 @@ export const AnalysisResultSchema = z.object({
   topPriorities: z.array(z.string()),
 });
 
+// Optimize request: locally detected phrases are sent so the model skips them
+export const OptimizeRequestSchema = z.object({
+  prompt: z.string().min(10, 'Prompt must be at least 10 characters'),
+  knownRedundancies: z.array(z.string()).default([]),
+  sharedContext: z.string().optional(),
+});
+
+// Compression Suggestion Schema
+export const CompressionSuggestionSchema = z.object({
+  id: z.string(),
+  originalText: z.string().min(1),
+  compressedText: z.string(),
+  tokenSavings: z.number(),
+  clarityImpact: z.enum(['none', 'minimal', 'moderate', 'significant']),
+  category: z.enum(['verbose', 'redundant', 'filler', 'restructure']),
+  startIndex: z.number(),
+  endIndex: z.number(),
+});
+
+// Full Optimization Result Schema
+export const OptimizationResultSchema = z.object({
+  suggestions: z.array(CompressionSuggestionSchema),
+  totalPotentialSavings: z.number(),
+  originalTokenCount: z.number(),
+  optimizedTokenCount: z.number(),
+});
+
 /**
  * Validates image file type
  */
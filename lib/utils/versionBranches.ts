@@ -0,0 +1,204 @@
+/**
+ * Version Branches - Named branches over the `parentVersionId` tree.
+ *
+ * A version belongs to the branch in its `branch` field (none = main). A branch
+ * forks from the parent of its first version; new versions on a branch always
+ * point at that branch's head.
+ */
+
+import { changedBlocks, pickSections } from '@/lib/utils/threeWayMerge';
+import type { PromptVersion, VersionChange } from '@/types/prompt';
+
+export const MAIN_BRANCH = 'main';
+
+export interface BranchInfo {
+  name: string;
+  head: PromptVersion;
+  versionCount: number;
+  forkedFrom?: PromptVersion;   // Version on another branch this one started from
+  updatedAt: number;
+}
+
+export interface VersionGraphLine {
+  lane: number;
+  up: boolean;                  // Segment from the dot to the top of the row
+  down: boolean;                // Segment from the dot to the bottom of the row
+}
+
+export interface VersionGraphRow {
+  version: PromptVersion;
+  lane: number;
+  lines: VersionGraphLine[];
+  forksIn: number[];            // Lanes that branch off from this row's version
+}
+
+export interface VersionGraph {
+  rows: VersionGraphRow[];      // Newest first
+  laneCount: number;
+  branchLanes: Record<string, number>;
+}
+
+export interface CherryPickCandidate {
+  id: string;
+  version: PromptVersion;
+  change: VersionChange;
+  sectionKeys: string[];
+  sectionTitles: string[];
+}
+
+export function getBranchName(version: PromptVersion): string {
+  return version.branch || MAIN_BRANCH;
+}
+
+export function getBranchVersions(versions: PromptVersion[], branch: string): PromptVersion[] {
+  return versions
+    .filter((v) => getBranchName(v) === branch)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function getBranchHead(versions: PromptVersion[], branch: string): PromptVersion | undefined {
+  const branchVersions = getBranchVersions(versions, branch);
+  return branchVersions[branchVersions.length - 1];
+}
+
+/**
+ * Branches with their head, main first and then by last activity
+ */
+export function listBranches(versions: PromptVersion[]): BranchInfo[] {
+  const names = Array.from(new Set(versions.map(getBranchName)));
+
+  return names
+    .map((name) => {
+      const branchVersions = getBranchVersions(versions, name);
+      const head = branchVersions[branchVersions.length - 1];
+      const first = branchVersions[0];
+      const parent = versions.find((v) => v.id === first.parentVersionId);
+      return {
+        name,
+        head,
+        versionCount: branchVersions.length,
+        forkedFrom: parent && getBranchName(parent) !== name ? parent : undefined,
+        updatedAt: head.timestamp,
+      };
+    })
+    .sort((a, b) => {
+      if (a.name === MAIN_BRANCH) return -1;
+      if (b.name === MAIN_BRANCH) return 1;
+      return b.updatedAt - a.updatedAt;
+    });
+}
+
+/**
+ * Normalize a branch name typed by the user; returns null if it's unusable
+ */
+export function normalizeBranchName(name: string, versions: PromptVersion[]): string | null {
+  const cleaned = name.trim().replace(/\s+/g, ' ');
+  if (!cleaned || cleaned.toLowerCase() === MAIN_BRANCH) return null;
+  if (versions.some((v) => getBranchName(v).toLowerCase() === cleaned.toLowerCase())) return null;
+  return cleaned;
+}
+
+/**
+ * Lay the versions out as a lane graph (one lane per branch, main on the left).
+ * A branch lane runs from its head down to the row of the version it forked from,
+ * where it curves into that version's lane.
+ */
+export function layoutVersionGraph(versions: PromptVersion[]): VersionGraph {
+  const rows = [...versions].sort((a, b) => b.timestamp - a.timestamp);
+  const rowIndex = new Map(rows.map((v, i) => [v.id, i]));
+
+  // Lanes in order of branch creation so older branches stay on the left
+  const branchStart = new Map<string, number>();
+  for (const version of rows) {
+    const name = getBranchName(version);
+    branchStart.set(name, Math.min(branchStart.get(name) ?? Infinity, version.timestamp));
+  }
+  const laneNames = Array.from(branchStart.keys()).sort((a, b) => {
+    if (a === MAIN_BRANCH) return -1;
+    if (b === MAIN_BRANCH) return 1;
+    return branchStart.get(a)! - branchStart.get(b)!;
+  });
+  const branchLanes = Object.fromEntries(laneNames.map((name, i) => [name, i]));
+
+  const spans = laneNames.map((name) => {
+    const own = rows
+      .map((v, i) => (getBranchName(v) === name ? i : -1))
+      .filter((i) => i !== -1);
+    const top = own[0];
+    const bottom = own[own.length - 1];
+    const forkRow = rowIndex.get(rows[bottom].parentVersionId || '');
+    const forksFromOther = forkRow !== undefined && forkRow > bottom && getBranchName(rows[forkRow]) !== name;
+    return { top, bottom, forkRow: forksFromOther ? forkRow : undefined };
+  });
+
+  return {
+    laneCount: laneNames.length,
+    branchLanes,
+    rows: rows.map((version, r) => {
+      const lines: VersionGraphLine[] = [];
+      const forksIn: number[] = [];
+
+      spans.forEach(({ top, bottom, forkRow }, lane) => {
+        if (r >= top && r <= bottom) {
+          lines.push({ lane, up: r > top, down: r < bottom || forkRow !== undefined });
+        } else if (forkRow !== undefined && r > bottom && r < forkRow) {
+          lines.push({ lane, up: true, down: true });
+        } else if (r === forkRow) {
+          forksIn.push(lane);
+        }
+      });
+
+      return { version, lane: branchLanes[getBranchName(version)], lines, forksIn };
+    }),
+  };
+}
+
+/**
+ * VersionChanges recorded on a branch, each tied to the top-level sections its
+ * version changed. A change goes to the sections it names; if it names none and
+ * its version only touched one section, it goes to that one.
+ */
+export function getCherryPickCandidates(versions: PromptVersion[], branch: string): CherryPickCandidate[] {
+  const candidates: CherryPickCandidate[] = [];
+
+  for (const version of getBranchVersions(versions, branch)) {
+    const parent = versions.find((v) => v.id === version.parentVersionId);
+    if (!parent || !version.changes?.length) continue;
+
+    const changed = changedBlocks(parent.content, version.content);
+    version.changes.forEach((change, i) => {
+      if (change.type === 'suggestion_rejected') return;
+      const text = change.description.toLowerCase();
+      let sections = changed.filter((b) => text.includes(b.title.toLowerCase()));
+      if (sections.length === 0 && changed.length === 1) sections = changed;
+      if (sections.length === 0) return;
+
+      candidates.push({
+        id: `${version.id}:${i}`,
+        version,
+        change,
+        sectionKeys: sections.map((s) => s.key),
+        sectionTitles: sections.map((s) => s.title),
+      });
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Apply the picked changes on top of `target`, oldest version first.
+ * Each version contributes only the sections of its picked changes.
+ */
+export function applyCherryPicks(target: string, picks: CherryPickCandidate[]): string {
+  const byVersion = new Map<string, { version: PromptVersion; keys: Set<string> }>();
+  for (const pick of picks) {
+    const entry = byVersion.get(pick.version.id) || { version: pick.version, keys: new Set<string>() };
+    pick.sectionKeys.forEach((key) => entry.keys.add(key));
+    byVersion.set(pick.version.id, entry);
+  }
+
+  return Array.from(byVersion.values())
+    .sort((a, b) => a.version.timestamp - b.version.timestamp)
+    .reduce((content, { version, keys }) => pickSections(content, version.content, Array.from(keys)), target);
+}
@@ -4,7 +4,16 @@ import type { PromptVersion, PromptAnnotation, ChatMessage } from '@/types/promp
 import type { FeedbackItem } from '@/types/feedback';
 import type { AnalysisResult, SuggestionState } from '@/types/analysis';
 import type { TokenUsage } from '@/types/tokens';
+import type { OptimizationResult, CompressionState, CompressionStatus } from '@/types/optimization';
 import { findTextInPrompt } from '@/lib/utils/textMatcher';
+import {
+  MAIN_BRANCH,
+  getBranchName,
+  getBranchHead,
+  getBranchVersions,
+  applyCherryPicks,
+  type CherryPickCandidate,
+} from '@/lib/utils/versionBranches';
 
 const MAX_UNDO_STACK = 20;
 
@@ -20,6 +29,7 @@ interface AnalysisStore {
   // State
   currentPrompt: string;
   promptHistory: PromptVersion[];
+  currentBranch: string;
   feedbackItems: FeedbackItem[];
   analysis: AnalysisResult | null;
   isAnalyzing: boolean;
@@ -27,6 +37,10 @@ interface AnalysisStore {
   suggestionStates: Record<string, SuggestionState>;
   tokenUsage: TokenUsage | null;
   error: string | null;
+  // Token compression (Optimize mode)
+  optimization: OptimizationResult | null;
+  isOptimizing: boolean;
+  compressionStates: Record<string, CompressionState>;
   undoStack: string[];
   redoStack: string[];
   // Workspace state
@@ -41,9 +55,15 @@ interface AnalysisStore {
 
   // Actions - Prompt
   setPrompt: (prompt: string) => void;
-  createVersion: (label?: string, changeType?: 'manual' | 'suggestion_applied' | 'auto_save', changeDetails?: { suggestionId?: string; category?: string; sectionTitle?: string }) => void;
+  createVersion: (label?: string, changeType?: 'manual' | 'suggestion_applied' | 'auto_save', changeDetails?: { suggestionId?: string; category?: string; sectionTitle?: string }) => string;
   restoreVersion: (versionId: string) => void;
 
+  // Actions - Branches
+  checkoutBranch: (branch: string) => void;
+  createBranch: (name: string, fromVersionId: string) => void;
+  promoteBranch: (branch: string) => void;
+  cherryPickToMain: (branch: string, picks: CherryPickCandidate[]) => void;
+
   // Actions - Feedback
   addFeedback: (feedback: FeedbackItem) => void;
   removeFeedback: (feedbackId: string) => void;
@@ -64,6 +84,13 @@ interface AnalysisStore {
   editSuggestion: (sectionId: string, editedRewrite: string) => void;
   applySuggestion: (sectionId: string, rewrite: string) => void;
 
+  // Actions - Optimization
+  startOptimization: (initial?: OptimizationResult) => void;
+  setOptimization: (optimization: OptimizationResult | null) => void;
+  setOptimizationError: (error: string) => void;
+  setCompressionStatus: (suggestionId: string, status: CompressionStatus) => void;
+  applyCompression: (suggestionId: string) => boolean;
+
   // Actions - Undo/Redo
   pushUndo: () => void;
   undo: () => void;
@@ -90,12 +117,12 @@ interface AnalysisStore {
   getChatMessages: () => ChatMessage[];
 
   // Actions - Agent Sync (for loading agent data)
-  loadAgentData: (data: { prompt: string; versions: PromptVersion[]; annotations: PromptAnnotation[]; chatMessages?: ChatMessage[] }) => void;
-  getAgentData: () => { prompt: string; versions: PromptVersion[]; annotations: PromptAnnotation[]; chatMessages: ChatMessage[] };
+  loadAgentData: (data: { prompt: string; versions: PromptVersion[]; annotations: PromptAnnotation[]; chatMessages?: ChatMessage[]; currentBranch?: string }) => void;
+  getAgentData: () => { prompt: string; versions: PromptVersion[]; annotations: PromptAnnotation[]; chatMessages: ChatMessage[]; currentBranch: string };
   clearAgentData: () => void;
   // Legacy aliases
   loadProjectData: (data: { prompt: string; versions: PromptVersion[]; annotations: PromptAnnotation[]; chatMessages?: ChatMessage[] }) => void;
-  getProjectData: () => { prompt: string; versions: PromptVersion[]; annotations: PromptAnnotation[]; chatMessages: ChatMessage[] };
+  getProjectData: () => { prompt: string; versions: PromptVersion[]; annotations: PromptAnnotation[]; chatMessages: ChatMessage[]; currentBranch: string };
   clearProjectData: () => void;
 
   // Actions - Reset
@@ -105,6 +132,7 @@ interface AnalysisStore {
 const initialState = {
   currentPrompt: '',
   promptHistory: [],
+  currentBranch: MAIN_BRANCH,
   feedbackItems: [],
   analysis: null,
   isAnalyzing: false,
@@ -112,6 +140,9 @@ const initialState = {
   suggestionStates: {},
   tokenUsage: null as TokenUsage | null,
   error: null,
+  optimization: null as OptimizationResult | null,
+  isOptimizing: false,
+  compressionStates: {} as Record<string, CompressionState>,
   undoStack: [] as string[],
   redoStack: [] as string[],
   // Workspace state
@@ -145,12 +176,14 @@ export const useAnalysisStore = create<AnalysisStore>()(
         changeType?: 'manual' | 'suggestion_applied' | 'auto_save',
         changeDetails?: { suggestionId?: string; category?: string; sectionTitle?: string }
       ) => {
-        const { currentPrompt, promptHistory, chatMessages } = get();
+        const { currentPrompt, promptHistory, chatMessages, currentBranch } = get();
         const version: PromptVersion = {
           id: crypto.randomUUID(),
           content: currentPrompt,
           timestamp: Date.now(),
           label: label || 'Versión sin nombre',
+          parentVersionId: getBranchHead(promptHistory, currentBranch)?.id,
+          branch: currentBranch === MAIN_BRANCH ? undefined : currentBranch,
           changeType: changeType || 'manual',
           changeDetails,
           // Include chat history with this version
@@ -161,16 +194,106 @@ export const useAnalysisStore = create<AnalysisStore>()(
           hasUnsavedChanges: false,
           lastSavedContent: currentPrompt,
         });
+        return version.id;
       },
 
       restoreVersion: (versionId: string) => {
         const { promptHistory } = get();
         const version = promptHistory.find((v) => v.id === versionId);
         if (version) {
-          set({ currentPrompt: version.content });
+          // Keep working on the branch the restored version belongs to
+          set({ currentPrompt: version.content, currentBranch: getBranchName(version) });
         }
       },
 
+      // Branch actions
+      checkoutBranch: (branch: string) => {
+        const head = getBranchHead(get().promptHistory, branch);
+        if (!head) return;
+        set({
+          currentBranch: branch,
+          currentPrompt: head.content,
+          lastSavedContent: head.content,
+          hasUnsavedChanges: false,
+          undoStack: [],
+          redoStack: [],
+        });
+      },
+
+      createBranch: (name: string, fromVersionId: string) => {
+        const { promptHistory } = get();
+        const from = promptHistory.find((v) => v.id === fromVersionId);
+        if (!from) return;
+
+        // The fork point is recorded as the first version of the new branch
+        const version: PromptVersion = {
+          id: crypto.randomUUID(),
+          content: from.content,
+          timestamp: Date.now(),
+          label: `Rama "${name}" desde ${from.label}`,
+          parentVersionId: from.id,
+          branch: name,
+          changeType: 'manual',
+        };
+        set({
+          promptHistory: [...promptHistory, version],
+          currentBranch: name,
+          currentPrompt: from.content,
+          lastSavedContent: from.content,
+          hasUnsavedChanges: false,
+        });
+      },
+
+      promoteBranch: (branch: string) => {
+        const { promptHistory } = get();
+        const head = getBranchHead(promptHistory, branch);
+        if (!head || branch === MAIN_BRANCH) return;
+
+        const version: PromptVersion = {
+          id: crypto.randomUUID(),
+          content: head.content,
+          timestamp: Date.now(),
+          label: `Promovida desde "${branch}"`,
+          parentVersionId: getBranchHead(promptHistory, MAIN_BRANCH)?.id,
+          originVersionId: head.id,
+          changes: getBranchVersions(promptHistory, branch).flatMap((v) => v.changes || []),
+          changeType: 'manual',
+        };
+        set({
+          promptHistory: [...promptHistory, version],
+          currentBranch: MAIN_BRANCH,
+          currentPrompt: head.content,
+          lastSavedContent: head.content,
+          hasUnsavedChanges: false,
+        });
+      },
+
+      cherryPickToMain: (branch: string, picks: CherryPickCandidate[]) => {
+        const { promptHistory } = get();
+        const mainHead = getBranchHead(promptHistory, MAIN_BRANCH);
+        if (!mainHead || picks.length === 0) return;
+
+        const content = applyCherryPicks(mainHead.content, picks);
+        const latestPick = picks.reduce((latest, p) => (p.version.timestamp > latest.version.timestamp ? p : latest));
+        const version: PromptVersion = {
+          id: crypto.randomUUID(),
+          content,
+          timestamp: Date.now(),
+          label: `Cherry-pick desde "${branch}" (${picks.length} ${picks.length === 1 ? 'cambio' : 'cambios'})`,
+          parentVersionId: mainHead.id,
+          originVersionId: latestPick.version.id,
+          changes: picks.map((p) => p.change),
+          changeType: 'manual',
+        };
+        set({
+          promptHistory: [...promptHistory, version],
+          currentBranch: MAIN_BRANCH,
+          currentPrompt: content,
+          lastSavedContent: content,
+          hasUnsavedChanges: false,
+        });
+      },
+
       // Feedback actions
       addFeedback: (feedback: FeedbackItem) => {
         const { feedbackItems } = get();
@@ -292,6 +415,55 @@ export const useAnalysisStore = create<AnalysisStore>()(
         }
       },
 
+      // Optimization actions
+      startOptimization: (initial?: OptimizationResult) => {
+        set({ isOptimizing: true, error: null, optimization: initial ?? null, compressionStates: {} });
+      },
+
+      setOptimization: (optimization: OptimizationResult | null) => {
+        set({ optimization, isOptimizing: false });
+      },
+
+      setOptimizationError: (error: string) => {
+        set({ error, isOptimizing: false });
+      },
+
+      setCompressionStatus: (suggestionId: string, status: CompressionStatus) => {
+        const { compressionStates } = get();
+        set({
+          compressionStates: {
+            ...compressionStates,
+            [suggestionId]: { suggestionId, status },
+          },
+        });
+      },
+
+      applyCompression: (suggestionId: string) => {
+        const { currentPrompt, optimization } = get();
+        const suggestion = optimization?.suggestions.find((s) => s.id === suggestionId);
+        if (!suggestion) return false;
+
+        // Earlier compressions shift indices, so locate the text again
+        const match = findTextInPrompt(currentPrompt, suggestion.originalText, {
+          enableFuzzy: false,
+        });
+        if (!match.found) {
+          console.warn('Could not find compression target in prompt:', suggestion.originalText.substring(0, 50));
+          return false;
+        }
+
+        get().pushUndo();
+
+        const newPrompt =
+          currentPrompt.substring(0, match.startIndex) +
+          suggestion.compressedText +
+          currentPrompt.substring(match.endIndex);
+
+        set({ currentPrompt: newPrompt, redoStack: [], hasUnsavedChanges: true });
+        get().setCompressionStatus(suggestionId, 'applied');
+        return true;
+      },
+
       // Undo/Redo actions
       pushUndo: () => {
         const { currentPrompt, undoStack } = get();
@@ -441,6 +613,7 @@ export const useAnalysisStore = create<AnalysisStore>()(
         set({
           currentPrompt: data.prompt,
           promptHistory: data.versions,
+          currentBranch: data.currentBranch || MAIN_BRANCH,
           annotations: data.annotations,
           chatMessages: data.chatMessages || [],
           lastSavedContent: data.prompt,
@@ -448,6 +621,8 @@ export const useAnalysisStore = create<AnalysisStore>()(
           // Clear analysis-related state when switching agents
           analysis: null,
           suggestionStates: {},
+          optimization: null,
+          compressionStates: {},
           selectedSectionId: null,
           undoStack: [],
           redoStack: [],
@@ -455,12 +630,13 @@ export const useAnalysisStore = create<AnalysisStore>()(
       },
 
       getAgentData: () => {
-        const { currentPrompt, promptHistory, annotations, chatMessages } = get();
+        const { currentPrompt, promptHistory, annotations, chatMessages, currentBranch } = get();
         return {
           prompt: currentPrompt,
           versions: promptHistory,
           annotations: annotations,
           chatMessages: chatMessages,
+          currentBranch,
         };
       },
 
@@ -468,12 +644,15 @@ export const useAnalysisStore = create<AnalysisStore>()(
         set({
           currentPrompt: '',
           promptHistory: [],
+          currentBranch: MAIN_BRANCH,
           annotations: [],
           chatMessages: [],
           lastSavedContent: '',
           hasUnsavedChanges: false,
           analysis: null,
           suggestionStates: {},
+          optimization: null,
+          compressionStates: {},
           selectedSectionId: null,
           undoStack: [],
           redoStack: [],
@@ -1,8 +1,10 @@
 import { create } from 'zustand';
-import type { FlowNode, FlowEdge, FlowData, FlowNodeType, FlowPosition, FlowSourceOrigin } from '@/types/flow';
+import type { FlowNode, FlowEdge, FlowData, FlowNodeType, FlowPosition, FlowSourceOrigin, FlowSyncConflict } from '@/types/flow';
 import { NODE_DIMENSIONS } from '@/types/flow';
 import type { FlowValidationWarning } from '@/lib/utils/flowValidator';
 import type { TextFlowDetection } from '@/lib/utils/textFlowDetector';
+import { DEFAULT_SWITCH_LABELS, createSwitchOutputs, syncSwitchEdges } from '@/lib/utils/flowSwitch';
+import { DEFAULT_DELAY, DEFAULT_HANDOFF, DEFAULT_RESOURCE } from '@/lib/utils/flowNodeDetails';
 
 const MAX_HISTORY = 30;
 
@@ -38,10 +40,16 @@ interface FlowStore {
   // Source origin (for roundtrip reinsertion)
   flowSourceOrigin: FlowSourceOrigin | null;
 
+  // Live sync with the prompt: set while canvas and prompt edits collide
+  flowSyncConflict: FlowSyncConflict | null;
+
   // Multi-flow state
   activeFlowId: string | null;
   availableFlows: { id: string; name: string }[];
 
+  // Test runner: nodes visited by the selected simulated conversation
+  highlightedNodeIds: string[] | null;
+
   // Actions - Data management
   setFlowData: (data: FlowData) => void;
   getFlowData: () => FlowData;
@@ -89,10 +97,14 @@ interface FlowStore {
 
   // Actions - Source origin
   setFlowSourceOrigin: (origin: FlowSourceOrigin | null) => void;
+  setFlowSyncConflict: (conflict: FlowSyncConflict | null) => void;
 
   // Actions - Multi-flow
   setActiveFlowId: (id: string | null) => void;
   setAvailableFlows: (flows: { id: string; name: string }[]) => void;
+
+  // Actions - Test runner
+  setHighlightedNodeIds: (ids: string[] | null) => void;
 }
 
 // Generate unique IDs
@@ -132,8 +144,10 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
   selectedEdgeId: null,
   isGeneratingFlow: false,
   flowSourceOrigin: null,
+  flowSyncConflict: null,
   activeFlowId: null,
   availableFlows: [],
+  highlightedNodeIds: null,
 
   // --- Undo/Redo ---
   pushFlowHistory: () => {
@@ -250,6 +264,18 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
       end: 'Fin',
       action: 'Nueva accion',
       decision: 'Condicion?',
+      switch: 'Segun que pide?',
+      wait: 'Esperar respuesta',
+      handoff: 'Derivar a humano',
+      resource: 'Enviar recurso',
+      subflow: 'Subflujo',
+    };
+
+    const defaultData: Partial<Record<FlowNodeType, FlowNode['data']>> = {
+      switch: { outputs: createSwitchOutputs(DEFAULT_SWITCH_LABELS) },
+      wait: { delay: DEFAULT_DELAY },
+      handoff: { handoff: DEFAULT_HANDOFF },
+      resource: { resource: DEFAULT_RESOURCE },
     };
 
     const newNode: FlowNode = {
@@ -257,7 +283,7 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
       type,
       label: defaultLabels[type],
       position: position || findAvailablePosition(nodes, type),
-      data: {},
+      data: defaultData[type] || {},
     };
 
     set({
@@ -271,12 +297,17 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
 
   updateNode: (id: string, updates: Partial<FlowNode>) => {
     get().pushFlowHistory();
-    set((state) => ({
-      nodes: state.nodes.map((node) =>
+    set((state) => {
+      const nodes = state.nodes.map((node) =>
         node.id === id ? { ...node, ...updates } : node
-      ),
-      hasUnsavedChanges: true,
-    }));
+      );
+      // Renamed or removed switch outputs carry over to their edges
+      const updated = nodes.find((node) => node.id === id);
+      const edges = updated?.type === 'switch' && updates.data?.outputs
+        ? syncSwitchEdges(updated, state.edges)
+        : state.edges;
+      return { nodes, edges, hasUnsavedChanges: true };
+    });
   },
 
   updateNodePosition: (id: string, position: FlowPosition) => {
@@ -428,6 +459,10 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
     set({ flowSourceOrigin: origin });
   },
 
+  setFlowSyncConflict: (conflict: FlowSyncConflict | null) => {
+    set({ flowSyncConflict: conflict });
+  },
+
   // Multi-flow actions
   setActiveFlowId: (id: string | null) => {
     set({
@@ -437,10 +472,17 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
       flowFuture: [],
       canUndoFlow: false,
       canRedoFlow: false,
+      highlightedNodeIds: null,
+      flowSyncConflict: null,
     });
   },
 
   setAvailableFlows: (flows: { id: string; name: string }[]) => {
     set({ availableFlows: flows });
   },
+
+  // Test runner actions
+  setHighlightedNodeIds: (ids: string[] | null) => {
+    set({ highlightedNodeIds: ids });
+  },
 }));
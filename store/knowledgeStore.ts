@@ -1,9 +1,11 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { KnowledgeEntry, SuggestionDecision, Project, PromptVersion, Agent } from '@/types/prompt';
+import type { KnowledgeEntry, KnowledgeRelationType, SuggestionDecision, Project, PromptVersion, Agent } from '@/types/prompt';
 import { migrateProjectsToAgents } from '@/lib/migrations/migrateToAgents';
 import { migrateProjectsToFlows } from '@/lib/migrations/migrateToFlows';
-import type { NamedFlow } from '@/types/flow';
+import type { NamedFlow, SavedFlowTemplate } from '@/types/flow';
+import type { GoldenConversation, RegressionRun } from '@/types/regression';
+import type { PromptMergeConflict } from '@/types/merge';
 import {
   type ExportData,
   type MergeOptions,
@@ -25,12 +27,23 @@ import {
   versionsRepository,
   knowledgeRepository,
   decisionsRepository,
+  flowTemplatesRepository,
 } from '@/lib/supabase/repositories';
 import { getSupabaseDeviceId } from '@/lib/supabase/device';
+import { recordLocalPromptWrite, setSyncedPrompt } from '@/lib/supabase/promptSyncState';
+import { reconcileQueuedPrompt } from '@/lib/supabase/reconcile';
+import { MAIN_BRANCH, getBranchHead } from '@/lib/utils/versionBranches';
+import { getKnowledgeIndex, type KnowledgeMatch } from '@/lib/utils/knowledgeIndex';
+import { computeLearningEffectiveness } from '@/lib/utils/learningEffectiveness';
+import { getSupersededIds, validateKnowledgeRelation } from '@/lib/utils/knowledgeRelations';
+import { getScopeBoost, getScopeTarget, isInScope } from '@/lib/utils/knowledgeScope';
+
+// Learnings below this similarity with a section aren't suggested for it
+const MIN_LEARNING_SIMILARITY = 0.12;
 
 // Types for pending operations
 type OperationType = 'create' | 'update' | 'delete';
-type EntityType = 'project' | 'version' | 'knowledge' | 'decision' | 'agent';
+type EntityType = 'project' | 'version' | 'knowledge' | 'decision' | 'agent' | 'flowTemplate';
 
 interface PendingOperation {
   id: string;
@@ -58,6 +71,12 @@ interface KnowledgeStore {
   projects: Project[];
   currentProjectId: string | null;
 
+  // Flow templates saved by the team (on top of the built-in ones)
+  flowTemplates: SavedFlowTemplate[];
+
+  // Concurrent prompt edits the automatic merge couldn't resolve (one per agent)
+  mergeConflicts: PromptMergeConflict[];
+
   // Sync State
   sync: SyncState;
 
@@ -66,6 +85,11 @@ interface KnowledgeStore {
   updateEntry: (id: string, updates: Partial<KnowledgeEntry>) => void;
   deleteEntry: (id: string) => void;
   incrementUsage: (id: string, projectId: string) => void;
+  // Returns the reason when the relation isn't allowed, null once it's added
+  addKnowledgeRelation: (sourceId: string, type: KnowledgeRelationType, targetId: string) => string | null;
+  removeKnowledgeRelation: (sourceId: string, targetId: string) => void;
+  // Replaces `effectiveness` with the one computed from decisions and regression runs
+  refreshLearningEffectiveness: () => void;
 
   // Actions - Decisions
   recordDecision: (decision: Omit<SuggestionDecision, 'id' | 'timestamp'>) => void;
@@ -94,12 +118,26 @@ interface KnowledgeStore {
   renameFlow: (projectId: string, agentId: string, flowId: string, newName: string) => void;
   setActiveFlowId: (projectId: string, agentId: string, flowId: string | null) => void;
 
+  // Actions - Golden conversations / regression (per agent)
+  addGoldenConversation: (projectId: string, agentId: string, conversation: Omit<GoldenConversation, 'id' | 'createdAt'>) => string;
+  deleteGoldenConversation: (projectId: string, agentId: string, conversationId: string) => void;
+  saveRegressionRun: (projectId: string, agentId: string, run: RegressionRun) => void;
+
+  // Actions - Flow templates
+  addFlowTemplate: (template: Omit<SavedFlowTemplate, 'id' | 'createdAt' | 'updatedAt'>) => string;
+  updateFlowTemplate: (id: string, updates: Partial<SavedFlowTemplate>) => void;
+  deleteFlowTemplate: (id: string) => void;
+
+  // Actions - Merge conflicts
+  addMergeConflict: (conflict: Omit<PromptMergeConflict, 'id' | 'detectedAt'>) => string;
+  dismissMergeConflict: (id: string) => void;
+
   // Actions - Search
   searchEntries: (query: string, tags?: string[]) => KnowledgeEntry[];
   getEntriesByFeedbackType: (feedbackType: string) => KnowledgeEntry[];
   getPatterns: () => KnowledgeEntry[];
   getAntiPatterns: () => KnowledgeEntry[];
-  findRelevantLearnings: (sectionTitle: string, sectionContent: string, sectionType?: string, limit?: number) => KnowledgeEntry[];
+  findRelevantLearnings: (sectionTitle: string, sectionContent: string, sectionType?: string, limit?: number) => KnowledgeMatch[];
 
   // Actions - Export/Import
   exportCurrentProject: () => void;
@@ -167,6 +205,8 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
       decisions: [],
       projects: [],
       currentProjectId: null,
+      flowTemplates: [],
+      mergeConflicts: [],
 
       // Initial sync state
       sync: {
@@ -221,6 +261,11 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
       },
 
       deleteEntry: (id) => {
+        // Drop the relations other entries had to this one
+        get().entries
+          .filter((e) => e.id !== id && e.relations?.some((r) => r.targetId === id))
+          .forEach((e) => get().removeKnowledgeRelation(e.id, id));
+
         set((state) => ({
           entries: state.entries.filter((e) => e.id !== id),
           sync: {
@@ -262,6 +307,52 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
         }
       },
 
+      addKnowledgeRelation: (sourceId, type, targetId) => {
+        const { entries } = get();
+        const error = validateKnowledgeRelation(sourceId, type, targetId, entries);
+        if (error) return error;
+
+        const source = entries.find((e) => e.id === sourceId)!;
+        get().updateEntry(sourceId, { relations: [...(source.relations || []), { type, targetId }] });
+        return null;
+      },
+
+      removeKnowledgeRelation: (sourceId, targetId) => {
+        const source = get().entries.find((e) => e.id === sourceId);
+        if (!source?.relations) return;
+        get().updateEntry(sourceId, { relations: source.relations.filter((r) => r.targetId !== targetId) });
+      },
+
+      refreshLearningEffectiveness: () => {
+        const { entries, decisions, projects } = get();
+        const computed = computeLearningEffectiveness(entries, decisions, projects);
+
+        // Manual labels stay until there's enough evidence to replace them
+        const changed = entries.filter((e) => {
+          const level = computed.get(e.id)?.effectiveness;
+          return level && level !== e.effectiveness;
+        });
+        if (changed.length === 0) return;
+
+        const levels = new Map(changed.map((e) => [e.id, computed.get(e.id)!.effectiveness!]));
+        set((state) => ({
+          entries: state.entries.map((e) =>
+            levels.has(e.id) ? { ...e, effectiveness: levels.get(e.id)! } : e
+          ),
+          sync: {
+            ...state.sync,
+            pendingOperations: [
+              ...state.sync.pendingOperations,
+              ...changed.map((e) =>
+                createPendingOperation('update', 'knowledge', e.id, { effectiveness: levels.get(e.id)! })
+              ),
+            ],
+          },
+        }));
+
+        get().syncToSupabase();
+      },
+
       // Decisions
       recordDecision: (decisionData) => {
         const decision: SuggestionDecision = {
@@ -282,6 +373,7 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
         }));
 
         get().syncToSupabase();
+        if (decision.knowledgeEntryIds?.length) get().refreshLearningEffectiveness();
       },
 
       getDecisionsByCategory: (category) => {
@@ -388,7 +480,8 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
           timestamp: Date.now(),
           label,
           changes,
-          parentVersionId: agent.versions.length > 0 ? agent.versions[agent.versions.length - 1].id : undefined,
+          parentVersionId: getBranchHead(agent.versions, agent.currentBranch || MAIN_BRANCH)?.id,
+          branch: agent.currentBranch && agent.currentBranch !== MAIN_BRANCH ? agent.currentBranch : undefined,
         };
 
         set((state) => ({
@@ -465,6 +558,10 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
       },
 
       updateAgent: (projectId, agentId, updates) => {
+        if (updates.currentPrompt !== undefined) {
+          recordLocalPromptWrite(agentId, updates.currentPrompt);
+        }
+
         set((state) => ({
           projects: state.projects.map(p => {
             if (p.id !== projectId) return p;
@@ -690,6 +787,123 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
         }));
       },
 
+      // Golden conversations (per agent)
+      addGoldenConversation: (projectId, agentId, conversation) => {
+        const agent = get().projects.find(p => p.id === projectId)?.agents.find(a => a.id === agentId);
+        if (!agent) return '';
+
+        const newConversation: GoldenConversation = {
+          ...conversation,
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+        };
+
+        get().updateAgent(projectId, agentId, {
+          goldenConversations: [...(agent.goldenConversations || []), newConversation],
+        });
+        return newConversation.id;
+      },
+
+      deleteGoldenConversation: (projectId, agentId, conversationId) => {
+        const agent = get().projects.find(p => p.id === projectId)?.agents.find(a => a.id === agentId);
+        if (!agent) return;
+
+        get().updateAgent(projectId, agentId, {
+          goldenConversations: (agent.goldenConversations || []).filter(c => c.id !== conversationId),
+        });
+      },
+
+      saveRegressionRun: (projectId, agentId, run) => {
+        const agent = get().projects.find(p => p.id === projectId)?.agents.find(a => a.id === agentId);
+        if (!agent) return;
+
+        // Keep only the latest run per version
+        const otherRuns = (agent.regressionRuns || []).filter(r => r.versionId !== run.versionId);
+        get().updateAgent(projectId, agentId, { regressionRuns: [...otherRuns, run] });
+        get().refreshLearningEffectiveness();
+      },
+
+      // Flow templates
+      addFlowTemplate: (templateData) => {
+        const now = Date.now();
+        const template: SavedFlowTemplate = {
+          ...templateData,
+          id: crypto.randomUUID(),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set((state) => ({
+          flowTemplates: [template, ...state.flowTemplates],
+          sync: {
+            ...state.sync,
+            pendingOperations: [
+              ...state.sync.pendingOperations,
+              createPendingOperation('create', 'flowTemplate', template.id, template),
+            ],
+          },
+        }));
+
+        get().syncToSupabase();
+        return template.id;
+      },
+
+      updateFlowTemplate: (id, updates) => {
+        set((state) => ({
+          flowTemplates: state.flowTemplates.map((t) =>
+            t.id === id ? { ...t, ...updates, updatedAt: Date.now() } : t
+          ),
+          sync: {
+            ...state.sync,
+            pendingOperations: [
+              ...state.sync.pendingOperations,
+              createPendingOperation('update', 'flowTemplate', id, updates),
+            ],
+          },
+        }));
+
+        get().syncToSupabase();
+      },
+
+      deleteFlowTemplate: (id) => {
+        set((state) => ({
+          flowTemplates: state.flowTemplates.filter((t) => t.id !== id),
+          sync: {
+            ...state.sync,
+            pendingOperations: [
+              ...state.sync.pendingOperations,
+              createPendingOperation('delete', 'flowTemplate', id),
+            ],
+          },
+        }));
+
+        get().syncToSupabase();
+      },
+
+      // Merge conflicts
+      addMergeConflict: (conflictData) => {
+        const conflict: PromptMergeConflict = {
+          ...conflictData,
+          id: crypto.randomUUID(),
+          detectedAt: Date.now(),
+        };
+
+        // A newer conflict on the same agent supersedes the previous one
+        set((state) => ({
+          mergeConflicts: [
+            ...state.mergeConflicts.filter(c => c.agentId !== conflict.agentId),
+            conflict,
+          ],
+        }));
+        return conflict.id;
+      },
+
+      dismissMergeConflict: (id) => {
+        set((state) => ({
+          mergeConflicts: state.mergeConflicts.filter(c => c.id !== id),
+        }));
+      },
+
       // Search
       searchEntries: (query, tags) => {
         const { entries } = get();
@@ -723,60 +937,34 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
 
       findRelevantLearnings: (sectionTitle, sectionContent, sectionType, limit = 5) => {
         const { entries } = get();
-        
-        // Extract keywords from section
-        const extractKeywords = (text: string): string[] => {
-          const words = text
-            .toLowerCase()
-            .replace(/[^\w\sáéíóúñ]/g, ' ')
-            .split(/\s+/)
-            .filter(w => w.length > 3);
-          
-          const stopWords = new Set(['para', 'que', 'con', 'por', 'como', 'este', 'esta', 'esto', 'the', 'and', 'for', 'with']);
-          return words.filter(w => !stopWords.has(w));
-        };
-        
-        const sectionKeywords = extractKeywords(sectionTitle + ' ' + sectionContent);
-        
-        // Calculate relevance score for each entry
-        const scored = entries.map(entry => {
-          let score = 0;
-          
-          // Match by tags
-          const sectionTags = [
-            sectionType,
-            ...sectionKeywords.slice(0, 5)
-          ].filter(Boolean);
-          
-          const matchingTags = entry.tags.filter(t => 
-            sectionTags.some(st => st && st.toLowerCase().includes(t.toLowerCase()))
-          );
-          score += matchingTags.length * 10;
-          
-          // Match by keywords in title/description
-          const entryText = (entry.title + ' ' + entry.description).toLowerCase();
-          sectionKeywords.forEach(kw => {
-            if (entryText.includes(kw.toLowerCase())) {
-              score += 5;
-            }
-          });
-          
-          // Boost by effectiveness
-          score += entry.effectiveness === 'high' ? 15 : 
-                   entry.effectiveness === 'medium' ? 10 : 5;
-          
-          // Boost by usage frequency
-          score += Math.min(entry.usageCount * 2, 20);
-          
-          return { entry, score };
-        });
-        
-        // Filter by minimum score and sort
-        return scored
-          .filter(s => s.score > 10)
-          .sort((a, b) => b.score - a.score)
-          .slice(0, limit)
-          .map(s => s.entry);
+        if (entries.length === 0) return [];
+
+        // Semantic similarity with the section, the title weighs more than the body
+        // Superseded entries are history, never suggestions; scoped ones only reach their agents
+        const superseded = getSupersededIds(entries);
+        const scopeTarget = getScopeTarget(get().getCurrentProject() ?? undefined, get().getCurrentAgent() ?? undefined);
+        const matches = getKnowledgeIndex(entries).search(
+          [
+            { text: sectionTitle, weight: 1 },
+            { text: sectionContent, weight: 2 },
+          ],
+          {
+            minScore: MIN_LEARNING_SIMILARITY,
+            filter: (entry) => !superseded.has(entry.id) && isInScope(entry, scopeTarget),
+          }
+        );
+
+        // Rank by similarity, with small boosts for scope, section type, effectiveness and usage
+        const rank = ({ entry, score }: KnowledgeMatch) =>
+          score +
+          getScopeBoost(entry) +
+          (sectionType && entry.tags.some(t => t.toLowerCase() === sectionType.toLowerCase()) ? 0.1 : 0) +
+          (entry.effectiveness === 'high' ? 0.05 : entry.effectiveness === 'medium' ? 0.025 : 0) +
+          Math.min(entry.usageCount * 0.01, 0.05);
+
+        return matches
+          .sort((a, b) => rank(b) - rank(a))
+          .slice(0, limit);
       },
 
       // Export/Import
@@ -924,10 +1112,11 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
 
         try {
           // Fetch all data from Supabase
-          const [supabaseProjects, supabaseEntries, supabaseDecisions] = await Promise.all([
+          const [supabaseProjects, supabaseEntries, supabaseDecisions, supabaseTemplates] = await Promise.all([
             projectsRepository.getAll(deviceId),
             knowledgeRepository.getAll(deviceId),
             decisionsRepository.getAll(deviceId),
+            flowTemplatesRepository.getAll(deviceId),
           ]);
 
           const localState = get();
@@ -948,10 +1137,15 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
             ? localState.decisions
             : supabaseDecisions;
 
+          const mergedTemplates = localState.flowTemplates.length > 0
+            ? localState.flowTemplates
+            : supabaseTemplates;
+
           set({
             projects: mergedProjects,
             entries: mergedEntries,
             decisions: mergedDecisions,
+            flowTemplates: mergedTemplates,
             sync: {
               ...localState.sync,
               isSyncing: false,
@@ -1065,13 +1259,14 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
         // 1. Projects first (agents depend on them)
         // 2. Agents second (versions depend on them)
         // 3. Versions third (sorted topologically so parents come before children)
-        // 4. Knowledge and decisions last
+        // 4. Knowledge, decisions and flow templates last
         const entityOrder: Record<string, number> = {
           project: 1,
           agent: 2,
           version: 3,
           knowledge: 4,
           decision: 5,
+          flowTemplate: 6,
         };
 
         // Separate operations by entity type
@@ -1092,7 +1287,7 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
         const projectCreates = otherOps.filter(op => op.entity === 'project' && op.type === 'create');
         const projectUpdates = otherOps.filter(op => op.entity === 'project' && op.type !== 'create');
         const agentOps = otherOps.filter(op => op.entity === 'agent');
-        const tailOps = otherOps.filter(op => entityOrder[op.entity] > 3); // knowledge, decisions
+        const tailOps = otherOps.filter(op => entityOrder[op.entity] > 3); // knowledge, decisions, templates
 
         // Combine: project creates → agents → project updates → versions → knowledge/decisions
         const operations = [
@@ -1155,7 +1350,21 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
                     const result = await agentsRepository.create(agentData);
                     success = !!result;
                   } else if (op.type === 'update') {
-                    success = await agentsRepository.update(op.entityId, op.data as Partial<Agent>);
+                    const agentUpdates = { ...(op.data as Partial<Agent>) };
+                    if (agentUpdates.currentPrompt !== undefined) {
+                      // Merge with what other devices pushed meanwhile instead of overwriting it
+                      const prompt = await reconcileQueuedPrompt(op.entityId, agentUpdates.currentPrompt);
+                      if (prompt === null) {
+                        delete agentUpdates.currentPrompt;
+                      } else {
+                        agentUpdates.currentPrompt = prompt;
+                        recordLocalPromptWrite(op.entityId, prompt);
+                      }
+                    }
+                    success = await agentsRepository.update(op.entityId, agentUpdates);
+                    if (success && agentUpdates.currentPrompt !== undefined) {
+                      setSyncedPrompt(op.entityId, agentUpdates.currentPrompt);
+                    }
                   } else if (op.type === 'delete') {
                     success = await agentsRepository.delete(op.entityId);
                   }
@@ -1210,6 +1419,17 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
                   }
                   break;
                 }
+                case 'flowTemplate': {
+                  if (op.type === 'create') {
+                    const result = await flowTemplatesRepository.createWithId(op.data as SavedFlowTemplate, deviceId);
+                    success = !!result;
+                  } else if (op.type === 'update') {
+                    success = await flowTemplatesRepository.update(op.entityId, op.data as Partial<SavedFlowTemplate>);
+                  } else if (op.type === 'delete') {
+                    success = await flowTemplatesRepository.delete(op.entityId);
+                  }
+                  break;
+                }
               }
             } catch (error) {
               lastError = error instanceof Error ? error.message : 'Error desconocido';
@@ -1234,16 +1454,13 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
         }
 
         // Update state with results
-        const remainingOps = sync.pendingOperations.filter(
-          (op) => !processedIds.includes(op.id)
-        );
-
+        // Keep operations queued while this run was pushing (e.g. a merged prompt)
         set((state) => ({
           sync: {
             ...state.sync,
             isSyncing: false,
             lastSyncedAt: processedIds.length > 0 ? Date.now() : state.sync.lastSyncedAt,
-            pendingOperations: remainingOps,
+            pendingOperations: state.sync.pendingOperations.filter((op) => !processedIds.includes(op.id)),
             lastError: failedOperations.length > 0
               ? {
                   operation: `${failedOperations[0].op.type} ${failedOperations[0].op.entity}`,
@@ -1271,6 +1488,8 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
         decisions: state.decisions,
         projects: state.projects,
         currentProjectId: state.currentProjectId,
+        flowTemplates: state.flowTemplates,
+        mergeConflicts: state.mergeConflicts,
         sync: {
           ...state.sync,
           // Don't persist transient sync state
@@ -1323,6 +1542,10 @@ export const useKnowledgeStore = create<KnowledgeStore>()(
             ops.push(createPendingOperation('create', 'decision', decision.id, decision));
           }
 
+          for (const template of state.flowTemplates || []) {
+            ops.push(createPendingOperation('create', 'flowTemplate', template.id, template));
+          }
+
           state.sync.pendingOperations = ops;
 
           if (typeof window !== 'undefined') {
@@ -83,3 +83,11 @@ export const CATEGORY_INFO: Record<CategoryType, { label: string; color: string
   efficiency: { label: 'Eficiencia', color: 'gray' },
   hallucination: { label: 'Alucinación', color: 'orange' },
 };
+
+// Severity display info (CSS vars from the dark theme)
+export const SEVERITY_INFO: Record<SeverityLevel, { label: string; color: string; bg: string }> = {
+  critical: { label: 'Crítica', color: 'var(--error)', bg: 'var(--error-subtle)' },
+  high: { label: 'Alta', color: 'var(--warning)', bg: 'var(--warning-subtle)' },
+  medium: { label: 'Media', color: 'var(--info)', bg: 'var(--info-subtle)' },
+  low: { label: 'Baja', color: 'var(--text-muted)', bg: 'var(--bg-tertiary)' },
+};
@@ -0,0 +1,34 @@
+import type { GoldenTurn } from '@/types/regression';
+
+export type ComparisonSide = 'A' | 'B';
+export type ComparisonWinner = ComparisonSide | 'tie';
+
+// One input sent to both prompts: the conversation so far, ending with a lead message
+export interface ComparisonInput {
+  id: string;
+  label: string;
+  history: GoldenTurn[];
+  expectedBehavior?: string;           // From a flow test case, shown to the judge
+  redFlags?: string[];
+}
+
+export interface ComparisonTurnResult {
+  inputId: string;
+  replyA: string;
+  replyB: string;
+  scoreA: number;                      // 1-10, judge score
+  scoreB: number;
+  winner: ComparisonWinner;
+  reasoning?: string;
+  error?: string;
+}
+
+export interface ComparisonSummary {
+  winsA: number;
+  winsB: number;
+  ties: number;
+  errors: number;
+  averageA: number;
+  averageB: number;
+  winner: ComparisonWinner;
+}
@@ -1,5 +1,14 @@
 // Flow node types for the flowchart
-export type FlowNodeType = 'start' | 'end' | 'action' | 'decision';
+export type FlowNodeType =
+  | 'start'
+  | 'end'
+  | 'action'
+  | 'decision'
+  | 'switch'
+  | 'wait'
+  | 'handoff'
+  | 'resource'
+  | 'subflow';
 
 // Position in the canvas
 export interface FlowPosition {
@@ -7,6 +16,68 @@ export interface FlowPosition {
   y: number;
 }
 
+// Labelled output of a switch node; edges leave through `sourceHandle === id`
+export interface SwitchOutput {
+  id: string;
+  label: string;
+}
+
+// Wait node: how long to wait for the lead before following up
+export type DelayUnit = 'minutes' | 'hours' | 'days';
+
+export interface FlowDelay {
+  amount: number;
+  unit: DelayUnit;
+}
+
+// Handoff node: who takes over the conversation and where
+export type HandoffTarget = 'setter' | 'closer' | 'support' | 'human';
+export type HandoffChannel = 'dm' | 'whatsapp' | 'call' | 'email';
+
+export interface FlowHandoff {
+  target: HandoffTarget;
+  channel?: HandoffChannel;
+}
+
+// Resource node: material sent to the lead
+export type ResourceKind = 'vsl' | 'pdf' | 'link' | 'calendar' | 'video';
+
+export interface FlowResource {
+  kind: ResourceKind;
+  url?: string;
+}
+
+// Flow variable: a typed slot of lead data the flow captures (presupuesto, objetivo...)
+export type FlowVariableType = 'string' | 'number' | 'enum' | 'boolean';
+
+export interface FlowVariable {
+  id: string;
+  name: string;                        // Identifier used in prompts and conditions ("presupuesto")
+  type: FlowVariableType;
+  description?: string;
+  options?: string[];                  // For enum variables
+}
+
+// Comparison a decision node makes over a captured slot
+export type SlotOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'is_true'
+  | 'is_false'
+  | 'is_set';
+
+export interface SlotCondition {
+  variableId: string;
+  operator: SlotOperator;
+  value?: string;                      // Raw value; "in" takes a comma-separated list
+}
+
 // Base flow node
 export interface FlowNode {
   id: string;
@@ -21,6 +92,13 @@ export interface FlowNode {
     instructions?: string; // Agent instructions for this step
     keywords?: string[]; // Keywords/triggers that activate this node
     crossFlowRef?: string; // Target flow ID for cross-flow end nodes ("go to flow X")
+    outputs?: SwitchOutput[]; // For switch nodes: ordered, labelled exits
+    delay?: FlowDelay; // For wait nodes
+    handoff?: FlowHandoff; // For handoff nodes
+    resource?: FlowResource; // For resource nodes
+    captures?: string; // For action nodes: id of the flow variable this step fills
+    slotCondition?: SlotCondition; // For decision nodes: condition over a captured variable
+    subflowRef?: string; // For subflow nodes: id of the NamedFlow (of any agent in the project) reused here, or "template:<id>" for a library template
   };
 }
 
@@ -30,7 +108,7 @@ export interface FlowEdge {
   source: string;
   target: string;
   label?: string;
-  // For decision nodes: which branch (e.g., "yes", "no")
+  // For decision nodes: which branch (e.g., "yes", "no"); for switch nodes: the output id
   sourceHandle?: string;
 }
 
@@ -40,11 +118,68 @@ export interface FlowData {
   edges: FlowEdge[];
 }
 
+// How a flow is written in its source region of the prompt: "N. [Tipo] paso" lines written
+// by the app ('steps'), numbered steps written by hand ('text'), ASCII boxes or a <flow> tag
+export type FlowSourceFormat = 'steps' | 'text' | 'ascii' | 'json';
+
 // Tracks where a flow was extracted from in the prompt (for roundtrip reinsertion)
 export interface FlowSourceOrigin {
-  rawText: string;        // Original text block that was extracted
+  rawText: string;        // Original text block that was extracted (last synced text when live sync is on)
   name: string;           // Flow name (e.g. "RESOURCE_FLOW")
   headerAnchor: string;   // First line of the header, used as fallback search anchor
+  format?: FlowSourceFormat;
+  liveSync?: boolean;     // Canvas and prompt region update each other (see lib/utils/flowPromptSync.ts)
+  syncedFlowText?: string; // Canvas serialized in `format` at the last sync, to tell which side changed
+}
+
+// Live sync found edits on both sides since the last sync; the user picks which one wins
+export interface FlowSyncConflict {
+  flowId: string;
+  promptText: string | null;  // Current region text, null when the region is no longer in the prompt
+  unreadable?: boolean;       // The region was edited but no longer reads as a flow
+}
+
+// Lead personas used by generated test cases and the conversation simulator
+export type LeadPersonaId = 'ideal' | 'skeptic' | 'price_shopper' | 'freeloader' | 'minor';
+
+// How a simulated conversation ended
+export type TestOutcome = 'converted' | 'nurture' | 'lost' | 'blocked' | 'timeout';
+
+// Test case generated by /api/flow/test-cases
+export interface FlowTestCase {
+  id: string;
+  name: string;
+  description: string;
+  triggerMessage: string;
+  personaId: LeadPersonaId;
+  expectedBehavior: string;
+  expectedOutcome: TestOutcome;
+  redFlags: string[];
+  nodesExpectedToVisit: string[];
+}
+
+// One message of a simulated DM conversation
+export interface SimulatedTurn {
+  role: 'lead' | 'agent';
+  content: string;
+  nodeIds?: string[];                  // Flow nodes the agent reported executing in this turn
+}
+
+export type FlowTestStatus = 'passed' | 'failed' | 'error';
+
+// Result of running a FlowTestCase through the simulator
+export interface FlowTestRun {
+  id: string;
+  testCaseId: string;
+  status: FlowTestStatus;
+  actualOutcome?: TestOutcome;
+  triggeredRedFlags: string[];
+  visitedNodeIds: string[];
+  missedNodeIds: string[];             // Expected nodes that were never visited
+  transcript: SimulatedTurn[];
+  reasoning?: string;                  // Judge explanation
+  error?: string;
+  runAt: number;
 }
 
 // Named flow: a single flow within an agent's flow collection
@@ -53,6 +188,42 @@ export interface NamedFlow {
   name: string;                        // "FLUJO_VENTAS"
   flowData: FlowData;                  // nodes + edges
   sourceOrigin?: FlowSourceOrigin;     // For roundtrip reinsertion
+  testCases?: FlowTestCase[];          // Generated test cases for this flow
+  testRuns?: FlowTestRun[];            // Latest run per test case
+  variables?: FlowVariable[];          // Lead slots captured along the flow
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Flow lint: per-project overrides of the registered rules (see lib/utils/flowLint.ts)
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface FlowLintRuleOverride {
+  enabled?: boolean;                   // false turns the rule off
+  severity?: LintSeverity;             // Replaces the rule's default severity
+}
+
+export interface FlowLintConfig {
+  rules?: Record<string, FlowLintRuleOverride>; // By rule id
+  maxConsecutiveMessages?: number;     // Agent messages in a row before "consecutive-agent-messages" fires
+}
+
+// Value filled in when a saved template is instantiated ("{{oferta}}" in any text of the flow)
+export interface FlowTemplatePlaceholder {
+  key: string;                         // "oferta"
+  label: string;                       // "Oferta"
+}
+
+// Flow template saved by the team (project library, synced to Supabase)
+export interface SavedFlowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  flowData: FlowData;
+  variables?: FlowVariable[];
+  placeholders: FlowTemplatePlaceholder[];
+  sourceFlowId?: string;               // NamedFlow it was saved from
   createdAt: number;
   updatedAt: number;
 }
@@ -60,6 +231,9 @@ export interface NamedFlow {
 // Output format for flow-to-text conversion
 export type FlowTextFormat = 'structured' | 'mermaid';
 
+// File formats flows are imported from and exported to (see lib/utils/flowInterchange.ts)
+export type FlowFileFormat = 'mermaid' | 'dot' | 'drawio';
+
 // React Flow node data - includes index signature for React Flow compatibility
 export interface ReactFlowNodeData {
   label: string;
@@ -70,6 +244,18 @@ export interface ReactFlowNodeData {
   keywords?: string[];
   crossFlowRef?: string;
   crossFlowName?: string;
+  outputs?: SwitchOutput[];
+  delay?: FlowDelay;
+  handoff?: FlowHandoff;
+  resource?: FlowResource;
+  captures?: string;
+  slotCondition?: SlotCondition;
+  captureName?: string;
+  slotConditionText?: string;
+  subflowRef?: string;
+  subflowName?: string;
+  subflowSteps?: string[];
+  subflowMissing?: boolean;
   onLabelChange?: (label: string) => void;
   onDelete?: () => void;
   isSelected?: boolean;
@@ -98,6 +284,31 @@ export const NODE_COLORS: Record<FlowNodeType, { bg: string; border: string; tex
     border: 'var(--warning)',
     text: 'var(--warning)',
   },
+  switch: {
+    bg: 'var(--info-subtle)',
+    border: 'var(--info)',
+    text: 'var(--info)',
+  },
+  wait: {
+    bg: 'var(--bg-elevated)',
+    border: 'var(--text-muted)',
+    text: 'var(--text-secondary)',
+  },
+  handoff: {
+    bg: 'rgba(168, 85, 247, 0.1)',
+    border: '#a855f7',
+    text: '#a855f7',
+  },
+  resource: {
+    bg: 'var(--success-subtle)',
+    border: 'var(--success)',
+    text: 'var(--success)',
+  },
+  subflow: {
+    bg: 'var(--bg-tertiary)',
+    border: 'var(--accent-primary)',
+    text: 'var(--accent-primary)',
+  },
 };
 
 // Node dimensions
@@ -106,4 +317,9 @@ export const NODE_DIMENSIONS: Record<FlowNodeType, { width: number; height: numb
   end: { width: 100, height: 50 },
   action: { width: 200, height: 80 },
   decision: { width: 150, height: 100 },
+  switch: { width: 220, height: 90 },
+  wait: { width: 180, height: 70 },
+  handoff: { width: 200, height: 70 },
+  resource: { width: 200, height: 80 },
+  subflow: { width: 220, height: 80 },
 };
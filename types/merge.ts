@@ -0,0 +1,38 @@
+// One top-level block of the merged prompt (null content = deleted)
+export interface MergedBlock {
+  key: string;
+  title: string;
+  content: string | null;
+  conflict: boolean;
+}
+
+// A section both sides changed differently
+export interface MergeConflictBlock {
+  key: string;
+  title: string;
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+}
+
+export interface PromptMergeResult {
+  blocks: MergedBlock[];
+  conflicts: MergeConflictBlock[];
+}
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+// Unresolved merge waiting for the user, one per agent
+export interface PromptMergeConflict {
+  id: string;
+  projectId: string;
+  agentId: string;
+  source: 'draft' | 'version';          // Remote unsaved prompt vs remote saved version
+  theirsLabel: string;
+  base: string;
+  ours: string;
+  theirs: string;
+  result: PromptMergeResult;
+  theirsVersionId?: string;
+  detectedAt: number;
+}
@@ -36,3 +36,18 @@ export interface CompressionState {
   suggestionId: string;
   status: CompressionStatus;
 }
+
+// Display info for clarity impact (CSS vars from the dark theme)
+export const CLARITY_IMPACT_INFO: Record<CompressionSuggestion['clarityImpact'], { label: string; color: string; bg: string }> = {
+  none: { label: 'Sin impacto', color: 'var(--success)', bg: 'var(--success-subtle)' },
+  minimal: { label: 'Impacto mínimo', color: 'var(--info)', bg: 'var(--info-subtle)' },
+  moderate: { label: 'Impacto moderado', color: 'var(--warning)', bg: 'var(--warning-subtle)' },
+  significant: { label: 'Impacto alto', color: 'var(--error)', bg: 'var(--error-subtle)' },
+};
+
+export const COMPRESSION_CATEGORY_LABELS: Record<CompressionSuggestion['category'], string> = {
+  verbose: 'Verboso',
+  redundant: 'Redundante',
+  filler: 'Relleno',
+  restructure: 'Reestructurar',
+};
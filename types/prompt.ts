@@ -1,4 +1,5 @@
-import type { FlowData, FlowSourceOrigin, NamedFlow } from '@/types/flow';
+import type { FlowData, FlowLintConfig, FlowSourceOrigin, NamedFlow } from '@/types/flow';
+import type { GoldenConversation, RegressionRun } from '@/types/regression';
 
 // Chat message for QA conversations
 export interface ChatMessage {
@@ -18,6 +19,8 @@ export interface PromptVersion {
   label: string;
   changes?: VersionChange[];
   parentVersionId?: string;
+  branch?: string;           // Named branch; undefined = "main"
+  originVersionId?: string;  // Branch version this one was promoted / cherry-picked from
   // NEW: Top-level change type for quick filtering/display
   changeType?: 'manual' | 'suggestion_applied' | 'auto_save';
   changeDetails?: {
@@ -46,12 +49,15 @@ export interface Agent {
   description?: string;
   currentPrompt: string;
   versions: PromptVersion[];
+  currentBranch?: string;    // Branch the editor works on; undefined = "main"
   annotations: PromptAnnotation[];
   chatMessages: ChatMessage[];
   flowData?: FlowData;                    // Legacy: single flow (kept for migration)
   flowSourceOrigin?: FlowSourceOrigin;    // Legacy: single origin (kept for migration)
   flows?: NamedFlow[];                    // Multi-flow: array of named flows
   activeFlowId?: string | null;           // Multi-flow: currently viewed flow
+  goldenConversations?: GoldenConversation[]; // Saved real conversations used as regression suite
+  regressionRuns?: RegressionRun[];       // Latest regression run per version (by versionId)
   createdAt: number;
   updatedAt: number;
 }
@@ -70,6 +76,21 @@ export interface Project {
   agents: Agent[];
   currentAgentId: string | null;
   sharedContext?: string;       // Info del negocio compartida entre agentes
+  flowLintConfig?: FlowLintConfig; // Reglas de validacion de flujos desactivadas o con otra severidad
+}
+
+// Sections of Project.sharedContext, stored as "## Titulo" blocks of markdown
+export type SharedContextSectionKey = 'offers' | 'prices' | 'links' | 'bio' | 'faqs' | 'other';
+
+export type SharedContextSections = Record<SharedContextSectionKey, string>;
+
+// A price or link in an agent prompt that doesn't match the shared context
+export interface SharedContextIssue {
+  kind: 'price' | 'link';
+  value: string;          // As written in the prompt
+  startIndex: number;
+  endIndex: number;
+  expected: string[];     // Prices or links (same domain) the shared context has
 }
 
 // Knowledge category types
@@ -99,6 +120,26 @@ export interface KnowledgeEntry {
   usageCount: number;
   projectIds: string[]; // Which projects used this
   category?: KnowledgeCategory; // Primary category for organization
+  relations?: KnowledgeRelation[]; // Outgoing relations to other entries
+  scope?: KnowledgeScope;          // Where it applies; undefined = global
+}
+
+// global: every agent; project: one client's agents; channel: agents with that
+// Agent.channelType; niche: projects with that tag
+export type KnowledgeScopeKind = 'global' | 'project' | 'channel' | 'niche';
+
+export interface KnowledgeScope {
+  kind: KnowledgeScopeKind;
+  value?: string;   // Project id, channel type or niche tag (unused for global)
+}
+
+// supersedes: replaces the target; refines: more specific version of the target;
+// conflicts_with: contradicts the target (symmetric, stored on one side)
+export type KnowledgeRelationType = 'supersedes' | 'refines' | 'conflicts_with';
+
+export interface KnowledgeRelation {
+  type: KnowledgeRelationType;
+  targetId: string;
 }
 
 // Suggestion decision for learning
@@ -115,6 +156,9 @@ export interface SuggestionDecision {
   severity: string;
   timestamp: number;
   savedToKnowledge: boolean;
+  agentId?: string;
+  knowledgeEntryIds?: string[]; // Learnings that produced or informed the suggestion
+  versionId?: string;           // Version saved right after the change, if any
 }
 
 // Inline annotations/comments on prompt text
@@ -0,0 +1,58 @@
+// One message of a saved conversation
+export interface GoldenTurn {
+  role: 'lead' | 'agent';
+  content: string;
+}
+
+// Real conversation saved as regression evidence for an agent
+export interface GoldenConversation {
+  id: string;
+  name: string;
+  transcript: GoldenTurn[];            // Agent turns are the expected replies
+  expectedBehavior: string;            // What the agent must (or must not) do
+  createdAt: number;
+}
+
+export type RubricCriterion = 'behavior' | 'tone' | 'accuracy' | 'flow';
+
+export interface RubricScore {
+  criterion: RubricCriterion;
+  score: number;                       // 1-5
+  comment?: string;
+}
+
+// Expected vs new reply for one replayed lead turn
+export interface ReplayedTurn {
+  turnIndex: number;                   // Index of the expected agent turn in the transcript
+  leadMessage: string;
+  expectedReply: string;
+  actualReply: string;
+}
+
+export type GoldenResultStatus = 'passed' | 'failed' | 'error';
+
+export interface GoldenConversationResult {
+  conversationId: string;
+  conversationName: string;
+  status: GoldenResultStatus;
+  score: number;                       // 0-100, from the rubric
+  rubric: RubricScore[];
+  turns: ReplayedTurn[];
+  reasoning?: string;
+  error?: string;
+}
+
+// A replay of all golden conversations against one PromptVersion
+export interface RegressionRun {
+  id: string;
+  versionId: string;
+  results: GoldenConversationResult[];
+  runAt: number;
+}
+
+export const RUBRIC_CRITERIA: Record<RubricCriterion, string> = {
+  behavior: 'Comportamiento esperado',
+  tone: 'Tono y estilo',
+  accuracy: 'Sin inventar información',
+  flow: 'Avanza la conversación',
+};